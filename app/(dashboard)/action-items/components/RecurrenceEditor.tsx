@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/app/components/I18nProvider";
+import { RECURRENCE_FREQUENCIES } from "@/lib/firestore";
+import type { RecurrenceFrequency, RecurrenceRule } from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+type FormatDate = (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+
+const FREQUENCY_LABEL_KEYS: Record<RecurrenceFrequency, MessageKey> = {
+  daily: "actionItems.recurrence.frequency.daily",
+  weekly: "actionItems.recurrence.frequency.weekly",
+  monthly: "actionItems.recurrence.frequency.monthly",
+};
+
+const UNIT_LABEL_KEYS: Record<RecurrenceFrequency, MessageKey> = {
+  daily: "actionItems.recurrence.unit.daily",
+  weekly: "actionItems.recurrence.unit.weekly",
+  monthly: "actionItems.recurrence.unit.monthly",
+};
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6] as const;
+
+/** Localized short weekday name; 2024-01-07 is a Sunday. */
+function weekdayLabel(day: number, formatDate: FormatDate): string {
+  return formatDate(new Date(2024, 0, 7 + day), { weekday: "short" });
+}
+
+function toDateInputValue(date: Date | null | undefined): string {
+  if (!date) return "";
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/** Parses a yyyy-mm-dd input as a local date (end of that day). */
+function fromDateInputValue(value: string): Date | null {
+  if (!value) return null;
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d, 23, 59, 59);
+}
+
+/** Human-readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu · until Mar 3, 2026". */
+export function describeRecurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  t: Translate,
+  formatDate: FormatDate,
+): string {
+  const count = Math.max(1, rule.interval);
+  let text: string;
+  switch (rule.frequency) {
+    case "daily":
+      text = count === 1 ? t("actionItems.recurrence.daily") : t("actionItems.recurrence.dailyInterval", { count });
+      break;
+    case "weekly": {
+      const days = (rule.daysOfWeek?.length ? rule.daysOfWeek : [anchor.getDay()])
+        .slice()
+        .sort((a, b) => a - b)
+        .map((d) => weekdayLabel(d, formatDate))
+        .join(", ");
+      text =
+        count === 1
+          ? t("actionItems.recurrence.weekly", { days })
+          : t("actionItems.recurrence.weeklyInterval", { count, days });
+      break;
+    }
+    case "monthly": {
+      const day = anchor.getDate();
+      text =
+        count === 1
+          ? t("actionItems.recurrence.monthly", { day })
+          : t("actionItems.recurrence.monthlyInterval", { count, day });
+      break;
+    }
+  }
+  if (rule.until) {
+    text += ` · ${t("actionItems.recurrence.until", { date: formatDate(rule.until, { dateStyle: "medium" }) })}`;
+  }
+  return text;
+}
+
+type RecurrenceEditorProps = {
+  /** Current rule, or null when the item does not repeat. */
+  rule: RecurrenceRule | null;
+  /** First occurrence (the item's dueBy); seeds the weekday for new weekly rules. */
+  anchor: Date;
+  onSave: (rule: RecurrenceRule | null) => void;
+  onCancel: () => void;
+};
+
+/** Inline form for editing an action item's recurrence rule. */
+export function RecurrenceEditor({ rule, anchor, onSave, onCancel }: RecurrenceEditorProps) {
+  const { t, formatDate } = useI18n();
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | "none">(rule?.frequency ?? "none");
+  const [intervalCount, setIntervalCount] = useState(rule?.interval ?? 1);
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(rule?.daysOfWeek ?? [anchor.getDay()]);
+  const [until, setUntil] = useState(toDateInputValue(rule?.until));
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek((prev) =>
+      prev.includes(day) ? (prev.length > 1 ? prev.filter((d) => d !== day) : prev) : [...prev, day],
+    );
+  };
+
+  const handleSave = () => {
+    if (frequency === "none") {
+      onSave(null);
+      return;
+    }
+    onSave({
+      frequency,
+      interval: Math.max(1, Math.floor(intervalCount) || 1),
+      daysOfWeek: frequency === "weekly" ? [...daysOfWeek].sort((a, b) => a - b) : undefined,
+      until: fromDateInputValue(until),
+    });
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-3 rounded-lg border border-neutral-200 bg-neutral-50 p-3 text-sm">
+      <select
+        value={frequency}
+        onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | "none")}
+        className="w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-400"
+        aria-label={t("actionItems.recurrence.edit")}
+      >
+        <option value="none">{t("actionItems.recurrence.none")}</option>
+        {RECURRENCE_FREQUENCIES.map((f) => (
+          <option key={f} value={f}>
+            {t(FREQUENCY_LABEL_KEYS[f])}
+          </option>
+        ))}
+      </select>
+
+      {frequency !== "none" && (
+        <>
+          <label className="flex items-center gap-2 text-neutral-700">
+            <span>{t("actionItems.recurrence.every")}</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={intervalCount}
+              onChange={(e) => setIntervalCount(Number(e.target.value))}
+              className="w-16 rounded-lg border border-neutral-300 bg-white px-2 py-1 text-center focus:outline-none focus:ring-2 focus:ring-neutral-400"
+            />
+            <span>{t(UNIT_LABEL_KEYS[frequency])}</span>
+          </label>
+
+          {frequency === "weekly" && (
+            <div className="flex flex-col gap-1.5">
+              <span className="text-neutral-700">{t("actionItems.recurrence.onDays")}</span>
+              <div className="flex flex-wrap gap-1.5">
+                {WEEKDAYS.map((day) => {
+                  const selected = daysOfWeek.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleDay(day)}
+                      aria-pressed={selected}
+                      className={`rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors ${selected ? "border-neutral-900 bg-neutral-900 text-white" : "border-neutral-300 bg-white text-neutral-600 hover:bg-neutral-100"}`}
+                    >
+                      {weekdayLabel(day, formatDate)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <label className="flex flex-col gap-1.5 text-neutral-700">
+            <span>{t("actionItems.recurrence.endDate")}</span>
+            <input
+              type="date"
+              value={until}
+              min={toDateInputValue(anchor)}
+              onChange={(e) => setUntil(e.target.value)}
+              className="rounded-lg border border-neutral-300 bg-white px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-neutral-400"
+            />
+          </label>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full px-3 py-1.5 text-xs font-medium text-neutral-600 hover:bg-neutral-100"
+        >
+          {t("actionItems.recurrence.cancel")}
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="rounded-full bg-neutral-900 px-3 py-1.5 text-xs font-semibold text-white active:bg-neutral-700"
+        >
+          {t("actionItems.recurrence.save")}
+        </button>
+      </div>
+    </div>
+  );
+}
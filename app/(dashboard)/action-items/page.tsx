@@ -2,9 +2,10 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useSearchParams } from "next/navigation";
-import { HiOutlineMenuAlt4, HiOutlineTrash } from "react-icons/hi";
+import { HiOutlineMenuAlt4, HiOutlineRefresh, HiOutlineTrash } from "react-icons/hi";
 import { useI18n } from "@/app/components/I18nProvider";
 import { PillDropdown, type PillOption } from "@/app/components/PillDropdown";
+import { ReminderSelect } from "@/app/components/ReminderSelect";
 import { Spinner } from "@/app/components/Spinner";
 import { Toast } from "@/app/components/Toast";
 import { useDrawer } from "@/app/(dashboard)/layout";
@@ -14,14 +15,35 @@ import {
   ACTION_ITEM_PRIORITIES,
   ACTION_ITEM_STATUSES,
   ACTION_ITEM_TYPES,
+  ADHERENCE_WINDOWS,
+  computeAdherence,
   deleteActionItem,
+  getActionItemReminderOffsets,
+  getOccurrencesForDay,
+  getRecurrenceRule,
+  getUpcomingOccurrences,
   isPastStatus,
+  isRecurrenceActive,
+  isMedicationItem,
+  isRecurring,
+  recordMedicationDose,
   sortActionItemsByPriorityAndDueDate,
+  undoMedicationDose,
   useActionItems,
+  useMedicationLogs,
+  withOccurrenceStatus,
   writeActionItem,
 } from "@/lib/firestore";
-import type { ActionItem } from "@/lib/firestore";
+import type {
+  ActionItem,
+  MedicationLog,
+  Occurrence,
+  OccurrenceStatus,
+  RecurrenceRule,
+  ReminderOffsets,
+} from "@/lib/firestore";
 import type { MessageKey } from "@/lib/i18n/messages";
+import { RecurrenceEditor, describeRecurrence } from "./components/RecurrenceEditor";
 
 const STATUS_STYLES: Record<string, string> = {
   pending: "bg-blue-50 text-blue-700 border-blue-200",
@@ -82,6 +104,10 @@ function ActionItemCard({
   t,
   onDelete,
   onFieldChange,
+  onRecurrenceChange,
+  onRemindersChange,
+  medicationLogs,
+  onMarkDoseTaken,
 }: {
   item: ActionItem;
   highlight: boolean;
@@ -92,8 +118,21 @@ function ActionItemCard({
   t: Translate;
   onDelete: (id: string) => void;
   onFieldChange: (id: string, field: string, value: string) => void;
+  onRecurrenceChange: (id: string, rule: RecurrenceRule | null) => void;
+  onRemindersChange: (id: string, reminderOffsets: ReminderOffsets) => void;
+  medicationLogs: MedicationLog[];
+  onMarkDoseTaken: (item: ActionItem) => void;
 }) {
+  const [editingRecurrence, setEditingRecurrence] = useState(false);
   const hasMedication = item.medication != null;
+  const recurring = isRecurring(item);
+  const rule = getRecurrenceRule(item);
+  // Recurring items show the next occurrence not yet done/skipped instead of a single status.
+  const nextOccurrence = recurring
+    ? getUpcomingOccurrences(item, 7).find((o) => o.status === "pending")
+    : undefined;
+  // Reminders only go out for dated items that are still open.
+  const remindable = item.dueBy.getTime() > 0 && (recurring ? isRecurrenceActive(item) : !isPastStatus(item.status));
 
   return (
     <article
@@ -127,20 +166,66 @@ function ActionItemCard({
             styles={PRIORITY_STYLES}
             ariaLabel={t("actionItems.changePriority")}
           />
-          <PillDropdown
-            value={item.status}
-            options={statusOptions}
-            onChange={(v) => onFieldChange(item.id, "status", v)}
-            styles={STATUS_STYLES}
-            ariaLabel={t("actionItems.changeStatus")}
-          />
+          {!recurring && (
+            <PillDropdown
+              value={item.status}
+              options={statusOptions}
+              onChange={(v) => onFieldChange(item.id, "status", v)}
+              styles={STATUS_STYLES}
+              ariaLabel={t("actionItems.changeStatus")}
+            />
+          )}
         </div>
         {item.description ? (
           <p className="text-sm text-neutral-600">{item.description}</p>
         ) : null}
-        <p className="text-xs text-neutral-500">
-          {t("actionItems.due", { date: formatDate(item.dueBy, { dateStyle: "medium" }) })}
-        </p>
+        {recurring && rule ? (
+          <div className="flex flex-col gap-0.5 text-xs text-neutral-500">
+            <p className="flex items-center gap-1 font-medium text-neutral-700">
+              <HiOutlineRefresh className="h-3.5 w-3.5" aria-hidden />
+              {describeRecurrence(rule, item.dueBy, t, formatDate)}
+            </p>
+            <p>
+              {nextOccurrence
+                ? t("actionItems.next", {
+                    date: formatDate(nextOccurrence.date, { dateStyle: "medium", timeStyle: "short" }),
+                  })
+                : !isRecurrenceActive(item)
+                  ? t("actionItems.recurrence.ended")
+                  : null}
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-neutral-500">
+            {t("actionItems.due", { date: formatDate(item.dueBy, { dateStyle: "medium" }) })}
+          </p>
+        )}
+        {editingRecurrence ? (
+          <RecurrenceEditor
+            rule={item.recurrenceRule ?? rule}
+            anchor={item.dueBy}
+            onSave={(next) => {
+              setEditingRecurrence(false);
+              onRecurrenceChange(item.id, next);
+            }}
+            onCancel={() => setEditingRecurrence(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditingRecurrence(true)}
+            className="flex w-fit items-center gap-1 text-xs font-medium text-neutral-500 hover:text-neutral-900"
+          >
+            <HiOutlineRefresh className="h-3.5 w-3.5" aria-hidden />
+            {t("actionItems.recurrence.edit")}
+          </button>
+        )}
+        {remindable && (
+          <ReminderSelect
+            offsets={getActionItemReminderOffsets(item)}
+            onChange={(offsets) => onRemindersChange(item.id, offsets)}
+          />
+        )}
         {hasMedication && item.medication && (
           <div className="mt-2 rounded-lg bg-neutral-50 p-3 text-sm">
             <span className="font-medium text-neutral-700">{t("actionItems.medication")} </span>
@@ -149,6 +234,24 @@ function ActionItemCard({
               {item.medication.dosageUnit}, {item.medication.count}x,{" "}
               {item.medication.route}
             </span>
+            <p className="mt-1 text-xs text-neutral-500">
+              <span className="font-medium text-neutral-700">{t("actionItems.adherence")}: </span>
+              {ADHERENCE_WINDOWS.map((days) => {
+                const { percent } = computeAdherence(item, medicationLogs, days);
+                return percent == null
+                  ? t("actionItems.adherenceEmpty", { days })
+                  : t("actionItems.adherenceWindow", { days, percent });
+              }).join(" · ")}
+            </p>
+            {!recurring && !isPastStatus(item.status) && (
+              <button
+                type="button"
+                onClick={() => onMarkDoseTaken(item)}
+                className="mt-2 rounded-full bg-neutral-900 px-3 py-1 text-xs font-semibold text-white active:bg-neutral-700"
+              >
+                {t("actionItems.dose.markTaken")}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -156,6 +259,63 @@ function ActionItemCard({
   );
 }
 
+function TodayOccurrenceRow({
+  occurrence,
+  formatDate,
+  t,
+  onRecord,
+}: {
+  occurrence: Occurrence;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  t: Translate;
+  onRecord: (occurrence: Occurrence, status: OccurrenceStatus | null) => void;
+}) {
+  const { item, date, status } = occurrence;
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-neutral-200 bg-white px-4 py-3 shadow-sm">
+      <div className="min-w-0 flex-1">
+        <p
+          className={`truncate text-sm font-medium ${status === "pending" ? "text-neutral-900" : "text-neutral-400 line-through"}`}
+        >
+          {item.title || t("actionItems.untitled")}
+        </p>
+        <p className="text-xs text-neutral-500">{formatDate(date, { timeStyle: "short" })}</p>
+      </div>
+      {status === "pending" ? (
+        <div className="flex shrink-0 gap-1.5">
+          <button
+            type="button"
+            onClick={() => onRecord(occurrence, "skipped")}
+            className="rounded-full border border-neutral-200 px-3 py-1 text-xs font-medium text-neutral-600 hover:bg-neutral-100"
+          >
+            {t("actionItems.occurrence.skip")}
+          </button>
+          <button
+            type="button"
+            onClick={() => onRecord(occurrence, "done")}
+            className="rounded-full bg-neutral-900 px-3 py-1 text-xs font-semibold text-white active:bg-neutral-700"
+          >
+            {t("actionItems.occurrence.markDone")}
+          </button>
+        </div>
+      ) : (
+        <div className="flex shrink-0 items-center gap-1.5">
+          <span className={`rounded-full border px-2.5 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>
+            {t(ACTION_ITEM_STATUS_LABEL_KEYS[status])}
+          </span>
+          <button
+            type="button"
+            onClick={() => onRecord(occurrence, null)}
+            className="rounded-full px-2 py-1 text-xs font-medium text-neutral-500 hover:bg-neutral-100"
+          >
+            {t("actionItems.occurrence.undo")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function EmptyState({ t }: { t: Translate }) {
   return (
     <div className="flex flex-col items-center justify-center gap-3 rounded-2xl border border-dashed border-neutral-200 bg-neutral-50/50 py-12 px-6 text-center">
@@ -187,6 +347,7 @@ export default function ActionItemsPage() {
   const searchParams = useSearchParams();
   const highlightId = searchParams.get("highlight");
   const { actionItems, loading, error } = useActionItems();
+  const { medicationLogs } = useMedicationLogs();
   const { openDrawer } = useDrawer() ?? {};
   const { user } = useAuth();
   const [operationError, setOperationError] = useState<string | null>(null);
@@ -224,6 +385,63 @@ export default function ActionItemsPage() {
     }
   };
 
+  const handleRecurrenceChange = async (itemId: string, rule: RecurrenceRule | null) => {
+    if (!user?.uid) return;
+    setOperationError(null);
+    const item = actionItems.find((ai) => ai.id === itemId);
+    if (!item) return;
+    // Keep the free-form label in sync for readers that only look at `recurrence`.
+    const result = await writeActionItem(db, user.uid, {
+      ...item,
+      recurrenceRule: rule ?? undefined,
+      recurrence: rule ? rule.frequency : "none",
+    });
+    if (result.ok) {
+      setToastMessage(t("common.updated"));
+    } else {
+      setOperationError(result.error.message);
+    }
+  };
+
+  const handleRemindersChange = async (itemId: string, reminderOffsets: ReminderOffsets) => {
+    if (!user?.uid) return;
+    setOperationError(null);
+    const item = actionItems.find((ai) => ai.id === itemId);
+    if (!item) return;
+    const result = await writeActionItem(db, user.uid, { ...item, reminderOffsets });
+    if (result.ok) {
+      setToastMessage(t("common.updated"));
+    } else {
+      setOperationError(result.error.message);
+    }
+  };
+
+  const handleRecordOccurrence = async (occurrence: Occurrence, status: OccurrenceStatus | null) => {
+    if (!user?.uid) return;
+    setOperationError(null);
+    const { item, key } = occurrence;
+    // Medication occurrences also go to the dose log so adherence stays accurate.
+    const result = !isMedicationItem(item)
+      ? await writeActionItem(db, user.uid, withOccurrenceStatus(item, key, status))
+      : status
+        ? await recordMedicationDose(db, user.uid, item, status === "done" ? "taken" : "missed")
+        : await undoMedicationDose(db, user.uid, item, key);
+    if (!result.ok) {
+      setOperationError(result.error.message);
+    }
+  };
+
+  const handleMarkDoseTaken = async (item: ActionItem) => {
+    if (!user?.uid) return;
+    setOperationError(null);
+    const result = await recordMedicationDose(db, user.uid, item, "taken");
+    if (result.ok) {
+      setToastMessage(t("actionItems.dose.logged"));
+    } else {
+      setOperationError(result.error.message);
+    }
+  };
+
   const dismissToast = useCallback(() => setToastMessage(null), []);
 
   const typeOptions = useMemo(
@@ -239,15 +457,18 @@ export default function ActionItemsPage() {
     [t],
   );
 
-  const { current, past } = useMemo(() => {
+  const { current, past, today } = useMemo(() => {
     const cur: ActionItem[] = [];
     const pst: ActionItem[] = [];
     for (const item of actionItems) {
-      (isPastStatus(item.status) ? pst : cur).push(item);
+      // Recurring items stay current until their rule ends, whatever their status.
+      const isPast = isRecurring(item) ? !isRecurrenceActive(item) : isPastStatus(item.status);
+      (isPast ? pst : cur).push(item);
     }
     return {
       current: sortActionItemsByPriorityAndDueDate(cur),
       past: sortActionItemsByPriorityAndDueDate(pst),
+      today: getOccurrencesForDay(cur),
     };
   }, [actionItems]);
 
@@ -265,6 +486,10 @@ export default function ActionItemsPage() {
             t={t}
             onDelete={handleDelete}
             onFieldChange={handleFieldChange}
+            onRecurrenceChange={handleRecurrenceChange}
+            onRemindersChange={handleRemindersChange}
+            medicationLogs={medicationLogs}
+            onMarkDoseTaken={handleMarkDoseTaken}
           />
         </li>
       ))}
@@ -310,6 +535,24 @@ export default function ActionItemsPage() {
 
       {!loading && !error && actionItems.length === 0 && <EmptyState t={t} />}
 
+      {!loading && !error && today.length > 0 && (
+        <section>
+          <h2 className="text-sm font-semibold text-neutral-700 mb-2">{t("actionItems.today")}</h2>
+          <ul className="flex flex-col gap-2 list-none p-0 m-0">
+            {today.map((occurrence) => (
+              <li key={`${occurrence.item.id}-${occurrence.key}`}>
+                <TodayOccurrenceRow
+                  occurrence={occurrence}
+                  formatDate={formatDate}
+                  t={t}
+                  onRecord={handleRecordOccurrence}
+                />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       {!loading && !error && current.length > 0 && (
         <section>
           <h2 className="text-sm font-semibold text-neutral-700 mb-2">{t("actionItems.current")}</h2>
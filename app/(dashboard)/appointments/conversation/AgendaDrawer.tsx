@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from "react";
+import { Drawer } from "@/app/components/Drawer";
+import { useI18n } from "@/app/components/I18nProvider";
+import type { AgendaItem } from "@/lib/visit-prep";
+
+type AgendaDrawerProps = {
+  open: boolean;
+  onClose: () => void;
+  agenda: AgendaItem[];
+};
+
+/** The appointment's prepared agenda, to go through while the visit is recorded. */
+export function AgendaDrawer({ open, onClose, agenda }: AgendaDrawerProps) {
+  const { t } = useI18n();
+  /** Items raised so far; kept for this visit only, not saved. */
+  const [raised, setRaised] = useState<ReadonlySet<string>>(new Set());
+
+  const toggle = (id: string) =>
+    setRaised((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <Drawer open={open} onClose={onClose} side="bottom" title={t("conversation.agenda.title")}>
+      <div className="flex flex-col gap-3">
+        <p className="text-xs text-neutral-500">{t("conversation.agenda.hint")}</p>
+        <ol className="flex flex-col gap-1">
+          {agenda.map((item) => {
+            const done = raised.has(item.id);
+            return (
+              <li key={item.id}>
+                <label className="flex cursor-pointer items-start gap-3 rounded-xl px-2 py-2 hover:bg-neutral-50">
+                  <input
+                    type="checkbox"
+                    checked={done}
+                    onChange={() => toggle(item.id)}
+                    className="mt-1 h-4 w-4 shrink-0 accent-neutral-900"
+                  />
+                  <span
+                    className={`text-sm leading-relaxed ${done ? "text-neutral-400 line-through" : "text-neutral-900"}`}
+                  >
+                    {item.text}
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </Drawer>
+  );
+}
@@ -1,15 +1,18 @@
 'use client';
 
-import { useMemo, useState, useCallback } from "react";
+import { useMemo, useRef, useState, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { HiOutlineMenuAlt4 } from "react-icons/hi";
+import { HiOutlineClipboardList, HiOutlineMenuAlt4 } from "react-icons/hi";
 import { TbArrowBackUp } from "react-icons/tb";
 import { useI18n } from "@/app/components/I18nProvider";
 import { useDrawer } from "@/app/(dashboard)/layout";
 import { useStreamingTranscription } from "@/app/hooks/useStreamingTranscription";
+import { getTranscriptChunkText, useAppointments } from "@/lib/firestore";
+import type { TranscriptChunk } from "@/lib/firestore";
+import { AgendaDrawer } from "./AgendaDrawer";
 import { VIEW_CARD_CLASS, VIEW_COMPONENTS } from "./views";
 import { formatConversationDate, parseDateFromSearchParams, getTrailingWords } from "./utils";
-import type { ConversationViewId } from "./types";
+import type { ConversationViewId, ConversationViewPropsMap } from "./types";
 import { FULL_PAGE_VIEWS } from "./types";
 
 const TRAILING_WORD_COUNT = 15;
@@ -21,13 +24,30 @@ export default function ConversationPage() {
   const { openDrawer } = useDrawer() ?? {};
   const appointmentDate = parseDateFromSearchParams(searchParams);
   const dateLabel = formatConversationDate(appointmentDate, formatDate);
+  const appointmentId = searchParams.get("appointment");
+  const { appointments } = useAppointments();
+  const appointment = appointments.find((a) => a.id === appointmentId);
+  const agenda = appointment?.agenda ?? [];
+  const [agendaOpen, setAgendaOpen] = useState(false);
 
   const [view, setView] = useState<ConversationViewId>("idle");
-  const [summarySegments, setSummarySegments] = useState<string[]>([]);
+  /** One entry per recording of this visit; saved as the transcript at the end. */
+  const [chunks, setChunks] = useState<TranscriptChunk[]>([]);
+  const [conversationSummary, setConversationSummary] = useState<string[]>([]);
+  /** The recording awaiting speaker labels, with its live transcription segments. */
+  const [pendingRecording, setPendingRecording] = useState<{ audio: Blob; chunk: TranscriptChunk } | null>(null);
+  const recordingStartedAtRef = useRef<Date | null>(null);
+
+  const summarySegments = useMemo(
+    () => chunks.map(getTranscriptChunkText).filter((text) => text.trim()),
+    [chunks],
+  );
 
   const {
     startRecording,
     stopRecording,
+    getRecordedAudio,
+    getSegments,
     isStarting,
     isStopping,
     segments,
@@ -35,7 +55,7 @@ export default function ConversationPage() {
     isSupported,
     tokenStatus,
     clearTranscript,
-  } = useStreamingTranscription({ languageTag });
+  } = useStreamingTranscription({ languageTag, captureAudio: true });
 
   const trailingWords = useMemo(
     () => getTrailingWords(segments, interimTranscript, TRAILING_WORD_COUNT),
@@ -48,29 +68,65 @@ export default function ConversationPage() {
 
   const handleStartRecording = useCallback(async () => {
     clearTranscript();
+    recordingStartedAtRef.current = new Date();
     await startRecording();
     setView("recording");
   }, [startRecording, clearTranscript]);
 
+  const appendChunk = useCallback((chunk: TranscriptChunk) => {
+    if (chunk.segments.some((seg) => seg.text.trim())) {
+      setChunks((prev) => [...prev, chunk]);
+    }
+  }, []);
+
   const handleStopRecording = useCallback(async () => {
-    let fullTranscript = "";
     try {
-      fullTranscript = await stopRecording();
-    } finally {
-      setView("summary");
+      await stopRecording();
+    } catch (err) {
+      console.error("Failed to stop recording:", err);
     }
-    const text = fullTranscript.trim();
-    if (text) {
-      setSummarySegments((prev) => [...prev, text]);
+    const chunk: TranscriptChunk = {
+      startedAt: recordingStartedAtRef.current ?? new Date(),
+      endedAt: new Date(),
+      segments: getSegments().map(({ text, start, end }) => ({ text, start, end, speaker: null })),
+      speakerRoles: {},
+    };
+    const audio = getRecordedAudio();
+    if (audio) {
+      // Label the speakers first; the chunk is added once SpeakersView is done.
+      setPendingRecording({ audio, chunk });
+      setView("speakers");
+      return;
     }
-  }, [stopRecording]);
+    appendChunk(chunk);
+    setView("summary");
+  }, [stopRecording, getSegments, getRecordedAudio, appendChunk]);
+
+  const handleSpeakersConfirmed = useCallback(
+    (labelled: Parameters<ConversationViewPropsMap["speakers"]["onConfirm"]>[0]) => {
+      if (!pendingRecording) return;
+      appendChunk(
+        labelled
+          ? {
+              ...pendingRecording.chunk,
+              segments: labelled.turns.map(({ speaker, text, start, end }) => ({ text, start, end, speaker })),
+              speakerRoles: labelled.roles,
+            }
+          : pendingRecording.chunk,
+      );
+      setPendingRecording(null);
+      setView("summary");
+    },
+    [pendingRecording, appendChunk],
+  );
 
   const handleMarkCorrect = useCallback(() => setView("confirmed"), []);
   const handleMarkIncorrect = useCallback(() => setView("retry"), []);
 
   const handleRerecord = useCallback(() => {
     clearTranscript();
-    setSummarySegments([]);
+    setChunks([]);
+    setConversationSummary([]);
     setView("idle");
   }, [clearTranscript]);
 
@@ -106,11 +162,19 @@ export default function ConversationPage() {
             canRecord={canRecord}
           />
         );
+      case "speakers":
+        return pendingRecording ? (
+          <VIEW_COMPONENTS.speakers
+            audio={pendingRecording.audio}
+            onConfirm={handleSpeakersConfirmed}
+          />
+        ) : null;
       case "summary":
         return (
           <VIEW_COMPONENTS.summary
             segments={summarySegments}
             languageTag={languageTag}
+            onSummaryPoints={setConversationSummary}
             onMarkCorrect={handleMarkCorrect}
             onMarkIncorrect={handleMarkIncorrect}
           />
@@ -134,8 +198,11 @@ export default function ConversationPage() {
         return (
           <VIEW_COMPONENTS.visitSummary
             segments={summarySegments}
+            chunks={chunks}
+            conversationSummary={conversationSummary}
             dateLabel={dateLabel}
             appointmentDate={appointmentDate}
+            providerId={appointment?.providerId ?? null}
             languageTag={languageTag}
             onGoHome={handleGoHome}
           />
@@ -163,8 +230,23 @@ export default function ConversationPage() {
           <HiOutlineMenuAlt4 className="w-6 h-6" />
         </button>
         <h1 className="text-lg font-semibold text-neutral-900">{t("conversation.title")}</h1>
-        <div className="w-10" aria-hidden />
+        {agenda.length > 0 ? (
+          <button
+            type="button"
+            onClick={() => setAgendaOpen(true)}
+            className="relative p-2 -mr-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+            aria-label={t("conversation.agenda.open")}
+          >
+            <HiOutlineClipboardList className="w-6 h-6" />
+            <span className="absolute top-0.5 right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-neutral-900 px-1 text-[10px] font-semibold text-white">
+              {agenda.length}
+            </span>
+          </button>
+        ) : (
+          <div className="w-10" aria-hidden />
+        )}
       </header>
+      <AgendaDrawer open={agendaOpen} onClose={() => setAgendaOpen(false)} agenda={agenda} />
       <div className="flex-1 min-h-0 flex flex-col gap-5 p-4">
         <p className="text-sm text-neutral-500">
           {t("conversation.subtitle", { date: dateLabel })}
@@ -1,3 +1,6 @@
+import type { TranscriptChunk } from "@/lib/firestore/types";
+import type { SpeakerRoles, SpeakerTurn } from "@/lib/speaker-transcript";
+
 /**
  * Conversation flow views.
  * To add a new view:
@@ -7,7 +10,7 @@
  *    (Full-page views like visitSummary skip VIEW_CARD_CLASS.)
  * 4. Add a case in page.tsx renderView().
  */
-export type ConversationViewId = "idle" | "recording" | "summary" | "retry" | "confirmed" | "visitSummary";
+export type ConversationViewId = "idle" | "recording" | "speakers" | "summary" | "retry" | "confirmed" | "visitSummary";
 
 /** Views that take over the full page (no card wrapper, no shared header/footer). */
 export const FULL_PAGE_VIEWS: ReadonlySet<ConversationViewId> = new Set(["visitSummary"]);
@@ -24,9 +27,20 @@ export interface ConversationViewPropsMap {
     isStopping: boolean;
     canRecord: boolean;
   };
+  speakers: {
+    /** The recording just stopped, to be diarized. */
+    audio: Blob;
+    /**
+     * Called with the diarized turns and the roles the user gave them, or null
+     * to keep the live transcript (skipped, or diarization failed).
+     */
+    onConfirm: (labelled: { turns: SpeakerTurn[]; roles: SpeakerRoles } | null) => void;
+  };
   summary: {
     segments: string[];
     languageTag: string;
+    /** Called with the generated summary points, to be saved with the transcript. */
+    onSummaryPoints: (points: string[]) => void;
     onMarkCorrect: () => void;
     onMarkIncorrect: () => void;
   };
@@ -41,8 +55,13 @@ export interface ConversationViewPropsMap {
   };
   visitSummary: {
     segments: string[];
+    /** The recordings behind `segments`, saved as the visit's transcript. */
+    chunks: TranscriptChunk[];
+    conversationSummary: string[];
     dateLabel: string;
     appointmentDate: Date;
+    /** Care team member of the appointment being recorded; saved on the session. */
+    providerId: string | null;
     languageTag: string;
     onGoHome: () => void;
   };
@@ -1,3 +1,5 @@
+import type { Appointment } from "@/lib/firestore";
+
 export function formatConversationDate(
   date: Date,
   formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string,
@@ -12,6 +14,15 @@ export function parseDateFromSearchParams(searchParams: URLSearchParams): Date {
   return Number.isNaN(parsed.getTime()) ? new Date() : parsed;
 }
 
+/** Link to the visit recording for an appointment; the recording shows its agenda. */
+export function getConversationHref(appointment: Pick<Appointment, "id" | "appointmentTime">): string {
+  const params = new URLSearchParams({
+    date: appointment.appointmentTime.toISOString(),
+    appointment: appointment.id,
+  });
+  return `/appointments/conversation?${params}`;
+}
+
 export function getTrailingWords(
   segments: { text: string }[],
   interimTranscript: string,
@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+import { TbArrowRight, TbLoader2, TbPlayerSkipForward } from "react-icons/tb";
+import { useI18n } from "@/app/components/I18nProvider";
+import type { MessageKey } from "@/lib/i18n/messages";
+import {
+  SPEAKER_ROLES,
+  getSpeakers,
+  type SpeakerRole,
+  type SpeakerRoles,
+  type SpeakerTurn,
+} from "@/lib/speaker-transcript";
+import type { ConversationViewPropsMap } from "../types";
+import { authFetch } from "@/lib/api/client";
+
+type Props = ConversationViewPropsMap["speakers"];
+
+// ---------------------------------------------------------------------------
+// State types
+// ---------------------------------------------------------------------------
+
+type DiarizationState =
+  | { status: "loading" }
+  /** Diarization failed or found no speech; the plain transcript is used instead. */
+  | { status: "unavailable" }
+  | { status: "success"; turns: SpeakerTurn[] };
+
+/** Lines shown per speaker so the user can tell who it is. */
+const SAMPLE_TURNS = 2;
+const SAMPLE_LENGTH = 140;
+
+const ROLE_LABEL_KEYS: Record<SpeakerRole, MessageKey> = {
+  doctor: "conversation.speakers.role.doctor",
+  patient: "conversation.speakers.role.patient",
+  other: "conversation.speakers.role.other",
+};
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Uploads the recording straight to storage (it is too large to go through an
+ * API route), then asks for its speaker turns.
+ */
+async function transcribeBySpeaker(
+  audio: Blob,
+  signal: AbortSignal,
+): Promise<{ turns?: SpeakerTurn[]; error?: string }> {
+  const jsonRequest = (body: object): RequestInit => ({
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  const started = await authFetch(
+    "/api/speaker-transcript-from-audio/upload",
+    jsonRequest({ contentType: audio.type || "audio/webm", size: audio.size }),
+  );
+  const upload = (await started.json()) as {
+    recordingId?: string;
+    uploadUrl?: string;
+    uploadHeaders?: Record<string, string>;
+    error?: string;
+  };
+  if (!upload.recordingId || !upload.uploadUrl) return { error: upload.error ?? "Upload failed" };
+
+  const stored = await fetch(upload.uploadUrl, { method: "PUT", headers: upload.uploadHeaders, body: audio, signal });
+  if (!stored.ok) return { error: "Upload failed" };
+
+  const res = await authFetch("/api/speaker-transcript-from-audio", jsonRequest({ recordingId: upload.recordingId }));
+  return res.json();
+}
+
+// ---------------------------------------------------------------------------
+// View
+// ---------------------------------------------------------------------------
+
+export function SpeakersView({ audio, onConfirm }: Props) {
+  const { t } = useI18n();
+  const [state, setState] = useState<DiarizationState>({ status: "loading" });
+  const [roles, setRoles] = useState<SpeakerRoles>({});
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    transcribeBySpeaker(audio, controller.signal)
+      .then((data) => {
+        if (controller.signal.aborted) return;
+        if (data.error || !data.turns || data.turns.length === 0) {
+          setState({ status: "unavailable" });
+        } else {
+          setState({ status: "success", turns: data.turns });
+        }
+      })
+      .catch(() => {
+        if (controller.signal.aborted) return;
+        setState({ status: "unavailable" });
+      });
+
+    return () => controller.abort();
+  }, [audio]);
+
+  const turns = state.status === "success" ? state.turns : null;
+  const speakers = useMemo(() => (turns ? getSpeakers(turns) : []), [turns]);
+  const allLabelled = speakers.length > 0 && speakers.every((speaker) => roles[speaker]);
+
+  const handleContinue = () => {
+    if (!turns) return;
+    onConfirm({ turns, roles });
+  };
+
+  const renderContent = () => {
+    switch (state.status) {
+      case "loading":
+        return (
+          <div className="flex items-center gap-2 py-4">
+            <TbLoader2 className="w-4 h-4 text-neutral-400 animate-spin" />
+            <span className="text-sm text-neutral-400">{t("conversation.speakers.identifying")}</span>
+          </div>
+        );
+
+      case "unavailable":
+        return (
+          <p className="text-sm text-neutral-500 leading-relaxed">
+            {t("conversation.speakers.unavailable")}
+          </p>
+        );
+
+      case "success":
+        return (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-neutral-400 leading-relaxed">{t("conversation.speakers.subtitle")}</p>
+            {speakers.map((speaker) => {
+              const samples = state.turns
+                .filter((turn) => turn.speaker === speaker && turn.text.trim())
+                .slice(0, SAMPLE_TURNS);
+              return (
+                <section key={speaker} className="flex flex-col gap-2 rounded-xl bg-white p-3">
+                  <h3 className="text-sm font-semibold text-neutral-900">
+                    {t("conversation.speakers.speaker", { label: speaker })}
+                  </h3>
+                  <ul className="flex flex-col gap-1">
+                    {samples.map((turn) => (
+                      <li key={turn.start} className="text-sm text-neutral-600 leading-relaxed">
+                        “{truncate(turn.text.trim(), SAMPLE_LENGTH)}”
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex flex-wrap gap-2" role="group" aria-label={t("conversation.speakers.roleAria", { label: speaker })}>
+                    {SPEAKER_ROLES.map((role) => {
+                      const selected = roles[speaker] === role;
+                      return (
+                        <button
+                          key={role}
+                          type="button"
+                          aria-pressed={selected}
+                          onClick={() => setRoles((prev) => ({ ...prev, [speaker]: role }))}
+                          className={`h-8 rounded-full px-3 text-xs font-medium transition-colors ${
+                            selected
+                              ? "bg-neutral-900 text-white"
+                              : "border border-neutral-300 text-neutral-700 active:bg-neutral-100"
+                          }`}
+                        >
+                          {t(ROLE_LABEL_KEYS[role])}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 min-h-0 overflow-auto">
+        <h2 className="text-lg font-bold tracking-tight text-neutral-900 mb-4 shrink-0">
+          {t("conversation.speakers.title")}
+        </h2>
+        {renderContent()}
+      </div>
+      <div className="shrink-0 pt-4 pb-2 flex gap-3 w-full">
+        {state.status === "success" ? (
+          <>
+            <button
+              type="button"
+              onClick={() => onConfirm(null)}
+              className="flex-1 h-12 rounded-full border border-neutral-300 text-neutral-900 text-sm flex items-center justify-center gap-2 active:bg-neutral-100 transition-colors"
+            >
+              <TbPlayerSkipForward className="w-5 h-5 shrink-0" aria-hidden />
+              <span>{t("conversation.speakers.skip")}</span>
+            </button>
+            <button
+              type="button"
+              onClick={handleContinue}
+              disabled={!allLabelled}
+              className="flex-1 h-12 rounded-full bg-neutral-900 text-white text-sm flex items-center justify-center gap-2 active:bg-neutral-700 transition-colors disabled:opacity-40"
+            >
+              <TbArrowRight className="w-5 h-5 shrink-0" aria-hidden />
+              <span>{t("conversation.speakers.continue")}</span>
+            </button>
+          </>
+        ) : state.status === "loading" ? (
+          // Diarization can take a while for long visits; the user doesn't have to wait.
+          <button
+            type="button"
+            onClick={() => onConfirm(null)}
+            className="flex-1 h-12 rounded-full border border-neutral-300 text-neutral-900 text-sm flex items-center justify-center gap-2 active:bg-neutral-100 transition-colors"
+          >
+            <TbPlayerSkipForward className="w-5 h-5 shrink-0" aria-hidden />
+            <span>{t("conversation.speakers.skip")}</span>
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onConfirm(null)}
+            className="flex-1 h-12 rounded-full bg-neutral-900 text-white text-sm flex items-center justify-center gap-2 active:bg-neutral-700 transition-colors"
+          >
+            <TbArrowRight className="w-5 h-5 shrink-0" aria-hidden />
+            <span>{t("conversation.speakers.continue")}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
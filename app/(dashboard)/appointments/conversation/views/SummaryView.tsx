@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { TbRefresh, TbClipboardCheck, TbLoader2 } from "react-icons/tb";
 import { useI18n } from "@/app/components/I18nProvider";
 import type { ConversationViewPropsMap } from "../types";
+import { authFetch } from "@/lib/api/client";
 
 type Props = ConversationViewPropsMap["summary"];
 
@@ -21,7 +22,7 @@ type ConversationSummaryState =
 // View
 // ---------------------------------------------------------------------------
 
-export function SummaryView({ segments, languageTag, onMarkCorrect, onMarkIncorrect }: Props) {
+export function SummaryView({ segments, languageTag, onSummaryPoints, onMarkCorrect, onMarkIncorrect }: Props) {
   const { t } = useI18n();
   const [summaryState, setSummaryState] = useState<ConversationSummaryState>({
     status: "loading",
@@ -37,7 +38,7 @@ export function SummaryView({ segments, languageTag, onMarkCorrect, onMarkIncorr
 
     const controller = new AbortController();
 
-    fetch("/api/conversation-summary-from-transcript", {
+    authFetch("/api/conversation-summary-from-transcript", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ transcript, languageTag }),
@@ -55,6 +56,7 @@ export function SummaryView({ segments, languageTag, onMarkCorrect, onMarkIncorr
             status: "success",
             summaryPoints: data.summaryPoints,
           });
+          onSummaryPoints(data.summaryPoints);
         }
       })
       .catch(() => {
@@ -1,13 +1,14 @@
 'use client';
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { TbArrowBackUp, TbUpload, TbLoader2, TbCheck, TbAlertTriangle } from "react-icons/tb";
 import { useI18n } from "@/app/components/I18nProvider";
 import { useSaveEntry } from "@/lib/firestore/hooks";
-import { sortActionItemsByPriorityAndDueDate } from "@/lib/firestore";
-import type { ActionItem, ActionItemCreate, ActionItemSerialized } from "@/lib/firestore/types";
+import { sortActionItemsByPriorityAndDueDate, toActionItemCreate } from "@/lib/firestore";
+import type { ActionItem, ActionItemSerialized, AuditContext } from "@/lib/firestore/types";
 import type { MessageKey } from "@/lib/i18n/messages";
 import type { ConversationViewPropsMap } from "../types";
+import { authFetch } from "@/lib/api/client";
 
 type Props = ConversationViewPropsMap["visitSummary"];
 
@@ -27,28 +28,8 @@ type SummaryState =
 
 type SaveStatus = "idle" | "saving" | "saved" | "error";
 
-/** Converts a serialised action item (from the API) into an ActionItemCreate for Firestore. */
-function toActionItemCreate(item: ActionItemSerialized): ActionItemCreate {
-  let dueBy: Date;
-  if (item.dueBy) {
-    const parsed = new Date(item.dueBy);
-    dueBy = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
-  } else {
-    dueBy = new Date();
-  }
-
-  return {
-    id: item.id,
-    dueBy,
-    type: item.type,
-    title: item.title,
-    description: item.description,
-    status: item.status,
-    priority: item.priority,
-    recurrence: item.recurrence,
-    ...(item.medication ? { medication: item.medication } : {}),
-  };
-}
+/** Records saved from the visit summary are attributed to the extraction in history. */
+const VISIT_EXTRACTION_AUDIT: AuditContext = { actor: "visit_extraction", reason: "visit_summary" };
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -180,8 +161,11 @@ function LoadingSkeleton({ t }: { t: (key: MessageKey, vars?: Record<string, str
 
 export function VisitSummaryView({
   segments,
+  chunks,
+  conversationSummary,
   dateLabel,
   appointmentDate,
+  providerId,
   languageTag,
   onGoHome,
 }: Props) {
@@ -190,8 +174,42 @@ export function VisitSummaryView({
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
   const { save } = useSaveEntry();
   const didSaveRef = useRef(false);
+  const didSaveSessionRef = useRef(false);
+
+  /**
+   * Creates the session for this visit, summarized by the conversation summary
+   * points (or the topics if there are none), and keeps the recordings as its
+   * transcript so the summaries can be regenerated. Returns false if a write failed.
+   */
+  const saveSession = useCallback(
+    async (discussionTopics: string[], actionItemIds: string[]): Promise<boolean> => {
+      if (didSaveSessionRef.current) return true;
+      didSaveSessionRef.current = true;
+
+      const summaryPoints = conversationSummary.length > 0 ? conversationSummary : discussionTopics;
+      const session = await save("sessionMetadata", {
+        date: appointmentDate,
+        title: `Visit – ${dateLabel}`,
+        summary: summaryPoints.join("\n"),
+        discussionTopics,
+        actionItemIds,
+        documentIds: [],
+        providerId,
+      }, VISIT_EXTRACTION_AUDIT);
+      if (!session?.ok) return false;
+      if (chunks.length === 0) return true;
+
+      const transcript = await save(
+        "transcripts",
+        { sessionId: session.data.id, visitDate: appointmentDate, chunks, conversationSummary, createdAt: new Date() },
+        VISIT_EXTRACTION_AUDIT,
+      );
+      return transcript?.ok === true;
+    },
+    [chunks, conversationSummary, appointmentDate, dateLabel, providerId, save],
+  );
 
-  // Persist action items and session metadata to Firestore once the LLM returns them.
+  // Persist action items and the session to Firestore once the LLM returns them.
   useEffect(() => {
     if (state.status !== "success") return;
     if (didSaveRef.current) return; // prevent duplicate saves (StrictMode)
@@ -202,7 +220,7 @@ export function VisitSummaryView({
     const writes =
       state.actionItems.length > 0
         ? state.actionItems.map((item) =>
-            save("actionItems", toActionItemCreate(item)),
+            save("actionItems", toActionItemCreate(item), VISIT_EXTRACTION_AUDIT),
           )
         : [Promise.resolve({ ok: true as const, data: null })];
 
@@ -210,7 +228,6 @@ export function VisitSummaryView({
       .then(async (results) => {
         const actionItemResults = state.actionItems.length > 0 ? results : [];
         const anyFailed = actionItemResults.some((r) => r && !r.ok);
-        setSaveStatus(anyFailed ? "error" : "saved");
 
         const actionItemIds =
           actionItemResults.length > 0
@@ -219,16 +236,20 @@ export function VisitSummaryView({
                 .map((r) => r.data.id)
             : [];
 
-        await save("sessionMetadata", {
-          date: appointmentDate,
-          title: `Visit – ${dateLabel}`,
-          summary: state.discussionTopics.join("\n"),
-          actionItemIds,
-          documentIds: [],
-        });
+        const sessionSaved = await saveSession(state.discussionTopics, actionItemIds);
+        setSaveStatus(anyFailed || !sessionSaved ? "error" : "saved");
       })
       .catch(() => setSaveStatus("error"));
-  }, [state, save, appointmentDate, dateLabel]);
+  }, [state, save, saveSession]);
+
+  // Without an extracted summary the recorded visit still gets a session (and its transcript).
+  useEffect(() => {
+    if ((state.status === "error" || state.status === "notEnoughData") && chunks.length > 0) {
+      saveSession([], []).then((ok) => {
+        if (!ok) console.error("Failed to save visit session");
+      });
+    }
+  }, [state.status, chunks.length, saveSession]);
 
   useEffect(() => {
     const transcript = segments.join("\n\n").trim();
@@ -240,7 +261,7 @@ export function VisitSummaryView({
 
     const controller = new AbortController();
 
-    fetch("/api/visit-summary-from-transcript", {
+    authFetch("/api/visit-summary-from-transcript", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
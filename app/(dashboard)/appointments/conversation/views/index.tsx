@@ -5,6 +5,7 @@ import type { ConversationViewId, ConversationViewPropsMap } from "../types";
 import { FULL_PAGE_VIEWS } from "../types";
 import { IdleView } from "./IdleView";
 import { RecordingView } from "./RecordingView";
+import { SpeakersView } from "./SpeakersView";
 import { SummaryView } from "./SummaryView";
 import { RetryView } from "./RetryView";
 import { ConfirmedView } from "./ConfirmedView";
@@ -12,6 +13,7 @@ import { VisitSummaryView } from "./VisitSummaryView";
 
 export { IdleView } from "./IdleView";
 export { RecordingView } from "./RecordingView";
+export { SpeakersView } from "./SpeakersView";
 export { SummaryView } from "./SummaryView";
 export { RetryView } from "./RetryView";
 export { ConfirmedView } from "./ConfirmedView";
@@ -24,6 +26,7 @@ type CardViewId = Exclude<ConversationViewId, typeof FULL_PAGE_VIEWS extends Rea
 export const VIEW_CARD_CLASS: Record<CardViewId, string> = {
   idle: "bg-neutral-100",
   recording: "bg-blue-500 text-white",
+  speakers: "bg-neutral-100 py-5",
   summary: "bg-neutral-100 py-5",
   retry: "bg-neutral-100",
   confirmed: "bg-neutral-100",
@@ -35,6 +38,7 @@ export const VIEW_COMPONENTS: {
 } = {
   idle: IdleView,
   recording: RecordingView,
+  speakers: SpeakersView,
   summary: SummaryView,
   retry: RetryView,
   confirmed: ConfirmedView,
@@ -1,17 +1,29 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { useSearchParams } from "next/navigation";
-import { HiOutlineMenuAlt4, HiOutlineTrash } from "react-icons/hi";
+import { HiOutlineCalendar, HiOutlineClipboardList, HiOutlineLocationMarker, HiOutlineMenuAlt4, HiOutlineTrash } from "react-icons/hi";
 import { useI18n } from "@/app/components/I18nProvider";
+import { ReminderSelect } from "@/app/components/ReminderSelect";
 import { Spinner } from "@/app/components/Spinner";
 import { Toast } from "@/app/components/Toast";
 import { useDrawer } from "@/app/(dashboard)/layout";
 import { useAuth } from "@/lib/auth-context";
+import { downloadBlob } from "@/lib/download";
 import { db } from "@/lib/firebase";
-import { deleteAppointment, useAppointments } from "@/lib/firestore";
-import type { Appointment } from "@/lib/firestore";
+import {
+  APPOINTMENT_STATUSES,
+  deleteAppointment,
+  getAppointmentReminderOffsets,
+  isOpenAppointmentStatus,
+  useAppointments,
+  useCareTeam,
+  writeAppointment,
+} from "@/lib/firestore";
+import type { Appointment, AppointmentStatus, CareTeamMember, ReminderOffsets } from "@/lib/firestore";
 import type { MessageKey } from "@/lib/i18n/messages";
+import { buildAppointmentCalendar } from "@/lib/ics";
 
 const MS_PER_HOUR = 60 * 60 * 1000;
 const MS_PER_DAY = 24 * MS_PER_HOUR;
@@ -56,26 +68,50 @@ function sortAppointmentsByClosest(appointments: Appointment[]): Appointment[] {
   });
 }
 
+/** Downloads the appointment as a single-event .ics file; re-importing it updates the same event. */
+function downloadAppointmentIcs(appointment: Appointment) {
+  const blob = new Blob([buildAppointmentCalendar(appointment)], { type: "text/calendar;charset=utf-8" });
+  downloadBlob(blob, `appointment-${appointment.appointmentTime.toISOString().slice(0, 10)}.ics`);
+}
+
 const HIGHLIGHT_CLASS = "ring-2 ring-blue-500 ring-offset-2";
 
+const STATUS_LABEL_KEYS: Record<AppointmentStatus, MessageKey> = {
+  scheduled: "appointments.status.scheduled",
+  confirmed: "appointments.status.confirmed",
+  cancelled: "appointments.status.cancelled",
+  completed: "appointments.status.completed",
+  "no-show": "appointments.status.noShow",
+};
+
 function AppointmentCard({
   appointment,
+  careTeam,
   highlight,
   formatDate,
   t,
   onDelete,
+  onStatusChange,
+  onRemindersChange,
+  onProviderChange,
 }: {
   appointment: Appointment;
+  careTeam: CareTeamMember[];
   highlight: boolean;
   formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
   t: (key: MessageKey, vars?: Record<string, string | number>) => string;
   onDelete: (id: string) => void;
+  onStatusChange: (appointment: Appointment, status: AppointmentStatus) => void;
+  onRemindersChange: (appointment: Appointment, reminderOffsets: ReminderOffsets) => void;
+  onProviderChange: (appointment: Appointment, providerId: string | null) => void;
 }) {
   const { label, pillClass } = getTimeUntil(appointment.appointmentTime, t);
+  const provider = careTeam.find((member) => member.id === appointment.providerId);
+  const withWhom = [appointment.providerName || provider?.name, appointment.clinic].filter(Boolean).join(" · ");
   return (
     <article
       id={`appointment-${appointment.id}`}
-      className={`relative rounded-xl border bg-white p-4 shadow-sm transition-shadow hover:shadow-md ${highlight ? "border-blue-500 " + HIGHLIGHT_CLASS : "border-neutral-200"}`}
+      className={`relative rounded-xl border bg-white p-4 shadow-sm transition-shadow hover:shadow-md ${highlight ? "border-blue-500 " + HIGHLIGHT_CLASS : "border-neutral-200"} ${isOpenAppointmentStatus(appointment.status) ? "" : "opacity-70"}`}
       data-appointment-id={appointment.id}
     >
       <button
@@ -93,13 +129,78 @@ function AppointmentCard({
           >
             {label}
           </span>
-          <h3 className="text-base font-semibold text-neutral-900">
+          <h3
+            className={`text-base font-semibold text-neutral-900 ${appointment.status === "cancelled" ? "line-through" : ""}`}
+          >
             {formatDate(appointment.appointmentTime, { dateStyle: "medium", timeStyle: "short" })}
           </h3>
         </div>
+        {withWhom && <p className="text-sm font-medium text-neutral-800">{withWhom}</p>}
+        {appointment.address && (
+          <p className="flex items-start gap-1 text-xs text-neutral-600">
+            <HiOutlineLocationMarker className="mt-0.5 h-3.5 w-3.5 shrink-0" aria-hidden />
+            <span>{appointment.address}</span>
+          </p>
+        )}
+        {appointment.reason && (
+          <p className="text-sm text-neutral-700">{t("appointments.reason", { reason: appointment.reason })}</p>
+        )}
+        {appointment.notes && <p className="text-xs text-neutral-500 whitespace-pre-line">{appointment.notes}</p>}
         <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-neutral-500">
           <span>{t("appointments.scheduledAt", { date: formatDate(appointment.scheduledOn, { dateStyle: "medium", timeStyle: "short" }) })}</span>
         </div>
+        <select
+          value={appointment.status}
+          onChange={(e) => onStatusChange(appointment, e.target.value as AppointmentStatus)}
+          className="mt-1 self-start rounded-full border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium text-neutral-700"
+          aria-label={t("appointments.statusAria")}
+        >
+          {APPOINTMENT_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {t(STATUS_LABEL_KEYS[status])}
+            </option>
+          ))}
+        </select>
+        {careTeam.length > 0 && (
+          <select
+            value={provider?.id ?? ""}
+            onChange={(e) => onProviderChange(appointment, e.target.value || null)}
+            className="self-start rounded-full border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium text-neutral-700"
+            aria-label={t("appointments.providerAria")}
+          >
+            <option value="">{t("appointments.noProvider")}</option>
+            {careTeam.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.name || t("careTeam.unnamed")}
+              </option>
+            ))}
+          </select>
+        )}
+        {isOpenAppointmentStatus(appointment.status) && (
+          <ReminderSelect
+            offsets={getAppointmentReminderOffsets(appointment)}
+            onChange={(offsets) => onRemindersChange(appointment, offsets)}
+          />
+        )}
+        <div className="mt-1 flex flex-wrap gap-2">
+          <Link
+            href={`/appointments/prep?id=${encodeURIComponent(appointment.id)}`}
+            className="flex items-center gap-1.5 rounded-full border border-neutral-200 px-3 py-1.5 text-xs font-medium text-neutral-700 transition-colors hover:bg-neutral-100"
+          >
+            <HiOutlineClipboardList className="h-4 w-4 shrink-0" aria-hidden />
+            {appointment.agenda.length > 0
+              ? t("appointments.agenda", { count: appointment.agenda.length })
+              : t("appointments.prepare")}
+          </Link>
+          <button
+            type="button"
+            onClick={() => downloadAppointmentIcs(appointment)}
+            className="flex items-center gap-1.5 rounded-full border border-neutral-200 px-3 py-1.5 text-xs font-medium text-neutral-700 transition-colors hover:bg-neutral-100"
+          >
+            <HiOutlineCalendar className="h-4 w-4 shrink-0" aria-hidden />
+            {t("appointments.addToCalendar")}
+          </button>
+        </div>
       </div>
     </article>
   );
@@ -136,6 +237,7 @@ export default function AppointmentsPage() {
   const searchParams = useSearchParams();
   const highlightId = searchParams.get("highlight");
   const { appointments, loading, error } = useAppointments();
+  const { careTeam } = useCareTeam();
   const { openDrawer } = useDrawer() ?? {};
   const { user } = useAuth();
   const uid = user?.uid;
@@ -164,6 +266,48 @@ export default function AppointmentsPage() {
     [uid, t]
   );
 
+  const handleStatusChange = useCallback(
+    async (appointment: Appointment, status: AppointmentStatus) => {
+      if (!uid) return;
+      setOperationError(null);
+      const result = await writeAppointment(db, uid, { ...appointment, status });
+      if (result.ok) {
+        setToastMessage(t("common.updated"));
+      } else {
+        setOperationError(result.error.message);
+      }
+    },
+    [uid, t]
+  );
+
+  const handleRemindersChange = useCallback(
+    async (appointment: Appointment, reminderOffsets: ReminderOffsets) => {
+      if (!uid) return;
+      setOperationError(null);
+      const result = await writeAppointment(db, uid, { ...appointment, reminderOffsets });
+      if (result.ok) {
+        setToastMessage(t("common.updated"));
+      } else {
+        setOperationError(result.error.message);
+      }
+    },
+    [uid, t]
+  );
+
+  const handleProviderChange = useCallback(
+    async (appointment: Appointment, providerId: string | null) => {
+      if (!uid) return;
+      setOperationError(null);
+      const result = await writeAppointment(db, uid, { ...appointment, providerId });
+      if (result.ok) {
+        setToastMessage(t("common.updated"));
+      } else {
+        setOperationError(result.error.message);
+      }
+    },
+    [uid, t]
+  );
+
   const dismissToast = useCallback(() => setToastMessage(null), []);
 
   const sortedAppointments = useMemo(
@@ -220,10 +364,14 @@ export default function AppointmentsPage() {
               <li key={appointment.id}>
                 <AppointmentCard
                   appointment={appointment}
+                  careTeam={careTeam}
                   highlight={highlightId === appointment.id}
                   formatDate={formatDate}
                   t={t}
                   onDelete={handleDelete}
+                  onStatusChange={handleStatusChange}
+                  onRemindersChange={handleRemindersChange}
+                  onProviderChange={handleProviderChange}
                 />
               </li>
             ))}
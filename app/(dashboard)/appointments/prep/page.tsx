@@ -0,0 +1,349 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  HiOutlineChevronDown,
+  HiOutlineChevronUp,
+  HiOutlineMenuAlt4,
+  HiOutlineMicrophone,
+  HiOutlinePlus,
+  HiOutlineSparkles,
+  HiOutlineTrash,
+} from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { Toast } from "@/app/components/Toast";
+import { useDrawer } from "@/app/(dashboard)/layout";
+import { authFetch } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+import { db } from "@/lib/firebase";
+import { useAppointments, writeAppointment } from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+import type { AgendaCategory, AgendaItem } from "@/lib/visit-prep";
+import { getConversationHref } from "../conversation/utils";
+
+type GenerateStatus = "idle" | "generating" | "notEnoughData" | "error";
+
+const CATEGORY_LABEL_KEYS: Record<AgendaCategory, MessageKey> = {
+  symptom: "visitPrep.category.symptom",
+  actionItem: "visitPrep.category.actionItem",
+  medication: "visitPrep.category.medication",
+  document: "visitPrep.category.document",
+  other: "visitPrep.category.other",
+};
+
+const CATEGORY_PILL_CLASS: Record<AgendaCategory, string> = {
+  symptom: "bg-rose-50 text-rose-700 border-rose-200",
+  actionItem: "bg-amber-50 text-amber-800 border-amber-200",
+  medication: "bg-sky-50 text-sky-700 border-sky-200",
+  document: "bg-violet-50 text-violet-700 border-violet-200",
+  other: "bg-neutral-100 text-neutral-600 border-neutral-200",
+};
+
+function AgendaRow({
+  item,
+  index,
+  count,
+  t,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  item: AgendaItem;
+  index: number;
+  count: number;
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string;
+  onChange: (id: string, text: string) => void;
+  onMove: (index: number, offset: number) => void;
+  onRemove: (id: string) => void;
+}) {
+  return (
+    <li className="flex items-start gap-2 rounded-xl border border-neutral-200 bg-white p-3">
+      <div className="flex flex-col">
+        <button
+          type="button"
+          onClick={() => onMove(index, -1)}
+          disabled={index === 0}
+          className="p-1 rounded-lg text-neutral-500 hover:bg-neutral-100 disabled:opacity-30"
+          aria-label={t("visitPrep.moveUp")}
+        >
+          <HiOutlineChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(index, 1)}
+          disabled={index === count - 1}
+          className="p-1 rounded-lg text-neutral-500 hover:bg-neutral-100 disabled:opacity-30"
+          aria-label={t("visitPrep.moveDown")}
+        >
+          <HiOutlineChevronDown className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex min-w-0 flex-1 flex-col gap-1.5">
+        <span
+          className={`self-start rounded-full border px-2 py-0.5 text-[11px] font-medium ${CATEGORY_PILL_CLASS[item.category]}`}
+        >
+          {t(CATEGORY_LABEL_KEYS[item.category])}
+        </span>
+        <textarea
+          value={item.text}
+          onChange={(e) => onChange(item.id, e.target.value)}
+          rows={2}
+          className="w-full resize-none rounded-lg border border-transparent px-1 py-0.5 text-sm leading-relaxed text-neutral-900 hover:border-neutral-200 focus:border-neutral-300 focus:outline-none"
+          aria-label={t("visitPrep.itemAria", { index: index + 1 })}
+        />
+      </div>
+      <button
+        type="button"
+        onClick={() => onRemove(item.id)}
+        className="p-1.5 rounded-lg text-neutral-400 hover:text-rose-600 hover:bg-rose-50 transition-colors"
+        aria-label={t("visitPrep.removeAria")}
+      >
+        <HiOutlineTrash className="w-4 h-4" />
+      </button>
+    </li>
+  );
+}
+
+export default function VisitPrepPage() {
+  const { t, formatDate, languageTag } = useI18n();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const appointmentId = searchParams.get("id");
+  const { appointments, loading, error } = useAppointments();
+  const { openDrawer } = useDrawer() ?? {};
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const appointment = appointments.find((a) => a.id === appointmentId) ?? null;
+
+  /** Unsaved edits; null while the agenda matches what is saved on the appointment. */
+  const [draft, setDraft] = useState<AgendaItem[] | null>(null);
+  const [generateStatus, setGenerateStatus] = useState<GenerateStatus>("idle");
+  const [newItemText, setNewItemText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const agenda = draft ?? appointment?.agenda ?? [];
+
+  const editAgenda = (update: (items: AgendaItem[]) => AgendaItem[]) => setDraft(update(agenda));
+
+  const handleGenerate = async () => {
+    if (!appointment) return;
+    setGenerateStatus("generating");
+    try {
+      const res = await authFetch("/api/visit-prep-brief", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ appointmentId: appointment.id, languageTag }),
+      });
+      const data = (await res.json()) as { agenda?: AgendaItem[]; notEnoughData?: boolean; error?: string };
+      if (data.error) throw new Error(data.error);
+      if (data.notEnoughData || !data.agenda) {
+        setGenerateStatus("notEnoughData");
+        return;
+      }
+      setDraft(data.agenda);
+      setGenerateStatus("idle");
+    } catch (err) {
+      console.error("Failed to generate visit prep brief:", err);
+      setGenerateStatus("error");
+    }
+  };
+
+  const handleAdd = () => {
+    const text = newItemText.trim();
+    if (!text) return;
+    editAgenda((items) => [...items, { id: crypto.randomUUID(), text, category: "other" }]);
+    setNewItemText("");
+  };
+
+  const handleMove = (index: number, offset: number) =>
+    editAgenda((items) => {
+      const next = [...items];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+
+  /** Saves the draft, if any; returns false if saving failed. */
+  const saveDraft = async (): Promise<boolean> => {
+    if (!uid || !appointment || !draft) return true;
+    setSaving(true);
+    setSaveFailed(false);
+    const result = await writeAppointment(db, uid, {
+      ...appointment,
+      // Empty items are dropped rather than saved.
+      agenda: draft.filter((item) => item.text.trim()),
+    });
+    setSaving(false);
+    if (!result.ok) {
+      console.error("Failed to save agenda:", result.error);
+      setSaveFailed(true);
+      return false;
+    }
+    setDraft(null);
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (await saveDraft()) setToastMessage(t("visitPrep.saved"));
+  };
+
+  const handleStartRecording = async () => {
+    if (!appointment) return;
+    if (await saveDraft()) router.push(getConversationHref(appointment));
+  };
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 py-12">
+          <Spinner size="lg" theme="neutral" />
+        </div>
+      );
+    }
+    if (error) {
+      return (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-center">
+          <p className="text-sm font-medium text-rose-800">{t("common.somethingWentWrong")}</p>
+          <p className="mt-1 text-xs text-rose-700">{error.message}</p>
+        </div>
+      );
+    }
+    if (!appointment) {
+      return <p className="py-12 text-center text-sm text-neutral-500">{t("visitPrep.notFound")}</p>;
+    }
+
+    return (
+      <>
+        <p className="text-sm text-neutral-500">
+          {t("visitPrep.subtitle", {
+            date: formatDate(appointment.appointmentTime, { dateStyle: "medium", timeStyle: "short" }),
+          })}
+        </p>
+
+        <button
+          type="button"
+          onClick={() => void handleGenerate()}
+          disabled={generateStatus === "generating"}
+          className="flex items-center justify-center gap-2 rounded-full border border-neutral-300 px-4 py-2.5 text-sm text-neutral-900 hover:bg-neutral-100 disabled:opacity-60"
+        >
+          {generateStatus === "generating" ? (
+            <Spinner size="sm" theme="neutral" />
+          ) : (
+            <HiOutlineSparkles className="h-4 w-4" aria-hidden />
+          )}
+          {generateStatus === "generating"
+            ? t("visitPrep.generating")
+            : agenda.length > 0
+              ? t("visitPrep.regenerate")
+              : t("visitPrep.generate")}
+        </button>
+        {generateStatus === "notEnoughData" && (
+          <p className="rounded-xl bg-neutral-100 px-3 py-2 text-sm text-neutral-600">{t("visitPrep.notEnoughData")}</p>
+        )}
+        {generateStatus === "error" && (
+          <p role="alert" className="rounded-xl bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {t("visitPrep.generateError")}
+          </p>
+        )}
+
+        {agenda.length === 0 ? (
+          <div className="flex flex-col items-center justify-center gap-3 rounded-2xl border border-dashed border-neutral-200 bg-neutral-50/50 py-10 px-6 text-center">
+            <p className="text-sm font-medium text-neutral-600">{t("visitPrep.emptyTitle")}</p>
+            <p className="text-xs text-neutral-500 max-w-xs">{t("visitPrep.emptyBody")}</p>
+          </div>
+        ) : (
+          <ol className="flex flex-col gap-2 list-none p-0 m-0">
+            {agenda.map((item, index) => (
+              <AgendaRow
+                key={item.id}
+                item={item}
+                index={index}
+                count={agenda.length}
+                t={t}
+                onChange={(id, text) =>
+                  editAgenda((items) => items.map((entry) => (entry.id === id ? { ...entry, text } : entry)))
+                }
+                onMove={handleMove}
+                onRemove={(id) => editAgenda((items) => items.filter((entry) => entry.id !== id))}
+              />
+            ))}
+          </ol>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={newItemText}
+            onChange={(e) => setNewItemText(e.target.value)}
+            placeholder={t("visitPrep.addPlaceholder")}
+            className="min-w-0 flex-1 rounded-full border border-neutral-300 px-4 py-2 text-sm text-neutral-900 focus:border-neutral-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!newItemText.trim()}
+            className="shrink-0 rounded-full bg-neutral-200 p-2.5 text-neutral-900 hover:bg-neutral-300 disabled:opacity-40"
+            aria-label={t("visitPrep.add")}
+          >
+            <HiOutlinePlus className="h-4 w-4" />
+          </button>
+        </form>
+
+        {saveFailed && (
+          <p role="alert" className="rounded-xl bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {t("visitPrep.saveError")}
+          </p>
+        )}
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={saving || draft == null}
+            className="flex-1 h-11 rounded-full border border-neutral-300 text-sm text-neutral-900 hover:bg-neutral-100 disabled:opacity-40"
+          >
+            {t("visitPrep.save")}
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleStartRecording()}
+            disabled={saving}
+            className="flex-1 h-11 rounded-full bg-neutral-900 text-sm text-white hover:bg-neutral-700 disabled:opacity-60 flex items-center justify-center gap-2"
+          >
+            <HiOutlineMicrophone className="h-4 w-4" aria-hidden />
+            {t("visitPrep.startRecording")}
+          </button>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="w-full min-h-screen flex flex-col">
+      <Toast message={toastMessage ?? ""} visible={toastMessage != null} onDismiss={dismissToast} />
+      <header className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => openDrawer?.()}
+          className="p-2 -ml-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("home.openMenu")}
+        >
+          <HiOutlineMenuAlt4 className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-neutral-900">{t("visitPrep.title")}</h1>
+        <div className="w-10" aria-hidden />
+      </header>
+      <div className="flex-1 flex flex-col gap-4 p-4 overflow-auto">{renderContent()}</div>
+    </div>
+  );
+}
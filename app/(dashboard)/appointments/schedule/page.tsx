@@ -2,13 +2,17 @@
 
 import { Spinner } from "@/app/components/Spinner";
 import { useI18n } from "@/app/components/I18nProvider";
-import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
 import { doc, onSnapshot } from "firebase/firestore";
 import { useEffect, useMemo, useState } from "react";
 import { HiCheck, HiPhone, HiPhoneMissedCall } from "react-icons/hi";
 import { useAuth } from "@/lib/auth-context";
 import { db } from "@/lib/firebase";
-import { readUserMetadata, writeAppointment } from "@/lib/firestore";
+import { canScheduleByPhone, readUserMetadata, useCareTeam, writeAppointment } from "@/lib/firestore";
+import type { CareTeamMember, SchedulingMethod } from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+import { authFetch } from "@/lib/api/client";
 
 type SchedulingStateType = "idle" | "scheduling" | "awaiting_confirmation" | "no_availability" | "completed" | "error";
 
@@ -50,6 +54,12 @@ const STATE_STYLES: Record<
   },
 };
 
+const SCHEDULING_METHOD_KEYS: Record<SchedulingMethod, MessageKey> = {
+  phone: "careTeam.method.phone",
+  portal: "careTeam.method.portal",
+  walk_in: "careTeam.method.walk_in",
+};
+
 function IdleState({ text }: { text: string }) {
   return <span className="text-center text-sm max-w-xs">{text}</span>;
 }
@@ -71,20 +81,42 @@ function ErrorState({ text }: { text: string }) {
   return <span className="text-center text-sm max-w-xs">{text}</span>;
 }
 
-function SchedulingState({ theme, loadingTexts }: { theme: StateTheme; loadingTexts: string[] }) {
-  const [index, setIndex] = useState(0);
+/** Vapi call status mirrored from the scheduling session by the webhook. */
+type CallStatus = "scheduled" | "queued" | "ringing" | "in-progress" | "forwarding" | "ended";
 
-  useEffect(() => {
-    const id = setInterval(() => {
-      setIndex((i) => (i + 1) % loadingTexts.length);
-    }, 5000);
-    return () => clearInterval(id);
-  }, [loadingTexts.length]);
+type CallProgress = {
+  callStatus: CallStatus | null;
+  durationSeconds: number | null;
+  endedReason: string | null;
+};
+
+const EMPTY_CALL_PROGRESS: CallProgress = { callStatus: null, durationSeconds: null, endedReason: null };
+
+/** Provider, clinic and address the clinic gave with its proposed slots ("" when not given). */
+type BookingDetails = { providerName: string; clinic: string; address: string };
 
+const EMPTY_BOOKING: BookingDetails = { providerName: "", clinic: "", address: "" };
+
+function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function SchedulingState({
+  theme,
+  statusText,
+  durationText,
+}: {
+  theme: StateTheme;
+  statusText: string;
+  durationText: string | null;
+}) {
   return (
     <div className="flex flex-col gap-4 items-center justify-center">
       <Spinner size="lg" theme={theme} />
-      <span>{loadingTexts[index]}</span>
+      <span>{statusText}</span>
+      {durationText && <span className="text-sm opacity-70">{durationText}</span>}
     </div>
   );
 }
@@ -151,46 +183,85 @@ function AwaitingConfirmationState({
 export default function SchedulePage() {
   const { t, formatDate } = useI18n();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user } = useAuth();
+  const { careTeam } = useCareTeam();
+  /** Members the assistant can call; those who prefer booking by phone first. */
+  const callableProviders = useMemo(
+    () =>
+      careTeam
+        .filter(canScheduleByPhone)
+        .sort((a, b) => Number(b.schedulingMethod === "phone") - Number(a.schedulingMethod === "phone")),
+    [careTeam],
+  );
+  const [selectedProviderId, setSelectedProviderId] = useState<string | null>(searchParams.get("provider"));
+  const selectedProvider =
+    callableProviders.find((member) => member.id === selectedProviderId) ?? callableProviders[0] ?? null;
+  /** The provider being called; the booked appointment is linked to them. */
+  const [callProvider, setCallProvider] = useState<CareTeamMember | null>(null);
   const [schedulingState, setSchedulingState] = useState<SchedulingStateType>("idle");
   const [timeslots, setTimeslots] = useState<Timeslot[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  /** Why the patient wants the visit; passed to the call and saved on the appointment. */
+  const [visitReason, setVisitReason] = useState("");
+  const [booking, setBooking] = useState<BookingDetails>(EMPTY_BOOKING);
+
+  const [callProgress, setCallProgress] = useState<CallProgress>(EMPTY_CALL_PROGRESS);
+
+  const callStatusText = useMemo(() => {
+    switch (callProgress.callStatus) {
+      case "scheduled":
+      case "queued":
+        return t("schedule.call.queued");
+      case "ringing":
+        return t("schedule.call.ringing");
+      case "in-progress":
+        return t("schedule.call.inProgress");
+      case "forwarding":
+        return t("schedule.call.forwarding");
+      case "ended":
+        return t("schedule.call.ended");
+      default:
+        return t("schedule.call.starting");
+    }
+  }, [callProgress.callStatus, t]);
 
-  const loadingTexts = useMemo(
-    () => [
-      t("schedule.loading.1"),
-      t("schedule.loading.2"),
-      t("schedule.loading.3"),
-      t("schedule.loading.4"),
-      t("schedule.loading.5"),
-      t("schedule.loading.6"),
-      t("schedule.loading.7"),
-    ],
-    [t]
-  );
-
-  // Subscribe to Firestore _scheduling/current doc while scheduling.
-  // Ignore stale data written before this session started.
+  // Subscribe to this page's own scheduling session while scheduling.
+  // The session doc is created by /api/vapi, so there is no stale data to skip.
   useEffect(() => {
-    if (schedulingState !== "scheduling") return;
+    if (schedulingState !== "scheduling" || !sessionId) return;
 
-    const subscribedAt = Date.now();
-    console.log("[schedule] Subscribing to Firestore _scheduling/current");
+    console.log(`[schedule] Subscribing to Firestore _scheduling/${sessionId}`);
 
     const unsubscribe = onSnapshot(
-      doc(db, "_scheduling", "current"),
+      doc(db, "_scheduling", sessionId),
       (snap) => {
         const data = snap.data();
         console.log("[schedule] Firestore snapshot:", data);
-        if (!data?.timeslots) return; // doc doesn't exist yet
-
-        // Skip stale data from a previous scheduling session
-        const updatedAt: number = data.updatedAt?.toMillis?.() ?? 0;
-        if (updatedAt < subscribedAt) {
-          console.log("[schedule] Ignoring stale snapshot (updatedAt:", updatedAt, "subscribedAt:", subscribedAt, ")");
+        if (!data) return;
+
+        setCallProgress({
+          callStatus: data.callStatus ?? null,
+          durationSeconds: data.durationSeconds ?? null,
+          endedReason: data.endedReason ?? null,
+        });
+
+        if (!data.timeslots) {
+          // Call ended before the clinic proposed any slots
+          if (data.callStatus === "ended") {
+            setError(t("schedule.call.endedWithoutSlots", { reason: data.endedReason ?? "unknown" }));
+            setSchedulingState("error");
+          }
           return;
         }
 
+        setBooking({
+          providerName: data.providerName ?? "",
+          clinic: data.clinic ?? "",
+          address: data.address ?? "",
+        });
+
         const slots: Timeslot[] = data.timeslots;
         console.log(`[schedule] Received ${slots.length} timeslot(s)`, slots);
         setTimeslots(slots);
@@ -205,29 +276,30 @@ export default function SchedulePage() {
       console.log("[schedule] Unsubscribing from Firestore");
       unsubscribe();
     };
-  }, [schedulingState]);
+  }, [schedulingState, sessionId, t]);
 
-  async function startVapiCall() {
+  async function startVapiCall(provider: CareTeamMember) {
     const uid = user?.uid;
     if (!uid) { console.error("[startVapiCall] No user uid"); return; }
 
     const result = await readUserMetadata(db, uid);
-    const phoneNumber = result.ok ? result.data?.hospitalPhoneNumber : undefined;
-    if (!phoneNumber) { console.error("[startVapiCall] No phone number found for user", uid); return; }
-
     const firstName = (result.ok ? result.data?.firstName : "") ?? "";
     const lastName = (result.ok ? result.data?.lastName : "") ?? "";
     const fullName = `${firstName} ${lastName}`.trim();
 
     try {
-      const res = await fetch("/api/vapi", {
+      const res = await authFetch("/api/vapi", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phoneNumber, fullName }),
+        body: JSON.stringify({ providerId: provider.id, fullName, visitReason }),
       });
       if (!res.ok) {
         console.error("[startVapiCall] API returned", res.status, await res.text());
+        return;
       }
+      const data = (await res.json()) as { sessionId: string; callId: string | null };
+      console.log(`[startVapiCall] Scheduling session ${data.sessionId} (call ${data.callId})`);
+      setSessionId(data.sessionId);
     } catch (err) {
       console.error("[startVapiCall] Failed to initiate outbound call:", err);
     }
@@ -249,15 +321,16 @@ export default function SchedulePage() {
 
     const uid = user?.uid;
     if (!uid) { console.error("[handleProceed] No user uid"); return; }
+    if (!sessionId) { console.error("[handleProceed] No scheduling session"); return; }
 
     console.log(`[handleProceed] Confirming slot: "${selected.label}" for user ${uid}`);
 
     try {
       console.log("[handleProceed] POST /api/confirmTimeslot…");
-      const confirmRes = await fetch("/api/confirmTimeslot", {
+      const confirmRes = await authFetch("/api/confirmTimeslot", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ label: selected.label }),
+        body: JSON.stringify({ sessionId, label: selected.label }),
       });
       console.log(`[handleProceed] confirmTimeslot response: ${confirmRes.status}`);
 
@@ -266,6 +339,14 @@ export default function SchedulePage() {
         id: crypto.randomUUID(),
         appointmentTime: new Date(selected.label),
         scheduledOn: new Date(),
+        ...booking,
+        // The clinic may not name the provider or address; fall back to the care team entry.
+        providerName: booking.providerName || callProvider?.name || "",
+        address: booking.address || callProvider?.address || "",
+        providerId: callProvider?.id ?? null,
+        reason: visitReason.trim(),
+        // The clinic proposed this slot on the call, so it is already confirmed.
+        status: "confirmed",
       });
 
       if (!result.ok) {
@@ -287,12 +368,63 @@ export default function SchedulePage() {
       <div className="flex flex-col pt-45 gap-2">
         <span className="text-xl font-bold tracking-tight">{t("schedule.title")}</span>
         <span className="text-neutral-400 leading-5">{t("schedule.subtitle")}</span>
+        {(schedulingState === "idle" || schedulingState === "completed" || schedulingState === "no_availability") && (
+          callableProviders.length > 0 ? (
+            <>
+              <select
+                value={selectedProvider?.id ?? ""}
+                onChange={(e) => setSelectedProviderId(e.target.value)}
+                aria-label={t("schedule.providerLabel")}
+                className="mt-2 w-full rounded-full border border-neutral-300 bg-white px-4 py-2.5 text-sm text-neutral-900 focus:border-neutral-500 focus:outline-none"
+              >
+                {callableProviders.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {[member.name || t("careTeam.unnamed"), member.specialty].filter(Boolean).join(" · ")}
+                  </option>
+                ))}
+              </select>
+              {selectedProvider && selectedProvider.schedulingMethod !== "phone" && (
+                <span className="px-4 text-xs text-neutral-500">
+                  {t("schedule.prefersOtherMethod", {
+                    name: selectedProvider.name || t("careTeam.unnamed"),
+                    method: t(SCHEDULING_METHOD_KEYS[selectedProvider.schedulingMethod]),
+                  })}
+                </span>
+              )}
+            </>
+          ) : (
+            <span className="mt-2 text-sm text-neutral-500">
+              {t("schedule.noProviders")}{" "}
+              <Link href="/care-team" className="font-medium text-neutral-900 underline">
+                {t("schedule.manageCareTeam")}
+              </Link>
+            </span>
+          )
+        )}
+        {(schedulingState === "idle" || schedulingState === "completed" || schedulingState === "no_availability") && (
+          <input
+            type="text"
+            value={visitReason}
+            onChange={(e) => setVisitReason(e.target.value)}
+            placeholder={t("schedule.reasonPlaceholder")}
+            aria-label={t("schedule.reasonLabel")}
+            className="mt-2 w-full rounded-full border border-neutral-300 px-4 py-2.5 text-sm text-neutral-900 focus:border-neutral-500 focus:outline-none"
+          />
+        )}
       </div>
       <div
         className={`w-full h-full flex flex-col gap-4 items-center justify-center rounded-2xl transition-[background-color] duration-300 ${STATE_STYLES[schedulingState].bg} ${STATE_STYLES[schedulingState].text}`}
       >
         {schedulingState === "scheduling" ? (
-          <SchedulingState theme={STATE_STYLES[schedulingState].theme} loadingTexts={loadingTexts} />
+          <SchedulingState
+            theme={STATE_STYLES[schedulingState].theme}
+            statusText={callStatusText}
+            durationText={
+              callProgress.durationSeconds != null
+                ? t("schedule.call.duration", { duration: formatDuration(callProgress.durationSeconds) })
+                : null
+            }
+          />
         ) : schedulingState === "awaiting_confirmation" ? (
           <AwaitingConfirmationState
             timeslots={timeslots}
@@ -317,13 +449,24 @@ export default function SchedulePage() {
         <button
           onClick={() => {
             if (schedulingState === "idle" || schedulingState === "completed" || schedulingState === "no_availability") {
+              if (!selectedProvider) return;
+              setSessionId(null);
+              setCallProgress(EMPTY_CALL_PROGRESS);
+              setBooking(EMPTY_BOOKING);
+              setError(null);
+              setCallProvider(selectedProvider);
               setSchedulingState("scheduling");
-              startVapiCall();
+              startVapiCall(selectedProvider);
             } else {
+              setSessionId(null);
               setSchedulingState("idle");
             }
           }}
-          className={`w-full h-12 text-sm text-white rounded-full flex items-center justify-center px-5 gap-2 ${
+          disabled={
+            !selectedProvider &&
+            (schedulingState === "idle" || schedulingState === "completed" || schedulingState === "no_availability")
+          }
+          className={`w-full h-12 text-sm text-white rounded-full flex items-center justify-center px-5 gap-2 disabled:opacity-30 disabled:pointer-events-none ${
             schedulingState === "idle" || schedulingState === "completed" || schedulingState === "no_availability"
               ? "bg-neutral-900 active:bg-neutral-700"
               : "bg-red-500 active:bg-red-400"
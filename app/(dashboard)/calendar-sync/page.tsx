@@ -0,0 +1,419 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { HiOutlineMenuAlt4, HiOutlineRefresh } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { Toast } from "@/app/components/Toast";
+import { useDrawer } from "@/app/(dashboard)/layout";
+import { authFetch } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+import type {
+  CalDavConflict,
+  CalDavConflictKind,
+  CalDavConflictVersion,
+  CalDavResolution,
+  CalDavStatus,
+} from "@/lib/caldav/types";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+type FormatDate = (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+
+const CONFLICT_LABEL_KEYS: Record<CalDavConflictKind, MessageKey> = {
+  "both-changed": "calendarSync.conflict.bothChanged",
+  "deleted-in-calendar": "calendarSync.conflict.deletedInCalendar",
+  "deleted-in-hellocare": "calendarSync.conflict.deletedInHelloCare",
+};
+
+/** Suggested category for events to import; users can pick their own. */
+const DEFAULT_IMPORT_CATEGORY = "HelloCare";
+
+const INPUT_CLASS =
+  "w-full rounded-full border border-neutral-300 px-4 py-2.5 text-sm text-neutral-900 focus:border-neutral-500 focus:outline-none";
+
+/** Calls a /api/caldav route and returns the updated status; throws with the route's error message. */
+async function callCalDav(path: string, init: RequestInit, fallbackError: string): Promise<CalDavStatus> {
+  const res = await authFetch(path, init);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? fallbackError);
+  return data as CalDavStatus;
+}
+
+function ConnectForm({
+  busy,
+  onConnect,
+  t,
+}: {
+  busy: boolean;
+  onConnect: (calendarUrl: string, username: string, password: string, importCategory: string | null) => void;
+  t: Translate;
+}) {
+  const [calendarUrl, setCalendarUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [importAll, setImportAll] = useState(false);
+  const [importCategory, setImportCategory] = useState(DEFAULT_IMPORT_CATEGORY);
+
+  return (
+    <form
+      className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onConnect(calendarUrl, username, password, importAll ? null : importCategory);
+      }}
+    >
+      <h2 className="text-base font-semibold text-neutral-900">{t("calendarSync.connect.title")}</h2>
+      <p className="text-sm text-neutral-600 leading-relaxed">{t("calendarSync.connect.body")}</p>
+      <input
+        type="url"
+        required
+        value={calendarUrl}
+        onChange={(e) => setCalendarUrl(e.target.value)}
+        placeholder="https://caldav.example.com/alice/health/"
+        aria-label={t("calendarSync.connect.url")}
+        className={INPUT_CLASS}
+      />
+      <input
+        type="text"
+        required
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder={t("calendarSync.connect.username")}
+        aria-label={t("calendarSync.connect.username")}
+        className={INPUT_CLASS}
+      />
+      <input
+        type="password"
+        required
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder={t("calendarSync.connect.password")}
+        aria-label={t("calendarSync.connect.password")}
+        className={INPUT_CLASS}
+      />
+      <p className="text-xs text-neutral-500 leading-relaxed">{t("calendarSync.connect.passwordHint")}</p>
+      <fieldset className="flex flex-col gap-2">
+        <legend className="mb-1 text-sm font-medium text-neutral-900">{t("calendarSync.connect.importTitle")}</legend>
+        <label className="flex items-center gap-2 text-sm text-neutral-700">
+          <input type="radio" name="import" checked={!importAll} onChange={() => setImportAll(false)} />
+          {t("calendarSync.connect.importCategory")}
+        </label>
+        {!importAll && (
+          <input
+            type="text"
+            required
+            value={importCategory}
+            onChange={(e) => setImportCategory(e.target.value)}
+            aria-label={t("calendarSync.connect.importCategory")}
+            className={INPUT_CLASS}
+          />
+        )}
+        <label className="flex items-center gap-2 text-sm text-neutral-700">
+          <input type="radio" name="import" checked={importAll} onChange={() => setImportAll(true)} />
+          {t("calendarSync.connect.importAll")}
+        </label>
+      </fieldset>
+      <button
+        type="submit"
+        disabled={busy}
+        className="flex items-center justify-center gap-2 rounded-full bg-neutral-900 px-4 py-3 text-sm font-semibold text-white transition-colors active:bg-neutral-700 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {busy && <Spinner size="sm" theme="blue" />}
+        <span>{busy ? t("calendarSync.connect.connecting") : t("calendarSync.connect.submit")}</span>
+      </button>
+    </form>
+  );
+}
+
+function VersionLine({
+  label,
+  version,
+  t,
+  formatDate,
+}: {
+  label: string;
+  version: CalDavConflictVersion | null;
+  t: Translate;
+  formatDate: FormatDate;
+}) {
+  return (
+    <div className="rounded-lg bg-neutral-50 px-3 py-2">
+      <p className="text-xs font-medium text-neutral-500">{label}</p>
+      {version ? (
+        <p className="text-sm text-neutral-900">
+          {version.title}
+          {version.start && (
+            <span className="text-neutral-500"> · {formatDate(version.start, { dateStyle: "medium", timeStyle: "short" })}</span>
+          )}
+        </p>
+      ) : (
+        <p className="text-sm italic text-neutral-500">{t("calendarSync.conflict.deleted")}</p>
+      )}
+    </div>
+  );
+}
+
+function ConflictCard({
+  conflict,
+  busy,
+  onResolve,
+  t,
+  formatDate,
+}: {
+  conflict: CalDavConflict;
+  busy: boolean;
+  onResolve: (appointmentId: string, keep: CalDavResolution) => void;
+  t: Translate;
+  formatDate: FormatDate;
+}) {
+  return (
+    <article className="flex flex-col gap-2 rounded-xl border border-amber-200 bg-white p-4 shadow-sm">
+      <p className="text-sm font-medium text-amber-800">{t(CONFLICT_LABEL_KEYS[conflict.kind])}</p>
+      <VersionLine label={t("calendarSync.conflict.hellocare")} version={conflict.local} t={t} formatDate={formatDate} />
+      <VersionLine label={t("calendarSync.conflict.calendar")} version={conflict.remote} t={t} formatDate={formatDate} />
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onResolve(conflict.appointmentId, "hellocare")}
+          disabled={busy}
+          className="flex-1 rounded-full border border-neutral-300 px-3 py-2 text-xs font-medium text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {t("calendarSync.conflict.keepHelloCare")}
+        </button>
+        <button
+          type="button"
+          onClick={() => onResolve(conflict.appointmentId, "calendar")}
+          disabled={busy}
+          className="flex-1 rounded-full border border-neutral-300 px-3 py-2 text-xs font-medium text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {t("calendarSync.conflict.keepCalendar")}
+        </button>
+      </div>
+    </article>
+  );
+}
+
+function SyncSummary({ status, t, formatDate }: { status: CalDavStatus; t: Translate; formatDate: FormatDate }) {
+  const result = status.lastResult;
+  return (
+    <div className="flex flex-col gap-1 text-sm text-neutral-600">
+      <p>
+        {status.lastSyncAt
+          ? t("calendarSync.status.lastSync", {
+              date: formatDate(status.lastSyncAt, { dateStyle: "medium", timeStyle: "short" }),
+            })
+          : t("calendarSync.status.neverSynced")}
+      </p>
+      <p>{t("calendarSync.status.linked", { count: status.linkedCount })}</p>
+      <p>
+        {status.importCategory
+          ? t("calendarSync.status.importCategory", { category: status.importCategory })
+          : t("calendarSync.status.importAll")}
+      </p>
+      {result && !status.lastError && (
+        <p className="text-xs text-neutral-500">
+          {t("calendarSync.status.result", {
+            pushed: result.pushed,
+            pulled: result.pulled,
+            deleted: result.deletedInCalendar + result.deletedInHelloCare,
+          })}
+          {result.skipped > 0 && ` ${t("calendarSync.status.skipped", { count: result.skipped })}`}
+        </p>
+      )}
+      {status.lastError && (
+        <div className="mt-1 rounded-xl border border-rose-200 bg-rose-50 p-3">
+          <p className="text-sm text-rose-800">{t("calendarSync.status.failed", { error: status.lastError })}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CalendarSyncPage() {
+  const { t, formatDate } = useI18n();
+  const { openDrawer } = useDrawer() ?? {};
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [status, setStatus] = useState<CalDavStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+    callCalDav("/api/caldav", {}, t("calendarSync.loadFailed"))
+      .then((next) => {
+        if (!cancelled) setStatus(next);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("calendarSync.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, t]);
+
+  /**
+   * Runs a status-changing request; a failed sync also refreshes the status to
+   * show its error. Returns whether the request succeeded.
+   */
+  const run = useCallback(
+    async (path: string, init: RequestInit, doneMessage: string | null, fallbackError: string) => {
+      setBusy(true);
+      setError(null);
+      try {
+        setStatus(await callCalDav(path, init, fallbackError));
+        if (doneMessage) setToastMessage(doneMessage);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallbackError);
+        const latest = await callCalDav("/api/caldav", {}, fallbackError).catch(() => null);
+        if (latest) setStatus(latest);
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [],
+  );
+
+  const handleConnect = useCallback(
+    async (calendarUrl: string, username: string, password: string, importCategory: string | null) => {
+      const connected = await run(
+        "/api/caldav",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ calendarUrl, username, password, importCategory }),
+        },
+        null,
+        t("calendarSync.connect.failed"),
+      );
+      // Start with a first sync so the user sees their appointments on both sides.
+      if (!connected) return;
+      await run("/api/caldav/sync", { method: "POST" }, t("calendarSync.synced"), t("calendarSync.syncFailed"));
+    },
+    [run, t],
+  );
+
+  const handleSync = useCallback(
+    () => run("/api/caldav/sync", { method: "POST" }, t("calendarSync.synced"), t("calendarSync.syncFailed")),
+    [run, t],
+  );
+
+  const handleDisconnect = useCallback(
+    () => run("/api/caldav", { method: "DELETE" }, t("calendarSync.disconnected"), t("calendarSync.loadFailed")),
+    [run, t],
+  );
+
+  const handleResolve = useCallback(
+    (appointmentId: string, keep: CalDavResolution) =>
+      run(
+        "/api/caldav/conflicts",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ appointmentId, keep }),
+        },
+        t("calendarSync.conflict.resolved"),
+        t("calendarSync.conflict.failed"),
+      ),
+    [run, t],
+  );
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  return (
+    <div className="w-full min-h-screen flex flex-col">
+      <Toast message={toastMessage ?? ""} visible={toastMessage != null} onDismiss={dismissToast} />
+      <header className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => openDrawer?.()}
+          className="p-2 -ml-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("home.openMenu")}
+        >
+          <HiOutlineMenuAlt4 className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-neutral-900">{t("calendarSync.title")}</h1>
+        <div className="w-10" aria-hidden />
+      </header>
+      <div className="flex-1 flex flex-col gap-6 p-4 overflow-auto">
+        <p className="text-sm text-neutral-500">{t("calendarSync.subtitle")}</p>
+
+        {error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-center">
+            <p className="text-sm text-rose-800">{error}</p>
+          </div>
+        )}
+
+        {!status && !error && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 py-12">
+            <Spinner size="lg" theme="neutral" />
+          </div>
+        )}
+
+        {status && !status.connected && <ConnectForm busy={busy} onConnect={handleConnect} t={t} />}
+
+        {status?.connected && (
+          <>
+            <section className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+              <div>
+                <h2 className="text-base font-semibold text-neutral-900">
+                  {status.calendarName ?? t("calendarSync.status.calendar")}
+                </h2>
+                <p className="break-all text-xs text-neutral-500">
+                  {status.username} · {status.calendarUrl}
+                </p>
+              </div>
+              <SyncSummary status={status} t={t} formatDate={formatDate} />
+              <button
+                type="button"
+                onClick={handleSync}
+                disabled={busy}
+                className="flex items-center justify-center gap-2 rounded-full bg-neutral-900 px-4 py-3 text-sm font-semibold text-white transition-colors active:bg-neutral-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {busy ? <Spinner size="sm" theme="blue" /> : <HiOutlineRefresh className="w-5 h-5" aria-hidden />}
+                <span>{busy ? t("calendarSync.syncing") : t("calendarSync.syncNow")}</span>
+              </button>
+              <button
+                type="button"
+                onClick={handleDisconnect}
+                disabled={busy}
+                className="rounded-full border border-rose-200 px-4 py-2.5 text-sm font-medium text-rose-700 transition-colors hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {t("calendarSync.disconnect")}
+              </button>
+            </section>
+
+            {status.conflicts.length > 0 && (
+              <section className="flex flex-col gap-3">
+                <h2 className="text-base font-semibold text-neutral-900">
+                  {t("calendarSync.conflict.title", { count: status.conflicts.length })}
+                </h2>
+                <p className="text-xs text-neutral-500">{t("calendarSync.conflict.hint")}</p>
+                <ul className="flex flex-col gap-3 list-none p-0 m-0">
+                  {status.conflicts.map((conflict) => (
+                    <li key={conflict.appointmentId}>
+                      <ConflictCard
+                        conflict={conflict}
+                        busy={busy}
+                        onResolve={handleResolve}
+                        t={t}
+                        formatDate={formatDate}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { HiOutlineLocationMarker, HiOutlineMenuAlt4, HiOutlinePencil, HiOutlinePhone, HiOutlineTrash, HiPlus } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { Toast } from "@/app/components/Toast";
+import { useDrawer } from "@/app/(dashboard)/layout";
+import { useAuth } from "@/lib/auth-context";
+import { db } from "@/lib/firebase";
+import {
+  SCHEDULING_METHODS,
+  canScheduleByPhone,
+  deleteCareTeamMember,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  useCareTeam,
+  writeCareTeamMember,
+} from "@/lib/firestore";
+import type { CareTeamMember, CareTeamMemberCreate, SchedulingMethod } from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+const HIGHLIGHT_CLASS = "ring-2 ring-blue-500 ring-offset-2";
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+const SCHEDULING_METHOD_KEYS: Record<SchedulingMethod, MessageKey> = {
+  phone: "careTeam.method.phone",
+  portal: "careTeam.method.portal",
+  walk_in: "careTeam.method.walk_in",
+};
+
+const EMPTY_FORM: CareTeamMemberCreate = {
+  id: "",
+  name: "",
+  specialty: "",
+  phone: "",
+  address: "",
+  schedulingMethod: "phone",
+  notes: "",
+};
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-neutral-500 focus:outline-none";
+
+/** Why the form can't be saved, or null. Phone is optional unless the member books by phone. */
+function validateMember(form: CareTeamMemberCreate, t: Translate): string | null {
+  if (!form.name.trim()) return t("careTeam.form.nameRequired");
+  if (form.schedulingMethod === "phone" && !isValidPhoneNumber(form.phone)) return t("careTeam.form.phoneRequired");
+  if (form.phone.trim() && !isValidPhoneNumber(form.phone)) return t("careTeam.form.invalidPhone");
+  return null;
+}
+
+function MemberForm({
+  initial,
+  saving,
+  t,
+  onSave,
+  onCancel,
+}: {
+  initial: CareTeamMemberCreate;
+  saving: boolean;
+  t: Translate;
+  onSave: (member: CareTeamMemberCreate) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState<CareTeamMemberCreate>(initial);
+  const [formError, setFormError] = useState<string | null>(null);
+  const update = (field: keyof CareTeamMemberCreate, value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <form
+      className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const error = validateMember(form, t);
+        setFormError(error);
+        if (!error) onSave(form);
+      }}
+    >
+      <h2 className="text-base font-semibold text-neutral-900">
+        {initial.id ? t("careTeam.form.editTitle") : t("careTeam.form.addTitle")}
+      </h2>
+      <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+        {t("careTeam.form.name")}
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => update("name", e.target.value)}
+          placeholder={t("careTeam.form.namePlaceholder")}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+        {t("careTeam.form.specialty")}
+        <input
+          type="text"
+          value={form.specialty}
+          onChange={(e) => update("specialty", e.target.value)}
+          placeholder={t("careTeam.form.specialtyPlaceholder")}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+        {t("careTeam.form.phone")}
+        <input
+          type="tel"
+          value={form.phone}
+          onChange={(e) => update("phone", formatPhoneNumber(e.target.value))}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+        {t("careTeam.form.address")}
+        <input type="text" value={form.address} onChange={(e) => update("address", e.target.value)} className={INPUT_CLASS} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+        {t("careTeam.form.schedulingMethod")}
+        <select
+          value={form.schedulingMethod}
+          onChange={(e) => update("schedulingMethod", e.target.value)}
+          className={`${INPUT_CLASS} bg-white`}
+        >
+          {SCHEDULING_METHODS.map((method) => (
+            <option key={method} value={method}>
+              {t(SCHEDULING_METHOD_KEYS[method])}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+        {t("careTeam.form.notes")}
+        <textarea
+          value={form.notes}
+          onChange={(e) => update("notes", e.target.value)}
+          placeholder={t("careTeam.form.notesPlaceholder")}
+          rows={2}
+          className={INPUT_CLASS}
+        />
+      </label>
+      {formError && <p className="text-xs text-rose-700">{formError}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="h-10 flex-1 rounded-full bg-neutral-200 text-sm font-medium text-neutral-900 active:bg-neutral-300"
+        >
+          {t("careTeam.form.cancel")}
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex h-10 flex-1 items-center justify-center rounded-full bg-neutral-900 text-sm font-medium text-white active:bg-neutral-700 disabled:opacity-50"
+        >
+          {saving ? <Spinner size="sm" /> : t("careTeam.form.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function MemberCard({
+  member,
+  highlight,
+  t,
+  onEdit,
+  onDelete,
+}: {
+  member: CareTeamMember;
+  highlight: boolean;
+  t: Translate;
+  onEdit: (member: CareTeamMember) => void;
+  onDelete: (id: string) => void;
+}) {
+  const name = member.name || t("careTeam.unnamed");
+  return (
+    <article
+      id={`care-team-${member.id}`}
+      className={`relative rounded-xl border bg-white p-4 shadow-sm transition-shadow hover:shadow-md ${highlight ? `border-blue-500 ${HIGHLIGHT_CLASS}` : "border-neutral-200"}`}
+      data-care-team-id={member.id}
+    >
+      <div className="absolute top-3 right-3 flex gap-1">
+        <button
+          type="button"
+          onClick={() => onEdit(member)}
+          className="p-1.5 rounded-lg text-neutral-400 hover:text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("careTeam.editAria", { name })}
+        >
+          <HiOutlinePencil className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete(member.id)}
+          className="p-1.5 rounded-lg text-neutral-400 hover:text-rose-600 hover:bg-rose-50 transition-colors"
+          aria-label={t("careTeam.deleteAria", { name })}
+        >
+          <HiOutlineTrash className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex flex-col gap-2 pr-16">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="text-base font-semibold text-neutral-900">{name}</h3>
+          <span className="inline-flex shrink-0 rounded-full border border-neutral-200 bg-neutral-100 px-2.5 py-0.5 text-xs font-medium text-neutral-600">
+            {t(SCHEDULING_METHOD_KEYS[member.schedulingMethod])}
+          </span>
+        </div>
+        {member.specialty && <p className="text-sm font-medium text-neutral-800">{member.specialty}</p>}
+        {member.phone && (
+          <a href={`tel:+1${member.phone.replace(/\D/g, "")}`} className="flex items-center gap-1 text-xs text-neutral-600 hover:text-neutral-900">
+            <HiOutlinePhone className="h-3.5 w-3.5 shrink-0" aria-hidden />
+            <span>{member.phone}</span>
+          </a>
+        )}
+        {member.address && (
+          <p className="flex items-start gap-1 text-xs text-neutral-600">
+            <HiOutlineLocationMarker className="mt-0.5 h-3.5 w-3.5 shrink-0" aria-hidden />
+            <span>{member.address}</span>
+          </p>
+        )}
+        {member.notes && <p className="text-xs text-neutral-500 whitespace-pre-line">{member.notes}</p>}
+        {canScheduleByPhone(member) && (
+          <Link
+            href={`/appointments/schedule?provider=${encodeURIComponent(member.id)}`}
+            className="mt-1 flex w-fit items-center gap-1.5 rounded-full border border-neutral-200 px-3 py-1.5 text-xs font-medium text-neutral-700 transition-colors hover:bg-neutral-100"
+          >
+            <HiOutlinePhone className="h-4 w-4 shrink-0" aria-hidden />
+            {t("careTeam.schedule")}
+          </Link>
+        )}
+      </div>
+    </article>
+  );
+}
+
+function EmptyState({ t }: { t: Translate }) {
+  return (
+    <div className="flex flex-col items-center justify-center gap-3 rounded-2xl border border-dashed border-neutral-200 bg-neutral-50/50 py-12 px-6 text-center">
+      <p className="text-sm font-medium text-neutral-600">{t("careTeam.emptyTitle")}</p>
+      <p className="text-xs text-neutral-500 max-w-xs">{t("careTeam.emptyBody")}</p>
+    </div>
+  );
+}
+
+function ErrorState({ message, t }: { message: string; t: Translate }) {
+  return (
+    <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-center">
+      <p className="text-sm font-medium text-rose-800">{t("common.somethingWentWrong")}</p>
+      <p className="mt-1 text-xs text-rose-700">{message}</p>
+    </div>
+  );
+}
+
+export default function CareTeamPage() {
+  const { t } = useI18n();
+  const searchParams = useSearchParams();
+  const highlightId = searchParams.get("highlight");
+  const { careTeam, loading, error } = useCareTeam();
+  const { openDrawer } = useDrawer() ?? {};
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [operationError, setOperationError] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  /** Member being added (id "") or edited; null when the form is closed. */
+  const [editing, setEditing] = useState<CareTeamMemberCreate | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!highlightId || loading) return;
+    const el = document.getElementById(`care-team-${highlightId}`);
+    if (el) {
+      el.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [highlightId, loading]);
+
+  const handleSave = useCallback(
+    async (member: CareTeamMemberCreate) => {
+      if (!uid) return;
+      setOperationError(null);
+      setSaving(true);
+      const result = await writeCareTeamMember(db, uid, {
+        id: member.id || crypto.randomUUID(),
+        name: member.name.trim(),
+        specialty: member.specialty.trim(),
+        phone: member.phone.trim(),
+        address: member.address.trim(),
+        schedulingMethod: member.schedulingMethod,
+        notes: member.notes.trim(),
+      });
+      setSaving(false);
+      if (result.ok) {
+        setEditing(null);
+        setToastMessage(t("common.updated"));
+      } else {
+        setOperationError(result.error.message);
+      }
+    },
+    [uid, t]
+  );
+
+  const handleDelete = useCallback(
+    async (memberId: string) => {
+      if (!uid) return;
+      setOperationError(null);
+      const result = await deleteCareTeamMember(db, uid, memberId);
+      if (result.ok) {
+        setToastMessage(t("common.deleted"));
+      } else {
+        setOperationError(result.error.message);
+      }
+    },
+    [uid, t]
+  );
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  return (
+    <div className="w-full min-h-screen flex flex-col">
+      <Toast
+        message={toastMessage ?? ""}
+        visible={toastMessage != null}
+        onDismiss={dismissToast}
+      />
+      <header className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => openDrawer?.()}
+          className="p-2 -ml-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("home.openMenu")}
+        >
+          <HiOutlineMenuAlt4 className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-neutral-900">{t("careTeam.title")}</h1>
+        <div className="w-10" aria-hidden />
+      </header>
+      <div className="flex-1 flex flex-col gap-6 p-4 overflow-auto">
+        <p className="text-sm text-neutral-500">{t("careTeam.subtitle")}</p>
+
+        {operationError && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-center">
+            <p className="text-sm text-rose-800">{operationError}</p>
+          </div>
+        )}
+
+        {editing ? (
+          <MemberForm
+            key={editing.id || "new"}
+            initial={editing}
+            saving={saving}
+            t={t}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditing(EMPTY_FORM)}
+            className="flex h-12 w-full items-center justify-center gap-2 rounded-full bg-neutral-900 text-sm font-medium text-white active:bg-neutral-700"
+          >
+            <HiPlus className="h-4 w-4" aria-hidden />
+            {t("careTeam.add")}
+          </button>
+        )}
+
+        {loading && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 py-12">
+            <Spinner size="lg" theme="neutral" />
+            <span className="text-sm text-neutral-500">{t("careTeam.loading")}</span>
+          </div>
+        )}
+
+        {!loading && error && <ErrorState message={error.message} t={t} />}
+
+        {!loading && !error && careTeam.length === 0 && <EmptyState t={t} />}
+
+        {!loading && !error && careTeam.length > 0 && (
+          <ul className="flex flex-col gap-3 list-none p-0 m-0">
+            {careTeam.map((member) => (
+              <li key={member.id}>
+                <MemberCard
+                  member={member}
+                  highlight={highlightId === member.id}
+                  t={t}
+                  onEdit={setEditing}
+                  onDelete={handleDelete}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
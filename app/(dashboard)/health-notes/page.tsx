@@ -1,6 +1,7 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { HiOutlineMenuAlt4, HiOutlineTrash } from "react-icons/hi";
 import { useI18n } from "@/app/components/I18nProvider";
 import { PillDropdown, type PillOption } from "@/app/components/PillDropdown";
@@ -13,6 +14,8 @@ import { deleteHealthNote, HEALTH_NOTE_TYPES, useHealthNotes, writeHealthNote }
 import type { HealthNote } from "@/lib/firestore";
 import type { MessageKey } from "@/lib/i18n/messages";
 
+const HIGHLIGHT_CLASS = "ring-2 ring-blue-500 ring-offset-2";
+
 type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
 
 const HEALTH_NOTE_TYPE_LABEL_KEYS: Record<string, MessageKey> = {
@@ -40,6 +43,7 @@ function HealthNoteCard({
   t,
   onDelete,
   onFieldChange,
+  highlight,
 }: {
   note: HealthNote;
   formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
@@ -47,10 +51,12 @@ function HealthNoteCard({
   t: Translate;
   onDelete: (id: string) => void;
   onFieldChange: (id: string, field: string, value: string) => void;
+  highlight: boolean;
 }) {
   return (
     <article
-      className="relative rounded-xl border border-neutral-200 bg-white p-4 shadow-sm transition-shadow hover:shadow-md"
+      id={`health-note-${note.id}`}
+      className={`relative rounded-xl border bg-white p-4 shadow-sm transition-shadow hover:shadow-md ${highlight ? `border-blue-500 ${HIGHLIGHT_CLASS}` : "border-neutral-200"}`}
       data-health-note-id={note.id}
     >
       <button
@@ -112,12 +118,22 @@ function ErrorState({
 
 export default function HealthNotesPage() {
   const { t, formatDate } = useI18n();
+  const searchParams = useSearchParams();
+  const highlightId = searchParams.get("highlight");
   const { healthNotes, loading, error } = useHealthNotes();
   const { openDrawer } = useDrawer() ?? {};
   const { user } = useAuth();
   const [operationError, setOperationError] = useState<string | null>(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (!highlightId || loading) return;
+    const el = document.getElementById(`health-note-${highlightId}`);
+    if (el) {
+      el.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [highlightId, loading]);
+
   const handleDelete = async (noteId: string) => {
     if (!user?.uid) return;
     setOperationError(null);
@@ -196,6 +212,7 @@ export default function HealthNotesPage() {
                 t={t}
                 onDelete={handleDelete}
                 onFieldChange={handleFieldChange}
+                highlight={highlightId === note.id}
               />
             </li>
           ))}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { HiOutlineCalendar, HiOutlineClipboardCopy, HiOutlineRefresh } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { authFetch } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+
+type CalendarFeedSectionProps = {
+  onToast: (message: string) => void;
+};
+
+/** Calendar apps subscribe over webcal:// rather than downloading the file. */
+function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, "webcal://");
+}
+
+/**
+ * The user's subscribable calendar feed: shows the secret feed URL and lets
+ * them create, replace or revoke it (see /api/calendar-feed).
+ */
+export function CalendarFeedSection({ onToast }: CalendarFeedSectionProps) {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+    authFetch("/api/calendar-feed")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(t("healthRecord.calendar.failed"));
+        const data = (await res.json()) as { url: string | null };
+        if (!cancelled) setUrl(data.url);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("healthRecord.calendar.failed"));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, t]);
+
+  const update = useCallback(
+    async (method: "POST" | "DELETE", doneMessage: string) => {
+      setBusy(true);
+      setError(null);
+      try {
+        const res = await authFetch("/api/calendar-feed", {
+          method,
+          ...(method === "POST" && {
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+          }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error ?? t("healthRecord.calendar.failed"));
+        setUrl((data as { url: string | null }).url);
+        onToast(doneMessage);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t("healthRecord.calendar.failed"));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onToast, t],
+  );
+
+  const handleCopy = useCallback(async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      onToast(t("healthRecord.calendar.copied"));
+    } catch {
+      setError(t("healthRecord.calendar.copyFailed"));
+    }
+  }, [onToast, t, url]);
+
+  return (
+    <section className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+      <h2 className="text-base font-semibold text-neutral-900">{t("healthRecord.calendar.title")}</h2>
+      <p className="text-sm text-neutral-600 leading-relaxed">{t("healthRecord.calendar.body")}</p>
+      {error && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-center">
+          <p className="text-sm text-rose-800">{error}</p>
+        </div>
+      )}
+      {loading ? (
+        <div className="flex justify-center py-3">
+          <Spinner size="sm" />
+        </div>
+      ) : url ? (
+        <>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={url}
+              onFocus={(e) => e.target.select()}
+              className="min-w-0 flex-1 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2 font-mono text-xs text-neutral-700"
+              aria-label={t("healthRecord.calendar.urlAria")}
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="shrink-0 rounded-lg p-2 text-neutral-600 transition-colors hover:bg-neutral-100"
+              aria-label={t("healthRecord.calendar.copy")}
+            >
+              <HiOutlineClipboardCopy className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="text-xs text-neutral-500 leading-relaxed">{t("healthRecord.calendar.secretHint")}</p>
+          <a
+            href={toWebcalUrl(url)}
+            className="flex items-center justify-center gap-2 rounded-full bg-neutral-900 px-4 py-3 text-sm font-semibold text-white transition-colors active:bg-neutral-700"
+          >
+            <HiOutlineCalendar className="w-5 h-5" aria-hidden />
+            <span>{t("healthRecord.calendar.subscribe")}</span>
+          </a>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => update("POST", t("healthRecord.calendar.regenerated"))}
+              disabled={busy}
+              className="flex flex-1 items-center justify-center gap-2 rounded-full border border-neutral-300 px-4 py-2.5 text-sm font-medium text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              <HiOutlineRefresh className="w-4 h-4" aria-hidden />
+              <span>{t("healthRecord.calendar.regenerate")}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => update("DELETE", t("healthRecord.calendar.revoked"))}
+              disabled={busy}
+              className="flex-1 rounded-full border border-rose-200 px-4 py-2.5 text-sm font-medium text-rose-700 transition-colors hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t("healthRecord.calendar.revoke")}
+            </button>
+          </div>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => update("POST", t("healthRecord.calendar.created"))}
+          disabled={busy || !uid}
+          className="flex items-center justify-center gap-2 rounded-full border border-neutral-300 px-4 py-3 text-sm font-semibold text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busy ? <Spinner size="sm" /> : <HiOutlineCalendar className="w-5 h-5" aria-hidden />}
+          <span>{t("healthRecord.calendar.create")}</span>
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { IMPORT_KINDS, getCandidateDate, getCandidateTitle } from "@/lib/fhir";
+import type { ImportCandidate, ImportKind, ParsedImport } from "@/lib/fhir";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+const KIND_LABEL_KEYS: Record<ImportKind, MessageKey> = {
+  healthNotes: "drawer.healthNotes",
+  actionItems: "drawer.actionItems",
+  appointments: "drawer.appointments",
+  documents: "drawer.documents",
+  sessionMetadata: "drawer.pastSessions",
+};
+
+type ImportPreviewProps = {
+  fileName: string;
+  parsed: ParsedImport;
+  /** Keys of candidates that look like existing records. */
+  duplicates: Set<string>;
+  /** Keys of candidates the user has accepted. */
+  accepted: Set<string>;
+  importing: boolean;
+  onToggle: (key: string) => void;
+  onImport: () => void;
+  onCancel: () => void;
+};
+
+function CandidateRow({
+  candidate,
+  checked,
+  duplicate,
+  disabled,
+  onToggle,
+}: {
+  candidate: ImportCandidate;
+  checked: boolean;
+  duplicate: boolean;
+  disabled: boolean;
+  onToggle: (key: string) => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const date = getCandidateDate(candidate);
+  const hasDate = date.getTime() > 0;
+  const title =
+    candidate.kind === "appointments"
+      ? t("healthRecord.import.appointmentAt", { date: formatDate(date, { dateStyle: "medium", timeStyle: "short" }) })
+      : getCandidateTitle(candidate) || t("documents.untitled");
+
+  return (
+    <label
+      className={`flex items-start gap-3 rounded-lg border p-3 text-sm transition-colors ${checked ? "border-neutral-300 bg-white" : "border-neutral-200 bg-neutral-50 text-neutral-500"}`}
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={() => onToggle(candidate.key)}
+        className="mt-0.5 h-4 w-4 shrink-0 accent-neutral-900"
+        aria-label={t("healthRecord.import.toggleAria", { name: title })}
+      />
+      <span className="flex min-w-0 flex-1 flex-col gap-0.5">
+        <span className={`truncate font-medium ${checked ? "text-neutral-900" : ""}`}>{title}</span>
+        <span className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-neutral-500">
+          {hasDate && candidate.kind !== "appointments" && <span>{formatDate(date, { dateStyle: "medium" })}</span>}
+          <span>{candidate.source}</span>
+        </span>
+      </span>
+      {duplicate && (
+        <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+          {t("healthRecord.import.duplicate")}
+        </span>
+      )}
+    </label>
+  );
+}
+
+/** Lists parsed records grouped by collection, each with an accept checkbox. */
+export function ImportPreview({
+  fileName,
+  parsed,
+  duplicates,
+  accepted,
+  importing,
+  onToggle,
+  onImport,
+  onCancel,
+}: ImportPreviewProps) {
+  const { t } = useI18n();
+  const groups = IMPORT_KINDS.map((kind) => ({
+    kind,
+    candidates: parsed.candidates.filter((c) => c.kind === kind),
+  })).filter((group) => group.candidates.length > 0);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-1 text-sm text-neutral-600">
+        <p className="font-medium text-neutral-900">
+          {t("healthRecord.import.summary", { count: parsed.candidates.length, file: fileName })}
+        </p>
+        {duplicates.size > 0 && <p>{t("healthRecord.import.duplicates", { count: duplicates.size })}</p>}
+        {parsed.skipped > 0 && <p>{t("healthRecord.import.skipped", { count: parsed.skipped })}</p>}
+      </div>
+
+      {groups.map(({ kind, candidates }) => (
+        <section key={kind} className="flex flex-col gap-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-neutral-500">
+            {t(KIND_LABEL_KEYS[kind])} ({candidates.length})
+          </h3>
+          <ul className="m-0 flex list-none flex-col gap-2 p-0">
+            {candidates.map((candidate) => (
+              <li key={candidate.key}>
+                <CandidateRow
+                  candidate={candidate}
+                  checked={accepted.has(candidate.key)}
+                  duplicate={duplicates.has(candidate.key)}
+                  disabled={importing}
+                  onToggle={onToggle}
+                />
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={importing}
+          className="rounded-full px-4 py-2 text-sm font-medium text-neutral-600 hover:bg-neutral-100 disabled:opacity-60"
+        >
+          {t("healthRecord.import.cancel")}
+        </button>
+        <button
+          type="button"
+          onClick={onImport}
+          disabled={importing || accepted.size === 0}
+          className="flex items-center gap-2 rounded-full bg-neutral-900 px-4 py-2 text-sm font-semibold text-white active:bg-neutral-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {importing && <Spinner size="sm" theme="blue" />}
+          <span>
+            {importing ? t("healthRecord.import.importing") : t("healthRecord.import.submit", { count: accepted.size })}
+          </span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { HiOutlineDownload, HiOutlineMenuAlt4, HiOutlineUpload } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { Toast } from "@/app/components/Toast";
+import { useDrawer } from "@/app/(dashboard)/layout";
+import { authFetch } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+import { downloadBlob } from "@/lib/download";
+import { db } from "@/lib/firebase";
+import { findDuplicates, parseImportFile, writeImportCandidates } from "@/lib/fhir";
+import type { ExistingRecords, ParsedImport } from "@/lib/fhir";
+import { useAppointments, useDocuments, useUserData } from "@/lib/firestore";
+import { CalendarFeedSection } from "./components/CalendarFeedSection";
+import { ImportPreview } from "./components/ImportPreview";
+
+const FALLBACK_FILENAME = "hellocare-fhir.json";
+
+const IMPORT_ACCEPT = ".json,.xml,application/json,application/fhir+json,application/xml,text/xml";
+
+type ImportState = {
+  fileName: string;
+  parsed: ParsedImport;
+  /** Computed once when the file is read, so records don't flip to "duplicate" as they are saved. */
+  duplicates: Set<string>;
+  accepted: Set<string>;
+};
+
+/** Reads the filename from a Content-Disposition header, if present. */
+function getFilename(res: Response): string {
+  const match = /filename="([^"]+)"/.exec(res.headers.get("content-disposition") ?? "");
+  return match?.[1] ?? FALLBACK_FILENAME;
+}
+
+export default function HealthRecordPage() {
+  const { t } = useI18n();
+  const { openDrawer } = useDrawer() ?? {};
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const { user } = useAuth();
+  const userData = useUserData();
+  const { appointments, loading: appointmentsLoading } = useAppointments();
+  const { documents, loading: documentsLoading } = useDocuments();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importState, setImportState] = useState<ImportState | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const existingLoading = !user || userData.loading || appointmentsLoading || documentsLoading;
+  const existing = useMemo<ExistingRecords>(
+    () => ({
+      healthNotes: userData.healthNotes,
+      actionItems: userData.actionItems,
+      sessionMetadata: userData.sessionMetadata,
+      appointments,
+      documents,
+    }),
+    [userData.healthNotes, userData.actionItems, userData.sessionMetadata, appointments, documents],
+  );
+
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const res = await authFetch("/api/fhir/export");
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.detail ?? data.error ?? t("healthRecord.export.failed"));
+      }
+      downloadBlob(await res.blob(), getFilename(res));
+      setToastMessage(t("healthRecord.export.done"));
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : t("healthRecord.export.failed"));
+    } finally {
+      setExporting(false);
+    }
+  }, [t]);
+
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      setImportError(null);
+      setImportState(null);
+      let parsed: ParsedImport;
+      try {
+        parsed = parseImportFile(await file.text());
+      } catch (err) {
+        console.warn("[health-record] Could not parse import file:", err);
+        setImportError(t("healthRecord.import.invalid"));
+        return;
+      }
+      if (parsed.candidates.length === 0) {
+        setImportError(t("healthRecord.import.empty"));
+        return;
+      }
+      const duplicates = findDuplicates(parsed.candidates, existing);
+      const accepted = new Set(parsed.candidates.map((c) => c.key).filter((key) => !duplicates.has(key)));
+      setImportState({ fileName: file.name, parsed, duplicates, accepted });
+    },
+    [existing, t],
+  );
+
+  const handleToggle = useCallback((key: string) => {
+    setImportState((prev) => {
+      if (!prev) return prev;
+      const accepted = new Set(prev.accepted);
+      if (accepted.has(key)) accepted.delete(key);
+      else accepted.add(key);
+      return { ...prev, accepted };
+    });
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!user?.uid || !importState) return;
+    setImporting(true);
+    setImportError(null);
+    const accepted = importState.parsed.candidates.filter((c) => importState.accepted.has(c.key));
+    const result = await writeImportCandidates(db, user.uid, accepted, existing);
+    setImporting(false);
+    if (result.failed.length > 0) {
+      setImportError(
+        t("healthRecord.import.failed", { count: result.failed.length, error: result.failed[0].error.message }),
+      );
+      // Keep the failed records selected so the user can retry them.
+      const failedKeys = new Set(result.failed.map((f) => f.candidate.key));
+      setImportState({ ...importState, accepted: failedKeys });
+    } else {
+      setImportState(null);
+    }
+    if (result.written > 0) {
+      setToastMessage(t("healthRecord.import.done", { count: result.written }));
+    }
+  }, [existing, importState, t, user?.uid]);
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  return (
+    <div className="w-full min-h-screen flex flex-col">
+      <Toast message={toastMessage ?? ""} visible={toastMessage != null} onDismiss={dismissToast} />
+      <header className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => openDrawer?.()}
+          className="p-2 -ml-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("home.openMenu")}
+        >
+          <HiOutlineMenuAlt4 className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-neutral-900">{t("healthRecord.title")}</h1>
+        <div className="w-10" aria-hidden />
+      </header>
+      <div className="flex-1 flex flex-col gap-6 p-4 overflow-auto">
+        <p className="text-sm text-neutral-500">{t("healthRecord.subtitle")}</p>
+
+        <section className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+          <h2 className="text-base font-semibold text-neutral-900">{t("healthRecord.export.title")}</h2>
+          <p className="text-sm text-neutral-600 leading-relaxed">{t("healthRecord.export.body")}</p>
+          {exportError && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-center">
+              <p className="text-sm text-rose-800">{exportError}</p>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center justify-center gap-2 rounded-full bg-neutral-900 px-4 py-3 text-sm font-semibold text-white transition-colors active:bg-neutral-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {exporting ? <Spinner size="sm" theme="blue" /> : <HiOutlineDownload className="w-5 h-5" aria-hidden />}
+            <span>{exporting ? t("healthRecord.export.downloading") : t("healthRecord.export.button")}</span>
+          </button>
+        </section>
+
+        <section className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+          <h2 className="text-base font-semibold text-neutral-900">{t("healthRecord.import.title")}</h2>
+          <p className="text-sm text-neutral-600 leading-relaxed">{t("healthRecord.import.body")}</p>
+          {importError && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-center">
+              <p className="text-sm text-rose-800">{importError}</p>
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          {importState ? (
+            <ImportPreview
+              fileName={importState.fileName}
+              parsed={importState.parsed}
+              duplicates={importState.duplicates}
+              accepted={importState.accepted}
+              importing={importing}
+              onToggle={handleToggle}
+              onImport={handleImport}
+              onCancel={() => setImportState(null)}
+            />
+          ) : (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={existingLoading}
+              className="flex items-center justify-center gap-2 rounded-full border border-neutral-300 px-4 py-3 text-sm font-semibold text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {existingLoading ? <Spinner size="sm" /> : <HiOutlineUpload className="w-5 h-5" aria-hidden />}
+              <span>{t("healthRecord.import.choose")}</span>
+            </button>
+          )}
+        </section>
+
+        <CalendarFeedSection onToast={setToastMessage} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { HiOutlineMenuAlt4 } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { useDrawer } from "@/app/(dashboard)/layout";
+import { getAuditEntityLabel, getChangedFields, isAssistantActor, useAuditLog } from "@/lib/firestore";
+import type { AuditActor, AuditEntityType, AuditEntry, AuditOperation } from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+type FormatDate = (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+
+type Filter = "all" | "assistant" | "user";
+
+const FILTERS: { value: Filter; labelKey: MessageKey }[] = [
+  { value: "all", labelKey: "history.filter.all" },
+  { value: "assistant", labelKey: "history.filter.assistant" },
+  { value: "user", labelKey: "history.filter.user" },
+];
+
+const ACTOR_LABEL_KEYS: Record<AuditActor, MessageKey> = {
+  user: "history.actor.user",
+  chat_assistant: "history.actor.chatAssistant",
+  voice_command: "history.actor.voiceCommand",
+  visit_extraction: "history.actor.visitExtraction",
+  calendar_sync: "history.actor.calendarSync",
+};
+
+const ACTOR_BADGE_CLASSES: Record<AuditActor, string> = {
+  user: "bg-neutral-100 text-neutral-700",
+  chat_assistant: "bg-blue-100 text-blue-800",
+  voice_command: "bg-violet-100 text-violet-800",
+  visit_extraction: "bg-emerald-100 text-emerald-800",
+  calendar_sync: "bg-amber-100 text-amber-800",
+};
+
+const OPERATION_LABEL_KEYS: Record<AuditOperation, MessageKey> = {
+  create: "history.operation.create",
+  update: "history.operation.update",
+  delete: "history.operation.delete",
+};
+
+const ENTITY_LABEL_KEYS: Record<AuditEntityType, MessageKey> = {
+  healthNotes: "history.entity.healthNotes",
+  actionItems: "history.entity.actionItems",
+  sessionMetadata: "history.entity.sessionMetadata",
+  appointments: "history.entity.appointments",
+  documents: "history.entity.documents",
+  medicationLogs: "history.entity.medicationLogs",
+  transcripts: "history.entity.transcripts",
+  careTeam: "history.entity.careTeam",
+  userMetadata: "history.entity.userMetadata",
+};
+
+/** Where each kind of record is shown; opened with ?highlight={id}. */
+const ENTITY_ROUTES: Partial<Record<AuditEntityType, string>> = {
+  healthNotes: "/health-notes",
+  actionItems: "/action-items",
+  sessionMetadata: "/past-sessions",
+  appointments: "/appointments",
+  documents: "/documents",
+  careTeam: "/care-team",
+};
+
+const MAX_VALUE_LENGTH = 120;
+
+function formatValue(value: unknown, formatDate: FormatDate): string {
+  if (value == null || value === "") return "—";
+  if (value instanceof Date) {
+    return value.getTime() === 0 ? "—" : formatDate(value, { dateStyle: "medium", timeStyle: "short" });
+  }
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function ChangeList({ entry, formatDate }: { entry: AuditEntry; formatDate: FormatDate }) {
+  const fields = getChangedFields(entry.before, entry.after);
+  return (
+    <dl className="mt-2 flex flex-col gap-1.5 rounded-lg bg-neutral-50 p-3 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="flex flex-col gap-0.5">
+          <dt className="font-medium text-neutral-700">{field}</dt>
+          <dd className="break-words text-neutral-600">
+            {entry.operation === "update" ? (
+              <>
+                <span className="text-rose-700 line-through">{formatValue(entry.before?.[field], formatDate)}</span>
+                {" → "}
+                <span className="text-emerald-700">{formatValue(entry.after?.[field], formatDate)}</span>
+              </>
+            ) : (
+              formatValue((entry.after ?? entry.before)?.[field], formatDate)
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function HistoryEntryCard({ entry, t, formatDate }: { entry: AuditEntry; t: Translate; formatDate: FormatDate }) {
+  const [expanded, setExpanded] = useState(false);
+  const label = getAuditEntityLabel(entry);
+  const route = entry.operation !== "delete" ? ENTITY_ROUTES[entry.entityType] : undefined;
+  const entityKey = ENTITY_LABEL_KEYS[entry.entityType];
+
+  return (
+    <article className="rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex min-w-0 flex-col gap-1">
+          <p className="text-sm text-neutral-900">
+            {t(OPERATION_LABEL_KEYS[entry.operation], { entity: entityKey ? t(entityKey) : entry.entityType })}
+          </p>
+          {label && <p className="truncate text-sm font-semibold text-neutral-900">{label}</p>}
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-neutral-500">
+            <span className={`rounded-full px-2 py-0.5 font-medium ${ACTOR_BADGE_CLASSES[entry.actor]}`}>
+              {t(ACTOR_LABEL_KEYS[entry.actor])}
+            </span>
+            <span>{formatDate(entry.createdAt, { dateStyle: "medium", timeStyle: "short" })}</span>
+            {entry.reason && <span className="font-mono">{entry.reason}</span>}
+          </div>
+        </div>
+        {route && (
+          <Link
+            href={`${route}?highlight=${encodeURIComponent(entry.entityId)}`}
+            className="shrink-0 rounded-full px-3 py-1 text-xs font-medium text-neutral-600 hover:bg-neutral-100"
+          >
+            {t("history.view")}
+          </Link>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        aria-expanded={expanded}
+        className="mt-2 text-xs font-medium text-neutral-500 hover:text-neutral-900"
+      >
+        {expanded ? t("history.hideChanges") : t("history.showChanges")}
+      </button>
+      {expanded && <ChangeList entry={entry} formatDate={formatDate} />}
+    </article>
+  );
+}
+
+export default function HistoryPage() {
+  const { t, formatDate } = useI18n();
+  const { openDrawer } = useDrawer() ?? {};
+  const { entries, loading, error } = useAuditLog();
+  const [filter, setFilter] = useState<Filter>("all");
+
+  const visible = useMemo(
+    () =>
+      entries.filter((entry) =>
+        filter === "all" ? true : filter === "assistant" ? isAssistantActor(entry.actor) : !isAssistantActor(entry.actor),
+      ),
+    [entries, filter],
+  );
+
+  return (
+    <div className="w-full min-h-screen flex flex-col">
+      <header className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => openDrawer?.()}
+          className="p-2 -ml-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("home.openMenu")}
+        >
+          <HiOutlineMenuAlt4 className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-neutral-900">{t("history.title")}</h1>
+        <div className="w-10" aria-hidden />
+      </header>
+      <div className="flex-1 flex flex-col gap-4 p-4 overflow-auto">
+        <p className="text-sm text-neutral-500">{t("history.subtitle")}</p>
+
+        <div className="flex gap-2" role="group" aria-label={t("history.filterAria")}>
+          {FILTERS.map(({ value, labelKey }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setFilter(value)}
+              aria-pressed={filter === value}
+              className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${filter === value ? "border-neutral-900 bg-neutral-900 text-white" : "border-neutral-300 bg-white text-neutral-600 hover:bg-neutral-100"}`}
+            >
+              {t(labelKey)}
+            </button>
+          ))}
+        </div>
+
+        {loading && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 py-12">
+            <Spinner size="lg" theme="neutral" />
+            <span className="text-sm text-neutral-500">{t("history.loading")}</span>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-center">
+            <p className="text-sm font-medium text-rose-800">{t("common.somethingWentWrong")}</p>
+            <p className="mt-1 text-xs text-rose-700">{error.message}</p>
+          </div>
+        )}
+
+        {!loading && !error && visible.length === 0 && (
+          <div className="rounded-2xl border border-dashed border-neutral-200 bg-neutral-50/50 py-12 px-6 text-center">
+            <p className="text-sm font-medium text-neutral-600">{t("history.empty")}</p>
+          </div>
+        )}
+
+        {!loading && !error && visible.length > 0 && (
+          <ul className="flex flex-col gap-3 list-none p-0 m-0">
+            {visible.map((entry) => (
+              <li key={entry.id}>
+                <HistoryEntryCard entry={entry} t={t} formatDate={formatDate} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 "use client";
 
 import Link from "next/link";
-import { createContext, useCallback, useContext, useState } from "react";
-import { HiCalendar, HiCamera, HiChatAlt2, HiClipboardList, HiClock, HiDocumentText, HiHome, HiLogout } from "react-icons/hi";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { HiArchive, HiBell, HiCalendar, HiCamera, HiChatAlt2, HiClipboardList, HiClock, HiDocumentText, HiFolderOpen, HiHome, HiLogout, HiRefresh, HiUserGroup } from "react-icons/hi";
 import { useI18n } from "@/app/components/I18nProvider";
 import { Drawer } from "@/app/components";
 import { VoiceCommandFAB } from "@/app/components/VoiceCommandFAB";
 import { Spinner } from "@/app/components/Spinner";
 import { useAuth } from "@/lib/auth-context";
-import { useUserMetadata } from "@/lib/firestore";
+import { db } from "@/lib/firebase";
+import { migrateHospitalPhoneNumber, useUserMetadata } from "@/lib/firestore";
+import { forgetDevice } from "@/lib/reminders/browser";
 
 const DRAWER_MENU_ITEMS = [
   { key: "drawer.home", href: "/", icon: HiHome },
@@ -16,9 +18,14 @@ const DRAWER_MENU_ITEMS = [
   { key: "drawer.healthNotes", href: "/health-notes", icon: HiDocumentText },
   { key: "drawer.appointments", href: "/appointments", icon: HiClock },
   { key: "drawer.pastSessions", href: "/past-sessions", icon: HiCalendar },
+  { key: "drawer.careTeam", href: "/care-team", icon: HiUserGroup },
   { key: "drawer.conversation", href: "/appointments/conversation", icon: HiChatAlt2 },
   { key: "drawer.documents", href: "/documents", icon: HiDocumentText },
   { key: "drawer.scan_documents", href: "/scan-documents", icon: HiCamera },
+  { key: "drawer.healthRecord", href: "/health-record", icon: HiFolderOpen },
+  { key: "drawer.calendarSync", href: "/calendar-sync", icon: HiRefresh },
+  { key: "drawer.reminders", href: "/reminders", icon: HiBell },
+  { key: "drawer.history", href: "/history", icon: HiArchive },
 ] as const;
 
 type DrawerContextValue = {
@@ -44,6 +51,17 @@ export default function DashboardLayout({
   const { data: userMetadata } = useUserMetadata();
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const uid = user?.uid;
+  const hasLegacyPhoneNumber = userMetadata?.hospitalPhoneNumber !== undefined;
+  const legacyProviderName = t("careTeam.primaryCare");
+
+  // Profiles from before the care team have one hospital number; move it into the care team.
+  useEffect(() => {
+    if (!uid || !hasLegacyPhoneNumber) return;
+    migrateHospitalPhoneNumber(db, uid, legacyProviderName).then((result) => {
+      if (!result.ok) console.warn("[care-team] Could not move the hospital phone number:", result.error.message);
+    });
+  }, [uid, hasLegacyPhoneNumber, legacyProviderName]);
 
   const openDrawer = useCallback(() => setDrawerOpen(true), []);
 
@@ -56,6 +74,7 @@ export default function DashboardLayout({
     if (isSigningOut) return;
     setIsSigningOut(true);
     try {
+      await forgetDevice();
       await signOut();
       setDrawerOpen(false);
     } finally {
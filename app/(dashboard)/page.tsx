@@ -1,22 +1,40 @@
 'use client';
 
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useCallback, useMemo, useRef, useState } from "react";
-import { HiOutlineMenuAlt4 } from "react-icons/hi";
+import { HiOutlineChatAlt2, HiOutlineMenuAlt4 } from "react-icons/hi";
 import { HiOutlineChatBubbleLeftRight } from "react-icons/hi2";
 import { motion } from "motion/react";
 import { useChat } from "@ai-sdk/react";
 import { useI18n } from "@/app/components/I18nProvider";
-import { ChatWidget, HomeSummary, StreamingText } from "@/app/components";
+import { ChatThreadList, ChatWidget, CitationChips, HomeSummary, PendingActionCard, StreamingText, UndoDeleteBar } from "@/app/components";
 import { getSuggestedPrompts } from "@/app/components/HomeSummary";
 import { useDrawer } from "@/app/(dashboard)/layout";
 import { useToolExecutor } from "@/app/hooks/useToolExecutor";
-import { CHAT_TOOL_NAMES } from "@/lib/chat-actions";
-import { useAppointments, useDocuments, useUserMetadata, useUserData } from "@/lib/firestore";
-import type { UIMessage } from "ai";
+import { CHAT_TOOL_NAMES, citationKey, getMessageCitations, isToolResultOk } from "@/lib/chat-actions";
+import { readChatThreadMessages, useAppointments, useDocuments, useUserMetadata, useUserData } from "@/lib/firestore";
+import { getAuthHeaders } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+import { db } from "@/lib/firebase";
+import { DefaultChatTransport, generateId, type UIMessage } from "ai";
 
 const SCROLL_THRESHOLD = 80;
 
+/** Documents have no title; citation chips show the start of the summary. */
+const DOCUMENT_LABEL_LENGTH = 60;
+
+/**
+ * Chat transport that sends the user's ID token with every /api/chat request.
+ * Only the new message goes up; the route loads the rest of the thread itself.
+ */
+const chatTransport = new DefaultChatTransport<UIMessage>({
+  api: "/api/chat",
+  headers: getAuthHeaders,
+  prepareSendMessagesRequest: ({ id, messages, body }) => ({
+    body: { ...body, threadId: id, message: messages[messages.length - 1] },
+  }),
+});
+
 function getMessageText(msg: UIMessage): string {
   return (msg.parts ?? [])
     .filter((p): p is { type: "text"; text: string } => p.type === "text")
@@ -24,15 +42,48 @@ function getMessageText(msg: UIMessage): string {
     .join("");
 }
 
+/**
+ * The chat transport throws with the raw response body; surface our API's
+ * `error` field (e.g. the monthly quota message) when there is one.
+ */
+function getChatErrorMessage(error: Error | undefined): string | null {
+  if (!error) return null;
+  try {
+    const body = JSON.parse(error.message) as { error?: unknown };
+    return typeof body.error === "string" ? body.error : null;
+  } catch {
+    return null;
+  }
+}
+
 export default function Home() {
-  const { t, languageTag } = useI18n();
-  const { loading, isOnboarded, data: userMetadata } = useUserMetadata();
+  const { t, languageTag, formatDate } = useI18n();
+  const { loading, isOnboarded } = useUserMetadata();
   const userData = useUserData();
   const { appointments } = useAppointments();
   const { documents } = useDocuments();
+  const { user } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { openDrawer } = useDrawer() ?? {};
-  const { messages, sendMessage, status } = useChat();
+
+  // The open thread is in the URL (?thread=) so a refresh resumes it. A new
+  // conversation gets its ID up front and moves into the URL on first send.
+  const threadParam = searchParams.get("thread");
+  const [draftThreadId, setDraftThreadId] = useState(generateId);
+  const threadId = threadParam ?? draftThreadId;
+  // Thread whose messages useChat already holds (loaded, or started here).
+  const [readyThreadId, setReadyThreadId] = useState<string | null>(null);
+  const [failedThreadId, setFailedThreadId] = useState<string | null>(null);
+  const [threadListOpen, setThreadListOpen] = useState(false);
+
+  const {
+    messages,
+    setMessages,
+    sendMessage,
+    status,
+    error: chatError,
+  } = useChat({ id: threadId, transport: chatTransport });
 
   // Scroll handling refs
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -49,71 +100,98 @@ export default function Home() {
   const executedToolCallsRef = useRef<Set<string>>(new Set());
 
   // Shared tool executor
-  const { executeToolCall } = useToolExecutor({
+  const {
+    executeToolCall,
+    pendingActions,
+    confirmPendingAction,
+    cancelPendingAction,
+    cancelAllPendingActions,
+    deletedAction,
+    undoDeletedAction,
+  } = useToolExecutor({
     onOpenHealthNoteRecorder: useCallback(() => setHealthNoteModalOpen(true), []),
   });
 
+  /** Display names for citation chips, by citationKey. */
+  const citationLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const n of userData.healthNotes) {
+      labels.set(citationKey({ type: "healthNotes", id: n.id }), n.title || t("healthNotes.untitled"));
+    }
+    for (const a of userData.actionItems) {
+      labels.set(citationKey({ type: "actionItems", id: a.id }), a.title || a.description);
+    }
+    for (const s of userData.sessionMetadata) {
+      labels.set(citationKey({ type: "sessionMetadata", id: s.id }), s.title);
+    }
+    for (const a of appointments) {
+      labels.set(
+        citationKey({ type: "appointments", id: a.id }),
+        t("citations.appointmentAt", { date: formatDate(a.appointmentTime, { dateStyle: "medium", timeStyle: "short" }) }),
+      );
+    }
+    for (const d of documents) {
+      const summary = d.summary.trim().split(/\n/)[0] ?? "";
+      labels.set(
+        citationKey({ type: "documents", id: d.id }),
+        summary.length > DOCUMENT_LABEL_LENGTH ? `${summary.slice(0, DOCUMENT_LABEL_LENGTH)}…` : summary || t("documents.untitled"),
+      );
+    }
+    return labels;
+  }, [userData.healthNotes, userData.actionItems, userData.sessionMetadata, appointments, documents, t, formatDate]);
+
   // ---------------------------------------------------------------------------
-  // Build chat context (sent to API with every message)
+  // Load a saved thread
   // ---------------------------------------------------------------------------
 
-  const chatContext = useMemo(
-    () => ({
-      userMetadata: userMetadata
-        ? {
-            id: userMetadata.id,
-            firstName: userMetadata.firstName,
-            lastName: userMetadata.lastName,
-            email: userMetadata.email,
-            preferredLanguage: userMetadata.preferredLanguage,
-          }
-        : null,
-      languageTag,
-      healthNotes: userData.healthNotes.map((n) => ({
-        id: n.id,
-        date: n.date instanceof Date ? n.date.toISOString() : n.date,
-        type: n.type,
-        title: n.title,
-        description: n.description,
-      })),
-      actionItems: userData.actionItems.map((a) => ({
-        id: a.id,
-        dueBy: a.dueBy instanceof Date ? a.dueBy.toISOString() : a.dueBy,
-        type: a.type,
-        title: a.title,
-        description: a.description,
-        status: a.status,
-        priority: a.priority,
-        medication: a.medication,
-      })),
-      sessionMetadata: userData.sessionMetadata.map((s) => ({
-        id: s.id,
-        date: s.date instanceof Date ? s.date.toISOString() : s.date,
-        title: s.title,
-        summary: s.summary,
-      })),
-      appointments: appointments.map((a) => ({
-        id: a.id,
-        appointmentTime:
-          a.appointmentTime instanceof Date ? a.appointmentTime.toISOString() : String(a.appointmentTime),
-        scheduledOn:
-          a.scheduledOn instanceof Date ? a.scheduledOn.toISOString() : String(a.scheduledOn),
-      })),
-      documents: documents.map((d) => ({
-        id: d.id,
-        summary: d.summary,
-        uploadedAt: d.uploadedAt instanceof Date ? d.uploadedAt.toISOString() : String(d.uploadedAt),
-      })),
-    }),
-    [
-      userMetadata,
-      languageTag,
-      userData.healthNotes,
-      userData.actionItems,
-      userData.sessionMetadata,
-      appointments,
-      documents,
-    ]
+  useEffect(() => {
+    if (!threadParam || !user?.uid) return;
+    if (readyThreadId === threadParam || failedThreadId === threadParam) return;
+    let cancelled = false;
+    void readChatThreadMessages(db, user.uid, threadParam).then((result) => {
+      if (cancelled) return;
+      if (!result.ok) {
+        console.error("Failed to load chat thread:", result.error);
+        setFailedThreadId(threadParam);
+        return;
+      }
+      // Saved tool calls already ran; don't apply their effects (e.g. navigation) again.
+      for (const message of result.data) {
+        for (const part of message.parts) {
+          if ("toolCallId" in part) executedToolCallsRef.current.add(part.toolCallId);
+        }
+      }
+      setMessages(result.data.map(({ id, role, parts }) => ({ id, role, parts })));
+      setReadyThreadId(threadParam);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [threadParam, user?.uid, readyThreadId, failedThreadId, setMessages]);
+
+  const openThread = useCallback(
+    (id: string) => {
+      setThreadListOpen(false);
+      if (id === threadId) return;
+      cancelAllPendingActions();
+      setFailedThreadId(null);
+      router.push(`/?thread=${encodeURIComponent(id)}`);
+    },
+    [threadId, cancelAllPendingActions, router],
+  );
+
+  const startNewThread = useCallback(() => {
+    setThreadListOpen(false);
+    cancelAllPendingActions();
+    setDraftThreadId(generateId());
+    if (threadParam) router.push("/");
+  }, [threadParam, cancelAllPendingActions, router]);
+
+  const handleThreadDeleted = useCallback(
+    (id: string) => {
+      if (id === threadId) startNewThread();
+    },
+    [threadId, startNewThread],
   );
 
   // ---------------------------------------------------------------------------
@@ -125,19 +203,23 @@ export default function Home() {
       if (msg.role !== "assistant") continue;
       for (const part of msg.parts ?? []) {
         // In AI SDK v6, tool parts have type "tool-<toolName>"
-        // and fields: toolCallId, state, input.
-        // With server-side execute, state progresses to "output-available".
+        // and fields: toolCallId, state, input, output.
+        // Tools execute server-side; apply client effects once the result is in,
+        // and only when it succeeded (e.g. not for an unknown ID).
         for (const toolName of CHAT_TOOL_NAMES) {
           if (part.type !== `tool-${toolName}`) continue;
-          const { state, toolCallId, input } = part as {
+          const { state, toolCallId, input, output } = part as {
             state: string;
             toolCallId: string;
             input: unknown;
+            output?: unknown;
           };
-          if (state !== "input-available" && state !== "output-available") continue;
+          if (state !== "output-available" && state !== "output-error") continue;
           if (executedToolCallsRef.current.has(toolCallId)) continue;
           executedToolCallsRef.current.add(toolCallId);
-          void executeToolCall(toolName, input);
+          if (state === "output-available" && isToolResultOk(output)) {
+            void executeToolCall(toolName, input);
+          }
         }
       }
     }
@@ -160,12 +242,17 @@ export default function Home() {
 
   const handleSend = useCallback(
     (content: string) => {
+      if (!threadParam) {
+        setReadyThreadId(threadId);
+        router.replace(`/?thread=${encodeURIComponent(threadId)}`);
+      }
+      // The route loads the user's records itself; it only needs the language and time zone.
       sendMessage(
         { text: content },
-        { body: { context: chatContext } },
+        { body: { languageTag, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone } },
       );
     },
-    [sendMessage, chatContext],
+    [sendMessage, languageTag, threadParam, threadId, router],
   );
 
   const suggestedPrompts = getSuggestedPrompts(t);
@@ -222,7 +309,9 @@ export default function Home() {
 
   if (loading || !isOnboarded) return null;
 
-  const showSummary = messages.length === 0;
+  const threadLoadFailed = threadParam != null && failedThreadId === threadParam;
+  const threadLoading = threadParam != null && readyThreadId !== threadParam && !threadLoadFailed;
+  const showSummary = messages.length === 0 && !threadLoadFailed;
   const isLoading = status === "streaming" || status === "submitted";
 
   return (
@@ -240,14 +329,24 @@ export default function Home() {
         >
           <HiOutlineMenuAlt4 className="w-6 h-6" />
         </button>
-        <button
-          type="button"
-          onClick={() => router.push("/appointments/conversation")}
-          className="flex items-center gap-2 rounded-full bg-neutral-200 px-4 py-2.5 text-sm text-neutral-900 transition-colors hover:bg-neutral-300"
-        >
-          <HiOutlineChatBubbleLeftRight className="h-5 w-5 shrink-0" />
-          <span>{t("home.visitCta")}</span>
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setThreadListOpen(true)}
+            className="p-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+            aria-label={t("home.openThreads")}
+          >
+            <HiOutlineChatAlt2 className="w-6 h-6" />
+          </button>
+          <button
+            type="button"
+            onClick={() => router.push("/appointments/conversation")}
+            className="flex items-center gap-2 rounded-full bg-neutral-200 px-4 py-2.5 text-sm text-neutral-900 transition-colors hover:bg-neutral-300"
+          >
+            <HiOutlineChatBubbleLeftRight className="h-5 w-5 shrink-0" />
+            <span>{t("home.visitCta")}</span>
+          </button>
+        </div>
       </header>
       <div
         ref={scrollContainerRef}
@@ -267,6 +366,7 @@ export default function Home() {
             {messages.map((msg) => {
               const text = getMessageText(msg);
               if (!text) return null;
+              const citations = msg.role === "assistant" ? getMessageCitations(msg.parts) : [];
               return (
                 <motion.div
                   key={msg.id}
@@ -276,17 +376,22 @@ export default function Home() {
                   className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
                 >
                   <div
-                    className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm ${
-                      msg.role === "user"
-                        ? "bg-neutral-800 text-white"
-                        : "bg-neutral-100 text-neutral-900"
-                    }`}
+                    className={`flex max-w-[85%] flex-col gap-1.5 ${msg.role === "user" ? "items-end" : "items-start"}`}
                   >
-                    {msg.role === "assistant" ? (
-                      <StreamingText content={text} messageId={msg.id} />
-                    ) : (
-                      text
-                    )}
+                    <div
+                      className={`rounded-2xl px-4 py-2.5 text-sm ${
+                        msg.role === "user"
+                          ? "bg-neutral-800 text-white"
+                          : "bg-neutral-100 text-neutral-900"
+                      }`}
+                    >
+                      {msg.role === "assistant" ? (
+                        <StreamingText content={text} messageId={msg.id} />
+                      ) : (
+                        text
+                      )}
+                    </div>
+                    {citations.length > 0 && <CitationChips citations={citations} labels={citationLabels} />}
                   </div>
                 </motion.div>
               );
@@ -303,18 +408,58 @@ export default function Home() {
                 </div>
               </motion.div>
             )}
+            {pendingActions.map((action) => (
+              <div key={action.id} className="flex justify-start">
+                <div className="w-full max-w-[85%]">
+                  <PendingActionCard
+                    action={action}
+                    onConfirm={(id) => void confirmPendingAction(id)}
+                    onCancel={cancelPendingAction}
+                  />
+                </div>
+              </div>
+            ))}
+            {deletedAction && (
+              <div className="flex justify-start">
+                <div className="w-full max-w-[85%]">
+                  <UndoDeleteBar action={deletedAction} onUndo={() => void undoDeletedAction()} />
+                </div>
+              </div>
+            )}
+            {threadLoadFailed && (
+              <div className="flex justify-start">
+                <div className="max-w-[85%] rounded-2xl px-4 py-2.5 text-sm bg-red-50 text-red-700">
+                  {t("home.threadLoadError")}
+                </div>
+              </div>
+            )}
+            {status === "error" && (
+              <div className="flex justify-start">
+                <div className="max-w-[85%] rounded-2xl px-4 py-2.5 text-sm bg-red-50 text-red-700">
+                  {getChatErrorMessage(chatError) ?? t("home.chatError")}
+                </div>
+              </div>
+            )}
             <div ref={messagesEndRef} aria-hidden />
           </div>
         )}
       </div>
       <ChatWidget
         onSend={handleSend}
-        disabled={isLoading}
+        disabled={isLoading || threadLoading}
         suggestedPrompt={currentSuggestedPrompt}
         onPromptClick={handlePromptClick}
         externalRecordModalOpen={healthNoteModalOpen}
         onRecordModalClose={() => setHealthNoteModalOpen(false)}
       />
+      <ChatThreadList
+        open={threadListOpen}
+        onClose={() => setThreadListOpen(false)}
+        activeThreadId={threadId}
+        onSelect={openThread}
+        onNewThread={startNewThread}
+        onDeleted={handleThreadDeleted}
+      />
     </div>
   );
 }
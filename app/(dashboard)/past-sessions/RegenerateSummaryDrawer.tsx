@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { HiOutlineMinus, HiOutlinePlus } from "react-icons/hi";
+import { Drawer } from "@/app/components/Drawer";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { authFetch } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+import { db } from "@/lib/firebase";
+import {
+  getTranscriptText,
+  toActionItemCreate,
+  writeActionItem,
+  writeSessionMetadata,
+  writeTranscript,
+} from "@/lib/firestore";
+import type {
+  ActionItem,
+  ActionItemSerialized,
+  AuditContext,
+  SessionMetadata,
+  Transcript,
+} from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+import { diffLists, hasListChanges, type ListDiffEntry } from "@/lib/summary-diff";
+
+/** Changes applied from a regenerated summary are attributed to the extraction in history. */
+const REGENERATE_AUDIT: AuditContext = { actor: "visit_extraction", reason: "regenerate_summary" };
+
+type RegeneratedSummary = {
+  discussionTopics: string[];
+  summaryPoints: string[];
+  actionItems: ActionItemSerialized[];
+};
+
+type RegenerateState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "success"; summary: RegeneratedSummary };
+
+type RegenerateTarget = {
+  session: SessionMetadata;
+  transcript: Transcript;
+  linkedActionItems: ActionItem[];
+};
+
+type RegenerateSummaryDrawerProps = {
+  /** Session to regenerate; the drawer is open while set. */
+  target: RegenerateTarget | null;
+  onClose: () => void;
+  /** Called after the regenerated summary has been saved. */
+  onApplied: () => void;
+};
+
+/** Posts a transcript to a summary route; NOT_ENOUGH_DATA answers come back as null. */
+async function requestSummary<T>(url: string, body: Record<string, unknown>): Promise<T | null> {
+  const res = await authFetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (data.error) throw new Error(data.error);
+  return data.notEnoughData ? null : (data as T);
+}
+
+function DiffSection({
+  title,
+  entries,
+  t,
+}: {
+  title: string;
+  entries: ListDiffEntry[];
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string;
+}) {
+  return (
+    <section className="flex flex-col gap-1.5">
+      <h3 className="text-xs font-medium text-neutral-500">{title}</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-neutral-400">{t("pastSessions.regenerate.none")}</p>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {entries.map((entry) => (
+            <li
+              key={`${entry.change}-${entry.text}`}
+              className={`flex gap-2 rounded-lg px-2 py-1 text-sm leading-relaxed ${
+                entry.change === "added"
+                  ? "bg-emerald-50 text-emerald-800"
+                  : entry.change === "removed"
+                    ? "bg-rose-50 text-rose-700 line-through"
+                    : "text-neutral-600"
+              }`}
+            >
+              {entry.change === "added" && (
+                <HiOutlinePlus className="mt-1 h-3.5 w-3.5 shrink-0" aria-label={t("pastSessions.regenerate.added")} />
+              )}
+              {entry.change === "removed" && (
+                <HiOutlineMinus className="mt-1 h-3.5 w-3.5 shrink-0" aria-label={t("pastSessions.regenerate.removed")} />
+              )}
+              <span className={entry.change === "unchanged" ? "pl-5.5" : undefined}>{entry.text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/** Runs the summaries again on the stored transcript and shows what changed. Mounted while the drawer is open. */
+function RegenerateSummaryContent({
+  target: { session, transcript, linkedActionItems },
+  onClose,
+  onApplied,
+}: {
+  target: RegenerateTarget;
+  onClose: () => void;
+  onApplied: () => void;
+}) {
+  const { t, languageTag } = useI18n();
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [state, setState] = useState<RegenerateState>({ status: "loading" });
+  const [applying, setApplying] = useState(false);
+  const [applyFailed, setApplyFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const text = getTranscriptText(transcript);
+    Promise.all([
+      requestSummary<{ discussionTopics: string[]; actionItems: ActionItemSerialized[] }>(
+        "/api/visit-summary-from-transcript",
+        { transcript: text, visitDate: transcript.visitDate.toISOString().split("T")[0], languageTag },
+      ),
+      requestSummary<{ summaryPoints: string[] }>("/api/conversation-summary-from-transcript", {
+        transcript: text,
+        languageTag,
+      }),
+    ])
+      .then(([visit, conversation]) => {
+        if (cancelled) return;
+        setState({
+          status: "success",
+          summary: {
+            discussionTopics: visit?.discussionTopics ?? [],
+            actionItems: visit?.actionItems ?? [],
+            summaryPoints: conversation?.summaryPoints ?? [],
+          },
+        });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to regenerate summary:", err);
+        setState({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcript, languageTag]);
+
+  const diffs = useMemo(() => {
+    if (state.status !== "success") return null;
+    const { summary } = state;
+    return {
+      topics: diffLists(session.discussionTopics, summary.discussionTopics),
+      summaryPoints: diffLists(transcript.conversationSummary, summary.summaryPoints),
+      actionItems: diffLists(
+        linkedActionItems.map((item) => item.title),
+        summary.actionItems.map((item) => item.title),
+      ),
+    };
+  }, [state, session.discussionTopics, transcript.conversationSummary, linkedActionItems]);
+
+  const changed = diffs != null && Object.values(diffs).some(hasListChanges);
+
+  /** Saves the new summary and adds the new action items; existing action items are kept as they are. */
+  const handleApply = async () => {
+    if (!uid || state.status !== "success" || !diffs) return;
+    setApplying(true);
+    setApplyFailed(false);
+    try {
+      const addedTitles = new Set(
+        diffs.actionItems.filter((entry) => entry.change === "added").map((entry) => entry.text),
+      );
+      const newItems = state.summary.actionItems.filter((item) => addedTitles.has(item.title));
+      const itemResults = await Promise.all(
+        newItems.map((item) => writeActionItem(db, uid, toActionItemCreate(item), REGENERATE_AUDIT)),
+      );
+      const results = [
+        ...itemResults,
+        await writeSessionMetadata(
+          db,
+          uid,
+          {
+            ...session,
+            // Same as a new visit: the summary points, or the topics if there are none.
+            summary: (state.summary.summaryPoints.length > 0
+              ? state.summary.summaryPoints
+              : state.summary.discussionTopics
+            ).join("\n"),
+            discussionTopics: state.summary.discussionTopics,
+            actionItemIds: [
+              ...session.actionItemIds,
+              ...itemResults.flatMap((result) => (result.ok ? [result.data.id] : [])),
+            ],
+          },
+          REGENERATE_AUDIT,
+        ),
+        await writeTranscript(
+          db,
+          uid,
+          { ...transcript, conversationSummary: state.summary.summaryPoints },
+          REGENERATE_AUDIT,
+        ),
+      ];
+      const failed = results.find((result) => !result.ok);
+      if (failed && !failed.ok) throw failed.error;
+      onApplied();
+    } catch (err) {
+      console.error("Failed to save regenerated summary:", err);
+      setApplyFailed(true);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (state.status === "loading") {
+    return (
+      <div className="flex flex-col items-center gap-3 py-10">
+        <Spinner size="md" theme="neutral" />
+        <p className="text-sm text-neutral-500">{t("pastSessions.regenerate.generating")}</p>
+      </div>
+    );
+  }
+
+  if (state.status === "error" || !diffs) {
+    return (
+      <p role="alert" className="rounded-xl bg-rose-50 px-3 py-2 text-sm text-rose-700">
+        {t("pastSessions.regenerate.error")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {!changed && (
+        <p className="rounded-xl bg-neutral-100 px-3 py-2 text-sm text-neutral-600">
+          {t("pastSessions.regenerate.noChanges")}
+        </p>
+      )}
+      <DiffSection title={t("pastSessions.regenerate.topics")} entries={diffs.topics} t={t} />
+      <DiffSection title={t("pastSessions.regenerate.summaryPoints")} entries={diffs.summaryPoints} t={t} />
+      <DiffSection title={t("pastSessions.regenerate.actionItems")} entries={diffs.actionItems} t={t} />
+      {changed && (
+        <>
+          <p className="text-xs text-neutral-500">{t("pastSessions.regenerate.applyHint")}</p>
+          {applyFailed && (
+            <p role="alert" className="rounded-xl bg-rose-50 px-3 py-2 text-sm text-rose-700">
+              {t("pastSessions.regenerate.applyError")}
+            </p>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={applying}
+              className="flex-1 h-11 rounded-full border border-neutral-300 text-sm text-neutral-900 hover:bg-neutral-100"
+            >
+              {t("pastSessions.regenerate.keep")}
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleApply()}
+              disabled={applying}
+              className="flex-1 h-11 rounded-full bg-neutral-900 text-sm text-white hover:bg-neutral-700 disabled:opacity-60"
+            >
+              {t("pastSessions.regenerate.apply")}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Regenerate a past visit's summary from its stored transcript and review the differences before saving. */
+export function RegenerateSummaryDrawer({ target, onClose, onApplied }: RegenerateSummaryDrawerProps) {
+  const { t } = useI18n();
+  return (
+    <Drawer open={target != null} onClose={onClose} side="bottom" title={t("pastSessions.regenerate.title")}>
+      {target && (
+        <RegenerateSummaryContent
+          key={target.session.id}
+          target={target}
+          onClose={onClose}
+          onApplied={onApplied}
+        />
+      )}
+    </Drawer>
+  );
+}
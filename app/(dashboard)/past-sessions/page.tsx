@@ -1,8 +1,9 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
-import { HiOutlineMenuAlt4, HiOutlineTrash } from "react-icons/hi";
+import { useSearchParams } from "next/navigation";
+import { HiOutlineMenuAlt4, HiOutlineRefresh, HiOutlineTrash } from "react-icons/hi";
 import { useI18n } from "@/app/components/I18nProvider";
 import { Spinner } from "@/app/components/Spinner";
 import { Toast } from "@/app/components/Toast";
@@ -15,13 +16,18 @@ import {
   ACTION_ITEM_TYPES,
   deleteSessionMetadata,
   useActionItems,
+  useCareTeam,
   useDocuments,
   useSessionMetadata,
+  useTranscripts,
   writeActionItem,
 } from "@/lib/firestore";
-import type { ActionItem, Document, SessionMetadata } from "@/lib/firestore";
+import type { ActionItem, CareTeamMember, Document, SessionMetadata, Transcript } from "@/lib/firestore";
 import { PillDropdown } from "@/app/components/PillDropdown";
 import type { MessageKey } from "@/lib/i18n/messages";
+import { RegenerateSummaryDrawer } from "./RegenerateSummaryDrawer";
+
+const HIGHLIGHT_CLASS = "ring-2 ring-blue-500 ring-offset-2";
 
 /** Truncate text to a max length with ellipsis. */
 function truncateSummary(text: string, maxLength: number): string {
@@ -116,24 +122,33 @@ function LinkedActionItemCard({
 
 function SessionCard({
   session,
+  provider,
   linkedActionItems,
   formatDate,
   t,
   linkedDocuments,
   onDelete,
   onActionItemFieldChange,
+  onRegenerate,
+  highlight,
 }: {
   session: SessionMetadata;
+  /** Care team member the visit was with, if linked and still on the team. */
+  provider: CareTeamMember | null;
   linkedActionItems: ActionItem[];
   formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
   t: (key: MessageKey, vars?: Record<string, string | number>) => string;
   linkedDocuments: Document[];
   onDelete: (id: string) => void;
   onActionItemFieldChange: (id: string, field: string, value: string) => void;
+  /** Set when the visit's transcript was kept, so the summary can be regenerated. */
+  onRegenerate?: () => void;
+  highlight: boolean;
 }) {
   return (
     <article
-      className="relative rounded-xl border border-neutral-200 bg-white p-4 shadow-sm transition-shadow hover:shadow-md"
+      id={`session-${session.id}`}
+      className={`relative rounded-xl border bg-white p-4 shadow-sm transition-shadow hover:shadow-md ${highlight ? `border-blue-500 ${HIGHLIGHT_CLASS}` : "border-neutral-200"}`}
       data-session-id={session.id}
     >
       <button
@@ -148,8 +163,23 @@ function SessionCard({
         <h3 className="text-base font-semibold text-neutral-900">
           {session.title || t("pastSessions.untitledVisit")}
         </h3>
-        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-neutral-500">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-500">
           <span>{t("pastSessions.date", { date: formatDate(session.date, { dateStyle: "medium" }) })}</span>
+          {provider && (
+            <Link href={`/care-team?highlight=${encodeURIComponent(provider.id)}`} className="hover:text-neutral-900 hover:underline">
+              {t("pastSessions.provider", { name: provider.name || t("careTeam.unnamed") })}
+            </Link>
+          )}
+          {onRegenerate && (
+            <button
+              type="button"
+              onClick={onRegenerate}
+              className="flex items-center gap-1 rounded-full border border-neutral-200 px-2 py-0.5 text-neutral-600 hover:bg-neutral-100"
+            >
+              <HiOutlineRefresh className="h-3.5 w-3.5" aria-hidden />
+              {t("pastSessions.regenerate.action")}
+            </button>
+          )}
         </div>
         {session.summary ? (
           <div className="mt-1">
@@ -157,6 +187,18 @@ function SessionCard({
             <p className="text-sm text-neutral-600 whitespace-pre-wrap">{session.summary}</p>
           </div>
         ) : null}
+        {session.discussionTopics.length > 0 ? (
+          <div className="mt-1">
+            <p className="text-xs font-medium text-neutral-500 mb-1">{t("pastSessions.discussionTopics")}</p>
+            <ul className="flex flex-wrap gap-1.5">
+              {session.discussionTopics.map((topic) => (
+                <li key={topic} className="rounded-full bg-neutral-100 px-2.5 py-0.5 text-xs text-neutral-700">
+                  {topic}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
         {linkedActionItems.length > 0 ? (
           <div className="mt-2 w-full">
             <p className="text-xs font-medium text-neutral-500 mb-1.5">{t("pastSessions.linkedActionItems")}</p>
@@ -216,14 +258,32 @@ function ErrorState({
 
 export default function PastSessionsPage() {
   const { t, formatDate } = useI18n();
+  const searchParams = useSearchParams();
+  const highlightId = searchParams.get("highlight");
   const { sessionMetadata, loading, error } = useSessionMetadata();
   const { actionItems } = useActionItems();
   const { documents } = useDocuments();
+  const { transcripts } = useTranscripts();
+  const { careTeam } = useCareTeam();
   const { openDrawer } = useDrawer() ?? {};
   const { user } = useAuth();
   const uid = user?.uid;
   const [operationError, setOperationError] = useState<string | null>(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  /** Captured when the user asks to regenerate, so later snapshot updates don't restart it. */
+  const [regenerateTarget, setRegenerateTarget] = useState<{
+    session: SessionMetadata;
+    transcript: Transcript;
+    linkedActionItems: ActionItem[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!highlightId || loading) return;
+    const el = document.getElementById(`session-${highlightId}`);
+    if (el) {
+      el.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [highlightId, loading]);
 
   const actionItemsById = useMemo(() => {
     const map = new Map<string, ActionItem>();
@@ -233,6 +293,14 @@ export default function PastSessionsPage() {
     return map;
   }, [actionItems]);
 
+  const transcriptsBySessionId = useMemo(() => {
+    const map = new Map<string, Transcript>();
+    for (const transcript of transcripts) {
+      if (transcript.sessionId) map.set(transcript.sessionId, transcript);
+    }
+    return map;
+  }, [transcripts]);
+
   const documentsById = useMemo(() => {
     const map = new Map<string, Document>();
     for (const d of documents) {
@@ -287,10 +355,20 @@ export default function PastSessionsPage() {
   );
 
   const dismissToast = useCallback(() => setToastMessage(null), []);
+  const closeRegenerate = useCallback(() => setRegenerateTarget(null), []);
+  const handleRegenerateApplied = useCallback(() => {
+    setRegenerateTarget(null);
+    setToastMessage(t("pastSessions.regenerate.applied"));
+  }, [t]);
 
   return (
     <div className="w-full min-h-screen flex flex-col">
       <Toast message={toastMessage ?? ""} visible={toastMessage != null} onDismiss={dismissToast} />
+      <RegenerateSummaryDrawer
+        target={regenerateTarget}
+        onClose={closeRegenerate}
+        onApplied={handleRegenerateApplied}
+      />
       <header className="flex items-center justify-between px-4 py-3">
         <button
           type="button"
@@ -327,19 +405,34 @@ export default function PastSessionsPage() {
 
         {!loading && !error && sessionMetadata.length > 0 && (
           <ul className="flex flex-col gap-3 list-none p-0 m-0">
-            {sessionMetadata.map((session) => (
-              <li key={session.id}>
-                <SessionCard
-                  session={session}
-                  linkedActionItems={getLinkedActionItems(session)}
-                  formatDate={formatDate}
-                  t={t}
-                  linkedDocuments={getLinkedDocuments(session)}
-                  onDelete={handleDelete}
-                  onActionItemFieldChange={handleActionItemFieldChange}
-                />
-              </li>
-            ))}
+            {sessionMetadata.map((session) => {
+              const transcript = transcriptsBySessionId.get(session.id);
+              return (
+                <li key={session.id}>
+                  <SessionCard
+                    session={session}
+                    provider={careTeam.find((member) => member.id === session.providerId) ?? null}
+                    linkedActionItems={getLinkedActionItems(session)}
+                    formatDate={formatDate}
+                    t={t}
+                    linkedDocuments={getLinkedDocuments(session)}
+                    onDelete={handleDelete}
+                    onActionItemFieldChange={handleActionItemFieldChange}
+                    onRegenerate={
+                      transcript
+                        ? () =>
+                            setRegenerateTarget({
+                              session,
+                              transcript,
+                              linkedActionItems: getLinkedActionItems(session),
+                            })
+                        : undefined
+                    }
+                    highlight={highlightId === session.id}
+                  />
+                </li>
+              );
+            })}
           </ul>
         )}
       </div>
@@ -0,0 +1,342 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { HiOutlineBell, HiOutlineMenuAlt4 } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { Toast } from "@/app/components/Toast";
+import { useDrawer } from "@/app/(dashboard)/layout";
+import { authFetch } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth-context";
+import type { MessageKey } from "@/lib/i18n/messages";
+import {
+  getDeviceSubscription,
+  getDeviceTimeZone,
+  isPushSupported,
+  subscribeDevice,
+  unsubscribeDevice,
+} from "@/lib/reminders/browser";
+import type { QuietHours, ReminderStatus } from "@/lib/reminders/types";
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+const DEFAULT_QUIET_HOURS: QuietHours = { start: "22:00", end: "07:00" };
+
+const TIME_INPUT_CLASS =
+  "rounded-full border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-neutral-500 focus:outline-none";
+
+/** Calls a /api/reminders route and returns the updated status; throws with the route's error message. */
+async function callReminders(path: string, init: RequestInit, fallbackError: string): Promise<ReminderStatus> {
+  const res = await authFetch(path, init);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? fallbackError);
+  return data as ReminderStatus;
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+  return { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+}
+
+function QuietHoursForm({
+  quietHours,
+  busy,
+  onSave,
+  t,
+}: {
+  quietHours: QuietHours | null;
+  busy: boolean;
+  onSave: (quietHours: QuietHours | null) => void;
+  t: Translate;
+}) {
+  const [enabled, setEnabled] = useState(quietHours != null);
+  const [start, setStart] = useState(quietHours?.start ?? DEFAULT_QUIET_HOURS.start);
+  const [end, setEnd] = useState(quietHours?.end ?? DEFAULT_QUIET_HOURS.end);
+
+  return (
+    <form
+      className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(enabled ? { start, end } : null);
+      }}
+    >
+      <h2 className="text-base font-semibold text-neutral-900">{t("reminders.quietHours.title")}</h2>
+      <p className="text-sm text-neutral-600 leading-relaxed">{t("reminders.quietHours.body")}</p>
+      <label className="flex items-center gap-2 text-sm text-neutral-800">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t("reminders.quietHours.enable")}
+      </label>
+      {enabled && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-700">
+          <input
+            type="time"
+            required
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            aria-label={t("reminders.quietHours.from")}
+            className={TIME_INPUT_CLASS}
+          />
+          <span>{t("reminders.quietHours.to")}</span>
+          <input
+            type="time"
+            required
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            aria-label={t("reminders.quietHours.until")}
+            className={TIME_INPUT_CLASS}
+          />
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-full border border-neutral-300 px-4 py-2.5 text-sm font-medium text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {t("reminders.quietHours.save")}
+      </button>
+    </form>
+  );
+}
+
+export default function RemindersPage() {
+  const { t } = useI18n();
+  const { openDrawer } = useDrawer() ?? {};
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [status, setStatus] = useState<ReminderStatus | null>(null);
+  const [deviceSubscribed, setDeviceSubscribed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const supported = isPushSupported();
+  const deviceTimeZone = getDeviceTimeZone();
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+    Promise.all([callReminders("/api/reminders", {}, t("reminders.loadFailed")), getDeviceSubscription()])
+      .then(([next, subscription]) => {
+        if (cancelled) return;
+        setStatus(next);
+        setDeviceSubscribed(subscription != null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("reminders.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, t]);
+
+  /** Runs a status-changing request. Returns whether it succeeded. */
+  const run = useCallback(
+    async (request: () => Promise<ReminderStatus>, doneMessage: string, fallbackError: string) => {
+      setBusy(true);
+      setError(null);
+      try {
+        setStatus(await request());
+        setToastMessage(doneMessage);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallbackError);
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [],
+  );
+
+  const handleEnableDevice = useCallback(async () => {
+    const vapidPublicKey = status?.vapidPublicKey;
+    if (!vapidPublicKey) return;
+    const enabled = await run(
+      async () => {
+        const subscription = await subscribeDevice(vapidPublicKey);
+        if (subscription === "denied") throw new Error(t("reminders.device.denied"));
+        return callReminders(
+          "/api/reminders/subscriptions",
+          jsonInit("POST", { subscription, timeZone: deviceTimeZone }),
+          t("reminders.device.enableFailed"),
+        );
+      },
+      t("reminders.device.enabled"),
+      t("reminders.device.enableFailed"),
+    );
+    if (enabled) setDeviceSubscribed(true);
+  }, [status?.vapidPublicKey, deviceTimeZone, run, t]);
+
+  const handleDisableDevice = useCallback(async () => {
+    const disabled = await run(
+      async () => {
+        const endpoint = await unsubscribeDevice();
+        return endpoint
+          ? callReminders("/api/reminders/subscriptions", jsonInit("DELETE", { endpoint }), t("reminders.device.disableFailed"))
+          : callReminders("/api/reminders", {}, t("reminders.loadFailed"));
+      },
+      t("reminders.device.disabled"),
+      t("reminders.device.disableFailed"),
+    );
+    if (disabled) setDeviceSubscribed(false);
+  }, [run, t]);
+
+  const handleToggleEnabled = useCallback(
+    (enabled: boolean) =>
+      run(
+        () => callReminders("/api/reminders", jsonInit("PUT", { enabled }), t("reminders.saveFailed")),
+        enabled ? t("reminders.resumed") : t("reminders.paused"),
+        t("reminders.saveFailed"),
+      ),
+    [run, t],
+  );
+
+  const handleSaveQuietHours = useCallback(
+    (quietHours: QuietHours | null) =>
+      run(
+        () => callReminders("/api/reminders", jsonInit("PUT", { quietHours }), t("reminders.saveFailed")),
+        t("common.updated"),
+        t("reminders.saveFailed"),
+      ),
+    [run, t],
+  );
+
+  const handleUseDeviceTimeZone = useCallback(
+    () =>
+      run(
+        () => callReminders("/api/reminders", jsonInit("PUT", { timeZone: deviceTimeZone }), t("reminders.saveFailed")),
+        t("common.updated"),
+        t("reminders.saveFailed"),
+      ),
+    [deviceTimeZone, run, t],
+  );
+
+  const handleTest = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authFetch("/api/reminders/test", { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? t("reminders.test.failed"));
+      if (!data.delivered) throw new Error(t("reminders.test.failed"));
+      setToastMessage(t("reminders.test.sent", { count: data.delivered }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("reminders.test.failed"));
+    } finally {
+      setBusy(false);
+    }
+  }, [t]);
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  return (
+    <div className="w-full min-h-screen flex flex-col">
+      <Toast message={toastMessage ?? ""} visible={toastMessage != null} onDismiss={dismissToast} />
+      <header className="flex items-center justify-between px-4 py-3">
+        <button
+          type="button"
+          onClick={() => openDrawer?.()}
+          className="p-2 -ml-2 rounded-lg text-neutral-900 hover:bg-neutral-100 transition-colors"
+          aria-label={t("home.openMenu")}
+        >
+          <HiOutlineMenuAlt4 className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-neutral-900">{t("reminders.title")}</h1>
+        <div className="w-10" aria-hidden />
+      </header>
+      <div className="flex-1 flex flex-col gap-6 p-4 overflow-auto">
+        <p className="text-sm text-neutral-500">{t("reminders.subtitle")}</p>
+
+        {error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-center">
+            <p className="text-sm text-rose-800">{error}</p>
+          </div>
+        )}
+
+        {!status && !error && (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 py-12">
+            <Spinner size="lg" theme="neutral" />
+          </div>
+        )}
+
+        {status && (
+          <>
+            <section className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+              <h2 className="text-base font-semibold text-neutral-900">{t("reminders.device.title")}</h2>
+              {!supported ? (
+                <p className="text-sm text-neutral-600 leading-relaxed">{t("reminders.device.unsupported")}</p>
+              ) : !status.vapidPublicKey ? (
+                <p className="text-sm text-neutral-600 leading-relaxed">{t("reminders.device.notConfigured")}</p>
+              ) : deviceSubscribed ? (
+                <>
+                  <p className="text-sm text-neutral-600">{t("reminders.device.on")}</p>
+                  <button
+                    type="button"
+                    onClick={handleTest}
+                    disabled={busy}
+                    className="flex items-center justify-center gap-2 rounded-full border border-neutral-300 px-4 py-2.5 text-sm font-medium text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    <HiOutlineBell className="w-5 h-5" aria-hidden />
+                    {t("reminders.test.send")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDisableDevice}
+                    disabled={busy}
+                    className="rounded-full border border-rose-200 px-4 py-2.5 text-sm font-medium text-rose-700 transition-colors hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {t("reminders.device.disable")}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-neutral-600 leading-relaxed">{t("reminders.device.off")}</p>
+                  <button
+                    type="button"
+                    onClick={handleEnableDevice}
+                    disabled={busy}
+                    className="flex items-center justify-center gap-2 rounded-full bg-neutral-900 px-4 py-3 text-sm font-semibold text-white transition-colors active:bg-neutral-700 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {busy ? <Spinner size="sm" theme="blue" /> : <HiOutlineBell className="w-5 h-5" aria-hidden />}
+                    <span>{t("reminders.device.enable")}</span>
+                  </button>
+                </>
+              )}
+              <p className="text-xs text-neutral-500">{t("reminders.device.count", { count: status.deviceCount })}</p>
+            </section>
+
+            {status.deviceCount > 0 && (
+              <section className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-4 shadow-sm">
+                <label className="flex items-center gap-2 text-sm font-medium text-neutral-900">
+                  <input
+                    type="checkbox"
+                    checked={status.enabled}
+                    disabled={busy}
+                    onChange={(e) => handleToggleEnabled(e.target.checked)}
+                  />
+                  {t("reminders.enabled")}
+                </label>
+                <p className="text-xs text-neutral-500 leading-relaxed">{t("reminders.perItemHint")}</p>
+              </section>
+            )}
+
+            <QuietHoursForm quietHours={status.quietHours} busy={busy} onSave={handleSaveQuietHours} t={t} />
+
+            <section className="flex flex-col gap-2 text-sm text-neutral-600">
+              <p>{t("reminders.timeZone", { timeZone: status.timeZone })}</p>
+              {status.deviceCount > 0 && status.timeZone !== deviceTimeZone && (
+                <button
+                  type="button"
+                  onClick={handleUseDeviceTimeZone}
+                  disabled={busy}
+                  className="self-start rounded-full border border-neutral-300 px-3 py-1.5 text-xs font-medium text-neutral-900 transition-colors hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {t("reminders.useDeviceTimeZone", { timeZone: deviceTimeZone })}
+                </button>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
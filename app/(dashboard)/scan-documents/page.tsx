@@ -10,6 +10,7 @@ import { db } from "@/lib/firebase";
 import { writeDocument, writeSessionMetadata, useSessionMetadata } from "@/lib/firestore";
 import { Spinner } from "@/app/components/Spinner";
 import { Toast } from "@/app/components/Toast";
+import { authFetch } from "@/lib/api/client";
 
 type ViewId = "camera" | "review" | "processing" | "attach";
 
@@ -138,7 +139,7 @@ export default function ScanDocumentsPage() {
         payloadSizeBytes,
         payloadSizeMB: (payloadSizeBytes / 1024 / 1024).toFixed(2),
       });
-      const res = await fetch("/api/document-summary-from-images", {
+      const res = await authFetch("/api/document-summary-from-images", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ images: base64List }),
@@ -4,8 +4,9 @@ import {
   getTurnDetectionConfig,
   isStreamingKeytermsEnabled,
 } from "@/lib/assemblyai/turn-detection-config";
+import { withAuth } from "@/lib/api/auth";
 
-export async function POST() {
+export const POST = withAuth(async () => {
   try {
     const apiKey = process.env.ASSEMBLY_AI_API_KEY;
     if (!apiKey) {
@@ -45,4 +46,4 @@ export async function POST() {
       { status: 500 },
     );
   }
-}
+});
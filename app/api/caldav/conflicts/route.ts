@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { getCalDavStatus } from "@/lib/caldav/store";
+import { resolveConflict } from "@/lib/caldav/sync";
+import type { CalDavResolution } from "@/lib/caldav/types";
+
+const RESOLUTIONS: readonly CalDavResolution[] = ["hellocare", "calendar"];
+
+/**
+ * Resolves a sync conflict by keeping HelloCare's or the calendar's version
+ * of the appointment.
+ *
+ * POST /api/caldav/conflicts { appointmentId, keep: "hellocare" | "calendar" } → CalDavStatus
+ */
+export const POST = withAuth(async (req, { uid }) => {
+  try {
+    const body = await req.json();
+    const { appointmentId, keep } = body as { appointmentId?: unknown; keep?: unknown };
+    if (typeof appointmentId !== "string" || !RESOLUTIONS.includes(keep as CalDavResolution)) {
+      return NextResponse.json(
+        { error: 'appointmentId is required and keep must be "hellocare" or "calendar"' },
+        { status: 400 },
+      );
+    }
+    await resolveConflict(uid, appointmentId, keep as CalDavResolution);
+    return NextResponse.json(await getCalDavStatus(uid));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[caldav] Failed to resolve conflict:", message, error);
+    return NextResponse.json(
+      {
+        error: "Failed to resolve conflict",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+});
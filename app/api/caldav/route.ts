@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { getCalendarName, normalizeCalendarUrl } from "@/lib/caldav/client";
+import { deleteCalDavConnection, getCalDavStatus, saveCalDavConnection } from "@/lib/caldav/store";
+
+function errorResponse(error: unknown, action: string) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[caldav] Failed to ${action}:`, message, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      ...(process.env.NODE_ENV === "development" && { detail: message }),
+    },
+    { status: 500 },
+  );
+}
+
+/**
+ * The caller's calendar sync status.
+ *
+ * GET /api/caldav → CalDavStatus
+ */
+export const GET = withAuth(async (_req, { uid }) => {
+  try {
+    return NextResponse.json(await getCalDavStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "read calendar sync status");
+  }
+});
+
+/**
+ * Connects the caller to a CalDAV calendar after checking the URL and
+ * credentials against the server. Replaces any previous connection.
+ * importCategory: only events with this category are imported; null imports
+ * every timed event (for a calendar used just for appointments).
+ *
+ * POST /api/caldav { calendarUrl, username, password, importCategory } → CalDavStatus
+ */
+export const POST = withAuth(async (req, { uid }) => {
+  try {
+    const body = await req.json();
+    const { calendarUrl, username, password, importCategory } = body as {
+      calendarUrl?: unknown;
+      username?: unknown;
+      password?: unknown;
+      importCategory?: unknown;
+    };
+    if (typeof calendarUrl !== "string" || typeof username !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "calendarUrl, username and password are required and must be strings" },
+        { status: 400 },
+      );
+    }
+    if (importCategory !== null && (typeof importCategory !== "string" || !importCategory.trim())) {
+      return NextResponse.json({ error: "importCategory must be a category name or null" }, { status: 400 });
+    }
+    const url = normalizeCalendarUrl(calendarUrl);
+    if (!url) {
+      return NextResponse.json({ error: "Enter the https:// address of a CalDAV calendar" }, { status: 400 });
+    }
+
+    const credentials = { calendarUrl: url, username: username.trim(), password };
+    let calendarName: string;
+    try {
+      calendarName = await getCalendarName(credentials);
+    } catch (error) {
+      // The user needs to know why their calendar was refused (wrong URL or password).
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn("[caldav] Calendar check failed:", message);
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    await saveCalDavConnection(uid, credentials, calendarName, importCategory?.trim() ?? null);
+    return NextResponse.json(await getCalDavStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "connect calendar");
+  }
+});
+
+/**
+ * Disconnects calendar sync. Appointments and calendar events stay as they are.
+ *
+ * DELETE /api/caldav → CalDavStatus
+ */
+export const DELETE = withAuth(async (_req, { uid }) => {
+  try {
+    await deleteCalDavConnection(uid);
+    return NextResponse.json(await getCalDavStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "disconnect calendar");
+  }
+});
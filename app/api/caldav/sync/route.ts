@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { getCalDavConnection, getCalDavStatus } from "@/lib/caldav/store";
+import { syncCalendar } from "@/lib/caldav/sync";
+
+/**
+ * Runs a two-way sync between the caller's appointments and their CalDAV
+ * calendar (see lib/caldav/sync.ts). A failed run is recorded as the status's
+ * lastError.
+ *
+ * POST /api/caldav/sync → CalDavStatus
+ */
+export const POST = withAuth(async (_req, { uid }) => {
+  try {
+    if (!(await getCalDavConnection(uid))) {
+      return NextResponse.json({ error: "Calendar sync is not connected" }, { status: 400 });
+    }
+    await syncCalendar(uid);
+    return NextResponse.json(await getCalDavStatus(uid));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[caldav] Sync failed:", message, error);
+    return NextResponse.json(
+      {
+        error: "Calendar sync failed",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 502 },
+    );
+  }
+});
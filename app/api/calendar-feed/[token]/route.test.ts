@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { readUserSubcollectionAdmin } from "@/lib/firestore/admin";
+import { GET } from "./route";
+
+const TOKEN = "q3Vx8fK2mN0pL7sT4wY1zA9bC6dE5gH8jK2mN0pL7sT";
+
+vi.mock("@/lib/firebase-admin", () => ({ getAdminDb: vi.fn() }));
+
+vi.mock("@/lib/firestore/admin", () => ({ readUserSubcollectionAdmin: vi.fn(async () => []) }));
+
+/** A feeds collection holding one token document. */
+function mockFeeds(data: Record<string, unknown>) {
+  const doc = vi.fn((id: string) => ({
+    get: async () => ({ exists: id === TOKEN, data: () => (id === TOKEN ? data : undefined) }),
+  }));
+  vi.mocked(getAdminDb).mockReturnValue({ collection: () => ({ doc }) } as never);
+  return doc;
+}
+
+function feedRequest(token: string) {
+  return GET(new Request(`https://app.example.com/api/calendar-feed/${token}`), {
+    params: Promise.resolve({ token }),
+  });
+}
+
+describe("GET /api/calendar-feed/[token]", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("serves the owner's calendar with days in their time zone", async () => {
+    mockFeeds({ userId: "user-1", timeZone: "Europe/Berlin" });
+    vi.mocked(readUserSubcollectionAdmin).mockImplementation(async (_userId, name) =>
+      name === "actionItems"
+        ? [
+            {
+              id: "item-1",
+              userId: "user-1",
+              dueBy: new Date("2026-03-09T23:00:00Z"),
+              type: "Other",
+              title: "Book a follow-up",
+              description: "",
+              status: "pending",
+              priority: "medium",
+              recurrence: "none",
+            },
+          ]
+        : [],
+    );
+
+    const res = await feedRequest(`${TOKEN}.ics`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/calendar; charset=utf-8");
+    expect(readUserSubcollectionAdmin).toHaveBeenCalledWith("user-1", "actionItems", expect.any(Function));
+    expect(await res.text()).toContain("DTSTART;VALUE=DATE:20260310");
+  });
+
+  it("answers 404 for an unknown token", async () => {
+    mockFeeds({ userId: "user-1" });
+
+    const res = await feedRequest(`${TOKEN.replace("q", "Q")}.ics`);
+
+    expect(res.status).toBe(404);
+    expect(readUserSubcollectionAdmin).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["an empty", ".ics"],
+    ["a path", "..%2F_calendarFeeds.ics"],
+    ["a short", "abc.ics"],
+  ])("answers 404 for %s token without looking it up", async (_label, token) => {
+    const doc = mockFeeds({ userId: "user-1" });
+
+    const res = await feedRequest(token);
+
+    expect(res.status).toBe(404);
+    expect(doc).not.toHaveBeenCalled();
+  });
+});
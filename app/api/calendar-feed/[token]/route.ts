@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { findCalendarFeed } from "@/lib/calendar-feed-store";
+import { readUserSubcollectionAdmin } from "@/lib/firestore/admin";
+import { snapshotToActionItem, snapshotToAppointment } from "@/lib/firestore/mappers";
+import { buildCalendar } from "@/lib/ics";
+
+/**
+ * The user's appointments and dated action items as an iCalendar feed, for
+ * calendar apps to subscribe to. Public: calendar apps can't send an ID token,
+ * so the secret token in the URL identifies the user (see lib/calendar-feed-store.ts).
+ * Malformed, unknown or revoked tokens get a 404.
+ *
+ * GET /api/calendar-feed/{token}.ics
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const feed = await findCalendarFeed(token.replace(/\.ics$/, ""));
+    if (!feed) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+    const { userId, timeZone } = feed;
+
+    const [appointments, actionItems] = await Promise.all([
+      readUserSubcollectionAdmin(userId, "appointments", snapshotToAppointment),
+      readUserSubcollectionAdmin(userId, "actionItems", snapshotToActionItem),
+    ]);
+    return new NextResponse(buildCalendar({ appointments, actionItems }, { timeZone }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="hellocare.ics"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[calendar-feed] Failed to build calendar feed:", message, error);
+    return NextResponse.json(
+      {
+        error: "Failed to build calendar feed",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+}
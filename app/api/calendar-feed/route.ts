@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import {
+  getCalendarFeedToken,
+  regenerateCalendarFeedToken,
+  revokeCalendarFeedTokens,
+} from "@/lib/calendar-feed-store";
+import { resolveTimeZone } from "@/lib/time-zone";
+
+/** Secret feed URL for a token; calendar apps poll it without signing in. */
+function feedUrl(req: Request, token: string): string {
+  return `${new URL(req.url).origin}/api/calendar-feed/${token}.ics`;
+}
+
+function errorResponse(error: unknown, action: string) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[calendar-feed] Failed to ${action}:`, message, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      ...(process.env.NODE_ENV === "development" && { detail: message }),
+    },
+    { status: 500 },
+  );
+}
+
+/**
+ * The caller's calendar feed URL, or null if they have not created one.
+ *
+ * GET /api/calendar-feed → { url: string | null }
+ */
+export const GET = withAuth(async (req, { uid }) => {
+  try {
+    const token = await getCalendarFeedToken(uid);
+    return NextResponse.json({ url: token ? feedUrl(req, token) : null });
+  } catch (error) {
+    return errorResponse(error, "read calendar feed");
+  }
+});
+
+/**
+ * Creates the caller's calendar feed, or replaces its URL so the old one stops working.
+ * timeZone (IANA) decides which day all-day events fall on; UTC if missing.
+ *
+ * POST /api/calendar-feed { timeZone? } → { url: string }
+ */
+export const POST = withAuth(async (req, { uid }) => {
+  try {
+    const body = (await req.json().catch(() => ({}))) as { timeZone?: unknown };
+    const token = await regenerateCalendarFeedToken(uid, resolveTimeZone(body.timeZone));
+    return NextResponse.json({ url: feedUrl(req, token) });
+  } catch (error) {
+    return errorResponse(error, "create calendar feed");
+  }
+});
+
+/**
+ * Revokes the caller's calendar feed; subscribed calendars stop updating.
+ *
+ * DELETE /api/calendar-feed → { url: null }
+ */
+export const DELETE = withAuth(async (_req, { uid }) => {
+  try {
+    await revokeCalendarFeedTokens(uid);
+    return NextResponse.json({ url: null });
+  } catch (error) {
+    return errorResponse(error, "revoke calendar feed");
+  }
+});
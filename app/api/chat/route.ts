@@ -1,18 +1,48 @@
-import { streamText, convertToModelMessages, type UIMessage } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { streamText, convertToModelMessages, generateId, stepCountIs, type UIMessage } from "ai";
 import { NextResponse } from "next/server";
-import { createAssistantTools } from "@/lib/assistant-tools";
+import { createAssistantTools, createCiteSourcesTool } from "@/lib/assistant-tools";
+import { CITATION_ENTITY_TYPES, type Citation } from "@/lib/chat-actions";
+import { describeAppointment } from "@/lib/chat-system-prompt";
 import { resolveLanguageTag } from "@/lib/i18n/locales";
 import type { HealthNote, ActionItem, SessionMetadata, UserMetadata } from "@/lib/firestore/types";
+import {
+  readChatThreadMessagesAdmin,
+  readHealthRecord,
+  saveChatMessagesAdmin,
+  type HealthRecord,
+} from "@/lib/firestore/admin";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
+import { createModel, recordLLMUsage, resolveModelConfig } from "@/lib/llm";
+import { selectChatContext } from "@/lib/retrieval";
+import { resolveTimeZone } from "@/lib/time-zone";
 
-/** Appointment data as sent in chat context (dates as ISO strings). */
+/** Upper bound on model steps per request; each tool round-trip is one step. */
+const MAX_TOOL_STEPS = 5;
+
+/** User turns used as the retrieval query, so follow-ups ("and the other one?") keep their topic. */
+const QUERY_USER_TURNS = 2;
+
+/** Thread titles are the start of the first user message. */
+const THREAD_TITLE_LENGTH = 80;
+
+/** Client-generated thread IDs; also keeps them valid Firestore document IDs. */
+const THREAD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Appointment as the prompt shows it (dates as ISO strings). */
 export type ChatContextAppointment = {
   id: string;
   appointmentTime: string;
   scheduledOn: string;
+  providerName?: string;
+  clinic?: string;
+  address?: string;
+  reason?: string;
+  status?: string;
+  notes?: string;
 };
 
-/** Document summary as sent in chat context (uploadedAt as ISO string). */
+/** Document summary as the prompt shows it (uploadedAt as ISO string). */
 export type ChatContextDocument = {
   id: string;
   summary: string;
@@ -29,6 +59,29 @@ type ChatContext = {
   languageTag?: string;
 };
 
+/** The prompt context for the user's stored record. */
+function toChatContext(record: HealthRecord, languageTag: string | undefined): ChatContext {
+  return {
+    userMetadata: record.userMetadata,
+    healthNotes: record.healthNotes,
+    actionItems: record.actionItems,
+    sessionMetadata: record.sessionMetadata,
+    appointments: record.appointments.map((a) => ({
+      id: a.id,
+      appointmentTime: a.appointmentTime.toISOString(),
+      scheduledOn: a.scheduledOn.toISOString(),
+      providerName: a.providerName,
+      clinic: a.clinic,
+      address: a.address,
+      reason: a.reason,
+      status: a.status,
+      notes: a.notes,
+    })),
+    documents: record.documents.map((d) => ({ id: d.id, summary: d.summary, uploadedAt: d.uploadedAt.toISOString() })),
+    languageTag,
+  };
+}
+
 /** Format date in UTC so calendar dates match (e.g. action item due dates from LLM). */
 function formatDate(d: Date | string, languageTag: string): string {
   const date = typeof d === "string" ? new Date(d) : d;
@@ -53,7 +106,35 @@ function formatDateTime(d: Date | string, languageTag: string): string {
   });
 }
 
-function buildSystemPrompt(context: ChatContext): string {
+function getMessageText(message: UIMessage): string {
+  return (message.parts ?? [])
+    .filter((p): p is { type: "text"; text: string } => p.type === "text")
+    .map((p) => p.text)
+    .join(" ");
+}
+
+/** Text of the latest user turns, newest last. */
+function getRetrievalQuery(messages: UIMessage[]): string {
+  return messages
+    .filter((m) => m.role === "user")
+    .slice(-QUERY_USER_TURNS)
+    .map(getMessageText)
+    .join("\n");
+}
+
+/** Every record in the (selected) context; the only ones cite_sources accepts. */
+function getContextCitations(context: ChatContext): Citation[] {
+  return CITATION_ENTITY_TYPES.flatMap((type) => (context[type] ?? []).map((r): Citation => ({ type, id: r.id })));
+}
+
+function getThreadTitle(messages: UIMessage[]): string {
+  const first = messages.find((m) => m.role === "user");
+  const text = first ? getMessageText(first).trim().replace(/\s+/g, " ") : "";
+  return text.length > THREAD_TITLE_LENGTH ? `${text.slice(0, THREAD_TITLE_LENGTH)}…` : text;
+}
+
+/** `omitted` is how many records retrieval left out of the context. */
+function buildSystemPrompt(context: ChatContext, omitted: number): string {
   const preferredLanguage = resolveLanguageTag(
     context.languageTag ?? context.userMetadata?.preferredLanguage,
   );
@@ -66,9 +147,18 @@ function buildSystemPrompt(context: ChatContext): string {
     "- If you do not have the information needed to answer a question, say so clearly-e.g. \"I don't have that information,\" \"Not available,\" or \"I don't know.\" It is better to say you don't know than to guess.",
     "- The \"Past sessions\" section (if present) contains PAST visits/sessions only. Do NOT use it to answer questions about upcoming or future appointments. Use only the \"Upcoming appointments\" section for future appointment questions.",
     "- For questions about the user's documents (labs, prescriptions, etc.), use ONLY the \"User documents\" section below. Do not invent or infer details not present in the provided document summaries.",
+    "- Items below are tagged with [id: ...]. Pass those IDs to tools; never invent IDs or show them to the user.",
+    "- When an answer relies on specific records below, call cite_sources with them (type: healthNotes, actionItems, sessionMetadata, appointments, or documents, matching the section). Cite only records you actually used; the app shows them as links, so don't list sources in your reply.",
+    "- Tool results report what actually happened. If a tool returns ok: false, tell the user it did not work and why; never claim the change was made.",
     `- Reply in ${preferredLanguage} unless the user asks for another language.`,
   ];
 
+  if (omitted > 0) {
+    parts.push(
+      `- The records below are the ones most relevant to this conversation, plus recent and upcoming ones; ${omitted} other record(s) are not shown. If something the user asks about is not listed, say you can't see it here rather than that it doesn't exist, and suggest where in the app to find it.`,
+    );
+  }
+
   if (context.userMetadata) {
     const { firstName, lastName, preferredLanguage } = context.userMetadata;
     parts.push(
@@ -85,7 +175,7 @@ function buildSystemPrompt(context: ChatContext): string {
       "## Health notes (from visits)",
       ...context.healthNotes.map(
         (n) =>
-          `- [${formatDate(n.date, preferredLanguage)}] ${n.title}: ${n.description} (type: ${n.type})`
+          `- [id: ${n.id}] [${formatDate(n.date, preferredLanguage)}] ${n.title}: ${n.description} (type: ${n.type})`
       )
     );
   }
@@ -98,7 +188,11 @@ function buildSystemPrompt(context: ChatContext): string {
         const med = a.medication
           ? ` (medication: ${a.medication.name} ${a.medication.dose}${a.medication.dosageUnit}, due by ${formatDate(a.dueBy, preferredLanguage)})`
           : "";
-        return `- ${a.title || a.description}${med} [status: ${a.status}, due: ${formatDate(a.dueBy, preferredLanguage)}]`;
+        const rule = a.recurrenceRule;
+        const repeats = rule
+          ? `, repeats: ${rule.frequency}${rule.interval > 1 ? ` (every ${rule.interval})` : ""}${rule.until ? ` until ${formatDate(rule.until, preferredLanguage)}` : ""}`
+          : "";
+        return `- [id: ${a.id}] ${a.title || a.description}${med} [status: ${a.status}, due: ${formatDate(a.dueBy, preferredLanguage)}${repeats}]`;
       })
     );
   }
@@ -107,10 +201,10 @@ function buildSystemPrompt(context: ChatContext): string {
     parts.push(
       "",
       "## Upcoming appointments",
-      "The following are the user's scheduled appointments. Use only these when answering questions about upcoming or next appointments. Do not invent any other dates or times.",
+      "The following are the user's scheduled appointments. Use only these when answering questions about upcoming or next appointments. Do not invent any other dates or times. Cancelled, completed and no-show appointments are not upcoming.",
       ...context.appointments.map(
         (a) =>
-          `- ${formatDateTime(a.appointmentTime, preferredLanguage)} (scheduled on ${formatDateTime(a.scheduledOn, preferredLanguage)})`
+          `- [id: ${a.id}] ${formatDateTime(a.appointmentTime, preferredLanguage)}${describeAppointment(a)} (scheduled on ${formatDateTime(a.scheduledOn, preferredLanguage)})`
       )
     );
   }
@@ -120,10 +214,14 @@ function buildSystemPrompt(context: ChatContext): string {
       "",
       "## Past sessions only (NOT upcoming appointments)",
       "The following are past visits/sessions. Do NOT use this list for questions about upcoming or future appointments.",
-      ...context.sessionMetadata.map(
-        (s) =>
-          `- [${formatDate(s.date, preferredLanguage)}] ${s.title}: ${s.summary || "(no summary)"}`
-      )
+      ...context.sessionMetadata.map((s) => {
+        const links = [
+          s.documentIds?.length ? `documents: ${s.documentIds.join(", ")}` : "",
+          s.actionItemIds?.length ? `action items: ${s.actionItemIds.join(", ")}` : "",
+        ].filter(Boolean);
+        const linked = links.length > 0 ? ` [${links.join("; ")}]` : "";
+        return `- [id: ${s.id}] [${formatDate(s.date, preferredLanguage)}] ${s.title}: ${s.summary || "(no summary)"}${linked}`;
+      })
     );
   }
 
@@ -134,7 +232,7 @@ function buildSystemPrompt(context: ChatContext): string {
       "The following are summaries of documents the user has uploaded (e.g. lab results, prescriptions, visit notes). Use ONLY these summaries when answering questions about the user's documents. Do not invent or infer content not present in the summaries.",
       ...context.documents.map(
         (d) =>
-          `- [${formatDate(d.uploadedAt, preferredLanguage)}] Document: ${d.summary}`
+          `- [id: ${d.id}] [${formatDate(d.uploadedAt, preferredLanguage)}] Document: ${d.summary}`
       )
     );
   }
@@ -142,32 +240,78 @@ function buildSystemPrompt(context: ChatContext): string {
   return parts.filter(Boolean).join("\n");
 }
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req, { uid }) => {
   try {
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
     const body = await req.json();
-    const { messages, context } = body as {
-      messages: UIMessage[];
-      context?: ChatContext;
+    const { threadId, message, languageTag, timeZone } = body as {
+      threadId?: string;
+      message?: UIMessage;
+      languageTag?: unknown;
+      /** The user's IANA time zone, e.g. "Europe/Berlin". */
+      timeZone?: unknown;
     };
 
-    if (!messages || !Array.isArray(messages)) {
+    if (typeof threadId !== "string" || !THREAD_ID_PATTERN.test(threadId)) {
+      return NextResponse.json({ error: "threadId is required" }, { status: 400 });
+    }
+    if (!message || message.role !== "user" || typeof message.id !== "string" || !Array.isArray(message.parts)) {
       return NextResponse.json(
-        { error: "messages is required and must be an array" },
+        { error: "message is required and must be a user message" },
         { status: 400 },
       );
     }
 
-    const systemPrompt = context ? buildSystemPrompt(context) : undefined;
+    // The thread's history is loaded here rather than trusted from the client.
+    const history = await readChatThreadMessagesAdmin(uid, threadId);
+    const messages: UIMessage[] = [
+      ...history.filter((m) => m.id !== message.id).map(({ id, role, parts }) => ({ id, role, parts })),
+      message,
+    ];
+    const title = getThreadTitle(messages);
+    await saveChatMessagesAdmin(uid, threadId, [message], title);
+
+    // The user's records are loaded here too; the client only says which language and time zone to use.
+    const context = toChatContext(
+      await readHealthRecord(uid),
+      typeof languageTag === "string" ? languageTag : undefined,
+    );
+    const selection = await selectChatContext(context, getRetrievalQuery(messages), {
+      usageContext: { userId: uid, route: "/api/chat" },
+    });
 
     const result = streamText({
-      model: openai("gpt-4o-mini"),
+      model: await createModel({ task: "chat" }),
       temperature: 0,
-      system: systemPrompt,
+      system: buildSystemPrompt(selection.context, selection.omitted),
       messages: await convertToModelMessages(messages),
-      tools: createAssistantTools(),
+      tools: {
+        ...createAssistantTools({ uid, actor: "chat_assistant", timeZone: resolveTimeZone(timeZone) }),
+        cite_sources: createCiteSourcesTool(getContextCitations(selection.context)),
+      },
+      // Tools run here, so let the model read their results and follow up (e.g. retry with a valid ID).
+      stopWhen: stepCountIs(MAX_TOOL_STEPS),
+      onFinish: ({ totalUsage }) =>
+        recordLLMUsage(
+          { userId: uid, route: "/api/chat" },
+          { taskName: "chat", task: "chat", model: resolveModelConfig("chat").modelId, usage: totalUsage },
+        ),
     });
 
-    return result.toUIMessageStreamResponse();
+    return result.toUIMessageStreamResponse({
+      originalMessages: messages,
+      generateMessageId: generateId,
+      onFinish: async ({ responseMessage }) => {
+        if (responseMessage.parts.length === 0) return;
+        try {
+          await saveChatMessagesAdmin(uid, threadId, [responseMessage], title);
+        } catch (err) {
+          console.error("[chat] Failed to save assistant message:", err instanceof Error ? err.message : err);
+        }
+      },
+    });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error("Chat API error:", message, error);
@@ -179,4 +323,4 @@ export async function POST(req: Request) {
       { status: 500 },
     );
   }
-}
+});
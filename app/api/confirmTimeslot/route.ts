@@ -1,32 +1,43 @@
 import { NextResponse } from "next/server";
-import { confirmTimeslot } from "@/lib/timeslot-store";
+import { confirmTimeslot, getSchedulingSession } from "@/lib/timeslot-store";
+import { withAuth } from "@/lib/api/auth";
 
-export async function POST(request: Request) {
+export const POST = withAuth(async (request, { uid }) => {
   console.log("[confirmTimeslot] ▶ POST received");
 
-  let body: { label: string };
+  let body: { sessionId: string; label: string };
   try {
     body = await request.json();
-    console.log("[confirmTimeslot] Parsed body:", JSON.stringify(body));
   } catch (err) {
     console.error("[confirmTimeslot] Failed to parse request body:", err);
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { label } = body;
+  const { sessionId, label } = body;
 
-  if (!label) {
-    console.error("[confirmTimeslot] Missing label in request body");
-    return NextResponse.json({ error: "label is required" }, { status: 400 });
+  if (!sessionId || !label) {
+    console.error("[confirmTimeslot] Missing sessionId or label in request body");
+    return NextResponse.json({ error: "sessionId and label are required" }, { status: 400 });
   }
 
   try {
-    console.log(`[confirmTimeslot] Confirming timeslot: "${label}"`);
-    await confirmTimeslot(label);
+    const session = await getSchedulingSession(sessionId);
+    if (!session || session.userId !== uid) {
+      console.error(`[confirmTimeslot] Session ${sessionId} not found for the caller`);
+      return NextResponse.json({ error: "Scheduling session not found" }, { status: 404 });
+    }
+
+    if (!session.timeslots?.some((slot) => slot.label === label)) {
+      console.error(`[confirmTimeslot] Label is not a proposed slot of session ${sessionId}`);
+      return NextResponse.json({ error: "Unknown timeslot" }, { status: 400 });
+    }
+
+    console.log(`[confirmTimeslot] Confirming a timeslot on session ${sessionId}`);
+    await confirmTimeslot(sessionId, label);
     console.log("[confirmTimeslot] ✅ Done");
     return NextResponse.json({ ok: true });
   } catch (err) {
     console.error("[confirmTimeslot] Failed to confirm:", err);
     return NextResponse.json({ error: "Failed to confirm timeslot" }, { status: 500 });
   }
-}
+});
@@ -1,9 +1,14 @@
 import { NextResponse } from "next/server";
 import { resolveLanguageTag } from "@/lib/i18n/locales";
 import { extractConversationSummary } from "@/lib/llm/queries/conversation-summary";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req, { uid }) => {
   try {
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
     const body = await req.json();
     const { transcript, languageTag } = body as { transcript: string; languageTag?: string };
 
@@ -17,6 +22,7 @@ export async function POST(req: Request) {
     const result = await extractConversationSummary(
       transcript,
       resolveLanguageTag(languageTag),
+      { userId: uid, route: "/api/conversation-summary-from-transcript" },
     );
 
     if (result.status === "NOT_ENOUGH_DATA") {
@@ -42,4 +48,4 @@ export async function POST(req: Request) {
       { status: 500 },
     );
   }
-}
+});
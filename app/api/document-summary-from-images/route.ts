@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { extractDocumentSummaryFromImages } from "@/lib/llm/queries/document-from-images";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
 
 export const maxDuration = 60; // vision LLM can be slow
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req, { uid }) => {
   try {
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
     console.log("[document-summary-from-images] POST: parsing body…");
     const body = await req.json();
     const { images } = body as { images?: unknown };
@@ -30,7 +35,10 @@ export async function POST(req: Request) {
     }
 
     console.log("[document-summary-from-images] POST: calling extractDocumentSummaryFromImages…");
-    const result = await extractDocumentSummaryFromImages(base64List);
+    const result = await extractDocumentSummaryFromImages(base64List, {
+      userId: uid,
+      route: "/api/document-summary-from-images",
+    });
     console.log("[document-summary-from-images] POST: LLM returned", {
       summaryLength: result.summary?.length ?? 0,
       hasSummary: !!result.summary,
@@ -53,4 +61,4 @@ export async function POST(req: Request) {
       { status: 500 },
     );
   }
-}
+});
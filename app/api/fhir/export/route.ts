@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { buildFhirBundle } from "@/lib/fhir/export";
+import { readHealthRecord } from "@/lib/firestore/admin";
+
+/**
+ * Exports the caller's full health record as a FHIR R4 Bundle (type "collection")
+ * for sharing with providers or other health apps. Sent as an attachment.
+ *
+ * GET /api/fhir/export
+ */
+export const GET = withAuth(async (req, { uid }) => {
+  try {
+    const record = await readHealthRecord(uid);
+    const now = new Date();
+    const bundle = buildFhirBundle(record, {
+      patientId: uid,
+      baseUrl: `${new URL(req.url).origin}/fhir`,
+      now,
+    });
+    const filename = `hellocare-fhir-${now.toISOString().slice(0, 10)}.json`;
+
+    console.log("[fhir/export] Exported", bundle.entry?.length ?? 0, "resources");
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/fhir+json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[fhir/export] Failed to export health record:", message, error);
+    return NextResponse.json(
+      {
+        error: "Failed to export health record",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+});
@@ -2,9 +2,14 @@ import { NextResponse } from "next/server";
 import { resolveLanguageTag } from "@/lib/i18n/locales";
 import type { HealthNoteCreate } from "@/lib/firestore/types";
 import { extractHealthNoteFromTranscript } from "@/lib/llm/queries/health-note";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req, { uid }) => {
   try {
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
     const body = await req.json();
     const { transcript, startedAt, endedAt } = body as {
       transcript: string;
@@ -28,6 +33,7 @@ export async function POST(req: Request) {
     const output = await extractHealthNoteFromTranscript(
       transcript,
       resolveLanguageTag(body.languageTag),
+      { userId: uid, route: "/api/health-note-from-transcript" },
     );
 
     if (output.status === "NOT_ENOUGH_DATA") {
@@ -57,4 +63,4 @@ export async function POST(req: Request) {
       { status: 500 },
     );
   }
-}
+});
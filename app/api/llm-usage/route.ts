@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { getDailyUsage, getLLMQuota, getUsageTotals } from "@/lib/llm";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+/**
+ * Returns the caller's LLM usage: today's and this month's totals (UTC),
+ * a per-day breakdown for the last `days` days (default 30, max 90), and
+ * their monthly quota (null limits mean no quota).
+ *
+ * GET /api/llm-usage?days=30
+ */
+export const GET = withAuth(async (req, { uid }) => {
+  const daysParam = Number(new URL(req.url).searchParams.get("days") ?? DEFAULT_DAYS);
+  const days = Number.isInteger(daysParam) && daysParam > 0 ? Math.min(daysParam, MAX_DAYS) : DEFAULT_DAYS;
+
+  try {
+    const [totals, daily, quota] = await Promise.all([
+      getUsageTotals(uid),
+      getDailyUsage(uid, days),
+      getLLMQuota(uid),
+    ]);
+
+    return NextResponse.json({ ...totals, daily, quota });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[llm-usage] Failed to read usage:", message, error);
+    return NextResponse.json(
+      {
+        error: "Failed to read LLM usage",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+import { dispatchReminders } from "@/lib/reminders/dispatch";
+
+/**
+ * Reminder scheduler, run every 5 minutes by a cron job (vercel.json, which
+ * needs a Vercel Pro plan, or any scheduler that can send the header). Sends
+ * the reminders that came due to every subscribed device, as many users as
+ * fit in one run (see lib/reminders/dispatch.ts).
+ *
+ * Not called by users: requests must carry `Authorization: Bearer <CRON_SECRET>`,
+ * which Vercel Cron sends when CRON_SECRET is set.
+ *
+ * GET /api/reminders/dispatch → DispatchResult
+ */
+
+export const maxDuration = 300; // dispatch stops starting users after 4 minutes
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("[reminders] CRON_SECRET is not set; rejecting dispatch request");
+    return false;
+  }
+  const provided = request.headers.get("authorization") ?? "";
+  const a = Buffer.from(provided);
+  const b = Buffer.from(`Bearer ${secret}`);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await dispatchReminders());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[reminders] Dispatch failed:", message, error);
+    return NextResponse.json(
+      {
+        error: "Reminder dispatch failed",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+}
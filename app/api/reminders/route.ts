@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { parseTimeOfDay } from "@/lib/reminders/schedule";
+import { getReminderSettings, getReminderStatus, saveReminderSettings } from "@/lib/reminders/store";
+import type { QuietHours } from "@/lib/reminders/types";
+import { isValidTimeZone } from "@/lib/time-zone";
+
+function errorResponse(error: unknown, action: string) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[reminders] Failed to ${action}:`, message, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      ...(process.env.NODE_ENV === "development" && { detail: message }),
+    },
+    { status: 500 },
+  );
+}
+
+function isQuietHours(value: unknown): value is QuietHours {
+  if (!value || typeof value !== "object") return false;
+  const { start, end } = value as Record<string, unknown>;
+  return typeof start === "string" && typeof end === "string" && parseTimeOfDay(start) != null && parseTimeOfDay(end) != null;
+}
+
+/**
+ * The caller's reminder settings and how many devices get them.
+ *
+ * GET /api/reminders → ReminderStatus
+ */
+export const GET = withAuth(async (_req, { uid }) => {
+  try {
+    return NextResponse.json(await getReminderStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "read reminder settings");
+  }
+});
+
+/**
+ * Updates the caller's reminder settings; fields left out are kept.
+ * quietHours is { start, end } ("HH:MM") or null for none.
+ *
+ * PUT /api/reminders { enabled?, timeZone?, quietHours? } → ReminderStatus
+ */
+export const PUT = withAuth(async (req, { uid }) => {
+  try {
+    const body = await req.json();
+    const { enabled, timeZone, quietHours } = body as {
+      enabled?: unknown;
+      timeZone?: unknown;
+      quietHours?: unknown;
+    };
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return NextResponse.json({ error: "enabled must be a boolean" }, { status: 400 });
+    }
+    if (timeZone !== undefined && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+      return NextResponse.json({ error: "timeZone must be an IANA time zone" }, { status: 400 });
+    }
+    if (quietHours !== undefined && quietHours !== null && !isQuietHours(quietHours)) {
+      return NextResponse.json({ error: "quietHours must be { start, end } as HH:MM, or null" }, { status: 400 });
+    }
+
+    const current = await getReminderSettings(uid);
+    await saveReminderSettings(uid, {
+      enabled: enabled ?? current.enabled,
+      timeZone: timeZone ?? current.timeZone,
+      quietHours: quietHours === undefined ? current.quietHours : quietHours && { start: quietHours.start, end: quietHours.end },
+    });
+    return NextResponse.json(await getReminderStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "save reminder settings");
+  }
+});
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import {
+  deletePushSubscription,
+  getReminderSettings,
+  getReminderStatus,
+  savePushSubscription,
+  saveReminderSettings,
+  subscriptionId,
+} from "@/lib/reminders/store";
+import type { PushSubscriptionJSON } from "@/lib/reminders/types";
+import { isPushEndpoint } from "@/lib/reminders/web-push";
+import { isValidTimeZone } from "@/lib/time-zone";
+
+function errorResponse(error: unknown, action: string) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[reminders] Failed to ${action}:`, message, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action}`,
+      ...(process.env.NODE_ENV === "development" && { detail: message }),
+    },
+    { status: 500 },
+  );
+}
+
+function isPushSubscription(value: unknown): value is PushSubscriptionJSON {
+  if (!value || typeof value !== "object") return false;
+  const { endpoint, keys } = value as Record<string, unknown>;
+  if (typeof endpoint !== "string" || !isPushEndpoint(endpoint)) return false;
+  if (!keys || typeof keys !== "object") return false;
+  const { p256dh, auth } = keys as Record<string, unknown>;
+  return typeof p256dh === "string" && typeof auth === "string";
+}
+
+/**
+ * Subscribes this browser to the caller's reminders and turns reminders on,
+ * in the browser's time zone.
+ *
+ * POST /api/reminders/subscriptions { subscription, timeZone } → ReminderStatus
+ */
+export const POST = withAuth(async (req, { uid }) => {
+  try {
+    const body = await req.json();
+    const { subscription, timeZone } = body as { subscription?: unknown; timeZone?: unknown };
+    if (!isPushSubscription(subscription)) {
+      return NextResponse.json(
+        { error: "subscription must be a push subscription ({ endpoint, keys: { p256dh, auth } })" },
+        { status: 400 },
+      );
+    }
+    if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+      return NextResponse.json({ error: "timeZone must be an IANA time zone" }, { status: 400 });
+    }
+
+    const { endpoint, keys } = subscription;
+    await savePushSubscription(uid, { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } }, req.headers.get("user-agent") ?? "");
+    const settings = await getReminderSettings(uid);
+    await saveReminderSettings(uid, { ...settings, enabled: true, timeZone });
+    return NextResponse.json(await getReminderStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "subscribe to reminders");
+  }
+});
+
+/**
+ * Stops sending reminders to this browser.
+ *
+ * DELETE /api/reminders/subscriptions { endpoint } → ReminderStatus
+ */
+export const DELETE = withAuth(async (req, { uid }) => {
+  try {
+    const body = await req.json();
+    const { endpoint } = body as { endpoint?: unknown };
+    if (typeof endpoint !== "string") {
+      return NextResponse.json({ error: "endpoint is required and must be a string" }, { status: 400 });
+    }
+    await deletePushSubscription(uid, subscriptionId(endpoint));
+    return NextResponse.json(await getReminderStatus(uid));
+  } catch (error) {
+    return errorResponse(error, "unsubscribe from reminders");
+  }
+});
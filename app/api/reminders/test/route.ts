@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/auth";
+import { sendTestReminder } from "@/lib/reminders/dispatch";
+import { getVapidPublicKey } from "@/lib/reminders/web-push";
+
+/**
+ * Sends a test notification to each of the caller's devices.
+ *
+ * POST /api/reminders/test → { delivered: number }
+ */
+export const POST = withAuth(async (_req, { uid }) => {
+  try {
+    if (!getVapidPublicKey()) {
+      return NextResponse.json({ error: "Push notifications are not set up on this server" }, { status: 503 });
+    }
+    return NextResponse.json({ delivered: await sendTestReminder(uid) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[reminders] Failed to send test reminder:", message, error);
+    return NextResponse.json(
+      {
+        error: "Failed to send test reminder",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { diarizeAudio } from "@/lib/assemblyai/diarization";
+import { deleteRecording, getRecordingDownloadUrl } from "@/lib/assemblyai/recordings";
+import { POST } from "./route";
+
+vi.mock("@/lib/api/auth", () => ({
+  withAuth:
+    (handler: (req: Request, ctx: { uid: string }) => Promise<Response>) =>
+    (req: Request) =>
+      handler(req, { uid: "user-1" }),
+}));
+
+vi.mock("@/lib/assemblyai/diarization", () => ({ diarizeAudio: vi.fn() }));
+
+vi.mock("@/lib/assemblyai/recordings", async (importOriginal) => ({
+  isRecordingId: (await importOriginal<typeof import("@/lib/assemblyai/recordings")>()).isRecordingId,
+  getRecordingDownloadUrl: vi.fn(),
+  deleteRecording: vi.fn(async () => {}),
+}));
+
+const RECORDING_ID = "0b6f7c9e-3a61-4c2e-9d7a-52f1e0c4b8a3";
+
+function diarizeRequest(body: object): Request {
+  return new Request("https://app.example.com/api/speaker-transcript-from-audio", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/speaker-transcript-from-audio", () => {
+  beforeEach(() => {
+    vi.stubEnv("ASSEMBLY_AI_API_KEY", "assembly-key");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it("has AssemblyAI fetch the user's uploaded recording, then deletes it", async () => {
+    const signedUrl = "https://storage.googleapis.com/bucket/_recordings/user-1/rec?X-Goog-Signature=abc";
+    const turns = [{ speaker: "A", text: "How is the knee?", start: 0, end: 1200 }];
+    vi.mocked(getRecordingDownloadUrl).mockResolvedValue(signedUrl);
+    vi.mocked(diarizeAudio).mockResolvedValue(turns);
+
+    const res = await POST(diarizeRequest({ recordingId: RECORDING_ID }));
+
+    expect(await res.json()).toEqual({ turns });
+    expect(getRecordingDownloadUrl).toHaveBeenCalledWith("user-1", RECORDING_ID);
+    expect(diarizeAudio).toHaveBeenCalledWith("assembly-key", signedUrl);
+    expect(deleteRecording).toHaveBeenCalledWith("user-1", RECORDING_ID);
+  });
+
+  it.each([
+    ["missing", {}],
+    ["a path", { recordingId: "../other-user/recording" }],
+  ])("rejects a %s recording id", async (_label, body) => {
+    const res = await POST(diarizeRequest(body));
+
+    expect(res.status).toBe(400);
+    expect(getRecordingDownloadUrl).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 when nothing was uploaded", async () => {
+    vi.mocked(getRecordingDownloadUrl).mockResolvedValue(null);
+
+    const res = await POST(diarizeRequest({ recordingId: RECORDING_ID }));
+
+    expect(res.status).toBe(404);
+    expect(diarizeAudio).not.toHaveBeenCalled();
+  });
+
+  it("deletes the recording when diarization fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(getRecordingDownloadUrl).mockResolvedValue("https://storage.googleapis.com/signed");
+    vi.mocked(diarizeAudio).mockRejectedValue(new Error("Diarization failed"));
+
+    const res = await POST(diarizeRequest({ recordingId: RECORDING_ID }));
+
+    expect(res.status).toBe(500);
+    expect(deleteRecording).toHaveBeenCalledWith("user-1", RECORDING_ID);
+  });
+});
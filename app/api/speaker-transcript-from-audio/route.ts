@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { diarizeAudio } from "@/lib/assemblyai/diarization";
+import { deleteRecording, getRecordingDownloadUrl, isRecordingId } from "@/lib/assemblyai/recordings";
+import { withAuth } from "@/lib/api/auth";
+
+export const maxDuration = 300; // transcription takes a fraction of the recording length
+
+/**
+ * Splits a recorded visit into speaker turns. Expects JSON `{ recordingId }`
+ * for a recording uploaded via /api/speaker-transcript-from-audio/upload;
+ * returns `{ turns }`. The recording is deleted afterwards either way.
+ */
+export const POST = withAuth(async (req, { uid }) => {
+  let recordingId: string | null = null;
+  try {
+    const apiKey = process.env.ASSEMBLY_AI_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "ASSEMBLY_AI_API_KEY is not configured" },
+        { status: 500 },
+      );
+    }
+
+    const body = (await req.json()) as { recordingId?: unknown };
+    if (!isRecordingId(body.recordingId)) {
+      return NextResponse.json({ error: "recordingId is required" }, { status: 400 });
+    }
+    recordingId = body.recordingId;
+
+    const audioUrl = await getRecordingDownloadUrl(uid, recordingId);
+    if (!audioUrl) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    const turns = await diarizeAudio(apiKey, audioUrl);
+    return NextResponse.json({ turns });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Failed to diarize recording:", message);
+    return NextResponse.json(
+      {
+        error: "Failed to create speaker transcript from audio",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  } finally {
+    if (recordingId) {
+      await deleteRecording(uid, recordingId).catch((err) =>
+        console.error("Failed to delete recording:", err instanceof Error ? err.message : err),
+      );
+    }
+  }
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { MAX_RECORDING_BYTES, createRecordingUpload } from "@/lib/assemblyai/recordings";
+import { withAuth } from "@/lib/api/auth";
+
+/**
+ * Starts a recording upload for /api/speaker-transcript-from-audio. Expects
+ * JSON `{ contentType, size }` describing the recording; returns
+ * `{ recordingId, uploadUrl, uploadHeaders }`. The browser PUTs the recording
+ * to uploadUrl with uploadHeaders, then asks for the transcript by recordingId.
+ */
+export const POST = withAuth(async (req, { uid }) => {
+  try {
+    const { contentType, size } = (await req.json()) as { contentType?: unknown; size?: unknown };
+    if (typeof contentType !== "string" || !contentType.startsWith("audio/") || contentType.length > 100) {
+      return NextResponse.json({ error: "contentType must be an audio type" }, { status: 400 });
+    }
+    if (typeof size !== "number" || !Number.isFinite(size) || size <= 0) {
+      return NextResponse.json({ error: "size is required" }, { status: 400 });
+    }
+    if (size > MAX_RECORDING_BYTES) {
+      return NextResponse.json({ error: "audio is too large" }, { status: 413 });
+    }
+
+    return NextResponse.json(await createRecordingUpload(uid, contentType));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Failed to start recording upload:", message);
+    return NextResponse.json(
+      {
+        error: "Failed to start recording upload",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+});
@@ -1,35 +1,63 @@
 import { NextResponse } from "next/server";
 import { VapiClient } from "@vapi-ai/server-sdk";
+import { withAuth } from "@/lib/api/auth";
+import { canScheduleByPhone } from "@/lib/firestore/careTeam";
+import { readUserSubcollectionDocAdmin } from "@/lib/firestore/admin";
+import { snapshotToCareTeamMember } from "@/lib/firestore/mappers";
+import { createSchedulingSession, setSessionCallId } from "@/lib/timeslot-store";
 
 const vapi = new VapiClient({ token: process.env.VAPI_PRIVATE_KEY! });
 
-export async function POST(request: Request) {
-  const { phoneNumber, fullName } = await request.json();
+export const POST = withAuth(async (request, { uid }) => {
+  const { providerId, fullName, visitReason } = (await request.json()) as {
+    providerId?: string;
+    fullName?: string;
+    visitReason?: string;
+  };
 
-  if (!phoneNumber) {
+  if (typeof providerId !== "string" || !providerId) {
     return NextResponse.json(
-      { error: "Phone number is required" },
+      { error: "providerId is required" },
       { status: 400 }
     );
   }
 
   try {
-    await vapi.calls.create({
+    // Dial the number on the user's care team, not one sent by the client.
+    const provider = await readUserSubcollectionDocAdmin(uid, "careTeam", providerId, snapshotToCareTeamMember);
+    if (!provider) {
+      return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+    }
+    if (!canScheduleByPhone(provider)) {
+      return NextResponse.json({ error: "Provider has no phone number" }, { status: 400 });
+    }
+
+    const reason = typeof visitReason === "string" && visitReason.trim() ? visitReason.trim() : null;
+    const sessionId = await createSchedulingSession(uid, reason, provider.id);
+
+    const call = await vapi.calls.create({
       assistantId: process.env.VAPI_ASSISTANT_ID!,
       phoneNumberId: process.env.VAPI_PHONE_NUMBER_ID!,
       customer: {
-        number: "+1 " + phoneNumber,
+        number: "+1 " + provider.phone,
       },
       assistantOverrides: {
         variableValues: {
           patient: { fullName: fullName ?? "" },
+          provider: { name: provider.name, specialty: provider.specialty },
+          visitReason: reason ?? "",
+          schedulingSessionId: sessionId,
         },
+        metadata: { schedulingSessionId: sessionId, userId: uid },
       },
     });
 
-    return NextResponse.json(null, { status: 200 });
+    const callId = "id" in call ? call.id : null;
+    if (callId) await setSessionCallId(sessionId, callId);
+
+    return NextResponse.json({ sessionId, callId }, { status: 200 });
   } catch (err) {
     console.error("[/api/vapi] Failed to create outbound call:", err);
     return NextResponse.json({ error: "Failed to create call" }, { status: 500 });
   }
-}
+});
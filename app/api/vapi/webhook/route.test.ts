@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  findSessionIdByCallId,
+  setTimeslots,
+  updateCallProgress,
+  waitForConfirmation,
+} from "@/lib/timeslot-store";
+import { POST } from "./route";
+
+vi.mock("@/lib/timeslot-store", () => ({
+  findSessionIdByCallId: vi.fn(),
+  setTimeslots: vi.fn(),
+  updateCallProgress: vi.fn(),
+  waitForConfirmation: vi.fn(),
+}));
+
+const SECRET = "webhook-secret";
+
+function vapiRequest(message: object, secret: string | null = SECRET): Request {
+  return new Request("https://app.example.com/api/vapi/webhook", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(secret != null && { "x-vapi-secret": secret }) },
+    body: JSON.stringify({ message }),
+  });
+}
+
+const statusUpdate = (call: object) => ({ type: "status-update", status: "ringing", call });
+
+describe("POST /api/vapi/webhook", () => {
+  beforeEach(() => {
+    vi.stubEnv("VAPI_WEBHOOK_SECRET", SECRET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  describe("secret check", () => {
+    it.each([
+      ["missing", null],
+      ["wrong", "not-the-secret"],
+      ["a prefix of the", SECRET.slice(0, 4)],
+    ])("rejects a %s secret", async (_label, secret) => {
+      const res = await POST(vapiRequest(statusUpdate({ id: "call-1" }), secret));
+
+      expect(res.status).toBe(401);
+      expect(updateCallProgress).not.toHaveBeenCalled();
+    });
+
+    it("rejects every request when no secret is configured", async () => {
+      vi.stubEnv("VAPI_WEBHOOK_SECRET", "");
+
+      expect((await POST(vapiRequest(statusUpdate({ id: "call-1" }), ""))).status).toBe(401);
+    });
+  });
+
+  describe("session resolution", () => {
+    it("uses the session id from the call metadata", async () => {
+      const call = { id: "call-1", assistantOverrides: { metadata: { schedulingSessionId: "session-1" } } };
+
+      const res = await POST(vapiRequest(statusUpdate(call)));
+
+      expect(res.status).toBe(200);
+      expect(findSessionIdByCallId).not.toHaveBeenCalled();
+      expect(updateCallProgress).toHaveBeenCalledWith("session-1", { callStatus: "ringing" });
+    });
+
+    it("falls back to the session stored for the call id", async () => {
+      vi.mocked(findSessionIdByCallId).mockResolvedValue("session-2");
+
+      await POST(vapiRequest(statusUpdate({ id: "call-2" })));
+
+      expect(findSessionIdByCallId).toHaveBeenCalledWith("call-2");
+      expect(updateCallProgress).toHaveBeenCalledWith("session-2", { callStatus: "ringing" });
+    });
+
+    it("answers 404 for calls without a session", async () => {
+      vi.mocked(findSessionIdByCallId).mockResolvedValue(null);
+
+      const res = await POST(vapiRequest(statusUpdate({ id: "call-3" })));
+
+      expect(res.status).toBe(404);
+      expect(updateCallProgress).not.toHaveBeenCalled();
+    });
+  });
+
+  it("stores proposed slots on the session and returns the confirmed one", async () => {
+    vi.mocked(waitForConfirmation).mockResolvedValue("2026-01-12T09:00:00Z");
+    const message = {
+      type: "tool-calls",
+      call: { id: "call-1", assistantOverrides: { metadata: { schedulingSessionId: "session-1" } } },
+      toolCallList: [
+        {
+          id: "tool-1",
+          function: {
+            name: "proposeTimeslots",
+            arguments: JSON.stringify({ timeslots: ["2026-01-12T09:00:00Z"], clinic: "Main St Clinic" }),
+          },
+        },
+      ],
+    };
+
+    const res = await POST(vapiRequest(message));
+
+    expect(await res.json()).toEqual({ results: [{ toolCallId: "tool-1", result: "2026-01-12T09:00:00Z" }] });
+    expect(setTimeslots).toHaveBeenCalledWith(
+      "session-1",
+      [{ label: "2026-01-12T09:00:00Z", available: false }],
+      { providerName: null, clinic: "Main St Clinic", address: null },
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+import {
+  findSessionIdByCallId,
+  setTimeslots,
+  updateCallProgress,
+  waitForConfirmation,
+  type CallStatus,
+} from "@/lib/timeslot-store";
+
+/**
+ * Vapi server-message webhook.
+ *
+ * Configure the assistant's Server URL as /api/vapi/webhook and set the same
+ * secret in Vapi ("Server URL Secret") and in VAPI_WEBHOOK_SECRET. Vapi sends it
+ * as the `x-vapi-secret` header on every message.
+ *
+ * Handled message types:
+ *   tool-calls          – proposeTimeslots: store slots, wait for the patient to pick one
+ *   status-update       – call status (queued, ringing, in-progress, ended…)
+ *   end-of-call-report  – duration, end reason and transcript
+ *   hang                – assistant failed to respond; recorded for troubleshooting
+ */
+
+export const maxDuration = 120; // allow up to 2 min for user to confirm
+
+const CONFIRMATION_TIMEOUT_MS = (maxDuration - 10) * 1000;
+
+type VapiCall = {
+  id?: string;
+  assistantOverrides?: { metadata?: Record<string, unknown> };
+  startedAt?: string;
+  endedAt?: string;
+};
+
+type VapiToolCall = {
+  id: string;
+  function?: { name?: string; arguments?: string | Record<string, unknown> };
+};
+
+type VapiServerMessage = {
+  type?: string;
+  call?: VapiCall;
+  status?: CallStatus;
+  endedReason?: string;
+  durationSeconds?: number;
+  transcript?: string;
+  artifact?: { transcript?: string };
+  toolCallList?: VapiToolCall[];
+};
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("[vapi/webhook] VAPI_WEBHOOK_SECRET is not set; rejecting request");
+    return false;
+  }
+  const provided = request.headers.get("x-vapi-secret") ?? "";
+  const a = Buffer.from(provided);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Resolve the scheduling session for a call: metadata first, then the stored call id. */
+async function resolveSessionId(call: VapiCall | undefined): Promise<string | null> {
+  const fromMetadata = call?.assistantOverrides?.metadata?.schedulingSessionId;
+  if (typeof fromMetadata === "string" && fromMetadata) return fromMetadata;
+  if (call?.id) return findSessionIdByCallId(call.id);
+  return null;
+}
+
+function parseToolArguments(args: VapiToolCall["function"]): Record<string, unknown> {
+  const raw = args?.arguments;
+  if (!raw) return {};
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+  return raw;
+}
+
+function getDurationSeconds(message: VapiServerMessage): number | undefined {
+  if (typeof message.durationSeconds === "number") return Math.round(message.durationSeconds);
+  const { startedAt, endedAt } = message.call ?? {};
+  if (!startedAt || !endedAt) return undefined;
+  const ms = new Date(endedAt).getTime() - new Date(startedAt).getTime();
+  return Number.isNaN(ms) ? undefined : Math.round(ms / 1000);
+}
+
+// ---------------------------------------------------------------------------
+// Message handlers
+// ---------------------------------------------------------------------------
+
+/** An optional string tool argument; missing or blank values become null. */
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * proposeTimeslots arguments: timeslots (ISO date-time strings), and optionally
+ * providerName, clinic and address for the visit, which end up on the appointment.
+ */
+async function proposeTimeslots(sessionId: string, args: Record<string, unknown>): Promise<string> {
+  const timeslots = Array.isArray(args.timeslots)
+    ? args.timeslots.filter((t): t is string => typeof t === "string")
+    : [];
+
+  console.log(`[vapi/webhook] proposeTimeslots: ${timeslots.length} slot(s) on session ${sessionId}`);
+  await setTimeslots(
+    sessionId,
+    timeslots.map((label) => ({ label, available: false })),
+    {
+      providerName: optionalString(args.providerName),
+      clinic: optionalString(args.clinic),
+      address: optionalString(args.address),
+    },
+  );
+
+  // No availability offered — frontend shows "no availability"; nothing to wait for.
+  if (timeslots.length === 0) return "";
+
+  try {
+    const confirmedLabel = await waitForConfirmation(sessionId, CONFIRMATION_TIMEOUT_MS);
+    console.log(`[vapi/webhook] ✅ User confirmed a slot on session ${sessionId}`);
+    return confirmedLabel;
+  } catch (err) {
+    console.error("[vapi/webhook] ⏰ Confirmation timed out:", err);
+    return "The patient did not confirm any of the proposed times.";
+  }
+}
+
+async function handleToolCalls(sessionId: string, message: VapiServerMessage) {
+  const results = await Promise.all(
+    (message.toolCallList ?? []).map(async (toolCall) => {
+      const name = toolCall.function?.name;
+      if (name !== "proposeTimeslots") {
+        console.warn(`[vapi/webhook] Unknown tool "${name}"`);
+        return { toolCallId: toolCall.id, error: `Unknown tool: ${name}` };
+      }
+      const result = await proposeTimeslots(sessionId, parseToolArguments(toolCall.function));
+      return { toolCallId: toolCall.id, result };
+    }),
+  );
+  return NextResponse.json({ results });
+}
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let message: VapiServerMessage;
+  try {
+    const body = (await request.json()) as { message?: VapiServerMessage };
+    message = body.message ?? {};
+  } catch (err) {
+    console.error("[vapi/webhook] Failed to parse request body:", err);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  console.log(`[vapi/webhook] ▶ ${message.type} (call ${message.call?.id})`);
+
+  try {
+    const sessionId = await resolveSessionId(message.call);
+    if (!sessionId) {
+      console.warn(`[vapi/webhook] No scheduling session for call ${message.call?.id}`);
+      return NextResponse.json({ error: "Scheduling session not found" }, { status: 404 });
+    }
+
+    switch (message.type) {
+      case "tool-calls":
+        return await handleToolCalls(sessionId, message);
+
+      case "status-update":
+        if (message.status) {
+          await updateCallProgress(sessionId, { callStatus: message.status });
+        }
+        break;
+
+      case "end-of-call-report": {
+        const durationSeconds = getDurationSeconds(message);
+        const transcript = message.artifact?.transcript ?? message.transcript;
+        await updateCallProgress(sessionId, {
+          callStatus: "ended",
+          ...(durationSeconds != null && { durationSeconds }),
+          ...(message.endedReason && { endedReason: message.endedReason }),
+          ...(transcript && { transcript }),
+        });
+        break;
+      }
+
+      case "hang":
+        await updateCallProgress(sessionId, { lastHangAt: new Date() });
+        break;
+
+      default:
+        console.log(`[vapi/webhook] Ignoring message type "${message.type}"`);
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    console.error("[vapi/webhook] Failed to handle message:", detail, err);
+    return NextResponse.json(
+      {
+        error: "Failed to handle Vapi message",
+        ...(process.env.NODE_ENV === "development" && { detail }),
+      },
+      { status: 500 },
+    );
+  }
+}
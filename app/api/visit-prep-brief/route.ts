@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { resolveLanguageTag } from "@/lib/i18n/locales";
+import { generateVisitPrepBrief } from "@/lib/llm/queries/visit-prep";
+import { readHealthRecord } from "@/lib/firestore/admin";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
+import { isVisitPrepContextEmpty, selectVisitPrepContext, type AgendaItem } from "@/lib/visit-prep";
+
+export const POST = withAuth(async (req, { uid }) => {
+  try {
+    const body = await req.json();
+    const { appointmentId } = body as { appointmentId?: string; languageTag?: string };
+
+    if (!appointmentId || typeof appointmentId !== "string") {
+      return NextResponse.json(
+        { error: "appointmentId is required and must be a string" },
+        { status: 400 },
+      );
+    }
+
+    const record = await readHealthRecord(uid);
+    const appointment = record.appointments.find((a) => a.id === appointmentId);
+    if (!appointment) {
+      return NextResponse.json({ error: "Appointment not found" }, { status: 404 });
+    }
+
+    const context = selectVisitPrepContext(record, appointment);
+    if (isVisitPrepContextEmpty(context)) {
+      return NextResponse.json({ notEnoughData: true });
+    }
+
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
+    const result = await generateVisitPrepBrief(
+      context,
+      resolveLanguageTag(body.languageTag),
+      { userId: uid, route: "/api/visit-prep-brief" },
+    );
+
+    if (result.status === "NOT_ENOUGH_DATA" || result.agenda.length === 0) {
+      return NextResponse.json({ notEnoughData: true });
+    }
+
+    const agenda: AgendaItem[] = result.agenda.map((item) => ({
+      id: crypto.randomUUID(),
+      text: item.text,
+      category: item.category,
+    }));
+    return NextResponse.json({ agenda });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const cause = error instanceof Error ? error.cause : undefined;
+    console.error(
+      "Failed to generate visit prep brief:",
+      message,
+      cause ?? error,
+    );
+    return NextResponse.json(
+      {
+        error: "Failed to generate visit prep brief",
+        ...(process.env.NODE_ENV === "development" && { detail: message }),
+      },
+      { status: 500 },
+    );
+  }
+});
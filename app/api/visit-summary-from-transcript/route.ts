@@ -4,6 +4,8 @@ import {
   extractVisitSummaryFromTranscript,
   type ActionItemOutput,
 } from "@/lib/llm/queries/visit-summary";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
 
 /** True if the string looks like a YYYY-MM-DD date (no time, no inferred defaults). */
 function isExplicitIsoDateOnly(s: string): boolean {
@@ -42,8 +44,11 @@ function toActionItem(item: ActionItemOutput) {
   };
 }
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req, { uid }) => {
   try {
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
     const body = await req.json();
     const { transcript, visitDate } = body as {
       transcript: string;
@@ -63,6 +68,7 @@ export async function POST(req: Request) {
       transcript,
       dateStr,
       resolveLanguageTag(body.languageTag),
+      { userId: uid, route: "/api/visit-summary-from-transcript" },
     );
 
     if (result.status === "NOT_ENOUGH_DATA") {
@@ -89,4 +95,4 @@ export async function POST(req: Request) {
       { status: 500 },
     );
   }
-}
+});
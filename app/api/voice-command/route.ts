@@ -1,15 +1,24 @@
-import { generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { generateText, stepCountIs } from "ai";
 import { NextResponse } from "next/server";
 import { createAssistantTools } from "@/lib/assistant-tools";
 import { buildSystemPrompt, type ChatContext } from "@/lib/chat-system-prompt";
+import { withAuth } from "@/lib/api/auth";
+import { enforceLLMQuota } from "@/lib/api/quota";
+import { createModel, recordLLMUsage, resolveModelConfig } from "@/lib/llm";
+import { resolveTimeZone } from "@/lib/time-zone";
+
+/** Upper bound on model steps per command; each tool round-trip is one step. */
+const MAX_TOOL_STEPS = 5;
 
 // ---------------------------------------------------------------------------
 // Route handler – one-shot voice command processing
 // ---------------------------------------------------------------------------
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req, { uid }) => {
   try {
+    const overQuota = await enforceLLMQuota(uid);
+    if (overQuota) return overQuota;
+
     const body = await req.json();
     const { transcript, context } = body as {
       transcript: string;
@@ -30,19 +39,27 @@ export async function POST(req: Request) {
       : undefined;
 
     const result = await generateText({
-      model: openai("gpt-4o-mini"),
+      model: await createModel({ task: "chat" }),
       temperature: 0,
       system: systemPrompt,
       prompt: transcript,
-      tools: createAssistantTools(),
+      tools: createAssistantTools({ uid, actor: "voice_command", timeZone: resolveTimeZone(context?.timeZone) }),
+      stopWhen: stepCountIs(MAX_TOOL_STEPS),
     });
 
-    // Collect tool calls from all steps for the client to execute.
+    await recordLLMUsage(
+      { userId: uid, route: "/api/voice-command" },
+      { taskName: "voiceCommand", task: "chat", model: resolveModelConfig("chat").modelId, usage: result.totalUsage },
+    );
+
+    // Tools already ran server-side. Return each call with its result so the
+    // client can apply navigation and pending deletes for the ones that succeeded.
     // AI SDK v6 uses `input` for tool call arguments.
     const toolCalls = result.steps.flatMap((step) =>
       step.toolCalls.map((tc) => ({
         toolName: tc.toolName,
         args: tc.input,
+        output: step.toolResults.find((tr) => tr.toolCallId === tc.toolCallId)?.output ?? null,
       })),
     );
 
@@ -64,4 +81,4 @@ export async function POST(req: Request) {
       { status: 500 },
     );
   }
-}
+});
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { HiOutlinePlus, HiOutlineTrash } from "react-icons/hi";
+import { Drawer } from "@/app/components/Drawer";
+import { useI18n } from "@/app/components/I18nProvider";
+import { Spinner } from "@/app/components/Spinner";
+import { useAuth } from "@/lib/auth-context";
+import { db } from "@/lib/firebase";
+import { deleteChatThread, useChatThreads } from "@/lib/firestore";
+
+type ChatThreadListProps = {
+  open: boolean;
+  onClose: () => void;
+  /** Thread shown on the home page; highlighted in the list. */
+  activeThreadId: string;
+  onSelect: (threadId: string) => void;
+  onNewThread: () => void;
+  /** Called after a thread is deleted, so the page can leave it if it was open. */
+  onDeleted: (threadId: string) => void;
+};
+
+/** Past chat conversations: start a new one, reopen or delete an old one. */
+export function ChatThreadList({
+  open,
+  onClose,
+  activeThreadId,
+  onSelect,
+  onNewThread,
+  onDeleted,
+}: ChatThreadListProps) {
+  const { t, formatDate } = useI18n();
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const { threads, loading } = useChatThreads();
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [deleteFailed, setDeleteFailed] = useState(false);
+
+  const handleDelete = useCallback(
+    async (threadId: string) => {
+      if (!uid) return;
+      setDeletingId(threadId);
+      setDeleteFailed(false);
+      const result = await deleteChatThread(db, uid, threadId);
+      setDeletingId(null);
+      setConfirmingId(null);
+      if (result.ok) {
+        onDeleted(threadId);
+      } else {
+        console.error("Failed to delete chat thread:", result.error);
+        setDeleteFailed(true);
+      }
+    },
+    [uid, onDeleted]
+  );
+
+  return (
+    <Drawer open={open} onClose={onClose} side="right" title={t("chatThreads.title")}>
+      <div className="flex flex-col gap-3">
+        <button
+          type="button"
+          onClick={onNewThread}
+          className="flex items-center justify-center gap-2 rounded-full bg-neutral-800 px-4 py-2.5 text-sm font-medium text-white hover:bg-neutral-700"
+        >
+          <HiOutlinePlus className="h-4 w-4" aria-hidden />
+          {t("chatThreads.new")}
+        </button>
+        {deleteFailed && (
+          <p role="alert" className="rounded-xl bg-red-50 px-3 py-2 text-sm text-red-700">
+            {t("chatThreads.deleteError")}
+          </p>
+        )}
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Spinner size="md" theme="neutral" />
+          </div>
+        ) : threads.length === 0 ? (
+          <p className="py-6 text-center text-sm text-neutral-500">{t("chatThreads.empty")}</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {threads.map((thread) => {
+              const active = thread.id === activeThreadId;
+              const confirming = confirmingId === thread.id;
+              return (
+                <li
+                  key={thread.id}
+                  className={`flex items-center gap-2 rounded-xl px-3 py-2 ${active ? "bg-neutral-100" : "hover:bg-neutral-50"}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSelect(thread.id)}
+                    aria-current={active ? "true" : undefined}
+                    className="flex min-w-0 flex-1 flex-col items-start text-left"
+                  >
+                    <span className="w-full truncate text-sm font-medium text-neutral-900">
+                      {thread.title || t("chatThreads.untitled")}
+                    </span>
+                    <span className="text-xs text-neutral-500">
+                      {formatDate(thread.updatedAt, { dateStyle: "medium", timeStyle: "short" })}
+                    </span>
+                  </button>
+                  {confirming ? (
+                    <div className="flex shrink-0 items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingId(null)}
+                        disabled={deletingId === thread.id}
+                        className="rounded-full px-2 py-1 text-xs font-medium text-neutral-600 hover:bg-neutral-200"
+                      >
+                        {t("chatThreads.cancel")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDelete(thread.id)}
+                        disabled={deletingId === thread.id}
+                        className="rounded-full bg-rose-600 px-2 py-1 text-xs font-semibold text-white hover:bg-rose-700 disabled:opacity-60"
+                      >
+                        {t("chatThreads.delete")}
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingId(thread.id)}
+                      className="shrink-0 rounded-full p-1.5 text-neutral-500 hover:bg-neutral-200 hover:text-rose-600"
+                      aria-label={t("chatThreads.deleteAria")}
+                    >
+                      <HiOutlineTrash className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Drawer>
+  );
+}
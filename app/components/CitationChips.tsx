@@ -0,0 +1,64 @@
+"use client";
+
+import Link from "next/link";
+import {
+  HiOutlineCalendar,
+  HiOutlineClipboardCheck,
+  HiOutlineDocumentText,
+  HiOutlineHeart,
+  HiOutlineUserGroup,
+} from "react-icons/hi";
+import type { IconType } from "react-icons";
+import { useI18n } from "@/app/components/I18nProvider";
+import { CITATION_ROUTES, citationKey, type Citation, type CitationEntityType } from "@/lib/chat-actions";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+const TYPE_LABEL_KEYS: Record<CitationEntityType, MessageKey> = {
+  healthNotes: "citations.type.healthNotes",
+  actionItems: "citations.type.actionItems",
+  sessionMetadata: "citations.type.sessionMetadata",
+  appointments: "citations.type.appointments",
+  documents: "citations.type.documents",
+};
+
+const TYPE_ICONS: Record<CitationEntityType, IconType> = {
+  healthNotes: HiOutlineHeart,
+  actionItems: HiOutlineClipboardCheck,
+  sessionMetadata: HiOutlineUserGroup,
+  appointments: HiOutlineCalendar,
+  documents: HiOutlineDocumentText,
+};
+
+type CitationChipsProps = {
+  citations: Citation[];
+  /** Display name per citationKey; citations of records that are gone (no label) are not shown. */
+  labels: ReadonlyMap<string, string>;
+};
+
+/** The records an assistant answer is based on, as links to where each is shown. */
+export function CitationChips({ citations, labels }: CitationChipsProps) {
+  const { t } = useI18n();
+  const shown = citations.filter((citation) => labels.has(citationKey(citation)));
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5" aria-label={t("citations.label")}>
+      {shown.map((citation) => {
+        const Icon = TYPE_ICONS[citation.type];
+        const typeLabel = t(TYPE_LABEL_KEYS[citation.type]);
+        const label = labels.get(citationKey(citation)) || typeLabel;
+        return (
+          <Link
+            key={citationKey(citation)}
+            href={`${CITATION_ROUTES[citation.type]}?highlight=${encodeURIComponent(citation.id)}`}
+            title={`${typeLabel}: ${label}`}
+            className="flex max-w-full items-center gap-1 rounded-full border border-neutral-200 bg-white px-2.5 py-1 text-xs text-neutral-700 transition-colors hover:bg-neutral-100"
+          >
+            <Icon className="h-3.5 w-3.5 shrink-0 text-neutral-500" aria-hidden />
+            <span className="truncate">{label}</span>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,15 +1,24 @@
 "use client";
 
 import Link from "next/link";
+import { useState } from "react";
 import { useI18n } from "@/app/components/I18nProvider";
+import { useAuth } from "@/lib/auth-context";
+import { db } from "@/lib/firebase";
 import {
+  getOccurrencesForDay,
+  isMedicationItem,
+  isPastStatus,
+  isRecurring,
+  occurrenceKey,
+  recordMedicationDose,
   sortActionItemsByPriorityAndDueDate,
   useAppointments,
   useUserMetadata,
   useUserData,
 } from "@/lib/firestore";
-import type { ActionItem, Appointment } from "@/lib/firestore";
-import { HiArrowRight, HiChatAlt2, HiClipboardList, HiClock } from "react-icons/hi";
+import type { ActionItem, Appointment, Occurrence } from "@/lib/firestore";
+import { HiArrowRight, HiChatAlt2, HiCheck, HiClipboardList, HiClock } from "react-icons/hi";
 import type { MessageKey } from "@/lib/i18n/messages";
 
 /** Pill style maps for read-only display (must match action-items / past-sessions for consistency). */
@@ -131,11 +140,26 @@ function formatAppointmentLabel(
 
 type SummaryCard =
   | { kind: "appointment"; label: string; href: string; appointmentId: string; timeUntilLabel: string; timeUntilPillClass: string }
-  | { kind: "actionItem"; label: string; href: string; item: ActionItem };
+  | { kind: "actionItem"; label: string; href: string; item: ActionItem }
+  | { kind: "occurrence"; label: string; href: string; occurrence: Occurrence; timeLabel: string };
+
+const MAX_ACTION_ITEM_CARDS = 2;
+
+/** Medication doses still to take today: recurring occurrences plus one-off items due today. */
+function getTodayDoses(actionItems: ActionItem[], now: Date): Occurrence[] {
+  const medications = actionItems.filter(isMedicationItem);
+  const todayKey = occurrenceKey(now);
+  const recurring = getOccurrencesForDay(medications, now).filter((o) => o.status === "pending");
+  const oneOff: Occurrence[] = medications
+    .filter((item) => !isRecurring(item) && !isPastStatus(item.status) && occurrenceKey(item.dueBy) === todayKey)
+    .map((item) => ({ item, date: item.dueBy, key: todayKey, status: "pending" }));
+  return [...recurring, ...oneOff].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
 
 function getSummaryCards(
   appointments: Appointment[],
   actionItems: ActionItem[],
+  doseItemIds: ReadonlySet<string>,
   formatDate: (date: Date | string | number, options?: Intl.DateTimeFormatOptions) => string,
   t: (key: MessageKey, vars?: Record<string, string | number>) => string,
 ): SummaryCard[] {
@@ -154,8 +178,26 @@ function getSummaryCards(
     });
   }
 
-  const sortedActionItems = sortActionItemsByPriorityAndDueDate(actionItems);
-  const remaining = 2;
+  // Today's still-open occurrences of recurring items come first, then one-off items.
+  // Medication doses have their own list with a "Taken" button.
+  const todayOccurrences = getOccurrencesForDay(actionItems.filter((item) => !isMedicationItem(item))).filter(
+    (o) => o.status === "pending",
+  );
+  for (const occurrence of todayOccurrences.slice(0, MAX_ACTION_ITEM_CARDS)) {
+    const { item } = occurrence;
+    cards.push({
+      kind: "occurrence",
+      label: item.title || item.description || t("homeSummary.actionItemFallback"),
+      href: `/action-items?highlight=${encodeURIComponent(item.id)}`,
+      occurrence,
+      timeLabel: t("homeSummary.todayAt", { time: formatDate(occurrence.date, { timeStyle: "short" }) }),
+    });
+  }
+
+  const sortedActionItems = sortActionItemsByPriorityAndDueDate(
+    actionItems.filter((item) => !isRecurring(item) && !doseItemIds.has(item.id)),
+  );
+  const remaining = Math.max(0, MAX_ACTION_ITEM_CARDS - cards.filter((c) => c.kind === "occurrence").length);
   for (let i = 0; i < Math.min(remaining, sortedActionItems.length); i++) {
     const item = sortedActionItems[i];
     const label = item.title || item.description || t("homeSummary.actionItemFallback");
@@ -170,6 +212,17 @@ function getSummaryCards(
   return cards;
 }
 
+function getCardKey(card: SummaryCard): string {
+  switch (card.kind) {
+    case "appointment":
+      return card.appointmentId;
+    case "actionItem":
+      return card.item.id;
+    case "occurrence":
+      return `${card.occurrence.item.id}-${card.occurrence.key}`;
+  }
+}
+
 /** Read-only pill showing a single value (type, priority, or status). */
 function ImmutablePill({
   value,
@@ -190,6 +243,61 @@ function ImmutablePill({
   );
 }
 
+/** Today's medication doses, each with a one-tap "Taken" button. */
+function TodayDoses({ doses }: { doses: Occurrence[] }) {
+  const { t, formatDate } = useI18n();
+  const { user } = useAuth();
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const markTaken = async (dose: Occurrence) => {
+    if (!user?.uid) return;
+    setSaving(dose.item.id);
+    const result = await recordMedicationDose(db, user.uid, dose.item, "taken");
+    if (!result.ok) console.error("[HomeSummary] Failed to log dose:", result.error);
+    setSaving(null);
+  };
+
+  return (
+    <section className="mt-8 w-full max-w-md">
+      <h3 className="mb-2 px-1 text-xs font-semibold uppercase tracking-wide text-neutral-500">
+        {t("homeSummary.dosesToday")}
+      </h3>
+      <ul className="flex flex-col gap-2">
+        {doses.map((dose) => {
+          const name = dose.item.medication?.name || dose.item.title || t("homeSummary.actionItemFallback");
+          return (
+            <li
+              key={`${dose.item.id}-${dose.key}`}
+              className="flex items-center gap-3 rounded-full border border-neutral-200 py-2 pl-4 pr-2 text-sm"
+            >
+              <Link
+                href={`/action-items?highlight=${encodeURIComponent(dose.item.id)}`}
+                className="min-w-0 flex-1"
+              >
+                <span className="block truncate font-medium text-neutral-900">{name}</span>
+                <span className="block text-xs text-neutral-500">
+                  {dose.item.medication && `${dose.item.medication.dose} ${dose.item.medication.dosageUnit} · `}
+                  {formatDate(dose.date, { timeStyle: "short" })}
+                </span>
+              </Link>
+              <button
+                type="button"
+                onClick={() => markTaken(dose)}
+                disabled={saving === dose.item.id}
+                className="flex shrink-0 items-center gap-1 rounded-full bg-neutral-900 px-3 py-1.5 text-xs font-semibold text-white active:bg-neutral-700 disabled:opacity-50"
+                aria-label={t("homeSummary.markTakenAria", { name })}
+              >
+                <HiCheck className="h-3.5 w-3.5" aria-hidden />
+                {t("homeSummary.markTaken")}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
 const CARD_BUTTON_CLASS =
   "flex w-full items-center justify-between gap-3 rounded-full border border-neutral-200 px-4 py-3 text-left text-sm text-neutral-900 transition-colors hover:bg-neutral-100";
 
@@ -206,7 +314,14 @@ export function HomeSummary({ suggestedPrompt, onPromptClick }: HomeSummaryProps
   const { appointments } = useAppointments();
 
   const firstName = userMetadata?.firstName || "there";
-  const cards = getSummaryCards(appointments, userData.actionItems, formatDate, t);
+  const doses = getTodayDoses(userData.actionItems, new Date());
+  const cards = getSummaryCards(
+    appointments,
+    userData.actionItems,
+    new Set(doses.map((d) => d.item.id)),
+    formatDate,
+    t,
+  );
   const showPrompt = suggestedPrompt && onPromptClick;
 
   return (
@@ -218,10 +333,11 @@ export function HomeSummary({ suggestedPrompt, onPromptClick }: HomeSummaryProps
       <p className="mt-1 text-sm text-neutral-500 text-center max-w-xs">
         {t("homeSummary.subtitle")}
       </p>
+      {doses.length > 0 && <TodayDoses doses={doses} />}
       {(cards.length > 0 || showPrompt) ? (
         <ul className="mt-8 w-full max-w-md flex flex-col gap-2">
           {cards.map((card) => (
-            <li key={card.kind === "actionItem" ? card.item.id : card.appointmentId}>
+            <li key={getCardKey(card)}>
               <Link
                 href={card.href}
                 className={CARD_BUTTON_CLASS}
@@ -232,6 +348,14 @@ export function HomeSummary({ suggestedPrompt, onPromptClick }: HomeSummaryProps
                   <HiClipboardList className="h-5 w-5 shrink-0 text-neutral-900" aria-hidden />
                 )}
                 <span className="min-w-0 flex-1 flex flex-col gap-1.5">
+                  {card.kind === "occurrence" && (
+                    <span
+                      className="inline-flex w-fit items-center rounded-full border border-blue-200 bg-blue-50 px-1.5 py-px text-[10px] font-medium text-blue-700"
+                      aria-hidden
+                    >
+                      {card.timeLabel}
+                    </span>
+                  )}
                   {card.kind === "appointment" && (
                     <span
                       className={`inline-flex w-fit items-center rounded-full border px-1.5 py-px text-[10px] font-medium ${card.timeUntilPillClass}`}
@@ -267,11 +391,11 @@ export function HomeSummary({ suggestedPrompt, onPromptClick }: HomeSummaryProps
             </li>
           )}
         </ul>
-      ) : (
+      ) : doses.length === 0 ? (
         <p className="max-w-xs mt-4 text-sm text-neutral-500 text-center">
           {t("homeSummary.noCards")}
         </p>
-      )}
+      ) : null}
     </div>
   );
 }
@@ -5,9 +5,8 @@ import { useAuth } from "@/lib/auth-context";
 import { useUserMetadata } from "@/lib/firestore";
 import { formatLocalizedDate, formatLocalizedDateUTC, formatRelativeFromNow, getBrowserLanguageTag } from "@/lib/i18n/format";
 import { resolveAppLocale, resolveLanguageTag, type AppLocale } from "@/lib/i18n/locales";
-import { EN_MESSAGES, MESSAGES, type MessageKey } from "@/lib/i18n/messages";
-
-type I18nVariables = Record<string, string | number>;
+import type { MessageKey } from "@/lib/i18n/messages";
+import { translate, type I18nVariables } from "@/lib/i18n/translate";
 
 type I18nContextValue = {
   locale: AppLocale;
@@ -20,14 +19,6 @@ type I18nContextValue = {
 
 const I18nContext = createContext<I18nContextValue | null>(null);
 
-function interpolate(template: string, vars?: I18nVariables): string {
-  if (!vars) return template;
-  return template.replace(/\{(\w+)\}/g, (_, key: string) => {
-    const value = vars[key];
-    return value == null ? `{${key}}` : String(value);
-  });
-}
-
 export function I18nProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const { data: userMetadata } = useUserMetadata();
@@ -36,11 +27,7 @@ export function I18nProvider({ children }: { children: React.ReactNode }) {
   const languageTag = resolveLanguageTag(preferredLanguage);
   const locale = resolveAppLocale(languageTag);
 
-  const t = useCallback((key: MessageKey, vars?: I18nVariables) => {
-    const localeMessage = MESSAGES[locale]?.[key];
-    const fallback = EN_MESSAGES[key];
-    return interpolate(localeMessage ?? fallback ?? key, vars);
-  }, [locale]);
+  const t = useCallback((key: MessageKey, vars?: I18nVariables) => translate(locale, key, vars), [locale]);
 
   const value = useMemo<I18nContextValue>(
     () => ({
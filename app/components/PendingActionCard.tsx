@@ -0,0 +1,113 @@
+"use client";
+
+import { motion } from "motion/react";
+import { HiOutlineTrash } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import type { PendingAction } from "@/app/hooks/useToolExecutor";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+const PROMPT_KEYS: Record<PendingAction["toolName"], MessageKey> = {
+  delete_action_item: "pendingAction.deleteActionItem",
+  delete_health_note: "pendingAction.deleteHealthNote",
+  delete_appointment: "pendingAction.deleteAppointment",
+  delete_session: "pendingAction.deleteSession",
+  delete_document: "pendingAction.deleteDocument",
+};
+
+/** Documents have no title; show the start of the summary instead. */
+const DOCUMENT_LABEL_LENGTH = 80;
+
+/** Name of the record a pending action removes, as shown to the user. */
+function usePendingActionLabel(action: PendingAction): string {
+  const { t, formatDate } = useI18n();
+  if (action.toolName === "delete_appointment") {
+    return t("pendingAction.appointmentAt", {
+      date: formatDate(action.record.appointmentTime, { dateStyle: "medium", timeStyle: "short" }),
+    });
+  }
+  if (action.toolName === "delete_document") {
+    const summary = action.record.summary.trim().split(/\n/)[0] ?? "";
+    if (!summary) return t("documents.untitled");
+    return summary.length > DOCUMENT_LABEL_LENGTH ? `${summary.slice(0, DOCUMENT_LABEL_LENGTH)}…` : summary;
+  }
+  return action.record.title || t("documents.untitled");
+}
+
+type PendingActionCardProps = {
+  action: PendingAction;
+  onConfirm: (id: string) => void;
+  onCancel: (id: string) => void;
+};
+
+/** Shows a delete the assistant asked for, with Confirm and Cancel. */
+export function PendingActionCard({ action, onConfirm, onCancel }: PendingActionCardProps) {
+  const { t } = useI18n();
+  const label = usePendingActionLabel(action);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 4 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.2, ease: "easeOut" }}
+      role="alertdialog"
+      aria-label={t(PROMPT_KEYS[action.toolName])}
+      className="flex flex-col gap-3 rounded-2xl border border-rose-200 bg-white p-3 text-sm shadow-sm"
+    >
+      <div className="flex items-start gap-2">
+        <HiOutlineTrash className="mt-0.5 h-4 w-4 shrink-0 text-rose-600" aria-hidden />
+        <div className="flex min-w-0 flex-col gap-0.5">
+          <span className="text-xs text-neutral-500">{t(PROMPT_KEYS[action.toolName])}</span>
+          <span className="break-words font-medium text-neutral-900">{label}</span>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => onCancel(action.id)}
+          className="rounded-full px-3 py-1.5 text-xs font-medium text-neutral-600 hover:bg-neutral-100"
+        >
+          {t("pendingAction.cancel")}
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(action.id)}
+          className="rounded-full bg-rose-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-rose-700"
+        >
+          {t("pendingAction.confirm")}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+type UndoDeleteBarProps = {
+  action: PendingAction;
+  onUndo: () => void;
+};
+
+/** Confirms a delete went through and offers to restore the record while the undo window is open. */
+export function UndoDeleteBar({ action, onUndo }: UndoDeleteBarProps) {
+  const { t } = useI18n();
+  const label = usePendingActionLabel(action);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 4 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 4 }}
+      transition={{ duration: 0.2, ease: "easeOut" }}
+      role="status"
+      aria-live="polite"
+      className="flex items-center justify-between gap-3 rounded-2xl bg-neutral-800 px-3 py-2 text-sm text-white shadow-lg"
+    >
+      <span className="min-w-0 truncate">{t("pendingAction.deleted", { name: label })}</span>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="shrink-0 rounded-full px-2 py-1 text-xs font-semibold text-amber-300 hover:bg-neutral-700"
+      >
+        {t("pendingAction.undo")}
+      </button>
+    </motion.div>
+  );
+}
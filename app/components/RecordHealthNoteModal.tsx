@@ -11,6 +11,7 @@ import { writeHealthNote } from "@/lib/firestore/api";
 import { Spinner } from "@/app/components/Spinner";
 import { HiMicrophone, HiStop, HiOutlineThumbDown, HiDownload } from "react-icons/hi";
 import type { HealthNote } from "@/lib/firestore/types";
+import { authFetch } from "@/lib/api/client";
 
 const DISMISS_THRESHOLD = 100;
 const WAVEFORM_BARS = 40;
@@ -233,12 +234,16 @@ export function RecordHealthNoteModal({
     let cancelled = false;
     (async () => {
       try {
-        const res = await fetch("/api/health-note-from-transcript", {
+        const res = await authFetch("/api/health-note-from-transcript", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ ...processingPayload, languageTag }),
         });
-        if (!res.ok) throw new Error(t("recordNote.generateFailed"));
+        if (!res.ok) {
+          const errBody = (await res.json().catch(() => ({}))) as { error?: string };
+          // Quota errors carry a user-facing message; anything else gets the generic one.
+          throw new Error(res.status === 429 && errBody.error ? errBody.error : t("recordNote.generateFailed"));
+        }
         const data = (await res.json()) as
           | (HealthNote & { date: string; startedAt: string; endedAt: string })
           | { notEnoughData: true };
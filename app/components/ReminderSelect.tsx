@@ -0,0 +1,64 @@
+"use client";
+
+import { HiOutlineBell } from "react-icons/hi";
+import { useI18n } from "@/app/components/I18nProvider";
+import { REMINDER_PRESETS } from "@/lib/firestore";
+import type { ReminderOffsets } from "@/lib/firestore";
+import type { MessageKey } from "@/lib/i18n/messages";
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+
+function describeOffset(minutes: number, t: Translate): string {
+  if (minutes === 0) return t("reminders.offset.atTime");
+  if (minutes % MINUTES_PER_DAY === 0) return t("reminders.offset.days", { count: minutes / MINUTES_PER_DAY });
+  if (minutes % MINUTES_PER_HOUR === 0) return t("reminders.offset.hours", { count: minutes / MINUTES_PER_HOUR });
+  return t("reminders.offset.minutes", { count: minutes });
+}
+
+/** Human-readable reminder offsets, e.g. "1 day before, 1 hour before". */
+export function describeReminderOffsets(offsets: ReminderOffsets, t: Translate): string {
+  if (offsets.length === 0) return t("reminders.offset.none");
+  return offsets.map((minutes) => describeOffset(minutes, t)).join(", ");
+}
+
+const toValue = (offsets: ReminderOffsets) => offsets.join(",") || "none";
+
+/**
+ * Picks when an item's push reminders go out, from REMINDER_PRESETS (plus the
+ * item's current offsets if they aren't a preset, e.g. set through the API).
+ */
+export function ReminderSelect({
+  offsets,
+  onChange,
+}: {
+  offsets: ReminderOffsets;
+  onChange: (offsets: ReminderOffsets) => void;
+}) {
+  const { t } = useI18n();
+  const options = REMINDER_PRESETS.some((preset) => toValue(preset) === toValue(offsets))
+    ? REMINDER_PRESETS
+    : [...REMINDER_PRESETS, offsets];
+  return (
+    <label className="flex w-fit items-center gap-1 text-xs font-medium text-neutral-500">
+      <HiOutlineBell className="h-3.5 w-3.5 shrink-0" aria-hidden />
+      <select
+        value={toValue(offsets)}
+        onChange={(e) => {
+          const next = options.find((option) => toValue(option) === e.target.value);
+          if (next) onChange(next);
+        }}
+        className="cursor-pointer rounded-full bg-transparent py-0.5 pr-1 text-xs font-medium text-neutral-500 hover:text-neutral-900 focus:outline-none focus:ring-2 focus:ring-neutral-400"
+        aria-label={t("reminders.selectAria")}
+      >
+        {options.map((option) => (
+          <option key={toValue(option)} value={toValue(option)}>
+            {describeReminderOffsets(option, t)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -5,14 +5,18 @@ import { usePathname } from "next/navigation";
 import { HiMicrophone, HiStop } from "react-icons/hi";
 import { motion, AnimatePresence } from "motion/react";
 import { useStreamingTranscription } from "@/app/hooks/useStreamingTranscription";
-import { useToolExecutor } from "@/app/hooks/useToolExecutor";
+import { UNDO_WINDOW_MS, useToolExecutor } from "@/app/hooks/useToolExecutor";
 import { useAuth } from "@/lib/auth-context";
 import {
   useUserMetadata,
   useUserData,
   useAppointments,
+  useDocuments,
 } from "@/lib/firestore";
+import { PendingActionCard, UndoDeleteBar } from "./PendingActionCard";
 import { Spinner } from "./Spinner";
+import { authFetch } from "@/lib/api/client";
+import { isToolResultOk } from "@/lib/chat-actions";
 
 type FabState = "idle" | "recording" | "processing" | "response";
 
@@ -50,6 +54,7 @@ export function VoiceCommandFAB() {
   const { data: userMetadata } = useUserMetadata();
   const userData = useUserData();
   const { appointments } = useAppointments();
+  const { documents } = useDocuments();
 
   const [fabState, setFabState] = useState<FabState>("idle");
   const fabStateRef = useRef<FabState>("idle");
@@ -60,7 +65,15 @@ export function VoiceCommandFAB() {
   // Keep ref in sync so the click handler always reads the latest state.
   fabStateRef.current = fabState;
 
-  const { executeToolCall } = useToolExecutor();
+  const {
+    executeToolCall,
+    pendingActions,
+    confirmPendingAction,
+    cancelPendingAction,
+    cancelAllPendingActions,
+    deletedAction,
+    undoDeletedAction,
+  } = useToolExecutor({ actor: "voice_command" });
 
   const {
     startRecording,
@@ -90,6 +103,7 @@ export function VoiceCommandFAB() {
             preferredLanguage: userMetadata.preferredLanguage,
           }
         : null,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       healthNotes: userData.healthNotes.map((n) => ({
         id: n.id,
         date: n.date instanceof Date ? n.date.toISOString() : n.date,
@@ -112,6 +126,8 @@ export function VoiceCommandFAB() {
         date: s.date instanceof Date ? s.date.toISOString() : s.date,
         title: s.title,
         summary: s.summary,
+        actionItemIds: s.actionItemIds,
+        documentIds: s.documentIds,
       })),
       appointments: appointments.map((a) => ({
         id: a.id,
@@ -123,9 +139,20 @@ export function VoiceCommandFAB() {
           a.scheduledOn instanceof Date
             ? a.scheduledOn.toISOString()
             : a.scheduledOn,
+        providerName: a.providerName,
+        clinic: a.clinic,
+        address: a.address,
+        reason: a.reason,
+        status: a.status,
+        notes: a.notes,
+      })),
+      documents: documents.map((d) => ({
+        id: d.id,
+        summary: d.summary,
+        uploadedAt: d.uploadedAt instanceof Date ? d.uploadedAt.toISOString() : String(d.uploadedAt),
       })),
     }),
-    [userMetadata, userData.healthNotes, userData.actionItems, userData.sessionMetadata, appointments],
+    [userMetadata, userData.healthNotes, userData.actionItems, userData.sessionMetadata, appointments, documents],
   );
 
   const canRecord = isSupported && tokenStatus === "ready";
@@ -134,15 +161,37 @@ export function VoiceCommandFAB() {
     [segments, interimTranscript],
   );
 
-  const scheduleDismiss = useCallback(() => {
+  const scheduleDismiss = useCallback((delay: number = RESPONSE_DISMISS_MS) => {
     if (dismissTimerRef.current) clearTimeout(dismissTimerRef.current);
     dismissTimerRef.current = setTimeout(() => {
       setFabState("idle");
       setUserTranscript("");
       setResponseText("");
-    }, RESPONSE_DISMISS_MS);
+    }, delay);
   }, []);
 
+  // Deletes wait for the user, so keep the bubbles open while any are pending.
+  const hasPendingActions = pendingActions.length > 0;
+  useEffect(() => {
+    if (hasPendingActions && dismissTimerRef.current) clearTimeout(dismissTimerRef.current);
+  }, [hasPendingActions]);
+
+  const handleConfirm = useCallback(
+    async (id: string) => {
+      await confirmPendingAction(id);
+      scheduleDismiss(UNDO_WINDOW_MS);
+    },
+    [confirmPendingAction, scheduleDismiss],
+  );
+
+  const handleCancel = useCallback(
+    (id: string) => {
+      cancelPendingAction(id);
+      if (pendingActions.length <= 1) scheduleDismiss();
+    },
+    [cancelPendingAction, pendingActions.length, scheduleDismiss],
+  );
+
   const handleFabClick = useCallback(async () => {
     // Read latest state from ref to avoid stale closures.
     const state = fabStateRef.current;
@@ -150,8 +199,9 @@ export function VoiceCommandFAB() {
     // Ignore repeated clicks only while stop cleanup is in progress.
     if (isStopping) return;
 
-    // Dismiss bubbles on tap
+    // Dismiss bubbles on tap; anything still awaiting confirmation is dropped.
     if (state === "response") {
+      cancelAllPendingActions();
       setFabState("idle");
       setUserTranscript("");
       setResponseText("");
@@ -178,7 +228,7 @@ export function VoiceCommandFAB() {
       setUserTranscript(transcript);
 
       try {
-        const res = await fetch("/api/voice-command", {
+        const res = await authFetch("/api/voice-command", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ transcript, context: voiceContext }),
@@ -186,21 +236,31 @@ export function VoiceCommandFAB() {
 
         if (!res.ok) {
           const errBody = await res.json().catch(() => ({}));
-          throw new Error((errBody as { error?: string }).error ?? `Request failed (${res.status})`);
+          const message = (errBody as { error?: string }).error ?? `Request failed (${res.status})`;
+          // Over the monthly AI quota: show the server's explanation instead of a generic error.
+          if (res.status === 429) {
+            setResponseText(message);
+            setFabState("response");
+            scheduleDismiss();
+            return;
+          }
+          throw new Error(message);
         }
 
         const data = (await res.json()) as {
           text: string;
-          toolCalls: Array<{ toolName: string; args: unknown }>;
+          toolCalls: Array<{ toolName: string; args: unknown; output: unknown }>;
         };
 
-        // Execute tool calls client-side
-        for (const tc of data.toolCalls) {
+        // Data changes already ran on the server; apply navigation and pending
+        // deletes for the calls that succeeded.
+        const succeeded = data.toolCalls.filter((tc) => isToolResultOk(tc.output));
+        for (const tc of succeeded) {
           void executeToolCall(tc.toolName, tc.args);
         }
 
         // Show response
-        const text = data.text || (data.toolCalls.length > 0 ? "Done." : "I didn't catch that.");
+        const text = data.text || (succeeded.length > 0 ? "Done." : "I didn't catch that.");
         setResponseText(text);
         setFabState("response");
         scheduleDismiss();
@@ -220,7 +280,7 @@ export function VoiceCommandFAB() {
     setResponseText("");
     setFabState("recording");
     await startRecording();
-  }, [isStopping, isRecording, stopRecording, liveTranscript, voiceContext, executeToolCall, clearError, clearTranscript, startRecording, scheduleDismiss]);
+  }, [isStopping, isRecording, stopRecording, liveTranscript, voiceContext, executeToolCall, cancelAllPendingActions, clearError, clearTranscript, startRecording, scheduleDismiss]);
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -282,6 +342,19 @@ export function VoiceCommandFAB() {
                 {responseText}
               </div>
             ) : null}
+
+            {fabState === "response" &&
+              pendingActions.map((action) => (
+                <PendingActionCard
+                  key={action.id}
+                  action={action}
+                  onConfirm={(id) => void handleConfirm(id)}
+                  onCancel={handleCancel}
+                />
+              ))}
+            {fabState === "response" && deletedAction && (
+              <UndoDeleteBar action={deletedAction} onUndo={() => void undoDeletedAction()} />
+            )}
           </motion.div>
         )}
       </AnimatePresence>
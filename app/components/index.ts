@@ -4,9 +4,12 @@
  */
 
 export { Drawer } from "./Drawer";
+export { ChatThreadList } from "./ChatThreadList";
 export { ChatWidget } from "./ChatWidget";
+export { CitationChips } from "./CitationChips";
 export { HomeSummary } from "./HomeSummary";
 export { MarkdownContent } from "./MarkdownContent";
+export { PendingActionCard, UndoDeleteBar } from "./PendingActionCard";
 export { PillDropdown } from "./PillDropdown";
 export { StreamingText } from "./StreamingText";
 export { Toast } from "./Toast";
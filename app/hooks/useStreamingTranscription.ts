@@ -12,6 +12,7 @@ import {
 } from "@/lib/assemblyai/keyterms";
 import { resolveLanguageTag } from "@/lib/i18n";
 import { debugLog } from "@/lib/logger";
+import { authFetch } from "@/lib/api/client";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -20,6 +21,9 @@ import { debugLog } from "@/lib/logger";
 export interface Segment {
   id: string;
   text: string;
+  /** Milliseconds from the start of the recording (from the turn's words; 0 if it has none). */
+  start: number;
+  end: number;
 }
 
 export interface UseStreamingTranscriptionOptions {
@@ -29,6 +33,8 @@ export interface UseStreamingTranscriptionOptions {
   language?: string;
   /** Called with RMS audio level (0–1) during recording for visualization. */
   onAudioLevel?: (level: number) => void;
+  /** Also record the microphone audio, e.g. to diarize it after the session (see getRecordedAudio). */
+  captureAudio?: boolean;
 }
 
 export type TokenStatus = "loading" | "ready" | "error";
@@ -37,6 +43,10 @@ export interface UseStreamingTranscriptionReturn {
   startRecording: () => Promise<void>;
   /** Stops recording and returns the final transcript. Waits for AssemblyAI to finalize. */
   stopRecording: () => Promise<string>;
+  /** Audio of the last recording when `captureAudio` is set; null otherwise or if the browser can't record. */
+  getRecordedAudio: () => Blob | null;
+  /** Final segments of the last recording, including an unfinished last turn. Read after stopRecording(). */
+  getSegments: () => Segment[];
   isRecording: boolean;
   /** True while startRecording() is in progress (mic + connection setup). */
   isStarting: boolean;
@@ -66,6 +76,13 @@ function float32ToInt16(float32: Float32Array): ArrayBufferLike {
   return int16.buffer;
 }
 
+/** Time span of a turn, from its first and last word. */
+function getTurnSpan(turn: TurnEvent): { start: number; end: number } {
+  const first = turn.words[0];
+  const last = turn.words[turn.words.length - 1];
+  return { start: first?.start ?? 0, end: last?.end ?? first?.start ?? 0 };
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -81,6 +98,8 @@ export function useStreamingTranscription(
   onAudioLevelRef.current = options?.onAudioLevel;
   const languageTagRef = useRef(options?.languageTag ?? options?.language);
   languageTagRef.current = options?.languageTag ?? options?.language;
+  const captureAudioRef = useRef(options?.captureAudio ?? false);
+  captureAudioRef.current = options?.captureAudio ?? false;
   // ---- state ---------------------------------------------------------------
   const [isRecording, setIsRecording] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
@@ -106,11 +125,16 @@ export function useStreamingTranscription(
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const recordedAudioRef = useRef<Blob | null>(null);
   const segmentIdRef = useRef(0);
   /** Track turn_order values we've already committed as segments to avoid duplicate segments from repeated end_of_turn events. */
   const committedTurnOrdersRef = useRef<Set<number>>(new Set());
   /** Ref to read final transcript after close() – updated synchronously in turn handler. */
   const transcriptRef = useRef<{ segments: Segment[]; interim: string }>({ segments: [], interim: "" });
+  /** Time span of the current interim turn, for getSegments(). */
+  const interimSpanRef = useRef({ start: 0, end: 0 });
 
   // ---- derived -------------------------------------------------------------
   const isSupported =
@@ -138,7 +162,7 @@ export function useStreamingTranscription(
     let lastError: Error | null = null;
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
-        const res = await fetch("/api/assemblyai-token", { method: "POST" });
+        const res = await authFetch("/api/assemblyai-token", { method: "POST" });
         if (!res.ok) {
           const body = await res.json().catch(() => ({}));
           throw new Error(
@@ -209,6 +233,23 @@ export function useStreamingTranscription(
     }
   }, []);
 
+  /** Stop the MediaRecorder (if any) and keep what it captured. Resolves once the last chunk is in. */
+  const stopAudioCapture = useCallback(async () => {
+    const recorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (!recorder) return;
+    if (recorder.state !== "inactive") {
+      await new Promise<void>((resolve) => {
+        recorder.addEventListener("stop", () => resolve(), { once: true });
+        recorder.stop();
+      });
+    }
+    const chunks = audioChunksRef.current;
+    audioChunksRef.current = [];
+    recordedAudioRef.current =
+      chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || chunks[0].type }) : null;
+  }, []);
+
   /** Close the streaming transcriber connection. Waits for session termination so final turn events are received. */
   const cleanupTranscriber = useCallback(async () => {
     if (transcriberRef.current) {
@@ -242,6 +283,8 @@ export function useStreamingTranscription(
     cancelStartRef.current = true;
     try {
       setIsRecording(false);
+      // Before cleanupAudio: stopping the tracks would end the recording early.
+      await stopAudioCapture();
       cleanupAudio();
       await cleanupTranscriber();
       setInterimTranscript("");
@@ -251,7 +294,14 @@ export function useStreamingTranscription(
     } finally {
       setIsStopping(false);
     }
-  }, [cleanupAudio, cleanupTranscriber]);
+  }, [cleanupAudio, cleanupTranscriber, stopAudioCapture]);
+
+  const getRecordedAudio = useCallback(() => recordedAudioRef.current, []);
+
+  const getSegments = useCallback((): Segment[] => {
+    const { segments: segs, interim } = transcriptRef.current;
+    return interim ? [...segs, { id: "seg-interim", text: interim, ...interimSpanRef.current }] : segs;
+  }, []);
 
   // ---- startRecording ------------------------------------------------------
 
@@ -280,6 +330,18 @@ export function useStreamingTranscription(
         return;
       }
       mediaStreamRef.current = mediaStream;
+      recordedAudioRef.current = null;
+
+      // 2b. Optionally keep a compressed copy of the audio alongside the stream.
+      if (captureAudioRef.current && typeof MediaRecorder !== "undefined") {
+        const recorder = new MediaRecorder(mediaStream);
+        audioChunksRef.current = [];
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) audioChunksRef.current.push(event.data);
+        };
+        recorder.start();
+        mediaRecorderRef.current = recorder;
+      }
 
       // 3. Set up Web Audio capture.
       //    We request 16 kHz but the browser may use a different rate.
@@ -349,7 +411,7 @@ export function useStreamingTranscription(
           if (!alreadyCommitted) {
             committedTurnOrdersRef.current.add(turn.turn_order);
             const id = `seg-${++segmentIdRef.current}`;
-            const seg = { id, text: turn.transcript };
+            const seg = { id, text: turn.transcript, ...getTurnSpan(turn) };
             setSegments((prev) => [...prev, seg]);
             transcriptRef.current = {
               segments: [...transcriptRef.current.segments, seg],
@@ -361,6 +423,7 @@ export function useStreamingTranscription(
           setInterimTranscript("");
         } else {
           setInterimTranscript(turn.transcript);
+          interimSpanRef.current = getTurnSpan(turn);
           transcriptRef.current = { ...transcriptRef.current, interim: turn.transcript };
         }
       });
@@ -403,6 +466,7 @@ export function useStreamingTranscription(
       setError(null);
       setTokenStatus("ready");
     } catch (err) {
+      void stopAudioCapture();
       cleanupAudio();
       void cleanupTranscriber();
       setIsRecording(false);
@@ -414,7 +478,7 @@ export function useStreamingTranscription(
     } finally {
       setIsStarting(false);
     }
-  }, [cleanupAudio, cleanupTranscriber, fetchToken]);
+  }, [cleanupAudio, cleanupTranscriber, fetchToken, stopAudioCapture]);
 
   // ---- clearError / clearTranscript ----------------------------------------
 
@@ -424,6 +488,7 @@ export function useStreamingTranscription(
     setSegments([]);
     setInterimTranscript("");
     transcriptRef.current = { segments: [], interim: "" };
+    recordedAudioRef.current = null;
     segmentIdRef.current = 0;
     committedTurnOrdersRef.current.clear();
   }, []);
@@ -432,6 +497,8 @@ export function useStreamingTranscription(
 
   useEffect(() => {
     return () => {
+      mediaRecorderRef.current?.stop();
+      mediaRecorderRef.current = null;
       cleanupAudio();
       void cleanupTranscriber();
     };
@@ -443,6 +510,8 @@ export function useStreamingTranscription(
   return {
     startRecording,
     stopRecording,
+    getRecordedAudio,
+    getSegments,
     isRecording,
     isStarting,
     isStopping,
@@ -1,10 +1,12 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
 import { db } from "@/lib/firebase";
 import {
+  useAppointments,
+  useDocuments,
   useUserData,
   writeActionItem,
   deleteActionItem,
@@ -14,43 +16,105 @@ import {
   deleteAppointment,
   writeSessionMetadata,
   deleteSessionMetadata,
+  writeDocument,
+  deleteDocument,
+} from "@/lib/firestore";
+import type {
+  ActionItem,
+  Appointment,
+  AuditContext,
+  Document as DocumentType,
+  FirestoreResult,
+  HealthNote,
+  SessionMetadata,
 } from "@/lib/firestore";
 import {
   PAGE_ROUTES,
   navigateSchema,
-  updateActionItemSchema,
   deleteActionItemSchema,
   deleteHealthNoteSchema,
-  updateHealthNoteTypeSchema,
   deleteAppointmentSchema,
   deleteSessionSchema,
-  createActionItemSchema,
-  createHealthNoteSchema,
-  createAppointmentSchema,
-  createSessionSchema,
+  deleteDocumentSchema,
   type NavigateInput,
-  type UpdateActionItemInput,
   type DeleteActionItemInput,
   type DeleteHealthNoteInput,
-  type UpdateHealthNoteTypeInput,
   type DeleteAppointmentInput,
   type DeleteSessionInput,
-  type CreateActionItemInput,
-  type CreateHealthNoteInput,
-  type CreateAppointmentInput,
-  type CreateSessionInput,
+  type DeleteDocumentInput,
 } from "@/lib/chat-actions";
 
+/** How long a confirmed deletion can be undone. */
+export const UNDO_WINDOW_MS = 8000;
+
+/** A delete tool call held until the user confirms it, with the record it would remove. */
+export type PendingAction =
+  | { id: string; toolName: "delete_action_item"; record: ActionItem }
+  | { id: string; toolName: "delete_health_note"; record: HealthNote }
+  | { id: string; toolName: "delete_appointment"; record: Appointment }
+  | { id: string; toolName: "delete_session"; record: SessionMetadata }
+  | { id: string; toolName: "delete_document"; record: DocumentType };
+
+function deleteRecord(uid: string, action: PendingAction, audit: AuditContext): Promise<FirestoreResult<void>> {
+  switch (action.toolName) {
+    case "delete_action_item":
+      return deleteActionItem(db, uid, action.record.id, audit);
+    case "delete_health_note":
+      return deleteHealthNote(db, uid, action.record.id, audit);
+    case "delete_appointment":
+      return deleteAppointment(db, uid, action.record.id, audit);
+    case "delete_session":
+      return deleteSessionMetadata(db, uid, action.record.id, audit);
+    case "delete_document":
+      return deleteDocument(db, uid, action.record.id, audit);
+  }
+}
+
+function restoreRecord(uid: string, action: PendingAction, audit: AuditContext): Promise<FirestoreResult<unknown>> {
+  switch (action.toolName) {
+    case "delete_action_item":
+      return writeActionItem(db, uid, action.record, audit);
+    case "delete_health_note":
+      return writeHealthNote(db, uid, action.record, audit);
+    case "delete_appointment":
+      return writeAppointment(db, uid, action.record, audit);
+    case "delete_session":
+      return writeSessionMetadata(db, uid, action.record, audit);
+    case "delete_document":
+      return writeDocument(db, uid, action.record, audit);
+  }
+}
+
 interface UseToolExecutorOptions {
   onOpenHealthNoteRecorder?: () => void;
+  /** Who confirmed deletions are attributed to in the audit log (default: the chat assistant). */
+  actor?: "chat_assistant" | "voice_command";
 }
 
+/**
+ * Applies the client-side effects of assistant tool calls: navigation, opening
+ * the health-note recorder, and holding deletes for confirmation. Data changes
+ * already ran on the server (lib/assistant-tools.ts), so callers pass only calls
+ * whose result succeeded (isToolResultOk).
+ */
 export function useToolExecutor(options?: UseToolExecutorOptions) {
   const { user } = useAuth();
   const userData = useUserData();
+  const { appointments } = useAppointments();
+  const { documents } = useDocuments();
   const router = useRouter();
   const uid = user?.uid ?? null;
   const onOpenHealthNoteRecorder = options?.onOpenHealthNoteRecorder;
+  const actor = options?.actor ?? "chat_assistant";
+  const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
+  const [deletedAction, setDeletedAction] = useState<PendingAction | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const queuePendingAction = useCallback((action: PendingAction) => {
+    setPendingActions((prev) =>
+      prev.some((p) => p.toolName === action.toolName && p.record.id === action.record.id) ? prev : [...prev, action],
+    );
+  }, []);
 
   const executeToolCall = useCallback(
     async (toolName: string, input: unknown) => {
@@ -76,20 +140,6 @@ export function useToolExecutor(options?: UseToolExecutorOptions) {
           break;
         }
 
-        case "update_action_item": {
-          const parsed = updateActionItemSchema.safeParse(input);
-          if (!parsed.success) {
-            invalidArgs("update_action_item", parsed.error.issues.map((issue) => issue.message));
-            break;
-          }
-          const { id, ...fields } = parsed.data as UpdateActionItemInput;
-          const item = userData.actionItems.find((a) => a.id === id);
-          if (item) {
-            await writeActionItem(db, uid, { ...item, ...fields });
-          }
-          break;
-        }
-
         case "delete_action_item": {
           const parsed = deleteActionItemSchema.safeParse(input);
           if (!parsed.success) {
@@ -97,7 +147,10 @@ export function useToolExecutor(options?: UseToolExecutorOptions) {
             break;
           }
           const { id } = parsed.data as DeleteActionItemInput;
-          await deleteActionItem(db, uid, id);
+          const item = userData.actionItems.find((a) => a.id === id);
+          if (item) {
+            queuePendingAction({ id: crypto.randomUUID(), toolName: "delete_action_item", record: item });
+          }
           break;
         }
 
@@ -108,20 +161,9 @@ export function useToolExecutor(options?: UseToolExecutorOptions) {
             break;
           }
           const { id } = parsed.data as DeleteHealthNoteInput;
-          await deleteHealthNote(db, uid, id);
-          break;
-        }
-
-        case "update_health_note_type": {
-          const parsed = updateHealthNoteTypeSchema.safeParse(input);
-          if (!parsed.success) {
-            invalidArgs("update_health_note_type", parsed.error.issues.map((issue) => issue.message));
-            break;
-          }
-          const { id, type } = parsed.data as UpdateHealthNoteTypeInput;
           const note = userData.healthNotes.find((n) => n.id === id);
           if (note) {
-            await writeHealthNote(db, uid, { ...note, type });
+            queuePendingAction({ id: crypto.randomUUID(), toolName: "delete_health_note", record: note });
           }
           break;
         }
@@ -133,7 +175,10 @@ export function useToolExecutor(options?: UseToolExecutorOptions) {
             break;
           }
           const { id } = parsed.data as DeleteAppointmentInput;
-          await deleteAppointment(db, uid, id);
+          const appointment = appointments.find((a) => a.id === id);
+          if (appointment) {
+            queuePendingAction({ id: crypto.randomUUID(), toolName: "delete_appointment", record: appointment });
+          }
           break;
         }
 
@@ -144,95 +189,94 @@ export function useToolExecutor(options?: UseToolExecutorOptions) {
             break;
           }
           const { id } = parsed.data as DeleteSessionInput;
-          await deleteSessionMetadata(db, uid, id);
-          break;
-        }
-
-        case "open_health_note_recorder": {
-          onOpenHealthNoteRecorder?.();
-          break;
-        }
-
-        case "create_action_item": {
-          const parsed = createActionItemSchema.safeParse(input);
-          if (!parsed.success) {
-            invalidArgs("create_action_item", parsed.error.issues.map((issue) => issue.message));
-            break;
+          const session = userData.sessionMetadata.find((m) => m.id === id);
+          if (session) {
+            queuePendingAction({ id: crypto.randomUUID(), toolName: "delete_session", record: session });
           }
-          const { title, description, type, priority, dueBy } = parsed.data as CreateActionItemInput;
-          const id = crypto.randomUUID();
-          await writeActionItem(db, uid, {
-            id,
-            title,
-            description: description ?? title,
-            type: type ?? "Other",
-            priority: priority ?? "medium",
-            status: "pending",
-            recurrence: "none",
-            dueBy: dueBy ? new Date(dueBy) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-          });
           break;
         }
 
-        case "create_health_note": {
-          const parsed = createHealthNoteSchema.safeParse(input);
+        case "delete_document": {
+          const parsed = deleteDocumentSchema.safeParse(input);
           if (!parsed.success) {
-            invalidArgs("create_health_note", parsed.error.issues.map((issue) => issue.message));
+            invalidArgs("delete_document", parsed.error.issues.map((issue) => issue.message));
             break;
           }
-          const { title, description, type } = parsed.data as CreateHealthNoteInput;
-          const id = crypto.randomUUID();
-          const now = new Date();
-          await writeHealthNote(db, uid, {
-            id,
-            title,
-            description,
-            type: type ?? "Temporary pain",
-            date: now,
-            startedAt: now,
-            endedAt: now,
-          });
-          break;
-        }
-
-        case "create_appointment": {
-          const parsed = createAppointmentSchema.safeParse(input);
-          if (!parsed.success) {
-            invalidArgs("create_appointment", parsed.error.issues.map((issue) => issue.message));
-            break;
+          const { id } = parsed.data as DeleteDocumentInput;
+          const document = documents.find((d) => d.id === id);
+          if (document) {
+            queuePendingAction({ id: crypto.randomUUID(), toolName: "delete_document", record: document });
           }
-          const { appointmentTime } = parsed.data as CreateAppointmentInput;
-          const id = crypto.randomUUID();
-          await writeAppointment(db, uid, {
-            id,
-            appointmentTime: new Date(appointmentTime),
-            scheduledOn: new Date(),
-          });
           break;
         }
 
-        case "create_session": {
-          const parsed = createSessionSchema.safeParse(input);
-          if (!parsed.success) {
-            invalidArgs("create_session", parsed.error.issues.map((issue) => issue.message));
-            break;
-          }
-          const { title, summary, date } = parsed.data as CreateSessionInput;
-          const id = crypto.randomUUID();
-          await writeSessionMetadata(db, uid, {
-            id,
-            title,
-            summary: summary ?? "",
-            date: date ? new Date(date) : new Date(),
-            actionItemIds: [],
-            documentIds: [],
-          });
+        case "open_health_note_recorder": {
+          onOpenHealthNoteRecorder?.();
           break;
         }
       }
     },
-    [uid, userData.actionItems, userData.healthNotes, router, onOpenHealthNoteRecorder],
+    [
+      uid,
+      userData.actionItems,
+      userData.healthNotes,
+      userData.sessionMetadata,
+      appointments,
+      documents,
+      router,
+      onOpenHealthNoteRecorder,
+      queuePendingAction,
+    ],
   );
 
-  return { executeToolCall };
+  /** Deletes a pending record and keeps it around for UNDO_WINDOW_MS so it can be restored. */
+  const confirmPendingAction = useCallback(
+    async (pendingId: string) => {
+      const action = pendingActions.find((p) => p.id === pendingId);
+      if (!uid || !action) return;
+      setPendingActions((prev) => prev.filter((p) => p.id !== pendingId));
+      const result = await deleteRecord(uid, action, { actor, reason: action.toolName });
+      if (!result.ok) {
+        console.error(`[ToolExecutor] ${action.toolName} failed:`, result.error);
+        return;
+      }
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      setDeletedAction(action);
+      undoTimerRef.current = setTimeout(() => setDeletedAction(null), UNDO_WINDOW_MS);
+    },
+    [uid, actor, pendingActions],
+  );
+
+  const cancelPendingAction = useCallback((pendingId: string) => {
+    setPendingActions((prev) => prev.filter((p) => p.id !== pendingId));
+  }, []);
+
+  const cancelAllPendingActions = useCallback(() => setPendingActions([]), []);
+
+  /** Writes the most recently deleted record back, attributed to the user. */
+  const undoDeletedAction = useCallback(async () => {
+    if (!uid || !deletedAction) return;
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setDeletedAction(null);
+    const result = await restoreRecord(uid, deletedAction, { actor: "user", reason: "undo" });
+    if (!result.ok) {
+      console.error(`[ToolExecutor] Undo of ${deletedAction.toolName} failed:`, result.error);
+    }
+  }, [uid, deletedAction]);
+
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    };
+  }, []);
+
+  return {
+    executeToolCall,
+    pendingActions,
+    confirmPendingAction,
+    cancelPendingAction,
+    cancelAllPendingActions,
+    deletedAction,
+    undoDeletedAction,
+  };
 }
@@ -3,7 +3,8 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
-import { useUserMetadata } from "@/lib/firestore";
+import { db } from "@/lib/firebase";
+import { useUserMetadata, writeCareTeamMember } from "@/lib/firestore";
 import { useI18n } from "@/app/components/I18nProvider";
 import { DEFAULT_LANGUAGE_TAG } from "@/lib/i18n/locales";
 import { OnboardingFormData } from "./types";
@@ -21,6 +22,8 @@ export default function Onboarding() {
   const router = useRouter();
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  /** Fixed per visit so retrying a failed finish doesn't add the provider twice. */
+  const [providerId] = useState(() => crypto.randomUUID());
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -37,18 +40,34 @@ export default function Onboarding() {
     firstName: "",
     lastName: "",
     language: DEFAULT_LANGUAGE_TAG,
+    providerName: "",
     phone: "",
   });
 
   const handleFinishOnboarding = async () => {
+    if (!user) return;
     setSaveError(null);
     setSaving(true);
+    // Saved before the profile: the profile marks the user onboarded, which leaves this page.
+    const provider = await writeCareTeamMember(db, user.uid, {
+      id: providerId,
+      name: formData.providerName.trim() || t("careTeam.primaryCare"),
+      specialty: t("careTeam.primaryCare"),
+      phone: formData.phone.trim(),
+      address: "",
+      schedulingMethod: "phone",
+      notes: "",
+    });
+    if (!provider.ok) {
+      setSaving(false);
+      setSaveError(provider.error.message);
+      return;
+    }
     const result = await saveProfile({
       firstName: formData.firstName.trim(),
       lastName: formData.lastName.trim(),
-      email: user?.email ?? undefined,
+      email: user.email ?? undefined,
       preferredLanguage: formData.language,
-      hospitalPhoneNumber: formData.phone.trim(),
     });
     setSaving(false);
     if (result.ok) {
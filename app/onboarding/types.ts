@@ -2,6 +2,8 @@ export interface OnboardingFormData {
   firstName: string;
   lastName: string;
   language: string;
+  /** Primary care doctor or clinic; becomes the first care team member. */
+  providerName: string;
   phone: string;
 }
 
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { withAuth } from "./auth";
+
+vi.mock("@/lib/firebase-admin", () => {
+  const verifyIdToken = vi.fn();
+  return { getAdminAuth: () => ({ verifyIdToken }) };
+});
+
+const verifyIdToken = vi.mocked(getAdminAuth().verifyIdToken);
+
+function authError(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+const handler = withAuth(async (_request, { uid }) => Response.json({ uid }));
+const request = () => new Request("https://app.example.com/api/x", { headers: { Authorization: "Bearer token" } });
+
+describe("withAuth", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("checks the token for revocation and passes the uid on", async () => {
+    verifyIdToken.mockResolvedValue({ uid: "user-1" } as never);
+
+    const res = await handler(request());
+
+    expect(verifyIdToken).toHaveBeenCalledWith("token", true);
+    expect(await res.json()).toEqual({ uid: "user-1" });
+  });
+
+  it("rejects a revoked token with 401", async () => {
+    verifyIdToken.mockRejectedValue(authError("auth/id-token-revoked"));
+
+    expect((await handler(request())).status).toBe(401);
+  });
+
+  it("rejects a request without a token without verifying anything", async () => {
+    const res = await handler(new Request("https://app.example.com/api/x"));
+
+    expect(res.status).toBe(401);
+    expect(verifyIdToken).not.toHaveBeenCalled();
+  });
+
+  it("answers 503 when the revocation check itself fails", async () => {
+    verifyIdToken.mockRejectedValue(new Error("socket hang up"));
+
+    expect((await handler(request())).status).toBe(503);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Server-side request authentication for API routes.
+ *
+ * Every route under app/api is wrapped in `withAuth`, which verifies the
+ * Firebase ID token sent as `Authorization: Bearer <idToken>` and hands the
+ * caller's uid to the handler. Unauthenticated requests get a 401 before the
+ * handler runs, so no LLM / AssemblyAI / Vapi spend happens for them. Routes
+ * called by other systems authenticate them instead: the Vapi webhook and the
+ * reminder cron with shared secrets, calendar feeds with their feed token.
+ */
+
+import { NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+
+export interface AuthContext {
+  /** Firebase uid of the verified caller. */
+  uid: string;
+}
+
+export type AuthedHandler = (request: Request, auth: AuthContext) => Promise<Response>;
+
+/** Extracts the bearer token from the Authorization header, or null if absent. */
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  if (!header) return null;
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Verifies the request's ID token and returns the caller's auth context.
+ * Returns null when the token is missing, malformed, expired or revoked (e.g.
+ * after sign-out everywhere or a disabled account). Throws if the revocation
+ * check itself fails, so an auth outage isn't reported as a bad token.
+ */
+export async function verifyRequest(request: Request): Promise<AuthContext | null> {
+  const token = getBearerToken(request);
+  if (!token) return null;
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(token, true);
+    return { uid: decoded.uid };
+  } catch (err) {
+    const code = (err as { code?: unknown } | null)?.code;
+    if (typeof code !== "string" || !code.startsWith("auth/")) throw err;
+    console.warn(`[auth] ID token rejected (${code}):`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/** Wraps a route handler so it only runs for callers with a valid ID token. */
+export function withAuth(handler: AuthedHandler): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    let auth: AuthContext | null;
+    try {
+      auth = await verifyRequest(request);
+    } catch (err) {
+      console.error("[auth] ID token verification failed:", err instanceof Error ? err.message : err);
+      return NextResponse.json({ error: "Could not verify credentials" }, { status: 503 });
+    }
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return handler(request, auth);
+  };
+}
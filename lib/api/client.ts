@@ -0,0 +1,25 @@
+/**
+ * Client-side helpers for calling our own API routes.
+ * Attaches the signed-in user's Firebase ID token so `withAuth` (lib/api/auth.ts)
+ * can verify the caller.
+ */
+
+import { auth } from "@/lib/firebase";
+
+/** Authorization header for the current user, or an empty object when signed out. */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const user = auth?.currentUser;
+  if (!user) return {};
+  const token = await user.getIdToken();
+  return { Authorization: `Bearer ${token}` };
+}
+
+/** `fetch` wrapper that adds the current user's ID token to the request headers. */
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const authHeaders = await getAuthHeaders();
+  for (const [key, value] of Object.entries(authHeaders)) {
+    headers.set(key, value);
+  }
+  return fetch(input, { ...init, headers });
+}
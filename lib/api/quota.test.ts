@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkLLMQuota, type LLMQuota, type LLMUsageTotals } from "@/lib/llm";
+import { enforceLLMQuota } from "./quota";
+
+vi.mock("@/lib/llm", () => ({ checkLLMQuota: vi.fn() }));
+
+const month: LLMUsageTotals = { calls: 12, inputTokens: 9000, outputTokens: 1000, totalTokens: 10_000, costUsd: 5 };
+const quota: LLMQuota = { monthlyUsd: 5, monthlyTokens: null };
+
+describe("enforceLLMQuota", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lets the request through while the user has quota left", async () => {
+    vi.mocked(checkLLMQuota).mockResolvedValue({ ok: true, month, quota });
+
+    expect(await enforceLLMQuota("user-1")).toBeNull();
+  });
+
+  it("answers 429 with the usage and quota once the quota is used up", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const reason = "Monthly AI usage limit of $5.00 reached.";
+    vi.mocked(checkLLMQuota).mockResolvedValue({ ok: false, month, quota, reason });
+
+    const res = await enforceLLMQuota("user-1");
+
+    expect(res?.status).toBe(429);
+    expect(await res?.json()).toEqual({
+      error: `${reason} AI features are paused until next month.`,
+      code: "quota_exceeded",
+      usage: month,
+      quota,
+    });
+  });
+});
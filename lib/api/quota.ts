@@ -0,0 +1,27 @@
+/**
+ * Monthly LLM quota enforcement for API routes.
+ * See lib/llm/usage.ts for where quotas and usage totals come from.
+ */
+
+import { NextResponse } from "next/server";
+import { checkLLMQuota } from "@/lib/llm";
+
+/**
+ * Returns a 429 response when the user has used up their monthly LLM quota,
+ * or null when the request may proceed.
+ */
+export async function enforceLLMQuota(uid: string): Promise<Response | null> {
+  const check = await checkLLMQuota(uid);
+  if (check.ok) return null;
+
+  console.warn(`[quota] User ${uid} over monthly LLM quota: ${check.reason}`);
+  return NextResponse.json(
+    {
+      error: `${check.reason} AI features are paused until next month.`,
+      code: "quota_exceeded",
+      usage: check.month,
+      quota: check.quota,
+    },
+    { status: 429 },
+  );
+}
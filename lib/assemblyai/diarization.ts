@@ -0,0 +1,29 @@
+import { AssemblyAI } from "assemblyai";
+import type { SpeakerTurn } from "@/lib/speaker-transcript";
+
+/**
+ * Transcribes a recorded visit with speaker labels (pre-recorded API, not
+ * streaming). AssemblyAI fetches the recording from `audioUrl` itself. Waits
+ * for the transcript to complete; throws if AssemblyAI reports an error.
+ * @see https://www.assemblyai.com/docs/speech-to-text/speaker-diarization
+ */
+export async function diarizeAudio(apiKey: string, audioUrl: string): Promise<SpeakerTurn[]> {
+  const client = new AssemblyAI({ apiKey });
+  const transcript = await client.transcripts.transcribe({
+    audio: audioUrl,
+    speaker_labels: true,
+    // Visits are recorded in the user's language, which may not be English.
+    language_detection: true,
+  });
+
+  if (transcript.status === "error") {
+    throw new Error(transcript.error ?? "Diarization failed");
+  }
+
+  return (transcript.utterances ?? []).map(({ speaker, text, start, end }) => ({
+    speaker,
+    text,
+    start,
+    end,
+  }));
+}
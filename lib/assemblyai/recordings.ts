@@ -0,0 +1,76 @@
+/**
+ * Recorded visits on their way to diarization – backed by Cloud Storage (via
+ * Admin SDK). Vercel caps request bodies at about 4.5 MB, so the browser
+ * uploads the recording straight to the bucket with a signed URL, and
+ * AssemblyAI fetches it from there with another one.
+ *
+ * Storage object: _recordings/{userId}/{recordingId}
+ * Deleted once diarized. Not accessible from the client except through the
+ * signed upload URL; give the bucket a lifecycle rule to remove recordings
+ * whose diarization never ran (see README).
+ */
+
+import { randomUUID } from "crypto";
+import { getAdminBucket } from "@/lib/firebase-admin";
+
+const RECORDINGS_PREFIX = "_recordings";
+
+/** Upper bound on uploaded recordings (~3 hours of compressed speech). */
+export const MAX_RECORDING_BYTES = 100 * 1024 * 1024;
+
+/** How long the browser has to start the upload. */
+const UPLOAD_URL_MINUTES = 15;
+
+/** How long AssemblyAI has to fetch the recording; it is queued before it is fetched. */
+const DOWNLOAD_URL_MINUTES = 60;
+
+const RECORDING_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type RecordingUpload = {
+  recordingId: string;
+  uploadUrl: string;
+  /** Headers the PUT to uploadUrl must send exactly as given; they are part of the signature. */
+  uploadHeaders: Record<string, string>;
+};
+
+function recordingFile(userId: string, recordingId: string) {
+  return getAdminBucket().file(`${RECORDINGS_PREFIX}/${userId}/${recordingId}`);
+}
+
+/** Whether the value is a recording id as handed out by createRecordingUpload. */
+export function isRecordingId(value: unknown): value is string {
+  return typeof value === "string" && RECORDING_ID_PATTERN.test(value);
+}
+
+/** A new recording slot and a signed URL to PUT the audio to; larger uploads are refused by Storage. */
+export async function createRecordingUpload(userId: string, contentType: string): Promise<RecordingUpload> {
+  const recordingId = randomUUID();
+  const uploadHeaders = { "Content-Type": contentType };
+  const lengthRange = { "x-goog-content-length-range": `0,${MAX_RECORDING_BYTES}` };
+  const [uploadUrl] = await recordingFile(userId, recordingId).getSignedUrl({
+    version: "v4",
+    action: "write",
+    expires: Date.now() + UPLOAD_URL_MINUTES * 60_000,
+    contentType,
+    extensionHeaders: lengthRange,
+  });
+  return { recordingId, uploadUrl, uploadHeaders: { ...uploadHeaders, ...lengthRange } };
+}
+
+/** A signed URL AssemblyAI can fetch the recording from, or null if it was never uploaded. */
+export async function getRecordingDownloadUrl(userId: string, recordingId: string): Promise<string | null> {
+  const file = recordingFile(userId, recordingId);
+  const [exists] = await file.exists();
+  if (!exists) return null;
+  const [url] = await file.getSignedUrl({
+    version: "v4",
+    action: "read",
+    expires: Date.now() + DOWNLOAD_URL_MINUTES * 60_000,
+  });
+  return url;
+}
+
+/** Removes the recording; a missing one is fine. */
+export async function deleteRecording(userId: string, recordingId: string): Promise<void> {
+  await recordingFile(userId, recordingId).delete({ ignoreNotFound: true });
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readUserSubcollectionDocAdmin, writeUserSubcollectionDocAdmin } from "@/lib/firestore/admin";
+import { createAssistantTools } from "./assistant-tools";
+import type { ActionItem } from "./firestore/types";
+
+vi.mock("@/lib/firestore/admin", () => ({
+  readUserSubcollectionDocAdmin: vi.fn(),
+  recordMedicationDoseAdmin: vi.fn(),
+  writeUserSubcollectionDocAdmin: vi.fn(),
+}));
+
+const stretches: ActionItem = {
+  id: "item-1",
+  userId: "user-1",
+  dueBy: new Date("2026-01-05T17:00:00Z"), // 09:00 in Los Angeles
+  type: "Exercise",
+  title: "Morning stretches",
+  description: "",
+  status: "pending",
+  priority: "medium",
+  recurrence: "daily",
+  recurrenceRule: { frequency: "daily", interval: 1 },
+};
+
+const toolOptions = { toolCallId: "call-1", messages: [] };
+
+describe("update_action_item", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(readUserSubcollectionDocAdmin).mockResolvedValue(stretches);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("marks today's occurrence of a recurring item done", async () => {
+    vi.setSystemTime(new Date("2026-01-11T06:00:00Z")); // Jan 10, 22:00 in Los Angeles
+    const tools = createAssistantTools({ uid: "user-1", actor: "chat_assistant", timeZone: "America/Los_Angeles" });
+
+    const result = await tools.update_action_item.execute!({ id: "item-1", status: "done" }, toolOptions);
+
+    expect(result).toMatchObject({ ok: true, id: "item-1" });
+    const written = vi.mocked(writeUserSubcollectionDocAdmin).mock.calls[0][2] as ActionItem;
+    expect(written.status).toBe("pending");
+    expect(written.occurrenceHistory).toEqual({
+      "2026-01-10": { status: "done", recordedAt: new Date("2026-01-11T06:00:00Z") },
+    });
+  });
+
+  it("refuses other statuses for a recurring item", async () => {
+    const tools = createAssistantTools({ uid: "user-1", actor: "chat_assistant" });
+
+    const result = await tools.update_action_item.execute!({ id: "item-1", status: "in_progress" }, toolOptions);
+
+    expect(result).toMatchObject({ ok: false });
+    expect(writeUserSubcollectionDocAdmin).not.toHaveBeenCalled();
+  });
+});
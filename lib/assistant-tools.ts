@@ -17,83 +17,412 @@ import {
   createHealthNoteSchema,
   createAppointmentSchema,
   createSessionSchema,
+  logMedicationDoseSchema,
+  deleteDocumentSchema,
+  attachDocumentToSessionSchema,
+  detachDocumentFromSessionSchema,
+  linkActionItemToSessionSchema,
+  citeSourcesSchema,
+  citationKey,
+  type AssistantToolResult,
+  type ChatToolName,
+  type Citation,
+  type CiteSourcesResult,
 } from "@/lib/chat-actions";
+import {
+  readUserSubcollectionDocAdmin,
+  recordMedicationDoseAdmin,
+  writeUserSubcollectionDocAdmin,
+} from "@/lib/firestore/admin";
+import {
+  snapshotToActionItem,
+  snapshotToAppointment,
+  snapshotToDocument,
+  snapshotToHealthNote,
+  snapshotToSessionMetadata,
+} from "@/lib/firestore/mappers";
+import { getScheduledDose, isMedicationItem } from "@/lib/firestore/medications";
+import { isRecurring, withOccurrenceStatus } from "@/lib/firestore/recurrence";
+import type { ActionItem, Appointment, AuditContext, HealthNote, SessionMetadata } from "@/lib/firestore/types";
+
+type AssistantToolsOptions = {
+  /** Verified user whose data the tools read and change. */
+  uid: string;
+  /** Who changes are attributed to in the audit log. */
+  actor: "chat_assistant" | "voice_command";
+  /** The user's IANA time zone; picks which day's dose or occurrence a change applies to. */
+  timeZone?: string;
+};
+
+const DEFAULT_ACTION_ITEM_DUE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Documents have no title; the start of the summary identifies them to the model. */
+const DOCUMENT_LABEL_LENGTH = 60;
+
+function notFound(kind: string, id: string): AssistantToolResult {
+  return { ok: false, error: `No ${kind} with ID ${id} exists. Use an ID from the context.` };
+}
+
+function documentLabel(summary: string): string {
+  const firstLine = summary.trim().split(/\n/)[0] ?? "";
+  return firstLine.length > DOCUMENT_LABEL_LENGTH ? `${firstLine.slice(0, DOCUMENT_LABEL_LENGTH)}…` : firstLine;
+}
 
 /**
- * Returns the full set of assistant tools with server-side execute functions.
- * The execute functions return acknowledgment strings; actual side-effects
- * (navigation, Firestore mutations) happen client-side via useToolExecutor.
+ * Runs a tool body, turning unexpected errors (e.g. Firestore failures) into a
+ * failed result so the model can tell the user instead of claiming success.
  */
-export function createAssistantTools() {
+async function run(toolName: ChatToolName, body: () => Promise<AssistantToolResult>): Promise<AssistantToolResult> {
+  try {
+    return await body();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[assistant-tools] ${toolName} failed:`, message);
+    return { ok: false, error: `The change could not be saved: ${message}` };
+  }
+}
+
+/**
+ * Returns the full set of assistant tools. Data changes run here with the Admin
+ * SDK against the verified user, so each result reports what actually happened
+ * (including "not found"). The client applies only navigation, the health-note
+ * recorder, and deletes, which wait for the user's confirmation (useToolExecutor).
+ */
+export function createAssistantTools({ uid, actor, timeZone }: AssistantToolsOptions) {
+  const audit = (toolName: ChatToolName): AuditContext => ({ actor, reason: toolName });
+
   return {
     navigate: tool({
       description:
         "Open an app page when the user asks to go/show/open a section. Use highlightId only when you already have a concrete item ID from context.",
       inputSchema: navigateSchema,
-      execute: async ({ page }) => `Navigated to ${page}.`,
+      execute: async ({ page }): Promise<AssistantToolResult> => ({ ok: true, message: `Opening ${page}.` }),
     }),
     update_action_item: tool({
       description:
         "Update one action item by ID (status/priority/type). Use only when the user clearly asked to modify an action item.",
       inputSchema: updateActionItemSchema,
-      execute: async ({ id, ...fields }) =>
-        `Updated action item ${id}: ${Object.entries(fields).map(([k, v]) => `${k}=${v}`).join(", ")}.`,
+      execute: ({ id, ...fields }) =>
+        run("update_action_item", async () => {
+          const item = await readUserSubcollectionDocAdmin(uid, "actionItems", id, snapshotToActionItem);
+          if (!item) return notFound("action item", id);
+          const { status, ...otherFields } = fields;
+          const changes = Object.entries(fields).map(([k, v]) => `${k}=${v}`).join(", ");
+          if (!status || !isRecurring(item)) {
+            await writeUserSubcollectionDocAdmin(uid, "actionItems", { ...item, ...fields }, audit("update_action_item"));
+            return { ok: true, message: `Updated action item "${item.title}": ${changes}.`, id };
+          }
+          // A recurring item's own status is ignored; done/skipped apply to the current occurrence.
+          if (status !== "done" && status !== "skipped") {
+            return {
+              ok: false,
+              error: `Action item "${item.title}" repeats, so only its current occurrence can be marked done or skipped.`,
+            };
+          }
+          const updated: ActionItem = { ...item, ...otherFields };
+          let key: string;
+          if (isMedicationItem(updated)) {
+            // Medication occurrences also go to the dose log, as in the app.
+            const log = await recordMedicationDoseAdmin(
+              uid,
+              updated,
+              status === "done" ? "taken" : "missed",
+              new Date(),
+              audit("update_action_item"),
+              timeZone,
+            );
+            key = log.occurrenceKey;
+          } else {
+            key = getScheduledDose(updated, new Date(), timeZone).occurrenceKey;
+            await writeUserSubcollectionDocAdmin(
+              uid,
+              "actionItems",
+              withOccurrenceStatus(updated, key, status),
+              audit("update_action_item"),
+            );
+          }
+          return { ok: true, message: `Updated the ${key} occurrence of action item "${item.title}": ${changes}.`, id };
+        }),
     }),
     delete_action_item: tool({
-      description: "Permanently delete one action item by ID. Use only for explicit delete/remove intent.",
+      description:
+        "Delete one action item by ID once the user confirms in the app. Use only for explicit delete/remove intent.",
       inputSchema: deleteActionItemSchema,
-      execute: async ({ id }) => `Deleted action item ${id}.`,
+      execute: ({ id }) =>
+        run("delete_action_item", async () => {
+          const item = await readUserSubcollectionDocAdmin(uid, "actionItems", id, snapshotToActionItem);
+          if (!item) return notFound("action item", id);
+          return { ok: true, message: `Asked the user to confirm deleting action item "${item.title}".`, id };
+        }),
     }),
     delete_health_note: tool({
-      description: "Permanently delete one health note by ID. Use only for explicit delete/remove intent.",
+      description:
+        "Delete one health note by ID once the user confirms in the app. Use only for explicit delete/remove intent.",
       inputSchema: deleteHealthNoteSchema,
-      execute: async ({ id }) => `Deleted health note ${id}.`,
+      execute: ({ id }) =>
+        run("delete_health_note", async () => {
+          const note = await readUserSubcollectionDocAdmin(uid, "healthNotes", id, snapshotToHealthNote);
+          if (!note) return notFound("health note", id);
+          return { ok: true, message: `Asked the user to confirm deleting health note "${note.title}".`, id };
+        }),
     }),
     update_health_note_type: tool({
       description: "Change one health note type by ID to Injury, Recurring pain, or Temporary pain.",
       inputSchema: updateHealthNoteTypeSchema,
-      execute: async ({ id, type }) =>
-        `Updated health note ${id} type to ${type}.`,
+      execute: ({ id, type }) =>
+        run("update_health_note_type", async () => {
+          const note = await readUserSubcollectionDocAdmin(uid, "healthNotes", id, snapshotToHealthNote);
+          if (!note) return notFound("health note", id);
+          await writeUserSubcollectionDocAdmin(uid, "healthNotes", { ...note, type }, audit("update_health_note_type"));
+          return { ok: true, message: `Changed health note "${note.title}" to ${type}.`, id };
+        }),
     }),
     delete_appointment: tool({
-      description: "Permanently delete one appointment by ID. Use for explicit cancel/remove intent.",
+      description:
+        "Delete one appointment by ID once the user confirms in the app. Use for explicit cancel/remove intent.",
       inputSchema: deleteAppointmentSchema,
-      execute: async ({ id }) => `Deleted appointment ${id}.`,
+      execute: ({ id }) =>
+        run("delete_appointment", async () => {
+          const appointment = await readUserSubcollectionDocAdmin(uid, "appointments", id, snapshotToAppointment);
+          if (!appointment) return notFound("appointment", id);
+          const when = appointment.appointmentTime.toISOString();
+          return { ok: true, message: `Asked the user to confirm deleting the appointment at ${when}.`, id };
+        }),
     }),
     delete_session: tool({
-      description: "Permanently delete one past session record by ID.",
+      description: "Delete one past session record by ID once the user confirms in the app.",
       inputSchema: deleteSessionSchema,
-      execute: async ({ id }) => `Deleted session ${id}.`,
+      execute: ({ id }) =>
+        run("delete_session", async () => {
+          const session = await readUserSubcollectionDocAdmin(uid, "sessionMetadata", id, snapshotToSessionMetadata);
+          if (!session) return notFound("past session", id);
+          return { ok: true, message: `Asked the user to confirm deleting past session "${session.title}".`, id };
+        }),
     }),
     open_health_note_recorder: tool({
       description:
         "Open the voice health-note recording modal so the user can dictate a new health note.",
       inputSchema: z.object({}),
-      execute: async () => "Opened health note recorder.",
+      execute: async (): Promise<AssistantToolResult> => ({ ok: true, message: "Opening the health note recorder." }),
     }),
     create_action_item: tool({
       description:
         "Create a new action item when the user asks to add/create a task or reminder.",
       inputSchema: createActionItemSchema,
-      execute: async ({ title }) => `Created action item: ${title}.`,
+      execute: ({ title, description, type, priority, dueBy }) =>
+        run("create_action_item", async () => {
+          const item: Omit<ActionItem, "userId"> = {
+            id: crypto.randomUUID(),
+            title,
+            description: description ?? title,
+            type: type ?? "Other",
+            priority: priority ?? "medium",
+            status: "pending",
+            recurrence: "none",
+            dueBy: dueBy ? new Date(dueBy) : new Date(Date.now() + DEFAULT_ACTION_ITEM_DUE_MS),
+          };
+          await writeUserSubcollectionDocAdmin(uid, "actionItems", item, audit("create_action_item"));
+          return { ok: true, message: `Created action item "${title}", due ${item.dueBy.toISOString()}.`, id: item.id };
+        }),
     }),
     create_health_note: tool({
       description:
         "Create a text health note. Do not use for voice-recording requests (use open_health_note_recorder instead).",
       inputSchema: createHealthNoteSchema,
-      execute: async ({ title }) => `Created health note: ${title}.`,
+      execute: ({ title, description, type }) =>
+        run("create_health_note", async () => {
+          const now = new Date();
+          const note: Omit<HealthNote, "userId"> = {
+            id: crypto.randomUUID(),
+            title,
+            description,
+            type: type ?? "Temporary pain",
+            date: now,
+            startedAt: now,
+            endedAt: now,
+          };
+          await writeUserSubcollectionDocAdmin(uid, "healthNotes", note, audit("create_health_note"));
+          return { ok: true, message: `Created health note "${title}".`, id: note.id };
+        }),
     }),
     create_appointment: tool({
       description:
         "Create a new appointment when the user asks to add one and provides a date/time.",
       inputSchema: createAppointmentSchema,
-      execute: async ({ appointmentTime }) => `Created appointment for ${appointmentTime}.`,
+      execute: ({ appointmentTime, providerName, clinic, address, reason, status, notes }) =>
+        run("create_appointment", async () => {
+          const appointment: Omit<Appointment, "userId"> = {
+            id: crypto.randomUUID(),
+            appointmentTime: new Date(appointmentTime),
+            scheduledOn: new Date(),
+            providerName: providerName ?? "",
+            clinic: clinic ?? "",
+            address: address ?? "",
+            reason: reason ?? "",
+            status: status ?? "scheduled",
+            notes: notes ?? "",
+            agenda: [],
+          };
+          await writeUserSubcollectionDocAdmin(uid, "appointments", appointment, audit("create_appointment"));
+          return {
+            ok: true,
+            message: `Created appointment at ${appointment.appointmentTime.toISOString()}.`,
+            id: appointment.id,
+          };
+        }),
     }),
     create_session: tool({
       description:
         "Create a past session/visit record when the user asks to log a past visit.",
       inputSchema: createSessionSchema,
-      execute: async ({ title }) => `Created past session: ${title}.`,
+      execute: ({ title, summary, date }) =>
+        run("create_session", async () => {
+          const session: Omit<SessionMetadata, "userId"> = {
+            id: crypto.randomUUID(),
+            title,
+            summary: summary ?? "",
+            date: date ? new Date(date) : new Date(),
+            discussionTopics: [],
+            actionItemIds: [],
+            documentIds: [],
+          };
+          await writeUserSubcollectionDocAdmin(uid, "sessionMetadata", session, audit("create_session"));
+          return { ok: true, message: `Created past session "${title}".`, id: session.id };
+        }),
+    }),
+    log_medication_dose: tool({
+      description:
+        "Log a dose of a medication action item as taken (default) or missed, e.g. when the user says \"I took my lisinopril\".",
+      inputSchema: logMedicationDoseSchema,
+      execute: ({ id, status, takenAt }) =>
+        run("log_medication_dose", async () => {
+          const item = await readUserSubcollectionDocAdmin(uid, "actionItems", id, snapshotToActionItem);
+          if (!item) return notFound("action item", id);
+          if (!item.medication) {
+            return { ok: false, error: `Action item "${item.title}" has no medication details, so doses can't be logged for it.` };
+          }
+          const log = await recordMedicationDoseAdmin(
+            uid,
+            item,
+            status ?? "taken",
+            takenAt ? new Date(takenAt) : new Date(),
+            audit("log_medication_dose"),
+            timeZone,
+          );
+          return {
+            ok: true,
+            message: `Logged the ${item.medication.name} dose scheduled for ${log.scheduledFor.toISOString()} as ${log.status}.`,
+            id: log.id,
+          };
+        }),
+    }),
+    delete_document: tool({
+      description:
+        "Delete one uploaded/scanned document by ID once the user confirms in the app. Use only for explicit delete/remove intent.",
+      inputSchema: deleteDocumentSchema,
+      execute: ({ id }) =>
+        run("delete_document", async () => {
+          const document = await readUserSubcollectionDocAdmin(uid, "documents", id, snapshotToDocument);
+          if (!document) return notFound("document", id);
+          return {
+            ok: true,
+            message: `Asked the user to confirm deleting the document "${documentLabel(document.summary)}".`,
+            id,
+          };
+        }),
+    }),
+    attach_document_to_session: tool({
+      description: "Attach one document to one past session by their IDs, e.g. \"add my lab results to last Tuesday's visit\".",
+      inputSchema: attachDocumentToSessionSchema,
+      execute: ({ documentId, sessionId }) =>
+        run("attach_document_to_session", async () => {
+          const [document, session] = await Promise.all([
+            readUserSubcollectionDocAdmin(uid, "documents", documentId, snapshotToDocument),
+            readUserSubcollectionDocAdmin(uid, "sessionMetadata", sessionId, snapshotToSessionMetadata),
+          ]);
+          if (!document) return notFound("document", documentId);
+          if (!session) return notFound("past session", sessionId);
+          const label = documentLabel(document.summary);
+          if (session.documentIds.includes(documentId)) {
+            return { ok: true, message: `The document "${label}" was already attached to "${session.title}".`, id: sessionId };
+          }
+          await writeUserSubcollectionDocAdmin(
+            uid,
+            "sessionMetadata",
+            { ...session, documentIds: [...session.documentIds, documentId] },
+            audit("attach_document_to_session"),
+          );
+          return { ok: true, message: `Attached the document "${label}" to "${session.title}".`, id: sessionId };
+        }),
+    }),
+    detach_document_from_session: tool({
+      description: "Remove one document from one past session by their IDs. The document itself is kept.",
+      inputSchema: detachDocumentFromSessionSchema,
+      execute: ({ documentId, sessionId }) =>
+        run("detach_document_from_session", async () => {
+          const session = await readUserSubcollectionDocAdmin(uid, "sessionMetadata", sessionId, snapshotToSessionMetadata);
+          if (!session) return notFound("past session", sessionId);
+          if (!session.documentIds.includes(documentId)) {
+            return { ok: false, error: `Document ${documentId} is not attached to "${session.title}".` };
+          }
+          await writeUserSubcollectionDocAdmin(
+            uid,
+            "sessionMetadata",
+            { ...session, documentIds: session.documentIds.filter((id) => id !== documentId) },
+            audit("detach_document_from_session"),
+          );
+          return { ok: true, message: `Removed document ${documentId} from "${session.title}".`, id: sessionId };
+        }),
+    }),
+    link_action_item_to_session: tool({
+      description: "Link one action item to one past session by their IDs, e.g. when it came out of that visit.",
+      inputSchema: linkActionItemToSessionSchema,
+      execute: ({ actionItemId, sessionId }) =>
+        run("link_action_item_to_session", async () => {
+          const [item, session] = await Promise.all([
+            readUserSubcollectionDocAdmin(uid, "actionItems", actionItemId, snapshotToActionItem),
+            readUserSubcollectionDocAdmin(uid, "sessionMetadata", sessionId, snapshotToSessionMetadata),
+          ]);
+          if (!item) return notFound("action item", actionItemId);
+          if (!session) return notFound("past session", sessionId);
+          if (session.actionItemIds.includes(actionItemId)) {
+            return { ok: true, message: `"${item.title}" was already linked to "${session.title}".`, id: sessionId };
+          }
+          await writeUserSubcollectionDocAdmin(
+            uid,
+            "sessionMetadata",
+            { ...session, actionItemIds: [...session.actionItemIds, actionItemId] },
+            audit("link_action_item_to_session"),
+          );
+          return { ok: true, message: `Linked "${item.title}" to "${session.title}".`, id: sessionId };
+        }),
     }),
   };
 }
+
+/**
+ * The chat-only cite_sources tool. `available` is every record the model was
+ * shown; citations of anything else (invented or out-of-context IDs) are
+ * rejected, so the sources the user sees always exist in what the answer used.
+ */
+export function createCiteSourcesTool(available: readonly Citation[]) {
+  const known = new Set(available.map(citationKey));
+
+  return tool({
+    description:
+      "Cite the records from the context that your answer is based on (type and ID), so the user can open them. Call it once per answer that uses specific records.",
+    inputSchema: citeSourcesSchema,
+    execute: async ({ sources }): Promise<CiteSourcesResult> => {
+      const citations = sources.filter((source) => known.has(citationKey(source)));
+      const rejected = sources.filter((source) => !known.has(citationKey(source)));
+      if (citations.length === 0) {
+        return {
+          ok: false,
+          error: `None of these records are in the context: ${rejected.map(citationKey).join(", ")}. Cite only IDs from the context.`,
+        };
+      }
+      const ignored = rejected.length > 0 ? ` Ignored records not in the context: ${rejected.map(citationKey).join(", ")}.` : "";
+      return { ok: true, message: `Cited ${citations.length} record(s).${ignored}`, citations };
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { deleteEvent, getCalendarName, getEvent, putEvent, type CalDavCredentials } from "./client";
+
+const credentials: CalDavCredentials = {
+  calendarUrl: "https://dav.example.com/alice/health/",
+  username: "alice",
+  password: "secret",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("CalDAV requests", () => {
+  it("does not follow redirects", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 301, headers: { Location: "http://10.0.0.1/" } }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(getCalendarName(credentials)).rejects.toThrow("redirected PROPFIND");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(credentials.calendarUrl, expect.objectContaining({ redirect: "manual" }));
+  });
+
+  it("refuses event hrefs on another origin", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const href = "https://attacker.example/steal.ics";
+    await expect(getEvent(credentials, href)).rejects.toThrow("another host");
+    await expect(putEvent(credentials, href, "BEGIN:VCALENDAR", "overwrite")).rejects.toThrow("another host");
+    await expect(deleteEvent(credentials, "//attacker.example/steal.ics", "overwrite")).rejects.toThrow("another host");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("resolves same-origin hrefs against the calendar URL", async () => {
+    const fetchMock = vi.fn(async () => new Response("BEGIN:VCALENDAR", { status: 200, headers: { ETag: '"1"' } }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(getEvent(credentials, "/alice/health/abc.ics")).resolves.toMatchObject({ etag: '"1"' });
+    expect(fetchMock).toHaveBeenCalledWith("https://dav.example.com/alice/health/abc.ics", expect.anything());
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Minimal CalDAV (RFC 4791) client over fetch: just what sync needs – check
+ * a calendar collection, list its events with their ETags, and create, update
+ * or delete single events with If-Match / If-None-Match preconditions.
+ * Server only (sends the user's calendar password).
+ *
+ * Multistatus responses are read with regular expressions rather than an XML
+ * parser; only href, getetag, calendar-data, displayname and resourcetype are
+ * needed, whatever namespace prefix the server uses.
+ */
+
+import { isPrivateHost, publicAgent } from "@/lib/private-host";
+
+export type CalDavCredentials = {
+  /** Calendar collection URL, ending with "/". */
+  calendarUrl: string;
+  username: string;
+  password: string;
+};
+
+/** An event resource on the server. */
+export type RemoteEvent = {
+  /** Resource path, e.g. "/alice/health/abc.ics". */
+  href: string;
+  etag: string;
+  /** The iCalendar object. */
+  data: string;
+};
+
+/** Calendar servers can be slow; sync runs inside one API request. */
+const REQUEST_TIMEOUT_MS = 20_000;
+
+const PROPFIND_CALENDAR = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop><d:resourcetype/><d:displayname/></d:prop>
+</d:propfind>`;
+
+const REPORT_EVENTS = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT"/></c:comp-filter></c:filter>
+</c:calendar-query>`;
+
+const PROPFIND_ETAG = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop><d:getetag/></d:prop>
+</d:propfind>`;
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+function decodeXml(text: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(text);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Contents of every element with the given local name (any prefix); "" for empty elements. */
+function elements(xml: string, localName: string): string[] {
+  const pattern = new RegExp(
+    `<(?:[\\w.-]+:)?${localName}\\b[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${localName}\\s*>)`,
+    "g",
+  );
+  return [...xml.matchAll(pattern)].map((match) => match[1] ?? "");
+}
+
+/** Decoded text of the first non-empty element with the given local name, or "". */
+function elementText(xml: string, localName: string): string {
+  const value = elements(xml, localName).find((content) => content.trim());
+  return value ? decodeXml(value.trim()) : "";
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+async function request(
+  credentials: CalDavCredentials,
+  method: string,
+  url: string,
+  { headers = {}, body }: { headers?: Record<string, string>; body?: string } = {},
+): Promise<Response> {
+  const basic = Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64");
+  const res = await fetch(url, {
+    method,
+    headers: { Authorization: `Basic ${basic}`, ...headers },
+    body,
+    cache: "no-store",
+    // Following a redirect would send the password wherever it points (possibly an internal host).
+    redirect: "manual",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    // The hostname was checked when saved, but could since resolve to an internal address.
+    ...(process.env.NODE_ENV !== "development" && { dispatcher: publicAgent }),
+  } as RequestInit);
+  if (res.status >= 300 && res.status < 400) {
+    throw new Error(`The calendar server redirected ${method}; enter the calendar's final URL`);
+  }
+  return res;
+}
+
+/** Absolute URL of an event href. Hrefs come from the server, so ones on another origin are refused. */
+function resolve(credentials: CalDavCredentials, href: string): string {
+  const url = new URL(href, credentials.calendarUrl);
+  if (url.origin !== new URL(credentials.calendarUrl).origin) {
+    throw new Error(`The calendar server returned an event on another host: ${href}`);
+  }
+  return url.toString();
+}
+
+async function fail(method: string, res: Response): Promise<never> {
+  if (res.status === 401 || res.status === 403) {
+    throw new Error("The calendar server rejected the username or password");
+  }
+  throw new Error(`Calendar server returned ${res.status} for ${method}`);
+}
+
+// ---------------------------------------------------------------------------
+// Calendar
+// ---------------------------------------------------------------------------
+
+/** Checks that the URL is a calendar collection the user can access. Returns its display name. */
+export async function getCalendarName(credentials: CalDavCredentials): Promise<string> {
+  const res = await request(credentials, "PROPFIND", credentials.calendarUrl, {
+    headers: { Depth: "0", "Content-Type": "application/xml; charset=utf-8" },
+    body: PROPFIND_CALENDAR,
+  });
+  if (res.status !== 207) return fail("PROPFIND", res);
+  const xml = await res.text();
+  const isCalendar = elements(xml, "resourcetype").some((type) => /<(?:[\w.-]+:)?calendar\b/.test(type));
+  if (!isCalendar) throw new Error("This URL is not a CalDAV calendar");
+  return elementText(xml, "displayname");
+}
+
+/** Every VEVENT resource in the calendar, with its ETag and data. */
+export async function listEvents(credentials: CalDavCredentials): Promise<RemoteEvent[]> {
+  const res = await request(credentials, "REPORT", credentials.calendarUrl, {
+    headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+    body: REPORT_EVENTS,
+  });
+  if (res.status !== 207) return fail("REPORT", res);
+  const xml = await res.text();
+  return elements(xml, "response")
+    .map((response) => ({
+      href: elementText(response, "href"),
+      etag: elementText(response, "getetag"),
+      data: elementText(response, "calendar-data"),
+    }))
+    .filter((event) => event.href && event.etag && event.data);
+}
+
+/** One event, or null if it no longer exists. */
+export async function getEvent(credentials: CalDavCredentials, href: string): Promise<RemoteEvent | null> {
+  const res = await request(credentials, "GET", resolve(credentials, href));
+  if (res.status === 404 || res.status === 410) return null;
+  if (!res.ok) return fail("GET", res);
+  const data = await res.text();
+  const etag = res.headers.get("etag") ?? (await getEtag(credentials, href));
+  return etag ? { href, etag, data } : null;
+}
+
+/** The event's current ETag, or null if it no longer exists. */
+async function getEtag(credentials: CalDavCredentials, href: string): Promise<string | null> {
+  const res = await request(credentials, "PROPFIND", resolve(credentials, href), {
+    headers: { Depth: "0", "Content-Type": "application/xml; charset=utf-8" },
+    body: PROPFIND_ETAG,
+  });
+  if (res.status === 404) return null;
+  if (res.status !== 207) return fail("PROPFIND", res);
+  return elementText(await res.text(), "getetag") || null;
+}
+
+/**
+ * How a write is guarded:
+ *   { etag }    – only if the event is unchanged since we last saw it (If-Match)
+ *   "create"    – only if there is no event at the href yet (If-None-Match: *)
+ *   "overwrite" – unconditionally (when the user chose HelloCare's version)
+ */
+export type WritePrecondition = { etag: string } | "create" | "overwrite";
+
+function preconditionHeaders(precondition: WritePrecondition): Record<string, string> {
+  if (precondition === "create") return { "If-None-Match": "*" };
+  if (precondition === "overwrite") return {};
+  return { "If-Match": precondition.etag };
+}
+
+/**
+ * Writes an event. Returns its new ETag, or null if the precondition failed
+ * (412: the event changed on the server, or already exists when creating).
+ */
+export async function putEvent(
+  credentials: CalDavCredentials,
+  href: string,
+  ics: string,
+  precondition: WritePrecondition,
+): Promise<string | null> {
+  const res = await request(credentials, "PUT", resolve(credentials, href), {
+    headers: { "Content-Type": "text/calendar; charset=utf-8", ...preconditionHeaders(precondition) },
+    body: ics,
+  });
+  if (res.status === 412) return null;
+  if (!res.ok) return fail("PUT", res);
+  // Servers that change the data on write leave the ETag out (RFC 4791 §5.3.4).
+  const etag = res.headers.get("etag") ?? (await getEtag(credentials, href));
+  if (!etag) throw new Error("The calendar server did not keep the event");
+  return etag;
+}
+
+/**
+ * Deletes an event. Returns false if the precondition failed (412: the event
+ * changed on the server). An event that is already gone counts as deleted.
+ */
+export async function deleteEvent(
+  credentials: CalDavCredentials,
+  href: string,
+  precondition: { etag: string } | "overwrite",
+): Promise<boolean> {
+  const res = await request(credentials, "DELETE", resolve(credentials, href), {
+    headers: preconditionHeaders(precondition),
+  });
+  if (res.status === 412) return false;
+  if (res.status === 404 || res.status === 410) return true;
+  if (!res.ok) return fail("DELETE", res);
+  return true;
+}
+
+/**
+ * Normalizes a calendar URL entered by the user (adds the trailing slash), or
+ * returns null if it is not allowed. Outside development only https URLs on
+ * public hosts are accepted, so the server can't be pointed at internal
+ * services; in development http://localhost works, e.g. for a local Radicale.
+ */
+export function normalizeCalendarUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (url.username || url.password) return null;
+  const development = process.env.NODE_ENV === "development";
+  if (url.protocol !== "https:" && !(development && url.protocol === "http:")) return null;
+  if (!development && isPrivateHost(url.hostname)) return null;
+  url.hash = "";
+  url.search = "";
+  if (!url.pathname.endsWith("/")) url.pathname += "/";
+  return url.toString();
+}
+
+/** Href for a new event in the calendar. */
+export function newEventHref(credentials: CalDavCredentials, appointmentId: string): string {
+  return new URL(`${encodeURIComponent(appointmentId)}.ics`, credentials.calendarUrl).pathname;
+}
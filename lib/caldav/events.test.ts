@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { Appointment } from "@/lib/firestore/types";
+import { buildAppointmentCalendar, parseCalendarEvents, type CalendarEvent } from "@/lib/ics";
+import { appointmentFromEvent, appointmentHash, isAppointmentEvent, matchesImportFilter } from "./events";
+
+const ids = { id: "appt-1", userId: "user-1" };
+
+function appointment(overrides: Partial<Appointment> = {}): Appointment {
+  return {
+    id: "appt-1",
+    userId: "user-1",
+    appointmentTime: new Date("2026-03-12T14:30:00Z"),
+    scheduledOn: new Date("2026-02-20T09:00:00Z"),
+    providerName: "Dr. Lee",
+    clinic: "Main St Clinic",
+    address: "1 Main St",
+    reason: "Knee follow-up",
+    status: "confirmed",
+    notes: "Bring the MRI",
+    agenda: [{ id: "a1", text: "Ask about physio", category: "symptom" }],
+    ...overrides,
+  };
+}
+
+function event(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    uid: "dentist@example.com",
+    start: new Date("2026-03-20T08:00:00Z"),
+    allDay: false,
+    recurring: false,
+    summary: "Dentist",
+    location: "2 High St",
+    description: "Cleaning",
+    status: "",
+    categories: [],
+    extensions: {},
+    ...overrides,
+  };
+}
+
+/** The event HelloCare writes for an appointment, as read back from the server. */
+const written = (a: Appointment) => parseCalendarEvents(buildAppointmentCalendar(a))[0];
+
+describe("matchesImportFilter", () => {
+  it("imports every event without a category filter", () => {
+    expect(matchesImportFilter(event(), null)).toBe(true);
+  });
+
+  it("imports only events with the chosen category", () => {
+    expect(matchesImportFilter(event({ categories: ["Work", "helloCare "] }), "HelloCare")).toBe(true);
+    expect(matchesImportFilter(event({ categories: ["Work"] }), "HelloCare")).toBe(false);
+    expect(matchesImportFilter(event(), "HelloCare")).toBe(false);
+  });
+
+  it("always imports events HelloCare wrote", () => {
+    expect(matchesImportFilter(written(appointment()), "HelloCare")).toBe(true);
+  });
+
+  it("reads categories from the event", () => {
+    const [parsed] = parseCalendarEvents(
+      "BEGIN:VEVENT\r\nUID:x\r\nCATEGORIES:Work,Health\\, family\r\nCATEGORIES:HelloCare\r\nEND:VEVENT",
+    );
+
+    expect(parsed.categories).toEqual(["Work", "Health, family", "HelloCare"]);
+  });
+});
+
+describe("appointmentFromEvent", () => {
+  it("reads back an unedited HelloCare event as the same appointment", () => {
+    const local = appointment();
+
+    const result = appointmentFromEvent(written(local), local, ids);
+
+    expect(result).toEqual(local);
+    expect(appointmentHash(result!)).toBe(appointmentHash(local));
+  });
+
+  it("takes edits made in the calendar app and keeps HelloCare-only fields", () => {
+    const local = appointment();
+    const edited = { ...written(local), summary: "Dr. Lee – Knee MRI review", start: new Date("2026-03-13T10:00:00Z") };
+
+    expect(appointmentFromEvent(edited, local, ids)).toMatchObject({
+      providerName: "Dr. Lee",
+      reason: "Knee MRI review",
+      appointmentTime: new Date("2026-03-13T10:00:00Z"),
+      agenda: local.agenda,
+      scheduledOn: local.scheduledOn,
+    });
+  });
+
+  it("maps an event made in the calendar app", () => {
+    expect(appointmentFromEvent(event({ status: "CONFIRMED" }), null, ids)).toMatchObject({
+      ...ids,
+      appointmentTime: new Date("2026-03-20T08:00:00Z"),
+      providerName: "",
+      clinic: "",
+      address: "2 High St",
+      reason: "Dentist",
+      notes: "Cleaning",
+      status: "confirmed",
+      agenda: [],
+    });
+  });
+
+  it.each([
+    ["all-day", { allDay: true }],
+    ["repeating", { recurring: true }],
+    ["untimed", { start: null }],
+  ])("refuses %s events", (_label, overrides) => {
+    expect(isAppointmentEvent(event(overrides))).toBe(false);
+    expect(appointmentFromEvent(event(overrides), null, ids)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Maps between appointments and calendar events for CalDAV sync.
+ *
+ * Events written by HelloCare carry the appointment's fields as X-HELLOCARE-*
+ * properties (see lib/ics.ts). Reading one back, those properties win unless
+ * the title, location or status was edited in the calendar app, in which case
+ * the edited value is used. Events created in a calendar app have no such
+ * properties: the title becomes the reason and the location the address.
+ * The agenda, reminders and scheduledOn date only live in HelloCare and are kept.
+ */
+
+import { createHash } from "crypto";
+import { APPOINTMENT_STATUSES } from "@/lib/firestore/appointments";
+import type { Appointment, AppointmentStatus } from "@/lib/firestore/types";
+import {
+  APPOINTMENT_PROPERTIES,
+  EVENT_STATUSES,
+  appointmentLocation,
+  appointmentTitle,
+  type CalendarEvent,
+} from "@/lib/ics";
+import type { CalDavConflictVersion } from "./types";
+
+/**
+ * Fingerprint of the synced fields, stored after each sync to tell whether the
+ * appointment was edited in HelloCare since.
+ */
+export function appointmentHash(appointment: Appointment): string {
+  const fields = [
+    appointment.appointmentTime.getTime(),
+    appointment.providerName,
+    appointment.clinic,
+    appointment.address,
+    appointment.reason,
+    appointment.status,
+    appointment.notes,
+    appointment.agenda.map((item) => item.text),
+  ];
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * Whether an unlinked event should be imported: every event when
+ * importCategory is null, otherwise only events with that category (compared
+ * case-insensitively). Events HelloCare wrote were appointments already and
+ * always pass.
+ */
+export function matchesImportFilter(event: CalendarEvent, importCategory: string | null): boolean {
+  if (importCategory == null || APPOINTMENT_PROPERTIES.status in event.extensions) return true;
+  const wanted = importCategory.trim().toLowerCase();
+  return event.categories.some((category) => category.trim().toLowerCase() === wanted);
+}
+
+/** Whether the event can be an appointment: a single occurrence at a set time. */
+export function isAppointmentEvent(event: CalendarEvent): boolean {
+  return event.start != null && !event.allDay && !event.recurring;
+}
+
+function isAppointmentStatus(value: string | undefined): value is AppointmentStatus {
+  return (APPOINTMENT_STATUSES as readonly string[]).includes(value ?? "");
+}
+
+/** Keeps the stored status while the event's STATUS still matches it. */
+function statusFromEvent(event: CalendarEvent, stored: string | undefined): AppointmentStatus {
+  if (isAppointmentStatus(stored) && EVENT_STATUSES[stored] === event.status) return stored;
+  if (event.status === "CANCELLED") return "cancelled";
+  if (event.status === "CONFIRMED") return "confirmed";
+  return "scheduled";
+}
+
+/**
+ * The appointment an event maps to, or null if the event can't be one (see
+ * isAppointmentEvent). existing is the linked appointment, if any.
+ */
+export function appointmentFromEvent(
+  event: CalendarEvent,
+  existing: Appointment | null,
+  ids: { id: string; userId: string },
+): Appointment | null {
+  if (!isAppointmentEvent(event) || !event.start) return null;
+
+  const props = event.extensions;
+  const fromHelloCare = APPOINTMENT_PROPERTIES.status in props;
+  const stored = (field: keyof typeof APPOINTMENT_PROPERTIES) =>
+    fromHelloCare ? (props[APPOINTMENT_PROPERTIES[field]] ?? "") : (existing?.[field] ?? "");
+
+  const providerName = stored("providerName");
+  let clinic = stored("clinic");
+  let address = stored("address");
+  let reason = stored("reason");
+
+  if (event.summary !== appointmentTitle({ providerName, clinic, reason })) {
+    // Edited title: keep "provider – " if it is still there, the rest is the reason.
+    const prefix = `${providerName || clinic} – `;
+    reason = prefix.length > 3 && event.summary.startsWith(prefix) ? event.summary.slice(prefix.length) : event.summary;
+  }
+  if (event.location !== appointmentLocation({ clinic, address })) {
+    const prefix = `${clinic}, `;
+    if (clinic && event.location.startsWith(prefix)) {
+      address = event.location.slice(prefix.length);
+    } else {
+      clinic = "";
+      address = event.location;
+    }
+  }
+
+  return {
+    id: ids.id,
+    userId: ids.userId,
+    appointmentTime: event.start,
+    scheduledOn: existing?.scheduledOn ?? new Date(),
+    providerName,
+    clinic,
+    address,
+    reason,
+    status: statusFromEvent(event, props[APPOINTMENT_PROPERTIES.status] ?? existing?.status),
+    notes: fromHelloCare ? (props[APPOINTMENT_PROPERTIES.notes] ?? "") : event.description,
+    agenda: existing?.agenda ?? [],
+    reminderOffsets: existing?.reminderOffsets,
+  };
+}
+
+/** How an appointment is shown in a conflict. */
+export function appointmentVersion(appointment: Appointment): CalDavConflictVersion {
+  return { title: appointmentTitle(appointment), start: appointment.appointmentTime.toISOString() };
+}
+
+/** How a calendar event is shown in a conflict. */
+export function eventVersion(event: CalendarEvent): CalDavConflictVersion {
+  return { title: event.summary, start: event.start?.toISOString() ?? null };
+}
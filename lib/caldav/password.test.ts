@@ -0,0 +1,47 @@
+import { randomBytes } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { decryptPassword, encryptPassword } from "./password";
+
+describe("CalDAV password encryption", () => {
+  beforeEach(() => {
+    vi.stubEnv("CALDAV_ENCRYPTION_KEY", randomBytes(32).toString("base64url"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("round-trips a password without storing it in the clear", () => {
+    const encrypted = encryptPassword("app-pässword", "user-1");
+
+    expect(encrypted).toMatch(/^v1\.[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(encrypted).not.toContain("app-p");
+    expect(decryptPassword(encrypted, "user-1")).toBe("app-pässword");
+  });
+
+  it("uses a fresh IV for every encryption", () => {
+    expect(encryptPassword("secret", "user-1")).not.toBe(encryptPassword("secret", "user-1"));
+  });
+
+  it("refuses another user's ciphertext", () => {
+    const encrypted = encryptPassword("secret", "user-1");
+
+    expect(() => decryptPassword(encrypted, "user-2")).toThrow();
+  });
+
+  it("refuses an altered ciphertext", () => {
+    const [version, iv, tag, data] = encryptPassword("secret", "user-1").split(".");
+    const flipped = Buffer.from(data, "base64url");
+    flipped[0] ^= 1;
+
+    expect(() => decryptPassword([version, iv, tag, flipped.toString("base64url")].join("."), "user-1")).toThrow();
+  });
+
+  it("refuses to run without a 32-byte key", () => {
+    vi.stubEnv("CALDAV_ENCRYPTION_KEY", "");
+    expect(() => encryptPassword("secret", "user-1")).toThrow("CALDAV_ENCRYPTION_KEY");
+
+    vi.stubEnv("CALDAV_ENCRYPTION_KEY", randomBytes(16).toString("base64url"));
+    expect(() => encryptPassword("secret", "user-1")).toThrow("32 bytes");
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Encryption of stored CalDAV passwords (AES-256-GCM), so a leaked Firestore
+ * export or backup doesn't hand out working calendar credentials. The key
+ * comes from CALDAV_ENCRYPTION_KEY (32 bytes, base64 or base64url); see README.
+ *
+ * Ciphertexts are "v1.{iv}.{tag}.{data}" in base64url and bound to the user id,
+ * so one user's ciphertext can't be moved to another user's connection.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const VERSION = "v1";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+function encryptionKey(): Buffer {
+  const raw = process.env.CALDAV_ENCRYPTION_KEY?.trim();
+  if (!raw) throw new Error("Calendar sync is not configured (CALDAV_ENCRYPTION_KEY)");
+  const key = Buffer.from(raw, "base64url");
+  if (key.length !== KEY_BYTES) throw new Error("CALDAV_ENCRYPTION_KEY must be 32 bytes in base64");
+  return key;
+}
+
+/** Encrypts the user's calendar password for storage. */
+export function encryptPassword(password: string, userId: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  cipher.setAAD(Buffer.from(userId));
+  const data = Buffer.concat([cipher.update(password, "utf8"), cipher.final()]);
+  return [VERSION, ...[iv, cipher.getAuthTag(), data].map((part) => part.toString("base64url"))].join(".");
+}
+
+/** Decrypts a password stored by encryptPassword; throws if it was altered or belongs to another user. */
+export function decryptPassword(encrypted: string, userId: string): string {
+  const [version, iv, tag, data] = encrypted.split(".");
+  if (version !== VERSION || data === undefined) throw new Error("Unreadable stored calendar password");
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64url"));
+  decipher.setAAD(Buffer.from(userId));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([decipher.update(Buffer.from(data, "base64url")), decipher.final()]).toString("utf8");
+}
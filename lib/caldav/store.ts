@@ -0,0 +1,189 @@
+/**
+ * CalDAV sync state – backed by Firestore (via Admin SDK).
+ *
+ * Firestore document: _caldav/{userId}
+ * Fields:
+ *   calendarUrl       – string (calendar collection URL, ends with "/")
+ *   calendarName      – string (the calendar's display name, or "")
+ *   username          – string
+ *   importCategory    – string | null (events made in the calendar app are
+ *                       imported only with this category; null imports all)
+ *   encryptedPassword – string (preferably an app password; encrypted, see
+ *                       ./password.ts; never sent to the client)
+ *   lastSyncAt        – Timestamp | null
+ *   lastError         – string | null (error from the last sync)
+ *   lastResult        – CalDavSyncCounts | null
+ *   createdAt         – Timestamp
+ *
+ * Firestore document: _caldav/{userId}/events/{appointmentId}
+ * One per appointment linked to a calendar event, as of the last sync:
+ *   href      – string (event resource path on the server)
+ *   etag      – string (the event's ETag when last read or written)
+ *   eventUid  – string (iCalendar UID; kept when writing the event back)
+ *   localHash – string (appointmentHash of the appointment when last synced)
+ *   conflict  – CalDavConflict | null (set until the user resolves it)
+ *
+ * Not readable from the client (see firestore.rules).
+ */
+
+import type { DocumentData } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import type { CalDavCredentials } from "./client";
+import { decryptPassword, encryptPassword } from "./password";
+import type { CalDavConflict, CalDavStatus, CalDavSyncCounts } from "./types";
+
+const CALDAV_COLLECTION = "_caldav";
+const EVENTS_SUBCOLLECTION = "events";
+
+/** A connection as stored, without the password (see getCalDavCredentials). */
+export type CalDavConnection = Omit<CalDavCredentials, "password"> & {
+  calendarName: string;
+  /** Category an event made in the calendar app needs to be imported; null imports every timed event. */
+  importCategory: string | null;
+  lastSyncAt: Date | null;
+  lastError: string | null;
+  lastResult: CalDavSyncCounts | null;
+};
+
+/** Link between an appointment and its calendar event. */
+export type SyncRecord = {
+  appointmentId: string;
+  href: string;
+  etag: string;
+  eventUid: string;
+  localHash: string;
+  conflict: CalDavConflict | null;
+};
+
+function connectionRef(userId: string) {
+  return getAdminDb().collection(CALDAV_COLLECTION).doc(userId);
+}
+
+function eventsCollection(userId: string) {
+  return connectionRef(userId).collection(EVENTS_SUBCOLLECTION);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Connection                                                        */
+/* ------------------------------------------------------------------ */
+
+function toConnection(data: DocumentData): CalDavConnection {
+  return {
+    calendarUrl: data.calendarUrl,
+    calendarName: data.calendarName ?? "",
+    username: data.username,
+    // Connections made before the filter existed imported everything.
+    importCategory: data.importCategory ?? null,
+    lastSyncAt: data.lastSyncAt?.toDate?.() ?? null,
+    lastError: data.lastError ?? null,
+    lastResult: (data.lastResult ?? null) as CalDavSyncCounts | null,
+  };
+}
+
+/** The user's CalDAV connection, or null if not connected. */
+export async function getCalDavConnection(userId: string): Promise<CalDavConnection | null> {
+  const snap = await connectionRef(userId).get();
+  const data = snap.data();
+  return snap.exists && data ? toConnection(data) : null;
+}
+
+/** The connection with its password decrypted, for sync; null if not connected. */
+export async function getCalDavCredentials(userId: string): Promise<(CalDavConnection & CalDavCredentials) | null> {
+  const snap = await connectionRef(userId).get();
+  const data = snap.data();
+  if (!snap.exists || !data) return null;
+  return { ...toConnection(data), password: decryptPassword(data.encryptedPassword, userId) };
+}
+
+/** Connect the user to a calendar, replacing any previous connection and its links. */
+export async function saveCalDavConnection(
+  userId: string,
+  credentials: CalDavCredentials,
+  calendarName: string,
+  importCategory: string | null,
+): Promise<void> {
+  const { calendarUrl, username, password } = credentials;
+  const encryptedPassword = encryptPassword(password, userId);
+  await deleteCalDavConnection(userId);
+  await connectionRef(userId).set({
+    calendarUrl,
+    username,
+    encryptedPassword,
+    calendarName,
+    importCategory,
+    lastSyncAt: null,
+    lastError: null,
+    lastResult: null,
+    createdAt: new Date(),
+  });
+  console.log(`[caldav-store] Connected user ${userId} to ${credentials.calendarUrl}`);
+}
+
+/** Disconnect: forget the credentials and every link. Events and appointments are left as they are. */
+export async function deleteCalDavConnection(userId: string): Promise<void> {
+  await getAdminDb().recursiveDelete(connectionRef(userId));
+}
+
+/** Store the outcome of a sync run. */
+export async function recordSyncOutcome(
+  userId: string,
+  outcome: { lastError: string | null; lastResult: CalDavSyncCounts | null },
+): Promise<void> {
+  await connectionRef(userId).update({ ...outcome, lastSyncAt: new Date() });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Sync records                                                      */
+/* ------------------------------------------------------------------ */
+
+function toSyncRecord(appointmentId: string, data: DocumentData): SyncRecord {
+  return {
+    appointmentId,
+    href: data.href,
+    etag: data.etag,
+    eventUid: data.eventUid,
+    localHash: data.localHash,
+    conflict: (data.conflict ?? null) as CalDavConflict | null,
+  };
+}
+
+export async function listSyncRecords(userId: string): Promise<SyncRecord[]> {
+  const snap = await eventsCollection(userId).get();
+  return snap.docs.map((doc) => toSyncRecord(doc.id, doc.data()));
+}
+
+export async function getSyncRecord(userId: string, appointmentId: string): Promise<SyncRecord | null> {
+  const snap = await eventsCollection(userId).doc(appointmentId).get();
+  const data = snap.data();
+  return snap.exists && data ? toSyncRecord(appointmentId, data) : null;
+}
+
+export async function saveSyncRecord(userId: string, record: SyncRecord): Promise<void> {
+  const { appointmentId, ...fields } = record;
+  await eventsCollection(userId).doc(appointmentId).set(fields);
+}
+
+export async function deleteSyncRecord(userId: string, appointmentId: string): Promise<void> {
+  await eventsCollection(userId).doc(appointmentId).delete();
+}
+
+/* ------------------------------------------------------------------ */
+/*  Status                                                            */
+/* ------------------------------------------------------------------ */
+
+/** What the sync status screen shows; leaves out the password. */
+export async function getCalDavStatus(userId: string): Promise<CalDavStatus> {
+  const [connection, records] = await Promise.all([getCalDavConnection(userId), listSyncRecords(userId)]);
+  return {
+    connected: connection != null,
+    calendarUrl: connection?.calendarUrl ?? null,
+    calendarName: connection?.calendarName || null,
+    username: connection?.username ?? null,
+    importCategory: connection?.importCategory ?? null,
+    lastSyncAt: connection?.lastSyncAt?.toISOString() ?? null,
+    lastError: connection?.lastError ?? null,
+    lastResult: connection?.lastResult ?? null,
+    linkedCount: records.length,
+    conflicts: records.flatMap((record) => (record.conflict ? [record.conflict] : [])),
+  };
+}
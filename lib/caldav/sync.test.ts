@@ -0,0 +1,322 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deleteUserSubcollectionDocAdmin,
+  readUserSubcollectionAdmin,
+  writeUserSubcollectionDocAdmin,
+} from "@/lib/firestore/admin";
+import type { Appointment } from "@/lib/firestore/types";
+import { buildAppointmentCalendar } from "@/lib/ics";
+import { deleteEvent, getEvent, listEvents, putEvent, type RemoteEvent } from "./client";
+import { appointmentHash } from "./events";
+import {
+  deleteSyncRecord,
+  getCalDavCredentials,
+  listSyncRecords,
+  recordSyncOutcome,
+  saveSyncRecord,
+  type SyncRecord,
+} from "./store";
+import { syncCalendar } from "./sync";
+
+vi.mock("@/lib/firestore/admin", () => ({
+  readUserSubcollectionAdmin: vi.fn(),
+  readUserSubcollectionDocAdmin: vi.fn(),
+  writeUserSubcollectionDocAdmin: vi.fn(),
+  deleteUserSubcollectionDocAdmin: vi.fn(),
+}));
+
+vi.mock("./client", async (importOriginal) => ({
+  newEventHref: (await importOriginal<typeof import("./client")>()).newEventHref,
+  listEvents: vi.fn(),
+  getEvent: vi.fn(),
+  putEvent: vi.fn(),
+  deleteEvent: vi.fn(),
+}));
+
+vi.mock("./store", () => ({
+  getCalDavCredentials: vi.fn(),
+  getSyncRecord: vi.fn(),
+  listSyncRecords: vi.fn(),
+  saveSyncRecord: vi.fn(),
+  deleteSyncRecord: vi.fn(),
+  recordSyncOutcome: vi.fn(),
+}));
+
+const AUDIT = { actor: "calendar_sync", reason: "caldav_sync" };
+
+const connection = {
+  calendarUrl: "https://dav.example.com/alice/health/",
+  username: "alice",
+  password: "secret",
+  calendarName: "Health",
+  importCategory: null as string | null,
+  lastSyncAt: null,
+  lastError: null,
+  lastResult: null,
+};
+
+function appointment(overrides: Partial<Appointment> = {}): Appointment {
+  return {
+    id: "appt-1",
+    userId: "user-1",
+    appointmentTime: new Date("2026-03-12T14:30:00Z"),
+    scheduledOn: new Date("2026-02-20T09:00:00Z"),
+    providerName: "Dr. Lee",
+    clinic: "Main St Clinic",
+    address: "1 Main St",
+    reason: "Knee follow-up",
+    status: "confirmed",
+    notes: "",
+    agenda: [],
+    ...overrides,
+  };
+}
+
+const HREF = "/alice/health/appt-1.ics";
+const EVENT_UID = "appointment-appt-1@hellocare";
+
+function remoteFor(a: Appointment, etag: string): RemoteEvent {
+  return { href: HREF, etag, data: buildAppointmentCalendar(a, { uid: EVENT_UID }) };
+}
+
+/** The record as of a sync that saw `synced` in HelloCare and ETag "1" in the calendar. */
+function record(synced: Appointment, overrides: Partial<SyncRecord> = {}): SyncRecord {
+  return {
+    appointmentId: synced.id,
+    href: HREF,
+    etag: '"1"',
+    eventUid: EVENT_UID,
+    localHash: appointmentHash(synced),
+    conflict: null,
+    ...overrides,
+  };
+}
+
+/** Sets up both sides: the appointments in HelloCare, the events in the calendar and the sync records. */
+function given({
+  appointments = [],
+  events = [],
+  records = [],
+}: {
+  appointments?: Appointment[];
+  events?: RemoteEvent[];
+  records?: SyncRecord[];
+}) {
+  vi.mocked(readUserSubcollectionAdmin).mockResolvedValue(appointments as never);
+  vi.mocked(listEvents).mockResolvedValue(events);
+  vi.mocked(listSyncRecords).mockResolvedValue(records);
+}
+
+describe("syncCalendar", () => {
+  const synced = appointment();
+
+  beforeEach(() => {
+    vi.mocked(getCalDavCredentials).mockResolvedValue({ ...connection });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("does nothing when neither side changed", async () => {
+    given({ appointments: [synced], events: [remoteFor(synced, '"1"')], records: [record(synced)] });
+
+    const counts = await syncCalendar("user-1");
+
+    expect(counts).toMatchObject({ pushed: 0, pulled: 0, conflicts: 0 });
+    expect(putEvent).not.toHaveBeenCalled();
+    expect(writeUserSubcollectionDocAdmin).not.toHaveBeenCalled();
+  });
+
+  it("writes a HelloCare edit to the event only if it is unchanged (If-Match)", async () => {
+    const edited = appointment({ reason: "Knee MRI review" });
+    given({ appointments: [edited], events: [remoteFor(synced, '"1"')], records: [record(synced)] });
+    vi.mocked(putEvent).mockResolvedValue('"2"');
+
+    const counts = await syncCalendar("user-1");
+
+    expect(putEvent).toHaveBeenCalledWith(expect.anything(), HREF, expect.stringContaining("Knee MRI review"), {
+      etag: '"1"',
+    });
+    expect(saveSyncRecord).toHaveBeenCalledWith("user-1", record(edited, { etag: '"2"' }));
+    expect(counts.pushed).toBe(1);
+    expect(recordSyncOutcome).toHaveBeenCalledWith("user-1", { lastError: null, lastResult: counts });
+  });
+
+  it("marks a conflict when the event changed between listing and writing (412)", async () => {
+    const edited = appointment({ reason: "Knee MRI review" });
+    const changedMeanwhile = remoteFor(appointment({ reason: "Moved by a family member" }), '"3"');
+    given({ appointments: [edited], events: [remoteFor(synced, '"1"')], records: [record(synced)] });
+    vi.mocked(putEvent).mockResolvedValue(null);
+    vi.mocked(getEvent).mockResolvedValue(changedMeanwhile);
+
+    const counts = await syncCalendar("user-1");
+
+    expect(saveSyncRecord).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({
+        etag: '"1"',
+        conflict: expect.objectContaining({
+          kind: "both-changed",
+          local: expect.objectContaining({ title: "Dr. Lee – Knee MRI review" }),
+          remote: expect.objectContaining({ title: "Dr. Lee – Moved by a family member" }),
+        }),
+      }),
+    );
+    expect(counts.conflicts).toBe(1);
+  });
+
+  it("updates the appointment from an event edited in the calendar", async () => {
+    const moved = appointment({ appointmentTime: new Date("2026-03-13T10:00:00Z") });
+    given({ appointments: [synced], events: [remoteFor(moved, '"2"')], records: [record(synced)] });
+
+    const counts = await syncCalendar("user-1");
+
+    expect(writeUserSubcollectionDocAdmin).toHaveBeenCalledWith("user-1", "appointments", moved, AUDIT);
+    expect(saveSyncRecord).toHaveBeenCalledWith("user-1", record(moved, { etag: '"2"' }));
+    expect(counts.pulled).toBe(1);
+  });
+
+  it("marks a conflict when both sides changed", async () => {
+    const edited = appointment({ reason: "Knee MRI review" });
+    const moved = appointment({ appointmentTime: new Date("2026-03-13T10:00:00Z") });
+    given({ appointments: [edited], events: [remoteFor(moved, '"2"')], records: [record(synced)] });
+
+    const counts = await syncCalendar("user-1");
+
+    expect(putEvent).not.toHaveBeenCalled();
+    expect(writeUserSubcollectionDocAdmin).not.toHaveBeenCalled();
+    expect(saveSyncRecord).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ conflict: expect.objectContaining({ kind: "both-changed" }) }),
+    );
+    expect(counts.conflicts).toBe(1);
+  });
+
+  it("leaves conflicts alone until the user resolves them", async () => {
+    const conflict = { appointmentId: "appt-1", kind: "both-changed" as const, local: null, remote: null, detectedAt: "" };
+    given({ appointments: [synced], events: [remoteFor(synced, '"2"')], records: [record(synced, { conflict })] });
+
+    const counts = await syncCalendar("user-1");
+
+    expect(saveSyncRecord).not.toHaveBeenCalled();
+    expect(writeUserSubcollectionDocAdmin).not.toHaveBeenCalled();
+    expect(counts.conflicts).toBe(1);
+  });
+
+  it("deletes the event of an appointment deleted in HelloCare", async () => {
+    given({ events: [remoteFor(synced, '"1"')], records: [record(synced)] });
+    vi.mocked(deleteEvent).mockResolvedValue(true);
+
+    const counts = await syncCalendar("user-1");
+
+    expect(deleteEvent).toHaveBeenCalledWith(expect.anything(), HREF, { etag: '"1"' });
+    expect(deleteSyncRecord).toHaveBeenCalledWith("user-1", "appt-1");
+    expect(counts.deletedInCalendar).toBe(1);
+  });
+
+  it("marks a conflict when the event to delete was edited meanwhile", async () => {
+    given({ events: [remoteFor(synced, '"1"')], records: [record(synced)] });
+    vi.mocked(deleteEvent).mockResolvedValue(false);
+    vi.mocked(getEvent).mockResolvedValue(remoteFor(synced, '"2"'));
+
+    const counts = await syncCalendar("user-1");
+
+    expect(deleteSyncRecord).not.toHaveBeenCalled();
+    expect(saveSyncRecord).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ conflict: expect.objectContaining({ kind: "deleted-in-hellocare", local: null }) }),
+    );
+    expect(counts.conflicts).toBe(1);
+  });
+
+  it("deletes the appointment of an event deleted in the calendar", async () => {
+    given({ appointments: [synced], records: [record(synced)] });
+
+    const counts = await syncCalendar("user-1");
+
+    expect(deleteUserSubcollectionDocAdmin).toHaveBeenCalledWith("user-1", "appointments", "appt-1", AUDIT);
+    expect(deleteSyncRecord).toHaveBeenCalledWith("user-1", "appt-1");
+    expect(counts.deletedInHelloCare).toBe(1);
+  });
+
+  it("marks a conflict when an appointment edited in HelloCare was deleted in the calendar", async () => {
+    given({ appointments: [appointment({ notes: "Bring the MRI" })], records: [record(synced)] });
+
+    const counts = await syncCalendar("user-1");
+
+    expect(deleteUserSubcollectionDocAdmin).not.toHaveBeenCalled();
+    expect(saveSyncRecord).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ conflict: expect.objectContaining({ kind: "deleted-in-calendar", remote: null }) }),
+    );
+    expect(counts.conflicts).toBe(1);
+  });
+
+  it("uploads new appointments without overwriting anything (If-None-Match)", async () => {
+    given({ appointments: [synced] });
+    vi.mocked(putEvent).mockResolvedValue('"1"');
+
+    const counts = await syncCalendar("user-1");
+
+    expect(putEvent).toHaveBeenCalledWith(expect.anything(), HREF, expect.any(String), "create");
+    expect(saveSyncRecord).toHaveBeenCalledWith("user-1", record(synced));
+    expect(counts.pushed).toBe(1);
+  });
+
+  describe("importing events made in the calendar app", () => {
+    const event = (categories: string): RemoteEvent => ({
+      href: "/alice/health/dentist.ics",
+      etag: '"7"',
+      data: [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:dentist@example.com",
+        "DTSTART:20260320T080000Z",
+        "SUMMARY:Dentist",
+        ...(categories ? [`CATEGORIES:${categories}`] : []),
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    });
+
+    it("imports every timed event without a category filter", async () => {
+      given({ events: [event("")] });
+
+      const counts = await syncCalendar("user-1");
+
+      expect(writeUserSubcollectionDocAdmin).toHaveBeenCalledWith(
+        "user-1",
+        "appointments",
+        expect.objectContaining({ reason: "Dentist", appointmentTime: new Date("2026-03-20T08:00:00Z") }),
+        AUDIT,
+      );
+      expect(counts.pulled).toBe(1);
+    });
+
+    it("imports only events with the chosen category", async () => {
+      vi.mocked(getCalDavCredentials).mockResolvedValue({ ...connection, importCategory: "HelloCare" });
+      given({ events: [event("Family"), { ...event("Work,HelloCare"), href: "/alice/health/physio.ics" }] });
+
+      const counts = await syncCalendar("user-1");
+
+      expect(writeUserSubcollectionDocAdmin).toHaveBeenCalledTimes(1);
+      expect(saveSyncRecord).toHaveBeenCalledWith(
+        "user-1",
+        expect.objectContaining({ href: "/alice/health/physio.ics" }),
+      );
+      expect(counts).toMatchObject({ pulled: 1, skipped: 0 });
+    });
+  });
+
+  it("records the error of a failed run", async () => {
+    given({});
+    vi.mocked(listEvents).mockRejectedValue(new Error("Calendar server returned 500 for REPORT"));
+
+    await expect(syncCalendar("user-1")).rejects.toThrow("500");
+    expect(recordSyncOutcome).toHaveBeenCalledWith("user-1", {
+      lastError: "Calendar server returned 500 for REPORT",
+      lastResult: expect.any(Object),
+    });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Two-way sync between a user's appointments and one CalDAV calendar.
+ *
+ * Each linked appointment has a sync record (lib/caldav/store.ts) holding the
+ * event's ETag and a hash of the appointment as of the last sync. A run
+ * compares both sides against it:
+ *
+ *   neither side changed         → nothing to do
+ *   only HelloCare changed       → PUT the event (If-Match the stored ETag),
+ *                                  or DELETE it if the appointment was deleted
+ *   only the calendar changed    → update the appointment from the event,
+ *                                  or delete it if the event was deleted
+ *   both changed                 → conflict, kept until the user picks a side
+ *
+ * A 412 from the server (the event changed between listing and writing) is a
+ * conflict too. Events without a record are imported as new appointments if
+ * they pass the connection's import filter (matchesImportFilter), and
+ * appointments without one are uploaded as new events. Changes to appointments
+ * are written through the audited admin helpers as "calendar_sync".
+ *
+ * Sync only runs when the user asks for it (POST /api/caldav/sync).
+ */
+
+import {
+  deleteUserSubcollectionDocAdmin,
+  readUserSubcollectionAdmin,
+  readUserSubcollectionDocAdmin,
+  writeUserSubcollectionDocAdmin,
+} from "@/lib/firestore/admin";
+import { snapshotToAppointment } from "@/lib/firestore/mappers";
+import type { Appointment, AuditContext } from "@/lib/firestore/types";
+import { appointmentEventUid, buildAppointmentCalendar, parseCalendarEvents, type CalendarEvent } from "@/lib/ics";
+import {
+  deleteEvent,
+  getEvent,
+  listEvents,
+  newEventHref,
+  putEvent,
+  type CalDavCredentials,
+  type RemoteEvent,
+} from "./client";
+import {
+  appointmentFromEvent,
+  appointmentHash,
+  appointmentVersion,
+  eventVersion,
+  matchesImportFilter,
+} from "./events";
+import {
+  deleteSyncRecord,
+  getCalDavCredentials,
+  getSyncRecord,
+  listSyncRecords,
+  recordSyncOutcome,
+  saveSyncRecord,
+  type SyncRecord,
+} from "./store";
+import type { CalDavConflict, CalDavConflictKind, CalDavResolution, CalDavSyncCounts } from "./types";
+
+const CALDAV_AUDIT: AuditContext = { actor: "calendar_sync", reason: "caldav_sync" };
+
+/** A remote event with its parsed VEVENT (the first one; overrides make it recurring). */
+type ParsedRemoteEvent = RemoteEvent & { event: CalendarEvent | null };
+
+function parseRemote(remote: RemoteEvent): ParsedRemoteEvent {
+  const events = parseCalendarEvents(remote.data);
+  const event = events[0] ?? null;
+  return { ...remote, event: event && events.length > 1 ? { ...event, recurring: true } : event };
+}
+
+function emptyCounts(): CalDavSyncCounts {
+  return { pushed: 0, pulled: 0, deletedInCalendar: 0, deletedInHelloCare: 0, skipped: 0, conflicts: 0 };
+}
+
+/** Per-run state: the user, their calendar and what the run did. */
+type SyncContext = {
+  userId: string;
+  credentials: CalDavCredentials;
+  /** See CalDavConnection.importCategory. */
+  importCategory: string | null;
+  counts: CalDavSyncCounts;
+};
+
+async function markConflict(
+  ctx: SyncContext,
+  record: SyncRecord,
+  kind: CalDavConflictKind,
+  local: Appointment | null,
+  remote: ParsedRemoteEvent | null,
+): Promise<void> {
+  const conflict: CalDavConflict = {
+    appointmentId: record.appointmentId,
+    kind,
+    local: local ? appointmentVersion(local) : null,
+    remote: remote?.event ? eventVersion(remote.event) : null,
+    detectedAt: new Date().toISOString(),
+  };
+  await saveSyncRecord(ctx.userId, { ...record, conflict });
+  ctx.counts.conflicts++;
+}
+
+/** Writes the appointment to its event; on a 412 marks a conflict instead. */
+async function push(ctx: SyncContext, record: SyncRecord, local: Appointment): Promise<void> {
+  const ics = buildAppointmentCalendar(local, { uid: record.eventUid });
+  const etag = await putEvent(ctx.credentials, record.href, ics, { etag: record.etag });
+  if (!etag) {
+    const remote = await getEvent(ctx.credentials, record.href);
+    await markConflict(ctx, record, remote ? "both-changed" : "deleted-in-calendar", local, remote && parseRemote(remote));
+    return;
+  }
+  await saveSyncRecord(ctx.userId, { ...record, etag, localHash: appointmentHash(local), conflict: null });
+  ctx.counts.pushed++;
+}
+
+/** Updates (or creates) the appointment from its event. Returns false if the event can't be an appointment. */
+async function pull(
+  ctx: SyncContext,
+  record: SyncRecord,
+  local: Appointment | null,
+  remote: ParsedRemoteEvent,
+): Promise<boolean> {
+  const appointment =
+    remote.event && appointmentFromEvent(remote.event, local, { id: record.appointmentId, userId: ctx.userId });
+  if (!appointment) return false;
+  await writeUserSubcollectionDocAdmin(ctx.userId, "appointments", appointment, CALDAV_AUDIT);
+  await saveSyncRecord(ctx.userId, {
+    ...record,
+    etag: remote.etag,
+    eventUid: remote.event?.uid || record.eventUid,
+    localHash: appointmentHash(appointment),
+    conflict: null,
+  });
+  ctx.counts.pulled++;
+  return true;
+}
+
+async function syncLinked(
+  ctx: SyncContext,
+  record: SyncRecord,
+  local: Appointment | null,
+  remote: ParsedRemoteEvent | null,
+): Promise<void> {
+  if (record.conflict) {
+    ctx.counts.conflicts++;
+    return;
+  }
+  const localChanged = !local || appointmentHash(local) !== record.localHash;
+  const remoteChanged = !remote || remote.etag !== record.etag;
+
+  if (!local && !remote) {
+    await deleteSyncRecord(ctx.userId, record.appointmentId);
+  } else if (!localChanged && !remoteChanged) {
+    return;
+  } else if (!remoteChanged) {
+    if (local) {
+      await push(ctx, record, local);
+    } else if (await deleteEvent(ctx.credentials, record.href, { etag: record.etag })) {
+      await deleteSyncRecord(ctx.userId, record.appointmentId);
+      ctx.counts.deletedInCalendar++;
+    } else {
+      const latest = await getEvent(ctx.credentials, record.href);
+      await markConflict(ctx, record, "deleted-in-hellocare", null, latest && parseRemote(latest));
+    }
+  } else if (!localChanged && local) {
+    if (remote) {
+      if (!(await pull(ctx, record, local, remote))) ctx.counts.skipped++;
+    } else {
+      await deleteUserSubcollectionDocAdmin(ctx.userId, "appointments", local.id, CALDAV_AUDIT);
+      await deleteSyncRecord(ctx.userId, record.appointmentId);
+      ctx.counts.deletedInHelloCare++;
+    }
+  } else {
+    await markConflict(ctx, record, !local ? "deleted-in-hellocare" : !remote ? "deleted-in-calendar" : "both-changed", local, remote);
+  }
+}
+
+/** Imports an event that isn't linked yet, or re-links one HelloCare wrote earlier. */
+async function syncUnlinkedEvent(
+  ctx: SyncContext,
+  remote: ParsedRemoteEvent,
+  unlinked: Map<string, Appointment>,
+): Promise<void> {
+  const event = remote.event;
+  if (!event) return;
+  const previous = [...unlinked.values()].find((a) => appointmentEventUid(a.id) === event.uid);
+  if (previous) {
+    // Our own event from an earlier connection: HelloCare's version wins.
+    unlinked.delete(previous.id);
+    const record: SyncRecord = {
+      appointmentId: previous.id,
+      href: remote.href,
+      etag: remote.etag,
+      eventUid: event.uid,
+      localHash: "",
+      conflict: null,
+    };
+    await push(ctx, record, previous);
+    return;
+  }
+  if (!matchesImportFilter(event, ctx.importCategory)) return;
+  const record: SyncRecord = {
+    appointmentId: crypto.randomUUID(),
+    href: remote.href,
+    etag: remote.etag,
+    eventUid: event.uid,
+    localHash: "",
+    conflict: null,
+  };
+  if (!(await pull(ctx, record, null, remote))) ctx.counts.skipped++;
+}
+
+/** Uploads an appointment that isn't linked to an event yet. */
+async function syncUnlinkedAppointment(ctx: SyncContext, local: Appointment): Promise<void> {
+  const href = newEventHref(ctx.credentials, local.id);
+  const eventUid = appointmentEventUid(local.id);
+  const etag = await putEvent(ctx.credentials, href, buildAppointmentCalendar(local, { uid: eventUid }), "create");
+  // Something else already lives at our href; leave it for the next run's import.
+  if (!etag) {
+    console.warn(`[caldav] ${href} already exists; not uploading appointment ${local.id}`);
+    return;
+  }
+  await saveSyncRecord(ctx.userId, {
+    appointmentId: local.id,
+    href,
+    etag,
+    eventUid,
+    localHash: appointmentHash(local),
+    conflict: null,
+  });
+  ctx.counts.pushed++;
+}
+
+/**
+ * Runs one sync for the user. Records the outcome (counts or error) on the
+ * connection and returns the counts; throws if not connected or on failure.
+ */
+export async function syncCalendar(userId: string): Promise<CalDavSyncCounts> {
+  const credentials = await getCalDavCredentials(userId);
+  if (!credentials) throw new Error("Calendar sync is not connected");
+  const ctx: SyncContext = { userId, credentials, importCategory: credentials.importCategory, counts: emptyCounts() };
+
+  try {
+    const [remoteEvents, appointments, records] = await Promise.all([
+      listEvents(credentials),
+      readUserSubcollectionAdmin(userId, "appointments", snapshotToAppointment),
+      listSyncRecords(userId),
+    ]);
+    const remoteByHref = new Map(remoteEvents.map((remote) => [remote.href, parseRemote(remote)]));
+    const appointmentsById = new Map(appointments.map((a) => [a.id, a]));
+
+    for (const record of records) {
+      await syncLinked(ctx, record, appointmentsById.get(record.appointmentId) ?? null, remoteByHref.get(record.href) ?? null);
+      remoteByHref.delete(record.href);
+      appointmentsById.delete(record.appointmentId);
+    }
+    for (const remote of remoteByHref.values()) {
+      await syncUnlinkedEvent(ctx, remote, appointmentsById);
+    }
+    for (const local of appointmentsById.values()) {
+      await syncUnlinkedAppointment(ctx, local);
+    }
+
+    await recordSyncOutcome(userId, { lastError: null, lastResult: ctx.counts });
+    console.log(`[caldav] Synced user ${userId}:`, JSON.stringify(ctx.counts));
+    return ctx.counts;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await recordSyncOutcome(userId, { lastError: message, lastResult: ctx.counts });
+    throw error;
+  }
+}
+
+/**
+ * Resolves a conflict by keeping HelloCare's or the calendar's version of the
+ * appointment (which may be a deletion). Throws if there is no such conflict.
+ */
+export async function resolveConflict(
+  userId: string,
+  appointmentId: string,
+  keep: CalDavResolution,
+): Promise<void> {
+  const [credentials, record] = await Promise.all([getCalDavCredentials(userId), getSyncRecord(userId, appointmentId)]);
+  if (!credentials) throw new Error("Calendar sync is not connected");
+  if (!record?.conflict) throw new Error("No conflict for this appointment");
+  const ctx: SyncContext = { userId, credentials, importCategory: credentials.importCategory, counts: emptyCounts() };
+
+  const [local, remote] = await Promise.all([
+    readUserSubcollectionDocAdmin(userId, "appointments", appointmentId, snapshotToAppointment),
+    getEvent(credentials, record.href),
+  ]);
+
+  if (keep === "hellocare") {
+    if (local) {
+      const ics = buildAppointmentCalendar(local, { uid: record.eventUid });
+      const etag = await putEvent(credentials, record.href, ics, "overwrite");
+      await saveSyncRecord(userId, { ...record, etag: etag ?? "", localHash: appointmentHash(local), conflict: null });
+    } else {
+      if (remote) await deleteEvent(credentials, record.href, "overwrite");
+      await deleteSyncRecord(userId, appointmentId);
+    }
+    return;
+  }
+
+  if (remote) {
+    if (!(await pull(ctx, record, local, parseRemote(remote)))) {
+      throw new Error("The calendar event can't be an appointment (all-day or repeating)");
+    }
+  } else {
+    if (local) await deleteUserSubcollectionDocAdmin(userId, "appointments", appointmentId, CALDAV_AUDIT);
+    await deleteSyncRecord(userId, appointmentId);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * CalDAV sync types shared by the sync routes and the sync status screen.
+ * Dates are ISO strings: these are sent as JSON.
+ */
+
+/**
+ * Why an appointment needs the user to pick a side:
+ *   both-changed          – edited in HelloCare and in the calendar since the last sync
+ *   deleted-in-calendar   – edited in HelloCare, deleted in the calendar
+ *   deleted-in-hellocare  – deleted in HelloCare, edited in the calendar
+ */
+export type CalDavConflictKind = "both-changed" | "deleted-in-calendar" | "deleted-in-hellocare";
+
+/** One side of a conflict, as shown to the user. */
+export type CalDavConflictVersion = {
+  title: string;
+  /** ISO start time; null if the calendar event has none we can read. */
+  start: string | null;
+};
+
+export type CalDavConflict = {
+  appointmentId: string;
+  kind: CalDavConflictKind;
+  /** HelloCare's version; null if deleted there. */
+  local: CalDavConflictVersion | null;
+  /** The calendar's version; null if deleted there. */
+  remote: CalDavConflictVersion | null;
+  detectedAt: string;
+};
+
+/** Which side wins when resolving a conflict. */
+export type CalDavResolution = "hellocare" | "calendar";
+
+/** What one sync run did. */
+export type CalDavSyncCounts = {
+  /** HelloCare appointments created or updated in the calendar. */
+  pushed: number;
+  /** Calendar events created or updated in HelloCare. */
+  pulled: number;
+  deletedInCalendar: number;
+  deletedInHelloCare: number;
+  /** Calendar events that can't be appointments (all-day, repeating, no start time). */
+  skipped: number;
+  /** Appointments waiting for the user to resolve a conflict. */
+  conflicts: number;
+};
+
+/** Sync status for the status screen (never includes the password). */
+export type CalDavStatus = {
+  connected: boolean;
+  calendarUrl: string | null;
+  calendarName: string | null;
+  username: string | null;
+  /** Category an event needs to be imported; null imports every timed event (see CalDavConnection). */
+  importCategory: string | null;
+  lastSyncAt: string | null;
+  /** Error from the last sync, or null if it succeeded. */
+  lastError: string | null;
+  lastResult: CalDavSyncCounts | null;
+  /** Appointments linked to a calendar event. */
+  linkedCount: number;
+  conflicts: CalDavConflict[];
+};
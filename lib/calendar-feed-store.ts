@@ -0,0 +1,81 @@
+/**
+ * Calendar feed tokens – backed by Firestore (via Admin SDK).
+ *
+ * A user's calendar feed is published at a secret URL
+ * (/api/calendar-feed/{token}.ics) that calendar apps poll without signing in,
+ * so the token is the only credential. Each user has at most one token;
+ * regenerating replaces it and revoking deletes it, after which the old URL
+ * returns 404.
+ *
+ * Firestore document: _calendarFeeds/{token}
+ * Fields:
+ *   userId    – string (owner)
+ *   timeZone  – string (IANA zone of the owner's browser when created; missing on older tokens)
+ *   createdAt – Timestamp
+ *
+ * Not readable from the client (see firestore.rules); the token is returned
+ * to its owner by the authenticated /api/calendar-feed route only.
+ */
+
+import { randomBytes } from "crypto";
+import { getAdminDb } from "./firebase-admin";
+import { resolveTimeZone } from "./time-zone";
+
+const CALENDAR_FEEDS_COLLECTION = "_calendarFeeds";
+
+/** 32 random bytes; base64url keeps the token URL-safe. */
+const TOKEN_BYTES = 32;
+
+/** 32 bytes in unpadded base64url. */
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/** A feed token's owner and the time zone their feed's all-day events use. */
+export type CalendarFeed = {
+  userId: string;
+  timeZone: string;
+};
+
+function feedsCollection() {
+  return getAdminDb().collection(CALENDAR_FEEDS_COLLECTION);
+}
+
+/** Whether the value looks like a token handed out by regenerateCalendarFeedToken. */
+export function isCalendarFeedToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+/** The user's current feed token, or null if they have none. */
+export async function getCalendarFeedToken(userId: string): Promise<string | null> {
+  const snap = await feedsCollection().where("userId", "==", userId).limit(1).get();
+  return snap.empty ? null : snap.docs[0].id;
+}
+
+/** Delete every feed token of the user; their old feed URLs stop working. */
+export async function revokeCalendarFeedTokens(userId: string): Promise<void> {
+  const snap = await feedsCollection().where("userId", "==", userId).get();
+  if (snap.empty) return;
+  const batch = getAdminDb().batch();
+  for (const doc of snap.docs) batch.delete(doc.ref);
+  await batch.commit();
+  console.log(`[calendar-feed-store] Revoked ${snap.size} token(s) for user ${userId}`);
+}
+
+/** Replace the user's feed token with a new one. Returns the new token. */
+export async function regenerateCalendarFeedToken(userId: string, timeZone?: string): Promise<string> {
+  await revokeCalendarFeedTokens(userId);
+  const token = randomBytes(TOKEN_BYTES).toString("base64url");
+  await feedsCollection()
+    .doc(token)
+    .set({ userId, ...(timeZone && { timeZone }), createdAt: new Date() });
+  console.log(`[calendar-feed-store] New token for user ${userId}`);
+  return token;
+}
+
+/** The feed a token belongs to, or null if the token is malformed, unknown or revoked. */
+export async function findCalendarFeed(token: string): Promise<CalendarFeed | null> {
+  if (!isCalendarFeedToken(token)) return null;
+  const snap = await feedsCollection().doc(token).get();
+  const data = snap.data();
+  if (!snap.exists || typeof data?.userId !== "string") return null;
+  return { userId: data.userId, timeZone: resolveTimeZone(data.timeZone) ?? "UTC" };
+}
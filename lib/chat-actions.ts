@@ -11,6 +11,13 @@
  * - delete_appointment: Remove an appointment
  * - delete_session: Remove a past session
  * - open_health_note_recorder: Open the voice health-note recording modal
+ * - log_medication_dose: Log a dose of a medication action item as taken or missed
+ * - delete_document: Remove an uploaded/scanned document
+ * - attach_document_to_session / detach_document_from_session: Change a session's documents
+ * - link_action_item_to_session: Add an action item to a session
+ *
+ * The chat route also offers cite_sources (see Citations below), which is not
+ * in CHAT_TOOL_NAMES because it changes nothing and voice commands don't show sources.
  */
 
 import { z } from "zod";
@@ -27,6 +34,9 @@ export const NAVIGATE_PAGES = [
   "past_sessions",
   "schedule_appointment",
   "doctor_visit_conversation",
+  "history",
+  "documents",
+  "scan_documents",
 ] as const;
 
 export type NavigatePage = (typeof NAVIGATE_PAGES)[number];
@@ -40,6 +50,9 @@ export const PAGE_ROUTES: Record<NavigatePage, string> = {
   past_sessions: "/past-sessions",
   schedule_appointment: "/appointments/schedule",
   doctor_visit_conversation: "/appointments/conversation",
+  history: "/history",
+  documents: "/documents",
+  scan_documents: "/scan-documents",
 };
 
 // ---------------------------------------------------------------------------
@@ -76,6 +89,25 @@ export const HEALTH_NOTE_TYPE_VALUES = [
   "Temporary pain",
 ] as const;
 
+// ---------------------------------------------------------------------------
+// Appointment enums (must match lib/firestore/appointments.ts)
+// ---------------------------------------------------------------------------
+
+export const APPOINTMENT_STATUS_VALUES = [
+  "scheduled",
+  "confirmed",
+  "cancelled",
+  "completed",
+  "no-show",
+] as const;
+
+// ---------------------------------------------------------------------------
+// Medication dose enums (must match MedicationDoseStatus in lib/firestore/types.ts;
+// "late" is derived from the time, never chosen by the assistant)
+// ---------------------------------------------------------------------------
+
+export const MEDICATION_DOSE_STATUS_VALUES = ["taken", "missed"] as const;
+
 // ---------------------------------------------------------------------------
 // Tool registry (single source of truth for names + prompt docs)
 // ---------------------------------------------------------------------------
@@ -93,10 +125,43 @@ export const CHAT_TOOL_NAMES = [
   "create_health_note",
   "create_appointment",
   "create_session",
+  "log_medication_dose",
+  "delete_document",
+  "attach_document_to_session",
+  "detach_document_from_session",
+  "link_action_item_to_session",
 ] as const;
 
 export type ChatToolName = (typeof CHAT_TOOL_NAMES)[number];
 
+/**
+ * Tools that remove records. The client holds these as pending actions until
+ * the user confirms them, and offers a short undo window afterwards.
+ */
+export const DESTRUCTIVE_TOOL_NAMES = [
+  "delete_action_item",
+  "delete_health_note",
+  "delete_appointment",
+  "delete_session",
+  "delete_document",
+] as const satisfies readonly ChatToolName[];
+
+export type DestructiveToolName = (typeof DESTRUCTIVE_TOOL_NAMES)[number];
+
+/**
+ * What a tool's server-side execute returns. The model sees it as the tool
+ * result; the client only applies a call's side effects (navigation, pending
+ * deletes) when it succeeded.
+ */
+export type AssistantToolResult =
+  | { ok: true; message: string; id?: string }
+  | { ok: false; error: string };
+
+/** Whether a tool output (from a UI message part or the voice-command response) is a success. */
+export function isToolResultOk(output: unknown): boolean {
+  return typeof output === "object" && output != null && (output as { ok?: unknown }).ok === true;
+}
+
 type ToolSpec = {
   name: ChatToolName;
   action: string;
@@ -130,16 +195,17 @@ export const CHAT_TOOL_SPECS: ReadonlyArray<ToolSpec> = [
       "User asks to mark an action item done/skipped/in progress",
       "User asks to change action-item priority or type",
     ],
+    avoidWhen: ["Setting a recurring action item to pending or in progress (only done/skipped, for today's occurrence)"],
   },
   {
     name: "delete_action_item",
-    action: "Delete an action item",
+    action: "Delete an action item (held until the user confirms it in the app)",
     requiredArgs: ["id"],
     whenToUse: ["User explicitly asks to remove/delete an action item"],
   },
   {
     name: "delete_health_note",
-    action: "Delete a health note",
+    action: "Delete a health note (held until the user confirms it in the app)",
     requiredArgs: ["id"],
     whenToUse: ["User explicitly asks to remove/delete a health note"],
   },
@@ -151,13 +217,13 @@ export const CHAT_TOOL_SPECS: ReadonlyArray<ToolSpec> = [
   },
   {
     name: "delete_appointment",
-    action: "Delete an appointment",
+    action: "Delete an appointment (held until the user confirms it in the app)",
     requiredArgs: ["id"],
     whenToUse: ["User explicitly asks to cancel/delete an appointment entry"],
   },
   {
     name: "delete_session",
-    action: "Delete a past session",
+    action: "Delete a past session (held until the user confirms it in the app)",
     requiredArgs: ["id"],
     whenToUse: ["User explicitly asks to delete a past session/visit record"],
   },
@@ -187,6 +253,7 @@ export const CHAT_TOOL_SPECS: ReadonlyArray<ToolSpec> = [
     name: "create_appointment",
     action: "Create an appointment",
     requiredArgs: ["appointmentTime"],
+    optionalArgs: ["providerName", "clinic", "address", "reason", "status", "notes"],
     whenToUse: ["User asks to add/create an appointment"],
   },
   {
@@ -196,6 +263,42 @@ export const CHAT_TOOL_SPECS: ReadonlyArray<ToolSpec> = [
     optionalArgs: ["summary", "date"],
     whenToUse: ["User asks to log a past visit/session"],
   },
+  {
+    name: "log_medication_dose",
+    action: "Log a medication dose as taken or missed",
+    requiredArgs: ["id"],
+    optionalArgs: ["status", "takenAt"],
+    whenToUse: [
+      "User says they took a medication (e.g. \"I took my lisinopril\") — use the matching Medication action item's ID",
+      "User says they missed or skipped a dose (use status=missed)",
+    ],
+    avoidWhen: ["The action item has no medication details (use update_action_item instead)"],
+  },
+  {
+    name: "delete_document",
+    action: "Delete an uploaded/scanned document (held until the user confirms it in the app)",
+    requiredArgs: ["id"],
+    whenToUse: ["User explicitly asks to remove/delete a document or scan"],
+  },
+  {
+    name: "attach_document_to_session",
+    action: "Attach a document to a past session",
+    requiredArgs: ["documentId", "sessionId"],
+    whenToUse: ["User asks to attach/add/file a document (e.g. lab results) to a past visit"],
+  },
+  {
+    name: "detach_document_from_session",
+    action: "Remove a document from a past session (the document itself is kept)",
+    requiredArgs: ["documentId", "sessionId"],
+    whenToUse: ["User asks to unlink/remove a document from a past visit without deleting it"],
+    avoidWhen: ["User wants the document deleted entirely (use delete_document)"],
+  },
+  {
+    name: "link_action_item_to_session",
+    action: "Link an action item to a past session",
+    requiredArgs: ["actionItemId", "sessionId"],
+    whenToUse: ["User says an action item came from, or belongs to, a past visit"],
+  },
 ] as const;
 
 export function buildToolCatalogForPrompt(): string {
@@ -224,6 +327,8 @@ export function buildToolCatalogForPrompt(): string {
   lines.push(`- action_item.priority: ${ACTION_ITEM_PRIORITY_VALUES.join(", ")}`);
   lines.push(`- action_item.type: ${ACTION_ITEM_TYPE_VALUES.join(", ")}`);
   lines.push(`- health_note.type: ${HEALTH_NOTE_TYPE_VALUES.join(", ")}`);
+  lines.push(`- appointment.status: ${APPOINTMENT_STATUS_VALUES.join(", ")}`);
+  lines.push(`- medication_dose.status: ${MEDICATION_DOSE_STATUS_VALUES.join(", ")}`);
   lines.push("- date/time fields: use valid ISO 8601 strings");
   return lines.join("\n");
 }
@@ -297,6 +402,15 @@ export const createAppointmentSchema = z.object({
     .string()
     .refine((value) => !Number.isNaN(Date.parse(value)), "Must be a valid ISO 8601 date-time string")
     .describe("ISO 8601 date-time string for the appointment"),
+  providerName: z.string().optional().describe("Name of the doctor or other provider the visit is with"),
+  clinic: z.string().optional().describe("Clinic, hospital or department"),
+  address: z.string().optional().describe("Street address of the visit"),
+  reason: z.string().optional().describe("Why the visit was booked"),
+  status: z
+    .enum(APPOINTMENT_STATUS_VALUES)
+    .optional()
+    .describe("Appointment status (defaults to scheduled; use confirmed if the clinic has confirmed it)"),
+  notes: z.string().optional().describe("Anything else the user wants to remember about the visit"),
 });
 
 export const createSessionSchema = z.object({
@@ -309,6 +423,110 @@ export const createSessionSchema = z.object({
     .describe("ISO 8601 date string for when the visit occurred (defaults to now)"),
 });
 
+export const logMedicationDoseSchema = z.object({
+  id: z.string().describe("The medication action item ID"),
+  status: z
+    .enum(MEDICATION_DOSE_STATUS_VALUES)
+    .optional()
+    .describe("taken (default) or missed"),
+  takenAt: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Must be a valid ISO 8601 date-time string")
+    .optional()
+    .describe("ISO 8601 date-time the dose was taken, if the user said (defaults to now)"),
+});
+
+// ---------------------------------------------------------------------------
+// Document and session-link schemas
+// ---------------------------------------------------------------------------
+
+export const deleteDocumentSchema = z.object({
+  id: z.string().describe("The document ID to delete"),
+});
+
+export const attachDocumentToSessionSchema = z.object({
+  documentId: z.string().describe("The document ID to attach"),
+  sessionId: z.string().describe("The past session ID to attach it to"),
+});
+
+export const detachDocumentFromSessionSchema = z.object({
+  documentId: z.string().describe("The document ID to remove from the session"),
+  sessionId: z.string().describe("The past session ID to remove it from"),
+});
+
+export const linkActionItemToSessionSchema = z.object({
+  actionItemId: z.string().describe("The action item ID to link"),
+  sessionId: z.string().describe("The past session ID to link it to"),
+});
+
+// ---------------------------------------------------------------------------
+// Citations (chat only)
+// ---------------------------------------------------------------------------
+
+/** Kinds of record an answer can cite, named after their subcollections. */
+export const CITATION_ENTITY_TYPES = [
+  "healthNotes",
+  "actionItems",
+  "sessionMetadata",
+  "appointments",
+  "documents",
+] as const;
+
+export type CitationEntityType = (typeof CITATION_ENTITY_TYPES)[number];
+
+/** A record an answer relied on. */
+export type Citation = { type: CitationEntityType; id: string };
+
+/** Page each kind of cited record is shown on; opened with ?highlight={id}. */
+export const CITATION_ROUTES: Record<CitationEntityType, string> = {
+  healthNotes: PAGE_ROUTES.health_notes,
+  actionItems: PAGE_ROUTES.action_items,
+  sessionMetadata: PAGE_ROUTES.past_sessions,
+  appointments: PAGE_ROUTES.appointments,
+  documents: PAGE_ROUTES.documents,
+};
+
+export const CITE_SOURCES_TOOL_NAME = "cite_sources";
+
+export const citeSourcesSchema = z.object({
+  sources: z
+    .array(
+      z.object({
+        type: z.enum(CITATION_ENTITY_TYPES),
+        id: z.string().describe("The record's ID from the context"),
+      }),
+    )
+    .min(1)
+    .describe("The records the answer is based on"),
+});
+
+/** Result of cite_sources: only citations of records the model was shown are kept. */
+export type CiteSourcesResult =
+  | { ok: true; message: string; citations: Citation[] }
+  | { ok: false; error: string };
+
+export function citationKey(citation: Citation): string {
+  return `${citation.type}/${citation.id}`;
+}
+
+/** Accepted citations in an assistant message's parts, in order and without duplicates. */
+export function getMessageCitations(parts: readonly { type: string }[]): Citation[] {
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+  for (const part of parts) {
+    if (part.type !== `tool-${CITE_SOURCES_TOOL_NAME}`) continue;
+    const { state, output } = part as { state?: string; output?: unknown };
+    if (state !== "output-available" || !isToolResultOk(output)) continue;
+    for (const citation of (output as { citations?: Citation[] }).citations ?? []) {
+      const key = citationKey(citation);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      citations.push(citation);
+    }
+  }
+  return citations;
+}
+
 // ---------------------------------------------------------------------------
 // Discriminated union of all tool-call inputs (used by the client dispatcher)
 // ---------------------------------------------------------------------------
@@ -324,3 +542,8 @@ export type CreateActionItemInput = z.infer<typeof createActionItemSchema>;
 export type CreateHealthNoteInput = z.infer<typeof createHealthNoteSchema>;
 export type CreateAppointmentInput = z.infer<typeof createAppointmentSchema>;
 export type CreateSessionInput = z.infer<typeof createSessionSchema>;
+export type LogMedicationDoseInput = z.infer<typeof logMedicationDoseSchema>;
+export type DeleteDocumentInput = z.infer<typeof deleteDocumentSchema>;
+export type AttachDocumentToSessionInput = z.infer<typeof attachDocumentToSessionSchema>;
+export type DetachDocumentFromSessionInput = z.infer<typeof detachDocumentFromSessionSchema>;
+export type LinkActionItemToSessionInput = z.infer<typeof linkActionItemToSessionSchema>;
@@ -14,6 +14,18 @@ export type ChatContextAppointment = {
   id: string;
   appointmentTime: string;
   scheduledOn: string;
+  providerName?: string;
+  clinic?: string;
+  address?: string;
+  reason?: string;
+  status?: string;
+  notes?: string;
+};
+
+export type ChatContextDocument = {
+  id: string;
+  summary: string;
+  uploadedAt: string;
 };
 
 export type ChatContext = {
@@ -22,8 +34,27 @@ export type ChatContext = {
   actionItems?: ActionItem[];
   sessionMetadata?: SessionMetadata[];
   appointments?: ChatContextAppointment[];
+  documents?: ChatContextDocument[];
+  /** The user's IANA time zone, e.g. "Europe/Berlin". */
+  timeZone?: string;
 };
 
+// ---------------------------------------------------------------------------
+// Appointment details
+// ---------------------------------------------------------------------------
+
+/** Who, where, why and status of an appointment, for its line in the prompt; empty fields are left out. */
+export function describeAppointment(a: ChatContextAppointment): string {
+  const where = [a.clinic, a.address].filter(Boolean).join(", ");
+  return [
+    a.providerName ? ` with ${a.providerName}` : "",
+    where ? ` at ${where}` : "",
+    a.reason ? ` for ${a.reason}` : "",
+    a.status ? ` [status: ${a.status}]` : "",
+    a.notes ? ` Notes: ${a.notes}` : "",
+  ].join("");
+}
+
 // ---------------------------------------------------------------------------
 // Date formatting
 // ---------------------------------------------------------------------------
@@ -54,10 +85,12 @@ export function buildSystemPrompt(
         "",
         "## Critical rules",
         "- This is a ONE-SHOT interaction with NO conversation history. You cannot ask follow-up questions because the user cannot reply. Execute the action immediately or explain why you cannot.",
-        "- NEVER ask for confirmation (e.g. \"Are you sure?\"). There is no way for the user to respond. Just do it.",
+        "- NEVER ask for confirmation (e.g. \"Are you sure?\") in your reply. There is no way for the user to reply. Just call the tool.",
+        "- Delete tools are not applied immediately: the app shows the record with Confirm and Cancel buttons. When you call one, say what will be removed once confirmed (e.g. \"Delete your knee pain note? Tap Confirm to remove it.\").",
         "- Use ONLY the information provided in the context below. Do not invent, assume, or hallucinate any data.",
-        "- When the user's intent maps to a tool, you MUST call the tool. Your text reply should briefly describe what you did (e.g. \"Deleted your health note about knee pain.\").",
+        "- When the user's intent maps to a tool, you MUST call the tool. Your text reply should briefly describe what you did (e.g. \"Marked your physio exercises as done.\").",
         "- NEVER claim you performed an action (created, deleted, updated, navigated, etc.) unless you actually called the corresponding tool in this response. If you did not call a tool, do not say you did.",
+        "- Tool results report what actually happened. If a tool returns ok: false, say it did not work and why instead of claiming success.",
         "- If you cannot fulfill the request (e.g. no matching item found, ambiguous request with multiple matches), explain what went wrong and what the user should try instead.",
         "- Keep responses very short (1 sentence). This is a quick voice interaction.",
         "- You may call multiple tools in a single response when the user's request requires it.",
@@ -72,7 +105,7 @@ export function buildSystemPrompt(
         "- The \"Past sessions\" section contains PAST visits/sessions only. Do NOT use it to answer questions about upcoming or future appointments.",
         "- When you call a tool, ALWAYS also include a short natural-language reply describing what you did (e.g. \"Opening your appointments now.\" or \"Done — I've marked that action item as complete.\").",
         "- NEVER claim you performed an action (created, deleted, updated, navigated, etc.) unless you actually called the corresponding tool in this response. If you did not call a tool, do not say you did.",
-        "- For destructive actions (deleting items), describe what you deleted in your text reply so the user knows exactly what was removed.",
+        "- Deletions are held until the user taps Confirm in the app, so do not ask \"Are you sure?\" in text. When you call a delete tool, name exactly what will be removed and that it needs their confirmation.",
         "- You may call multiple tools in a single response when the user's request requires it (e.g. \"mark all my action items as done\").",
       ];
 
@@ -119,10 +152,14 @@ export function buildSystemPrompt(
       "",
       "## Past sessions only (NOT upcoming appointments)",
       "The following are past visits/sessions. Do NOT use this list for questions about upcoming or future appointments.",
-      ...context.sessionMetadata.map(
-        (s) =>
-          `- [id: ${s.id}] [${formatDate(s.date)}] ${s.title}: ${s.summary || "(no summary)"}`,
-      ),
+      ...context.sessionMetadata.map((s) => {
+        const links = [
+          s.documentIds?.length ? `documents: ${s.documentIds.join(", ")}` : "",
+          s.actionItemIds?.length ? `action items: ${s.actionItemIds.join(", ")}` : "",
+        ].filter(Boolean);
+        const linked = links.length > 0 ? ` [${links.join("; ")}]` : "";
+        return `- [id: ${s.id}] [${formatDate(s.date)}] ${s.title}: ${s.summary || "(no summary)"}${linked}`;
+      }),
     );
   }
 
@@ -133,7 +170,18 @@ export function buildSystemPrompt(
       "## Upcoming appointments",
       ...context.appointments.map(
         (a) =>
-          `- [id: ${a.id}] Appointment on ${formatDate(a.appointmentTime)} (scheduled ${formatDate(a.scheduledOn)})`,
+          `- [id: ${a.id}] Appointment on ${formatDate(a.appointmentTime)}${describeAppointment(a)} (scheduled ${formatDate(a.scheduledOn)})`,
+      ),
+    );
+  }
+
+  // ---- Documents ----------------------------------------------------------
+  if (context.documents && context.documents.length > 0) {
+    parts.push(
+      "",
+      "## Documents (uploaded / scanned)",
+      ...context.documents.map(
+        (d) => `- [id: ${d.id}] [uploaded ${formatDate(d.uploadedAt)}] ${d.summary}`,
       ),
     );
   }
@@ -0,0 +1,15 @@
+/**
+ * Browser file downloads (client only).
+ */
+
+/** Saves a blob through a temporary object URL. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
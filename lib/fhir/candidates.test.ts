@@ -0,0 +1,84 @@
+import type { Firestore } from "firebase/firestore";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { writeActionItem, writeSessionMetadata } from "@/lib/firestore/api";
+import type { ActionItem, HealthNote } from "@/lib/firestore/types";
+import { findDuplicates, writeImportCandidates, type ExistingRecords, type ImportCandidate } from "./candidates";
+
+vi.mock("@/lib/firestore/api", () => {
+  const ok = () => vi.fn(async (_db: unknown, _uid: string, data: unknown) => ({ ok: true, data }));
+  return {
+    writeActionItem: ok(),
+    writeAppointment: ok(),
+    writeDocument: ok(),
+    writeHealthNote: ok(),
+    writeSessionMetadata: ok(),
+  };
+});
+
+const noRecords: ExistingRecords = {
+  healthNotes: [],
+  actionItems: [],
+  appointments: [],
+  sessionMetadata: [],
+  documents: [],
+};
+
+const day = new Date("2026-01-10T12:00:00Z");
+
+function note(id: string, title: string): HealthNote {
+  return { id, userId: "user-1", date: day, startedAt: day, endedAt: new Date(0), type: "General", title, description: "" };
+}
+
+function task(id: string, title: string): ActionItem {
+  return {
+    id,
+    userId: "user-1",
+    dueBy: day,
+    type: "Other",
+    title,
+    description: "",
+    status: "pending",
+    priority: "medium",
+    recurrence: "none",
+  };
+}
+
+describe("findDuplicates", () => {
+  it("matches by content, not by id", () => {
+    const existing = { ...noRecords, healthNotes: [note("1", "Migraine")] };
+    const candidates: ImportCandidate[] = [
+      { kind: "healthNotes", key: "healthNotes/1", source: "Observation/1", data: note("1", "Blood pressure") },
+      { kind: "healthNotes", key: "healthNotes/2", source: "Condition/2", data: note("2", "Migraine") },
+    ];
+
+    expect(findDuplicates(candidates, existing)).toEqual(new Set(["healthNotes/2"]));
+  });
+});
+
+describe("writeImportCandidates", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("saves a candidate whose id is taken under a new id", async () => {
+    const existing = { ...noRecords, actionItems: [task("task-1", "Book a follow-up")] };
+    const candidates: ImportCandidate[] = [
+      { kind: "actionItems", key: "actionItems/task-1", source: "Task/task-1", data: task("task-1", "Refill inhaler") },
+      {
+        kind: "sessionMetadata",
+        key: "sessionMetadata/visit-1",
+        source: "Encounter/visit-1",
+        data: { id: "visit-1", date: day, title: "Checkup", summary: "", discussionTopics: [], actionItemIds: ["task-1"], documentIds: [] },
+      },
+    ];
+
+    const result = await writeImportCandidates({} as Firestore, "user-1", candidates, existing);
+
+    expect(result).toEqual({ written: 2, failed: [] });
+    const savedItem = vi.mocked(writeActionItem).mock.calls[0][2];
+    expect(savedItem.id).not.toBe("task-1");
+    expect(savedItem.title).toBe("Refill inhaler");
+    const savedSession = vi.mocked(writeSessionMetadata).mock.calls[0][2];
+    expect(savedSession.actionItemIds).toEqual([savedItem.id]);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Records parsed from an imported file (FHIR bundle or C-CDA), before the user
+ * accepts them. Parsers produce ImportCandidates; the preview flags likely
+ * duplicates of existing data; accepted candidates are saved with the
+ * lib/firestore write* functions.
+ */
+
+import type { Firestore } from "firebase/firestore";
+import {
+  writeActionItem,
+  writeAppointment,
+  writeDocument,
+  writeHealthNote,
+  writeSessionMetadata,
+} from "@/lib/firestore/api";
+import type {
+  ActionItem,
+  ActionItemCreate,
+  Appointment,
+  AppointmentCreate,
+  AuditContext,
+  Document as AppDocument,
+  HealthNote,
+  HealthNoteCreate,
+  SessionMetadata,
+} from "@/lib/firestore/types";
+
+type CandidateBase = {
+  /** Unique within one import ("{kind}/{data.id}"). */
+  key: string;
+  /** Where the record came from, e.g. "Condition/123" or "Problems section". */
+  source: string;
+};
+
+/** A record ready to write, keyed by its target subcollection. */
+export type ImportCandidate =
+  | (CandidateBase & { kind: "healthNotes"; data: HealthNoteCreate })
+  | (CandidateBase & { kind: "actionItems"; data: ActionItemCreate })
+  | (CandidateBase & { kind: "appointments"; data: AppointmentCreate })
+  | (CandidateBase & { kind: "sessionMetadata"; data: Omit<SessionMetadata, "userId"> })
+  | (CandidateBase & { kind: "documents"; data: Omit<AppDocument, "userId"> });
+
+export type ImportKind = ImportCandidate["kind"];
+
+/** Subcollections in the order they are shown and written (sessions last, so links resolve). */
+export const IMPORT_KINDS: readonly ImportKind[] = [
+  "healthNotes",
+  "actionItems",
+  "appointments",
+  "documents",
+  "sessionMetadata",
+];
+
+export type ImportFormat = "fhir" | "ccda";
+
+export type ParsedImport = {
+  format: ImportFormat;
+  candidates: ImportCandidate[];
+  /** Entries that could not be mapped (unsupported resource types, missing data). */
+  skipped: number;
+};
+
+/** The user's current data, for duplicate detection. */
+export type ExistingRecords = {
+  healthNotes: HealthNote[];
+  actionItems: ActionItem[];
+  appointments: Appointment[];
+  sessionMetadata: SessionMetadata[];
+  documents: AppDocument[];
+};
+
+export type ImportResult = {
+  written: number;
+  failed: { candidate: ImportCandidate; error: Error }[];
+};
+
+/** Appointments this close together are treated as the same appointment. */
+const SAME_APPOINTMENT_MS = 60 * 1000;
+
+/** Imports are made by the user; the reason marks them in history. */
+const IMPORT_AUDIT: AuditContext = { actor: "user", reason: "import" };
+
+/** Summaries are compared on this many leading characters. */
+const SUMMARY_COMPARE_LENGTH = 200;
+
+/** Short display title for a candidate. */
+export function getCandidateTitle(candidate: ImportCandidate): string {
+  switch (candidate.kind) {
+    case "healthNotes":
+    case "actionItems":
+    case "sessionMetadata":
+      return candidate.data.title;
+    case "documents":
+      return candidate.data.summary.trim().split(/\n/)[0]?.slice(0, 80) ?? "";
+    case "appointments":
+      return "";
+  }
+}
+
+/** Main date of a candidate (0 when unknown). */
+export function getCandidateDate(candidate: ImportCandidate): Date {
+  switch (candidate.kind) {
+    case "healthNotes":
+      return candidate.data.startedAt.getTime() > 0 ? candidate.data.startedAt : candidate.data.date;
+    case "actionItems":
+      return candidate.data.dueBy;
+    case "appointments":
+      return candidate.data.appointmentTime;
+    case "sessionMetadata":
+      return candidate.data.date;
+    case "documents":
+      return candidate.data.uploadedAt;
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Local calendar day, or "" for missing dates (stored as epoch 0). */
+function dayKey(date: Date): string {
+  return date.getTime() > 0 ? date.toDateString() : "";
+}
+
+/** Comparable signature for a record: equal signatures mean "same record". */
+function signature(kind: ImportKind, record: unknown): string {
+  switch (kind) {
+    case "healthNotes": {
+      const note = record as HealthNoteCreate;
+      return `${normalize(note.title)}|${dayKey(note.startedAt.getTime() > 0 ? note.startedAt : note.date)}`;
+    }
+    case "actionItems": {
+      // Medications match by name alone; other items also need the same due day.
+      const item = record as ActionItemCreate;
+      if (item.medication) return `med|${normalize(item.medication.name)}`;
+      return `task|${normalize(item.title)}|${dayKey(item.dueBy)}`;
+    }
+    case "sessionMetadata": {
+      const session = record as SessionMetadata;
+      return `${normalize(session.title)}|${dayKey(session.date)}`;
+    }
+    case "documents":
+      return normalize((record as AppDocument).summary).slice(0, SUMMARY_COMPARE_LENGTH);
+    case "appointments":
+      return String(Math.round((record as Appointment).appointmentTime.getTime() / SAME_APPOINTMENT_MS));
+  }
+}
+
+/**
+ * Returns the keys of candidates that look like records the user already has,
+ * or like an earlier candidate in the same file. Matching is by content, not
+ * id (ids from other systems can coincide with unrelated records): title and
+ * day for notes and sessions, medication name (or title and due day) for
+ * action items, start time to the minute for appointments, leading summary
+ * text for documents.
+ */
+export function findDuplicates(candidates: ImportCandidate[], existing: ExistingRecords): Set<string> {
+  const signatures = new Map<ImportKind, Set<string>>();
+  for (const kind of IMPORT_KINDS) {
+    signatures.set(kind, new Set((existing[kind] as unknown[]).map((r) => signature(kind, r))));
+  }
+
+  const duplicates = new Set<string>();
+  for (const candidate of candidates) {
+    const sig = signature(candidate.kind, candidate.data);
+    const seen = signatures.get(candidate.kind)!;
+    if (seen.has(sig)) duplicates.add(candidate.key);
+    seen.add(sig);
+  }
+  return duplicates;
+}
+
+/**
+ * Saves the accepted candidates. A candidate whose id the user already has is
+ * saved under a new id, so an import never overwrites existing records.
+ * Sessions are written last, and their actionItemIds / documentIds are limited
+ * to records that exist after the import (accepted now or already saved), so
+ * rejected records leave no dangling links.
+ */
+export async function writeImportCandidates(
+  db: Firestore,
+  uid: string,
+  accepted: ImportCandidate[],
+  existing: ExistingRecords,
+): Promise<ImportResult> {
+  const result: ImportResult = { written: 0, failed: [] };
+  const takenIds = new Set(
+    IMPORT_KINDS.flatMap((kind) => (existing[kind] as { id: string }[]).map((record) => `${kind}/${record.id}`)),
+  );
+  const savedIds = new Set<string>([
+    ...existing.actionItems.map((item) => item.id),
+    ...existing.documents.map((document) => document.id),
+  ]);
+  // Imported id → id it was saved under, for records that had to be renamed.
+  const renamed = new Map<string, string>();
+  const savedId = (kind: ImportKind, id: string) => renamed.get(`${kind}/${id}`) ?? id;
+
+  const ordered = [...accepted].sort((a, b) => IMPORT_KINDS.indexOf(a.kind) - IMPORT_KINDS.indexOf(b.kind));
+  for (const candidate of ordered) {
+    const key = `${candidate.kind}/${candidate.data.id}`;
+    const id = takenIds.has(key) ? crypto.randomUUID() : candidate.data.id;
+    if (id !== candidate.data.id) renamed.set(key, id);
+    let written;
+    switch (candidate.kind) {
+      case "healthNotes":
+        written = await writeHealthNote(db, uid, { ...candidate.data, id }, IMPORT_AUDIT);
+        break;
+      case "actionItems":
+        written = await writeActionItem(db, uid, { ...candidate.data, id }, IMPORT_AUDIT);
+        break;
+      case "appointments":
+        written = await writeAppointment(db, uid, { ...candidate.data, id }, IMPORT_AUDIT);
+        break;
+      case "documents":
+        written = await writeDocument(db, uid, { ...candidate.data, id }, IMPORT_AUDIT);
+        break;
+      case "sessionMetadata":
+        written = await writeSessionMetadata(db, uid, {
+          ...candidate.data,
+          id,
+          actionItemIds: candidate.data.actionItemIds
+            .map((itemId) => savedId("actionItems", itemId))
+            .filter((itemId) => savedIds.has(itemId)),
+          documentIds: candidate.data.documentIds
+            .map((documentId) => savedId("documents", documentId))
+            .filter((documentId) => savedIds.has(documentId)),
+        }, IMPORT_AUDIT);
+        break;
+    }
+    if (written.ok) {
+      result.written += 1;
+      takenIds.add(`${candidate.kind}/${id}`);
+      savedIds.add(id);
+    } else {
+      result.failed.push({ candidate, error: written.error });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,360 @@
+/**
+ * Maps a C-CDA (HL7 CDA R2) XML document to import candidates. Browser only
+ * (uses DOMParser).
+ *
+ * Sections are recognised by their LOINC code:
+ *   Problems (11450-4), Allergies (48765-2), Results (30954-2),
+ *     Vital signs (8716-3)                   → HealthNote
+ *   Medications (10160-0)                     → ActionItem with medication
+ *   Plan of care (18776-5)                    → ActionItem, or Appointment for
+ *                                               planned encounters with a time
+ *   Encounters (46240-8)                      → SessionMetadata
+ * The whole document's narrative is also offered as one Document, linked to a
+ * session for the header's encompassing encounter when there is one.
+ */
+
+import type { ActionItemCreate, HealthNoteCreate, RecurrenceFrequency } from "@/lib/firestore/types";
+import type { ImportCandidate, ParsedImport } from "./candidates";
+
+const SECTION_CODES = {
+  problems: "11450-4",
+  allergies: "48765-2",
+  medications: "10160-0",
+  results: "30954-2",
+  vitalSigns: "8716-3",
+  planOfCare: "18776-5",
+  encounters: "46240-8",
+} as const;
+
+/** Note type for imported records (CDA has no pain classification). */
+const NOTE_TYPE = "General";
+
+/** Mood codes for planned (future) activities. */
+const PLANNED_MOODS: ReadonlySet<string> = new Set(["INT", "RQO", "ARQ", "PRMS", "PRP", "APT"]);
+
+const PIVL_FREQUENCIES: Record<string, RecurrenceFrequency> = { d: "daily", wk: "weekly", mo: "monthly" };
+
+// ---------------------------------------------------------------------------
+// XML helpers (namespace-agnostic)
+// ---------------------------------------------------------------------------
+
+function childElements(el: Element, name: string): Element[] {
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+/** First element along a path of child names, e.g. child(el, "consumable", "manufacturedProduct"). */
+function child(el: Element | null | undefined, ...path: string[]): Element | null {
+  let current: Element | null = el ?? null;
+  for (const name of path) {
+    if (!current) return null;
+    current = childElements(current, name)[0] ?? null;
+  }
+  return current;
+}
+
+function descendants(el: Element, name: string): Element[] {
+  return Array.from(el.getElementsByTagNameNS("*", name));
+}
+
+function text(el: Element | null | undefined): string {
+  return (el?.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** Parses an HL7 TS value (yyyyMMddHHmmss±zzzz, any precision) to a Date; epoch 0 when missing. */
+function parseTs(value: string | null | undefined): Date {
+  const m = value ? /^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{2})?(\d{2})?/.exec(value) : null;
+  if (!m) return new Date(0);
+  const [, y, mo = "01", d = "01", h = "00", mi = "00", s = "00", tzH, tzM = "00"] = m;
+  const iso = `${y}-${mo}-${d}T${h}:${mi}:${s}${tzH ? `${tzH}:${tzM}` : ""}`;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? new Date(0) : date;
+}
+
+/** Low/high (or single value) of an effectiveTime element. */
+function timeRange(el: Element | null): { low: Date; high: Date } {
+  if (!el) return { low: new Date(0), high: new Date(0) };
+  const value = el.getAttribute("value");
+  if (value) return { low: parseTs(value), high: new Date(0) };
+  return {
+    low: parseTs(child(el, "low")?.getAttribute("value")),
+    high: parseTs(child(el, "high")?.getAttribute("value")),
+  };
+}
+
+function orNow(date: Date, now: Date): Date {
+  return date.getTime() > 0 ? date : now;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+/** Parses a C-CDA document. Throws if the XML is malformed or not a ClinicalDocument. */
+export function parseCcda(xml: string, now: Date = new Date()): ParsedImport {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName("parsererror").length > 0 || root.localName !== "ClinicalDocument") {
+    throw new Error("Not a C-CDA ClinicalDocument");
+  }
+
+  // Narrative elements referenced by <originalText><reference value="#id"/>.
+  const narrativeById = new Map<string, string>();
+  for (const el of descendants(root, "*")) {
+    const id = el.getAttribute("ID");
+    if (id) narrativeById.set(id, text(el));
+  }
+
+  /** Human-readable name of a coded element. */
+  const codeText = (el: Element | null): string => {
+    if (!el) return "";
+    const ref = child(el, "originalText", "reference")?.getAttribute("value");
+    return (
+      el.getAttribute("displayName")?.trim() ||
+      (ref ? narrativeById.get(ref.replace(/^#/, "")) : undefined) ||
+      text(child(el, "originalText")) ||
+      child(el, "translation")?.getAttribute("displayName")?.trim() ||
+      ""
+    );
+  };
+
+  /** An entry's own narrative text (<text><reference/>), if any. */
+  const entryText = (el: Element): string => {
+    const ref = child(el, "text", "reference")?.getAttribute("value");
+    return (ref ? narrativeById.get(ref.replace(/^#/, "")) : undefined) || text(child(el, "text"));
+  };
+
+  const candidates: ImportCandidate[] = [];
+  let skipped = 0;
+  const addNote = (data: HealthNoteCreate, source: string) =>
+    candidates.push({ kind: "healthNotes", key: `healthNotes/${data.id}`, source, data });
+  const addItem = (data: ActionItemCreate, source: string) =>
+    candidates.push({ kind: "actionItems", key: `actionItems/${data.id}`, source, data });
+
+  const sections = descendants(root, "section");
+  const sectionFor = (code: string) => sections.filter((s) => child(s, "code")?.getAttribute("code") === code);
+  const entriesOf = (section: Element) =>
+    childElements(section, "entry").map((e) => Array.from(e.children)[0]).filter((e): e is Element => !!e);
+
+  // Problems: act → entryRelationship → observation (value is the problem).
+  for (const section of sectionFor(SECTION_CODES.problems)) {
+    for (const entry of entriesOf(section)) {
+      const observation = entry.localName === "observation" ? entry : descendants(entry, "observation")[0];
+      const title = codeText(child(observation, "value")) || codeText(child(observation, "code"));
+      if (!observation || !title) {
+        skipped += 1;
+        continue;
+      }
+      const { low, high } = timeRange(child(observation, "effectiveTime") ?? child(entry, "effectiveTime"));
+      addNote(
+        { id: crypto.randomUUID(), type: NOTE_TYPE, title, description: entryText(observation), date: orNow(low, now), startedAt: low, endedAt: high },
+        "Problems",
+      );
+    }
+  }
+
+  // Allergies: the substance is the observation's participant; reactions are nested observations.
+  for (const section of sectionFor(SECTION_CODES.allergies)) {
+    for (const entry of entriesOf(section)) {
+      const observation = descendants(entry, "observation")[0];
+      const substance =
+        codeText(child(observation, "participant", "participantRole", "playingEntity", "code")) ||
+        text(child(observation, "participant", "participantRole", "playingEntity", "name")) ||
+        codeText(child(observation, "value"));
+      if (!observation || !substance) {
+        skipped += 1;
+        continue;
+      }
+      const reactions = descendants(observation, "entryRelationship")
+        .map((rel) => codeText(child(rel, "observation", "value")))
+        .filter(Boolean);
+      const { low } = timeRange(child(observation, "effectiveTime"));
+      addNote(
+        {
+          id: crypto.randomUUID(),
+          type: NOTE_TYPE,
+          title: `Allergy: ${substance}`,
+          description: [...new Set(reactions)].join(", "),
+          date: orNow(low, now),
+          startedAt: low,
+          endedAt: new Date(0),
+        },
+        "Allergies",
+      );
+    }
+  }
+
+  // Results and vital signs: organizer → component → observation.
+  for (const [code, label] of [
+    [SECTION_CODES.results, "Results"],
+    [SECTION_CODES.vitalSigns, "Vital signs"],
+  ] as const) {
+    for (const section of sectionFor(code)) {
+      for (const observation of entriesOf(section).flatMap((e) =>
+        e.localName === "observation" ? [e] : descendants(e, "observation"),
+      )) {
+        const title = codeText(child(observation, "code"));
+        const value = child(observation, "value");
+        const valueText = value
+          ? `${value.getAttribute("value") ?? ""} ${value.getAttribute("unit") ?? ""}`.trim() || codeText(value) || text(value)
+          : "";
+        if (!title || !valueText) {
+          skipped += 1;
+          continue;
+        }
+        const { low } = timeRange(child(observation, "effectiveTime"));
+        addNote(
+          { id: crypto.randomUUID(), type: NOTE_TYPE, title, description: valueText, date: orNow(low, now), startedAt: low, endedAt: new Date(0) },
+          label,
+        );
+      }
+    }
+  }
+
+  // Medications: substanceAdministration with an IVL_TS (course) and optional PIVL_TS (repeat).
+  for (const section of sectionFor(SECTION_CODES.medications)) {
+    for (const entry of entriesOf(section)) {
+      const admin = entry.localName === "substanceAdministration" ? entry : descendants(entry, "substanceAdministration")[0];
+      const material = child(admin, "consumable", "manufacturedProduct", "manufacturedMaterial");
+      const name = codeText(child(material, "code")) || text(child(material, "name"));
+      if (!admin || !name) {
+        skipped += 1;
+        continue;
+      }
+      const times = childElements(admin, "effectiveTime");
+      const course = times.find((t) => child(t, "low") || child(t, "high") || t.getAttribute("value"));
+      const period = times.map((t) => child(t, "period")).find(Boolean);
+      const { low, high } = timeRange(course ?? null);
+      const unit = period?.getAttribute("unit") ?? "";
+      // Hourly schedules (e.g. every 8 h) repeat daily; the dose count per day is in the description.
+      const frequency = PIVL_FREQUENCIES[unit] ?? (unit === "h" ? "daily" : undefined);
+      const interval = unit === "h" ? 1 : Math.max(1, Math.round(Number(period?.getAttribute("value")) || 1));
+      const dose = child(admin, "doseQuantity");
+      const route = codeText(child(admin, "routeCode"));
+      const status = child(admin, "statusCode")?.getAttribute("code");
+      addItem(
+        {
+          id: crypto.randomUUID(),
+          type: "Medication",
+          title: name,
+          description: entryText(admin) || name,
+          status: status === "completed" ? "done" : status === "aborted" || status === "cancelled" ? "skipped" : "pending",
+          priority: "medium",
+          recurrence: frequency ?? "none",
+          recurrenceRule: frequency ? { frequency, interval, until: high.getTime() > 0 ? high : null } : undefined,
+          dueBy: orNow(low, now),
+          medication: {
+            name,
+            dose: Number(dose?.getAttribute("value")) || 0,
+            dosageUnit: dose?.getAttribute("unit") ?? "",
+            count: 1,
+            route,
+          },
+        },
+        "Medications",
+      );
+    }
+  }
+
+  // Plan of care: planned activities become action items; planned encounters with a time become appointments.
+  for (const section of sectionFor(SECTION_CODES.planOfCare)) {
+    for (const entry of entriesOf(section)) {
+      const mood = entry.getAttribute("moodCode") ?? "";
+      const title = codeText(child(entry, "code")) || entryText(entry);
+      const { low, high } = timeRange(child(entry, "effectiveTime"));
+      if (!PLANNED_MOODS.has(mood) || !title) {
+        skipped += 1;
+        continue;
+      }
+      if (entry.localName === "encounter" && low.getTime() > 0) {
+        const id = crypto.randomUUID();
+        candidates.push({
+          kind: "appointments",
+          key: `appointments/${id}`,
+          source: "Plan of care",
+          data: { id, appointmentTime: low, scheduledOn: now, reason: title },
+        });
+        continue;
+      }
+      addItem(
+        {
+          id: crypto.randomUUID(),
+          type: entry.localName === "encounter" ? "Appointment" : "Other",
+          title,
+          description: entryText(entry) || title,
+          status: "pending",
+          priority: "medium",
+          recurrence: "none",
+          dueBy: high.getTime() > 0 ? high : low,
+        },
+        "Plan of care",
+      );
+    }
+  }
+
+  // Encounters: past visits become sessions.
+  for (const section of sectionFor(SECTION_CODES.encounters)) {
+    for (const entry of entriesOf(section)) {
+      const encounter = entry.localName === "encounter" ? entry : descendants(entry, "encounter")[0];
+      const { low } = timeRange(child(encounter, "effectiveTime"));
+      if (!encounter || low.getTime() <= 0) {
+        skipped += 1;
+        continue;
+      }
+      const diagnoses = descendants(encounter, "observation")
+        .map((o) => codeText(child(o, "value")))
+        .filter(Boolean);
+      const id = crypto.randomUUID();
+      candidates.push({
+        kind: "sessionMetadata",
+        key: `sessionMetadata/${id}`,
+        source: "Encounters",
+        data: {
+          id,
+          title: codeText(child(encounter, "code")) || "Visit",
+          summary: [entryText(encounter), ...new Set(diagnoses)].filter(Boolean).join("\n"),
+          date: low,
+          discussionTopics: [],
+          actionItemIds: [],
+          documentIds: [],
+        },
+      });
+    }
+  }
+
+  // The whole document, as readable text.
+  const docTitle = text(child(root, "title")) || "Clinical document";
+  const narrative = sections
+    .map((s) => [text(child(s, "title")), text(child(s, "text"))].filter(Boolean).join("\n"))
+    .filter(Boolean);
+  const documentId = crypto.randomUUID();
+  const documentDate = orNow(timeRange(child(root, "effectiveTime")).low, now);
+  candidates.push({
+    kind: "documents",
+    key: `documents/${documentId}`,
+    source: "ClinicalDocument",
+    data: { id: documentId, summary: [docTitle, ...narrative].join("\n\n"), uploadedAt: documentDate },
+  });
+
+  // The visit this document was written for, if the header names one.
+  const encompassing = child(root, "componentOf", "encompassingEncounter");
+  if (encompassing) {
+    const { low } = timeRange(child(encompassing, "effectiveTime"));
+    const id = crypto.randomUUID();
+    candidates.push({
+      kind: "sessionMetadata",
+      key: `sessionMetadata/${id}`,
+      source: "ClinicalDocument",
+      data: {
+        id,
+        title: codeText(child(encompassing, "code")) || docTitle,
+        summary: "",
+        date: orNow(low, documentDate),
+        discussionTopics: [],
+        actionItemIds: [],
+        documentIds: [documentId],
+      },
+    });
+  }
+
+  return { format: "ccda", candidates, skipped };
+}
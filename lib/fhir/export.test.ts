@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import type { ActionItem, HealthNote } from "@/lib/firestore/types";
+import { buildFhirBundle, toFhirId, type ExportableRecord } from "./export";
+import { parseFhirBundle } from "./import";
+import type { FhirResource } from "./types";
+
+const now = new Date("2026-01-10T12:00:00Z");
+const options = { patientId: "user-1", baseUrl: "https://app.example.com/fhir/", now };
+
+function note(id: string, type: string, title: string): HealthNote {
+  const date = new Date("2026-01-02T09:00:00Z");
+  return { id, userId: "user-1", date, startedAt: date, endedAt: new Date(0), type, title, description: "Left side" };
+}
+
+function actionItem(id: string, overrides: Partial<ActionItem> = {}): ActionItem {
+  return {
+    id,
+    userId: "user-1",
+    dueBy: new Date("2026-01-05T08:00:00Z"),
+    type: "Other",
+    title: "Book a follow-up",
+    description: "",
+    status: "pending",
+    priority: "high",
+    recurrence: "none",
+    ...overrides,
+  };
+}
+
+const record: ExportableRecord = {
+  userMetadata: null,
+  healthNotes: [note("note-1", "Injury", "Sprained ankle"), note("note-2", "Blood pressure", "130/85")],
+  actionItems: [
+    actionItem("item-1"),
+    actionItem("item-2", {
+      type: "Medication",
+      title: "Take lisinopril",
+      recurrence: "weekly",
+      recurrenceRule: { frequency: "weekly", interval: 1, daysOfWeek: [1, 4] },
+      medication: { name: "Lisinopril", dose: 10, dosageUnit: "mg", count: 1, route: "oral" },
+    }),
+  ],
+  sessionMetadata: [
+    {
+      id: "visit/1",
+      userId: "user-1",
+      date: new Date("2026-01-02T09:00:00Z"),
+      title: "Checkup",
+      summary: "Blood pressure <high>",
+      discussionTopics: [],
+      actionItemIds: ["item-1"],
+      documentIds: ["doc-1"],
+    },
+  ],
+  appointments: [
+    {
+      id: "appt-1",
+      userId: "user-1",
+      appointmentTime: new Date(0),
+      scheduledOn: new Date("2026-01-03T10:00:00Z"),
+      providerName: "",
+      clinic: "",
+      address: "",
+      reason: "Follow-up",
+      status: "scheduled",
+      notes: "",
+      agenda: [],
+    },
+  ],
+  documents: [{ id: "doc-1", userId: "user-1", summary: "Lab results", uploadedAt: new Date("2026-01-04T10:00:00Z") }],
+};
+
+function resource<T extends FhirResource["resourceType"]>(resources: FhirResource[], type: T, id: string) {
+  return resources.find((r) => r.resourceType === type && r.id === id) as Extract<FhirResource, { resourceType: T }>;
+}
+
+describe("buildFhirBundle", () => {
+  const bundle = buildFhirBundle(record, options);
+  const resources = bundle.entry!.map((entry) => entry.resource!);
+
+  it("gives every entry an absolute fullUrl under the base URL", () => {
+    expect(bundle.entry![0].fullUrl).toBe("https://app.example.com/fhir/Patient/user-1");
+    expect(bundle.entry!.map((e) => e.fullUrl)).toContain("https://app.example.com/fhir/Encounter/visit-1");
+  });
+
+  it("exports injuries as conditions and other notes as observations", () => {
+    expect(resource(resources, "Condition", "note-1")).toMatchObject({
+      code: { text: "Sprained ankle" },
+      subject: { reference: "Patient/user-1" },
+      onsetDateTime: "2026-01-02T09:00:00.000Z",
+    });
+    const observation = resource(resources, "Observation", "note-2");
+    expect(observation).toMatchObject({ status: "final", valueString: "Left side" });
+    // The missing end date (epoch 0) is left out rather than exported as 1970.
+    expect(observation.effectivePeriod).toEqual({ start: "2026-01-02T09:00:00.000Z" });
+  });
+
+  it("exports medications with their repeat timing and other items as tasks", () => {
+    expect(resource(resources, "MedicationRequest", "item-2")).toMatchObject({
+      status: "active",
+      medicationCodeableConcept: { text: "Lisinopril" },
+      dosageInstruction: [
+        {
+          timing: { repeat: { period: 1, periodUnit: "wk", dayOfWeek: ["mon", "thu"] } },
+          doseAndRate: [{ doseQuantity: { value: 10, unit: "mg" } }],
+        },
+      ],
+    });
+    expect(resource(resources, "Task", "item-1")).toMatchObject({
+      status: "requested",
+      priority: "urgent",
+      restriction: { period: { end: "2026-01-05T08:00:00.000Z" } },
+    });
+  });
+
+  it("links items and documents to the session they came from", () => {
+    expect(resource(resources, "Task", "item-1").encounter).toEqual({ reference: "Encounter/visit-1" });
+    expect(resource(resources, "DocumentReference", "doc-1").context).toEqual({
+      encounter: [{ reference: "Encounter/visit-1" }],
+    });
+    expect(resource(resources, "Encounter", "visit-1").text?.div).toContain("Blood pressure &lt;high&gt;");
+  });
+
+  it("exports appointments without a time as proposed", () => {
+    const appointment = resource(resources, "Appointment", "appt-1");
+    expect(appointment.status).toBe("proposed");
+    expect(appointment.start).toBeUndefined();
+  });
+
+  it("round-trips through the importer with the same ids", () => {
+    const { candidates } = parseFhirBundle(JSON.parse(JSON.stringify(bundle)), now);
+
+    // The untimed appointment is skipped: the importer needs a start time.
+    expect(candidates.map((c) => c.key).sort()).toEqual([
+      "actionItems/item-1",
+      "actionItems/item-2",
+      "documents/doc-1",
+      "healthNotes/note-1",
+      "healthNotes/note-2",
+      "sessionMetadata/visit-1",
+    ]);
+  });
+});
+
+describe("toFhirId", () => {
+  it("replaces characters FHIR ids don't allow and caps the length", () => {
+    expect(toFhirId("visit/2026 01_02")).toBe("visit-2026-01-02");
+    expect(toFhirId("x".repeat(80))).toHaveLength(64);
+    expect(toFhirId("")).toBe("unknown");
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Maps a user's HelloCare record to a FHIR R4 Bundle (type "collection").
+ *
+ *   UserMetadata               → Patient
+ *   HealthNote (Injury,
+ *     Recurring pain)          → Condition
+ *   HealthNote (other types)   → Observation
+ *   ActionItem with medication → MedicationRequest
+ *   ActionItem (other)         → Task
+ *   Appointment                → Appointment
+ *   SessionMetadata            → Encounter
+ *   Document                   → DocumentReference
+ *
+ * Resources keep their Firestore ids and reference each other with relative
+ * references ("Patient/{uid}"), resolved against each entry's fullUrl.
+ */
+
+import { getRecurrenceRule, isRecurring } from "@/lib/firestore/recurrence";
+import type {
+  ActionItem,
+  Appointment as AppAppointment,
+  AppointmentStatus,
+  Document as AppDocument,
+  HealthNote,
+  RecurrenceRule,
+  SessionMetadata,
+  UserMetadata,
+} from "@/lib/firestore/types";
+import type {
+  Appointment,
+  Bundle,
+  Condition,
+  DocumentReference,
+  Encounter,
+  FhirResource,
+  MedicationRequest,
+  Observation,
+  Patient,
+  Reference,
+  Task,
+  TimingRepeat,
+} from "./types";
+
+/** The parts of a user's record that are exported. */
+export type ExportableRecord = {
+  userMetadata: UserMetadata | null;
+  healthNotes: HealthNote[];
+  actionItems: ActionItem[];
+  sessionMetadata: SessionMetadata[];
+  appointments: AppAppointment[];
+  documents: AppDocument[];
+};
+
+export type FhirExportOptions = {
+  /** Patient resource id (the user's uid). */
+  patientId: string;
+  /** Absolute base URL for entry fullUrls, e.g. "https://app.example.com/fhir". */
+  baseUrl: string;
+  now?: Date;
+};
+
+/** Appointments carry no end time; FHIR requires one for booked appointments. */
+const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+/** Scheduled and confirmed appointments are both "booked" in FHIR. */
+const APPOINTMENT_STATUSES: Record<AppointmentStatus, Appointment["status"]> = {
+  scheduled: "booked",
+  confirmed: "booked",
+  cancelled: "cancelled",
+  completed: "fulfilled",
+  "no-show": "noshow",
+};
+
+/** Health-note types exported as Condition; everything else becomes an Observation. */
+const CONDITION_NOTE_TYPES: ReadonlySet<string> = new Set(["Injury", "Recurring pain"]);
+
+const CONDITION_CLINICAL = "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const CONDITION_VER_STATUS = "http://terminology.hl7.org/CodeSystem/condition-ver-status";
+const CONDITION_CATEGORY = "http://terminology.hl7.org/CodeSystem/condition-category";
+const V3_ACT_CODE = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const BCP47 = "urn:ietf:bcp:47";
+
+/** Bundle meta.source of HelloCare exports; imports keep the resource ids of these. */
+export const HELLOCARE_BUNDLE_SOURCE = "urn:hellocare:export";
+
+const DAY_CODES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+const PERIOD_UNITS: Record<RecurrenceRule["frequency"], TimingRepeat["periodUnit"]> = {
+  daily: "d",
+  weekly: "wk",
+  monthly: "mo",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** FHIR ids allow [A-Za-z0-9-.]{1,64}. */
+export function toFhirId(id: string): string {
+  return id.replace(/[^A-Za-z0-9\-.]/g, "-").slice(0, 64) || "unknown";
+}
+
+/** ISO string for a real date; undefined for missing dates (stored as epoch 0). */
+function iso(date: Date | null | undefined): string | undefined {
+  if (!date || Number.isNaN(date.getTime()) || date.getTime() === 0) return undefined;
+  return date.toISOString();
+}
+
+function escapeXhtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function toBase64(text: string): string {
+  return Buffer.from(text, "utf8").toString("base64");
+}
+
+/** Drops undefined properties so the JSON has no empty elements. */
+function compact<T extends object>(resource: T): T {
+  return Object.fromEntries(Object.entries(resource).filter(([, v]) => v !== undefined)) as T;
+}
+
+// ---------------------------------------------------------------------------
+// Resource mappers
+// ---------------------------------------------------------------------------
+
+function toPatient(patientId: string, user: UserMetadata | null): Patient {
+  return compact<Patient>({
+    resourceType: "Patient",
+    id: toFhirId(patientId),
+    name: user
+      ? [{ use: "official", family: user.lastName || undefined, given: user.firstName ? [user.firstName] : undefined }]
+      : undefined,
+    telecom: user?.email ? [{ system: "email", value: user.email }] : undefined,
+    communication: user?.preferredLanguage
+      ? [{ language: { coding: [{ system: BCP47, code: user.preferredLanguage }] }, preferred: true }]
+      : undefined,
+  });
+}
+
+function toCondition(note: HealthNote, subject: Reference): Condition {
+  const recurring = note.type === "Recurring pain";
+  return compact<Condition>({
+    resourceType: "Condition",
+    id: toFhirId(note.id),
+    clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: recurring ? "recurrence" : "active" }] },
+    // Patient-reported, not confirmed by a clinician.
+    verificationStatus: { coding: [{ system: CONDITION_VER_STATUS, code: "unconfirmed" }] },
+    // The text carries the HelloCare note type so imports can restore it.
+    category: [{ coding: [{ system: CONDITION_CATEGORY, code: "problem-list-item" }], text: note.type }],
+    code: { text: note.title || note.type },
+    subject,
+    onsetDateTime: iso(note.startedAt),
+    recordedDate: iso(note.date),
+    note: note.description ? [{ text: note.description }] : undefined,
+  });
+}
+
+function toObservation(note: HealthNote, subject: Reference): Observation {
+  const start = iso(note.startedAt);
+  const end = iso(note.endedAt);
+  return compact<Observation>({
+    resourceType: "Observation",
+    id: toFhirId(note.id),
+    status: "final",
+    category: note.type ? [{ text: note.type }] : undefined,
+    code: { text: note.title || note.type },
+    subject,
+    effectivePeriod: start ? compact({ start, end: end && end >= start ? end : undefined }) : undefined,
+    issued: iso(note.date),
+    valueString: note.description || undefined,
+  });
+}
+
+function toTimingRepeat(item: ActionItem): TimingRepeat | undefined {
+  if (!isRecurring(item)) return undefined;
+  const rule = getRecurrenceRule(item);
+  if (!rule) return undefined;
+  return compact<TimingRepeat>({
+    boundsPeriod: compact({ start: iso(item.dueBy), end: iso(rule.until) }),
+    frequency: 1,
+    period: rule.interval,
+    periodUnit: PERIOD_UNITS[rule.frequency],
+    dayOfWeek:
+      rule.frequency === "weekly"
+        ? (rule.daysOfWeek?.length ? rule.daysOfWeek : [item.dueBy.getDay()]).map((d) => DAY_CODES[d])
+        : undefined,
+  });
+}
+
+function toMedicationRequest(item: ActionItem, subject: Reference, encounter?: Reference): MedicationRequest {
+  const med = item.medication!;
+  const repeat = toTimingRepeat(item);
+  const statuses: Record<string, MedicationRequest["status"]> = {
+    pending: "active",
+    in_progress: "active",
+    done: "completed",
+    skipped: "stopped",
+  };
+  return compact<MedicationRequest>({
+    resourceType: "MedicationRequest",
+    id: toFhirId(item.id),
+    // Recurring medications stay active for as long as they repeat.
+    status: repeat ? "active" : (statuses[item.status] ?? "unknown"),
+    intent: "order",
+    priority: item.priority === "high" ? "urgent" : "routine",
+    medicationCodeableConcept: { text: med.name },
+    subject,
+    encounter,
+    dosageInstruction: [
+      compact({
+        text: `${med.dose} ${med.dosageUnit} ${med.route}, ${med.count}x${item.recurrence && item.recurrence !== "none" ? `, ${item.recurrence}` : ""}`,
+        timing: repeat ? { repeat } : iso(item.dueBy) ? { event: [iso(item.dueBy)!] } : undefined,
+        route: med.route ? { text: med.route } : undefined,
+        doseAndRate: [{ doseQuantity: { value: med.dose, unit: med.dosageUnit } }],
+      }),
+    ],
+    note: item.description ? [{ text: item.description }] : undefined,
+  });
+}
+
+function toTask(item: ActionItem, subject: Reference, encounter?: Reference): Task {
+  const statuses: Record<string, Task["status"]> = {
+    pending: "requested",
+    in_progress: "in-progress",
+    done: "completed",
+    skipped: "cancelled",
+  };
+  return compact<Task>({
+    resourceType: "Task",
+    id: toFhirId(item.id),
+    status: statuses[item.status] ?? "requested",
+    intent: "plan",
+    priority: item.priority === "high" ? "urgent" : "routine",
+    code: item.type ? { text: item.type } : undefined,
+    description: item.title || item.description || undefined,
+    for: subject,
+    encounter,
+    restriction: iso(item.dueBy) ? { period: { end: iso(item.dueBy) } } : undefined,
+    note: item.description && item.description !== item.title ? [{ text: item.description }] : undefined,
+  });
+}
+
+function toAppointment(appointment: AppAppointment, subject: Reference): Appointment {
+  const start = iso(appointment.appointmentTime);
+  const end = start
+    ? new Date(appointment.appointmentTime.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60_000).toISOString()
+    : undefined;
+  return compact<Appointment>({
+    resourceType: "Appointment",
+    id: toFhirId(appointment.id),
+    // Booked appointments need start/end; without a time it is only proposed.
+    status: start ? APPOINTMENT_STATUSES[appointment.status] : "proposed",
+    description: appointment.reason || undefined,
+    start,
+    end,
+    created: iso(appointment.scheduledOn),
+    comment: appointment.notes || undefined,
+    participant: [
+      { actor: subject, status: "accepted" },
+      ...(appointment.providerName ? [{ actor: { display: appointment.providerName }, status: "accepted" as const }] : []),
+    ],
+  });
+}
+
+function toEncounter(session: SessionMetadata, subject: Reference): Encounter {
+  const summary = session.summary.trim();
+  return compact<Encounter>({
+    resourceType: "Encounter",
+    id: toFhirId(session.id),
+    text: summary
+      ? {
+          status: "generated",
+          div: `<div xmlns="http://www.w3.org/1999/xhtml"><p>${escapeXhtml(summary)}</p></div>`,
+        }
+      : undefined,
+    status: "finished",
+    class: { system: V3_ACT_CODE, code: "AMB", display: "ambulatory" },
+    type: session.title ? [{ text: session.title }] : undefined,
+    subject,
+    period: iso(session.date) ? { start: iso(session.date) } : undefined,
+  });
+}
+
+function toDocumentReference(document: AppDocument, subject: Reference, encounters: Reference[]): DocumentReference {
+  return compact<DocumentReference>({
+    resourceType: "DocumentReference",
+    id: toFhirId(document.id),
+    status: "current",
+    type: { text: "Document summary" },
+    subject,
+    date: iso(document.uploadedAt),
+    description: document.summary || undefined,
+    content: [
+      {
+        attachment: compact({
+          contentType: "text/plain; charset=utf-8",
+          data: toBase64(document.summary),
+          title: "Summary",
+          creation: iso(document.uploadedAt),
+        }),
+      },
+    ],
+    context: encounters.length > 0 ? { encounter: encounters } : undefined,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Bundle
+// ---------------------------------------------------------------------------
+
+/** Builds a FHIR R4 collection Bundle of the user's full record. */
+export function buildFhirBundle(record: ExportableRecord, options: FhirExportOptions): Bundle {
+  const now = options.now ?? new Date();
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const patient = toPatient(options.patientId, record.userMetadata);
+  const subject: Reference = { reference: `Patient/${patient.id}` };
+
+  // Sessions link to the action items and documents created during them.
+  const encounterByActionItem = new Map<string, Reference>();
+  const encountersByDocument = new Map<string, Reference[]>();
+  for (const session of record.sessionMetadata) {
+    const ref: Reference = { reference: `Encounter/${toFhirId(session.id)}` };
+    for (const id of session.actionItemIds) encounterByActionItem.set(id, ref);
+    for (const id of session.documentIds) {
+      encountersByDocument.set(id, [...(encountersByDocument.get(id) ?? []), ref]);
+    }
+  }
+
+  const resources: FhirResource[] = [
+    patient,
+    ...record.healthNotes.map((note) =>
+      CONDITION_NOTE_TYPES.has(note.type) ? toCondition(note, subject) : toObservation(note, subject),
+    ),
+    ...record.actionItems.map((item) =>
+      item.medication
+        ? toMedicationRequest(item, subject, encounterByActionItem.get(item.id))
+        : toTask(item, subject, encounterByActionItem.get(item.id)),
+    ),
+    ...record.appointments.map((appointment) => toAppointment(appointment, subject)),
+    ...record.sessionMetadata.map((session) => toEncounter(session, subject)),
+    ...record.documents.map((document) =>
+      toDocumentReference(document, subject, encountersByDocument.get(document.id) ?? []),
+    ),
+  ];
+
+  return {
+    resourceType: "Bundle",
+    id: crypto.randomUUID(),
+    meta: { lastUpdated: now.toISOString(), source: HELLOCARE_BUNDLE_SOURCE },
+    type: "collection",
+    timestamp: now.toISOString(),
+    entry: resources.map((resource) => ({
+      fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+      resource,
+    })),
+  };
+}
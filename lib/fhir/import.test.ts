@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { HELLOCARE_BUNDLE_SOURCE } from "./export";
+import { parseFhirBundle } from "./import";
+
+const now = new Date("2026-01-10T12:00:00Z");
+
+describe("parseFhirBundle", () => {
+  it("keeps resources of different types that share an id apart", () => {
+    const bundle = {
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        { resource: { resourceType: "Condition", id: "1", code: { text: "Migraine" } } },
+        { resource: { resourceType: "Observation", id: "1", status: "final", code: { text: "Blood pressure" } } },
+        {
+          resource: {
+            resourceType: "MedicationRequest",
+            id: "1",
+            status: "active",
+            intent: "order",
+            medicationCodeableConcept: { text: "Lisinopril" },
+          },
+        },
+        {
+          resource: {
+            resourceType: "Task",
+            id: "1",
+            status: "requested",
+            intent: "order",
+            description: "Book a follow-up",
+            encounter: { reference: "Encounter/1" },
+          },
+        },
+        { resource: { resourceType: "Encounter", id: "1", status: "finished", type: [{ text: "Checkup" }] } },
+      ],
+    };
+
+    const { candidates } = parseFhirBundle(bundle, now);
+
+    expect(candidates.map((c) => c.key)).toEqual([
+      "healthNotes/fhir-Condition-1",
+      "healthNotes/fhir-Observation-1",
+      "actionItems/fhir-MedicationRequest-1",
+      "actionItems/fhir-Task-1",
+      "sessionMetadata/fhir-Encounter-1",
+    ]);
+    const session = candidates.find((c) => c.kind === "sessionMetadata");
+    expect(session?.data).toMatchObject({ actionItemIds: ["fhir-Task-1"] });
+  });
+
+  it("keeps the ids of HelloCare exports", () => {
+    const bundle = {
+      resourceType: "Bundle",
+      meta: { source: HELLOCARE_BUNDLE_SOURCE },
+      type: "collection",
+      entry: [{ resource: { resourceType: "Condition", id: "note-1", code: { text: "Migraine" } } }],
+    };
+
+    expect(parseFhirBundle(bundle, now).candidates.map((c) => c.key)).toEqual(["healthNotes/note-1"]);
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * Maps a FHIR R4 Bundle (e.g. a patient-portal export) to import candidates.
+ * The inverse of export.ts:
+ *
+ *   Condition, Observation,
+ *     AllergyIntolerance          → HealthNote
+ *   MedicationRequest,
+ *     MedicationStatement         → ActionItem with medication
+ *   Task                          → ActionItem
+ *   Appointment                   → Appointment
+ *   Encounter                     → SessionMetadata
+ *   DocumentReference             → Document
+ *
+ * Other resource types (Patient, Practitioner, …) are skipped. HelloCare exports
+ * keep their record ids. Other files get ids namespaced by resource type
+ * ("fhir-Condition-123"), since a Condition and an Observation may share an id.
+ */
+
+import { HEALTH_NOTE_TYPES } from "@/lib/firestore/healthNotes";
+import type {
+  ActionItemCreate,
+  AppointmentStatus,
+  HealthNoteCreate,
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from "@/lib/firestore/types";
+import { parseCcda } from "./ccda";
+import { HELLOCARE_BUNDLE_SOURCE } from "./export";
+import type { ImportCandidate, ParsedImport } from "./candidates";
+import type {
+  AllergyIntolerance,
+  Annotation,
+  Appointment,
+  Bundle,
+  CodeableConcept,
+  Condition,
+  Dosage,
+  DocumentReference,
+  Encounter,
+  FhirResource,
+  MedicationRequest,
+  MedicationStatement,
+  Observation,
+  Reference,
+  Task,
+} from "./types";
+
+/** Note type for imported records that match no HelloCare type. */
+const DEFAULT_NOTE_TYPE = "General";
+
+const KNOWN_NOTE_TYPES: ReadonlySet<string> = new Set(HEALTH_NOTE_TYPES.map((t) => t.value));
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = { d: "daily", wk: "weekly", mo: "monthly" };
+
+const DAY_INDEX: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+const TASK_STATUSES: Record<string, string> = {
+  requested: "pending",
+  received: "pending",
+  accepted: "pending",
+  ready: "pending",
+  "in-progress": "in_progress",
+  "on-hold": "in_progress",
+  completed: "done",
+  cancelled: "skipped",
+  rejected: "skipped",
+  failed: "skipped",
+};
+
+const APPOINTMENT_STATUSES: Record<Appointment["status"], AppointmentStatus> = {
+  proposed: "scheduled",
+  pending: "scheduled",
+  booked: "scheduled",
+  arrived: "completed",
+  fulfilled: "completed",
+  cancelled: "cancelled",
+  noshow: "no-show",
+};
+
+const MEDICATION_STATUSES: Record<string, string> = {
+  active: "pending",
+  "on-hold": "pending",
+  intended: "pending",
+  draft: "pending",
+  completed: "done",
+  stopped: "skipped",
+  cancelled: "skipped",
+  "not-taken": "skipped",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Parses a FHIR date/dateTime; missing or invalid values become epoch 0 (the app's "no date"). */
+function toDate(value: string | undefined): Date {
+  if (!value) return new Date(0);
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? new Date(0) : date;
+}
+
+/** First valid date among values, else the fallback. */
+function firstDate(values: (string | undefined)[], fallback: Date): Date {
+  const value = values.find((v) => v && !Number.isNaN(new Date(v).getTime()));
+  return value ? new Date(value) : fallback;
+}
+
+/** "urgent" / "asap" / "stat" become high priority. */
+function toPriority(priority: string | undefined): string {
+  return priority && priority !== "routine" ? "high" : "medium";
+}
+
+function conceptText(concept: CodeableConcept | undefined): string {
+  if (!concept) return "";
+  const coding = concept.coding?.find((c) => c.display) ?? concept.coding?.[0];
+  return (concept.text ?? coding?.display ?? coding?.code ?? "").trim();
+}
+
+function noteText(notes: Annotation[] | undefined): string {
+  return (notes ?? []).map((n) => n.text?.trim()).filter(Boolean).join("\n");
+}
+
+/** Plain text of an xhtml narrative div. */
+function stripMarkup(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n")
+    .trim();
+}
+
+function decodeBase64Text(data: string): string {
+  try {
+    const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Firestore-safe id from a resource id: kept as is for HelloCare exports,
+ * namespaced by resource type otherwise; generated when missing.
+ */
+function recordId(resource: FhirResource, keepId: boolean): string {
+  const id = resource.id?.replace(/[^A-Za-z0-9\-._]/g, "-");
+  if (!id) return crypto.randomUUID();
+  return keepId ? id : `fhir-${resource.resourceType}-${id}`;
+}
+
+// ---------------------------------------------------------------------------
+// Resource mappers
+// ---------------------------------------------------------------------------
+
+function noteType(categories: CodeableConcept[] | undefined, fallback: string): string {
+  const text = (categories ?? []).map(conceptText).find((t) => KNOWN_NOTE_TYPES.has(t));
+  return text ?? fallback;
+}
+
+function fromCondition(resource: Condition, id: string, now: Date): HealthNoteCreate | null {
+  const title = conceptText(resource.code);
+  if (!title) return null;
+  const recurring = resource.clinicalStatus?.coding?.some((c) => c.code === "recurrence");
+  return {
+    id,
+    type: noteType(resource.category, recurring ? "Recurring pain" : DEFAULT_NOTE_TYPE),
+    title,
+    description: noteText(resource.note),
+    date: firstDate([resource.recordedDate, resource.onsetDateTime], now),
+    startedAt: toDate(resource.onsetDateTime),
+    endedAt: toDate(resource.abatementDateTime),
+  };
+}
+
+function observationValue(resource: Observation): string {
+  if (resource.valueString) return resource.valueString;
+  if (resource.valueQuantity?.value != null) {
+    return `${resource.valueQuantity.value} ${resource.valueQuantity.unit ?? ""}`.trim();
+  }
+  return conceptText(resource.valueCodeableConcept);
+}
+
+function fromObservation(resource: Observation, id: string, now: Date): HealthNoteCreate | null {
+  const title = conceptText(resource.code);
+  if (!title) return null;
+  const start = resource.effectivePeriod?.start ?? resource.effectiveDateTime;
+  return {
+    id,
+    type: noteType(resource.category, DEFAULT_NOTE_TYPE),
+    title,
+    description: [observationValue(resource), noteText(resource.note)].filter(Boolean).join("\n"),
+    date: firstDate([resource.issued, start], now),
+    startedAt: toDate(start),
+    endedAt: toDate(resource.effectivePeriod?.end),
+  };
+}
+
+function fromAllergy(resource: AllergyIntolerance, id: string, now: Date): HealthNoteCreate | null {
+  const substance = conceptText(resource.code);
+  if (!substance) return null;
+  const reactions = (resource.reaction ?? [])
+    .flatMap((r) => [...(r.manifestation ?? []).map(conceptText), r.description ?? ""])
+    .filter(Boolean);
+  return {
+    id,
+    type: DEFAULT_NOTE_TYPE,
+    title: `Allergy: ${substance}`,
+    description: [reactions.join(", "), noteText(resource.note)].filter(Boolean).join("\n"),
+    date: firstDate([resource.recordedDate, resource.onsetDateTime], now),
+    startedAt: toDate(resource.onsetDateTime),
+    endedAt: new Date(0),
+  };
+}
+
+function toRecurrenceRule(dosage: Dosage | undefined): RecurrenceRule | undefined {
+  const repeat = dosage?.timing?.repeat;
+  const frequency = repeat?.periodUnit ? FREQUENCIES[repeat.periodUnit] : undefined;
+  if (!repeat || !frequency) return undefined;
+  const days = (repeat.dayOfWeek ?? []).map((d) => DAY_INDEX[d]).filter((d) => d != null);
+  return {
+    frequency,
+    interval: Math.max(1, Math.round(repeat.period ?? 1)),
+    daysOfWeek: frequency === "weekly" && days.length > 0 ? days : undefined,
+    until: repeat.boundsPeriod?.end ? toDate(repeat.boundsPeriod.end) : null,
+  };
+}
+
+function fromMedication(
+  resource: MedicationRequest | MedicationStatement,
+  id: string,
+  now: Date,
+): ActionItemCreate | null {
+  const name = conceptText(resource.medicationCodeableConcept) || resource.medicationReference?.display?.trim();
+  if (!name) return null;
+  const dosage = resource.resourceType === "MedicationRequest" ? resource.dosageInstruction?.[0] : resource.dosage?.[0];
+  const quantity = dosage?.doseAndRate?.[0]?.doseQuantity;
+  const rule = toRecurrenceRule(dosage);
+  const start =
+    dosage?.timing?.repeat?.boundsPeriod?.start ??
+    dosage?.timing?.event?.[0] ??
+    (resource.resourceType === "MedicationRequest"
+      ? resource.authoredOn
+      : (resource.effectivePeriod?.start ?? resource.effectiveDateTime));
+  const countMatch = dosage?.text ? /(\d+)\s*x\b/i.exec(dosage.text) : null;
+  return {
+    id,
+    type: "Medication",
+    title: name,
+    description: [dosage?.text, noteText(resource.note)].filter(Boolean).join("\n") || name,
+    status: MEDICATION_STATUSES[resource.status] ?? "pending",
+    priority: toPriority(resource.resourceType === "MedicationRequest" ? resource.priority : undefined),
+    recurrence: rule?.frequency ?? "none",
+    recurrenceRule: rule,
+    dueBy: firstDate([start], now),
+    medication: {
+      name,
+      dose: quantity?.value ?? 0,
+      dosageUnit: quantity?.unit ?? "",
+      count: countMatch ? Number(countMatch[1]) : 1,
+      route: conceptText(dosage?.route),
+    },
+  };
+}
+
+function fromTask(resource: Task, id: string): ActionItemCreate | null {
+  const title = (resource.description ?? "").trim() || conceptText(resource.code);
+  if (!title) return null;
+  return {
+    id,
+    type: conceptText(resource.code) || "Other",
+    title,
+    description: noteText(resource.note) || title,
+    status: TASK_STATUSES[resource.status] ?? "pending",
+    priority: toPriority(resource.priority),
+    recurrence: "none",
+    dueBy: toDate(resource.restriction?.period?.end ?? resource.restriction?.period?.start),
+  };
+}
+
+function encounterTitle(resource: Encounter): string {
+  return (
+    resource.type?.map(conceptText).find(Boolean) ||
+    resource.reasonCode?.map(conceptText).find(Boolean) ||
+    resource.class?.display ||
+    "Visit"
+  );
+}
+
+function documentText(resource: DocumentReference): string {
+  const parts = resource.content
+    ?.map((c) => c.attachment)
+    .filter((a) => a.data && (a.contentType ?? "").startsWith("text/"))
+    .map((a) => decodeBase64Text(a.data!).trim())
+    .filter(Boolean);
+  return [resource.description?.trim(), ...(parts ?? [])]
+    .filter((text, i, all): text is string => !!text && all.indexOf(text) === i)
+    .join("\n\n");
+}
+
+// ---------------------------------------------------------------------------
+// Bundle
+// ---------------------------------------------------------------------------
+
+/** Maps a FHIR R4 Bundle to import candidates. Throws if it is not a Bundle. */
+export function parseFhirBundle(bundle: unknown, now: Date = new Date()): ParsedImport {
+  if (!bundle || typeof bundle !== "object" || (bundle as Bundle).resourceType !== "Bundle") {
+    throw new Error("Not a FHIR Bundle");
+  }
+  const entries = ((bundle as Bundle).entry ?? []).filter((e) => e?.resource?.resourceType);
+
+  const keepIds = (bundle as Bundle).meta?.source === HELLOCARE_BUNDLE_SOURCE;
+
+  // Every entry can be referenced by "Type/id" or by its fullUrl.
+  const idByReference = new Map<string, string>();
+  const usedIds = new Set<string>();
+  const ids = entries.map((entry) => {
+    let id = recordId(entry.resource, keepIds);
+    // Repeated ids (the same resource listed twice, a hand-edited export) would overwrite each other.
+    if (usedIds.has(id)) id = crypto.randomUUID();
+    usedIds.add(id);
+    if (entry.resource.id) idByReference.set(`${entry.resource.resourceType}/${entry.resource.id}`, id);
+    if (entry.fullUrl) idByReference.set(entry.fullUrl, id);
+    return id;
+  });
+  const resolve = (reference: Reference | undefined) => {
+    const ref = reference?.reference;
+    if (!ref) return undefined;
+    return idByReference.get(ref) ?? idByReference.get(ref.split("/").slice(-2).join("/"));
+  };
+
+  const candidates: ImportCandidate[] = [];
+  const sessionLinks = new Map<string, { actionItemIds: string[]; documentIds: string[] }>();
+  const linkToSession = (encounter: Reference | undefined, field: "actionItemIds" | "documentIds", id: string) => {
+    const sessionId = resolve(encounter);
+    if (!sessionId) return;
+    const links = sessionLinks.get(sessionId) ?? { actionItemIds: [], documentIds: [] };
+    links[field].push(id);
+    sessionLinks.set(sessionId, links);
+  };
+
+  let skipped = 0;
+  entries.forEach(({ resource }, i) => {
+    // The Patient is the user themself.
+    if (resource.resourceType === "Patient") return;
+    const id = ids[i];
+    const source = `${resource.resourceType}/${resource.id ?? i}`;
+    const push = (candidate: ImportCandidate) => candidates.push(candidate);
+    switch (resource.resourceType) {
+      case "Condition":
+      case "Observation":
+      case "AllergyIntolerance": {
+        const data =
+          resource.resourceType === "Condition"
+            ? fromCondition(resource, id, now)
+            : resource.resourceType === "Observation"
+              ? fromObservation(resource, id, now)
+              : fromAllergy(resource, id, now);
+        if (data) push({ kind: "healthNotes", key: `healthNotes/${id}`, source, data });
+        else skipped += 1;
+        return;
+      }
+      case "MedicationRequest":
+      case "MedicationStatement":
+      case "Task": {
+        const data = resource.resourceType === "Task" ? fromTask(resource, id) : fromMedication(resource, id, now);
+        if (!data) {
+          skipped += 1;
+          return;
+        }
+        push({ kind: "actionItems", key: `actionItems/${id}`, source, data });
+        const encounter = resource.resourceType === "MedicationStatement" ? resource.context : resource.encounter;
+        linkToSession(encounter, "actionItemIds", id);
+        return;
+      }
+      case "Appointment": {
+        if (!resource.start) {
+          skipped += 1;
+          return;
+        }
+        push({
+          kind: "appointments",
+          key: `appointments/${id}`,
+          source,
+          data: {
+            id,
+            appointmentTime: toDate(resource.start),
+            scheduledOn: resource.created ? toDate(resource.created) : now,
+            // The provider is the participant that isn't the patient.
+            providerName:
+              resource.participant?.find((p) => p.actor?.display && !p.actor.reference?.startsWith("Patient/"))?.actor
+                ?.display ?? "",
+            reason: resource.description ?? "",
+            status: APPOINTMENT_STATUSES[resource.status] ?? "scheduled",
+            notes: resource.comment ?? "",
+          },
+        });
+        return;
+      }
+      case "Encounter":
+        push({
+          kind: "sessionMetadata",
+          key: `sessionMetadata/${id}`,
+          source,
+          data: {
+            id,
+            title: encounterTitle(resource),
+            summary: resource.text?.div ? stripMarkup(resource.text.div) : "",
+            date: toDate(resource.period?.start),
+            discussionTopics: [],
+            actionItemIds: [],
+            documentIds: [],
+          },
+        });
+        return;
+      case "DocumentReference": {
+        const summary = documentText(resource);
+        if (!summary) {
+          skipped += 1;
+          return;
+        }
+        push({
+          kind: "documents",
+          key: `documents/${id}`,
+          source,
+          data: { id, summary, uploadedAt: resource.date ? toDate(resource.date) : now },
+        });
+        for (const encounter of resource.context?.encounter ?? []) linkToSession(encounter, "documentIds", id);
+        return;
+      }
+      default:
+        // No HelloCare equivalent (Practitioner, Organization, …).
+        skipped += 1;
+    }
+  });
+
+  for (const candidate of candidates) {
+    if (candidate.kind !== "sessionMetadata") continue;
+    const links = sessionLinks.get(candidate.data.id);
+    if (links) Object.assign(candidate.data, links);
+  }
+
+  return { format: "fhir", candidates, skipped };
+}
+
+/**
+ * Parses an uploaded file: FHIR R4 Bundle JSON or a C-CDA XML document.
+ * Throws for anything else.
+ */
+export function parseImportFile(text: string, now: Date = new Date()): ParsedImport {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("<")) return parseCcda(trimmed, now);
+  let json: unknown;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    throw new Error("File is neither JSON nor XML");
+  }
+  return parseFhirBundle(json, now);
+}
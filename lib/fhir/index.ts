@@ -0,0 +1,29 @@
+/**
+ * FHIR R4 (and C-CDA) interchange for the user's health record.
+ */
+
+export * from "./types";
+export {
+  HELLOCARE_BUNDLE_SOURCE,
+  buildFhirBundle,
+  toFhirId,
+  type ExportableRecord,
+  type FhirExportOptions,
+} from "./export";
+export { parseFhirBundle, parseImportFile } from "./import";
+export { parseCcda } from "./ccda";
+export {
+  IMPORT_KINDS,
+  findDuplicates,
+  getCandidateDate,
+  getCandidateTitle,
+  writeImportCandidates,
+} from "./candidates";
+export type {
+  ExistingRecords,
+  ImportCandidate,
+  ImportFormat,
+  ImportKind,
+  ImportResult,
+  ParsedImport,
+} from "./candidates";
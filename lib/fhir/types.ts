@@ -0,0 +1,197 @@
+/**
+ * Minimal FHIR R4 resource types: only the elements HelloCare reads or writes.
+ * Imported files are not validated against these; parsers treat every element
+ * as possibly missing.
+ * See https://hl7.org/fhir/R4/ for the full definitions.
+ */
+
+export type Coding = { system?: string; code?: string; display?: string };
+
+export type CodeableConcept = { coding?: Coding[]; text?: string };
+
+export type Reference = { reference?: string; display?: string };
+
+export type Period = { start?: string; end?: string };
+
+export type Quantity = { value?: number; unit?: string };
+
+export type Annotation = { text: string };
+
+export type Narrative = { status: "generated" | "extensions" | "additional" | "empty"; div: string };
+
+type ResourceBase = {
+  id?: string;
+  meta?: { lastUpdated?: string; source?: string };
+  text?: Narrative;
+};
+
+export type Patient = ResourceBase & {
+  resourceType: "Patient";
+  name?: Array<{ use?: string; family?: string; given?: string[]; text?: string }>;
+  telecom?: Array<{ system: "phone" | "email"; value: string; use?: string }>;
+  communication?: Array<{ language: CodeableConcept; preferred?: boolean }>;
+};
+
+export type Condition = ResourceBase & {
+  resourceType: "Condition";
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  subject: Reference;
+  onsetDateTime?: string;
+  abatementDateTime?: string;
+  recordedDate?: string;
+  note?: Annotation[];
+};
+
+export type Observation = ResourceBase & {
+  resourceType: "Observation";
+  status: "registered" | "preliminary" | "final" | "amended";
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  effectivePeriod?: Period;
+  effectiveDateTime?: string;
+  issued?: string;
+  valueString?: string;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+  note?: Annotation[];
+};
+
+export type TimingRepeat = {
+  boundsPeriod?: Period;
+  frequency?: number;
+  period?: number;
+  periodUnit?: "d" | "wk" | "mo";
+  dayOfWeek?: Array<"mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun">;
+  timeOfDay?: string[];
+};
+
+export type Dosage = {
+  text?: string;
+  timing?: { event?: string[]; repeat?: TimingRepeat };
+  route?: CodeableConcept;
+  doseAndRate?: Array<{ doseQuantity?: Quantity }>;
+};
+
+export type MedicationRequest = ResourceBase & {
+  resourceType: "MedicationRequest";
+  status: "active" | "on-hold" | "cancelled" | "completed" | "entered-in-error" | "stopped" | "draft" | "unknown";
+  intent: "proposal" | "plan" | "order";
+  priority?: "routine" | "urgent" | "asap" | "stat";
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: Reference;
+  subject: Reference;
+  encounter?: Reference;
+  authoredOn?: string;
+  dosageInstruction?: Dosage[];
+  note?: Annotation[];
+};
+
+export type MedicationStatement = ResourceBase & {
+  resourceType: "MedicationStatement";
+  status: "active" | "completed" | "entered-in-error" | "intended" | "stopped" | "on-hold" | "unknown" | "not-taken";
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: Reference;
+  subject: Reference;
+  context?: Reference;
+  effectivePeriod?: Period;
+  effectiveDateTime?: string;
+  dosage?: Dosage[];
+  note?: Annotation[];
+};
+
+export type AllergyIntolerance = ResourceBase & {
+  resourceType: "AllergyIntolerance";
+  clinicalStatus?: CodeableConcept;
+  code?: CodeableConcept;
+  patient: Reference;
+  onsetDateTime?: string;
+  recordedDate?: string;
+  reaction?: Array<{ manifestation: CodeableConcept[]; description?: string }>;
+  note?: Annotation[];
+};
+
+export type Task = ResourceBase & {
+  resourceType: "Task";
+  status:
+    | "draft"
+    | "requested"
+    | "received"
+    | "accepted"
+    | "rejected"
+    | "ready"
+    | "cancelled"
+    | "in-progress"
+    | "on-hold"
+    | "failed"
+    | "completed"
+    | "entered-in-error";
+  intent: "unknown" | "proposal" | "plan" | "order";
+  priority?: "routine" | "urgent" | "asap" | "stat";
+  code?: CodeableConcept;
+  description?: string;
+  for?: Reference;
+  encounter?: Reference;
+  restriction?: { period?: Period; repetitions?: number };
+  note?: Annotation[];
+};
+
+export type Appointment = ResourceBase & {
+  resourceType: "Appointment";
+  status: "proposed" | "pending" | "booked" | "arrived" | "fulfilled" | "cancelled" | "noshow";
+  description?: string;
+  start?: string;
+  end?: string;
+  created?: string;
+  comment?: string;
+  participant: Array<{ actor?: Reference; status: "accepted" | "declined" | "tentative" | "needs-action" }>;
+};
+
+export type Encounter = ResourceBase & {
+  resourceType: "Encounter";
+  status: "planned" | "arrived" | "in-progress" | "finished" | "cancelled";
+  class: Coding;
+  type?: CodeableConcept[];
+  subject?: Reference;
+  period?: Period;
+  reasonCode?: CodeableConcept[];
+};
+
+export type DocumentReference = ResourceBase & {
+  resourceType: "DocumentReference";
+  status: "current" | "superseded" | "entered-in-error";
+  type?: CodeableConcept;
+  subject?: Reference;
+  date?: string;
+  description?: string;
+  content: Array<{
+    attachment: { contentType?: string; data?: string; url?: string; title?: string; creation?: string };
+  }>;
+  context?: { encounter?: Reference[] };
+};
+
+export type FhirResource =
+  | Patient
+  | Condition
+  | Observation
+  | MedicationRequest
+  | MedicationStatement
+  | AllergyIntolerance
+  | Task
+  | Appointment
+  | Encounter
+  | DocumentReference;
+
+export type BundleEntry = { fullUrl?: string; resource: FhirResource };
+
+export type Bundle = {
+  resourceType: "Bundle";
+  id?: string;
+  meta?: { lastUpdated?: string; source?: string };
+  type: "collection" | "document" | "transaction" | "batch" | "searchset";
+  timestamp?: string;
+  entry?: BundleEntry[];
+};
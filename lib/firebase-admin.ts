@@ -9,10 +9,16 @@
  */
 
 import { initializeApp, cert, getApps, getApp, type App } from "firebase-admin/app";
+import { getAuth, type Auth } from "firebase-admin/auth";
 import { getFirestore, type Firestore } from "firebase-admin/firestore";
+import { getStorage, type Storage } from "firebase-admin/storage";
+
+type Bucket = ReturnType<Storage["bucket"]>;
 
 let _app: App | null = null;
 let _db: Firestore | null = null;
+let _auth: Auth | null = null;
+let _bucket: Bucket | null = null;
 
 function getAdminApp(): App {
   if (_app) return _app;
@@ -39,3 +45,27 @@ export function getAdminDb(): Firestore {
   _db = getFirestore(getAdminApp());
   return _db;
 }
+
+/** Server-side Auth instance (ID token verification). Lazily initialised. */
+export function getAdminAuth(): Auth {
+  if (_auth) return _auth;
+  _auth = getAuth(getAdminApp());
+  return _auth;
+}
+
+/**
+ * Server-side Cloud Storage bucket: FIREBASE_STORAGE_BUCKET, else the client
+ * config's NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET. Lazily initialised.
+ */
+export function getAdminBucket(): Bucket {
+  if (_bucket) return _bucket;
+  const name = process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  if (!name) {
+    throw new Error(
+      "FIREBASE_STORAGE_BUCKET env var is missing. " +
+        "Set it to your Firebase Storage bucket, e.g. my-project.appspot.com."
+    );
+  }
+  _bucket = getStorage(getAdminApp()).bucket(name);
+  return _bucket;
+}
@@ -2,6 +2,8 @@
  * Helpers for action items (sorting, etc.).
  */
 
+import type { ActionItemCreate, ActionItemSerialized } from "./types";
+
 /** Canonical type definitions for action items. Single source of truth. */
 export const ACTION_ITEM_TYPES = [
   { value: "Medication", label: "Medication" },
@@ -79,3 +81,29 @@ export function sortActionItemsByPriorityAndDueDate<
     return dueByTime(a.dueBy) - dueByTime(b.dueBy);
   });
 }
+
+/**
+ * Converts a serialised action item (from the visit summary API) into an
+ * ActionItemCreate for Firestore. Items without a due date are due now.
+ */
+export function toActionItemCreate(item: ActionItemSerialized): ActionItemCreate {
+  let dueBy: Date;
+  if (item.dueBy) {
+    const parsed = new Date(item.dueBy);
+    dueBy = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  } else {
+    dueBy = new Date();
+  }
+
+  return {
+    id: item.id,
+    dueBy,
+    type: item.type,
+    title: item.title,
+    description: item.description,
+    status: item.status,
+    priority: item.priority,
+    recurrence: item.recurrence,
+    ...(item.medication ? { medication: item.medication } : {}),
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Server-side reads and writes of a user's data via the Admin SDK (API routes only).
+ * Uses the same mappers as the client API layer so both sides produce
+ * identical app types, and records writes in the audit log like api.ts does.
+ * Not re-exported from "@/lib/firestore" to keep firebase-admin out of client bundles.
+ */
+
+import { Timestamp, type DocumentData, type DocumentReference, type WriteBatch } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getChangedFields } from "./audit";
+import { CHAT_THREAD_MESSAGES, COLLECTIONS, USER_PATHS, type UserSubcollectionKey } from "./collections";
+import { applyDoseToActionItem, createDoseLog, isMedicationItem } from "./medications";
+import {
+  snapshotToActionItem,
+  snapshotToAppointment,
+  snapshotToChatThreadMessage,
+  snapshotToDocument,
+  snapshotToHealthNote,
+  snapshotToMedicationLog,
+  snapshotToSessionMetadata,
+  snapshotToUserMetadata,
+  serializeChatMessageParts,
+  type SnapshotLike,
+} from "./mappers";
+import type {
+  ActionItem,
+  Appointment,
+  AuditContext,
+  AuditEntityType,
+  AuditOperation,
+  AuditedSubcollectionKey,
+  ChatThreadMessage,
+  Document as DocumentType,
+  HealthNote,
+  MedicationLog,
+  SessionMetadata,
+  UserMetadata,
+} from "./types";
+
+/** Everything stored for one user, as app types. */
+export type HealthRecord = {
+  userMetadata: UserMetadata | null;
+  healthNotes: HealthNote[];
+  actionItems: ActionItem[];
+  sessionMetadata: SessionMetadata[];
+  appointments: Appointment[];
+  documents: DocumentType[];
+  medicationLogs: MedicationLog[];
+};
+
+function userDoc(uid: string) {
+  return getAdminDb().collection(COLLECTIONS.users).doc(uid);
+}
+
+/** Reads all documents in users/{uid}/{subcollection}; unparseable docs are skipped. */
+export async function readUserSubcollectionAdmin<T>(
+  uid: string,
+  subcollection: UserSubcollectionKey,
+  snapshotToItem: (snap: SnapshotLike) => T | null,
+): Promise<T[]> {
+  const snapshot = await userDoc(uid).collection(USER_PATHS[subcollection]).get();
+  return snapshot.docs.map((d) => snapshotToItem(d)).filter((item): item is T => item != null);
+}
+
+/** Reads users/{uid}, or null if the profile does not exist yet. */
+export async function readUserMetadataAdmin(uid: string): Promise<UserMetadata | null> {
+  const snap = await userDoc(uid).get();
+  return snap.exists ? snapshotToUserMetadata(snap) : null;
+}
+
+/** Reads the user's profile and every subcollection in parallel. */
+export async function readHealthRecord(uid: string): Promise<HealthRecord> {
+  const [userMetadata, healthNotes, actionItems, sessionMetadata, appointments, documents, medicationLogs] =
+    await Promise.all([
+      readUserMetadataAdmin(uid),
+      readUserSubcollectionAdmin(uid, "healthNotes", snapshotToHealthNote),
+      readUserSubcollectionAdmin(uid, "actionItems", snapshotToActionItem),
+      readUserSubcollectionAdmin(uid, "sessionMetadata", snapshotToSessionMetadata),
+      readUserSubcollectionAdmin(uid, "appointments", snapshotToAppointment),
+      readUserSubcollectionAdmin(uid, "documents", snapshotToDocument),
+      readUserSubcollectionAdmin(uid, "medicationLogs", snapshotToMedicationLog),
+    ]);
+  return { userMetadata, healthNotes, actionItems, sessionMetadata, appointments, documents, medicationLogs };
+}
+
+/** Reads users/{uid}/{subcollection}/{id}, or null if it doesn't exist or can't be parsed. */
+export async function readUserSubcollectionDocAdmin<T>(
+  uid: string,
+  subcollection: UserSubcollectionKey,
+  id: string,
+  snapshotToItem: (snap: SnapshotLike) => T | null,
+): Promise<T | null> {
+  const snap = await userDoc(uid).collection(USER_PATHS[subcollection]).doc(id).get();
+  return snap.exists ? snapshotToItem(snap) : null;
+}
+
+/**
+ * Converts app values for the Admin SDK: undefined becomes null, Dates are left
+ * for the SDK to store as Timestamps. (toFirestoreValue produces client-SDK
+ * Timestamps, which the Admin SDK rejects.)
+ */
+function toAdminFirestoreValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value;
+  if (Array.isArray(value)) return value.map(toAdminFirestoreValue);
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, toAdminFirestoreValue(v)]),
+    );
+  }
+  return value;
+}
+
+async function readBeforeAdmin(ref: DocumentReference): Promise<DocumentData | null> {
+  const snap = await ref.get();
+  return snap.exists ? (snap.data() ?? null) : null;
+}
+
+/** Admin counterpart of addAuditEntry in api.ts. */
+function addAuditEntryAdmin(
+  batch: WriteBatch,
+  uid: string,
+  audit: AuditContext,
+  entityType: AuditEntityType,
+  entityId: string,
+  before: DocumentData | null,
+  after: DocumentData | null,
+): void {
+  const operation: AuditOperation = !after ? "delete" : before ? "update" : "create";
+  if (operation === "update" && getChangedFields(before, after).length === 0) return;
+  batch.set(userDoc(uid).collection(USER_PATHS.auditLog).doc(), {
+    userId: uid,
+    actor: audit.actor,
+    reason: audit.reason ?? null,
+    operation,
+    entityType,
+    entityId,
+    before,
+    after,
+    createdAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Creates or overwrites users/{uid}/{subcollection}/{data.id}, with an audit
+ * entry in the same batch. Throws on failure.
+ */
+export async function writeUserSubcollectionDocAdmin<T extends { id: string }>(
+  uid: string,
+  subcollection: AuditedSubcollectionKey,
+  data: T,
+  audit: AuditContext,
+): Promise<T & { userId: string }> {
+  const docData = { ...data, userId: uid };
+  const ref = userDoc(uid).collection(USER_PATHS[subcollection]).doc(data.id);
+  const serialized = toAdminFirestoreValue(docData) as DocumentData;
+  const before = await readBeforeAdmin(ref);
+  const batch = getAdminDb().batch();
+  batch.set(ref, serialized);
+  addAuditEntryAdmin(batch, uid, audit, subcollection, data.id, before, serialized);
+  await batch.commit();
+  return docData;
+}
+
+/**
+ * Deletes users/{uid}/{subcollection}/{id}, with an audit entry in the same
+ * batch. Returns false if the document didn't exist. Throws on failure.
+ */
+export async function deleteUserSubcollectionDocAdmin(
+  uid: string,
+  subcollection: AuditedSubcollectionKey,
+  id: string,
+  audit: AuditContext,
+): Promise<boolean> {
+  const ref = userDoc(uid).collection(USER_PATHS[subcollection]).doc(id);
+  const before = await readBeforeAdmin(ref);
+  if (!before) return false;
+  const batch = getAdminDb().batch();
+  batch.delete(ref);
+  addAuditEntryAdmin(batch, uid, audit, subcollection, id, before, null);
+  await batch.commit();
+  return true;
+}
+
+/**
+ * Admin counterpart of recordMedicationDose in api.ts. Throws on failure.
+ * Pass the user's time zone: the server's process time zone is UTC.
+ */
+export async function recordMedicationDoseAdmin(
+  uid: string,
+  item: ActionItem,
+  status: "taken" | "missed",
+  at: Date,
+  audit: AuditContext,
+  timeZone?: string,
+): Promise<MedicationLog> {
+  if (!isMedicationItem(item)) {
+    throw new Error(`Action item ${item.id} is not a medication`);
+  }
+  const log: MedicationLog = { ...createDoseLog(item, status, at, timeZone), userId: uid };
+  const updatedItem: ActionItem = { ...applyDoseToActionItem(item, log), userId: uid };
+  const logRef = userDoc(uid).collection(USER_PATHS.medicationLogs).doc(log.id);
+  const itemRef = userDoc(uid).collection(USER_PATHS.actionItems).doc(item.id);
+  const serializedLog = toAdminFirestoreValue(log) as DocumentData;
+  const serializedItem = toAdminFirestoreValue(updatedItem) as DocumentData;
+  const [logBefore, itemBefore] = await Promise.all([readBeforeAdmin(logRef), readBeforeAdmin(itemRef)]);
+  const batch = getAdminDb().batch();
+  batch.set(logRef, serializedLog);
+  batch.set(itemRef, serializedItem);
+  addAuditEntryAdmin(batch, uid, audit, "medicationLogs", log.id, logBefore, serializedLog);
+  addAuditEntryAdmin(batch, uid, audit, "actionItems", item.id, itemBefore, serializedItem);
+  await batch.commit();
+  return log;
+}
+
+function chatThreadDoc(uid: string, threadId: string) {
+  return userDoc(uid).collection(USER_PATHS.chatThreads).doc(threadId);
+}
+
+/** Messages in users/{uid}/chatThreads/{threadId}, oldest first; empty for a new thread. */
+export async function readChatThreadMessagesAdmin(uid: string, threadId: string): Promise<ChatThreadMessage[]> {
+  const snapshot = await chatThreadDoc(uid, threadId).collection(CHAT_THREAD_MESSAGES).orderBy("createdAt").get();
+  return snapshot.docs
+    .map((d) => snapshotToChatThreadMessage(d))
+    .filter((message): message is ChatThreadMessage => message != null);
+}
+
+/**
+ * Saves messages to users/{uid}/chatThreads/{threadId} and bumps the thread's
+ * updatedAt. The thread is created, with `title`, on its first save. Messages
+ * are keyed by id, so saving one again replaces it. Throws on failure.
+ */
+export async function saveChatMessagesAdmin(
+  uid: string,
+  threadId: string,
+  messages: Pick<ChatThreadMessage, "id" | "role" | "parts">[],
+  title: string,
+): Promise<void> {
+  const threadRef = chatThreadDoc(uid, threadId);
+  const exists = (await threadRef.get()).exists;
+  const now = Date.now();
+  const batch = getAdminDb().batch();
+  batch.set(
+    threadRef,
+    exists
+      ? { updatedAt: new Date(now) }
+      : { userId: uid, title, createdAt: new Date(now), updatedAt: new Date(now) },
+    { merge: true },
+  );
+  messages.forEach((message, i) => {
+    batch.set(threadRef.collection(CHAT_THREAD_MESSAGES).doc(message.id), {
+      role: message.role,
+      parts: serializeChatMessageParts(message.parts),
+      // Offset so messages saved together keep their order.
+      createdAt: new Date(now + i),
+    });
+  });
+  await batch.commit();
+}
@@ -6,31 +6,68 @@
 
 import {
   collection,
-  deleteDoc as firestoreDeleteDoc,
   doc,
   getDoc,
   getDocs,
+  limit,
   onSnapshot,
-  setDoc,
+  orderBy,
+  query,
+  deleteField,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
   type Firestore,
   type DocumentSnapshot,
+  type WriteBatch,
   Timestamp,
 } from "firebase/firestore";
 import {
+  CHAT_THREAD_MESSAGES,
   COLLECTIONS,
   USER_PATHS,
   userDocRefSegments,
   userSubcollectionDocRefSegments,
   type UserSubcollectionKey,
 } from "./collections";
+import { USER_AUDIT_CONTEXT, getChangedFields } from "./audit";
+import { LEGACY_PROVIDER_ID } from "./careTeam";
+import {
+  snapshotToActionItem,
+  snapshotToAppointment,
+  snapshotToAuditEntry,
+  snapshotToCareTeamMember,
+  snapshotToChatThread,
+  snapshotToChatThreadMessage,
+  snapshotToDocument,
+  snapshotToHealthNote,
+  snapshotToMedicationLog,
+  snapshotToSessionMetadata,
+  snapshotToTranscript,
+  snapshotToUserMetadata,
+} from "./mappers";
+import { applyDoseToActionItem, createDoseLog, doseLogId, isMedicationItem } from "./medications";
+import { isRecurring, withOccurrenceStatus } from "./recurrence";
 import { toFirestoreValue } from "./serialize";
 import { DEFAULT_LANGUAGE_TAG, resolveLanguageTag } from "@/lib/i18n/locales";
 import type {
   ActionItem,
   Appointment,
+  AppointmentCreate,
+  AuditContext,
+  AuditEntityType,
+  AuditEntry,
+  AuditOperation,
+  AuditedSubcollectionKey,
+  CareTeamMember,
+  CareTeamMemberCreate,
+  ChatThread,
+  ChatThreadMessage,
   Document as DocumentType,
   HealthNote,
+  MedicationLog,
   SessionMetadata,
+  Transcript,
   UserMetadata,
   UserMetadataUpdatePayload,
 } from "./types";
@@ -40,24 +77,49 @@ function getUserDocRef(db: Firestore, uid: string) {
   return doc(db, ...userDocRefSegments(uid));
 }
 
-function snapshotToUserMetadata(snap: DocumentSnapshot): UserMetadata | null {
-  const data = snap.data();
-  if (!data) return null;
-  // Doc must have createDate (we write it); accept Firestore Timestamp.
-  const createDate = data.createDate;
-  if (createDate == null) return null;
-  return {
-    id: snap.id,
-    createDate: createDate as UserMetadata["createDate"],
-    email: typeof data.email === "string" ? data.email : undefined,
-    firstName: typeof data.firstName === "string" ? data.firstName : "",
-    lastName: typeof data.lastName === "string" ? data.lastName : "",
-    preferredLanguage:
-      typeof data.preferredLanguage === "string"
-        ? resolveLanguageTag(data.preferredLanguage)
-        : undefined,
-    hospitalPhoneNumber: typeof data.hospitalPhoneNumber === "string" ? data.hospitalPhoneNumber : undefined,
-  };
+/** Newest audit entries shown in history. */
+const AUDIT_LOG_LIMIT = 200;
+
+/** Newest chat threads shown in the thread list. */
+const CHAT_THREAD_LIMIT = 50;
+
+/** Firestore's maximum number of writes in one batch. */
+const MAX_BATCH_WRITES = 500;
+
+/** Current data of a document, for an audit entry's "before" (null if it doesn't exist). */
+async function readBefore(ref: DocumentReference): Promise<DocumentData | null> {
+  const snap = await getDoc(ref);
+  return snap.exists() ? snap.data() : null;
+}
+
+/**
+ * Adds an audit entry for a change to the batch, so the entry is written if and
+ * only if the change is. Updates that change nothing are not recorded.
+ */
+function addAuditEntry(
+  batch: WriteBatch,
+  db: Firestore,
+  uid: string,
+  audit: AuditContext,
+  entityType: AuditEntityType,
+  entityId: string,
+  before: DocumentData | null,
+  after: DocumentData | null
+): void {
+  const operation: AuditOperation = !after ? "delete" : before ? "update" : "create";
+  if (operation === "update" && getChangedFields(before, after).length === 0) return;
+  const ref = doc(collection(db, COLLECTIONS.users, uid, USER_PATHS.auditLog));
+  batch.set(ref, {
+    userId: uid,
+    actor: audit.actor,
+    reason: audit.reason ?? null,
+    operation,
+    entityType,
+    entityId,
+    before,
+    after,
+    createdAt: Timestamp.now(),
+  });
 }
 
 /**
@@ -84,33 +146,80 @@ export async function readUserMetadata(
 export async function writeUserMetadata(
   db: Firestore,
   uid: string,
-  payload: UserMetadataUpdatePayload
+  payload: UserMetadataUpdatePayload,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<UserMetadata>> {
   try {
     const ref = getUserDocRef(db, uid);
+    const before = await readBefore(ref);
     const docData: UserMetadata = {
       id: uid,
       email: payload.email ?? "",
       firstName: payload.firstName ?? "",
       lastName: payload.lastName ?? "",
       preferredLanguage: resolveLanguageTag(payload.preferredLanguage ?? DEFAULT_LANGUAGE_TAG),
-      hospitalPhoneNumber: payload.hospitalPhoneNumber ?? "",
       createDate: Timestamp.now(),
     };
-    await setDoc(ref, docData);
+    const batch = writeBatch(db);
+    batch.set(ref, docData);
+    addAuditEntry(batch, db, uid, audit, "userMetadata", uid, before, docData);
+    await batch.commit();
     return { ok: true, data: docData };
   } catch (err) {
     return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
   }
 }
 
-/** Converts Firestore Timestamp or Date to Date for app types. */
-function toDate(value: unknown): Date {
-  if (value instanceof Date) return value;
-  if (value && typeof value === "object" && "toDate" in value && typeof (value as Timestamp).toDate === "function") {
-    return (value as Timestamp).toDate();
+/**
+ * Moves a legacy hospitalPhoneNumber off users/{uid} into the care team, as
+ * the member with id LEGACY_PROVIDER_ID, in one batch. name is what to call
+ * it (the caller's translated "primary care"). Does nothing if the profile
+ * has no number; returns the member if one was created.
+ */
+export async function migrateHospitalPhoneNumber(
+  db: Firestore,
+  uid: string,
+  name: string
+): Promise<FirestoreResult<CareTeamMember | null>> {
+  try {
+    const userRef = getUserDocRef(db, uid);
+    const userBefore = await readBefore(userRef);
+    if (!userBefore || !("hospitalPhoneNumber" in userBefore)) return { ok: true, data: null };
+    const phone = typeof userBefore.hospitalPhoneNumber === "string" ? userBefore.hospitalPhoneNumber.trim() : "";
+
+    const batch = writeBatch(db);
+    const userAfter = { ...userBefore };
+    delete userAfter.hospitalPhoneNumber;
+    batch.update(userRef, { hospitalPhoneNumber: deleteField() });
+    addAuditEntry(batch, db, uid, USER_AUDIT_CONTEXT, "userMetadata", uid, userBefore, userAfter);
+    if (!phone) {
+      await batch.commit();
+      return { ok: true, data: null };
+    }
+
+    const member: CareTeamMember = {
+      id: LEGACY_PROVIDER_ID,
+      userId: uid,
+      name,
+      specialty: "",
+      phone,
+      address: "",
+      schedulingMethod: "phone",
+      notes: "",
+    };
+    const memberRef = doc(db, ...userSubcollectionDocRefSegments(uid, "careTeam", member.id));
+    const memberBefore = await readBefore(memberRef);
+    // Keep a member the user already has under this id (e.g. migrated from another tab).
+    if (!memberBefore) {
+      const serialized = toFirestoreValue(member) as Record<string, unknown>;
+      batch.set(memberRef, serialized);
+      addAuditEntry(batch, db, uid, USER_AUDIT_CONTEXT, "careTeam", member.id, null, serialized);
+    }
+    await batch.commit();
+    return { ok: true, data: memberBefore ? null : member };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
   }
-  return new Date(0);
 }
 
 /**
@@ -138,17 +247,23 @@ async function readUserSubcollectionDocs<T>(
 /**
  * Writes a document to a user subcollection. Path: users/{uid}/{subcollection}/{id}.
  * Serializes Date to Timestamp. Ensures userId is set on the document for rules.
+ * Records the change in the audit log in the same batch.
  */
 async function writeUserSubcollectionDoc<T extends { id: string; userId: string }>(
   db: Firestore,
   uid: string,
-  subcollection: UserSubcollectionKey,
-  data: T
+  subcollection: AuditedSubcollectionKey,
+  data: T,
+  audit: AuditContext
 ): Promise<FirestoreResult<T>> {
   try {
     const ref = doc(db, ...userSubcollectionDocRefSegments(uid, subcollection, data.id));
     const serialized = toFirestoreValue({ ...data, userId: uid }) as Record<string, unknown>;
-    await setDoc(ref, serialized);
+    const before = await readBefore(ref);
+    const batch = writeBatch(db);
+    batch.set(ref, serialized);
+    addAuditEntry(batch, db, uid, audit, subcollection, data.id, before, serialized);
+    await batch.commit();
     return { ok: true, data };
   } catch (err) {
     return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
@@ -158,65 +273,183 @@ async function writeUserSubcollectionDoc<T extends { id: string; userId: string
 export async function writeHealthNote(
   db: Firestore,
   uid: string,
-  data: Omit<HealthNote, "userId"> & { userId?: string }
+  data: Omit<HealthNote, "userId"> & { userId?: string },
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<HealthNote>> {
   const docData: HealthNote = { ...data, userId: uid };
-  return writeUserSubcollectionDoc(db, uid, "healthNotes", docData);
+  return writeUserSubcollectionDoc(db, uid, "healthNotes", docData, audit);
 }
 
 export async function writeActionItem(
   db: Firestore,
   uid: string,
-  data: Omit<ActionItem, "userId"> & { userId?: string }
+  data: Omit<ActionItem, "userId"> & { userId?: string },
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<ActionItem>> {
   const docData: ActionItem = { ...data, userId: uid };
-  return writeUserSubcollectionDoc(db, uid, "actionItems", docData);
+  return writeUserSubcollectionDoc(db, uid, "actionItems", docData, audit);
 }
 
 export async function writeSessionMetadata(
   db: Firestore,
   uid: string,
-  data: Omit<SessionMetadata, "userId"> & { userId?: string }
+  data: Omit<SessionMetadata, "userId" | "discussionTopics"> & { userId?: string; discussionTopics?: string[] },
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<SessionMetadata>> {
   const docData: SessionMetadata = {
     ...data,
     userId: uid,
+    discussionTopics: data.discussionTopics ?? [],
     actionItemIds: data.actionItemIds ?? [],
     documentIds: data.documentIds ?? [],
   };
-  return writeUserSubcollectionDoc(db, uid, "sessionMetadata", docData);
+  return writeUserSubcollectionDoc(db, uid, "sessionMetadata", docData, audit);
 }
 
 export async function writeAppointment(
   db: Firestore,
   uid: string,
-  data: Omit<Appointment, "userId"> & { userId?: string }
+  data: AppointmentCreate,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<Appointment>> {
-  const docData: Appointment = { ...data, userId: uid };
-  return writeUserSubcollectionDoc(db, uid, "appointments", docData);
+  const docData: Appointment = {
+    ...data,
+    userId: uid,
+    providerName: data.providerName ?? "",
+    clinic: data.clinic ?? "",
+    address: data.address ?? "",
+    reason: data.reason ?? "",
+    status: data.status ?? "scheduled",
+    notes: data.notes ?? "",
+    agenda: data.agenda ?? [],
+    providerId: data.providerId ?? null,
+  };
+  return writeUserSubcollectionDoc(db, uid, "appointments", docData, audit);
+}
+
+export async function writeCareTeamMember(
+  db: Firestore,
+  uid: string,
+  data: CareTeamMemberCreate & { userId?: string },
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<CareTeamMember>> {
+  const docData: CareTeamMember = { ...data, userId: uid };
+  return writeUserSubcollectionDoc(db, uid, "careTeam", docData, audit);
 }
 
 export async function writeDocument(
   db: Firestore,
   uid: string,
-  data: Omit<DocumentType, "userId"> & { userId?: string }
+  data: Omit<DocumentType, "userId"> & { userId?: string },
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<DocumentType>> {
   const docData: DocumentType = { ...data, userId: uid };
-  return writeUserSubcollectionDoc(db, uid, "documents", docData);
+  return writeUserSubcollectionDoc(db, uid, "documents", docData, audit);
+}
+
+export async function writeMedicationLog(
+  db: Firestore,
+  uid: string,
+  data: Omit<MedicationLog, "userId"> & { userId?: string },
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<MedicationLog>> {
+  const docData: MedicationLog = { ...data, userId: uid };
+  return writeUserSubcollectionDoc(db, uid, "medicationLogs", docData, audit);
+}
+
+export async function writeTranscript(
+  db: Firestore,
+  uid: string,
+  data: Omit<Transcript, "userId"> & { userId?: string },
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<Transcript>> {
+  const docData: Transcript = { ...data, userId: uid };
+  return writeUserSubcollectionDoc(db, uid, "transcripts", docData, audit);
+}
+
+/**
+ * Logs a medication dose as taken (or late) or missed and marks the matching
+ * occurrence of the action item done/skipped, in one batch (with audit entries).
+ */
+export async function recordMedicationDose(
+  db: Firestore,
+  uid: string,
+  item: ActionItem,
+  status: "taken" | "missed",
+  at: Date = new Date(),
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<MedicationLog>> {
+  if (!isMedicationItem(item)) {
+    return { ok: false, error: new Error(`Action item ${item.id} is not a medication`) };
+  }
+  try {
+    const log: MedicationLog = { ...createDoseLog(item, status, at), userId: uid };
+    const updatedItem: ActionItem = { ...applyDoseToActionItem(item, log), userId: uid };
+    const logRef = doc(db, ...userSubcollectionDocRefSegments(uid, "medicationLogs", log.id));
+    const itemRef = doc(db, ...userSubcollectionDocRefSegments(uid, "actionItems", item.id));
+    const serializedLog = toFirestoreValue(log) as Record<string, unknown>;
+    const serializedItem = toFirestoreValue(updatedItem) as Record<string, unknown>;
+    const [logBefore, itemBefore] = await Promise.all([readBefore(logRef), readBefore(itemRef)]);
+    const batch = writeBatch(db);
+    batch.set(logRef, serializedLog);
+    batch.set(itemRef, serializedItem);
+    addAuditEntry(batch, db, uid, audit, "medicationLogs", log.id, logBefore, serializedLog);
+    addAuditEntry(batch, db, uid, audit, "actionItems", item.id, itemBefore, serializedItem);
+    await batch.commit();
+    return { ok: true, data: log };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/** Removes the logged dose for one occurrence and reopens it on the action item. */
+export async function undoMedicationDose(
+  db: Firestore,
+  uid: string,
+  item: ActionItem,
+  occurrenceKey: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<void>> {
+  try {
+    const updatedItem: ActionItem = isRecurring(item)
+      ? withOccurrenceStatus(item, occurrenceKey, null)
+      : { ...item, status: "pending" };
+    const logId = doseLogId(item.id, occurrenceKey);
+    const logRef = doc(db, ...userSubcollectionDocRefSegments(uid, "medicationLogs", logId));
+    const itemRef = doc(db, ...userSubcollectionDocRefSegments(uid, "actionItems", item.id));
+    const serializedItem = toFirestoreValue({ ...updatedItem, userId: uid }) as Record<string, unknown>;
+    const [logBefore, itemBefore] = await Promise.all([readBefore(logRef), readBefore(itemRef)]);
+    const batch = writeBatch(db);
+    batch.delete(logRef);
+    batch.set(itemRef, serializedItem);
+    if (logBefore) addAuditEntry(batch, db, uid, audit, "medicationLogs", logId, logBefore, null);
+    addAuditEntry(batch, db, uid, audit, "actionItems", item.id, itemBefore, serializedItem);
+    await batch.commit();
+    return { ok: true, data: undefined };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
+  }
 }
 
 /**
  * Deletes a document from a user subcollection. Path: users/{uid}/{subcollection}/{docId}.
+ * Records the deleted data in the audit log in the same batch.
  */
 async function deleteUserSubcollectionDoc(
   db: Firestore,
   uid: string,
-  subcollection: UserSubcollectionKey,
-  docId: string
+  subcollection: AuditedSubcollectionKey,
+  docId: string,
+  audit: AuditContext
 ): Promise<FirestoreResult<void>> {
   try {
     const ref = doc(db, ...userSubcollectionDocRefSegments(uid, subcollection, docId));
-    await firestoreDeleteDoc(ref);
+    const before = await readBefore(ref);
+    if (!before) return { ok: true, data: undefined };
+    const batch = writeBatch(db);
+    batch.delete(ref);
+    addAuditEntry(batch, db, uid, audit, subcollection, docId, before, null);
+    await batch.commit();
     return { ok: true, data: undefined };
   } catch (err) {
     return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
@@ -226,137 +459,66 @@ async function deleteUserSubcollectionDoc(
 export async function deleteHealthNote(
   db: Firestore,
   uid: string,
-  noteId: string
+  noteId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<void>> {
-  return deleteUserSubcollectionDoc(db, uid, "healthNotes", noteId);
+  return deleteUserSubcollectionDoc(db, uid, "healthNotes", noteId, audit);
 }
 
 export async function deleteActionItem(
   db: Firestore,
   uid: string,
-  itemId: string
+  itemId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<void>> {
-  return deleteUserSubcollectionDoc(db, uid, "actionItems", itemId);
+  return deleteUserSubcollectionDoc(db, uid, "actionItems", itemId, audit);
 }
 
 export async function deleteSessionMetadata(
   db: Firestore,
   uid: string,
-  sessionId: string
+  sessionId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<void>> {
-  return deleteUserSubcollectionDoc(db, uid, "sessionMetadata", sessionId);
+  return deleteUserSubcollectionDoc(db, uid, "sessionMetadata", sessionId, audit);
 }
 
 export async function deleteAppointment(
   db: Firestore,
   uid: string,
-  appointmentId: string
+  appointmentId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<void>> {
-  return deleteUserSubcollectionDoc(db, uid, "appointments", appointmentId);
+  return deleteUserSubcollectionDoc(db, uid, "appointments", appointmentId, audit);
 }
 
-export async function deleteDocument(
+export async function deleteCareTeamMember(
   db: Firestore,
   uid: string,
-  documentId: string
+  memberId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
 ): Promise<FirestoreResult<void>> {
-  return deleteUserSubcollectionDoc(db, uid, "documents", documentId);
-}
-
-function snapshotToHealthNote(snap: DocumentSnapshot): HealthNote | null {
-  const data = snap.data();
-  if (!data || typeof data.userId !== "string") return null;
-  return {
-    id: snap.id,
-    userId: data.userId,
-    date: toDate(data.date),
-    startedAt: toDate(data.startedAt),
-    endedAt: toDate(data.endedAt),
-    type: typeof data.type === "string" ? data.type : "",
-    title: typeof data.title === "string" ? data.title : "",
-    description: typeof data.description === "string" ? data.description : "",
-  };
+  return deleteUserSubcollectionDoc(db, uid, "careTeam", memberId, audit);
 }
 
-function snapshotToActionItem(snap: DocumentSnapshot): ActionItem | null {
-  const data = snap.data();
-  if (!data || typeof data.userId !== "string") return null;
-  const med = data.medication;
-  const medication =
-    med &&
-    typeof med === "object" &&
-    typeof med.name === "string" &&
-    typeof med.dose === "number" &&
-    typeof med.dosageUnit === "string" &&
-    typeof med.count === "number" &&
-    typeof med.route === "string"
-      ? {
-          name: med.name,
-          dose: med.dose,
-          dosageUnit: med.dosageUnit,
-          count: med.count,
-          route: med.route,
-        }
-      : undefined;
-  return {
-    id: snap.id,
-    userId: data.userId,
-    dueBy: toDate(data.dueBy),
-    type: typeof data.type === "string" ? data.type : "",
-    title: typeof data.title === "string" ? data.title : "",
-    description: typeof data.description === "string" ? data.description : "",
-    status: typeof data.status === "string" ? data.status : "",
-    priority: typeof data.priority === "string" ? data.priority : "",
-    recurrence: typeof data.recurrence === "string" ? data.recurrence : "",
-    medication,
-  };
-}
-
-function snapshotToSessionMetadata(snap: DocumentSnapshot): SessionMetadata | null {
-  const data = snap.data();
-  if (!data || typeof data.userId !== "string") return null;
-  const actionItemIds = Array.isArray(data.actionItemIds)
-    ? (data.actionItemIds as unknown[]).filter((id): id is string => typeof id === "string")
-    : Array.isArray((data as { actionItems?: unknown[] }).actionItems)
-      ? [] // legacy: old docs had actionItems; treat as no refs
-      : [];
-  const documentIds = Array.isArray(data.documentIds)
-    ? (data.documentIds as unknown[]).filter((id): id is string => typeof id === "string")
-    : [];
-  return {
-    id: snap.id,
-    userId: data.userId,
-    date: toDate(data.date),
-    title: typeof data.title === "string" ? data.title : "",
-    summary: typeof data.summary === "string" ? data.summary : "",
-    actionItemIds,
-    documentIds,
-  };
-}
-
-function snapshotToAppointment(snap: DocumentSnapshot): Appointment | null {
-  const data = snap.data();
-  if (!data || typeof data.userId !== "string") return null;
-  return {
-    id: snap.id,
-    userId: data.userId,
-    appointmentTime: toDate(data.appointmentTime),
-    scheduledOn: toDate(data.scheduledOn),
-  };
+export async function deleteDocument(
+  db: Firestore,
+  uid: string,
+  documentId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<void>> {
+  return deleteUserSubcollectionDoc(db, uid, "documents", documentId, audit);
 }
 
-function snapshotToDocument(snap: DocumentSnapshot): DocumentType | null {
-  const data = snap.data();
-  if (!data || typeof data.userId !== "string") return null;
-  return {
-    id: snap.id,
-    userId: data.userId,
-    summary: typeof data.summary === "string" ? data.summary : "",
-    uploadedAt: toDate(data.uploadedAt),
-  };
+export async function deleteMedicationLog(
+  db: Firestore,
+  uid: string,
+  logId: string,
+  audit: AuditContext = USER_AUDIT_CONTEXT
+): Promise<FirestoreResult<void>> {
+  return deleteUserSubcollectionDoc(db, uid, "medicationLogs", logId, audit);
 }
 
-
 /**
  * Subscribes to a user subcollection with onSnapshot. Calls onData with parsed items
  * on every update. Optionally call onError. Returns an unsubscribe function.
@@ -434,6 +596,19 @@ export function subscribeAppointments(
   return subscribeUserSubcollection(db, uid, "appointments", snapshotToAppointment, onData, onError);
 }
 
+/**
+ * Real-time subscription to the care team for the given user.
+ * Returns an unsubscribe function.
+ */
+export function subscribeCareTeam(
+  db: Firestore,
+  uid: string,
+  onData: (data: CareTeamMember[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return subscribeUserSubcollection(db, uid, "careTeam", snapshotToCareTeamMember, onData, onError);
+}
+
 /**
  * Real-time subscription to documents for the given user.
  * Returns an unsubscribe function.
@@ -447,6 +622,138 @@ export function subscribeDocuments(
   return subscribeUserSubcollection(db, uid, "documents", snapshotToDocument, onData, onError);
 }
 
+/**
+ * Real-time subscription to the medication dose log for the given user.
+ * Returns an unsubscribe function.
+ */
+export function subscribeMedicationLogs(
+  db: Firestore,
+  uid: string,
+  onData: (data: MedicationLog[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return subscribeUserSubcollection(db, uid, "medicationLogs", snapshotToMedicationLog, onData, onError);
+}
+
+/**
+ * Real-time subscription to visit transcripts for the given user.
+ * Returns an unsubscribe function.
+ */
+export function subscribeTranscripts(
+  db: Firestore,
+  uid: string,
+  onData: (data: Transcript[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return subscribeUserSubcollection(db, uid, "transcripts", snapshotToTranscript, onData, onError);
+}
+
+/**
+ * Real-time subscription to the newest audit log entries (newest first).
+ * Returns an unsubscribe function.
+ */
+export function subscribeAuditLog(
+  db: Firestore,
+  uid: string,
+  onData: (data: AuditEntry[]) => void,
+  onError?: (error: Error) => void,
+  max: number = AUDIT_LOG_LIMIT
+): () => void {
+  const q = query(
+    collection(db, COLLECTIONS.users, uid, USER_PATHS.auditLog),
+    orderBy("createdAt", "desc"),
+    limit(max)
+  );
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const data = snapshot.docs
+        .map((d) => snapshotToAuditEntry(d))
+        .filter((entry): entry is AuditEntry => entry != null);
+      onData(data);
+    },
+    (err) => onError?.(err instanceof Error ? err : new Error(String(err)))
+  );
+}
+
+/**
+ * Real-time subscription to the newest chat threads (most recently active first).
+ * Returns an unsubscribe function.
+ */
+export function subscribeChatThreads(
+  db: Firestore,
+  uid: string,
+  onData: (data: ChatThread[]) => void,
+  onError?: (error: Error) => void,
+  max: number = CHAT_THREAD_LIMIT
+): () => void {
+  const q = query(
+    collection(db, COLLECTIONS.users, uid, USER_PATHS.chatThreads),
+    orderBy("updatedAt", "desc"),
+    limit(max)
+  );
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const data = snapshot.docs
+        .map((d) => snapshotToChatThread(d))
+        .filter((thread): thread is ChatThread => thread != null);
+      onData(data);
+    },
+    (err) => onError?.(err instanceof Error ? err : new Error(String(err)))
+  );
+}
+
+/**
+ * Reads the messages of users/{uid}/chatThreads/{threadId}, oldest first.
+ */
+export async function readChatThreadMessages(
+  db: Firestore,
+  uid: string,
+  threadId: string
+): Promise<FirestoreResult<ChatThreadMessage[]>> {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, ...userSubcollectionDocRefSegments(uid, "chatThreads", threadId), CHAT_THREAD_MESSAGES),
+        orderBy("createdAt")
+      )
+    );
+    const data = snapshot.docs
+      .map((d) => snapshotToChatThreadMessage(d))
+      .filter((message): message is ChatThreadMessage => message != null);
+    return { ok: true, data };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/**
+ * Deletes a chat thread and its messages. Chat threads are conversations, not
+ * health records, so this is not audited. The thread document goes last, so a
+ * failure part-way leaves it listed and the delete can be retried.
+ */
+export async function deleteChatThread(
+  db: Firestore,
+  uid: string,
+  threadId: string
+): Promise<FirestoreResult<void>> {
+  try {
+    const threadRef = doc(db, ...userSubcollectionDocRefSegments(uid, "chatThreads", threadId));
+    const messages = await getDocs(collection(threadRef, CHAT_THREAD_MESSAGES));
+    for (let i = 0; i < messages.docs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      messages.docs.slice(i, i + MAX_BATCH_WRITES).forEach((d) => batch.delete(d.ref));
+      await batch.commit();
+    }
+    const batch = writeBatch(db);
+    batch.delete(threadRef);
+    await batch.commit();
+    return { ok: true, data: undefined };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
 
 // These are not really necessary for now i htink, but leaving this for now (dont use these unless you want to just read once)
 /**
@@ -498,3 +805,13 @@ export async function readDocuments(
 ): Promise<FirestoreResult<DocumentType[]>> {
   return readUserSubcollectionDocs(db, uid, "documents", snapshotToDocument);
 }
+
+/**
+ * Reads the medication dose log for the given user from users/{uid}/medicationLogs.
+ */
+export async function readMedicationLogs(
+  db: Firestore,
+  uid: string
+): Promise<FirestoreResult<MedicationLog[]>> {
+  return readUserSubcollectionDocs(db, uid, "medicationLogs", snapshotToMedicationLog);
+}
@@ -0,0 +1,22 @@
+/**
+ * Helpers for appointments (statuses).
+ */
+
+import type { AppointmentStatus } from "./types";
+
+/** Canonical appointment statuses. Single source of truth. */
+export const APPOINTMENT_STATUSES: readonly AppointmentStatus[] = [
+  "scheduled",
+  "confirmed",
+  "cancelled",
+  "completed",
+  "no-show",
+];
+
+/** Statuses of appointments that are still going to take place. */
+const OPEN_STATUSES: ReadonlySet<string> = new Set<AppointmentStatus>(["scheduled", "confirmed"]);
+
+/** Returns true if the appointment has not been cancelled, attended or missed. */
+export function isOpenAppointmentStatus(status: string): boolean {
+  return OPEN_STATUSES.has(status);
+}
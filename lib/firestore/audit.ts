@@ -0,0 +1,59 @@
+/**
+ * Helpers for the audit log (users/{uid}/auditLog). Entries are written by the
+ * write* / delete* functions in api.ts alongside the change itself.
+ */
+
+import type { AuditActor, AuditContext, AuditEntry } from "./types";
+
+export const AUDIT_ACTORS: readonly AuditActor[] = ["user", "chat_assistant", "voice_command", "visit_extraction", "calendar_sync"];
+
+/** Attribution used when a caller doesn't pass one: a change made directly by the user. */
+export const USER_AUDIT_CONTEXT: AuditContext = { actor: "user" };
+
+/** Bookkeeping fields left out of change lists. */
+const IGNORED_FIELDS: ReadonlySet<string> = new Set(["id", "userId"]);
+
+/** Whether the change was made by the assistant or an automatic extraction rather than the user. */
+export function isAssistantActor(actor: AuditActor): boolean {
+  return actor !== "user";
+}
+
+/** Comparable form of a stored value: Dates and Timestamps become milliseconds. */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value === "object") {
+    if (typeof (value as { toMillis?: unknown }).toMillis === "function") {
+      return (value as { toMillis: () => number }).toMillis();
+    }
+    if (Array.isArray(value)) return value.map(comparable);
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, comparable(v)]),
+    );
+  }
+  return value ?? null;
+}
+
+/** Top-level fields whose values differ between two snapshots of a document. */
+export function getChangedFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): string[] {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return [...keys]
+    .filter((key) => !IGNORED_FIELDS.has(key))
+    .filter((key) => JSON.stringify(comparable(before?.[key])) !== JSON.stringify(comparable(after?.[key])))
+    .sort();
+}
+
+/** Display name of the record an entry is about (title, medication, name or summary), if it has one. */
+export function getAuditEntityLabel(entry: AuditEntry): string | null {
+  const data = entry.after ?? entry.before;
+  if (!data) return null;
+  for (const key of ["title", "medicationName", "name", "summary", "firstName"]) {
+    const value = data[key];
+    if (typeof value === "string" && value.trim()) return value.trim().split(/\n/)[0].slice(0, 80);
+  }
+  return null;
+}
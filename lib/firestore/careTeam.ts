@@ -0,0 +1,40 @@
+/**
+ * Helpers for care team members (scheduling methods, phone numbers, sorting).
+ */
+
+import type { CareTeamMember, SchedulingMethod } from "./types";
+
+/** Canonical scheduling methods. Single source of truth. */
+export const SCHEDULING_METHODS: readonly SchedulingMethod[] = ["phone", "portal", "walk_in"];
+
+/**
+ * Id of the member created from the legacy hospitalPhoneNumber, so moving it
+ * into the care team twice (e.g. from two tabs) writes the same document.
+ */
+export const LEGACY_PROVIDER_ID = "primary-care";
+
+/** US numbers only for now; scheduling calls dial "+1 " + the number. */
+const PHONE_DIGITS = 10;
+
+/** Formats what the user typed as "(555) 123-4567", keeping at most 10 digits. */
+export function formatPhoneNumber(value: string): string {
+  const digits = value.replace(/\D/g, "").slice(0, PHONE_DIGITS);
+  if (digits.length <= 3) return digits;
+  if (digits.length <= 6) return `(${digits.slice(0, 3)}) ${digits.slice(3)}`;
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+}
+
+/** Returns true if the number has exactly 10 digits. */
+export function isValidPhoneNumber(value: string): boolean {
+  return value.replace(/\D/g, "").length === PHONE_DIGITS;
+}
+
+/** Returns true if the scheduling assistant can call this member to book a visit. */
+export function canScheduleByPhone(member: CareTeamMember): boolean {
+  return isValidPhoneNumber(member.phone);
+}
+
+/** Sorts members by name (stable, case-insensitive). */
+export function sortCareTeam(members: CareTeamMember[]): CareTeamMember[] {
+  return [...members].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
+}
@@ -9,6 +9,12 @@
  * - users/{uid}/actionItems/{id}   — action items subcollection
  * - users/{uid}/sessionMetadata/{id} — session metadata subcollection
  * - users/{uid}/appointments/{id}   — appointments subcollection
+ * - users/{uid}/medicationLogs/{id} — medication dose log subcollection
+ * - users/{uid}/auditLog/{id}       — append-only history of data changes
+ * - users/{uid}/chatThreads/{id}    — home page chat threads (written by /api/chat)
+ * - users/{uid}/chatThreads/{id}/messages/{id} — messages in a chat thread
+ * - users/{uid}/transcripts/{id}    — visit transcripts, linked to the session they produced
+ * - users/{uid}/careTeam/{id}       — providers the user sees (doctors, pharmacy, therapists)
  */
 export const COLLECTIONS = {
   /** Top-level users collection: users/{uid} and subcollections under it */
@@ -29,8 +35,21 @@ export const USER_PATHS = {
   appointments: "appointments",
   /** Documents: users/{userId}/documents/{id} */
   documents: "documents",
+  /** Medication dose log: users/{userId}/medicationLogs/{id} */
+  medicationLogs: "medicationLogs",
+  /** Audit log (append-only): users/{userId}/auditLog/{id} */
+  auditLog: "auditLog",
+  /** Chat threads: users/{userId}/chatThreads/{id} */
+  chatThreads: "chatThreads",
+  /** Visit transcripts: users/{userId}/transcripts/{id} */
+  transcripts: "transcripts",
+  /** Care team: users/{userId}/careTeam/{id} */
+  careTeam: "careTeam",
 } as const;
 
+/** Messages under a chat thread: users/{userId}/chatThreads/{threadId}/messages/{id} */
+export const CHAT_THREAD_MESSAGES = "messages";
+
 export type UserSubcollectionKey = keyof typeof USER_PATHS;
 
 /** Path segments for the user document ref: doc(db, ...) => users/{uid} */
@@ -133,6 +133,36 @@ export const ENTRY_FORM_CONFIGS: Record<EntryType, EntryFormConfig> = {
     description: "Created via Capture document (photo + LLM summary).",
     fields: [],
   },
+  medicationLogs: {
+    entryType: "medicationLogs",
+    label: "Medication dose",
+    description: "Created when a dose is marked taken or missed.",
+    fields: [],
+  },
+  auditLog: {
+    entryType: "auditLog",
+    label: "History",
+    description: "Written automatically on every change; read-only.",
+    fields: [],
+  },
+  chatThreads: {
+    entryType: "chatThreads",
+    label: "Chat thread",
+    description: "Saved by the chat assistant; not edited by hand.",
+    fields: [],
+  },
+  transcripts: {
+    entryType: "transcripts",
+    label: "Visit transcript",
+    description: "Saved from visit recordings; not edited by hand.",
+    fields: [],
+  },
+  careTeam: {
+    entryType: "careTeam",
+    label: "Care team member",
+    description: "Managed on the Care team page.",
+    fields: [],
+  },
 };
 
 export const ENTRY_TYPES: EntryType[] = ["healthNotes", "actionItems", "sessionMetadata"];
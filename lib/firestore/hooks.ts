@@ -10,25 +10,39 @@ import {
   writeHealthNote,
   writeActionItem,
   writeSessionMetadata,
+  writeTranscript,
   subscribeHealthNotes,
   subscribeActionItems,
   subscribeSessionMetadata,
   subscribeAppointments,
+  subscribeCareTeam,
   subscribeDocuments,
+  subscribeMedicationLogs,
+  subscribeAuditLog,
+  subscribeChatThreads,
+  subscribeTranscripts,
 } from "./api";
+import { sortCareTeam } from "./careTeam";
 import { sortHealthNotesByCreatedDesc } from "./healthNotes";
 import { sortSessionsByDateDesc } from "./sessions";
 import type {
   ActionItem,
   Appointment,
+  AuditContext,
+  AuditEntry,
+  CareTeamMember,
+  ChatThread,
   Document,
   HealthNote,
+  MedicationLog,
   SessionMetadata,
+  Transcript,
   UserMetadata,
   UserMetadataUpdatePayload,
   HealthNoteCreate,
   ActionItemCreate,
   SessionMetadataCreate,
+  TranscriptCreate,
   EntryType,
 } from "./types";
 
@@ -124,7 +138,8 @@ export function useSaveEntry() {
   const save = useCallback(
     async (
       entryType: EntryType,
-      payload: HealthNoteCreate | ActionItemCreate | SessionMetadataCreate,
+      payload: HealthNoteCreate | ActionItemCreate | SessionMetadataCreate | TranscriptCreate,
+      audit?: AuditContext,
     ) => {
       if (!uid) return;
       const id = "id" in payload && payload.id ? payload.id : generateId();
@@ -137,7 +152,8 @@ export function useSaveEntry() {
       let result:
         | Awaited<ReturnType<typeof writeHealthNote>>
         | Awaited<ReturnType<typeof writeActionItem>>
-        | Awaited<ReturnType<typeof writeSessionMetadata>>;
+        | Awaited<ReturnType<typeof writeSessionMetadata>>
+        | Awaited<ReturnType<typeof writeTranscript>>;
 
       switch (entryType) {
         case "healthNotes":
@@ -145,6 +161,7 @@ export function useSaveEntry() {
             db,
             uid,
             dataWithId as HealthNoteCreate & { id: string },
+            audit,
           );
           break;
         case "actionItems":
@@ -152,6 +169,7 @@ export function useSaveEntry() {
             db,
             uid,
             dataWithId as ActionItemCreate & { id: string },
+            audit,
           );
           break;
         case "sessionMetadata":
@@ -159,6 +177,15 @@ export function useSaveEntry() {
             db,
             uid,
             dataWithId as SessionMetadataCreate & { id: string },
+            audit,
+          );
+          break;
+        case "transcripts":
+          result = await writeTranscript(
+            db,
+            uid,
+            dataWithId as TranscriptCreate & { id: string },
+            audit,
           );
           break;
         default:
@@ -431,6 +458,42 @@ export function useAppointments(): AppointmentsState {
   return state;
 }
 
+type CareTeamState = {
+  careTeam: CareTeamMember[];
+  loading: boolean;
+  error: Error | null;
+};
+
+/**
+ * Real-time subscription to the authenticated user's care team, sorted by name.
+ */
+export function useCareTeam(): CareTeamState {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [state, setState] = useState<CareTeamState>({
+    careTeam: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (authLoading || !uid) return;
+
+    const unsubscribe = subscribeCareTeam(
+      db,
+      uid,
+      (data) => setState({ careTeam: sortCareTeam(data), loading: false, error: null }),
+      (err) => setState((s) => ({ ...s, error: err, loading: false }))
+    );
+
+    return unsubscribe;
+  }, [authLoading, uid]);
+
+  // Signed out: nothing to wait for.
+  return !authLoading && !uid ? { ...state, loading: false } : state;
+}
+
 type HealthNotesState = {
   healthNotes: HealthNote[];
   loading: boolean;
@@ -476,3 +539,151 @@ export function useHealthNotes(): HealthNotesState {
 
   return state;
 }
+
+type MedicationLogsState = {
+  medicationLogs: MedicationLog[];
+  loading: boolean;
+  error: Error | null;
+};
+
+/**
+ * Real-time subscription to the authenticated user's medication dose log.
+ * Returns an unsubscribe on cleanup.
+ */
+export function useMedicationLogs(): MedicationLogsState {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [state, setState] = useState<MedicationLogsState>({
+    medicationLogs: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (authLoading || !uid) return;
+
+    const unsubscribe = subscribeMedicationLogs(
+      db,
+      uid,
+      (data) => setState({ medicationLogs: data, loading: false, error: null }),
+      (err) => setState((s) => ({ ...s, error: err, loading: false }))
+    );
+
+    return unsubscribe;
+  }, [authLoading, uid]);
+
+  // Signed out: nothing to wait for.
+  return !authLoading && !uid ? { ...state, loading: false } : state;
+}
+
+type AuditLogState = {
+  entries: AuditEntry[];
+  loading: boolean;
+  error: Error | null;
+};
+
+/**
+ * Real-time subscription to the authenticated user's newest audit log entries
+ * (newest first). Returns an unsubscribe on cleanup.
+ */
+export function useAuditLog(): AuditLogState {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [state, setState] = useState<AuditLogState>({
+    entries: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (authLoading || !uid) return;
+
+    const unsubscribe = subscribeAuditLog(
+      db,
+      uid,
+      (data) => setState({ entries: data, loading: false, error: null }),
+      (err) => setState((s) => ({ ...s, error: err, loading: false }))
+    );
+
+    return unsubscribe;
+  }, [authLoading, uid]);
+
+  // Signed out: nothing to wait for.
+  return !authLoading && !uid ? { ...state, loading: false } : state;
+}
+
+type ChatThreadsState = {
+  threads: ChatThread[];
+  loading: boolean;
+  error: Error | null;
+};
+
+/**
+ * Real-time subscription to the authenticated user's chat threads (most
+ * recently active first). Returns an unsubscribe on cleanup.
+ */
+export function useChatThreads(): ChatThreadsState {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [state, setState] = useState<ChatThreadsState>({
+    threads: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (authLoading || !uid) return;
+
+    const unsubscribe = subscribeChatThreads(
+      db,
+      uid,
+      (data) => setState({ threads: data, loading: false, error: null }),
+      (err) => setState((s) => ({ ...s, error: err, loading: false }))
+    );
+
+    return unsubscribe;
+  }, [authLoading, uid]);
+
+  // Signed out: nothing to wait for.
+  return !authLoading && !uid ? { ...state, loading: false } : state;
+}
+
+type TranscriptsState = {
+  transcripts: Transcript[];
+  loading: boolean;
+  error: Error | null;
+};
+
+/**
+ * Real-time subscription to the authenticated user's visit transcripts.
+ * Returns an unsubscribe on cleanup.
+ */
+export function useTranscripts(): TranscriptsState {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [state, setState] = useState<TranscriptsState>({
+    transcripts: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (authLoading || !uid) return;
+
+    const unsubscribe = subscribeTranscripts(
+      db,
+      uid,
+      (data) => setState({ transcripts: data, loading: false, error: null }),
+      (err) => setState((s) => ({ ...s, error: err, loading: false }))
+    );
+
+    return unsubscribe;
+  }, [authLoading, uid]);
+
+  // Signed out: nothing to wait for.
+  return !authLoading && !uid ? { ...state, loading: false } : state;
+}
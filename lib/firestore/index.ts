@@ -4,6 +4,7 @@
  */
 
 export {
+  CHAT_THREAD_MESSAGES,
   COLLECTIONS,
   USER_PATHS,
   userDocRefSegments,
@@ -14,41 +15,124 @@ export type { CollectionKey, UserSubcollectionKey } from "./collections";
 export type {
   ActionItem,
   ActionItemCreate,
+  ActionItemSerialized,
   Appointment,
   AppointmentCreate,
+  AppointmentStatus,
+  AuditActor,
+  AuditContext,
+  AuditEntityType,
+  AuditEntry,
+  AuditOperation,
+  AuditedSubcollectionKey,
+  CareTeamMember,
+  CareTeamMemberCreate,
+  ChatThread,
+  ChatThreadMessage,
   Document,
   EntryType,
   FirestoreResult,
   HealthNote,
   HealthNoteCreate,
+  MedicationDoseStatus,
+  MedicationLog,
+  MedicationLogCreate,
   MedicationMetadata,
+  OccurrenceRecord,
+  OccurrenceStatus,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  ReminderOffsets,
+  SchedulingMethod,
   SessionMetadata,
   SessionMetadataCreate,
+  Transcript,
+  TranscriptChunk,
+  TranscriptCreate,
+  TranscriptSegment,
   UserMetadata,
   UserMetadataUpdatePayload,
 } from "./types";
-export { ACTION_ITEM_PRIORITIES, ACTION_ITEM_STATUSES, ACTION_ITEM_TYPES, isPastStatus, sortActionItemsByPriorityAndDueDate } from "./actionItems";
+export { APPOINTMENT_STATUSES, isOpenAppointmentStatus } from "./appointments";
+export {
+  LEGACY_PROVIDER_ID,
+  SCHEDULING_METHODS,
+  canScheduleByPhone,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  sortCareTeam,
+} from "./careTeam";
+export { ACTION_ITEM_PRIORITIES, ACTION_ITEM_STATUSES, ACTION_ITEM_TYPES, isPastStatus, sortActionItemsByPriorityAndDueDate, toActionItemCreate } from "./actionItems";
 export type { ActionItemStatus } from "./actionItems";
+export {
+  RECURRENCE_FREQUENCIES,
+  getOccurrenceStatus,
+  getOccurrences,
+  getOccurrencesForDay,
+  getRecurrenceRule,
+  getUpcomingOccurrences,
+  isRecurrenceActive,
+  isRecurring,
+  occurrenceKey,
+  occursOn,
+  parseRecurrenceString,
+  withOccurrenceStatus,
+} from "./recurrence";
+export type { Occurrence, OccurrenceState } from "./recurrence";
+export {
+  DEFAULT_ACTION_ITEM_REMINDER_OFFSETS,
+  DEFAULT_APPOINTMENT_REMINDER_OFFSETS,
+  MAX_REMINDER_OFFSET_MINUTES,
+  REMINDER_PRESETS,
+  getActionItemReminderOffsets,
+  getAppointmentReminderOffsets,
+  normalizeReminderOffsets,
+} from "./reminders";
+export {
+  ADHERENCE_WINDOWS,
+  LATE_DOSE_GRACE_MS,
+  applyDoseToActionItem,
+  computeAdherence,
+  createDoseLog,
+  doseLogId,
+  getScheduledDose,
+  isMedicationItem,
+} from "./medications";
+export type { MedicationAdherence } from "./medications";
+export { AUDIT_ACTORS, USER_AUDIT_CONTEXT, getAuditEntityLabel, getChangedFields, isAssistantActor } from "./audit";
 export { HEALTH_NOTE_TYPES, sortHealthNotesByCreatedDesc } from "./healthNotes";
 export { sortSessionsByDateDesc } from "./sessions";
+export { getTranscriptChunkText, getTranscriptText } from "./transcripts";
 export { toFirestoreValue } from "./serialize";
 export {
   readUserMetadata,
   deleteActionItem,
   deleteAppointment,
+  deleteCareTeamMember,
+  deleteChatThread,
   deleteDocument,
   deleteHealthNote,
+  deleteMedicationLog,
   deleteSessionMetadata,
+  migrateHospitalPhoneNumber,
   readAppointments,
+  readChatThreadMessages,
   readDocuments,
+  readMedicationLogs,
+  recordMedicationDose,
+  subscribeAuditLog,
+  undoMedicationDose,
   writeActionItem,
   writeAppointment,
+  writeCareTeamMember,
   writeDocument,
   writeHealthNote,
+  writeMedicationLog,
   writeSessionMetadata,
+  writeTranscript,
   writeUserMetadata,
 } from "./api";
-export { useUserMetadata, useSaveEntry, useUserData, useActionItems, useAppointments, useDocuments, useHealthNotes, useSessionMetadata } from "./hooks";
+export { useUserMetadata, useSaveEntry, useUserData, useActionItems, useAppointments, useCareTeam, useDocuments, useHealthNotes, useMedicationLogs, useSessionMetadata, useAuditLog, useChatThreads, useTranscripts } from "./hooks";
 export {
   ENTRY_FORM_CONFIGS,
   ENTRY_TYPES,
@@ -0,0 +1,396 @@
+/**
+ * Firestore document -> app type mappers. Shared by the client API layer
+ * (firebase/firestore) and server-side readers (firebase-admin), so they only
+ * rely on a snapshot's id and data().
+ */
+
+import type { DocumentData } from "firebase/firestore";
+import { resolveLanguageTag } from "@/lib/i18n/locales";
+import { SPEAKER_ROLES, type SpeakerRole, type SpeakerRoles } from "@/lib/speaker-transcript";
+import { AGENDA_CATEGORIES, type AgendaCategory, type AgendaItem } from "@/lib/visit-prep";
+import { APPOINTMENT_STATUSES } from "./appointments";
+import { AUDIT_ACTORS } from "./audit";
+import { SCHEDULING_METHODS } from "./careTeam";
+import { RECURRENCE_FREQUENCIES } from "./recurrence";
+import { normalizeReminderOffsets } from "./reminders";
+import type {
+  ActionItem,
+  Appointment,
+  AuditActor,
+  AuditEntityType,
+  AuditEntry,
+  AuditOperation,
+  CareTeamMember,
+  ChatThread,
+  ChatThreadMessage,
+  Document as DocumentType,
+  HealthNote,
+  MedicationDoseStatus,
+  MedicationLog,
+  OccurrenceRecord,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  ReminderOffsets,
+  SchedulingMethod,
+  SessionMetadata,
+  Transcript,
+  TranscriptChunk,
+  TranscriptSegment,
+  UserMetadata,
+} from "./types";
+
+/** Minimal snapshot shape satisfied by both client and Admin SDK snapshots. */
+export type SnapshotLike = {
+  id: string;
+  data(): DocumentData | undefined;
+};
+
+export function snapshotToUserMetadata(snap: SnapshotLike): UserMetadata | null {
+  const data = snap.data();
+  if (!data) return null;
+  // Doc must have createDate (we write it); accept Firestore Timestamp.
+  const createDate = data.createDate;
+  if (createDate == null) return null;
+  return {
+    id: snap.id,
+    createDate: createDate as UserMetadata["createDate"],
+    email: typeof data.email === "string" ? data.email : undefined,
+    firstName: typeof data.firstName === "string" ? data.firstName : "",
+    lastName: typeof data.lastName === "string" ? data.lastName : "",
+    preferredLanguage:
+      typeof data.preferredLanguage === "string"
+        ? resolveLanguageTag(data.preferredLanguage)
+        : undefined,
+    hospitalPhoneNumber: typeof data.hospitalPhoneNumber === "string" ? data.hospitalPhoneNumber : undefined,
+  };
+}
+
+/** Converts Firestore Timestamp or Date to Date for app types. */
+export function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof value === "object" && "toDate" in value && typeof (value as { toDate: () => Date }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(0);
+}
+
+export function snapshotToHealthNote(snap: SnapshotLike): HealthNote | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    date: toDate(data.date),
+    startedAt: toDate(data.startedAt),
+    endedAt: toDate(data.endedAt),
+    type: typeof data.type === "string" ? data.type : "",
+    title: typeof data.title === "string" ? data.title : "",
+    description: typeof data.description === "string" ? data.description : "",
+  };
+}
+
+function toRecurrenceRule(value: unknown): RecurrenceRule | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.frequency !== "string" || !RECURRENCE_FREQUENCIES.includes(rule.frequency as RecurrenceFrequency)) return undefined;
+  const daysOfWeek = Array.isArray(rule.daysOfWeek)
+    ? rule.daysOfWeek.filter((d): d is number => typeof d === "number" && d >= 0 && d <= 6)
+    : undefined;
+  return {
+    frequency: rule.frequency as RecurrenceFrequency,
+    interval: typeof rule.interval === "number" && rule.interval >= 1 ? Math.floor(rule.interval) : 1,
+    daysOfWeek: daysOfWeek && daysOfWeek.length > 0 ? daysOfWeek : undefined,
+    until: rule.until ? toDate(rule.until) : null,
+  };
+}
+
+function toReminderOffsets(value: unknown): ReminderOffsets | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return normalizeReminderOffsets(value.filter((o): o is number => typeof o === "number"));
+}
+
+function toOccurrenceHistory(value: unknown): Record<string, OccurrenceRecord> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const history: Record<string, OccurrenceRecord> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!entry || typeof entry !== "object") continue;
+    const { status, recordedAt } = entry as Record<string, unknown>;
+    if (status !== "done" && status !== "skipped") continue;
+    history[key] = { status, recordedAt: toDate(recordedAt) };
+  }
+  return history;
+}
+
+export function snapshotToActionItem(snap: SnapshotLike): ActionItem | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  const med = data.medication;
+  const medication =
+    med &&
+    typeof med === "object" &&
+    typeof med.name === "string" &&
+    typeof med.dose === "number" &&
+    typeof med.dosageUnit === "string" &&
+    typeof med.count === "number" &&
+    typeof med.route === "string"
+      ? {
+          name: med.name,
+          dose: med.dose,
+          dosageUnit: med.dosageUnit,
+          count: med.count,
+          route: med.route,
+        }
+      : undefined;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    dueBy: toDate(data.dueBy),
+    type: typeof data.type === "string" ? data.type : "",
+    title: typeof data.title === "string" ? data.title : "",
+    description: typeof data.description === "string" ? data.description : "",
+    status: typeof data.status === "string" ? data.status : "",
+    priority: typeof data.priority === "string" ? data.priority : "",
+    recurrence: typeof data.recurrence === "string" ? data.recurrence : "",
+    recurrenceRule: toRecurrenceRule(data.recurrenceRule),
+    occurrenceHistory: toOccurrenceHistory(data.occurrenceHistory),
+    medication,
+    reminderOffsets: toReminderOffsets(data.reminderOffsets),
+  };
+}
+
+export function snapshotToSessionMetadata(snap: SnapshotLike): SessionMetadata | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  const actionItemIds = Array.isArray(data.actionItemIds)
+    ? (data.actionItemIds as unknown[]).filter((id): id is string => typeof id === "string")
+    : Array.isArray((data as { actionItems?: unknown[] }).actionItems)
+      ? [] // legacy: old docs had actionItems; treat as no refs
+      : [];
+  const documentIds = Array.isArray(data.documentIds)
+    ? (data.documentIds as unknown[]).filter((id): id is string => typeof id === "string")
+    : [];
+  const discussionTopics = Array.isArray(data.discussionTopics)
+    ? (data.discussionTopics as unknown[]).filter((topic): topic is string => typeof topic === "string")
+    : [];
+  return {
+    id: snap.id,
+    userId: data.userId,
+    date: toDate(data.date),
+    title: typeof data.title === "string" ? data.title : "",
+    summary: typeof data.summary === "string" ? data.summary : "",
+    discussionTopics,
+    actionItemIds,
+    documentIds,
+    providerId: typeof data.providerId === "string" ? data.providerId : null,
+  };
+}
+
+function toAgendaItems(value: unknown): AgendaItem[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): AgendaItem[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const { id, text, category } = entry as Record<string, unknown>;
+    if (typeof id !== "string" || typeof text !== "string") return [];
+    return [
+      {
+        id,
+        text,
+        category: AGENDA_CATEGORIES.includes(category as AgendaCategory) ? (category as AgendaCategory) : "other",
+      },
+    ];
+  });
+}
+
+export function snapshotToAppointment(snap: SnapshotLike): Appointment | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    appointmentTime: toDate(data.appointmentTime),
+    scheduledOn: toDate(data.scheduledOn),
+    providerName: typeof data.providerName === "string" ? data.providerName : "",
+    clinic: typeof data.clinic === "string" ? data.clinic : "",
+    address: typeof data.address === "string" ? data.address : "",
+    reason: typeof data.reason === "string" ? data.reason : "",
+    // Appointments from before statuses existed count as scheduled.
+    status: APPOINTMENT_STATUSES.includes(data.status) ? data.status : "scheduled",
+    notes: typeof data.notes === "string" ? data.notes : "",
+    agenda: toAgendaItems(data.agenda),
+    reminderOffsets: toReminderOffsets(data.reminderOffsets),
+    providerId: typeof data.providerId === "string" ? data.providerId : null,
+  };
+}
+
+export function snapshotToCareTeamMember(snap: SnapshotLike): CareTeamMember | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    name: typeof data.name === "string" ? data.name : "",
+    specialty: typeof data.specialty === "string" ? data.specialty : "",
+    phone: typeof data.phone === "string" ? data.phone : "",
+    address: typeof data.address === "string" ? data.address : "",
+    schedulingMethod: SCHEDULING_METHODS.includes(data.schedulingMethod)
+      ? (data.schedulingMethod as SchedulingMethod)
+      : "phone",
+    notes: typeof data.notes === "string" ? data.notes : "",
+  };
+}
+
+export function snapshotToDocument(snap: SnapshotLike): DocumentType | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    summary: typeof data.summary === "string" ? data.summary : "",
+    uploadedAt: toDate(data.uploadedAt),
+  };
+}
+
+const MEDICATION_DOSE_STATUSES: ReadonlySet<string> = new Set<MedicationDoseStatus>(["taken", "late", "missed"]);
+
+export function snapshotToMedicationLog(snap: SnapshotLike): MedicationLog | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string" || typeof data.actionItemId !== "string") return null;
+  if (typeof data.status !== "string" || !MEDICATION_DOSE_STATUSES.has(data.status)) return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    actionItemId: data.actionItemId,
+    medicationName: typeof data.medicationName === "string" ? data.medicationName : "",
+    status: data.status as MedicationDoseStatus,
+    scheduledFor: toDate(data.scheduledFor),
+    occurrenceKey: typeof data.occurrenceKey === "string" ? data.occurrenceKey : "",
+    recordedAt: toDate(data.recordedAt),
+  };
+}
+
+const AUDIT_OPERATIONS: ReadonlySet<string> = new Set<AuditOperation>(["create", "update", "delete"]);
+
+/** Converts stored values for display: Timestamps (at any depth) become Dates. */
+function toPlainValue(value: unknown): unknown {
+  if (value && typeof value === "object") {
+    if (typeof (value as { toDate?: unknown }).toDate === "function") return toDate(value);
+    if (Array.isArray(value)) return value.map(toPlainValue);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlainValue(v)]));
+  }
+  return value;
+}
+
+function toAuditSnapshot(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return toPlainValue(value) as Record<string, unknown>;
+}
+
+export function snapshotToAuditEntry(snap: SnapshotLike): AuditEntry | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string" || typeof data.entityId !== "string") return null;
+  if (!AUDIT_ACTORS.includes(data.actor) || !AUDIT_OPERATIONS.has(data.operation)) return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    actor: data.actor as AuditActor,
+    operation: data.operation as AuditOperation,
+    entityType: (typeof data.entityType === "string" ? data.entityType : "") as AuditEntityType,
+    entityId: data.entityId,
+    reason: typeof data.reason === "string" ? data.reason : null,
+    before: toAuditSnapshot(data.before),
+    after: toAuditSnapshot(data.after),
+    createdAt: toDate(data.createdAt),
+  };
+}
+
+export function snapshotToChatThread(snap: SnapshotLike): ChatThread | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string") return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    title: typeof data.title === "string" ? data.title : "",
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
+
+const CHAT_MESSAGE_ROLES = new Set<string>(["system", "user", "assistant"]);
+
+/** Parts are stored as a JSON string (see serializeChatMessageParts). */
+export function snapshotToChatThreadMessage(snap: SnapshotLike): ChatThreadMessage | null {
+  const data = snap.data();
+  if (!data || !CHAT_MESSAGE_ROLES.has(data.role) || typeof data.parts !== "string") return null;
+  let parts: unknown;
+  try {
+    parts = JSON.parse(data.parts);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parts)) return null;
+  return {
+    id: snap.id,
+    role: data.role as ChatThreadMessage["role"],
+    parts: parts as ChatThreadMessage["parts"],
+    createdAt: toDate(data.createdAt),
+  };
+}
+
+/**
+ * Message parts as stored: a JSON string, because tool inputs and results can
+ * hold undefined values or nested arrays, which Firestore rejects.
+ */
+export function serializeChatMessageParts(parts: ChatThreadMessage["parts"]): string {
+  return JSON.stringify(parts);
+}
+
+function toTranscriptSegment(value: unknown): TranscriptSegment | null {
+  if (!value || typeof value !== "object") return null;
+  const seg = value as Record<string, unknown>;
+  if (typeof seg.text !== "string") return null;
+  return {
+    text: seg.text,
+    start: typeof seg.start === "number" ? seg.start : 0,
+    end: typeof seg.end === "number" ? seg.end : 0,
+    speaker: typeof seg.speaker === "string" ? seg.speaker : null,
+  };
+}
+
+function toSpeakerRoles(value: unknown): SpeakerRoles {
+  if (!value || typeof value !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, role]) => SPEAKER_ROLES.includes(role as SpeakerRole)),
+  ) as SpeakerRoles;
+}
+
+function toTranscriptChunk(value: unknown): TranscriptChunk | null {
+  if (!value || typeof value !== "object") return null;
+  const chunk = value as Record<string, unknown>;
+  if (!Array.isArray(chunk.segments)) return null;
+  return {
+    startedAt: toDate(chunk.startedAt),
+    endedAt: toDate(chunk.endedAt),
+    segments: chunk.segments
+      .map(toTranscriptSegment)
+      .filter((seg): seg is TranscriptSegment => seg != null),
+    speakerRoles: toSpeakerRoles(chunk.speakerRoles),
+  };
+}
+
+export function snapshotToTranscript(snap: SnapshotLike): Transcript | null {
+  const data = snap.data();
+  if (!data || typeof data.userId !== "string" || !Array.isArray(data.chunks)) return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    sessionId: typeof data.sessionId === "string" ? data.sessionId : null,
+    visitDate: toDate(data.visitDate),
+    chunks: (data.chunks as unknown[])
+      .map(toTranscriptChunk)
+      .filter((chunk): chunk is TranscriptChunk => chunk != null),
+    conversationSummary: Array.isArray(data.conversationSummary)
+      ? (data.conversationSummary as unknown[]).filter((point): point is string => typeof point === "string")
+      : [],
+    createdAt: toDate(data.createdAt),
+  };
+}
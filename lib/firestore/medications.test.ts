@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createDoseLog, getScheduledDose } from "./medications";
+import type { ActionItem, MedicationMetadata } from "./types";
+
+const medication: MedicationMetadata = { name: "Lisinopril", dose: 10, dosageUnit: "mg", count: 1, route: "oral" };
+
+function dailyMedication(dueBy: Date): ActionItem & { medication: MedicationMetadata } {
+  return {
+    id: "med-1",
+    userId: "user-1",
+    dueBy,
+    type: "medication",
+    title: "Take lisinopril",
+    description: "",
+    status: "pending",
+    priority: "medium",
+    recurrence: "daily",
+    recurrenceRule: { frequency: "daily", interval: 1 },
+    medication,
+  };
+}
+
+describe("getScheduledDose", () => {
+  it("picks the occurrence on the user's day, not the server's", () => {
+    // 21:00 in Los Angeles is 05:00 UTC the next day.
+    const item = dailyMedication(new Date("2026-01-06T05:00:00Z"));
+    const at = new Date("2026-01-11T05:30:00Z"); // Jan 10, 21:30 in Los Angeles
+
+    expect(getScheduledDose(item, at, "America/Los_Angeles")).toEqual({
+      scheduledFor: new Date("2026-01-11T05:00:00Z"),
+      occurrenceKey: "2026-01-10",
+    });
+  });
+
+  it("keys one-off items by the user's day", () => {
+    const item = { ...dailyMedication(new Date("2026-01-11T05:00:00Z")), recurrence: "", recurrenceRule: undefined };
+
+    expect(getScheduledDose(item, item.dueBy, "America/Los_Angeles").occurrenceKey).toBe("2026-01-10");
+  });
+});
+
+describe("createDoseLog", () => {
+  it("logs a dose just after midnight against the user's new day", () => {
+    // Daily at 08:00 in Berlin (07:00 UTC); taken at 00:30 on Jan 11 in Berlin.
+    const item = dailyMedication(new Date("2026-01-05T07:00:00Z"));
+    const at = new Date("2026-01-10T23:30:00Z");
+
+    const log = createDoseLog(item, "taken", at, "Europe/Berlin");
+
+    expect(log.status).toBe("taken");
+    expect(log.occurrenceKey).toBe("2026-01-11");
+    expect(log.id).toBe("med-1_2026-01-11");
+    expect(log.scheduledFor).toEqual(new Date("2026-01-11T07:00:00Z"));
+  });
+
+  it("uses the user's time zone for the late check", () => {
+    const item = dailyMedication(new Date("2026-01-05T07:00:00Z"));
+    const at = new Date("2026-01-11T08:30:00Z"); // 09:30 in Berlin, 90 minutes after the dose
+
+    expect(createDoseLog(item, "taken", at, "Europe/Berlin").status).toBe("late");
+    expect(createDoseLog(item, "taken", new Date("2026-01-11T07:30:00Z"), "Europe/Berlin").status).toBe("taken");
+  });
+});
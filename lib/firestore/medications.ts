@@ -0,0 +1,150 @@
+/**
+ * Medication dose logging and adherence.
+ *
+ * Doses belong to medication action items (items with MedicationMetadata). Each
+ * scheduled dose is an occurrence of the item (see recurrence.ts; one-off items
+ * have a single dose at dueBy) and is logged at most once in medicationLogs.
+ */
+
+import { fromProcessLocal, toProcessLocal } from "@/lib/time-zone";
+import {
+  getOccurrences,
+  getRecurrenceRule,
+  getUpcomingOccurrences,
+  isRecurring,
+  occurrenceKey,
+  withOccurrenceStatus,
+} from "./recurrence";
+import type { ActionItem, MedicationLog, MedicationLogCreate, MedicationMetadata } from "./types";
+
+/** Doses taken more than this long after they were due are logged as late. */
+export const LATE_DOSE_GRACE_MS = 60 * 60 * 1000;
+
+/** Adherence windows shown per medication, in days. */
+export const ADHERENCE_WINDOWS = [7, 30] as const;
+
+export type MedicationAdherence = {
+  /** Doses due in the window (excluding ones still within their grace period). */
+  expected: number;
+  taken: number;
+  late: number;
+  missed: number;
+  /** Share of expected doses taken (on time or late), 0–100; null when nothing was due. */
+  percent: number | null;
+};
+
+type ScheduledDose = { scheduledFor: Date; occurrenceKey: string };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Whether the action item is a medication with dose details. */
+export function isMedicationItem(item: ActionItem): item is ActionItem & { medication: MedicationMetadata } {
+  return item.medication != null;
+}
+
+/** Log id for a dose; one log per item per occurrence day. */
+export function doseLogId(actionItemId: string, key: string): string {
+  return `${actionItemId}_${key}`;
+}
+
+/**
+ * The dose a log made at `at` applies to: that day's occurrence, else the most
+ * recent earlier one, else the next one. One-off items have a single dose at dueBy.
+ * Days are the user's days in `timeZone` when given (server code runs in UTC),
+ * else the process time zone's.
+ */
+export function getScheduledDose(item: ActionItem, at: Date = new Date(), timeZone?: string): ScheduledDose {
+  const toLocal = (date: Date) => (timeZone ? toProcessLocal(date, timeZone) : date);
+  const fromLocal = (date: Date) => (timeZone ? fromProcessLocal(date, timeZone) : date);
+  const rule = getRecurrenceRule(item);
+  if (rule && isRecurring(item)) {
+    const local: ActionItem = {
+      ...item,
+      dueBy: toLocal(item.dueBy),
+      recurrenceRule: { ...rule, until: rule.until ? toLocal(rule.until) : rule.until },
+    };
+    const localAt = toLocal(at);
+    const endOfDay = new Date(localAt);
+    endOfDay.setHours(23, 59, 59, 999);
+    const recent = getOccurrences(local, new Date(localAt.getTime() - 31 * MS_PER_DAY), endOfDay);
+    const occurrence = recent[recent.length - 1] ?? getUpcomingOccurrences(local, 1, localAt)[0];
+    if (occurrence) return { scheduledFor: fromLocal(occurrence.date), occurrenceKey: occurrence.key };
+  }
+  return { scheduledFor: item.dueBy, occurrenceKey: occurrenceKey(toLocal(item.dueBy)) };
+}
+
+/**
+ * Builds the log entry for marking a medication dose taken or missed at `at`.
+ * Taken doses more than LATE_DOSE_GRACE_MS after they were due are logged as late.
+ * `timeZone` picks the dose as in getScheduledDose.
+ */
+export function createDoseLog(
+  item: ActionItem & { medication: MedicationMetadata },
+  status: "taken" | "missed",
+  at: Date = new Date(),
+  timeZone?: string,
+): MedicationLogCreate {
+  const { scheduledFor, occurrenceKey: key } = getScheduledDose(item, at, timeZone);
+  const late = status === "taken" && at.getTime() - scheduledFor.getTime() > LATE_DOSE_GRACE_MS;
+  return {
+    id: doseLogId(item.id, key),
+    actionItemId: item.id,
+    medicationName: item.medication.name,
+    status: late ? "late" : status,
+    scheduledFor,
+    occurrenceKey: key,
+    recordedAt: at,
+  };
+}
+
+/**
+ * Returns a copy of the action item reflecting a logged dose: the occurrence is
+ * marked done/skipped for recurring items, the item status otherwise.
+ * Persist the result with writeActionItem alongside writeMedicationLog.
+ */
+export function applyDoseToActionItem(item: ActionItem, log: MedicationLogCreate): ActionItem {
+  const done = log.status !== "missed";
+  if (isRecurring(item)) {
+    return withOccurrenceStatus(item, log.occurrenceKey, done ? "done" : "skipped", log.recordedAt);
+  }
+  return { ...item, status: done ? "done" : "skipped" };
+}
+
+/**
+ * Adherence for one medication over the last `days` days (including today).
+ * A due dose with no log counts as missed once its grace period has passed.
+ */
+export function computeAdherence(
+  item: ActionItem,
+  logs: MedicationLog[],
+  days: number,
+  now: Date = new Date(),
+): MedicationAdherence {
+  const from = new Date(now);
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - (days - 1));
+
+  const scheduled: ScheduledDose[] = isRecurring(item)
+    ? getOccurrences(item, from, now).map((o) => ({ scheduledFor: o.date, occurrenceKey: o.key }))
+    : item.dueBy >= from && item.dueBy <= now
+      ? [{ scheduledFor: item.dueBy, occurrenceKey: occurrenceKey(item.dueBy) }]
+      : [];
+
+  const logsByKey = new Map(
+    logs.filter((log) => log.actionItemId === item.id).map((log) => [log.occurrenceKey, log]),
+  );
+
+  const result: MedicationAdherence = { expected: 0, taken: 0, late: 0, missed: 0, percent: null };
+  for (const dose of scheduled) {
+    const log = logsByKey.get(dose.occurrenceKey);
+    if (!log && now.getTime() - dose.scheduledFor.getTime() <= LATE_DOSE_GRACE_MS) continue;
+    result.expected += 1;
+    if (log?.status === "taken") result.taken += 1;
+    else if (log?.status === "late") result.late += 1;
+    else result.missed += 1;
+  }
+  if (result.expected > 0) {
+    result.percent = Math.round(((result.taken + result.late) / result.expected) * 100);
+  }
+  return result;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  getOccurrences,
+  getUpcomingOccurrences,
+  isRecurrenceActive,
+  parseRecurrenceString,
+  withOccurrenceStatus,
+} from "./recurrence";
+import type { ActionItem, RecurrenceRule } from "./types";
+
+// vitest.config.mts runs tests in UTC, so local days are UTC days here.
+
+function item(dueBy: string, recurrenceRule?: RecurrenceRule, recurrence = "custom"): ActionItem {
+  return {
+    id: "item-1",
+    userId: "user-1",
+    dueBy: new Date(dueBy),
+    type: "Medication",
+    title: "Take vitamin D",
+    description: "",
+    status: "pending",
+    priority: "medium",
+    recurrence,
+    recurrenceRule,
+  };
+}
+
+const keys = (occurrences: Array<{ key: string }>) => occurrences.map((o) => o.key);
+
+describe("getOccurrences", () => {
+  it("repeats daily items every `interval` days from the first occurrence", () => {
+    const everyOtherDay = item("2026-01-05T08:00:00Z", { frequency: "daily", interval: 2 });
+
+    expect(keys(getOccurrences(everyOtherDay, new Date("2026-01-01"), new Date("2026-01-11")))).toEqual([
+      "2026-01-05",
+      "2026-01-07",
+      "2026-01-09",
+      "2026-01-11",
+    ]);
+  });
+
+  it("expands weekly items to each listed weekday, skipping weeks between intervals", () => {
+    // Monday, Wednesday and Friday every other week, starting Monday 5 January.
+    const weekly = item("2026-01-05T08:00:00Z", { frequency: "weekly", interval: 2, daysOfWeek: [1, 3, 5] });
+
+    expect(keys(getOccurrences(weekly, new Date("2026-01-01"), new Date("2026-01-24")))).toEqual([
+      "2026-01-05",
+      "2026-01-07",
+      "2026-01-09",
+      "2026-01-19",
+      "2026-01-21",
+      "2026-01-23",
+    ]);
+  });
+
+  it("repeats weekly items without weekdays on the first occurrence's weekday", () => {
+    const weekly = item("2026-01-07T08:00:00Z", { frequency: "weekly", interval: 1 });
+
+    expect(keys(getOccurrences(weekly, new Date("2026-01-01"), new Date("2026-01-21")))).toEqual([
+      "2026-01-07",
+      "2026-01-14",
+      "2026-01-21",
+    ]);
+  });
+
+  it("moves monthly items on the 31st to the last day of shorter months", () => {
+    const monthly = item("2026-01-31T08:00:00Z", { frequency: "monthly", interval: 1 });
+
+    expect(keys(getOccurrences(monthly, new Date("2026-01-01"), new Date("2026-04-30")))).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+  });
+
+  it("keeps the time of day and recorded status of each occurrence", () => {
+    const daily = {
+      ...item("2026-01-05T08:30:00Z", { frequency: "daily", interval: 1 }),
+      occurrenceHistory: { "2026-01-06": { status: "skipped" as const, recordedAt: new Date("2026-01-06T09:00:00Z") } },
+    };
+
+    const [first, second] = getOccurrences(daily, new Date("2026-01-05"), new Date("2026-01-06"));
+
+    expect(first).toMatchObject({ date: new Date("2026-01-05T08:30:00Z"), status: "pending" });
+    expect(second).toMatchObject({ date: new Date("2026-01-06T08:30:00Z"), status: "skipped" });
+  });
+
+  it("falls back to the free-form recurrence label", () => {
+    const weekly = item("2026-01-05T08:00:00Z", undefined, "Every week");
+
+    expect(keys(getOccurrences(weekly, new Date("2026-01-05"), new Date("2026-01-19")))).toEqual([
+      "2026-01-05",
+      "2026-01-12",
+      "2026-01-19",
+    ]);
+  });
+});
+
+describe("until", () => {
+  const rule: RecurrenceRule = { frequency: "daily", interval: 1, until: new Date("2026-01-07T00:00:00Z") };
+
+  it("includes the last day and nothing after it", () => {
+    expect(keys(getUpcomingOccurrences(item("2026-01-05T20:00:00Z", rule), 10, new Date("2026-01-05")))).toEqual([
+      "2026-01-05",
+      "2026-01-06",
+      "2026-01-07",
+    ]);
+  });
+
+  it("ends the recurrence once the last day has passed", () => {
+    const daily = item("2026-01-05T20:00:00Z", rule);
+
+    expect(isRecurrenceActive(daily, new Date("2026-01-07T23:00:00Z"))).toBe(true);
+    expect(isRecurrenceActive(daily, new Date("2026-01-08T00:00:00Z"))).toBe(false);
+  });
+});
+
+describe("parseRecurrenceString", () => {
+  it.each([
+    ["Daily", "daily"],
+    ["twice a day", "daily"],
+    ["Weekly", "weekly"],
+    ["every month", "monthly"],
+  ])("reads %s as %s", (label, frequency) => {
+    expect(parseRecurrenceString(label)).toEqual({ frequency, interval: 1 });
+  });
+
+  it.each(["once", "as needed", "N/A", ""])("treats %j as one-off", (label) => {
+    expect(parseRecurrenceString(label)).toBeNull();
+  });
+});
+
+describe("withOccurrenceStatus", () => {
+  it("records and clears one occurrence without touching the others", () => {
+    const daily = item("2026-01-05T08:00:00Z", { frequency: "daily", interval: 1 });
+    const at = new Date("2026-01-05T09:00:00Z");
+
+    const done = withOccurrenceStatus(withOccurrenceStatus(daily, "2026-01-05", "done", at), "2026-01-06", "skipped", at);
+    const cleared = withOccurrenceStatus(done, "2026-01-05", null);
+
+    expect(done.occurrenceHistory).toEqual({
+      "2026-01-05": { status: "done", recordedAt: at },
+      "2026-01-06": { status: "skipped", recordedAt: at },
+    });
+    expect(cleared.occurrenceHistory).toEqual({ "2026-01-06": { status: "skipped", recordedAt: at } });
+    expect(daily.occurrenceHistory).toBeUndefined();
+  });
+});
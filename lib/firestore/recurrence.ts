@@ -0,0 +1,199 @@
+/**
+ * Recurrence engine for action items.
+ *
+ * A recurring item's dueBy is its first occurrence; its RecurrenceRule says how
+ * it repeats. Occurrences are identified by their local calendar day
+ * ("YYYY-MM-DD"), which is also the key into ActionItem.occurrenceHistory.
+ * Items without a structured rule fall back to their free-form recurrence label
+ * ("daily", "weekly", …) so LLM-extracted items recur too.
+ */
+
+import type { ActionItem, OccurrenceStatus, RecurrenceFrequency, RecurrenceRule } from "./types";
+
+/** Status of a single occurrence; "pending" means nothing has been recorded yet. */
+export type OccurrenceState = OccurrenceStatus | "pending";
+
+/** One occurrence of a recurring action item. */
+export type Occurrence = {
+  item: ActionItem;
+  /** Occurrence date, at the time of day of the item's dueBy. */
+  date: Date;
+  /** Local day key ("YYYY-MM-DD"); key into occurrenceHistory. */
+  key: string;
+  status: OccurrenceState;
+};
+
+export const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = ["daily", "weekly", "monthly"];
+
+/** How far ahead getUpcomingOccurrences looks before giving up. */
+const MAX_SCAN_DAYS = 5 * 366;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Day helpers (local calendar days, DST-safe)
+// ---------------------------------------------------------------------------
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/** Whole calendar days from a to b, ignoring time of day and DST shifts. */
+function daysBetween(a: Date, b: Date): number {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcB - utcA) / MS_PER_DAY);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/** Local day key ("YYYY-MM-DD") for a date; identifies an occurrence. */
+export function occurrenceKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Maps a free-form recurrence label to a rule. Weekly repeats on dueBy's weekday.
+ * Returns null for one-off labels ("once", "as needed", "N/A", "none", "").
+ */
+export function parseRecurrenceString(recurrence: string): RecurrenceRule | null {
+  const value = (recurrence || "").trim().toLowerCase();
+  if (/\b(daily|every day|twice a day|nightly)\b/.test(value)) return { frequency: "daily", interval: 1 };
+  if (/\b(weekly|every week)\b/.test(value)) return { frequency: "weekly", interval: 1 };
+  if (/\b(monthly|every month)\b/.test(value)) return { frequency: "monthly", interval: 1 };
+  return null;
+}
+
+/** The item's structured rule, else one derived from its recurrence label, else null. */
+export function getRecurrenceRule(item: Pick<ActionItem, "recurrence" | "recurrenceRule">): RecurrenceRule | null {
+  return item.recurrenceRule ?? parseRecurrenceString(item.recurrence);
+}
+
+/** Whether the item repeats (has a usable rule and a real first occurrence). */
+export function isRecurring(item: Pick<ActionItem, "recurrence" | "recurrenceRule" | "dueBy">): boolean {
+  return getRecurrenceRule(item) != null && item.dueBy.getTime() > 0;
+}
+
+/** Whether the item still has occurrences on or after the given day. */
+export function isRecurrenceActive(
+  item: Pick<ActionItem, "recurrence" | "recurrenceRule" | "dueBy">,
+  now: Date = new Date(),
+): boolean {
+  if (!isRecurring(item)) return false;
+  const until = getRecurrenceRule(item)?.until;
+  return until == null || startOfDay(until).getTime() >= startOfDay(now).getTime();
+}
+
+/** Whether the rule (anchored at the first occurrence) has an occurrence on the given day. */
+export function occursOn(rule: RecurrenceRule, anchor: Date, day: Date): boolean {
+  const offset = daysBetween(anchor, day);
+  if (offset < 0) return false;
+  if (rule.until && daysBetween(rule.until, day) > 0) return false;
+
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  switch (rule.frequency) {
+    case "daily":
+      return offset % interval === 0;
+    case "weekly": {
+      const days = rule.daysOfWeek?.length ? rule.daysOfWeek : [anchor.getDay()];
+      if (!days.includes(day.getDay())) return false;
+      // Weeks counted from the Sunday that starts the anchor's week.
+      const week = Math.floor((offset + anchor.getDay()) / 7);
+      return week % interval === 0;
+    }
+    case "monthly": {
+      const months = (day.getFullYear() - anchor.getFullYear()) * 12 + (day.getMonth() - anchor.getMonth());
+      if (months % interval !== 0) return false;
+      // Clamp e.g. the 31st to the last day of shorter months.
+      const target = Math.min(anchor.getDate(), daysInMonth(day.getFullYear(), day.getMonth()));
+      return day.getDate() === target;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Occurrences
+// ---------------------------------------------------------------------------
+
+function occurrenceAt(item: ActionItem, day: Date): Occurrence {
+  const date = new Date(day);
+  date.setHours(item.dueBy.getHours(), item.dueBy.getMinutes(), 0, 0);
+  const key = occurrenceKey(date);
+  return { item, date, key, status: getOccurrenceStatus(item, key) };
+}
+
+/** Recorded status of the occurrence on the given day key, or "pending". */
+export function getOccurrenceStatus(item: Pick<ActionItem, "occurrenceHistory">, key: string): OccurrenceState {
+  return item.occurrenceHistory?.[key]?.status ?? "pending";
+}
+
+/** Occurrences of the item on days from `from` to `to` (inclusive), oldest first. */
+export function getOccurrences(item: ActionItem, from: Date, to: Date): Occurrence[] {
+  const rule = getRecurrenceRule(item);
+  if (!rule || !isRecurring(item)) return [];
+  const result: Occurrence[] = [];
+  let day = startOfDay(daysBetween(item.dueBy, from) < 0 ? item.dueBy : from);
+  const last = startOfDay(to);
+  while (day.getTime() <= last.getTime()) {
+    if (occursOn(rule, item.dueBy, day)) result.push(occurrenceAt(item, day));
+    day = addDays(day, 1);
+  }
+  return result;
+}
+
+/** The next `count` occurrences on or after `from` (default today), soonest first. */
+export function getUpcomingOccurrences(item: ActionItem, count: number, from: Date = new Date()): Occurrence[] {
+  const rule = getRecurrenceRule(item);
+  if (!rule || !isRecurring(item) || count <= 0) return [];
+  const result: Occurrence[] = [];
+  let day = startOfDay(daysBetween(item.dueBy, from) < 0 ? item.dueBy : from);
+  for (let i = 0; i < MAX_SCAN_DAYS && result.length < count; i++) {
+    if (rule.until && daysBetween(rule.until, day) > 0) break;
+    if (occursOn(rule, item.dueBy, day)) result.push(occurrenceAt(item, day));
+    day = addDays(day, 1);
+  }
+  return result;
+}
+
+/** Occurrences of all recurring items on the given day (default today), by time of day. */
+export function getOccurrencesForDay(items: ActionItem[], day: Date = new Date()): Occurrence[] {
+  return items
+    .flatMap((item) => getOccurrences(item, day, day))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Returns a copy of the item with the occurrence on `key` marked done/skipped,
+ * or cleared when status is null. Persist the result with writeActionItem.
+ */
+export function withOccurrenceStatus(
+  item: ActionItem,
+  key: string,
+  status: OccurrenceStatus | null,
+  now: Date = new Date(),
+): ActionItem {
+  const history = { ...(item.occurrenceHistory ?? {}) };
+  if (status) {
+    history[key] = { status, recordedAt: now };
+  } else {
+    delete history[key];
+  }
+  return { ...item, occurrenceHistory: history };
+}
@@ -0,0 +1,43 @@
+/**
+ * Helpers for reminder offsets on action items and appointments.
+ */
+
+import type { ActionItem, Appointment, ReminderOffsets } from "./types";
+
+/** Reminders for items without reminderOffsets: a day and an hour before an appointment. */
+export const DEFAULT_APPOINTMENT_REMINDER_OFFSETS: ReminderOffsets = [24 * 60, 60];
+
+/** Reminders for items without reminderOffsets: when an action item is due. */
+export const DEFAULT_ACTION_ITEM_REMINDER_OFFSETS: ReminderOffsets = [0];
+
+/** Longest offset allowed (a week); the scheduler only looks this far ahead. */
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+/** Offsets the reminder picker offers. Single source of truth. */
+export const REMINDER_PRESETS: readonly ReminderOffsets[] = [
+  [],
+  [0],
+  [15],
+  [60],
+  [24 * 60],
+  [24 * 60, 60],
+  [7 * 24 * 60, 24 * 60],
+];
+
+/** Sorted (largest first), de-duplicated offsets within 0 – MAX_REMINDER_OFFSET_MINUTES. */
+export function normalizeReminderOffsets(offsets: readonly number[]): ReminderOffsets {
+  const valid = offsets
+    .filter((o) => Number.isFinite(o) && o >= 0 && o <= MAX_REMINDER_OFFSET_MINUTES)
+    .map((o) => Math.round(o));
+  return [...new Set(valid)].sort((a, b) => b - a);
+}
+
+/** The action item's reminder offsets, or the default when it has none set. */
+export function getActionItemReminderOffsets(item: Pick<ActionItem, "reminderOffsets">): ReminderOffsets {
+  return item.reminderOffsets ?? DEFAULT_ACTION_ITEM_REMINDER_OFFSETS;
+}
+
+/** The appointment's reminder offsets, or the default when it has none set. */
+export function getAppointmentReminderOffsets(appointment: Pick<Appointment, "reminderOffsets">): ReminderOffsets {
+  return appointment.reminderOffsets ?? DEFAULT_APPOINTMENT_REMINDER_OFFSETS;
+}
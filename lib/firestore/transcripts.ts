@@ -0,0 +1,31 @@
+/**
+ * Helpers for visit transcripts (the text the summary extractors are given).
+ */
+
+import { formatSpeakerTranscript } from "@/lib/speaker-transcript";
+import type { Transcript, TranscriptChunk } from "./types";
+
+/**
+ * Text of one recording: speaker-labelled lines when the user labelled the
+ * speakers, else the live transcription turns joined as spoken.
+ */
+export function getTranscriptChunkText(chunk: TranscriptChunk): string {
+  if (Object.keys(chunk.speakerRoles).length > 0) {
+    return formatSpeakerTranscript(
+      chunk.segments.map((seg) => ({ ...seg, speaker: seg.speaker ?? "" })),
+      chunk.speakerRoles
+    );
+  }
+  return chunk.segments
+    .map((seg) => seg.text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Text of the whole visit, one paragraph per recording. */
+export function getTranscriptText(transcript: Pick<Transcript, "chunks">): string {
+  return transcript.chunks
+    .map(getTranscriptChunkText)
+    .filter((text) => text.trim())
+    .join("\n\n");
+}
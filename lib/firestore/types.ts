@@ -3,7 +3,10 @@
  * All field names are lowerCamelCase. Enum-like fields use string for now.
  */
 
+import type { UIMessage } from "ai";
 import { Timestamp } from "firebase/firestore";
+import type { SpeakerRoles } from "@/lib/speaker-transcript";
+import type { AgendaItem } from "@/lib/visit-prep";
 import type { UserSubcollectionKey } from "./collections";
 
 /** Generic Firestore API result for single-doc read/write. */
@@ -19,6 +22,10 @@ export type UserMetadata = {
   lastName: string;
   email?: string;
   preferredLanguage?: string;
+  /**
+   * Legacy: the one number scheduling calls used to dial, from before the care
+   * team. Moved into the care team on sign-in (see migrateHospitalPhoneNumber).
+   */
   hospitalPhoneNumber?: string;
 };
 
@@ -28,7 +35,6 @@ export type UserMetadataUpdatePayload = {
   lastName?: string;
   email?: string;
   preferredLanguage?: string;
-  hospitalPhoneNumber?: string;
 };
 
 /** Discriminated entry type for user subcollections. */
@@ -45,9 +51,13 @@ export type ActionItemSerialized = Omit<ActionItemCreate, "dueBy"> & {
   dueBy: string | null;
 };
 
-/** Create payload for session metadata (id can be generated; actionItemIds/documentIds can default to []). */
-export type SessionMetadataCreate = Omit<SessionMetadata, "userId" | "id"> & {
+/** Create payload for visit transcripts (id can be generated; userId set by API). */
+export type TranscriptCreate = Omit<Transcript, "userId" | "id"> & { id?: string };
+
+/** Create payload for session metadata (id can be generated; discussionTopics/actionItemIds/documentIds can default to []). */
+export type SessionMetadataCreate = Omit<SessionMetadata, "userId" | "id" | "discussionTopics"> & {
   id?: string;
+  discussionTopics?: string[];
   actionItemIds?: string[];
   documentIds?: string[];
 };
@@ -73,7 +83,43 @@ export type MedicationMetadata = {
   route: string;
 };
 
-/** Action item document. type, status, priority, recurrence are strings. */
+/** How often a recurring action item repeats. */
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * Structured, RRULE-like recurrence for an action item. The item's dueBy is the
+ * first occurrence (and sets the time of day for every occurrence).
+ * daysOfWeek: 0 (Sunday) – 6 (Saturday), weekly rules only; defaults to dueBy's weekday.
+ * until: last day an occurrence may fall on (inclusive); null/undefined repeats forever.
+ */
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  daysOfWeek?: number[];
+  until?: Date | null;
+};
+
+export type OccurrenceStatus = "done" | "skipped";
+
+/**
+ * When to send push reminders for an action item or appointment, in minutes
+ * before it is due (0 = at the due time). Unset means the default for the kind
+ * of item (see lib/firestore/reminders.ts); [] turns reminders off.
+ */
+export type ReminderOffsets = number[];
+
+/** Completion or skip of a single occurrence of a recurring action item. */
+export type OccurrenceRecord = {
+  status: OccurrenceStatus;
+  recordedAt: Date;
+};
+
+/**
+ * Action item document. type, status, priority, recurrence are strings.
+ * recurrence is the free-form label (e.g. from the LLM); recurrenceRule, when set,
+ * is what the recurrence engine uses. occurrenceHistory is keyed by occurrence
+ * day ("YYYY-MM-DD", local time). reminderOffsets: see ReminderOffsets.
+ */
 export type ActionItem = {
   id: string;
   userId: string;
@@ -84,31 +130,156 @@ export type ActionItem = {
   status: string;
   priority: string;
   recurrence: string;
+  recurrenceRule?: RecurrenceRule;
+  occurrenceHistory?: Record<string, OccurrenceRecord>;
   medication?: MedicationMetadata;
+  reminderOffsets?: ReminderOffsets;
 };
 
 
-/** Session document. actionItemIds: references to action item docs (mutable by user). documentIds: optional list of stored document references. */
+/**
+ * Session document. summary: what was said (for recorded visits, the conversation
+ * summary points, one per line). discussionTopics: short topic labels from the
+ * visit summary. actionItemIds: references to action item docs (mutable by user).
+ * documentIds: optional list of stored document references.
+ */
 export type SessionMetadata = {
   id: string;
   userId: string;
   date: Date;
   title: string;
   summary: string;
+  discussionTopics: string[];
   actionItemIds: string[];
   documentIds: string[];
+  /** Care team member the visit was with (see CareTeamMember), if known. */
+  providerId?: string | null;
 };
 
-/** Appointment document at users/{userId}/appointments/{id}. */
+/**
+ * Appointment lifecycle. "scheduled": booked in the app; "confirmed": confirmed
+ * by the clinic (e.g. a slot it proposed on a scheduling call).
+ */
+export type AppointmentStatus = "scheduled" | "confirmed" | "cancelled" | "completed" | "no-show";
+
+/**
+ * Appointment document at users/{userId}/appointments/{id}. providerName,
+ * clinic (clinic or department), address, reason and notes are "" when not
+ * known. agenda: the points the user wants to raise, in order (from the prep
+ * brief, then edited). reminderOffsets: see ReminderOffsets. providerId: the
+ * care team member the appointment is with, if known; providerName is what the
+ * clinic or calendar called them.
+ */
 export type Appointment = {
   id: string;
   userId: string;
   appointmentTime: Date;
   scheduledOn: Date;
+  providerName: string;
+  clinic: string;
+  address: string;
+  reason: string;
+  status: AppointmentStatus;
+  notes: string;
+  agenda: AgendaItem[];
+  reminderOffsets?: ReminderOffsets;
+  providerId?: string | null;
 };
 
+/** Appointment fields a create payload may leave out; writeAppointment fills in defaults. */
+type AppointmentDefaultedField = "providerName" | "clinic" | "address" | "reason" | "status" | "notes" | "agenda";
+
 /** Create payload for appointments (id can be generated; userId set by API). */
-export type AppointmentCreate = Omit<Appointment, "userId"> & { userId?: string };
+export type AppointmentCreate = Omit<Appointment, "userId" | AppointmentDefaultedField> &
+  Partial<Pick<Appointment, AppointmentDefaultedField>> & { userId?: string };
+
+/**
+ * How a provider prefers appointments to be made. "phone": the scheduling
+ * assistant can call them; "portal": through their patient portal or online
+ * booking; "walk_in": no appointment needed.
+ */
+export type SchedulingMethod = "phone" | "portal" | "walk_in";
+
+/**
+ * A provider the user sees, at users/{userId}/careTeam/{id}: a doctor, clinic,
+ * pharmacy, therapist, etc. specialty is free text (e.g. "Primary care",
+ * "Cardiology", "Pharmacy"); phone, address and notes are "" when not known.
+ */
+export type CareTeamMember = {
+  id: string;
+  userId: string;
+  name: string;
+  specialty: string;
+  phone: string;
+  address: string;
+  schedulingMethod: SchedulingMethod;
+  notes: string;
+};
+
+/** Create payload for care team members (userId set by API). */
+export type CareTeamMemberCreate = Omit<CareTeamMember, "userId">;
+
+/** Outcome of a scheduled medication dose. "late" = taken after the grace period. */
+export type MedicationDoseStatus = "taken" | "late" | "missed";
+
+/**
+ * One logged dose at users/{userId}/medicationLogs/{id}, linked to the
+ * medication action item it was taken for. The id is `${actionItemId}_${occurrenceKey}`,
+ * so re-logging the same dose overwrites rather than duplicates it.
+ */
+export type MedicationLog = {
+  id: string;
+  userId: string;
+  actionItemId: string;
+  /** Medication name at the time of logging (kept if the action item is later edited or deleted). */
+  medicationName: string;
+  status: MedicationDoseStatus;
+  /** When the dose was due. */
+  scheduledFor: Date;
+  /** Day of the dose ("YYYY-MM-DD", local time); matches ActionItem.occurrenceHistory keys. */
+  occurrenceKey: string;
+  /** When the dose was taken (or marked missed). */
+  recordedAt: Date;
+};
+
+/** Create payload for medication logs (userId set by API). */
+export type MedicationLogCreate = Omit<MedicationLog, "userId">;
+
+/** Who made a change recorded in the audit log. */
+export type AuditActor = "user" | "chat_assistant" | "voice_command" | "visit_extraction" | "calendar_sync";
+
+export type AuditOperation = "create" | "update" | "delete";
+
+/** Subcollections whose changes are audited (health records; not the audit log itself or chat threads). */
+export type AuditedSubcollectionKey = Exclude<UserSubcollectionKey, "auditLog" | "chatThreads">;
+
+/** What an audit entry is about: a subcollection record or the profile (users/{uid}). */
+export type AuditEntityType = AuditedSubcollectionKey | "userMetadata";
+
+/**
+ * Append-only record of one change at users/{userId}/auditLog/{id}.
+ * before/after are the stored document (dates as Date); before is null for
+ * creates and after is null for deletes.
+ */
+export type AuditEntry = {
+  id: string;
+  userId: string;
+  actor: AuditActor;
+  operation: AuditOperation;
+  entityType: AuditEntityType;
+  entityId: string;
+  /** Why the change was made, e.g. the assistant tool ("delete_action_item"). */
+  reason: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+};
+
+/** Attribution for a write or delete; the write* / delete* functions default to the user. */
+export type AuditContext = {
+  actor: AuditActor;
+  reason?: string;
+};
 
 /** Document at users/{userId}/documents/{id}. Summary from LLM over uploaded images. */
 export type Document = {
@@ -117,3 +288,65 @@ export type Document = {
   summary: string;
   uploadedAt: Date;
 };
+
+/**
+ * Home page chat conversation at users/{userId}/chatThreads/{id}. Written by
+ * /api/chat (Admin SDK); the client only reads and deletes threads.
+ */
+export type ChatThread = {
+  id: string;
+  userId: string;
+  /** Start of the first user message. */
+  title: string;
+  createdAt: Date;
+  /** When the last message was saved; threads are listed by this. */
+  updatedAt: Date;
+};
+
+/**
+ * One message at users/{userId}/chatThreads/{threadId}/messages/{id}, in AI SDK
+ * UIMessage form so it can be shown and sent back to the model as is. parts
+ * holds the text and tool calls (with their inputs and results).
+ */
+export type ChatThreadMessage = {
+  id: string;
+  role: UIMessage["role"];
+  parts: UIMessage["parts"];
+  createdAt: Date;
+};
+
+/**
+ * One line of a visit transcript. start/end are milliseconds from the start of
+ * its recording. speaker is the diarization label ("A", "B", …) when the
+ * recording was diarized, else null (live transcription turns).
+ */
+export type TranscriptSegment = {
+  text: string;
+  start: number;
+  end: number;
+  speaker: string | null;
+};
+
+/** One recording (start to stop) of a visit; a visit can be recorded in several. */
+export type TranscriptChunk = {
+  startedAt: Date;
+  endedAt: Date;
+  segments: TranscriptSegment[];
+  /** Roles the user gave the diarized speakers; empty when speakers weren't labelled. */
+  speakerRoles: SpeakerRoles;
+};
+
+/**
+ * Visit transcript at users/{userId}/transcripts/{id}, kept so summaries can be
+ * regenerated later. sessionId is the session the visit summary created (null
+ * if none was). conversationSummary holds the summary points last confirmed.
+ */
+export type Transcript = {
+  id: string;
+  userId: string;
+  sessionId: string | null;
+  visitDate: Date;
+  chunks: TranscriptChunk[];
+  conversationSummary: string[];
+  createdAt: Date;
+};
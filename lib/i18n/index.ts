@@ -1,3 +1,4 @@
 export { LANGUAGE_OPTIONS, DEFAULT_LANGUAGE_TAG, resolveAppLocale, resolveLanguageTag } from "./locales";
 export { EN_MESSAGES, ES_MESSAGES, MESSAGES, type MessageKey } from "./messages";
 export { formatLocalizedDate, formatLocalizedDateUTC, formatRelativeFromNow } from "./format";
+export { translate, type I18nVariables } from "./translate";
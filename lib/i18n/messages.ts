@@ -24,9 +24,10 @@ export const EN_MESSAGES = {
   "onboarding.step2.progress": "Step 2 of 3",
   "onboarding.step2.selectLanguage": "Select Language",
   "onboarding.step2.tapToChange": "Tap to change",
-  "onboarding.step3.title": "What's your hospital's phone number?",
+  "onboarding.step3.title": "Who's your primary care doctor?",
   "onboarding.step3.progress": "Step 3 of 3",
-  "onboarding.step3.phonePlaceholder": "Phone Number Here",
+  "onboarding.step3.phonePlaceholder": "Their phone number",
+  "onboarding.step3.namePlaceholder": "Doctor or clinic name (optional)",
   "onboarding.step4.title": "You're all set!",
   "onboarding.step4.subtitle": "Welcome to HelloCare.",
   "onboarding.saveError": "Failed to save profile",
@@ -40,6 +41,11 @@ export const EN_MESSAGES = {
   "drawer.conversation": "Conversation",
   "drawer.documents": "Documents",
   "drawer.scan_documents": "Scan documents",
+  "drawer.healthRecord": "Health record",
+  "drawer.calendarSync": "Calendar sync",
+  "drawer.reminders": "Reminders",
+  "drawer.careTeam": "Care Team",
+  "drawer.history": "History",
   "drawer.signOut": "Sign out",
 
   "documents.title": "Documents",
@@ -50,11 +56,225 @@ export const EN_MESSAGES = {
   "documents.uploadedAt": "Uploaded: {date}",
   "documents.untitled": "Untitled document",
   "documents.noSummary": "No summary.",
+  "healthRecord.title": "Health record",
+  "healthRecord.subtitle": "Take your health record to another app, share it with a provider, or bring in records from a patient portal.",
+  "healthRecord.export.title": "Export",
+  "healthRecord.export.body": "Download your profile, health notes, action items, medications, appointments, visits and documents as a FHIR R4 file.",
+  "healthRecord.export.button": "Download FHIR file",
+  "healthRecord.export.downloading": "Preparing file…",
+  "healthRecord.export.done": "Health record downloaded",
+  "healthRecord.export.failed": "Could not export your health record",
+  "healthRecord.import.title": "Import",
+  "healthRecord.import.body": "Add records from a patient-portal export: a FHIR R4 bundle (.json) or a C-CDA document (.xml). You can review every record before anything is saved.",
+  "healthRecord.import.choose": "Choose file",
+  "healthRecord.import.invalid": "This file is not a FHIR R4 bundle or C-CDA document.",
+  "healthRecord.import.empty": "No records were found in this file.",
+  "healthRecord.import.summary": "{count} records found in {file}",
+  "healthRecord.import.duplicates": "{count} look like records you already have and are not selected.",
+  "healthRecord.import.skipped": "{count} entries could not be imported.",
+  "healthRecord.import.duplicate": "Possible duplicate",
+  "healthRecord.import.appointmentAt": "Appointment on {date}",
+  "healthRecord.import.toggleAria": "Import {name}",
+  "healthRecord.import.cancel": "Cancel",
+  "healthRecord.import.submit": "Import {count} records",
+  "healthRecord.import.importing": "Importing…",
+  "healthRecord.import.done": "Imported {count} records",
+  "healthRecord.import.failed": "{count} records could not be saved: {error}",
+  "healthRecord.calendar.title": "Calendar subscription",
+  "healthRecord.calendar.body": "Subscribe from Google Calendar, Apple Calendar or Outlook to see your appointments and action item due dates there. Changes show up the next time your calendar app refreshes.",
+  "healthRecord.calendar.create": "Create calendar link",
+  "healthRecord.calendar.subscribe": "Open in calendar app",
+  "healthRecord.calendar.urlAria": "Calendar feed link",
+  "healthRecord.calendar.copy": "Copy link",
+  "healthRecord.calendar.copied": "Link copied",
+  "healthRecord.calendar.copyFailed": "Could not copy the link",
+  "healthRecord.calendar.secretHint": "Anyone with this link can see your appointments and due dates. If it was shared by mistake, create a new link; the old one stops working.",
+  "healthRecord.calendar.regenerate": "New link",
+  "healthRecord.calendar.revoke": "Turn off",
+  "healthRecord.calendar.created": "Calendar link created",
+  "healthRecord.calendar.regenerated": "New calendar link created",
+  "healthRecord.calendar.revoked": "Calendar link turned off",
+  "healthRecord.calendar.failed": "Could not update your calendar link",
+  "calendarSync.title": "Calendar sync",
+  "calendarSync.subtitle": "Keep appointments in step with a calendar your family shares. Appointments added in HelloCare appear in the calendar, and events added to the calendar appear here.",
+  "calendarSync.loadFailed": "Could not load calendar sync",
+  "calendarSync.connect.title": "Connect a calendar",
+  "calendarSync.connect.body": "Works with any CalDAV calendar, such as iCloud, Fastmail, Nextcloud or Radicale. Calendars sync when you tap Sync now.",
+  "calendarSync.connect.url": "Calendar address (CalDAV URL)",
+  "calendarSync.connect.username": "Username",
+  "calendarSync.connect.password": "Password",
+  "calendarSync.connect.passwordHint": "If your provider offers app-specific passwords, use one here.",
+  "calendarSync.connect.importTitle": "Calendar events to add to HelloCare",
+  "calendarSync.connect.importCategory": "Only events with this category",
+  "calendarSync.connect.importAll": "Every timed event (the calendar is just for health appointments)",
+  "calendarSync.connect.submit": "Connect",
+  "calendarSync.connect.connecting": "Connecting…",
+  "calendarSync.connect.failed": "Could not connect to the calendar",
+  "calendarSync.status.calendar": "Calendar",
+  "calendarSync.status.lastSync": "Last synced {date}",
+  "calendarSync.status.neverSynced": "Not synced yet",
+  "calendarSync.status.linked": "{count} appointments linked",
+  "calendarSync.status.result": "Last sync: {pushed} sent to the calendar, {pulled} updated from it, {deleted} deleted.",
+  "calendarSync.status.skipped": "{count} all-day or repeating events were left out.",
+  "calendarSync.status.importCategory": "Adds calendar events with the category “{category}”.",
+  "calendarSync.status.importAll": "Adds every timed calendar event.",
+  "calendarSync.status.failed": "Last sync failed: {error}",
+  "calendarSync.syncNow": "Sync now",
+  "calendarSync.syncing": "Syncing…",
+  "calendarSync.synced": "Calendar synced",
+  "calendarSync.syncFailed": "Calendar sync failed",
+  "calendarSync.disconnect": "Disconnect",
+  "calendarSync.disconnected": "Calendar disconnected",
+  "calendarSync.conflict.title": "Needs your choice ({count})",
+  "calendarSync.conflict.hint": "These appointments changed in both places since the last sync. Pick the version to keep.",
+  "calendarSync.conflict.bothChanged": "Changed in HelloCare and in the calendar",
+  "calendarSync.conflict.deletedInCalendar": "Changed in HelloCare, deleted in the calendar",
+  "calendarSync.conflict.deletedInHelloCare": "Deleted in HelloCare, changed in the calendar",
+  "calendarSync.conflict.hellocare": "In HelloCare",
+  "calendarSync.conflict.calendar": "In the calendar",
+  "calendarSync.conflict.deleted": "Deleted",
+  "calendarSync.conflict.keepHelloCare": "Keep HelloCare version",
+  "calendarSync.conflict.keepCalendar": "Keep calendar version",
+  "calendarSync.conflict.resolved": "Conflict resolved",
+  "calendarSync.conflict.failed": "Could not resolve the conflict",
+  "reminders.title": "Reminders",
+  "reminders.subtitle": "Get a notification before appointments and when action items are due, even when HelloCare is closed.",
+  "reminders.loadFailed": "Could not load reminder settings",
+  "reminders.saveFailed": "Could not save reminder settings",
+  "reminders.enabled": "Send reminders",
+  "reminders.resumed": "Reminders turned on",
+  "reminders.paused": "Reminders paused",
+  "reminders.perItemHint": "Choose when each appointment and action item reminds you with the bell on its card. Appointments remind you a day and an hour before, action items when they are due.",
+  "reminders.timeZone": "Reminder times use {timeZone}.",
+  "reminders.useDeviceTimeZone": "Use this device's time zone ({timeZone})",
+  "reminders.selectAria": "When to remind me",
+  "reminders.device.title": "This device",
+  "reminders.device.unsupported": "This browser can't show notifications. On iPhone and iPad, add HelloCare to your home screen first.",
+  "reminders.device.notConfigured": "Notifications are not set up on this server yet.",
+  "reminders.device.on": "Reminders are shown on this device.",
+  "reminders.device.off": "Turn on notifications to get reminders on this device.",
+  "reminders.device.enable": "Turn on notifications",
+  "reminders.device.disable": "Turn off on this device",
+  "reminders.device.enabled": "Notifications turned on",
+  "reminders.device.disabled": "Notifications turned off on this device",
+  "reminders.device.denied": "Notifications are blocked. Allow them for this site in your browser settings, then try again.",
+  "reminders.device.enableFailed": "Could not turn on notifications",
+  "reminders.device.disableFailed": "Could not turn off notifications",
+  "reminders.device.count": "Devices with reminders: {count}",
+  "reminders.test.send": "Send a test notification",
+  "reminders.test.sent": "Test sent to {count} device(s)",
+  "reminders.test.failed": "The test notification could not be delivered",
+  "reminders.quietHours.title": "Quiet hours",
+  "reminders.quietHours.body": "Reminders that come due during quiet hours wait until they end.",
+  "reminders.quietHours.enable": "Hold reminders overnight",
+  "reminders.quietHours.from": "Quiet hours start",
+  "reminders.quietHours.to": "to",
+  "reminders.quietHours.until": "Quiet hours end",
+  "reminders.quietHours.save": "Save quiet hours",
+  "reminders.offset.none": "No reminder",
+  "reminders.offset.atTime": "At the time",
+  "reminders.offset.minutes": "{count} min before",
+  "reminders.offset.hours": "{count} h before",
+  "reminders.offset.days": "{count} d before",
+  "reminders.push.appointmentTitle": "Upcoming appointment",
+  "reminders.push.appointmentBody": "{name} · {when}",
+  "reminders.push.appointmentFallback": "Appointment",
+  "reminders.push.actionItemTitle": "Action item due",
+  "reminders.push.actionItemBody": "{name} · {when}",
+  "reminders.push.actionItemFallback": "Action item",
+  "reminders.push.testTitle": "HelloCare reminders are on",
+  "reminders.push.testBody": "You'll get reminders like this one on this device.",
+  "careTeam.title": "Care Team",
+  "careTeam.subtitle": "The doctors, specialists, pharmacies and therapists you see. Pick one when scheduling, and link your appointments to them.",
+  "careTeam.loading": "Loading your care team...",
+  "careTeam.emptyTitle": "No providers yet",
+  "careTeam.emptyBody": "Add your primary care doctor, specialists, pharmacy and therapists so HelloCare knows who to call.",
+  "careTeam.add": "Add provider",
+  "careTeam.editAria": "Edit {name}",
+  "careTeam.deleteAria": "Remove {name}",
+  "careTeam.schedule": "Schedule a visit",
+  "careTeam.primaryCare": "Primary care",
+  "careTeam.unnamed": "Unnamed provider",
+  "careTeam.form.addTitle": "New provider",
+  "careTeam.form.editTitle": "Edit provider",
+  "careTeam.form.name": "Name",
+  "careTeam.form.namePlaceholder": "Dr. Jane Smith or Main Street Pharmacy",
+  "careTeam.form.specialty": "Specialty",
+  "careTeam.form.specialtyPlaceholder": "Primary care, Cardiology, Pharmacy...",
+  "careTeam.form.phone": "Phone",
+  "careTeam.form.address": "Address",
+  "careTeam.form.schedulingMethod": "How to schedule",
+  "careTeam.form.notes": "Notes",
+  "careTeam.form.notesPlaceholder": "Portal website, fax number, front desk hours...",
+  "careTeam.form.save": "Save",
+  "careTeam.form.cancel": "Cancel",
+  "careTeam.form.nameRequired": "Enter a name.",
+  "careTeam.form.invalidPhone": "Enter a 10-digit phone number, or leave it empty.",
+  "careTeam.form.phoneRequired": "Booking by phone needs a 10-digit phone number.",
+  "careTeam.method.phone": "phone",
+  "careTeam.method.portal": "patient portal or online",
+  "careTeam.method.walk_in": "walk-in",
+  "history.title": "History",
+  "history.subtitle": "Every change to your records, including what the assistant did.",
+  "history.filterAria": "Filter by who made the change",
+  "history.filter.all": "All",
+  "history.filter.assistant": "Assistant",
+  "history.filter.user": "You",
+  "history.actor.user": "You",
+  "history.actor.chatAssistant": "Chat assistant",
+  "history.actor.voiceCommand": "Voice command",
+  "history.actor.visitExtraction": "Visit summary",
+  "history.actor.calendarSync": "Calendar sync",
+  "history.operation.create": "Created {entity}",
+  "history.operation.update": "Updated {entity}",
+  "history.operation.delete": "Deleted {entity}",
+  "history.entity.healthNotes": "health note",
+  "history.entity.actionItems": "action item",
+  "history.entity.sessionMetadata": "visit",
+  "history.entity.appointments": "appointment",
+  "history.entity.documents": "document",
+  "history.entity.medicationLogs": "medication dose",
+  "history.entity.transcripts": "visit transcript",
+  "history.entity.userMetadata": "profile",
+  "history.entity.careTeam": "care team member",
+  "history.view": "View",
+  "history.showChanges": "Show changes",
+  "history.hideChanges": "Hide changes",
+  "history.loading": "Loading history…",
+  "history.empty": "No changes yet.",
   "documents.deleteAria": "Delete {name}",
 
   "home.openMenu": "Open menu",
   "home.visitCta": "I'm at a doctor's visit",
   "home.thinking": "Thinking...",
+  "home.chatError": "Something went wrong. Please try again.",
+  "home.openThreads": "Conversations",
+  "home.threadLoadError": "Couldn't load this conversation. Start a new one or try again later.",
+  "chatThreads.title": "Conversations",
+  "chatThreads.new": "New conversation",
+  "chatThreads.empty": "No saved conversations yet.",
+  "chatThreads.untitled": "Untitled conversation",
+  "chatThreads.delete": "Delete",
+  "chatThreads.deleteAria": "Delete conversation",
+  "chatThreads.cancel": "Cancel",
+  "chatThreads.deleteError": "Couldn't delete the conversation. Please try again.",
+  "citations.label": "Sources",
+  "citations.appointmentAt": "Appointment on {date}",
+  "citations.type.healthNotes": "Health note",
+  "citations.type.actionItems": "Action item",
+  "citations.type.sessionMetadata": "Past visit",
+  "citations.type.appointments": "Appointment",
+  "citations.type.documents": "Document",
+  "pendingAction.deleteActionItem": "Delete this action item?",
+  "pendingAction.deleteHealthNote": "Delete this health note?",
+  "pendingAction.deleteAppointment": "Delete this appointment?",
+  "pendingAction.deleteSession": "Delete this visit record?",
+  "pendingAction.deleteDocument": "Delete this document?",
+  "pendingAction.appointmentAt": "Appointment on {date}",
+  "pendingAction.confirm": "Delete",
+  "pendingAction.cancel": "Keep",
+  "pendingAction.deleted": "Deleted {name}",
+  "pendingAction.undo": "Undo",
 
   "homeSummary.welcome": "Welcome back, {name}!",
   "homeSummary.subtitle": "Below is a quick summary of your wellbeing and action items",
@@ -70,6 +290,10 @@ export const EN_MESSAGES = {
   "homeSummary.appointmentTomorrowAt": "Appointment tomorrow at {time}",
   "homeSummary.appointmentInDaysAt": "Appointment in {days} days at {time}",
   "homeSummary.appointmentOn": "Appointment {datetime}",
+  "homeSummary.todayAt": "Today at {time}",
+  "homeSummary.dosesToday": "Medications due today",
+  "homeSummary.markTaken": "Taken",
+  "homeSummary.markTakenAria": "Mark {name} taken",
 
   "time.justPassed": "Just passed",
   "time.hoursAgo": "{count}h ago",
@@ -111,6 +335,37 @@ export const EN_MESSAGES = {
   "actionItems.status.inProgress": "In progress",
   "actionItems.status.done": "Done",
   "actionItems.status.skipped": "Skipped",
+  "actionItems.today": "Today",
+  "actionItems.occurrence.markDone": "Done",
+  "actionItems.occurrence.skip": "Skip",
+  "actionItems.occurrence.undo": "Undo",
+  "actionItems.next": "Next: {date}",
+  "actionItems.recurrence.ended": "Recurrence ended",
+  "actionItems.recurrence.daily": "Every day",
+  "actionItems.recurrence.dailyInterval": "Every {count} days",
+  "actionItems.recurrence.weekly": "Every week on {days}",
+  "actionItems.recurrence.weeklyInterval": "Every {count} weeks on {days}",
+  "actionItems.recurrence.monthly": "Every month on day {day}",
+  "actionItems.recurrence.monthlyInterval": "Every {count} months on day {day}",
+  "actionItems.recurrence.until": "until {date}",
+  "actionItems.recurrence.edit": "Repeat",
+  "actionItems.recurrence.none": "Does not repeat",
+  "actionItems.recurrence.frequency.daily": "Daily",
+  "actionItems.recurrence.frequency.weekly": "Weekly",
+  "actionItems.recurrence.frequency.monthly": "Monthly",
+  "actionItems.recurrence.every": "Every",
+  "actionItems.recurrence.unit.daily": "day(s)",
+  "actionItems.recurrence.unit.weekly": "week(s)",
+  "actionItems.recurrence.unit.monthly": "month(s)",
+  "actionItems.recurrence.onDays": "On",
+  "actionItems.recurrence.endDate": "End date (optional)",
+  "actionItems.recurrence.save": "Save",
+  "actionItems.recurrence.cancel": "Cancel",
+  "actionItems.adherence": "Adherence",
+  "actionItems.adherenceWindow": "{days} days: {percent}%",
+  "actionItems.adherenceEmpty": "{days} days: —",
+  "actionItems.dose.markTaken": "Mark dose taken",
+  "actionItems.dose.logged": "Dose logged",
 
   "healthNotes.title": "Health Notes",
   "healthNotes.subtitle": "Your health notes from visits, updated in real time.",
@@ -131,7 +386,9 @@ export const EN_MESSAGES = {
   "pastSessions.emptyBody": "Visit summaries from your appointments will show up here after you complete a conversation and save the summary.",
   "pastSessions.loading": "Loading past sessions...",
   "pastSessions.date": "Date: {date}",
+  "pastSessions.provider": "With: {name}",
   "pastSessions.summary": "Summary",
+  "pastSessions.discussionTopics": "Topics discussed",
   "pastSessions.linkedActionItems": "Linked action items",
   "pastSessions.due": "Due: {date}",
   "pastSessions.untitledVisit": "Untitled visit",
@@ -140,6 +397,22 @@ export const EN_MESSAGES = {
   "pastSessions.changePriority": "Change priority",
   "pastSessions.changeStatus": "Change status",
   "pastSessions.deleteAria": "Delete {name}",
+  "pastSessions.regenerate.action": "Regenerate summary",
+  "pastSessions.regenerate.title": "Regenerated summary",
+  "pastSessions.regenerate.generating": "Summarizing the saved transcript again...",
+  "pastSessions.regenerate.error": "Couldn't regenerate the summary. Please try again later.",
+  "pastSessions.regenerate.noChanges": "The new summary matches the current one.",
+  "pastSessions.regenerate.topics": "Discussion topics",
+  "pastSessions.regenerate.summaryPoints": "Conversation summary",
+  "pastSessions.regenerate.actionItems": "Action items",
+  "pastSessions.regenerate.none": "None",
+  "pastSessions.regenerate.added": "Added",
+  "pastSessions.regenerate.removed": "Removed",
+  "pastSessions.regenerate.applyHint": "Using the new summary replaces the summary and adds the new action items. Your existing action items are kept.",
+  "pastSessions.regenerate.applyError": "Couldn't save the new summary. Please try again.",
+  "pastSessions.regenerate.keep": "Keep current",
+  "pastSessions.regenerate.apply": "Use new summary",
+  "pastSessions.regenerate.applied": "Summary updated",
 
   "appointments.title": "Appointments",
   "appointments.subtitle": "Your scheduled appointments, updated in real time.",
@@ -148,9 +421,52 @@ export const EN_MESSAGES = {
   "appointments.loading": "Loading appointments...",
   "appointments.scheduledAt": "Scheduled at: {date}",
   "appointments.deleteAria": "Delete appointment",
+  "appointments.prepare": "Prepare for visit",
+  "appointments.agenda": "Visit agenda ({count})",
+  "appointments.addToCalendar": "Add to calendar",
+  "appointments.reason": "Reason: {reason}",
+  "appointments.statusAria": "Appointment status",
+  "appointments.providerAria": "Care team provider",
+  "appointments.noProvider": "No care team provider",
+  "appointments.status.scheduled": "Scheduled",
+  "appointments.status.confirmed": "Confirmed",
+  "appointments.status.cancelled": "Cancelled",
+  "appointments.status.completed": "Completed",
+  "appointments.status.noShow": "No-show",
+  "visitPrep.title": "Visit preparation",
+  "visitPrep.subtitle": "What to bring up at your appointment on {date}. Edit and reorder the points, then save.",
+  "visitPrep.generate": "Build agenda from my records",
+  "visitPrep.regenerate": "Rebuild agenda from my records",
+  "visitPrep.generating": "Building your agenda...",
+  "visitPrep.notEnoughData": "Nothing new since your last visit to build an agenda from. You can still add your own points.",
+  "visitPrep.generateError": "Couldn't build the agenda. Please try again.",
+  "visitPrep.emptyTitle": "No agenda yet",
+  "visitPrep.emptyBody": "Build one from your health notes, action items, medications and documents, or add your own points.",
+  "visitPrep.category.symptom": "Symptom",
+  "visitPrep.category.actionItem": "Action item",
+  "visitPrep.category.medication": "Medication",
+  "visitPrep.category.document": "Document",
+  "visitPrep.category.other": "Other",
+  "visitPrep.moveUp": "Move up",
+  "visitPrep.moveDown": "Move down",
+  "visitPrep.itemAria": "Agenda item {index}",
+  "visitPrep.removeAria": "Remove from agenda",
+  "visitPrep.addPlaceholder": "Add a point to raise",
+  "visitPrep.add": "Add to agenda",
+  "visitPrep.save": "Save agenda",
+  "visitPrep.saved": "Agenda saved",
+  "visitPrep.saveError": "Couldn't save the agenda. Please try again.",
+  "visitPrep.startRecording": "Record visit",
+  "visitPrep.notFound": "This appointment no longer exists.",
 
   "schedule.title": "Schedule Appointment",
   "schedule.subtitle": "Automatically schedule an appointment with your healthcare provider. We'll call them, and you confirm the times.",
+  "schedule.reasonLabel": "Reason for visit",
+  "schedule.reasonPlaceholder": "Reason for visit (optional)",
+  "schedule.providerLabel": "Provider to call",
+  "schedule.noProviders": "Add a provider with a phone number to your care team to schedule by phone.",
+  "schedule.manageCareTeam": "Manage care team",
+  "schedule.prefersOtherMethod": "{name} usually books by {method}, but we can still call them.",
   "schedule.idle": "Press the button below to start the scheduling process. This screen will refresh automatically with updates.",
   "schedule.slotsTitle": "We got some time slots!",
   "schedule.slotsSubtitle": "Do any of these times work for you?",
@@ -159,24 +475,39 @@ export const EN_MESSAGES = {
   "schedule.startAgain": "Start Process Again",
   "schedule.stop": "Stop Scheduling Process",
   "schedule.backHome": "Back to Home",
-  "schedule.loading.1": "Flibbertigibbeting...",
-  "schedule.loading.2": "Quantumizing...",
-  "schedule.loading.3": "Dilly-dallying...",
-  "schedule.loading.4": "Bumfuzzling...",
-  "schedule.loading.5": "Higgledy-piggledying...",
-  "schedule.loading.6": "Skedaddling...",
-  "schedule.loading.7": "Lollygagging...",
+  "schedule.call.starting": "Starting the call...",
+  "schedule.call.queued": "Call queued...",
+  "schedule.call.ringing": "Ringing your provider...",
+  "schedule.call.inProgress": "On the phone with your provider...",
+  "schedule.call.forwarding": "Being transferred...",
+  "schedule.call.ended": "Call ended.",
+  "schedule.call.duration": "Call time: {duration}",
+  "schedule.call.endedWithoutSlots": "The call ended before any time slots were offered ({reason}).",
   "schedule.noAvailability": "No available time slots were found. Try again or contact your provider directly.",
   "schedule.completed": "Your appointment has been confirmed!",
   "schedule.error": "Something went wrong. Please try again.",
 
   "conversation.title": "Conversation",
   "conversation.subtitle": "This conversation is about a doctor's visit on {date}",
+  "conversation.agenda.open": "Show visit agenda",
+  "conversation.agenda.title": "Visit agenda",
+  "conversation.agenda.hint": "Tick points off as you raise them.",
   "conversation.cancelAndBack": "I don't want to record, go back",
 
   "conversation.idle.cta": "Press the button above to start recording",
   "conversation.recording.listening": "Listening...",
   "conversation.recording.status": "Recording...",
+  "conversation.speakers.title": "Who's speaking?",
+  "conversation.speakers.subtitle": "Tell us who each voice belongs to so the summary attributes everything correctly.",
+  "conversation.speakers.identifying": "Telling the speakers apart...",
+  "conversation.speakers.unavailable": "We couldn't tell the speakers apart in this recording. The summary will use the plain transcript.",
+  "conversation.speakers.speaker": "Speaker {label}",
+  "conversation.speakers.roleAria": "Who is speaker {label}?",
+  "conversation.speakers.role.doctor": "Doctor",
+  "conversation.speakers.role.patient": "Me (patient)",
+  "conversation.speakers.role.other": "Someone else",
+  "conversation.speakers.skip": "Skip",
+  "conversation.speakers.continue": "Continue",
   "conversation.summary.title": "Summary",
   "conversation.summary.generating": "Generating summary...",
   "conversation.summary.noSegments": "No segments captured.",
@@ -254,9 +585,10 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "onboarding.step2.progress": "Paso 2 de 3",
   "onboarding.step2.selectLanguage": "Seleccionar idioma",
   "onboarding.step2.tapToChange": "Toca para cambiar",
-  "onboarding.step3.title": "¿Cuál es el teléfono de tu hospital?",
+  "onboarding.step3.title": "¿Quién es tu médico de cabecera?",
   "onboarding.step3.progress": "Paso 3 de 3",
-  "onboarding.step3.phonePlaceholder": "Número de teléfono",
+  "onboarding.step3.phonePlaceholder": "Su número de teléfono",
+  "onboarding.step3.namePlaceholder": "Nombre del médico o clínica (opcional)",
   "onboarding.step4.title": "¡Todo listo!",
   "onboarding.step4.subtitle": "Bienvenido a HelloCare.",
   "onboarding.saveError": "No se pudo guardar el perfil",
@@ -270,6 +602,11 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "drawer.conversation": "Conversación",
   "drawer.documents": "Documentos",
   "drawer.scan_documents": "Escanear documentos",
+  "drawer.healthRecord": "Historial de salud",
+  "drawer.calendarSync": "Sincronizar calendario",
+  "drawer.reminders": "Recordatorios",
+  "drawer.careTeam": "Equipo médico",
+  "drawer.history": "Historial de cambios",
   "drawer.signOut": "Cerrar sesión",
 
   "documents.title": "Documentos",
@@ -280,11 +617,225 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "documents.uploadedAt": "Subido: {date}",
   "documents.untitled": "Documento sin título",
   "documents.noSummary": "Sin resumen.",
+  "healthRecord.title": "Historial de salud",
+  "healthRecord.subtitle": "Lleva tu historial de salud a otra aplicación o compártelo con un profesional.",
+  "healthRecord.export.title": "Exportar",
+  "healthRecord.export.body": "Descarga tu perfil, notas de salud, tareas, medicamentos, citas, visitas y documentos como un archivo FHIR R4.",
+  "healthRecord.export.button": "Descargar archivo FHIR",
+  "healthRecord.export.downloading": "Preparando archivo…",
+  "healthRecord.export.done": "Historial de salud descargado",
+  "healthRecord.export.failed": "No se pudo exportar tu historial de salud",
+  "healthRecord.import.title": "Importar",
+  "healthRecord.import.body": "Agrega registros desde una exportación del portal del paciente: un paquete FHIR R4 (.json) o un documento C-CDA (.xml). Podrás revisar cada registro antes de guardar nada.",
+  "healthRecord.import.choose": "Elegir archivo",
+  "healthRecord.import.invalid": "Este archivo no es un paquete FHIR R4 ni un documento C-CDA.",
+  "healthRecord.import.empty": "No se encontraron registros en este archivo.",
+  "healthRecord.import.summary": "{count} registros encontrados en {file}",
+  "healthRecord.import.duplicates": "{count} parecen registros que ya tienes y no están seleccionados.",
+  "healthRecord.import.skipped": "{count} entradas no se pudieron importar.",
+  "healthRecord.import.duplicate": "Posible duplicado",
+  "healthRecord.import.appointmentAt": "Cita el {date}",
+  "healthRecord.import.toggleAria": "Importar {name}",
+  "healthRecord.import.cancel": "Cancelar",
+  "healthRecord.import.submit": "Importar {count} registros",
+  "healthRecord.import.importing": "Importando…",
+  "healthRecord.import.done": "{count} registros importados",
+  "healthRecord.import.failed": "No se pudieron guardar {count} registros: {error}",
+  "healthRecord.calendar.title": "Suscripción de calendario",
+  "healthRecord.calendar.body": "Suscríbete desde Google Calendar, Apple Calendar u Outlook para ver allí tus citas y las fechas límite de tus tareas. Los cambios aparecen la próxima vez que tu calendario se actualice.",
+  "healthRecord.calendar.create": "Crear enlace de calendario",
+  "healthRecord.calendar.subscribe": "Abrir en la app de calendario",
+  "healthRecord.calendar.urlAria": "Enlace del calendario",
+  "healthRecord.calendar.copy": "Copiar enlace",
+  "healthRecord.calendar.copied": "Enlace copiado",
+  "healthRecord.calendar.copyFailed": "No se pudo copiar el enlace",
+  "healthRecord.calendar.secretHint": "Cualquiera con este enlace puede ver tus citas y fechas límite. Si lo compartiste por error, crea un enlace nuevo; el anterior dejará de funcionar.",
+  "healthRecord.calendar.regenerate": "Nuevo enlace",
+  "healthRecord.calendar.revoke": "Desactivar",
+  "healthRecord.calendar.created": "Enlace de calendario creado",
+  "healthRecord.calendar.regenerated": "Nuevo enlace de calendario creado",
+  "healthRecord.calendar.revoked": "Enlace de calendario desactivado",
+  "healthRecord.calendar.failed": "No se pudo actualizar tu enlace de calendario",
+  "calendarSync.title": "Sincronizar calendario",
+  "calendarSync.subtitle": "Mantén las citas al día con un calendario que comparte tu familia. Las citas añadidas en HelloCare aparecen en el calendario, y los eventos añadidos al calendario aparecen aquí.",
+  "calendarSync.loadFailed": "No se pudo cargar la sincronización del calendario",
+  "calendarSync.connect.title": "Conectar un calendario",
+  "calendarSync.connect.body": "Funciona con cualquier calendario CalDAV, como iCloud, Fastmail, Nextcloud o Radicale. El calendario se sincroniza cuando tocas Sincronizar ahora.",
+  "calendarSync.connect.url": "Dirección del calendario (URL CalDAV)",
+  "calendarSync.connect.username": "Usuario",
+  "calendarSync.connect.password": "Contraseña",
+  "calendarSync.connect.passwordHint": "Si tu proveedor ofrece contraseñas de aplicación, usa una aquí.",
+  "calendarSync.connect.importTitle": "Eventos del calendario que se añaden a HelloCare",
+  "calendarSync.connect.importCategory": "Solo eventos con esta categoría",
+  "calendarSync.connect.importAll": "Todos los eventos con hora (el calendario es solo para citas médicas)",
+  "calendarSync.connect.submit": "Conectar",
+  "calendarSync.connect.connecting": "Conectando…",
+  "calendarSync.connect.failed": "No se pudo conectar con el calendario",
+  "calendarSync.status.calendar": "Calendario",
+  "calendarSync.status.lastSync": "Última sincronización: {date}",
+  "calendarSync.status.neverSynced": "Aún no sincronizado",
+  "calendarSync.status.linked": "{count} citas vinculadas",
+  "calendarSync.status.result": "Última sincronización: {pushed} enviadas al calendario, {pulled} actualizadas desde él, {deleted} eliminadas.",
+  "calendarSync.status.skipped": "Se omitieron {count} eventos de todo el día o repetidos.",
+  "calendarSync.status.importCategory": "Añade los eventos del calendario con la categoría “{category}”.",
+  "calendarSync.status.importAll": "Añade todos los eventos del calendario con hora.",
+  "calendarSync.status.failed": "La última sincronización falló: {error}",
+  "calendarSync.syncNow": "Sincronizar ahora",
+  "calendarSync.syncing": "Sincronizando…",
+  "calendarSync.synced": "Calendario sincronizado",
+  "calendarSync.syncFailed": "Falló la sincronización del calendario",
+  "calendarSync.disconnect": "Desconectar",
+  "calendarSync.disconnected": "Calendario desconectado",
+  "calendarSync.conflict.title": "Requieren tu decisión ({count})",
+  "calendarSync.conflict.hint": "Estas citas cambiaron en ambos lugares desde la última sincronización. Elige la versión que quieres conservar.",
+  "calendarSync.conflict.bothChanged": "Cambiada en HelloCare y en el calendario",
+  "calendarSync.conflict.deletedInCalendar": "Cambiada en HelloCare, eliminada en el calendario",
+  "calendarSync.conflict.deletedInHelloCare": "Eliminada en HelloCare, cambiada en el calendario",
+  "calendarSync.conflict.hellocare": "En HelloCare",
+  "calendarSync.conflict.calendar": "En el calendario",
+  "calendarSync.conflict.deleted": "Eliminada",
+  "calendarSync.conflict.keepHelloCare": "Conservar la de HelloCare",
+  "calendarSync.conflict.keepCalendar": "Conservar la del calendario",
+  "calendarSync.conflict.resolved": "Conflicto resuelto",
+  "calendarSync.conflict.failed": "No se pudo resolver el conflicto",
+  "reminders.title": "Recordatorios",
+  "reminders.subtitle": "Recibe una notificación antes de tus citas y cuando venzan tus tareas, incluso con HelloCare cerrado.",
+  "reminders.loadFailed": "No se pudo cargar la configuración de recordatorios",
+  "reminders.saveFailed": "No se pudo guardar la configuración de recordatorios",
+  "reminders.enabled": "Enviar recordatorios",
+  "reminders.resumed": "Recordatorios activados",
+  "reminders.paused": "Recordatorios en pausa",
+  "reminders.perItemHint": "Elige cuándo te avisa cada cita y tarea con la campana de su tarjeta. Las citas avisan un día y una hora antes; las tareas, cuando vencen.",
+  "reminders.timeZone": "Los horarios de los recordatorios usan {timeZone}.",
+  "reminders.useDeviceTimeZone": "Usar la zona horaria de este dispositivo ({timeZone})",
+  "reminders.selectAria": "Cuándo recordarme",
+  "reminders.device.title": "Este dispositivo",
+  "reminders.device.unsupported": "Este navegador no puede mostrar notificaciones. En iPhone y iPad, primero agrega HelloCare a la pantalla de inicio.",
+  "reminders.device.notConfigured": "Las notificaciones aún no están configuradas en este servidor.",
+  "reminders.device.on": "Los recordatorios se muestran en este dispositivo.",
+  "reminders.device.off": "Activa las notificaciones para recibir recordatorios en este dispositivo.",
+  "reminders.device.enable": "Activar notificaciones",
+  "reminders.device.disable": "Desactivar en este dispositivo",
+  "reminders.device.enabled": "Notificaciones activadas",
+  "reminders.device.disabled": "Notificaciones desactivadas en este dispositivo",
+  "reminders.device.denied": "Las notificaciones están bloqueadas. Permítelas para este sitio en la configuración del navegador e inténtalo de nuevo.",
+  "reminders.device.enableFailed": "No se pudieron activar las notificaciones",
+  "reminders.device.disableFailed": "No se pudieron desactivar las notificaciones",
+  "reminders.device.count": "Dispositivos con recordatorios: {count}",
+  "reminders.test.send": "Enviar una notificación de prueba",
+  "reminders.test.sent": "Prueba enviada a {count} dispositivo(s)",
+  "reminders.test.failed": "No se pudo entregar la notificación de prueba",
+  "reminders.quietHours.title": "Horas de silencio",
+  "reminders.quietHours.body": "Los recordatorios que lleguen durante las horas de silencio esperan hasta que terminen.",
+  "reminders.quietHours.enable": "Retener recordatorios por la noche",
+  "reminders.quietHours.from": "Inicio de las horas de silencio",
+  "reminders.quietHours.to": "a",
+  "reminders.quietHours.until": "Fin de las horas de silencio",
+  "reminders.quietHours.save": "Guardar horas de silencio",
+  "reminders.offset.none": "Sin recordatorio",
+  "reminders.offset.atTime": "A la hora",
+  "reminders.offset.minutes": "{count} min antes",
+  "reminders.offset.hours": "{count} h antes",
+  "reminders.offset.days": "{count} d antes",
+  "reminders.push.appointmentTitle": "Próxima cita",
+  "reminders.push.appointmentBody": "{name} · {when}",
+  "reminders.push.appointmentFallback": "Cita",
+  "reminders.push.actionItemTitle": "Tarea pendiente",
+  "reminders.push.actionItemBody": "{name} · {when}",
+  "reminders.push.actionItemFallback": "Tarea",
+  "reminders.push.testTitle": "Los recordatorios de HelloCare están activados",
+  "reminders.push.testBody": "Recibirás recordatorios como este en este dispositivo.",
+  "careTeam.title": "Equipo médico",
+  "careTeam.subtitle": "Los médicos, especialistas, farmacias y terapeutas que ves. Elige uno al programar y vincula tus citas con ellos.",
+  "careTeam.loading": "Cargando tu equipo médico...",
+  "careTeam.emptyTitle": "Aún no hay proveedores",
+  "careTeam.emptyBody": "Agrega a tu médico de cabecera, especialistas, farmacia y terapeutas para que HelloCare sepa a quién llamar.",
+  "careTeam.add": "Agregar proveedor",
+  "careTeam.editAria": "Editar {name}",
+  "careTeam.deleteAria": "Quitar {name}",
+  "careTeam.schedule": "Programar una visita",
+  "careTeam.primaryCare": "Atención primaria",
+  "careTeam.unnamed": "Proveedor sin nombre",
+  "careTeam.form.addTitle": "Nuevo proveedor",
+  "careTeam.form.editTitle": "Editar proveedor",
+  "careTeam.form.name": "Nombre",
+  "careTeam.form.namePlaceholder": "Dra. Ana López o Farmacia Central",
+  "careTeam.form.specialty": "Especialidad",
+  "careTeam.form.specialtyPlaceholder": "Atención primaria, Cardiología, Farmacia...",
+  "careTeam.form.phone": "Teléfono",
+  "careTeam.form.address": "Dirección",
+  "careTeam.form.schedulingMethod": "Cómo programar",
+  "careTeam.form.notes": "Notas",
+  "careTeam.form.notesPlaceholder": "Sitio del portal, fax, horario de recepción...",
+  "careTeam.form.save": "Guardar",
+  "careTeam.form.cancel": "Cancelar",
+  "careTeam.form.nameRequired": "Escribe un nombre.",
+  "careTeam.form.invalidPhone": "Escribe un teléfono de 10 dígitos o déjalo vacío.",
+  "careTeam.form.phoneRequired": "Para programar por teléfono se necesita un número de 10 dígitos.",
+  "careTeam.method.phone": "teléfono",
+  "careTeam.method.portal": "portal del paciente o en línea",
+  "careTeam.method.walk_in": "sin cita",
+  "history.title": "Historial de cambios",
+  "history.subtitle": "Cada cambio en tus registros, incluido lo que hizo el asistente.",
+  "history.filterAria": "Filtrar por quién hizo el cambio",
+  "history.filter.all": "Todos",
+  "history.filter.assistant": "Asistente",
+  "history.filter.user": "Tú",
+  "history.actor.user": "Tú",
+  "history.actor.chatAssistant": "Asistente de chat",
+  "history.actor.voiceCommand": "Comando de voz",
+  "history.actor.visitExtraction": "Resumen de visita",
+  "history.actor.calendarSync": "Sincronización de calendario",
+  "history.operation.create": "Creó {entity}",
+  "history.operation.update": "Actualizó {entity}",
+  "history.operation.delete": "Eliminó {entity}",
+  "history.entity.healthNotes": "una nota de salud",
+  "history.entity.actionItems": "una tarea",
+  "history.entity.sessionMetadata": "una visita",
+  "history.entity.appointments": "una cita",
+  "history.entity.documents": "un documento",
+  "history.entity.medicationLogs": "una dosis de medicamento",
+  "history.entity.transcripts": "una transcripción de visita",
+  "history.entity.userMetadata": "el perfil",
+  "history.entity.careTeam": "un miembro del equipo médico",
+  "history.view": "Ver",
+  "history.showChanges": "Mostrar cambios",
+  "history.hideChanges": "Ocultar cambios",
+  "history.loading": "Cargando historial…",
+  "history.empty": "Aún no hay cambios.",
   "documents.deleteAria": "Eliminar {name}",
 
   "home.openMenu": "Abrir menú",
   "home.visitCta": "Estoy en una consulta médica",
   "home.thinking": "Pensando...",
+  "home.chatError": "Algo salió mal. Por favor, intenta de nuevo.",
+  "home.openThreads": "Conversaciones",
+  "home.threadLoadError": "No se pudo cargar esta conversación. Empieza una nueva o inténtalo más tarde.",
+  "chatThreads.title": "Conversaciones",
+  "chatThreads.new": "Nueva conversación",
+  "chatThreads.empty": "Aún no hay conversaciones guardadas.",
+  "chatThreads.untitled": "Conversación sin título",
+  "chatThreads.delete": "Eliminar",
+  "chatThreads.deleteAria": "Eliminar conversación",
+  "chatThreads.cancel": "Cancelar",
+  "chatThreads.deleteError": "No se pudo eliminar la conversación. Inténtalo de nuevo.",
+  "citations.label": "Fuentes",
+  "citations.appointmentAt": "Cita el {date}",
+  "citations.type.healthNotes": "Nota de salud",
+  "citations.type.actionItems": "Tarea",
+  "citations.type.sessionMetadata": "Visita anterior",
+  "citations.type.appointments": "Cita",
+  "citations.type.documents": "Documento",
+  "pendingAction.deleteActionItem": "¿Eliminar esta tarea?",
+  "pendingAction.deleteHealthNote": "¿Eliminar esta nota de salud?",
+  "pendingAction.deleteAppointment": "¿Eliminar esta cita?",
+  "pendingAction.deleteSession": "¿Eliminar este registro de visita?",
+  "pendingAction.deleteDocument": "¿Eliminar este documento?",
+  "pendingAction.appointmentAt": "Cita el {date}",
+  "pendingAction.confirm": "Eliminar",
+  "pendingAction.cancel": "Conservar",
+  "pendingAction.deleted": "Se eliminó {name}",
+  "pendingAction.undo": "Deshacer",
 
   "homeSummary.welcome": "¡Bienvenido de nuevo, {name}!",
   "homeSummary.subtitle": "Aquí tienes un resumen rápido de tu bienestar y tus tareas",
@@ -300,6 +851,10 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "homeSummary.appointmentTomorrowAt": "Cita mañana a las {time}",
   "homeSummary.appointmentInDaysAt": "Cita en {days} días a las {time}",
   "homeSummary.appointmentOn": "Cita {datetime}",
+  "homeSummary.todayAt": "Hoy a las {time}",
+  "homeSummary.dosesToday": "Medicamentos para hoy",
+  "homeSummary.markTaken": "Tomado",
+  "homeSummary.markTakenAria": "Marcar {name} como tomado",
 
   "time.justPassed": "Recién pasó",
   "time.hoursAgo": "hace {count} h",
@@ -341,6 +896,37 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "actionItems.status.inProgress": "En progreso",
   "actionItems.status.done": "Completada",
   "actionItems.status.skipped": "Omitida",
+  "actionItems.today": "Hoy",
+  "actionItems.occurrence.markDone": "Hecho",
+  "actionItems.occurrence.skip": "Omitir",
+  "actionItems.occurrence.undo": "Deshacer",
+  "actionItems.next": "Siguiente: {date}",
+  "actionItems.recurrence.ended": "Repetición finalizada",
+  "actionItems.recurrence.daily": "Todos los días",
+  "actionItems.recurrence.dailyInterval": "Cada {count} días",
+  "actionItems.recurrence.weekly": "Cada semana los {days}",
+  "actionItems.recurrence.weeklyInterval": "Cada {count} semanas los {days}",
+  "actionItems.recurrence.monthly": "Cada mes el día {day}",
+  "actionItems.recurrence.monthlyInterval": "Cada {count} meses el día {day}",
+  "actionItems.recurrence.until": "hasta el {date}",
+  "actionItems.recurrence.edit": "Repetir",
+  "actionItems.recurrence.none": "No se repite",
+  "actionItems.recurrence.frequency.daily": "Diaria",
+  "actionItems.recurrence.frequency.weekly": "Semanal",
+  "actionItems.recurrence.frequency.monthly": "Mensual",
+  "actionItems.recurrence.every": "Cada",
+  "actionItems.recurrence.unit.daily": "día(s)",
+  "actionItems.recurrence.unit.weekly": "semana(s)",
+  "actionItems.recurrence.unit.monthly": "mes(es)",
+  "actionItems.recurrence.onDays": "Los días",
+  "actionItems.recurrence.endDate": "Fecha de fin (opcional)",
+  "actionItems.recurrence.save": "Guardar",
+  "actionItems.recurrence.cancel": "Cancelar",
+  "actionItems.adherence": "Cumplimiento",
+  "actionItems.adherenceWindow": "{days} días: {percent}%",
+  "actionItems.adherenceEmpty": "{days} días: —",
+  "actionItems.dose.markTaken": "Marcar dosis tomada",
+  "actionItems.dose.logged": "Dosis registrada",
 
   "healthNotes.title": "Notas de salud",
   "healthNotes.subtitle": "Tus notas de salud de las visitas, actualizadas en tiempo real.",
@@ -361,7 +947,9 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "pastSessions.emptyBody": "Los resúmenes de tus visitas aparecerán aquí después de completar una conversación y guardar el resumen.",
   "pastSessions.loading": "Cargando sesiones pasadas...",
   "pastSessions.date": "Fecha: {date}",
+  "pastSessions.provider": "Con: {name}",
   "pastSessions.summary": "Resumen",
+  "pastSessions.discussionTopics": "Temas tratados",
   "pastSessions.linkedActionItems": "Tareas vinculadas",
   "pastSessions.due": "Vence: {date}",
   "pastSessions.untitledVisit": "Visita sin título",
@@ -370,6 +958,22 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "pastSessions.changePriority": "Cambiar prioridad",
   "pastSessions.changeStatus": "Cambiar estado",
   "pastSessions.deleteAria": "Eliminar {name}",
+  "pastSessions.regenerate.action": "Regenerar resumen",
+  "pastSessions.regenerate.title": "Resumen regenerado",
+  "pastSessions.regenerate.generating": "Resumiendo de nuevo la transcripción guardada...",
+  "pastSessions.regenerate.error": "No se pudo regenerar el resumen. Inténtalo más tarde.",
+  "pastSessions.regenerate.noChanges": "El nuevo resumen coincide con el actual.",
+  "pastSessions.regenerate.topics": "Temas tratados",
+  "pastSessions.regenerate.summaryPoints": "Resumen de la conversación",
+  "pastSessions.regenerate.actionItems": "Tareas",
+  "pastSessions.regenerate.none": "Ninguno",
+  "pastSessions.regenerate.added": "Añadido",
+  "pastSessions.regenerate.removed": "Eliminado",
+  "pastSessions.regenerate.applyHint": "Usar el nuevo resumen reemplaza el resumen y añade las tareas nuevas. Tus tareas actuales se conservan.",
+  "pastSessions.regenerate.applyError": "No se pudo guardar el nuevo resumen. Inténtalo de nuevo.",
+  "pastSessions.regenerate.keep": "Mantener el actual",
+  "pastSessions.regenerate.apply": "Usar el nuevo resumen",
+  "pastSessions.regenerate.applied": "Resumen actualizado",
 
   "appointments.title": "Citas",
   "appointments.subtitle": "Tus citas programadas, actualizadas en tiempo real.",
@@ -378,9 +982,52 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "appointments.loading": "Cargando citas...",
   "appointments.scheduledAt": "Programada el: {date}",
   "appointments.deleteAria": "Eliminar cita",
+  "appointments.prepare": "Preparar la visita",
+  "appointments.agenda": "Agenda de la visita ({count})",
+  "appointments.addToCalendar": "Añadir al calendario",
+  "appointments.reason": "Motivo: {reason}",
+  "appointments.statusAria": "Estado de la cita",
+  "appointments.providerAria": "Proveedor del equipo médico",
+  "appointments.noProvider": "Sin proveedor del equipo médico",
+  "appointments.status.scheduled": "Programada",
+  "appointments.status.confirmed": "Confirmada",
+  "appointments.status.cancelled": "Cancelada",
+  "appointments.status.completed": "Realizada",
+  "appointments.status.noShow": "No asistió",
+  "visitPrep.title": "Preparación de la visita",
+  "visitPrep.subtitle": "Qué comentar en tu cita del {date}. Edita y reordena los puntos y luego guarda.",
+  "visitPrep.generate": "Crear agenda a partir de mis registros",
+  "visitPrep.regenerate": "Volver a crear la agenda",
+  "visitPrep.generating": "Creando tu agenda...",
+  "visitPrep.notEnoughData": "No hay nada nuevo desde tu última visita para crear una agenda. Puedes añadir tus propios puntos.",
+  "visitPrep.generateError": "No se pudo crear la agenda. Inténtalo de nuevo.",
+  "visitPrep.emptyTitle": "Aún no hay agenda",
+  "visitPrep.emptyBody": "Créala a partir de tus notas de salud, tareas, medicamentos y documentos, o añade tus propios puntos.",
+  "visitPrep.category.symptom": "Síntoma",
+  "visitPrep.category.actionItem": "Tarea",
+  "visitPrep.category.medication": "Medicamento",
+  "visitPrep.category.document": "Documento",
+  "visitPrep.category.other": "Otro",
+  "visitPrep.moveUp": "Subir",
+  "visitPrep.moveDown": "Bajar",
+  "visitPrep.itemAria": "Punto {index} de la agenda",
+  "visitPrep.removeAria": "Quitar de la agenda",
+  "visitPrep.addPlaceholder": "Añade un punto a comentar",
+  "visitPrep.add": "Añadir a la agenda",
+  "visitPrep.save": "Guardar agenda",
+  "visitPrep.saved": "Agenda guardada",
+  "visitPrep.saveError": "No se pudo guardar la agenda. Inténtalo de nuevo.",
+  "visitPrep.startRecording": "Grabar visita",
+  "visitPrep.notFound": "Esta cita ya no existe.",
 
   "schedule.title": "Programar cita",
   "schedule.subtitle": "Programa una cita automáticamente con tu proveedor de salud. Nosotros llamamos y tú confirmas el horario.",
+  "schedule.reasonLabel": "Motivo de la visita",
+  "schedule.reasonPlaceholder": "Motivo de la visita (opcional)",
+  "schedule.providerLabel": "Proveedor a llamar",
+  "schedule.noProviders": "Agrega a tu equipo médico un proveedor con número de teléfono para programar por teléfono.",
+  "schedule.manageCareTeam": "Administrar equipo médico",
+  "schedule.prefersOtherMethod": "{name} suele programar por {method}, pero igual podemos llamar.",
   "schedule.idle": "Presiona el botón para iniciar el proceso de programación. Esta pantalla se actualizará automáticamente.",
   "schedule.slotsTitle": "¡Tenemos horarios disponibles!",
   "schedule.slotsSubtitle": "¿Te funciona alguno de estos horarios?",
@@ -389,24 +1036,39 @@ export const ES_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "schedule.startAgain": "Iniciar de nuevo",
   "schedule.stop": "Detener programación",
   "schedule.backHome": "Volver al inicio",
-  "schedule.loading.1": "Organizando...",
-  "schedule.loading.2": "Buscando horarios...",
-  "schedule.loading.3": "Preparando opciones...",
-  "schedule.loading.4": "Casi listo...",
-  "schedule.loading.5": "Afinando detalles...",
-  "schedule.loading.6": "Conectando...",
-  "schedule.loading.7": "Confirmando disponibilidad...",
+  "schedule.call.starting": "Iniciando la llamada...",
+  "schedule.call.queued": "Llamada en cola...",
+  "schedule.call.ringing": "Llamando a tu proveedor...",
+  "schedule.call.inProgress": "En la llamada con tu proveedor...",
+  "schedule.call.forwarding": "Transfiriendo la llamada...",
+  "schedule.call.ended": "Llamada finalizada.",
+  "schedule.call.duration": "Duración: {duration}",
+  "schedule.call.endedWithoutSlots": "La llamada terminó antes de ofrecer horarios ({reason}).",
   "schedule.noAvailability": "No se encontraron horarios disponibles. Intenta de nuevo o contacta a tu proveedor directamente.",
   "schedule.completed": "¡Tu cita ha sido confirmada!",
   "schedule.error": "Algo salió mal. Por favor, intenta de nuevo.",
 
   "conversation.title": "Conversación",
   "conversation.subtitle": "Esta conversación es sobre una visita médica del {date}",
+  "conversation.agenda.open": "Ver agenda de la visita",
+  "conversation.agenda.title": "Agenda de la visita",
+  "conversation.agenda.hint": "Marca los puntos a medida que los comentes.",
   "conversation.cancelAndBack": "No quiero grabar, volver",
 
   "conversation.idle.cta": "Presiona el botón de arriba para iniciar la grabación",
   "conversation.recording.listening": "Escuchando...",
   "conversation.recording.status": "Grabando...",
+  "conversation.speakers.title": "¿Quién habla?",
+  "conversation.speakers.subtitle": "Indícanos a quién pertenece cada voz para que el resumen atribuya todo correctamente.",
+  "conversation.speakers.identifying": "Distinguiendo a los hablantes...",
+  "conversation.speakers.unavailable": "No pudimos distinguir a los hablantes en esta grabación. El resumen usará la transcripción sin etiquetas.",
+  "conversation.speakers.speaker": "Hablante {label}",
+  "conversation.speakers.roleAria": "¿Quién es el hablante {label}?",
+  "conversation.speakers.role.doctor": "Médico",
+  "conversation.speakers.role.patient": "Yo (paciente)",
+  "conversation.speakers.role.other": "Otra persona",
+  "conversation.speakers.skip": "Omitir",
+  "conversation.speakers.continue": "Continuar",
   "conversation.summary.title": "Resumen",
   "conversation.summary.generating": "Generando resumen...",
   "conversation.summary.noSegments": "No se capturaron segmentos.",
@@ -484,9 +1146,10 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "onboarding.step2.progress": "第 2 步（共 3 步）",
   "onboarding.step2.selectLanguage": "选择语言",
   "onboarding.step2.tapToChange": "点击更改",
-  "onboarding.step3.title": "你医院的电话号码是多少？",
+  "onboarding.step3.title": "你的家庭医生是谁？",
   "onboarding.step3.progress": "第 3 步（共 3 步）",
-  "onboarding.step3.phonePlaceholder": "在此输入电话号码",
+  "onboarding.step3.phonePlaceholder": "对方的电话号码",
+  "onboarding.step3.namePlaceholder": "医生或诊所名称（可选）",
   "onboarding.step4.title": "全部设置完成！",
   "onboarding.step4.subtitle": "欢迎使用 HelloCare。",
   "onboarding.saveError": "保存资料失败",
@@ -500,6 +1163,11 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "drawer.conversation": "对话",
   "drawer.documents": "文档",
   "drawer.scan_documents": "扫描文档",
+  "drawer.healthRecord": "健康档案",
+  "drawer.calendarSync": "日历同步",
+  "drawer.reminders": "提醒",
+  "drawer.careTeam": "医疗团队",
+  "drawer.history": "变更记录",
   "drawer.signOut": "退出登录",
 
   "documents.title": "文档",
@@ -510,11 +1178,225 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "documents.uploadedAt": "上传于：{date}",
   "documents.untitled": "未命名文档",
   "documents.noSummary": "无摘要。",
+  "healthRecord.title": "健康档案",
+  "healthRecord.subtitle": "将您的健康档案导入其他应用或与医护人员共享。",
+  "healthRecord.export.title": "导出",
+  "healthRecord.export.body": "将您的个人资料、健康笔记、待办事项、药物、预约、就诊和文档下载为 FHIR R4 文件。",
+  "healthRecord.export.button": "下载 FHIR 文件",
+  "healthRecord.export.downloading": "正在准备文件…",
+  "healthRecord.export.done": "健康档案已下载",
+  "healthRecord.export.failed": "无法导出您的健康档案",
+  "healthRecord.import.title": "导入",
+  "healthRecord.import.body": "从患者门户导出的文件添加记录：FHIR R4 数据包（.json）或 C-CDA 文档（.xml）。保存前您可以逐条查看。",
+  "healthRecord.import.choose": "选择文件",
+  "healthRecord.import.invalid": "此文件不是 FHIR R4 数据包或 C-CDA 文档。",
+  "healthRecord.import.empty": "此文件中未找到记录。",
+  "healthRecord.import.summary": "在 {file} 中找到 {count} 条记录",
+  "healthRecord.import.duplicates": "{count} 条与已有记录相似，未被选中。",
+  "healthRecord.import.skipped": "{count} 个条目无法导入。",
+  "healthRecord.import.duplicate": "可能重复",
+  "healthRecord.import.appointmentAt": "{date} 的预约",
+  "healthRecord.import.toggleAria": "导入 {name}",
+  "healthRecord.import.cancel": "取消",
+  "healthRecord.import.submit": "导入 {count} 条记录",
+  "healthRecord.import.importing": "正在导入…",
+  "healthRecord.import.done": "已导入 {count} 条记录",
+  "healthRecord.import.failed": "{count} 条记录无法保存：{error}",
+  "healthRecord.calendar.title": "日历订阅",
+  "healthRecord.calendar.body": "在 Google 日历、Apple 日历或 Outlook 中订阅，即可在其中查看您的预约和待办事项截止日期。日历应用下次刷新时会显示更改。",
+  "healthRecord.calendar.create": "创建日历链接",
+  "healthRecord.calendar.subscribe": "在日历应用中打开",
+  "healthRecord.calendar.urlAria": "日历订阅链接",
+  "healthRecord.calendar.copy": "复制链接",
+  "healthRecord.calendar.copied": "链接已复制",
+  "healthRecord.calendar.copyFailed": "无法复制链接",
+  "healthRecord.calendar.secretHint": "任何拥有此链接的人都能看到您的预约和截止日期。如果误分享了链接，请创建新链接，旧链接将失效。",
+  "healthRecord.calendar.regenerate": "新链接",
+  "healthRecord.calendar.revoke": "关闭",
+  "healthRecord.calendar.created": "日历链接已创建",
+  "healthRecord.calendar.regenerated": "已创建新的日历链接",
+  "healthRecord.calendar.revoked": "日历链接已关闭",
+  "healthRecord.calendar.failed": "无法更新您的日历链接",
+  "calendarSync.title": "日历同步",
+  "calendarSync.subtitle": "让预约与家人共享的日历保持一致。在 HelloCare 中添加的预约会出现在日历中，添加到日历中的活动也会出现在这里。",
+  "calendarSync.loadFailed": "无法加载日历同步",
+  "calendarSync.connect.title": "连接日历",
+  "calendarSync.connect.body": "支持任何 CalDAV 日历，例如 iCloud、Fastmail、Nextcloud 或 Radicale。点击“立即同步”时同步日历。",
+  "calendarSync.connect.url": "日历地址（CalDAV URL）",
+  "calendarSync.connect.username": "用户名",
+  "calendarSync.connect.password": "密码",
+  "calendarSync.connect.passwordHint": "如果您的服务商提供应用专用密码，请在此使用。",
+  "calendarSync.connect.importTitle": "要添加到 HelloCare 的日历活动",
+  "calendarSync.connect.importCategory": "仅限带有此类别的活动",
+  "calendarSync.connect.importAll": "所有带时间的活动（该日历仅用于就医预约）",
+  "calendarSync.connect.submit": "连接",
+  "calendarSync.connect.connecting": "正在连接…",
+  "calendarSync.connect.failed": "无法连接到日历",
+  "calendarSync.status.calendar": "日历",
+  "calendarSync.status.lastSync": "上次同步：{date}",
+  "calendarSync.status.neverSynced": "尚未同步",
+  "calendarSync.status.linked": "已关联 {count} 个预约",
+  "calendarSync.status.result": "上次同步：{pushed} 个发送到日历，{pulled} 个从日历更新，{deleted} 个已删除。",
+  "calendarSync.status.skipped": "已忽略 {count} 个全天或重复活动。",
+  "calendarSync.status.importCategory": "添加类别为“{category}”的日历活动。",
+  "calendarSync.status.importAll": "添加所有带时间的日历活动。",
+  "calendarSync.status.failed": "上次同步失败：{error}",
+  "calendarSync.syncNow": "立即同步",
+  "calendarSync.syncing": "正在同步…",
+  "calendarSync.synced": "日历已同步",
+  "calendarSync.syncFailed": "日历同步失败",
+  "calendarSync.disconnect": "断开连接",
+  "calendarSync.disconnected": "日历已断开连接",
+  "calendarSync.conflict.title": "需要您选择（{count}）",
+  "calendarSync.conflict.hint": "自上次同步以来，这些预约在两处都有更改。请选择要保留的版本。",
+  "calendarSync.conflict.bothChanged": "在 HelloCare 和日历中都有更改",
+  "calendarSync.conflict.deletedInCalendar": "在 HelloCare 中已更改，在日历中已删除",
+  "calendarSync.conflict.deletedInHelloCare": "在 HelloCare 中已删除，在日历中已更改",
+  "calendarSync.conflict.hellocare": "HelloCare 中的版本",
+  "calendarSync.conflict.calendar": "日历中的版本",
+  "calendarSync.conflict.deleted": "已删除",
+  "calendarSync.conflict.keepHelloCare": "保留 HelloCare 版本",
+  "calendarSync.conflict.keepCalendar": "保留日历版本",
+  "calendarSync.conflict.resolved": "冲突已解决",
+  "calendarSync.conflict.failed": "无法解决冲突",
+  "reminders.title": "提醒",
+  "reminders.subtitle": "在预约之前和待办事项到期时收到通知,即使 HelloCare 未打开。",
+  "reminders.loadFailed": "无法加载提醒设置",
+  "reminders.saveFailed": "无法保存提醒设置",
+  "reminders.enabled": "发送提醒",
+  "reminders.resumed": "已开启提醒",
+  "reminders.paused": "已暂停提醒",
+  "reminders.perItemHint": "通过每张卡片上的铃铛选择每个预约和待办事项的提醒时间。预约默认提前一天和一小时提醒,待办事项在到期时提醒。",
+  "reminders.timeZone": "提醒时间使用 {timeZone}。",
+  "reminders.useDeviceTimeZone": "使用此设备的时区({timeZone})",
+  "reminders.selectAria": "提醒时间",
+  "reminders.device.title": "此设备",
+  "reminders.device.unsupported": "此浏览器无法显示通知。在 iPhone 和 iPad 上,请先将 HelloCare 添加到主屏幕。",
+  "reminders.device.notConfigured": "此服务器尚未设置通知。",
+  "reminders.device.on": "提醒会显示在此设备上。",
+  "reminders.device.off": "开启通知以在此设备上接收提醒。",
+  "reminders.device.enable": "开启通知",
+  "reminders.device.disable": "在此设备上关闭",
+  "reminders.device.enabled": "已开启通知",
+  "reminders.device.disabled": "已在此设备上关闭通知",
+  "reminders.device.denied": "通知已被阻止。请在浏览器设置中允许此网站的通知,然后重试。",
+  "reminders.device.enableFailed": "无法开启通知",
+  "reminders.device.disableFailed": "无法关闭通知",
+  "reminders.device.count": "接收提醒的设备:{count}",
+  "reminders.test.send": "发送测试通知",
+  "reminders.test.sent": "测试通知已发送到 {count} 台设备",
+  "reminders.test.failed": "无法送达测试通知",
+  "reminders.quietHours.title": "免打扰时段",
+  "reminders.quietHours.body": "在免打扰时段内到期的提醒会等到时段结束后再发送。",
+  "reminders.quietHours.enable": "夜间暂缓提醒",
+  "reminders.quietHours.from": "免打扰开始时间",
+  "reminders.quietHours.to": "至",
+  "reminders.quietHours.until": "免打扰结束时间",
+  "reminders.quietHours.save": "保存免打扰时段",
+  "reminders.offset.none": "不提醒",
+  "reminders.offset.atTime": "准时",
+  "reminders.offset.minutes": "提前 {count} 分钟",
+  "reminders.offset.hours": "提前 {count} 小时",
+  "reminders.offset.days": "提前 {count} 天",
+  "reminders.push.appointmentTitle": "即将到来的预约",
+  "reminders.push.appointmentBody": "{name} · {when}",
+  "reminders.push.appointmentFallback": "预约",
+  "reminders.push.actionItemTitle": "待办事项到期",
+  "reminders.push.actionItemBody": "{name} · {when}",
+  "reminders.push.actionItemFallback": "待办事项",
+  "reminders.push.testTitle": "HelloCare 提醒已开启",
+  "reminders.push.testBody": "你将在此设备上收到类似的提醒。",
+  "careTeam.title": "医疗团队",
+  "careTeam.subtitle": "你就诊的医生、专科医生、药房和治疗师。预约时可从中选择，并将预约与其关联。",
+  "careTeam.loading": "正在加载你的医疗团队...",
+  "careTeam.emptyTitle": "还没有医疗提供者",
+  "careTeam.emptyBody": "添加你的家庭医生、专科医生、药房和治疗师，HelloCare 就知道该打给谁。",
+  "careTeam.add": "添加提供者",
+  "careTeam.editAria": "编辑 {name}",
+  "careTeam.deleteAria": "移除 {name}",
+  "careTeam.schedule": "预约就诊",
+  "careTeam.primaryCare": "家庭医生",
+  "careTeam.unnamed": "未命名的提供者",
+  "careTeam.form.addTitle": "新的提供者",
+  "careTeam.form.editTitle": "编辑提供者",
+  "careTeam.form.name": "名称",
+  "careTeam.form.namePlaceholder": "王医生或中心药房",
+  "careTeam.form.specialty": "专科",
+  "careTeam.form.specialtyPlaceholder": "家庭医学、心内科、药房...",
+  "careTeam.form.phone": "电话",
+  "careTeam.form.address": "地址",
+  "careTeam.form.schedulingMethod": "预约方式",
+  "careTeam.form.notes": "备注",
+  "careTeam.form.notesPlaceholder": "患者门户网址、传真号码、前台时间...",
+  "careTeam.form.save": "保存",
+  "careTeam.form.cancel": "取消",
+  "careTeam.form.nameRequired": "请输入名称。",
+  "careTeam.form.invalidPhone": "请输入 10 位电话号码，或留空。",
+  "careTeam.form.phoneRequired": "电话预约需要 10 位电话号码。",
+  "careTeam.method.phone": "电话",
+  "careTeam.method.portal": "患者门户或在线",
+  "careTeam.method.walk_in": "直接前往",
+  "history.title": "变更记录",
+  "history.subtitle": "您记录的每一次更改，包括助手所做的更改。",
+  "history.filterAria": "按更改者筛选",
+  "history.filter.all": "全部",
+  "history.filter.assistant": "助手",
+  "history.filter.user": "您",
+  "history.actor.user": "您",
+  "history.actor.chatAssistant": "聊天助手",
+  "history.actor.voiceCommand": "语音命令",
+  "history.actor.visitExtraction": "就诊摘要",
+  "history.actor.calendarSync": "日历同步",
+  "history.operation.create": "创建了{entity}",
+  "history.operation.update": "更新了{entity}",
+  "history.operation.delete": "删除了{entity}",
+  "history.entity.healthNotes": "健康笔记",
+  "history.entity.actionItems": "待办事项",
+  "history.entity.sessionMetadata": "就诊",
+  "history.entity.appointments": "预约",
+  "history.entity.documents": "文档",
+  "history.entity.medicationLogs": "用药记录",
+  "history.entity.transcripts": "就诊转录",
+  "history.entity.userMetadata": "个人资料",
+  "history.entity.careTeam": "医疗团队成员",
+  "history.view": "查看",
+  "history.showChanges": "显示更改",
+  "history.hideChanges": "隐藏更改",
+  "history.loading": "正在加载记录…",
+  "history.empty": "暂无更改。",
   "documents.deleteAria": "删除 {name}",
 
   "home.openMenu": "打开菜单",
   "home.visitCta": "我正在看医生",
   "home.thinking": "思考中...",
+  "home.chatError": "出现问题，请重试。",
+  "home.openThreads": "对话",
+  "home.threadLoadError": "无法加载此对话。请开始新对话或稍后再试。",
+  "chatThreads.title": "对话",
+  "chatThreads.new": "新对话",
+  "chatThreads.empty": "还没有保存的对话。",
+  "chatThreads.untitled": "未命名对话",
+  "chatThreads.delete": "删除",
+  "chatThreads.deleteAria": "删除对话",
+  "chatThreads.cancel": "取消",
+  "chatThreads.deleteError": "无法删除对话，请重试。",
+  "citations.label": "来源",
+  "citations.appointmentAt": "{date} 的预约",
+  "citations.type.healthNotes": "健康记录",
+  "citations.type.actionItems": "待办事项",
+  "citations.type.sessionMetadata": "过往就诊",
+  "citations.type.appointments": "预约",
+  "citations.type.documents": "文件",
+  "pendingAction.deleteActionItem": "删除此待办事项？",
+  "pendingAction.deleteHealthNote": "删除此健康笔记？",
+  "pendingAction.deleteAppointment": "删除此预约？",
+  "pendingAction.deleteSession": "删除此就诊记录？",
+  "pendingAction.deleteDocument": "删除此文档？",
+  "pendingAction.appointmentAt": "{date} 的预约",
+  "pendingAction.confirm": "删除",
+  "pendingAction.cancel": "保留",
+  "pendingAction.deleted": "已删除 {name}",
+  "pendingAction.undo": "撤销",
 
   "homeSummary.welcome": "欢迎回来，{name}！",
   "homeSummary.subtitle": "以下是你的健康状况和待办事项摘要",
@@ -530,6 +1412,10 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "homeSummary.appointmentTomorrowAt": "明天 {time} 有预约",
   "homeSummary.appointmentInDaysAt": "{days} 天后 {time} 有预约",
   "homeSummary.appointmentOn": "预约时间：{datetime}",
+  "homeSummary.todayAt": "今天 {time}",
+  "homeSummary.dosesToday": "今天需服用的药物",
+  "homeSummary.markTaken": "已服用",
+  "homeSummary.markTakenAria": "将 {name} 标记为已服用",
 
   "time.justPassed": "刚刚过去",
   "time.hoursAgo": "{count} 小时前",
@@ -571,6 +1457,37 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "actionItems.status.inProgress": "进行中",
   "actionItems.status.done": "已完成",
   "actionItems.status.skipped": "已跳过",
+  "actionItems.today": "今天",
+  "actionItems.occurrence.markDone": "完成",
+  "actionItems.occurrence.skip": "跳过",
+  "actionItems.occurrence.undo": "撤销",
+  "actionItems.next": "下次：{date}",
+  "actionItems.recurrence.ended": "重复已结束",
+  "actionItems.recurrence.daily": "每天",
+  "actionItems.recurrence.dailyInterval": "每 {count} 天",
+  "actionItems.recurrence.weekly": "每周{days}",
+  "actionItems.recurrence.weeklyInterval": "每 {count} 周的{days}",
+  "actionItems.recurrence.monthly": "每月 {day} 日",
+  "actionItems.recurrence.monthlyInterval": "每 {count} 个月的 {day} 日",
+  "actionItems.recurrence.until": "至 {date}",
+  "actionItems.recurrence.edit": "重复",
+  "actionItems.recurrence.none": "不重复",
+  "actionItems.recurrence.frequency.daily": "每天",
+  "actionItems.recurrence.frequency.weekly": "每周",
+  "actionItems.recurrence.frequency.monthly": "每月",
+  "actionItems.recurrence.every": "每",
+  "actionItems.recurrence.unit.daily": "天",
+  "actionItems.recurrence.unit.weekly": "周",
+  "actionItems.recurrence.unit.monthly": "个月",
+  "actionItems.recurrence.onDays": "在",
+  "actionItems.recurrence.endDate": "结束日期（可选）",
+  "actionItems.recurrence.save": "保存",
+  "actionItems.recurrence.cancel": "取消",
+  "actionItems.adherence": "依从性",
+  "actionItems.adherenceWindow": "{days} 天：{percent}%",
+  "actionItems.adherenceEmpty": "{days} 天：—",
+  "actionItems.dose.markTaken": "标记已服药",
+  "actionItems.dose.logged": "已记录服药",
 
   "healthNotes.title": "健康笔记",
   "healthNotes.subtitle": "你的就诊健康笔记，实时更新。",
@@ -591,7 +1508,9 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "pastSessions.emptyBody": "完成对话并保存摘要后，你的就诊摘要会显示在这里。",
   "pastSessions.loading": "正在加载过往就诊...",
   "pastSessions.date": "日期：{date}",
+  "pastSessions.provider": "就诊对象：{name}",
   "pastSessions.summary": "摘要",
+  "pastSessions.discussionTopics": "讨论主题",
   "pastSessions.linkedActionItems": "关联待办事项",
   "pastSessions.due": "截止：{date}",
   "pastSessions.untitledVisit": "未命名就诊",
@@ -600,6 +1519,22 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "pastSessions.changePriority": "更改优先级",
   "pastSessions.changeStatus": "更改状态",
   "pastSessions.deleteAria": "删除 {name}",
+  "pastSessions.regenerate.action": "重新生成摘要",
+  "pastSessions.regenerate.title": "重新生成的摘要",
+  "pastSessions.regenerate.generating": "正在重新总结已保存的转录...",
+  "pastSessions.regenerate.error": "无法重新生成摘要，请稍后再试。",
+  "pastSessions.regenerate.noChanges": "新摘要与当前摘要一致。",
+  "pastSessions.regenerate.topics": "讨论主题",
+  "pastSessions.regenerate.summaryPoints": "对话摘要",
+  "pastSessions.regenerate.actionItems": "待办事项",
+  "pastSessions.regenerate.none": "无",
+  "pastSessions.regenerate.added": "新增",
+  "pastSessions.regenerate.removed": "已移除",
+  "pastSessions.regenerate.applyHint": "使用新摘要将替换当前摘要并添加新的待办事项。现有待办事项会保留。",
+  "pastSessions.regenerate.applyError": "无法保存新摘要，请重试。",
+  "pastSessions.regenerate.keep": "保留当前摘要",
+  "pastSessions.regenerate.apply": "使用新摘要",
+  "pastSessions.regenerate.applied": "摘要已更新",
 
   "appointments.title": "预约",
   "appointments.subtitle": "你的预约信息，实时更新。",
@@ -608,9 +1543,52 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "appointments.loading": "正在加载预约...",
   "appointments.scheduledAt": "预约创建时间：{date}",
   "appointments.deleteAria": "删除预约",
+  "appointments.prepare": "准备就诊",
+  "appointments.agenda": "就诊议程（{count}）",
+  "appointments.addToCalendar": "添加到日历",
+  "appointments.reason": "原因：{reason}",
+  "appointments.statusAria": "预约状态",
+  "appointments.providerAria": "医疗团队成员",
+  "appointments.noProvider": "未关联医疗团队成员",
+  "appointments.status.scheduled": "已预约",
+  "appointments.status.confirmed": "已确认",
+  "appointments.status.cancelled": "已取消",
+  "appointments.status.completed": "已完成",
+  "appointments.status.noShow": "未到诊",
+  "visitPrep.title": "就诊准备",
+  "visitPrep.subtitle": "{date} 就诊时要提的问题。编辑并调整顺序后保存。",
+  "visitPrep.generate": "根据我的记录生成议程",
+  "visitPrep.regenerate": "重新生成议程",
+  "visitPrep.generating": "正在生成议程...",
+  "visitPrep.notEnoughData": "自上次就诊以来没有可用于生成议程的新内容。你仍可以添加自己的要点。",
+  "visitPrep.generateError": "无法生成议程，请重试。",
+  "visitPrep.emptyTitle": "暂无议程",
+  "visitPrep.emptyBody": "根据健康记录、待办事项、用药和文档生成议程，或添加自己的要点。",
+  "visitPrep.category.symptom": "症状",
+  "visitPrep.category.actionItem": "待办事项",
+  "visitPrep.category.medication": "用药",
+  "visitPrep.category.document": "文档",
+  "visitPrep.category.other": "其他",
+  "visitPrep.moveUp": "上移",
+  "visitPrep.moveDown": "下移",
+  "visitPrep.itemAria": "议程第 {index} 项",
+  "visitPrep.removeAria": "从议程中删除",
+  "visitPrep.addPlaceholder": "添加要提的要点",
+  "visitPrep.add": "添加到议程",
+  "visitPrep.save": "保存议程",
+  "visitPrep.saved": "议程已保存",
+  "visitPrep.saveError": "无法保存议程，请重试。",
+  "visitPrep.startRecording": "录制就诊",
+  "visitPrep.notFound": "该预约已不存在。",
 
   "schedule.title": "安排预约",
   "schedule.subtitle": "我们会自动帮你联系医疗机构安排预约，你只需确认时间。",
+  "schedule.reasonLabel": "就诊原因",
+  "schedule.reasonPlaceholder": "就诊原因（可选）",
+  "schedule.providerLabel": "要拨打的医疗提供者",
+  "schedule.noProviders": "请先在医疗团队中添加一位有电话号码的提供者，才能通过电话预约。",
+  "schedule.manageCareTeam": "管理医疗团队",
+  "schedule.prefersOtherMethod": "{name} 通常通过{method}预约，但我们仍可以致电。",
   "schedule.idle": "点击下方按钮开始预约流程。此页面会自动刷新状态。",
   "schedule.slotsTitle": "我们找到了几个时间段！",
   "schedule.slotsSubtitle": "这些时间你方便吗？",
@@ -619,24 +1597,39 @@ export const ZH_MESSAGES: Partial<Record<keyof typeof EN_MESSAGES, string>> = {
   "schedule.startAgain": "再次开始",
   "schedule.stop": "停止预约流程",
   "schedule.backHome": "返回首页",
-  "schedule.loading.1": "正在联络中...",
-  "schedule.loading.2": "正在寻找时间...",
-  "schedule.loading.3": "正在整理选项...",
-  "schedule.loading.4": "马上就好...",
-  "schedule.loading.5": "正在确认细节...",
-  "schedule.loading.6": "正在连接...",
-  "schedule.loading.7": "正在确认可用性...",
+  "schedule.call.starting": "正在发起通话...",
+  "schedule.call.queued": "通话排队中...",
+  "schedule.call.ringing": "正在呼叫您的医疗机构...",
+  "schedule.call.inProgress": "正在与医疗机构通话...",
+  "schedule.call.forwarding": "正在转接...",
+  "schedule.call.ended": "通话已结束。",
+  "schedule.call.duration": "通话时长：{duration}",
+  "schedule.call.endedWithoutSlots": "通话在提供时间段之前结束（{reason}）。",
   "schedule.noAvailability": "未找到可用时间段。请重试或直接联系您的医疗机构。",
   "schedule.completed": "您的预约已确认！",
   "schedule.error": "出现问题，请重试。",
 
   "conversation.title": "对话",
   "conversation.subtitle": "本次对话对应就诊日期：{date}",
+  "conversation.agenda.open": "查看就诊议程",
+  "conversation.agenda.title": "就诊议程",
+  "conversation.agenda.hint": "提到一项后将其勾选。",
   "conversation.cancelAndBack": "我不想录音，返回",
 
   "conversation.idle.cta": "点击上方按钮开始录音",
   "conversation.recording.listening": "正在聆听...",
   "conversation.recording.status": "录音中...",
+  "conversation.speakers.title": "谁在说话？",
+  "conversation.speakers.subtitle": "请告诉我们每个声音属于谁，以便摘要正确归属内容。",
+  "conversation.speakers.identifying": "正在区分说话人...",
+  "conversation.speakers.unavailable": "无法区分这段录音中的说话人。摘要将使用未标注的转录文本。",
+  "conversation.speakers.speaker": "说话人 {label}",
+  "conversation.speakers.roleAria": "说话人 {label} 是谁？",
+  "conversation.speakers.role.doctor": "医生",
+  "conversation.speakers.role.patient": "我（患者）",
+  "conversation.speakers.role.other": "其他人",
+  "conversation.speakers.skip": "跳过",
+  "conversation.speakers.continue": "继续",
   "conversation.summary.title": "摘要",
   "conversation.summary.generating": "正在生成摘要...",
   "conversation.summary.noSegments": "未捕获到片段。",
@@ -0,0 +1,19 @@
+import type { AppLocale } from "./locales";
+import { EN_MESSAGES, MESSAGES, type MessageKey } from "./messages";
+
+export type I18nVariables = Record<string, string | number>;
+
+function interpolate(template: string, vars?: I18nVariables): string {
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = vars[key];
+    return value == null ? `{${key}}` : String(value);
+  });
+}
+
+/** Message in the locale (English if it has no translation), with {name} placeholders filled in. */
+export function translate(locale: AppLocale, key: MessageKey, vars?: I18nVariables): string {
+  const localeMessage = MESSAGES[locale]?.[key];
+  const fallback = EN_MESSAGES[key];
+  return interpolate(localeMessage ?? fallback ?? key, vars);
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { ActionItem, Appointment } from "@/lib/firestore/types";
+import { buildAppointmentCalendar, buildCalendar, parseCalendarEvents } from "./ics";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+function actionItem(overrides: Partial<ActionItem> = {}): ActionItem {
+  return {
+    id: "item-1",
+    userId: "user-1",
+    // Midnight in Berlin, still the previous day in UTC.
+    dueBy: new Date("2026-03-09T23:00:00Z"),
+    type: "Medication",
+    title: "Take vitamin D",
+    description: "",
+    status: "pending",
+    priority: "medium",
+    recurrence: "none",
+    ...overrides,
+  };
+}
+
+function appointment(overrides: Partial<Appointment> = {}): Appointment {
+  return {
+    id: "appt-1",
+    userId: "user-1",
+    appointmentTime: new Date("2026-03-12T14:30:00Z"),
+    scheduledOn: new Date("2026-02-20T09:00:00Z"),
+    providerName: "Dr. Lee",
+    clinic: "Main St Clinic",
+    address: "1 Main St, Springfield",
+    reason: "Knee; follow-up",
+    status: "confirmed",
+    notes: "",
+    agenda: [],
+    ...overrides,
+  };
+}
+
+/** Content lines of the calendar, unfolded. */
+function lines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("buildCalendar", () => {
+  it("puts all-day action items on the day of the due date in the user's time zone", () => {
+    const calendar = lines(buildCalendar({ appointments: [], actionItems: [actionItem()] }, { now, timeZone: "Europe/Berlin" }));
+
+    expect(calendar).toContain("DTSTART;VALUE=DATE:20260310");
+    expect(calendar).toContain("DTEND;VALUE=DATE:20260311");
+  });
+
+  it("uses UTC days without a time zone", () => {
+    const calendar = lines(buildCalendar({ appointments: [], actionItems: [actionItem()] }, { now }));
+
+    expect(calendar).toContain("DTSTART;VALUE=DATE:20260309");
+    expect(calendar).toContain("DTEND;VALUE=DATE:20260310");
+  });
+
+  it("repeats recurring items until the last day in the user's time zone", () => {
+    const item = actionItem({
+      recurrence: "weekly",
+      recurrenceRule: {
+        frequency: "weekly",
+        interval: 2,
+        daysOfWeek: [1, 4],
+        until: new Date("2026-04-30T22:00:00Z"),
+      },
+    });
+
+    const calendar = lines(buildCalendar({ appointments: [], actionItems: [item] }, { now, timeZone: "Europe/Berlin" }));
+
+    expect(calendar).toContain("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260501");
+  });
+
+  it("excludes skipped occurrences but keeps done ones", () => {
+    const item = actionItem({
+      recurrence: "daily",
+      recurrenceRule: { frequency: "daily", interval: 1 },
+      occurrenceHistory: {
+        "2026-03-14": { status: "skipped", recordedAt: now },
+        "2026-03-11": { status: "skipped", recordedAt: now },
+        "2026-03-12": { status: "done", recordedAt: now },
+      },
+    });
+
+    const calendar = lines(buildCalendar({ appointments: [], actionItems: [item] }, { now, timeZone: "Europe/Berlin" }));
+
+    expect(calendar).toContain("EXDATE;VALUE=DATE:20260311,20260314");
+  });
+
+  it("leaves out done, skipped and undated action items", () => {
+    const calendar = buildCalendar(
+      {
+        appointments: [],
+        actionItems: [
+          actionItem({ id: "done", status: "done" }),
+          actionItem({ id: "skipped", status: "skipped" }),
+          actionItem({ id: "undated", dueBy: new Date(0) }),
+        ],
+      },
+      { now },
+    );
+
+    expect(calendar).not.toContain("BEGIN:VEVENT");
+  });
+
+  it("publishes appointments as 30-minute UTC events with escaped text", () => {
+    const calendar = lines(buildCalendar({ appointments: [appointment()], actionItems: [] }, { now, timeZone: "Europe/Berlin" }));
+
+    expect(calendar).toEqual(
+      expect.arrayContaining([
+        "UID:appointment-appt-1@hellocare",
+        "DTSTAMP:20260301T120000Z",
+        "DTSTART:20260312T143000Z",
+        "DTEND:20260312T150000Z",
+        "SUMMARY:Dr. Lee – Knee\\; follow-up",
+        "LOCATION:Main St Clinic\\, 1 Main St\\, Springfield",
+        "STATUS:CONFIRMED",
+      ]),
+    );
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const calendar = buildCalendar({ appointments: [appointment({ notes: "Knie – ".repeat(30) })], actionItems: [] }, { now });
+
+    for (const line of calendar.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(calendar).not.toContain("�");
+  });
+});
+
+describe("parseCalendarEvents", () => {
+  it("reads back an appointment event", () => {
+    const [event] = parseCalendarEvents(buildAppointmentCalendar(appointment(), { now }));
+
+    expect(event).toMatchObject({
+      uid: "appointment-appt-1@hellocare",
+      start: new Date("2026-03-12T14:30:00Z"),
+      allDay: false,
+      recurring: false,
+      summary: "Dr. Lee – Knee; follow-up",
+      location: "Main St Clinic, 1 Main St, Springfield",
+      status: "CONFIRMED",
+    });
+    expect(event.extensions["X-HELLOCARE-REASON"]).toBe("Knee; follow-up");
+  });
+
+  it("converts TZID times, reads all-day dates as UTC midnight and skips nested components", () => {
+    const events = parseCalendarEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:timed",
+        "DTSTART;TZID=Europe/Berlin:20260312T090000",
+        "BEGIN:VALARM",
+        "DESCRIPTION:Reminder",
+        "END:VALARM",
+        "SUMMARY:Physio",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:all-day",
+        "DTSTART;VALUE=DATE:20260313",
+        "RRULE:FREQ=DAILY",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    );
+
+    expect(events).toMatchObject([
+      { uid: "timed", start: new Date("2026-03-12T08:00:00Z"), allDay: false, summary: "Physio", description: "" },
+      { uid: "all-day", start: new Date("2026-03-13T00:00:00Z"), allDay: true, recurring: true },
+    ]);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * iCalendar (RFC 5545) for appointments and action item due dates.
+ * Used by the subscribable calendar feed route, by the single-event .ics
+ * download on each appointment card, and by CalDAV sync (lib/caldav), which
+ * also reads events back with parseCalendarEvents.
+ *
+ *   Appointment                    → VEVENT (30 minutes, UTC times)
+ *   ActionItem with a due date     → all-day VEVENT (RRULE when it repeats,
+ *                                    EXDATE for skipped occurrences)
+ *
+ * Due dates are instants; the all-day event falls on the day they show in the
+ * user's time zone, the day the app lists them under.
+ *
+ * UIDs are derived from Firestore ids, so when a calendar app refreshes the feed
+ * (or re-imports a downloaded event) edits replace the existing event and records
+ * that disappear from the feed are removed. Done and skipped action items are left
+ * out, which removes them from subscribed calendars too.
+ *
+ * Appointment events also carry the appointment's fields as X-HELLOCARE-*
+ * properties, so an event read back from a calendar server maps to the same
+ * provider, clinic, reason and notes unless it was edited there.
+ */
+
+import { getRecurrenceRule } from "@/lib/firestore/recurrence";
+import type { ActionItem, Appointment, AppointmentStatus, RecurrenceRule } from "@/lib/firestore/types";
+import { fromWallClock, isValidTimeZone, toWallClock } from "@/lib/time-zone";
+
+/** The parts of a user's record that are published. */
+export type CalendarRecord = {
+  appointments: Appointment[];
+  actionItems: ActionItem[];
+};
+
+const PRODID = "-//HelloCare//Calendar Feed//EN";
+const CALENDAR_NAME = "HelloCare";
+const UID_DOMAIN = "hellocare";
+
+/** Appointments carry no end time; calendar apps need one to draw the event. */
+const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+/** RFC 5545 limits content lines to 75 octets, excluding the CRLF. */
+const MAX_LINE_OCTETS = 75;
+
+/** VEVENT STATUS for each appointment status. */
+export const EVENT_STATUSES: Record<AppointmentStatus, string> = {
+  scheduled: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  cancelled: "CANCELLED",
+  completed: "CONFIRMED",
+  "no-show": "CONFIRMED",
+};
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/** X- properties holding an appointment's fields (see appointmentFromEvent in lib/caldav). */
+export const APPOINTMENT_PROPERTIES = {
+  providerName: "X-HELLOCARE-PROVIDER",
+  clinic: "X-HELLOCARE-CLINIC",
+  address: "X-HELLOCARE-ADDRESS",
+  reason: "X-HELLOCARE-REASON",
+  status: "X-HELLOCARE-STATUS",
+  notes: "X-HELLOCARE-NOTES",
+} as const;
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** Escapes a TEXT value (backslash, semicolon, comma, newline). */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/** Splits a content line into 75-octet chunks without breaking UTF-8 characters. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit.
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+/** UTC date-time, e.g. "20261019T143000Z". */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Date value of the day the instant falls on in the time zone, plus some days; e.g. "20261019". */
+function formatDate(date: Date, timeZone: string, addDays = 0): string {
+  const { year, month, day } = toWallClock(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day + addDays)).toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime()) && date.getTime() > 0;
+}
+
+/** One property line per entry; entries with an empty value are dropped. */
+function properties(entries: [name: string, value: string | undefined][]): string[] {
+  return entries.filter(([, value]) => value).map(([name, value]) => `${name}:${value}`);
+}
+
+// ---------------------------------------------------------------------------
+// Components
+// ---------------------------------------------------------------------------
+
+/** Event title: "provider – reason", falling back to whichever is set. */
+export function appointmentTitle(appointment: Pick<Appointment, "providerName" | "clinic" | "reason">): string {
+  const withWhom = appointment.providerName || appointment.clinic;
+  return [withWhom, appointment.reason].filter(Boolean).join(" – ") || "Appointment";
+}
+
+function appointmentDescription(appointment: Appointment): string {
+  const parts = [
+    appointment.reason,
+    appointment.notes,
+    appointment.agenda.length > 0
+      ? ["Agenda:", ...appointment.agenda.map((item) => `- ${item.text}`)].join("\n")
+      : "",
+  ];
+  return parts.filter(Boolean).join("\n\n");
+}
+
+/** Event location: "clinic, address". */
+export function appointmentLocation(appointment: Pick<Appointment, "clinic" | "address">): string {
+  return [appointment.clinic, appointment.address].filter(Boolean).join(", ");
+}
+
+/** UID of an appointment's event, unless the event came from elsewhere (see AppointmentEventOptions). */
+export function appointmentEventUid(appointmentId: string): string {
+  return `appointment-${appointmentId}@${UID_DOMAIN}`;
+}
+
+export type AppointmentEventOptions = {
+  /** Keep this UID, e.g. for an event first created in the user's calendar app. */
+  uid?: string;
+  now?: Date;
+};
+
+function appointmentToEvent(appointment: Appointment, { uid, now = new Date() }: AppointmentEventOptions): string[] {
+  const start = appointment.appointmentTime;
+  const end = new Date(start.getTime() + DEFAULT_APPOINTMENT_MINUTES * 60_000);
+  const location = appointmentLocation(appointment);
+  const description = appointmentDescription(appointment);
+  return [
+    "BEGIN:VEVENT",
+    ...properties([
+      ["UID", uid ?? appointmentEventUid(appointment.id)],
+      ["DTSTAMP", formatDateTime(now)],
+      ["DTSTART", formatDateTime(start)],
+      ["DTEND", formatDateTime(end)],
+      ["SUMMARY", escapeText(appointmentTitle(appointment))],
+      ["LOCATION", location ? escapeText(location) : undefined],
+      ["DESCRIPTION", description ? escapeText(description) : undefined],
+      ["STATUS", EVENT_STATUSES[appointment.status]],
+      ["CREATED", isValidDate(appointment.scheduledOn) ? formatDateTime(appointment.scheduledOn) : undefined],
+      ...Object.entries(APPOINTMENT_PROPERTIES).map(
+        ([field, name]): [string, string] => [name, escapeText(appointment[field as keyof typeof APPOINTMENT_PROPERTIES])],
+      ),
+    ]),
+    "END:VEVENT",
+  ];
+}
+
+function toRRule(rule: RecurrenceRule, timeZone: string): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (rule.frequency === "weekly" && rule.daysOfWeek?.length) {
+    parts.push(`BYDAY=${rule.daysOfWeek.map((day) => WEEKDAYS[day]).join(",")}`);
+  }
+  if (rule.until && isValidDate(rule.until)) parts.push(`UNTIL=${formatDate(rule.until, timeZone)}`);
+  return parts.join(";");
+}
+
+/** EXDATE value listing the skipped occurrences (occurrenceHistory keys are "YYYY-MM-DD"). */
+function skippedDates(item: ActionItem): string {
+  return Object.entries(item.occurrenceHistory ?? {})
+    .filter(([key, record]) => record.status === "skipped" && /^\d{4}-\d{2}-\d{2}$/.test(key))
+    .map(([key]) => key.replace(/-/g, ""))
+    .sort()
+    .join(",");
+}
+
+function actionItemToEvent(item: ActionItem, now: Date, timeZone: string): string[] {
+  const rule = getRecurrenceRule(item);
+  return [
+    "BEGIN:VEVENT",
+    ...properties([
+      ["UID", `action-item-${item.id}@${UID_DOMAIN}`],
+      ["DTSTAMP", formatDateTime(now)],
+      ["DTSTART;VALUE=DATE", formatDate(item.dueBy, timeZone)],
+      ["DTEND;VALUE=DATE", formatDate(item.dueBy, timeZone, 1)],
+      ["RRULE", rule ? toRRule(rule, timeZone) : undefined],
+      ["EXDATE;VALUE=DATE", rule ? skippedDates(item) : undefined],
+      ["SUMMARY", escapeText(item.title || item.description || "To do")],
+      ["DESCRIPTION", item.description && item.description !== item.title ? escapeText(item.description) : undefined],
+      ["CATEGORIES", item.type ? escapeText(item.type) : undefined],
+      ["PRIORITY", item.priority === "high" ? "1" : undefined],
+      ["TRANSP", "TRANSPARENT"],
+    ]),
+    "END:VEVENT",
+  ];
+}
+
+/** Open action items with a real due date (undated items are stored at the epoch). */
+function isPublishedActionItem(item: ActionItem): boolean {
+  return isValidDate(item.dueBy) && item.status !== "done" && item.status !== "skipped";
+}
+
+function toCalendar(events: string[][]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${CALENDAR_NAME}`,
+    ...events.flat(),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export type CalendarOptions = {
+  now?: Date;
+  /** IANA time zone that decides the day of all-day events; defaults to UTC. */
+  timeZone?: string;
+};
+
+/** Builds the user's calendar feed: every appointment plus open, dated action items. */
+export function buildCalendar(record: CalendarRecord, { now = new Date(), timeZone = "UTC" }: CalendarOptions = {}): string {
+  return toCalendar([
+    ...record.appointments
+      .filter((appointment) => isValidDate(appointment.appointmentTime))
+      .map((appointment) => appointmentToEvent(appointment, { now })),
+    ...record.actionItems.filter(isPublishedActionItem).map((item) => actionItemToEvent(item, now, timeZone)),
+  ]);
+}
+
+/** Builds a calendar holding a single appointment, for a one-off .ics download or a CalDAV upload. */
+export function buildAppointmentCalendar(appointment: Appointment, options: AppointmentEventOptions = {}): string {
+  return toCalendar([appointmentToEvent(appointment, options)]);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** The parts of a VEVENT that CalDAV sync reads. Text values are unescaped; missing ones are "". */
+export type CalendarEvent = {
+  uid: string;
+  /** Start time; for all-day events, UTC midnight of the day. Null if missing or unreadable. */
+  start: Date | null;
+  allDay: boolean;
+  /** Repeating (RRULE/RDATE) or an override of one occurrence (RECURRENCE-ID). */
+  recurring: boolean;
+  summary: string;
+  location: string;
+  description: string;
+  /** STATUS, upper-cased (e.g. "CONFIRMED"). */
+  status: string;
+  /** CATEGORIES values, from every CATEGORIES line. */
+  categories: string[];
+  /** X- properties by name, e.g. "X-HELLOCARE-REASON". */
+  extensions: Record<string, string>;
+};
+
+type ContentLine = { name: string; params: Record<string, string>; value: string };
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/** Splits "NAME;PARAM=a;PARAM2="b:c":value" into its parts; null for malformed lines. */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Reads a DATE or DATE-TIME value. UTC ("Z") and TZID times are converted to
+ * instants; floating times and unknown TZIDs (e.g. Windows zone names) are read
+ * as UTC.
+ */
+function parseDateValue(line: ContentLine): { date: Date; allDay: boolean } | null {
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(line.value);
+  if (dateOnly) {
+    const [, y, m, d] = dateOnly.map(Number);
+    return { date: new Date(Date.UTC(y, m - 1, d)), allDay: true };
+  }
+  const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(line.value);
+  if (!dateTime) return null;
+  const [year, month, day, hour, minute, second] = dateTime.slice(1, 7).map(Number);
+  const wallTime = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  const timeZone = line.params.TZID;
+  if (dateTime[7] || !timeZone || !isValidTimeZone(timeZone)) return { date: wallTime, allDay: false };
+  return { date: fromWallClock({ year, month, day, hour, minute, second }, timeZone), allDay: false };
+}
+
+/** Reads the VEVENTs of an iCalendar object. Nested components (e.g. VALARM) are ignored. */
+export function parseCalendarEvents(text: string): CalendarEvent[] {
+  const lines = text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: CalendarEvent[] = [];
+  let event: CalendarEvent | null = null;
+  /** Depth of components nested inside the current VEVENT. */
+  let nested = 0;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    if (line.name === "BEGIN") {
+      if (event) nested++;
+      else if (line.value.toUpperCase() === "VEVENT") {
+        event = {
+          uid: "",
+          start: null,
+          allDay: false,
+          recurring: false,
+          summary: "",
+          location: "",
+          description: "",
+          status: "",
+          categories: [],
+          extensions: {},
+        };
+      }
+      continue;
+    }
+    if (line.name === "END" && event) {
+      if (nested > 0) nested--;
+      else {
+        events.push(event);
+        event = null;
+      }
+      continue;
+    }
+    if (!event || nested > 0) continue;
+
+    switch (line.name) {
+      case "UID":
+        event.uid = line.value;
+        break;
+      case "DTSTART": {
+        const parsed = parseDateValue(line);
+        event.start = parsed?.date ?? null;
+        event.allDay = parsed?.allDay ?? false;
+        break;
+      }
+      case "RRULE":
+      case "RDATE":
+      case "RECURRENCE-ID":
+        event.recurring = true;
+        break;
+      case "SUMMARY":
+        event.summary = unescapeText(line.value);
+        break;
+      case "LOCATION":
+        event.location = unescapeText(line.value);
+        break;
+      case "DESCRIPTION":
+        event.description = unescapeText(line.value);
+        break;
+      case "STATUS":
+        event.status = line.value.toUpperCase();
+        break;
+      case "CATEGORIES":
+        // Values are separated by commas that aren't escaped.
+        event.categories.push(...line.value.split(/(?<!\\),/).map(unescapeText).filter(Boolean));
+        break;
+      default:
+        if (line.name.startsWith("X-")) event.extensions[line.name] = unescapeText(line.value);
+    }
+  }
+  return events;
+}
@@ -1,7 +1,8 @@
 import { generateText, Output } from "ai";
 import type { z } from "zod";
 
-import { createModel } from "./provider";
+import { createModel, resolveModelConfig } from "./provider";
+import { recordLLMUsage } from "./usage";
 import type {
   StructuredQueryOptions,
   StructuredQueryResult,
@@ -29,7 +30,7 @@ import type {
 export async function queryLLMStructured<TSchema extends z.ZodType>(
   options: StructuredQueryOptions<TSchema>,
 ): Promise<StructuredQueryResult<z.infer<TSchema>>> {
-  const model = await createModel(options.model);
+  const model = await createModel({ task: options.task, model: options.model });
 
   const result = await generateText({
     model,
@@ -45,6 +46,15 @@ export async function queryLLMStructured<TSchema extends z.ZodType>(
     }),
   });
 
+  if (options.tracking) {
+    await recordLLMUsage(options.tracking, {
+      taskName: options.name,
+      task: options.task ?? "extraction",
+      model: resolveModelConfig(options.task ?? "extraction", options.model).modelId,
+      usage: result.usage,
+    });
+  }
+
   // The AI SDK validates the response against the schema at runtime.
   // The cast is needed because TypeScript cannot infer the generic through
   // generateText's complex overload signatures.
@@ -68,7 +78,7 @@ export async function queryLLMStructured<TSchema extends z.ZodType>(
 export async function queryLLMText(
   options: TextQueryOptions,
 ): Promise<TextQueryResult> {
-  const model = await createModel(options.model);
+  const model = await createModel({ task: options.task, model: options.model });
 
   const result = await generateText({
     model,
@@ -79,6 +89,15 @@ export async function queryLLMText(
     }),
   });
 
+  if (options.tracking) {
+    await recordLLMUsage(options.tracking, {
+      taskName: options.name ?? "text",
+      task: options.task ?? "extraction",
+      model: resolveModelConfig(options.task ?? "extraction", options.model).modelId,
+      usage: result.usage,
+    });
+  }
+
   return {
     text: result.text,
     usage: result.usage,
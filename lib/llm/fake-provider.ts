@@ -0,0 +1,104 @@
+import { simulateReadableStream, type LanguageModel } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+
+// ---------------------------------------------------------------------------
+// Script
+// ---------------------------------------------------------------------------
+
+/**
+ * Scripted replies for the fake provider, returned in order and then cycled.
+ * Structured queries expect a JSON string matching their schema.
+ *
+ * Set via `LLM_FAKE_RESPONSES` (JSON array of strings) or `setFakeLLMScript()`.
+ */
+let script: string[] | null = null;
+let cursor = 0;
+
+const DEFAULT_REPLY = "This is a scripted reply from the fake LLM provider.";
+
+/** Replace the fake provider's script and rewind it to the first reply. */
+export function setFakeLLMScript(replies: string[]): void {
+  script = replies;
+  cursor = 0;
+}
+
+function loadScript(): string[] {
+  if (script) return script;
+  const raw = process.env.LLM_FAKE_RESPONSES;
+  if (!raw) return [DEFAULT_REPLY];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (Array.isArray(parsed) && parsed.every((r) => typeof r === "string")) {
+      script = parsed;
+      return script;
+    }
+  } catch {
+    /* fall through */
+  }
+  throw new Error("LLM_FAKE_RESPONSES must be a JSON array of strings.");
+}
+
+function nextReply(): string {
+  const replies = loadScript();
+  const reply = replies[cursor % replies.length] ?? DEFAULT_REPLY;
+  cursor += 1;
+  return reply;
+}
+
+/** Rough token estimate (~4 chars per token) so usage accounting has numbers to work with. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildUsage(promptText: string, reply: string) {
+  const input = estimateTokens(promptText);
+  const output = estimateTokens(reply);
+  return {
+    inputTokens: { total: input, noCache: input, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: output, text: output, reasoning: undefined },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates an offline `LanguageModel` that replays the scripted replies.
+ * Supports both `generateText` and `streamText`; never calls tools.
+ */
+export function createFakeModel(modelId: string): LanguageModel {
+  return new MockLanguageModelV3({
+    provider: "fake",
+    modelId,
+    doGenerate: async (options) => {
+      const reply = nextReply();
+      return {
+        content: [{ type: "text", text: reply }],
+        finishReason: { unified: "stop", raw: undefined },
+        usage: buildUsage(JSON.stringify(options.prompt), reply),
+        warnings: [],
+      };
+    },
+    doStream: async (options) => {
+      const reply = nextReply();
+      const words = reply.split(/(?<=\s)/);
+      return {
+        stream: simulateReadableStream({
+          chunkDelayInMs: 20,
+          chunks: [
+            { type: "stream-start" as const, warnings: [] },
+            { type: "text-start" as const, id: "fake-text" },
+            ...words.map((delta) => ({ type: "text-delta" as const, id: "fake-text", delta })),
+            { type: "text-end" as const, id: "fake-text" },
+            {
+              type: "finish" as const,
+              finishReason: { unified: "stop" as const, raw: undefined },
+              usage: buildUsage(JSON.stringify(options.prompt), reply),
+            },
+          ],
+        }),
+      };
+    },
+  });
+}
@@ -1,10 +1,30 @@
 // Provider
-export { createModel } from "./provider";
-export type { LLMProviderName } from "./provider";
+export { createModel, resolveModelConfig, LLM_TASKS } from "./provider";
+export type { LLMProviderName, LLMTask, ModelConfig, CreateModelOptions } from "./provider";
+export { setFakeLLMScript } from "./fake-provider";
 
 // Client helpers
 export { queryLLMStructured, queryLLMText } from "./client";
 
+// Usage ledger & quotas
+export {
+  recordLLMUsage,
+  getUsageTotals,
+  getDailyUsage,
+  getLLMQuota,
+  checkLLMQuota,
+} from "./usage";
+export type {
+  LLMUsageContext,
+  LLMUsageEntry,
+  LLMUsageTask,
+  LLMUsageTotals,
+  LLMQuota,
+  QuotaCheck,
+} from "./usage";
+export { MODEL_PRICES, getModelPrice, estimateCostUsd } from "./pricing";
+export type { ModelPrice } from "./pricing";
+
 // Types
 export type {
   StructuredQueryOptions,
@@ -0,0 +1,37 @@
+import type { LanguageModelUsage } from "ai";
+import { describe, expect, it } from "vitest";
+import { estimateCostUsd, getModelPrice } from "./pricing";
+
+function usage(inputTokens: number | undefined, outputTokens: number | undefined): LanguageModelUsage {
+  return { inputTokens, outputTokens, totalTokens: undefined } as LanguageModelUsage;
+}
+
+describe("getModelPrice", () => {
+  it("matches model ids exactly", () => {
+    expect(getModelPrice("gpt-4o")).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it("resolves dated snapshots to the longest matching prefix", () => {
+    expect(getModelPrice("gpt-4o-2024-08-06")).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPrice("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice("gpt-4.1-mini-2025-04-14")).toEqual({ input: 0.4, output: 1.6 });
+  });
+
+  it("returns null for unknown models", () => {
+    expect(getModelPrice("llama3.1:8b")).toBeNull();
+  });
+});
+
+describe("estimateCostUsd", () => {
+  it("prices input and output tokens per million", () => {
+    expect(estimateCostUsd("claude-sonnet-4-20250514", usage(1_000_000, 500_000))).toBeCloseTo(3 + 7.5);
+  });
+
+  it("treats missing token counts as zero", () => {
+    expect(estimateCostUsd("gpt-4o", usage(undefined, 1000))).toBeCloseTo(0.01);
+  });
+
+  it("costs nothing for unknown (self-hosted) models", () => {
+    expect(estimateCostUsd("local-model", usage(10_000, 10_000))).toBe(0);
+  });
+});
@@ -0,0 +1,45 @@
+import type { LanguageModelUsage } from "ai";
+
+/** Price per 1M tokens, in USD. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Estimated list prices per model id. Used for the usage ledger's cost
+ * estimates, not billing. Entries match exactly or as a prefix of the model id
+ * (so dated snapshots like "gpt-4o-2024-08-06" resolve to "gpt-4o").
+ * Unknown models (self-hosted, fake) are priced at zero.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  // Embeddings bill input tokens only.
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+/** Looks up the price for a model id (longest matching prefix), or null if unknown. */
+export function getModelPrice(modelId: string): ModelPrice | null {
+  if (MODEL_PRICES[modelId]) return MODEL_PRICES[modelId];
+  const match = Object.keys(MODEL_PRICES)
+    .filter((key) => modelId.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : null;
+}
+
+/** Estimated cost in USD for a call's token usage. */
+export function estimateCostUsd(modelId: string, usage: LanguageModelUsage): number {
+  const price = getModelPrice(modelId);
+  if (!price) return 0;
+  const input = usage.inputTokens ?? 0;
+  const output = usage.outputTokens ?? 0;
+  return (input * price.input + output * price.output) / 1_000_000;
+}
@@ -1,59 +1,50 @@
 import type { LanguageModel } from "ai";
 
 /** Supported LLM provider identifiers. */
-export type LLMProviderName = "openai" | "anthropic";
-
-/** Default model id for each provider. */
-const DEFAULT_MODELS: Record<LLMProviderName, string> = {
-  openai: "gpt-4o-mini",
-  anthropic: "claude-sonnet-4-20250514",
-};
-
-const SUPPORTED_PROVIDERS = Object.keys(DEFAULT_MODELS) as LLMProviderName[];
+export type LLMProviderName = "openai" | "anthropic" | "openai-compatible" | "fake";
 
 /**
- * Creates a `LanguageModel` instance from environment configuration.
- *
- * Provider: `LLM_PROVIDER` env var (default `"openai"`).
- * Model:    `LLM_MODEL` env var, or the provider's default.
- *
- * @param overrideModel – Optional model id that takes priority over env/defaults.
- *
- * @example
- * ```ts
- * // Uses env config (defaults to openai / gpt-4o-mini)
- * const model = await createModel();
- *
- * // Explicit override
- * const model = await createModel("gpt-4o");
- * ```
+ * What a model is used for. Each task can be pointed at a different
+ * provider/model in config (e.g. a cheap chat model and a vision model).
  */
-export async function createModel(
-  overrideModel?: string,
-): Promise<LanguageModel> {
-  const providerName = (process.env.LLM_PROVIDER ?? "openai") as string;
+export type LLMTask = "chat" | "extraction" | "vision";
 
-  if (!SUPPORTED_PROVIDERS.includes(providerName as LLMProviderName)) {
-    throw new Error(
-      `Unsupported LLM provider: "${providerName}". ` +
-        `Set LLM_PROVIDER to one of: ${SUPPORTED_PROVIDERS.join(", ")}`,
-    );
-  }
+export const LLM_TASKS: readonly LLMTask[] = ["chat", "extraction", "vision"];
 
-  const provider = providerName as LLMProviderName;
-  const modelId =
-    overrideModel ?? process.env.LLM_MODEL ?? DEFAULT_MODELS[provider];
+/** Resolved provider + model for a task. */
+export interface ModelConfig {
+  provider: LLMProviderName;
+  modelId: string;
+}
+
+interface ProviderEntry {
+  /** Default model id per task; undefined means the model must be configured. */
+  defaultModels: Record<LLMTask, string | undefined>;
+  create: (modelId: string) => Promise<LanguageModel>;
+}
 
-  switch (provider) {
-    case "openai": {
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const PROVIDERS: Record<LLMProviderName, ProviderEntry> = {
+  openai: {
+    defaultModels: { chat: "gpt-4o-mini", extraction: "gpt-4o-mini", vision: "gpt-4o" },
+    create: async (modelId) => {
       const { openai } = await import("@ai-sdk/openai");
       return openai(modelId);
-    }
+    },
+  },
 
-    case "anthropic": {
+  anthropic: {
+    defaultModels: {
+      chat: "claude-sonnet-4-20250514",
+      extraction: "claude-sonnet-4-20250514",
+      vision: "claude-sonnet-4-20250514",
+    },
+    create: async (modelId) => {
       try {
         // Optional peer dependency — only required when LLM_PROVIDER=anthropic.
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
         const { anthropic } = await import("@ai-sdk/anthropic");
         return anthropic(modelId);
       } catch {
@@ -62,6 +53,112 @@ export async function createModel(
             "Run: npm install @ai-sdk/anthropic",
         );
       }
-    }
+    },
+  },
+
+  // Self-hosted OpenAI-compatible servers (Ollama, vLLM, LM Studio, …).
+  // Uses the Chat Completions API, which these servers implement.
+  "openai-compatible": {
+    defaultModels: { chat: undefined, extraction: undefined, vision: undefined },
+    create: async (modelId) => {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          'LLM_BASE_URL is required when using the "openai-compatible" provider ' +
+            "(e.g. http://localhost:11434/v1 for Ollama).",
+        );
+      }
+      const { createOpenAI } = await import("@ai-sdk/openai");
+      const provider = createOpenAI({
+        baseURL,
+        // Most local servers ignore the key, but the SDK requires one.
+        apiKey: process.env.LLM_API_KEY ?? "not-needed",
+        name: "openai-compatible",
+      });
+      return provider.chat(modelId);
+    },
+  },
+
+  // Offline, scripted replies for local development and tests.
+  fake: {
+    defaultModels: { chat: "fake-chat", extraction: "fake-extraction", vision: "fake-vision" },
+    create: async (modelId) => {
+      const { createFakeModel } = await import("./fake-provider");
+      return createFakeModel(modelId);
+    },
+  },
+};
+
+const SUPPORTED_PROVIDERS = Object.keys(PROVIDERS) as LLMProviderName[];
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+function parseProvider(value: string, envName: string): LLMProviderName {
+  if (!SUPPORTED_PROVIDERS.includes(value as LLMProviderName)) {
+    throw new Error(
+      `Unsupported LLM provider: "${value}". ` +
+        `Set ${envName} to one of: ${SUPPORTED_PROVIDERS.join(", ")}`,
+    );
+  }
+  return value as LLMProviderName;
+}
+
+/**
+ * Resolves the provider and model id for a task from environment configuration.
+ *
+ * Provider: `LLM_<TASK>_PROVIDER`, else `LLM_PROVIDER` (default `"openai"`).
+ * Model:    `LLM_<TASK>_MODEL`, else `LLM_MODEL`, else the provider's default for the task.
+ *
+ * `<TASK>` is `CHAT`, `EXTRACTION` or `VISION`.
+ */
+export function resolveModelConfig(task: LLMTask, overrideModel?: string): ModelConfig {
+  const prefix = `LLM_${task.toUpperCase()}`;
+
+  const taskProvider = process.env[`${prefix}_PROVIDER`];
+  const provider = taskProvider
+    ? parseProvider(taskProvider, `${prefix}_PROVIDER`)
+    : parseProvider(process.env.LLM_PROVIDER ?? "openai", "LLM_PROVIDER");
+
+  const modelId =
+    overrideModel ??
+    process.env[`${prefix}_MODEL`] ??
+    process.env.LLM_MODEL ??
+    PROVIDERS[provider].defaultModels[task];
+
+  if (!modelId) {
+    throw new Error(
+      `No model configured for the "${task}" task with provider "${provider}". ` +
+        `Set ${prefix}_MODEL or LLM_MODEL.`,
+    );
   }
+
+  return { provider, modelId };
+}
+
+/** Options for {@link createModel}. */
+export interface CreateModelOptions {
+  /** Task the model is used for; selects the per-task config. Defaults to `"extraction"`. */
+  task?: LLMTask;
+  /** Model id that takes priority over env/defaults. */
+  model?: string;
+}
+
+/**
+ * Creates a `LanguageModel` instance for a task from the provider registry.
+ * Every LLM call in the app should obtain its model here.
+ *
+ * @example
+ * ```ts
+ * // Uses env config for chat (defaults to openai / gpt-4o-mini)
+ * const model = await createModel({ task: "chat" });
+ *
+ * // Explicit override
+ * const model = await createModel({ task: "vision", model: "gpt-4o" });
+ * ```
+ */
+export async function createModel(options: CreateModelOptions = {}): Promise<LanguageModel> {
+  const { provider, modelId } = resolveModelConfig(options.task ?? "extraction", options.model);
+  return PROVIDERS[provider].create(modelId);
 }
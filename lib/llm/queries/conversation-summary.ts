@@ -1,6 +1,7 @@
 import { z } from "zod";
 
 import { queryLLMStructured } from "../client";
+import type { LLMUsageContext } from "../usage";
 
 // ---------------------------------------------------------------------------
 // Schema
@@ -28,7 +29,7 @@ export type ConversationSummaryContent = z.infer<
 // ---------------------------------------------------------------------------
 
 function buildConversationSummaryPrompt(transcript: string, languageTag: string): string {
-  return `You are a medical documentation specialist. You will receive a raw transcript of a doctor-patient conversation. The transcript does not have speaker labels — your job is to infer who is speaking (the doctor or the patient) based on conversational context and produce a polished, speaker-attributed summary.
+  return `You are a medical documentation specialist. You will receive a raw transcript of a doctor-patient conversation and produce a polished, speaker-attributed summary. Some transcripts have speaker labels confirmed by the patient (lines starting with "Doctor:", "Patient:", "Other speaker:" or "Speaker A:"); others have none, and you must infer who is speaking (the doctor or the patient) from conversational context.
 
 Preferred output language: ${languageTag}
 
@@ -54,6 +55,7 @@ When in doubt, ask: "Would this bullet point help another clinician or the patie
 
 ## Speaker identification guidelines
 
+- Lines labelled "Doctor:" or "Patient:" were confirmed by the patient — trust these labels over your own inference. "Other speaker:" is someone else present (e.g. a caregiver or interpreter); attribute their statements as such (e.g. "The patient's companion…"). For "Speaker X:" lines or unlabelled text, use the guidelines below.
 - Statements describing symptoms, concerns, or personal history are almost always the **patient**.
 - Statements giving medical advice, ordering tests, prescribing medication, or explaining diagnoses are almost always the **doctor**.
 - If a statement is genuinely ambiguous, attribute it to the most likely speaker based on surrounding context. Do NOT leave any bullet point unattributed.
@@ -95,14 +97,16 @@ ${transcript}
  * Produces a polished, speaker-attributed bullet-point summary of a
  * doctor-patient conversation transcript using an LLM.
  *
- * The LLM infers speaker identity (doctor vs patient) from context and
- * returns an array of clean, standalone summary sentences.
+ * Speaker labels in the transcript (see formatSpeakerTranscript) are trusted;
+ * otherwise the LLM infers speaker identity (doctor vs patient) from context.
+ * Returns an array of clean, standalone summary sentences.
  *
- * @param transcript – Full conversation transcript text (no speaker labels).
+ * @param transcript – Full conversation transcript text, with or without speaker labels.
  */
 export async function extractConversationSummary(
   transcript: string,
   languageTag: string = "en-US",
+  tracking?: LLMUsageContext,
 ): Promise<ConversationSummaryContent> {
   const { output } = await queryLLMStructured({
     name: "ConversationSummary",
@@ -110,6 +114,7 @@ export async function extractConversationSummary(
       "Polished, speaker-attributed bullet-point summary of a doctor-patient conversation",
     schema: conversationSummarySchema,
     prompt: buildConversationSummaryPrompt(transcript, languageTag),
+    tracking,
   });
 
   return output;
@@ -1,7 +1,8 @@
 import { generateText, Output } from "ai";
 import { z } from "zod";
 
-import { createModel } from "../provider";
+import { createModel, resolveModelConfig } from "../provider";
+import { recordLLMUsage, type LLMUsageContext } from "../usage";
 
 // ---------------------------------------------------------------------------
 // Schema
@@ -40,19 +41,22 @@ const USER_PROMPT =
 
 /**
  * Produces a structured summary from one or more document images using a
- * vision-capable LLM. Use a model that supports images (e.g. gpt-4o).
+ * vision-capable LLM. Uses the "vision" task model (LLM_VISION_MODEL), which
+ * must support images (e.g. gpt-4o).
  *
  * @param imageBase64List – Array of base64-encoded image strings (no data URL prefix required; can include "data:image/...;base64,").
+ * @param tracking        – When set, the call is recorded to this user's usage ledger.
  */
 export async function extractDocumentSummaryFromImages(
-  imageBase64List: string[]
+  imageBase64List: string[],
+  tracking?: LLMUsageContext,
 ): Promise<DocumentSummaryOutput> {
   if (imageBase64List.length === 0) {
     return { summary: "No images provided." };
   }
 
-  console.log("[document-from-images] createModel('gpt-4o')…");
-  const model = await createModel("gpt-4o");
+  console.log("[document-from-images] createModel({ task: 'vision' })…");
+  const model = await createModel({ task: "vision" });
   console.log("[document-from-images] model created, building content for", imageBase64List.length, "images");
 
   const content: Array<
@@ -65,7 +69,7 @@ export async function extractDocumentSummaryFromImages(
     content.push({ type: "image" as const, image: base64, mediaType: "image/jpeg" });
   }
 
-  console.log("[document-from-images] calling generateText (OpenAI/LLM)…");
+  console.log("[document-from-images] calling generateText…");
   const result = await generateText({
     model,
     system: SYSTEM_PROMPT,
@@ -77,6 +81,15 @@ export async function extractDocumentSummaryFromImages(
     }),
   });
 
+  if (tracking) {
+    await recordLLMUsage(tracking, {
+      taskName: "DocumentSummary",
+      task: "vision",
+      model: resolveModelConfig("vision").modelId,
+      usage: result.usage,
+    });
+  }
+
   const output = result.output as DocumentSummaryOutput;
   console.log("[document-from-images] generateText returned", {
     hasOutput: !!output,
@@ -1,6 +1,7 @@
 import { z } from "zod";
 
 import { queryLLMStructured } from "../client";
+import type { LLMUsageContext } from "../usage";
 
 // ---------------------------------------------------------------------------
 // Schema
@@ -65,6 +66,7 @@ When status is "NOT_ENOUGH_DATA", use empty strings for type, title, and descrip
 export async function extractHealthNoteFromTranscript(
   transcript: string,
   languageTag: string = "en-US",
+  tracking?: LLMUsageContext,
 ): Promise<HealthNoteContent> {
   const { output } = await queryLLMStructured({
     name: "HealthNote",
@@ -72,6 +74,7 @@ export async function extractHealthNoteFromTranscript(
       "A structured health note extracted from a voice transcript, or NOT_ENOUGH_DATA if extraction is not possible",
     schema: healthNoteContentSchema,
     prompt: `${buildHealthNotePrompt(transcript)}\n\nWrite the output text fields in ${languageTag}.`,
+    tracking,
   });
 
   return output;
@@ -0,0 +1,136 @@
+import { z } from "zod";
+
+import { AGENDA_CATEGORIES, isOverdue, type VisitPrepContext } from "@/lib/visit-prep";
+import { queryLLMStructured } from "../client";
+import type { LLMUsageContext } from "../usage";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const agendaItemOutputSchema = z.object({
+  category: z
+    .enum(AGENDA_CATEGORIES)
+    .describe(
+      "What the point is about: 'symptom' for health notes, 'actionItem' for open or overdue tasks, 'medication' for medication questions, 'document' for uploaded documents, 'other' for anything else.",
+    ),
+  text: z
+    .string()
+    .describe(
+      "The point to raise, written from the patient's perspective as one short sentence or question (under 25 words).",
+    ),
+});
+
+const visitPrepSchema = z.object({
+  status: z
+    .enum(["ok", "NOT_ENOUGH_DATA"])
+    .describe(
+      "Use 'NOT_ENOUGH_DATA' when the records contain nothing worth raising at the appointment. Use 'ok' otherwise.",
+    ),
+  agenda: z
+    .array(agendaItemOutputSchema)
+    .describe(
+      "Agenda items, most important first. Return empty array when status is NOT_ENOUGH_DATA.",
+    ),
+});
+
+export type VisitPrepContent = z.infer<typeof visitPrepSchema>;
+
+// ---------------------------------------------------------------------------
+// Prompt
+// ---------------------------------------------------------------------------
+
+function formatDay(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function formatRecords(context: VisitPrepContext, now: Date): string {
+  const section = (title: string, lines: string[]) =>
+    `### ${title}\n${lines.length > 0 ? lines.join("\n") : "(none)"}`;
+  return [
+    section(
+      "Health notes since the last visit",
+      context.healthNotes.map(
+        (note) => `- ${formatDay(note.date)} (${note.type}): ${note.title}. ${note.description}`,
+      ),
+    ),
+    section(
+      "Open action items",
+      context.actionItems.map(
+        (item) =>
+          `- ${item.title}${isOverdue(item, now) ? ` [OVERDUE since ${formatDay(item.dueBy)}]` : ""}: ${item.description}`,
+      ),
+    ),
+    section(
+      "Current medications",
+      context.medications.map(
+        ({ medication, recurrence, description }) =>
+          `- ${medication.name} ${medication.dose} ${medication.dosageUnit}, ${medication.route} (${recurrence}): ${description}`,
+      ),
+    ),
+    section(
+      "Documents added since the last visit",
+      context.documents.map((document) => `- ${formatDay(document.uploadedAt)}: ${document.summary}`),
+    ),
+  ].join("\n\n");
+}
+
+function buildVisitPrepPrompt(context: VisitPrepContext, languageTag: string, now: Date): string {
+  return `You are helping a patient prepare for an upcoming doctor's appointment. Patients often forget what they meant to bring up; your task is to turn their records into a short visit agenda they can go through with the doctor.
+
+Today's date: ${formatDay(now)}
+Appointment date: ${formatDay(context.appointmentTime)}
+Last visit: ${context.lastSession ? `${formatDay(context.lastSession.date)} — ${context.lastSession.title}. ${context.lastSession.summary}` : "none on record"}
+Preferred output language: ${languageTag}
+
+## What to include
+
+1. **Symptoms** — health notes since the last visit worth reporting: new, recurring, or worsening problems. Mention when they started or how often they happen if the note says so.
+2. **Action items** — open tasks the doctor should know about, especially overdue ones (e.g. a lab test not yet done, a referral not yet booked). Phrase these as an update or a question.
+3. **Medication questions** — for current medications, questions the patient may want to ask: side effects mentioned in health notes, whether to continue, refills, or how to take them. Only suggest a question when the records give a reason for it.
+4. **Documents** — results or letters added since the last visit that the doctor should review or explain.
+
+## Rules
+
+1. Use ONLY the records below. Do NOT invent symptoms, results, medications, or dates.
+2. Write each item from the patient's perspective ("I have had headaches most mornings since…", "Should I keep taking…?").
+3. Combine records about the same problem into one item.
+4. Order items by importance: worsening or urgent symptoms and overdue items first.
+5. Keep the agenda short enough to go through in one visit: at most 10 items.
+6. Do NOT give medical advice or diagnoses; the agenda is what to ask, not the answers.
+7. If the records contain nothing worth raising, return status "NOT_ENOUGH_DATA" with an empty agenda.
+
+## Records
+
+${formatRecords(context, now)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Query
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds a pre-visit agenda from the patient's records since their last visit
+ * using an LLM.
+ *
+ * Returns agenda items (most important first), or a NOT_ENOUGH_DATA sentinel
+ * if there is nothing worth raising.
+ *
+ * @param context – Records selected for the appointment (see selectVisitPrepContext).
+ */
+export async function generateVisitPrepBrief(
+  context: VisitPrepContext,
+  languageTag: string = "en-US",
+  tracking?: LLMUsageContext,
+): Promise<VisitPrepContent> {
+  const { output } = await queryLLMStructured({
+    name: "VisitPrepBrief",
+    description:
+      "Agenda of symptoms, open action items, medication questions and documents for a patient to raise at an upcoming appointment",
+    schema: visitPrepSchema,
+    prompt: buildVisitPrepPrompt(context, languageTag, new Date()),
+    tracking,
+  });
+
+  return output;
+}
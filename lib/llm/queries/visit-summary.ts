@@ -1,6 +1,7 @@
 import { z } from "zod";
 
 import { queryLLMStructured } from "../client";
+import type { LLMUsageContext } from "../usage";
 
 // ---------------------------------------------------------------------------
 // Schemas
@@ -104,6 +105,8 @@ Today's date: ${new Date().toISOString().split("T")[0]}
 Visit date: ${visitDate}
 Preferred output language: ${languageTag}
 
+The transcript may have speaker labels confirmed by the patient ("Doctor:", "Patient:", "Other speaker:"). When present, use them: action items come from what the doctor instructed or recommended, not from what the patient merely mentioned or asked about.
+
 ## Task 1: Discussion Topics
 
 Extract every distinct medical topic or concern that was discussed during the visit. Each entry must be a concise phrase (2–5 words) capturing the essence of the topic.
@@ -159,7 +162,8 @@ ${transcript}
  * for the patient, or a NOT_ENOUGH_DATA sentinel if the transcript is
  * insufficient.
  *
- * @param transcript  – Full conversation transcript text.
+ * @param transcript  – Full conversation transcript text, optionally with
+ *                      speaker labels (see formatSpeakerTranscript).
  * @param visitDate   – ISO 8601 date of the visit (YYYY-MM-DD), used for
  *                      resolving relative timeframes in the conversation.
  */
@@ -167,6 +171,7 @@ export async function extractVisitSummaryFromTranscript(
   transcript: string,
   visitDate: string,
   languageTag: string = "en-US",
+  tracking?: LLMUsageContext,
 ): Promise<VisitSummaryContent> {
   const { output } = await queryLLMStructured({
     name: "VisitSummary",
@@ -174,6 +179,7 @@ export async function extractVisitSummaryFromTranscript(
       "Structured visit summary with discussion topics and patient action items extracted from a doctor-patient conversation transcript",
     schema: visitSummarySchema,
     prompt: buildVisitSummaryPrompt(transcript, visitDate, languageTag),
+    tracking,
   });
 
   return output;
@@ -1,6 +1,9 @@
 import type { LanguageModelUsage } from "ai";
 import type { z } from "zod";
 
+import type { LLMTask } from "./provider";
+import type { LLMUsageContext } from "./usage";
+
 // Re-export for consumers that don't want to depend on `ai` directly.
 export type { LanguageModelUsage };
 
@@ -20,10 +23,14 @@ export interface StructuredQueryOptions<T extends z.ZodType> {
   prompt: string;
   /** Optional system message to set LLM behavior/persona. */
   system?: string;
+  /** Task used to pick the configured provider/model. Defaults to "extraction". */
+  task?: LLMTask;
   /** Override the model id (e.g. "gpt-4o", "claude-sonnet-4-20250514"). Falls back to env config. */
   model?: string;
   /** Sampling temperature (0–2). Lower values are more deterministic. */
   temperature?: number;
+  /** When set, the call is recorded to this user's usage ledger. */
+  tracking?: LLMUsageContext;
 }
 
 /** Result of a structured LLM query. */
@@ -44,10 +51,16 @@ export interface TextQueryOptions {
   prompt: string;
   /** Optional system message to set LLM behavior/persona. */
   system?: string;
+  /** Task used to pick the configured provider/model. Defaults to "extraction". */
+  task?: LLMTask;
   /** Override the model id. Falls back to env config. */
   model?: string;
   /** Sampling temperature (0–2). */
   temperature?: number;
+  /** Task name recorded in the usage ledger. Defaults to "text". */
+  name?: string;
+  /** When set, the call is recorded to this user's usage ledger. */
+  tracking?: LLMUsageContext;
 }
 
 /** Result of a plain text LLM query. */
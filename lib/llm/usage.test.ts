@@ -0,0 +1,165 @@
+import type { LanguageModelUsage } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { checkLLMQuota, getDailyUsage, recordLLMUsage } from "./usage";
+
+vi.mock("firebase-admin/firestore", () => ({
+  FieldValue: { increment: (n: number) => ({ increment: n }) },
+}));
+
+vi.mock("@/lib/firebase-admin", () => ({ getAdminDb: () => db }));
+
+/** Just enough of the Admin Firestore API for the ledger: doc paths, merge sets and batches. */
+const docs = new Map<string, Record<string, unknown>>();
+let commitError: Error | null = null;
+let nextId = 0;
+
+function docRef(path: string) {
+  return {
+    path,
+    collection: (name: string) => collectionRef(`${path}/${name}`),
+    get: async () => snapshot(path),
+  };
+}
+
+function collectionRef(path: string) {
+  return { doc: (id = `auto-${nextId++}`) => docRef(`${path}/${id}`) };
+}
+
+function snapshot(path: string) {
+  const data = docs.get(path);
+  return { exists: data !== undefined, data: () => data };
+}
+
+function applySet(path: string, data: Record<string, unknown>, merge: boolean) {
+  const next: Record<string, unknown> = merge ? { ...docs.get(path) } : {};
+  for (const [key, value] of Object.entries(data)) {
+    const increment = (value as { increment?: number } | null)?.increment;
+    next[key] = typeof increment === "number" ? ((next[key] as number | undefined) ?? 0) + increment : value;
+  }
+  docs.set(path, next);
+}
+
+const db = {
+  collection: (name: string) => collectionRef(name),
+  getAll: async (...refs: Array<{ path: string }>) => refs.map((ref) => snapshot(ref.path)),
+  batch() {
+    const writes: Array<() => void> = [];
+    return {
+      set(ref: { path: string }, data: Record<string, unknown>, options?: { merge?: boolean }) {
+        writes.push(() => applySet(ref.path, data, options?.merge ?? false));
+      },
+      async commit() {
+        if (commitError) throw commitError;
+        writes.forEach((write) => write());
+      },
+    };
+  },
+};
+
+function usage(inputTokens: number, outputTokens: number): LanguageModelUsage {
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } as LanguageModelUsage;
+}
+
+const context = { userId: "user-1", route: "/api/chat" };
+
+describe("recordLLMUsage", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-14T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    docs.clear();
+    commitError = null;
+  });
+
+  it("appends a ledger entry and adds the call to the day and month totals", async () => {
+    await recordLLMUsage(context, { taskName: "chat", task: "chat", model: "gpt-4o", usage: usage(1000, 500) });
+    await recordLLMUsage(context, { taskName: "chat", task: "chat", model: "gpt-4o", usage: usage(2000, 0) });
+
+    const entries = [...docs.keys()].filter((path) => path.startsWith("users/user-1/llmUsage/"));
+    expect(entries).toHaveLength(2);
+    expect(docs.get(entries[0])).toMatchObject({ model: "gpt-4o", inputTokens: 1000, outputTokens: 500, costUsd: 0.0075 });
+
+    const day = docs.get("users/user-1/llmUsageTotals/day-2026-03-14");
+    expect(day).toMatchObject({ period: "2026-03-14", calls: 2, inputTokens: 3000, outputTokens: 500, totalTokens: 3500 });
+    expect(day?.costUsd).toBeCloseTo(0.0125);
+    expect(docs.get("users/user-1/llmUsageTotals/month-2026-03")).toMatchObject({ period: "2026-03", calls: 2 });
+  });
+
+  it("does not fail the caller when the ledger write fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    commitError = new Error("unavailable");
+
+    await expect(
+      recordLLMUsage(context, { taskName: "chat", task: "chat", model: "gpt-4o", usage: usage(10, 10) }),
+    ).resolves.toBeUndefined();
+    expect(docs.size).toBe(0);
+  });
+});
+
+describe("getDailyUsage", () => {
+  afterEach(() => {
+    docs.clear();
+  });
+
+  it("returns every day in the window, oldest first, with zeros for days without usage", async () => {
+    docs.set("users/user-1/llmUsageTotals/day-2026-03-13", { calls: 3, totalTokens: 900, costUsd: 0.02 });
+
+    const days = await getDailyUsage("user-1", 3, new Date("2026-03-14T10:00:00Z"));
+
+    expect(days.map((d) => [d.date, d.calls])).toEqual([
+      ["2026-03-12", 0],
+      ["2026-03-13", 3],
+      ["2026-03-14", 0],
+    ]);
+  });
+});
+
+describe("checkLLMQuota", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-14T10:00:00Z"));
+    docs.set("users/user-1/llmUsageTotals/month-2026-03", { calls: 40, totalTokens: 120_000, costUsd: 4.5 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    docs.clear();
+  });
+
+  it("allows everything when no quota is configured", async () => {
+    vi.stubEnv("LLM_MONTHLY_QUOTA_USD", "");
+    vi.stubEnv("LLM_MONTHLY_QUOTA_TOKENS", "");
+
+    expect(await checkLLMQuota("user-1")).toMatchObject({ ok: true, quota: { monthlyUsd: null, monthlyTokens: null } });
+  });
+
+  it("stops the user at the default monthly dollar quota", async () => {
+    vi.stubEnv("LLM_MONTHLY_QUOTA_USD", "4.5");
+
+    expect(await checkLLMQuota("user-1")).toMatchObject({
+      ok: false,
+      reason: "Monthly AI usage limit of $4.50 reached.",
+    });
+  });
+
+  it("stops the user at the monthly token quota", async () => {
+    vi.stubEnv("LLM_MONTHLY_QUOTA_TOKENS", "100000");
+
+    expect(await checkLLMQuota("user-1")).toMatchObject({
+      ok: false,
+      reason: "Monthly AI usage limit of 100,000 tokens reached.",
+    });
+  });
+
+  it("prefers the user's own quota over the default", async () => {
+    vi.stubEnv("LLM_MONTHLY_QUOTA_USD", "1");
+    docs.set("_llmQuotas/user-1", { monthlyUsd: 10 });
+
+    expect(await checkLLMQuota("user-1")).toMatchObject({ ok: true, quota: { monthlyUsd: 10 } });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Per-user LLM usage ledger and monthly quotas (server-side, Admin SDK).
+ *
+ * Firestore layout:
+ *   users/{uid}/llmUsage/{entryId}          – one entry per LLM call (append-only)
+ *   users/{uid}/llmUsageTotals/{periodId}   – running totals; periodId is
+ *                                             "day-YYYY-MM-DD" or "month-YYYY-MM" (UTC)
+ *   _llmQuotas/{uid}                        – optional per-user monthly quota override
+ *
+ * The default monthly quota comes from LLM_MONTHLY_QUOTA_USD and/or
+ * LLM_MONTHLY_QUOTA_TOKENS; leave both unset for no quota.
+ */
+
+import type { LanguageModelUsage } from "ai";
+import { FieldValue, type DocumentData } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { estimateCostUsd } from "./pricing";
+import type { LLMTask } from "./provider";
+
+/** Who and where an LLM call is made for, so it can be attributed in the ledger. */
+export interface LLMUsageContext {
+  /** Firebase uid the call is billed to. */
+  userId: string;
+  /** API route that made the call, e.g. "/api/chat". */
+  route: string;
+}
+
+/** Model tasks, plus the embedding calls retrieval makes. */
+export type LLMUsageTask = LLMTask | "embedding";
+
+export interface LLMUsageEntry extends LLMUsageContext {
+  /** Query/task name, e.g. "HealthNote" or "chat". */
+  taskName: string;
+  task: LLMUsageTask;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  createdAt: Date;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface LLMQuota {
+  monthlyUsd: number | null;
+  monthlyTokens: number | null;
+}
+
+export type QuotaCheck =
+  | { ok: true; month: LLMUsageTotals; quota: LLMQuota }
+  | { ok: false; month: LLMUsageTotals; quota: LLMQuota; reason: string };
+
+const EMPTY_TOTALS: LLMUsageTotals = {
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+};
+
+// ---------------------------------------------------------------------------
+// Period helpers
+// ---------------------------------------------------------------------------
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function totalsCollection(userId: string) {
+  return getAdminDb().collection("users").doc(userId).collection("llmUsageTotals");
+}
+
+function toTotals(data: DocumentData | undefined): LLMUsageTotals {
+  if (!data) return { ...EMPTY_TOTALS };
+  return {
+    calls: data.calls ?? 0,
+    inputTokens: data.inputTokens ?? 0,
+    outputTokens: data.outputTokens ?? 0,
+    totalTokens: data.totalTokens ?? 0,
+    costUsd: data.costUsd ?? 0,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Appends a ledger entry for one LLM call and bumps the day/month totals.
+ * Never throws: a ledger failure is logged but must not fail the user's request.
+ */
+export async function recordLLMUsage(
+  context: LLMUsageContext,
+  call: { taskName: string; task: LLMUsageTask; model: string; usage: LanguageModelUsage },
+): Promise<void> {
+  try {
+    const now = new Date();
+    const inputTokens = call.usage.inputTokens ?? 0;
+    const outputTokens = call.usage.outputTokens ?? 0;
+    const totalTokens = call.usage.totalTokens ?? inputTokens + outputTokens;
+    const costUsd = estimateCostUsd(call.model, call.usage);
+
+    const entry: LLMUsageEntry = {
+      userId: context.userId,
+      route: context.route,
+      taskName: call.taskName,
+      task: call.task,
+      model: call.model,
+      inputTokens,
+      outputTokens,
+      totalTokens,
+      costUsd,
+      createdAt: now,
+    };
+
+    const db = getAdminDb();
+    const batch = db.batch();
+    batch.set(db.collection("users").doc(context.userId).collection("llmUsage").doc(), entry);
+
+    const increments = {
+      calls: FieldValue.increment(1),
+      inputTokens: FieldValue.increment(inputTokens),
+      outputTokens: FieldValue.increment(outputTokens),
+      totalTokens: FieldValue.increment(totalTokens),
+      costUsd: FieldValue.increment(costUsd),
+      updatedAt: now,
+    };
+    const totals = totalsCollection(context.userId);
+    batch.set(totals.doc(`day-${dayKey(now)}`), { ...increments, period: dayKey(now) }, { merge: true });
+    batch.set(totals.doc(`month-${monthKey(now)}`), { ...increments, period: monthKey(now) }, { merge: true });
+
+    await batch.commit();
+  } catch (err) {
+    console.error("[llm-usage] Failed to record usage:", err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/** Totals for today and the current month (UTC). */
+export async function getUsageTotals(
+  userId: string,
+  now: Date = new Date(),
+): Promise<{ day: LLMUsageTotals; month: LLMUsageTotals }> {
+  const totals = totalsCollection(userId);
+  const [daySnap, monthSnap] = await Promise.all([
+    totals.doc(`day-${dayKey(now)}`).get(),
+    totals.doc(`month-${monthKey(now)}`).get(),
+  ]);
+  return { day: toTotals(daySnap.data()), month: toTotals(monthSnap.data()) };
+}
+
+/** Daily totals for the last `days` days (oldest first), including days with no usage. */
+export async function getDailyUsage(
+  userId: string,
+  days: number,
+  now: Date = new Date(),
+): Promise<Array<LLMUsageTotals & { date: string }>> {
+  const dates = Array.from({ length: days }, (_, i) => {
+    const d = new Date(now);
+    d.setUTCDate(d.getUTCDate() - (days - 1 - i));
+    return dayKey(d);
+  });
+  const totals = totalsCollection(userId);
+  const snaps = await getAdminDb().getAll(...dates.map((date) => totals.doc(`day-${date}`)));
+  return snaps.map((snap, i) => ({ date: dates[i], ...toTotals(snap.data()) }));
+}
+
+// ---------------------------------------------------------------------------
+// Quotas
+// ---------------------------------------------------------------------------
+
+function parseLimit(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** The user's monthly quota: their `_llmQuotas/{uid}` override, else the env default. */
+export async function getLLMQuota(userId: string): Promise<LLMQuota> {
+  const snap = await getAdminDb().collection("_llmQuotas").doc(userId).get();
+  const data = snap.data();
+  return {
+    monthlyUsd:
+      typeof data?.monthlyUsd === "number" ? data.monthlyUsd : parseLimit(process.env.LLM_MONTHLY_QUOTA_USD),
+    monthlyTokens:
+      typeof data?.monthlyTokens === "number"
+        ? data.monthlyTokens
+        : parseLimit(process.env.LLM_MONTHLY_QUOTA_TOKENS),
+  };
+}
+
+/** Checks whether the user still has monthly quota left. */
+export async function checkLLMQuota(userId: string): Promise<QuotaCheck> {
+  const [quota, { month }] = await Promise.all([getLLMQuota(userId), getUsageTotals(userId)]);
+
+  if (quota.monthlyUsd != null && month.costUsd >= quota.monthlyUsd) {
+    return {
+      ok: false,
+      month,
+      quota,
+      reason: `Monthly AI usage limit of $${quota.monthlyUsd.toFixed(2)} reached.`,
+    };
+  }
+  if (quota.monthlyTokens != null && month.totalTokens >= quota.monthlyTokens) {
+    return {
+      ok: false,
+      month,
+      quota,
+      reason: `Monthly AI usage limit of ${quota.monthlyTokens.toLocaleString("en-US")} tokens reached.`,
+    };
+  }
+  return { ok: true, month, quota };
+}
@@ -0,0 +1,114 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isPrivateHost, publicAgent, publicLookup } from "./private-host";
+
+const dns = vi.hoisted(() => ({ addresses: new Map<string, { address: string; family: number }[]>() }));
+
+vi.mock("dns", () => ({
+  lookup: (
+    hostname: string,
+    _options: object,
+    callback: (err: Error | null, addresses: { address: string; family: number }[]) => void,
+  ) => {
+    const addresses = dns.addresses.get(hostname);
+    setImmediate(() => (addresses ? callback(null, addresses) : callback(new Error(`ENOTFOUND ${hostname}`), [])));
+  },
+}));
+
+const hostname = (url: string) => new URL(url).hostname;
+
+/** publicLookup as a promise of [address or addresses, family]. */
+function lookup(host: string, options: { all?: boolean } = {}) {
+  return new Promise<[unknown, number | undefined]>((resolve, reject) =>
+    publicLookup(host, options, (err, address, family) => (err ? reject(err) : resolve([address, family]))),
+  );
+}
+
+afterEach(() => {
+  dns.addresses.clear();
+});
+
+describe("isPrivateHost", () => {
+  it.each([
+    "https://localhost/",
+    "https://calendar.localhost/",
+    "https://127.0.0.1/",
+    "https://2130706433/", // 127.0.0.1 as a number
+    "https://10.1.2.3/",
+    "https://172.16.0.1/",
+    "https://192.168.1.1/",
+    "https://169.254.169.254/",
+    "https://[::1]/",
+    "https://[::ffff:127.0.0.1]/",
+    "https://[fd00::1]/",
+    "https://[fe80::1]/",
+  ])("rejects %s", (url) => {
+    expect(isPrivateHost(hostname(url))).toBe(true);
+  });
+
+  it.each([
+    "https://fcm.googleapis.com/fcm/send/abc",
+    "https://updates.push.services.mozilla.com/wpush/v2/abc",
+    "https://172.32.0.1/",
+    "https://[2001:db8::1]/",
+  ])("accepts %s", (url) => {
+    expect(isPrivateHost(hostname(url))).toBe(false);
+  });
+});
+
+describe("publicLookup", () => {
+  it("passes on public addresses", async () => {
+    dns.addresses.set("dav.example.com", [
+      { address: "93.184.215.14", family: 4 },
+      { address: "2606:2800:21f:cb07:6820:80da:af6b:8b2c", family: 6 },
+    ]);
+
+    await expect(lookup("dav.example.com")).resolves.toEqual(["93.184.215.14", 4]);
+    await expect(lookup("dav.example.com", { all: true })).resolves.toEqual([
+      dns.addresses.get("dav.example.com"),
+      undefined,
+    ]);
+  });
+
+  it.each([
+    ["loopback", "127.0.0.1", 4],
+    ["metadata service", "169.254.169.254", 4],
+    ["private", "10.0.0.5", 4],
+    ["IPv6 loopback", "::1", 6],
+    ["IPv4-mapped", "::ffff:a00:5", 6],
+  ])("rejects a name resolving to a %s address", async (_label, address, family) => {
+    dns.addresses.set("rebind.example.com", [
+      { address: "93.184.215.14", family: 4 },
+      { address, family },
+    ]);
+
+    await expect(lookup("rebind.example.com")).rejects.toMatchObject({ code: "EPRIVATEADDRESS" });
+  });
+
+  it("passes on resolution errors", async () => {
+    await expect(lookup("missing.example.com")).rejects.toThrow("ENOTFOUND");
+  });
+});
+
+describe("publicAgent", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  it("does not connect when the name resolves to an internal address", async () => {
+    const handler = vi.fn((_req, res) => res.end("internal"));
+    server = createServer(handler);
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    dns.addresses.set("calendar.example.com", [{ address: "127.0.0.1", family: 4 }]);
+
+    const request = fetch(`http://calendar.example.com:${port}/`, { dispatcher: publicAgent } as RequestInit);
+
+    await expect(request).rejects.toMatchObject({ cause: { code: "EPRIVATEADDRESS" } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Guard for server-side requests to URLs users supply (CalDAV calendars), so
+ * the server can't be pointed at internal services. Push endpoints are
+ * checked against a list of push services instead (lib/reminders/web-push.ts).
+ *
+ * isPrivateHost only sees the hostname as written; a public name can still
+ * resolve to an internal address. Requests therefore go through publicAgent,
+ * which resolves the name itself and connects to the addresses it checked, so
+ * a DNS answer that changes between check and connect doesn't get through.
+ */
+
+import { lookup as dnsLookup } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent } from "undici";
+
+/** Unspecified, loopback, private and link-local ranges; IPv4-mapped IPv6 is checked against the IPv4 ones. */
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/** Whether an IP address is one a server-side request must not reach; false for anything that isn't an IP. */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Whether a URL hostname (as URL.hostname gives it) is one a server-side
+ * request must not reach: localhost and its subdomains, or a private IP.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  return isPrivateAddress(host);
+}
+
+/**
+ * net/tls `lookup` that resolves the hostname and fails if any of its
+ * addresses is private; the socket then connects to the addresses it returns.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked || addresses.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to ${blocked ? `a private address (${blocked.address})` : "no address"}`,
+      );
+      error.code = "EPRIVATEADDRESS";
+      return callback(error, []);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** fetch dispatcher (pass as `dispatcher`) whose connections only reach public addresses. */
+export const publicAgent = new Agent({ connect: { lookup: publicLookup } });
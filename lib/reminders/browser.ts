@@ -0,0 +1,80 @@
+/**
+ * Browser side of push reminders: registers the service worker (public/sw.js)
+ * and manages this device's push subscription. The subscription is stored on
+ * the server through /api/reminders/subscriptions.
+ */
+
+import { authFetch } from "@/lib/api/client";
+import type { PushSubscriptionJSON } from "./types";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/** Whether this browser can receive push notifications (iOS: only when added to the home screen). */
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+/** The browser's IANA time zone, e.g. "America/New_York". */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function toApplicationServerKey(base64url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64url.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(base64url.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** This device's current push subscription, or null. */
+export async function getDeviceSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Asks for notification permission and subscribes this device with the
+ * server's VAPID key. Returns "denied" if the user blocked notifications.
+ */
+export async function subscribeDevice(vapidPublicKey: string): Promise<PushSubscriptionJSON | "denied"> {
+  if ((await Notification.requestPermission()) !== "granted") return "denied";
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  const subscription =
+    existing ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: toApplicationServerKey(vapidPublicKey),
+    }));
+  return subscription.toJSON() as PushSubscriptionJSON;
+}
+
+/** Unsubscribes this device. Returns the endpoint it had, or null if it wasn't subscribed. */
+export async function unsubscribeDevice(): Promise<string | null> {
+  const subscription = await getDeviceSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}
+
+/**
+ * Stops reminders on this device: unsubscribes it and removes it from the
+ * signed-in user's devices. Best effort; used on sign-out so a shared device
+ * doesn't keep showing the previous user's reminders.
+ */
+export async function forgetDevice(): Promise<void> {
+  try {
+    const endpoint = await unsubscribeDevice();
+    if (!endpoint) return;
+    await authFetch("/api/reminders/subscriptions", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint }),
+    });
+  } catch (err) {
+    console.warn("[reminders] Could not remove this device:", err instanceof Error ? err.message : err);
+  }
+}
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readUserMetadataAdmin, readUserSubcollectionAdmin } from "@/lib/firestore/admin";
+import type { Appointment } from "@/lib/firestore/types";
+import { dispatchReminders } from "./dispatch";
+import {
+  getDispatchCursor,
+  getReminderSettings,
+  getSentReminderKeys,
+  listPushSubscriptions,
+  listReminderUserIds,
+  markReminderSent,
+  saveDispatchCursor,
+} from "./store";
+import type { ReminderSettings } from "./types";
+import { sendPush } from "./web-push";
+
+vi.mock("@/lib/firestore/admin", () => ({
+  readUserMetadataAdmin: vi.fn(),
+  readUserSubcollectionAdmin: vi.fn(),
+}));
+
+vi.mock("./store", () => ({
+  getReminderSettings: vi.fn(),
+  listReminderUserIds: vi.fn(),
+  getDispatchCursor: vi.fn(),
+  saveDispatchCursor: vi.fn(),
+  listPushSubscriptions: vi.fn(),
+  deletePushSubscription: vi.fn(),
+  getSentReminderKeys: vi.fn(),
+  markReminderSent: vi.fn(),
+  pruneSentReminders: vi.fn(),
+}));
+
+vi.mock("./web-push", () => ({ sendPush: vi.fn() }));
+
+const NOW = new Date("2026-03-12T13:30:00Z");
+
+const SETTINGS: ReminderSettings = { enabled: true, timeZone: "UTC", quietHours: null };
+
+const subscription = {
+  id: "sub-1",
+  endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+  keys: { p256dh: "p256dh", auth: "auth" },
+};
+
+/** Due at 14:30, so its one-hour reminder goes out at 13:30 (NOW). */
+const appointment: Appointment = {
+  id: "appt-1",
+  userId: "user-1",
+  appointmentTime: new Date("2026-03-12T14:30:00Z"),
+  scheduledOn: new Date("2026-02-20T09:00:00Z"),
+  providerName: "Dr. Lee",
+  clinic: "Main St Clinic",
+  address: "",
+  reason: "Knee follow-up",
+  status: "confirmed",
+  notes: "",
+  agenda: [],
+};
+
+const userIds = (count: number) => Array.from({ length: count }, (_, i) => `user-${String(i).padStart(3, "0")}`);
+
+/** Serves the users in pages the way Firestore would: in id order, after the cursor. */
+function withUsers(ids: string[]) {
+  vi.mocked(listReminderUserIds).mockImplementation(async (after, limit) =>
+    ids.filter((id) => after === null || id > after).slice(0, limit),
+  );
+}
+
+/** Keeps sent keys per user so a second run sees what the first sent. */
+function trackSentKeys() {
+  const sent = new Map<string, Set<string>>();
+  vi.mocked(getSentReminderKeys).mockImplementation(
+    async (userId, keys) => new Set(keys.filter((key) => sent.get(userId)?.has(key))),
+  );
+  vi.mocked(markReminderSent).mockImplementation(async (userId, key) => {
+    sent.set(userId, (sent.get(userId) ?? new Set()).add(key));
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(getDispatchCursor).mockResolvedValue(null);
+  vi.mocked(getReminderSettings).mockResolvedValue(SETTINGS);
+  vi.mocked(listPushSubscriptions).mockResolvedValue([subscription]);
+  vi.mocked(readUserMetadataAdmin).mockResolvedValue(null);
+  vi.mocked(readUserSubcollectionAdmin).mockImplementation(async (_uid, subcollection) =>
+    subcollection === "appointments" ? [appointment] : [],
+  );
+  vi.mocked(getSentReminderKeys).mockResolvedValue(new Set());
+  vi.mocked(sendPush).mockResolvedValue("sent");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe("dispatchReminders", () => {
+  it("sends a due reminder once across runs", async () => {
+    withUsers(["user-1"]);
+    trackSentKeys();
+
+    const first = await dispatchReminders(NOW);
+    const second = await dispatchReminders(new Date(NOW.getTime() + 5 * 60 * 1000));
+
+    expect(first).toEqual({ users: 1, sent: 1, failed: 0, stoppedEarly: false });
+    expect(second).toEqual({ users: 1, sent: 0, failed: 0, stoppedEarly: false });
+    expect(sendPush).toHaveBeenCalledTimes(1);
+    expect(sendPush).toHaveBeenCalledWith(subscription, {
+      title: expect.any(String),
+      body: expect.stringContaining("Knee follow-up"),
+      url: "/appointments?highlight=appt-1",
+      tag: `appointment:appt-1:${appointment.appointmentTime.getTime()}:60`,
+    });
+  });
+
+  it("holds back a reminder that falls in the user's quiet hours", async () => {
+    withUsers(["user-1"]);
+    vi.mocked(getReminderSettings).mockResolvedValue({ ...SETTINGS, quietHours: { start: "13:00", end: "14:00" } });
+
+    const result = await dispatchReminders(NOW);
+
+    expect(result.sent).toBe(0);
+    expect(sendPush).not.toHaveBeenCalled();
+  });
+
+  it("retries a reminder no device took on the next run", async () => {
+    withUsers(["user-1"]);
+    trackSentKeys();
+    vi.mocked(sendPush).mockRejectedValueOnce(new Error("503 Service Unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const first = await dispatchReminders(NOW);
+    const second = await dispatchReminders(new Date(NOW.getTime() + 5 * 60 * 1000));
+
+    expect(first).toMatchObject({ sent: 0, failed: 1 });
+    expect(second).toMatchObject({ sent: 1, failed: 0 });
+  });
+
+  it("skips users without devices", async () => {
+    withUsers(["user-1"]);
+    vi.mocked(listPushSubscriptions).mockResolvedValue([]);
+
+    expect(await dispatchReminders(NOW)).toMatchObject({ users: 0, sent: 0 });
+    expect(readUserSubcollectionAdmin).not.toHaveBeenCalled();
+  });
+
+  it("goes on with the other users when one fails", async () => {
+    withUsers(["user-1", "user-2"]);
+    vi.mocked(getReminderSettings).mockRejectedValueOnce(new Error("unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await dispatchReminders(NOW)).toMatchObject({ users: 1, sent: 1 });
+  });
+
+  it("pages through every user and clears the cursor", async () => {
+    withUsers(userIds(250));
+    vi.mocked(listPushSubscriptions).mockResolvedValue([]);
+
+    await dispatchReminders(NOW);
+
+    expect(vi.mocked(listReminderUserIds).mock.calls).toEqual([
+      [null, 100],
+      ["user-099", 100],
+      ["user-199", 100],
+    ]);
+    expect(getReminderSettings).toHaveBeenCalledTimes(250);
+    expect(saveDispatchCursor).toHaveBeenCalledWith(null);
+  });
+
+  it("stops when out of time and stores where it stopped", async () => {
+    withUsers(userIds(30));
+    // Each user takes a minute; the run has four.
+    let clock = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => clock);
+    vi.mocked(getReminderSettings).mockImplementation(async () => {
+      clock += 60 * 1000;
+      return SETTINGS;
+    });
+
+    const result = await dispatchReminders(NOW);
+
+    expect(result).toMatchObject({ users: 10, stoppedEarly: true });
+    expect(saveDispatchCursor).toHaveBeenCalledWith("user-009");
+  });
+
+  it("continues after the stored cursor", async () => {
+    withUsers(userIds(30));
+    vi.mocked(getDispatchCursor).mockResolvedValue("user-009");
+
+    const result = await dispatchReminders(NOW);
+
+    expect(listReminderUserIds).toHaveBeenCalledWith("user-009", 100);
+    expect(result).toMatchObject({ users: 20, stoppedEarly: false });
+    expect(saveDispatchCursor).toHaveBeenCalledWith(null);
+  });
+});
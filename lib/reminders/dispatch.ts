@@ -0,0 +1,205 @@
+/**
+ * The reminder scheduler: run every few minutes (see /api/reminders/dispatch),
+ * it sends each user with reminders turned on the reminders that came due
+ * since the last runs, to every browser they subscribed, once.
+ *
+ * A run looks back DISPATCH_LOOKBACK_MS, so a late or skipped run is caught up
+ * by the next one; the sent keys keep reminders from repeating.
+ *
+ * Users are read a page at a time and handled USER_CONCURRENCY at once. A run
+ * stops starting users after RUN_BUDGET_MS and stores where it stopped; the
+ * next run starts there, so with many users every one of them is still
+ * reached within a few runs rather than the same ones timing out each time.
+ */
+
+import { readUserMetadataAdmin, readUserSubcollectionAdmin } from "@/lib/firestore/admin";
+import { snapshotToActionItem, snapshotToAppointment } from "@/lib/firestore/mappers";
+import { resolveAppLocale, resolveLanguageTag, type AppLocale } from "@/lib/i18n/locales";
+import { translate } from "@/lib/i18n/translate";
+import { computeDueReminders, type Reminder } from "./schedule";
+import {
+  deletePushSubscription,
+  getReminderSettings,
+  getDispatchCursor,
+  getSentReminderKeys,
+  listPushSubscriptions,
+  listReminderUserIds,
+  markReminderSent,
+  pruneSentReminders,
+  saveDispatchCursor,
+  type StoredPushSubscription,
+} from "./store";
+import type { ReminderPayload } from "./types";
+import { sendPush } from "./web-push";
+
+/** How far back a run picks up reminders it may have missed. */
+const DISPATCH_LOOKBACK_MS = 60 * 60 * 1000;
+
+/** Sent keys older than this are dropped; they are well outside the lookback. */
+const SENT_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+/** Users read from Firestore at a time. */
+const USERS_PER_PAGE = 100;
+
+/** Users handled in parallel; each user's reminders still go out one by one. */
+const USER_CONCURRENCY = 10;
+
+/**
+ * How long a run keeps starting users. Leaves the last users time to finish
+ * within the route's maxDuration (300 s), before the next 5-minute run.
+ */
+const RUN_BUDGET_MS = 4 * 60 * 1000;
+
+/** What one scheduler run did. */
+export type DispatchResult = {
+  /** Users with reminders turned on and at least one device. */
+  users: number;
+  /** Reminders delivered to at least one device. */
+  sent: number;
+  /** Reminders no device took; retried on the next run while in the lookback. */
+  failed: number;
+  /** Whether the run ran out of time; the next run continues after the last user it handled. */
+  stoppedEarly: boolean;
+};
+
+type Locale = { locale: AppLocale; languageTag: string };
+
+function toPayload(reminder: Reminder, { locale, languageTag }: Locale, timeZone: string): ReminderPayload {
+  const when = new Intl.DateTimeFormat(languageTag, {
+    timeZone,
+    dateStyle: "medium",
+    ...(!reminder.allDay && { timeStyle: "short" }),
+  }).format(reminder.dueAt);
+  if (reminder.kind === "appointment") {
+    return {
+      title: translate(locale, "reminders.push.appointmentTitle"),
+      body: translate(locale, "reminders.push.appointmentBody", {
+        name: reminder.title || translate(locale, "reminders.push.appointmentFallback"),
+        when,
+      }),
+      url: reminder.url,
+      tag: reminder.key,
+    };
+  }
+  return {
+    title: translate(locale, "reminders.push.actionItemTitle"),
+    body: translate(locale, "reminders.push.actionItemBody", {
+      name: reminder.title || translate(locale, "reminders.push.actionItemFallback"),
+      when,
+    }),
+    url: reminder.url,
+    tag: reminder.key,
+  };
+}
+
+/**
+ * Sends the payload to each device, forgetting devices whose subscription is
+ * gone. Returns whether at least one device took it.
+ */
+async function deliver(userId: string, subscriptions: StoredPushSubscription[], payload: ReminderPayload): Promise<boolean> {
+  let delivered = false;
+  for (const subscription of subscriptions) {
+    try {
+      if ((await sendPush(subscription, payload)) === "gone") {
+        await deletePushSubscription(userId, subscription.id);
+      } else {
+        delivered = true;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[reminders] Push to ${subscription.id} of user ${userId} failed:`, message);
+    }
+  }
+  return delivered;
+}
+
+async function userLocale(userId: string): Promise<Locale> {
+  const metadata = await readUserMetadataAdmin(userId);
+  const languageTag = resolveLanguageTag(metadata?.preferredLanguage);
+  return { locale: resolveAppLocale(languageTag), languageTag };
+}
+
+async function dispatchForUser(userId: string, now: Date, result: DispatchResult): Promise<void> {
+  const [settings, subscriptions] = await Promise.all([getReminderSettings(userId), listPushSubscriptions(userId)]);
+  if (!settings.enabled || subscriptions.length === 0) return;
+  result.users++;
+
+  const [appointments, actionItems] = await Promise.all([
+    readUserSubcollectionAdmin(userId, "appointments", snapshotToAppointment),
+    readUserSubcollectionAdmin(userId, "actionItems", snapshotToActionItem),
+  ]);
+  const due = computeDueReminders(
+    { appointments, actionItems, timeZone: settings.timeZone, quietHours: settings.quietHours },
+    { from: new Date(now.getTime() - DISPATCH_LOOKBACK_MS), to: now },
+  );
+  const sent = await getSentReminderKeys(userId, due.map((reminder) => reminder.key));
+  const pending = due.filter((reminder) => !sent.has(reminder.key));
+
+  if (pending.length > 0) {
+    const locale = await userLocale(userId);
+    for (const reminder of pending) {
+      if (await deliver(userId, subscriptions, toPayload(reminder, locale, settings.timeZone))) {
+        await markReminderSent(userId, reminder.key, now);
+        result.sent++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+  await pruneSentReminders(userId, new Date(now.getTime() - SENT_RETENTION_MS));
+}
+
+/**
+ * One scheduler run over the users with reminders turned on, from where the
+ * last run stopped, until all are done or the time budget is used up. A
+ * failing user doesn't stop the rest.
+ */
+export async function dispatchReminders(now: Date = new Date()): Promise<DispatchResult> {
+  const result: DispatchResult = { users: 0, sent: 0, failed: 0, stoppedEarly: false };
+  const stopAt = Date.now() + RUN_BUDGET_MS;
+  let cursor = await getDispatchCursor();
+  let lastPage = false;
+
+  while (!lastPage && !result.stoppedEarly) {
+    const userIds = await listReminderUserIds(cursor, USERS_PER_PAGE);
+    lastPage = userIds.length < USERS_PER_PAGE;
+    for (let i = 0; i < userIds.length; i += USER_CONCURRENCY) {
+      if (Date.now() >= stopAt) {
+        result.stoppedEarly = true;
+        break;
+      }
+      const batch = userIds.slice(i, i + USER_CONCURRENCY);
+      await Promise.all(
+        batch.map(async (userId) => {
+          try {
+            await dispatchForUser(userId, now, result);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[reminders] Dispatch for user ${userId} failed:`, message, error);
+          }
+        }),
+      );
+      cursor = batch[batch.length - 1];
+    }
+  }
+
+  await saveDispatchCursor(result.stoppedEarly ? cursor : null);
+  console.log("[reminders] Dispatch:", JSON.stringify(result));
+  return result;
+}
+
+/** Sends a test notification to each of the user's devices. Returns how many took it. */
+export async function sendTestReminder(userId: string): Promise<number> {
+  const [subscriptions, { locale }] = await Promise.all([listPushSubscriptions(userId), userLocale(userId)]);
+  const payload: ReminderPayload = {
+    title: translate(locale, "reminders.push.testTitle"),
+    body: translate(locale, "reminders.push.testBody"),
+    url: "/reminders",
+    tag: "test",
+  };
+  let delivered = 0;
+  for (const subscription of subscriptions) {
+    if (await deliver(userId, [subscription], payload)) delivered++;
+  }
+  return delivered;
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import type { ActionItem, Appointment } from "@/lib/firestore/types";
+import { computeDueReminders, deferPastQuietHours, type ReminderSource } from "./schedule";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function appointment(overrides: Partial<Appointment> = {}): Appointment {
+  return {
+    id: "appt-1",
+    userId: "user-1",
+    appointmentTime: new Date("2026-03-12T14:30:00Z"),
+    scheduledOn: new Date("2026-02-20T09:00:00Z"),
+    providerName: "Dr. Lee",
+    clinic: "Main St Clinic",
+    address: "",
+    reason: "Knee follow-up",
+    status: "confirmed",
+    notes: "",
+    agenda: [],
+    ...overrides,
+  };
+}
+
+function actionItem(overrides: Partial<ActionItem> = {}): ActionItem {
+  return {
+    id: "item-1",
+    userId: "user-1",
+    dueBy: new Date("2026-03-12T04:00:00Z"),
+    type: "Medication",
+    title: "Take vitamin D",
+    description: "",
+    status: "pending",
+    priority: "medium",
+    recurrence: "none",
+    ...overrides,
+  };
+}
+
+function source(overrides: Partial<ReminderSource> = {}): ReminderSource {
+  return { appointments: [], actionItems: [], timeZone: "UTC", quietHours: null, ...overrides };
+}
+
+/** The hour before and including `to`. */
+const hourBefore = (to: string) => ({ from: new Date(new Date(to).getTime() - HOUR_MS), to: new Date(to) });
+
+describe("deferPastQuietHours", () => {
+  const night = { start: "22:00", end: "07:00" };
+
+  it("moves a time inside quiet hours to when they end", () => {
+    const quietHours = { start: "13:00", end: "14:00" };
+
+    expect(deferPastQuietHours(new Date("2026-03-12T13:30:00Z"), quietHours, "UTC")).toEqual(
+      new Date("2026-03-12T14:00:00Z"),
+    );
+  });
+
+  it("moves a late evening time to the next morning in the user's time zone", () => {
+    // 23:30 in New York (EDT) → 07:00 the next day.
+    expect(deferPastQuietHours(new Date("2026-03-11T03:30:00Z"), night, "America/New_York")).toEqual(
+      new Date("2026-03-11T11:00:00Z"),
+    );
+  });
+
+  it("moves an early morning time to the same morning", () => {
+    // 02:00 in Tokyo → 07:00.
+    expect(deferPastQuietHours(new Date("2026-03-11T17:00:00Z"), night, "Asia/Tokyo")).toEqual(
+      new Date("2026-03-11T22:00:00Z"),
+    );
+  });
+
+  it.each([
+    ["outside quiet hours", new Date("2026-03-12T12:00:00Z"), night],
+    ["as quiet hours end", new Date("2026-03-12T07:00:00Z"), night],
+    ["without quiet hours", new Date("2026-03-12T23:00:00Z"), null],
+    ["with an empty window", new Date("2026-03-12T23:00:00Z"), { start: "22:00", end: "22:00" }],
+    ["with malformed times", new Date("2026-03-12T23:00:00Z"), { start: "10pm", end: "7am" }],
+  ])("keeps the time %s", (_label, date, quietHours) => {
+    expect(deferPastQuietHours(date, quietHours, "UTC")).toEqual(date);
+  });
+});
+
+describe("computeDueReminders", () => {
+  it("sends appointment reminders the default day and hour before", () => {
+    const window = { from: new Date("2026-03-11T00:00:00Z"), to: new Date("2026-03-12T14:00:00Z") };
+
+    const reminders = computeDueReminders(source({ appointments: [appointment()] }), window);
+
+    const time = new Date("2026-03-12T14:30:00Z").getTime();
+    expect(reminders).toEqual([
+      expect.objectContaining({
+        key: `appointment:appt-1:${time}:1440`,
+        sendAt: new Date("2026-03-11T14:30:00Z"),
+        title: "Knee follow-up",
+        url: "/appointments?highlight=appt-1",
+      }),
+      expect.objectContaining({ key: `appointment:appt-1:${time}:60`, sendAt: new Date("2026-03-12T13:30:00Z") }),
+    ]);
+  });
+
+  it("only returns reminders in the window", () => {
+    const appointments = [appointment()];
+
+    expect(computeDueReminders(source({ appointments }), hourBefore("2026-03-12T13:29:00Z"))).toEqual([]);
+    expect(computeDueReminders(source({ appointments }), hourBefore("2026-03-12T13:30:00Z"))).toHaveLength(1);
+  });
+
+  it("skips appointments that are no longer open", () => {
+    const appointments = [appointment({ status: "cancelled" })];
+
+    expect(computeDueReminders(source({ appointments }), hourBefore("2026-03-12T13:30:00Z"))).toEqual([]);
+  });
+
+  it("drops an appointment reminder that quiet hours would hold until after the appointment", () => {
+    const late = appointment({ appointmentTime: new Date("2026-03-12T22:30:00Z"), reminderOffsets: [15] });
+    const quietHours = { start: "22:00", end: "07:00" };
+    const window = { from: new Date("2026-03-12T20:00:00Z"), to: new Date("2026-03-13T08:00:00Z") };
+
+    expect(computeDueReminders(source({ appointments: [late], quietHours }), window)).toEqual([]);
+  });
+
+  it("sends a one-off action item reminder at 09:00 on its due day in the user's time zone", () => {
+    // Due midnight on 12 March in New York (EDT).
+    const reminders = computeDueReminders(
+      source({ actionItems: [actionItem()], timeZone: "America/New_York" }),
+      hourBefore("2026-03-12T13:00:00Z"),
+    );
+
+    expect(reminders).toEqual([
+      expect.objectContaining({
+        key: "actionItem:item-1:2026-03-12:0",
+        dueAt: new Date("2026-03-12T13:00:00Z"),
+        allDay: true,
+        sendAt: new Date("2026-03-12T13:00:00Z"),
+        url: "/action-items?highlight=item-1",
+      }),
+    ]);
+  });
+
+  it("holds an action item reminder until quiet hours end", () => {
+    const quietHours = { start: "08:00", end: "10:00" };
+
+    const reminders = computeDueReminders(
+      source({ actionItems: [actionItem()], timeZone: "America/New_York", quietHours }),
+      hourBefore("2026-03-12T14:00:00Z"),
+    );
+
+    expect(reminders).toEqual([
+      expect.objectContaining({ key: "actionItem:item-1:2026-03-12:0", sendAt: new Date("2026-03-12T14:00:00Z") }),
+    ]);
+  });
+
+  it.each([
+    ["done", actionItem({ status: "done" })],
+    ["without a due date", actionItem({ dueBy: new Date(0) })],
+    ["with reminders turned off", actionItem({ reminderOffsets: [] })],
+  ])("skips action items %s", (_label, item) => {
+    const reminders = computeDueReminders(
+      source({ actionItems: [item], timeZone: "America/New_York" }),
+      hourBefore("2026-03-12T13:00:00Z"),
+    );
+
+    expect(reminders).toEqual([]);
+  });
+
+  describe("recurring action items", () => {
+    // Daily at 08:00 in New York from 1 March (EST); 12 March is after the switch to EDT.
+    const daily = actionItem({
+      dueBy: new Date("2026-03-01T13:00:00Z"),
+      recurrence: "daily",
+      recurrenceRule: { frequency: "daily", interval: 1 },
+    });
+
+    it("keeps the time of day across daylight saving changes", () => {
+      const reminders = computeDueReminders(
+        source({ actionItems: [daily], timeZone: "America/New_York" }),
+        hourBefore("2026-03-12T12:30:00Z"),
+      );
+
+      expect(reminders).toEqual([
+        expect.objectContaining({
+          key: "actionItem:item-1:2026-03-12:0",
+          dueAt: new Date("2026-03-12T12:00:00Z"),
+          allDay: false,
+        }),
+      ]);
+    });
+
+    it("skips occurrences already done or skipped", () => {
+      const done: ActionItem = {
+        ...daily,
+        occurrenceHistory: { "2026-03-12": { status: "done", recordedAt: new Date("2026-03-12T11:00:00Z") } },
+      };
+
+      const reminders = computeDueReminders(
+        source({ actionItems: [done], timeZone: "America/New_York" }),
+        hourBefore("2026-03-12T12:30:00Z"),
+      );
+
+      expect(reminders).toEqual([]);
+    });
+  });
+});
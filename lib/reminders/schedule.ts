@@ -0,0 +1,177 @@
+/**
+ * Works out which reminders are due for a user's appointments and action items.
+ * Pure: the dispatcher (lib/reminders/dispatch.ts) supplies the records, the
+ * user's settings and the time window, and sends what comes back.
+ *
+ * Each item has reminder offsets (minutes before it is due; see
+ * lib/firestore/reminders.ts). A reminder goes out at the due time minus the
+ * offset; one that falls in the user's quiet hours waits until they end.
+ *
+ *   Appointment            → due at appointmentTime; open appointments only
+ *   One-off action item    → due at REMINDER_HOUR on its due day; not done/skipped
+ *   Recurring action item  → due at each occurrence not yet done/skipped
+ *
+ * Action items without a due date (dueBy at the epoch) get no reminders.
+ * Times of day are in the user's time zone, not the server's.
+ */
+
+import { isOpenAppointmentStatus } from "@/lib/firestore/appointments";
+import { isPastStatus } from "@/lib/firestore/actionItems";
+import { getOccurrences, getRecurrenceRule, isRecurring } from "@/lib/firestore/recurrence";
+import { getActionItemReminderOffsets, getAppointmentReminderOffsets } from "@/lib/firestore/reminders";
+import type { ActionItem, Appointment } from "@/lib/firestore/types";
+import { fromProcessLocal, fromWallClock, toProcessLocal, toWallClock } from "@/lib/time-zone";
+import type { QuietHours } from "./types";
+
+/** Hour of the day (user's time zone) a one-off action item is due; their due dates have no time. */
+export const REMINDER_HOUR = 9;
+
+const MINUTE_MS = 60 * 1000;
+
+export type ReminderKind = "appointment" | "actionItem";
+
+export type Reminder = {
+  /** Unique per item, occurrence and offset; each reminder is sent once. */
+  key: string;
+  kind: ReminderKind;
+  itemId: string;
+  /** Item title for the notification (may be ""). */
+  title: string;
+  /** When the appointment or action item (occurrence) is due. */
+  dueAt: Date;
+  /** True for one-off action items: due on a day, dueAt is just REMINDER_HOUR. */
+  allDay: boolean;
+  offsetMinutes: number;
+  /** When to send: dueAt minus the offset, moved past quiet hours. */
+  sendAt: Date;
+  /** App path that opens the item (highlighted). */
+  url: string;
+};
+
+export type ReminderWindow = {
+  /** Reminders whose sendAt is after from (exclusive) … */
+  from: Date;
+  /** … and up to to (inclusive) are due. */
+  to: Date;
+};
+
+/** The user's records and settings the schedule is computed from. */
+export type ReminderSource = {
+  appointments: Appointment[];
+  actionItems: ActionItem[];
+  timeZone: string;
+  quietHours: QuietHours | null;
+};
+
+/** "HH:MM" → minutes after midnight, or null if malformed. */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** The instant quiet hours end if the date falls inside them, else the date itself. */
+export function deferPastQuietHours(date: Date, quietHours: QuietHours | null, timeZone: string): Date {
+  const start = quietHours && parseTimeOfDay(quietHours.start);
+  const end = quietHours && parseTimeOfDay(quietHours.end);
+  if (start == null || end == null || start === end) return date;
+
+  const clock = toWallClock(date, timeZone);
+  const minutes = clock.hour * 60 + clock.minute;
+  const wraps = start > end;
+  const quiet = wraps ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+  if (!quiet) return date;
+  // Past midnight the window ends today; before midnight, tomorrow.
+  const day = wraps && minutes >= start ? clock.day + 1 : clock.day;
+  return fromWallClock({ ...clock, day, hour: Math.floor(end / 60), minute: end % 60, second: 0 }, timeZone);
+}
+
+/** Due times (with their day key) of the action item between from and to. */
+function actionItemDueTimes(
+  item: ActionItem,
+  from: Date,
+  to: Date,
+  timeZone: string,
+): { dueAt: Date; key: string; allDay: boolean }[] {
+  if (item.dueBy.getTime() <= 0) return [];
+  if (isRecurring(item)) {
+    const rule = getRecurrenceRule(item);
+    if (!rule) return [];
+    const local: ActionItem = {
+      ...item,
+      dueBy: toProcessLocal(item.dueBy, timeZone),
+      recurrenceRule: { ...rule, until: rule.until ? toProcessLocal(rule.until, timeZone) : rule.until },
+    };
+    return getOccurrences(local, toProcessLocal(from, timeZone), toProcessLocal(to, timeZone))
+      .filter((occurrence) => occurrence.status === "pending")
+      .map((occurrence) => ({ dueAt: fromProcessLocal(occurrence.date, timeZone), key: occurrence.key, allDay: false }));
+  }
+  if (isPastStatus(item.status)) return [];
+  const day = toWallClock(item.dueBy, timeZone);
+  const dueAt = fromWallClock({ ...day, hour: REMINDER_HOUR, minute: 0, second: 0 }, timeZone);
+  const key = `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+  return [{ dueAt, key, allDay: true }];
+}
+
+/**
+ * Reminders whose send time falls in the window, soonest first. Appointment
+ * reminders that quiet hours would delay past the appointment are dropped.
+ */
+export function computeDueReminders(source: ReminderSource, window: ReminderWindow): Reminder[] {
+  const { timeZone, quietHours } = source;
+  const reminders: Reminder[] = [];
+
+  const add = (base: Omit<Reminder, "key" | "offsetMinutes" | "sendAt">, occurrence: string, offsets: number[]) => {
+    for (const offsetMinutes of offsets) {
+      const sendAt = deferPastQuietHours(new Date(base.dueAt.getTime() - offsetMinutes * MINUTE_MS), quietHours, timeZone);
+      if (sendAt <= window.from || sendAt > window.to) continue;
+      if (base.kind === "appointment" && sendAt > base.dueAt) continue;
+      reminders.push({
+        ...base,
+        key: `${base.kind}:${base.itemId}:${occurrence}:${offsetMinutes}`,
+        offsetMinutes,
+        sendAt,
+      });
+    }
+  };
+
+  for (const appointment of source.appointments) {
+    if (!isOpenAppointmentStatus(appointment.status)) continue;
+    add(
+      {
+        kind: "appointment",
+        itemId: appointment.id,
+        title: appointment.reason || appointment.providerName || appointment.clinic,
+        dueAt: appointment.appointmentTime,
+        allDay: false,
+        url: `/appointments?highlight=${encodeURIComponent(appointment.id)}`,
+      },
+      String(appointment.appointmentTime.getTime()),
+      getAppointmentReminderOffsets(appointment),
+    );
+  }
+
+  for (const item of source.actionItems) {
+    const offsets = getActionItemReminderOffsets(item);
+    if (offsets.length === 0) continue;
+    // A reminder sent in the window is for an item due up to the largest offset later,
+    // or due before the window and held back by quiet hours (at most a day).
+    const from = new Date(window.from.getTime() - 24 * 60 * MINUTE_MS);
+    const to = new Date(window.to.getTime() + Math.max(...offsets) * MINUTE_MS);
+    for (const { dueAt, key, allDay } of actionItemDueTimes(item, from, to, timeZone)) {
+      add(
+        {
+          kind: "actionItem",
+          itemId: item.id,
+          title: item.title,
+          dueAt,
+          allDay,
+          url: `/action-items?highlight=${encodeURIComponent(item.id)}`,
+        },
+        key,
+        offsets,
+      );
+    }
+  }
+
+  return reminders.sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+}
@@ -0,0 +1,173 @@
+/**
+ * Reminder settings, push subscriptions and sent reminders – backed by
+ * Firestore (via Admin SDK).
+ *
+ * Firestore document: _reminders/{userId}
+ * Fields:
+ *   enabled    – boolean
+ *   timeZone   – string (IANA time zone, from the browser that turned reminders on)
+ *   quietHours – { start, end } ("HH:MM") | null
+ *   updatedAt  – Timestamp
+ *
+ * Firestore document: _reminders/{userId}/subscriptions/{subscriptionId}
+ * One per browser; the id is a hash of the push endpoint:
+ *   endpoint  – string
+ *   keys      – { p256dh, auth }
+ *   userAgent – string
+ *   createdAt – Timestamp
+ *
+ * Firestore document: _reminders/{userId}/sent/{reminderKey}
+ * Reminders already sent, so each goes out once (see Reminder.key):
+ *   sentAt – Timestamp
+ *
+ * Firestore document: _reminderDispatch/state
+ * Where the scheduler stopped when a run ran out of time (see dispatch.ts):
+ *   cursor    – string | null (last user id handled; null once a run gets through every user)
+ *   updatedAt – Timestamp
+ *
+ * Not readable from the client (see firestore.rules).
+ */
+
+import { createHash } from "crypto";
+import { FieldPath } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import type { PushSubscriptionJSON, QuietHours, ReminderSettings, ReminderStatus } from "./types";
+import { getVapidPublicKey } from "./web-push";
+
+const REMINDERS_COLLECTION = "_reminders";
+const SUBSCRIPTIONS_SUBCOLLECTION = "subscriptions";
+const SENT_SUBCOLLECTION = "sent";
+const DISPATCH_COLLECTION = "_reminderDispatch";
+const DISPATCH_STATE_DOC = "state";
+
+/** Settings for users who never turned reminders on. */
+const DEFAULT_SETTINGS: ReminderSettings = { enabled: false, timeZone: "UTC", quietHours: null };
+
+export type StoredPushSubscription = PushSubscriptionJSON & { id: string };
+
+function settingsRef(userId: string) {
+  return getAdminDb().collection(REMINDERS_COLLECTION).doc(userId);
+}
+
+function subscriptionsCollection(userId: string) {
+  return settingsRef(userId).collection(SUBSCRIPTIONS_SUBCOLLECTION);
+}
+
+function sentCollection(userId: string) {
+  return settingsRef(userId).collection(SENT_SUBCOLLECTION);
+}
+
+/** Subscription document id for a push endpoint. */
+export function subscriptionId(endpoint: string): string {
+  return createHash("sha256").update(endpoint).digest("hex").slice(0, 32);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Settings                                                          */
+/* ------------------------------------------------------------------ */
+
+export async function getReminderSettings(userId: string): Promise<ReminderSettings> {
+  const snap = await settingsRef(userId).get();
+  const data = snap.data();
+  if (!snap.exists || !data) return DEFAULT_SETTINGS;
+  return {
+    enabled: data.enabled === true,
+    timeZone: typeof data.timeZone === "string" ? data.timeZone : DEFAULT_SETTINGS.timeZone,
+    quietHours: (data.quietHours ?? null) as QuietHours | null,
+  };
+}
+
+export async function saveReminderSettings(userId: string, settings: ReminderSettings): Promise<void> {
+  await settingsRef(userId).set({ ...settings, updatedAt: new Date() });
+}
+
+/** Users with reminders turned on, a page at a time in id order, starting after the given user id. */
+export async function listReminderUserIds(after: string | null, limit: number): Promise<string[]> {
+  let query = getAdminDb()
+    .collection(REMINDERS_COLLECTION)
+    .where("enabled", "==", true)
+    .orderBy(FieldPath.documentId())
+    .limit(limit);
+  if (after) query = query.startAfter(after);
+  const snap = await query.get();
+  return snap.docs.map((doc) => doc.id);
+}
+
+/** The user id the last unfinished scheduler run stopped after, or null to start from the first user. */
+export async function getDispatchCursor(): Promise<string | null> {
+  const snap = await getAdminDb().collection(DISPATCH_COLLECTION).doc(DISPATCH_STATE_DOC).get();
+  const cursor = snap.data()?.cursor;
+  return typeof cursor === "string" ? cursor : null;
+}
+
+export async function saveDispatchCursor(cursor: string | null): Promise<void> {
+  await getAdminDb().collection(DISPATCH_COLLECTION).doc(DISPATCH_STATE_DOC).set({ cursor, updatedAt: new Date() });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Subscriptions                                                     */
+/* ------------------------------------------------------------------ */
+
+export async function listPushSubscriptions(userId: string): Promise<StoredPushSubscription[]> {
+  const snap = await subscriptionsCollection(userId).get();
+  return snap.docs.map((doc) => {
+    const data = doc.data();
+    return { id: doc.id, endpoint: data.endpoint, keys: { p256dh: data.keys?.p256dh, auth: data.keys?.auth } };
+  });
+}
+
+/** Adds (or refreshes) a browser's subscription. */
+export async function savePushSubscription(
+  userId: string,
+  subscription: PushSubscriptionJSON,
+  userAgent: string,
+): Promise<void> {
+  await subscriptionsCollection(userId).doc(subscriptionId(subscription.endpoint)).set({
+    endpoint: subscription.endpoint,
+    keys: subscription.keys,
+    userAgent,
+    createdAt: new Date(),
+  });
+}
+
+export async function deletePushSubscription(userId: string, id: string): Promise<void> {
+  await subscriptionsCollection(userId).doc(id).delete();
+  console.log(`[reminder-store] Removed push subscription ${id} of user ${userId}`);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Sent reminders                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Which of the reminder keys were already sent. */
+export async function getSentReminderKeys(userId: string, keys: string[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+  const snaps = await getAdminDb().getAll(...keys.map((key) => sentCollection(userId).doc(key)));
+  return new Set(snaps.filter((snap) => snap.exists).map((snap) => snap.id));
+}
+
+export async function markReminderSent(userId: string, key: string, sentAt: Date): Promise<void> {
+  await sentCollection(userId).doc(key).set({ sentAt });
+}
+
+/** Forgets reminders sent before the cutoff; they can no longer come due again. */
+export async function pruneSentReminders(userId: string, before: Date): Promise<void> {
+  const snap = await sentCollection(userId).where("sentAt", "<", before).get();
+  if (snap.empty) return;
+  const batch = getAdminDb().batch();
+  snap.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+}
+
+/* ------------------------------------------------------------------ */
+/*  Status                                                            */
+/* ------------------------------------------------------------------ */
+
+/** What the Reminders screen shows; leaves out subscription keys. */
+export async function getReminderStatus(userId: string): Promise<ReminderStatus> {
+  const [settings, devices] = await Promise.all([
+    getReminderSettings(userId),
+    subscriptionsCollection(userId).count().get(),
+  ]);
+  return { ...settings, deviceCount: devices.data().count, vapidPublicKey: getVapidPublicKey() };
+}
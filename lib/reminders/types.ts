@@ -0,0 +1,52 @@
+/**
+ * Reminder types shared by the scheduler, the reminder routes and the
+ * Reminders screen. Dates are ISO strings where these are sent as JSON.
+ */
+
+/**
+ * A time window in the user's time zone when reminders wait, e.g. 22:00 – 07:00.
+ * start and end are "HH:MM" (24-hour); a window that ends before it starts
+ * runs past midnight.
+ */
+export type QuietHours = {
+  start: string;
+  end: string;
+};
+
+/** A user's reminder settings, for all their devices. */
+export type ReminderSettings = {
+  /** Whether reminders are sent at all (turning off keeps the devices). */
+  enabled: boolean;
+  /** IANA time zone the quiet hours and action item due days are in. */
+  timeZone: string;
+  quietHours: QuietHours | null;
+};
+
+/** What the Reminders screen shows. */
+export type ReminderStatus = ReminderSettings & {
+  /** Devices (browsers) subscribed to push. */
+  deviceCount: number;
+  /** Key browsers subscribe with; null if web push isn't configured on the server. */
+  vapidPublicKey: string | null;
+};
+
+/** A browser's push subscription, as PushSubscription.toJSON() returns it. */
+export type PushSubscriptionJSON = {
+  endpoint: string;
+  keys: {
+    /** The browser's P-256 public key (base64url). */
+    p256dh: string;
+    /** Authentication secret (base64url). */
+    auth: string;
+  };
+};
+
+/** What the service worker receives in a push message (public/sw.js). */
+export type ReminderPayload = {
+  title: string;
+  body: string;
+  /** App path to open, e.g. "/appointments?highlight=abc". */
+  url: string;
+  /** Notifications with the same tag replace each other. */
+  tag: string;
+};
@@ -0,0 +1,172 @@
+/**
+ * Web Push sender: encrypts a message for one browser subscription (RFC 8291,
+ * aes128gcm) and posts it to the subscription's push service with a VAPID
+ * signature (RFC 8292). Server only.
+ *
+ * Keys come from the environment (generate a pair as shown in the README):
+ *   VAPID_PUBLIC_KEY  – uncompressed P-256 public key, base64url (also given
+ *                       to browsers as applicationServerKey)
+ *   VAPID_PRIVATE_KEY – the private key, base64url
+ *   VAPID_SUBJECT     – contact for push services, "mailto:…" or "https://…"
+ */
+
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign, type KeyObject } from "crypto";
+import type { PushSubscriptionJSON } from "./types";
+
+/** How long a push service keeps an undelivered message (the device may be offline). */
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/** VAPID tokens may be valid for at most 24 hours. */
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const RECORD_SIZE = 4096;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Hosts of the push services browsers subscribe with: Chrome and other
+ * Chromium browsers (FCM), Firefox, Safari and Edge on Windows. The server
+ * posts to subscription endpoints, so only these are accepted.
+ */
+const PUSH_SERVICE_HOSTS = [
+  /^fcm\.googleapis\.com$/,
+  /^updates\.push\.services\.mozilla\.com$/,
+  /\.push\.apple\.com$/,
+  /\.notify\.windows\.com$/,
+];
+
+type VapidConfig = {
+  publicKey: string;
+  privateKey: KeyObject;
+  subject: string;
+};
+
+let cachedConfig: VapidConfig | null | undefined;
+
+/** The VAPID public key browsers subscribe with, or null if push isn't configured. */
+export function getVapidPublicKey(): string | null {
+  return getVapidConfig()?.publicKey ?? null;
+}
+
+/** Whether a subscription endpoint is an https URL on a known push service. */
+export function isPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.username || url.password || url.port) return false;
+  return PUSH_SERVICE_HOSTS.some((host) => host.test(url.hostname));
+}
+
+function getVapidConfig(): VapidConfig | null {
+  if (cachedConfig !== undefined) return cachedConfig;
+  const publicKey = process.env.VAPID_PUBLIC_KEY?.trim();
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim();
+  const subject = process.env.VAPID_SUBJECT?.trim();
+  if (!publicKey || !privateKey || !subject) {
+    cachedConfig = null;
+    return null;
+  }
+  const point = Buffer.from(publicKey, "base64url");
+  if (point.length !== 65 || point[0] !== 0x04) throw new Error("VAPID_PUBLIC_KEY is not an uncompressed P-256 key");
+  const d = Buffer.alloc(32);
+  const raw = Buffer.from(privateKey, "base64url");
+  raw.copy(d, 32 - raw.length);
+  cachedConfig = {
+    publicKey,
+    subject,
+    privateKey: createPrivateKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        d: d.toString("base64url"),
+        x: point.subarray(1, 33).toString("base64url"),
+        y: point.subarray(33).toString("base64url"),
+      },
+      format: "jwk",
+    }),
+  };
+  return cachedConfig;
+}
+
+/** ES256 JWT for the push service at the endpoint's origin. */
+function vapidToken(config: VapidConfig, endpoint: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const header = encode({ typ: "JWT", alg: "ES256" });
+  const claims = encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: config.subject,
+  });
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: config.privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${header}.${claims}.${signature.toString("base64url")}`;
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/** The message body encrypted for the subscription: one aes128gcm record with its header. */
+export function encrypt(subscription: PushSubscriptionJSON, plaintext: Buffer): Buffer {
+  const userAgentPublic = Buffer.from(subscription.keys.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.keys.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublic, serverPublic]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const salt = randomBytes(16);
+  const key = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const cipher = createCipheriv("aes-128-gcm", key, nonce);
+  // 0x02 marks the last (only) record; no padding.
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublic.length, 20);
+  return Buffer.concat([header, serverPublic, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * Sends one push message. Returns "gone" if the subscription no longer exists
+ * (the browser unsubscribed or the user blocked notifications) or isn't on a
+ * known push service, so the caller can forget it; throws if push isn't
+ * configured or the push service fails.
+ */
+export async function sendPush(subscription: PushSubscriptionJSON, payload: object): Promise<"sent" | "gone"> {
+  const config = getVapidConfig();
+  if (!config) throw new Error("Web push is not configured (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT)");
+  if (!isPushEndpoint(subscription.endpoint)) return "gone";
+
+  const res = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: `vapid t=${vapidToken(config, subscription.endpoint)}, k=${config.publicKey}`,
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: "high",
+    },
+    body: new Uint8Array(encrypt(subscription, Buffer.from(JSON.stringify(payload)))),
+    cache: "no-store",
+    // Push services answer directly; a redirect could point the request at an internal host.
+    redirect: "error",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (res.status === 404 || res.status === 410) return "gone";
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`Push service returned ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+  return "sent";
+}
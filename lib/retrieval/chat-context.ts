@@ -0,0 +1,184 @@
+import { isOpenAppointmentStatus } from "@/lib/firestore/appointments";
+import type { ActionItem, HealthNote, SessionMetadata } from "@/lib/firestore/types";
+import { retrieveItems, type RetrievalItem, type RetrievalOptions } from "./retrieve";
+
+/**
+ * The record lists the chat prompt is built from. Appointment and document
+ * dates are ISO strings, the others Dates, so they are read via toDate.
+ */
+export type RetrievableContext = {
+  healthNotes?: HealthNote[];
+  actionItems?: ActionItem[];
+  sessionMetadata?: SessionMetadata[];
+  appointments?: {
+    id: string;
+    appointmentTime: string;
+    providerName?: string;
+    clinic?: string;
+    reason?: string;
+    status?: string;
+  }[];
+  documents?: { id: string; summary: string; uploadedAt: string }[];
+};
+
+export interface ChatContextSelection<T extends RetrievableContext> {
+  /** The context with only the selected records. */
+  context: T;
+  /** Records left out to stay within the budget. */
+  omitted: number;
+}
+
+const DEFAULT_BUDGET_TOKENS = 3000;
+
+/** Recent and upcoming records kept in the prompt whatever the question is. */
+const PINNED = {
+  /** Next appointments from now that are still going ahead. */
+  upcomingAppointments: 3,
+  /** Open action items due up to this many days ahead (overdue ones included), soonest first. */
+  actionItemDays: 7,
+  actionItems: 5,
+  /** Most recent past sessions. */
+  recentSessions: 2,
+  /** Health notes from the last this-many days, newest first. */
+  healthNoteDays: 14,
+  healthNotes: 3,
+  /** Documents uploaded in the last this-many days, newest first. */
+  documentDays: 7,
+  documents: 2,
+} as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+/** Prompt token budget for records: `CHAT_CONTEXT_TOKEN_BUDGET`, else 3000. */
+export function resolveContextBudget(): number {
+  const configured = Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_BUDGET_TOKENS;
+}
+
+/** Keys of the first `count` items matching `include`, ordered by `date` (ascending unless `newestFirst`). */
+function pick<T extends { id: string }>(
+  kind: string,
+  items: T[],
+  date: (item: T) => Date,
+  include: (item: T) => boolean,
+  count: number,
+  newestFirst = false,
+): string[] {
+  return items
+    .filter(include)
+    .sort((a, b) => (date(a).getTime() - date(b).getTime()) * (newestFirst ? -1 : 1))
+    .slice(0, count)
+    .map((item) => `${kind}/${item.id}`);
+}
+
+function getPinnedKeys(context: RetrievableContext, now: Date): Set<string> {
+  const t = now.getTime();
+  return new Set([
+    ...pick(
+      "appointments",
+      context.appointments ?? [],
+      (a) => toDate(a.appointmentTime),
+      // Appointments sent without a status predate statuses and count as scheduled.
+      (a) => toDate(a.appointmentTime).getTime() >= t && isOpenAppointmentStatus(a.status ?? "scheduled"),
+      PINNED.upcomingAppointments,
+    ),
+    ...pick(
+      "actionItems",
+      context.actionItems ?? [],
+      (a) => toDate(a.dueBy),
+      (a) =>
+        a.status !== "done" &&
+        a.status !== "skipped" &&
+        toDate(a.dueBy).getTime() <= t + PINNED.actionItemDays * MS_PER_DAY,
+      PINNED.actionItems,
+    ),
+    ...pick(
+      "sessionMetadata",
+      context.sessionMetadata ?? [],
+      (s) => toDate(s.date),
+      () => true,
+      PINNED.recentSessions,
+      true,
+    ),
+    ...pick(
+      "healthNotes",
+      context.healthNotes ?? [],
+      (n) => toDate(n.date),
+      (n) => toDate(n.date).getTime() >= t - PINNED.healthNoteDays * MS_PER_DAY,
+      PINNED.healthNotes,
+      true,
+    ),
+    ...pick(
+      "documents",
+      context.documents ?? [],
+      (d) => toDate(d.uploadedAt),
+      (d) => toDate(d.uploadedAt).getTime() >= t - PINNED.documentDays * MS_PER_DAY,
+      PINNED.documents,
+      true,
+    ),
+  ]);
+}
+
+/** One retrieval item per record; the text is roughly what the prompt shows for it. */
+function toRetrievalItems(context: RetrievableContext, pinned: Set<string>): RetrievalItem[] {
+  const item = (key: string, text: string): RetrievalItem => ({ key, text, pinned: pinned.has(key) });
+  return [
+    ...(context.healthNotes ?? []).map((n) =>
+      item(`healthNotes/${n.id}`, `Health note (${n.type}): ${n.title}. ${n.description}`),
+    ),
+    ...(context.actionItems ?? []).map((a) =>
+      item(
+        `actionItems/${a.id}`,
+        `Action item (${a.type}, ${a.status}): ${a.title}. ${a.description}${a.medication ? ` Medication: ${a.medication.name}` : ""}`,
+      ),
+    ),
+    ...(context.sessionMetadata ?? []).map((s) =>
+      item(`sessionMetadata/${s.id}`, `Past visit: ${s.title}. ${s.summary}`),
+    ),
+    ...(context.appointments ?? []).map((a) =>
+      item(
+        `appointments/${a.id}`,
+        [`Appointment on ${toDate(a.appointmentTime).toISOString()}`, a.providerName, a.clinic, a.reason, a.status]
+          .filter(Boolean)
+          .join(". "),
+      ),
+    ),
+    ...(context.documents ?? []).map((d) => item(`documents/${d.id}`, `Document: ${d.summary}`)),
+  ];
+}
+
+/**
+ * Narrows the chat context to the records relevant to `query` within the token
+ * budget, keeping recent and upcoming records pinned. Other fields of the
+ * context (user, language) are passed through unchanged.
+ */
+export async function selectChatContext<T extends RetrievableContext>(
+  context: T,
+  query: string,
+  options: Partial<RetrievalOptions> & { now?: Date } = {},
+): Promise<ChatContextSelection<T>> {
+  const items = toRetrievalItems(context, getPinnedKeys(context, options.now ?? new Date()));
+  const { selected, omitted } = await retrieveItems(items, query, {
+    budgetTokens: options.budgetTokens ?? resolveContextBudget(),
+    embedder: options.embedder,
+    usageContext: options.usageContext,
+  });
+  const keep = <R extends { id: string }>(kind: string, records: R[] | undefined): R[] | undefined =>
+    records?.filter((r) => selected.has(`${kind}/${r.id}`));
+  return {
+    // The filtered lists keep their element types; TS can't see that through the generic.
+    context: {
+      ...context,
+      healthNotes: keep("healthNotes", context.healthNotes),
+      actionItems: keep("actionItems", context.actionItems),
+      sessionMetadata: keep("sessionMetadata", context.sessionMetadata),
+      appointments: keep("appointments", context.appointments),
+      documents: keep("documents", context.documents),
+    } as T,
+    omitted,
+  };
+}
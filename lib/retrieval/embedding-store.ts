@@ -0,0 +1,79 @@
+/**
+ * Stored record embeddings – backed by Firestore (via Admin SDK), so unchanged
+ * records are embedded once rather than once per server instance.
+ *
+ * Firestore document: _embeddings/{userId}/vectors/{vectorId}
+ * The id is a hash of the embedder id and the embedded text (see vectorId), so
+ * an edited record or a different embedding model gets a new document:
+ *   embedder  – string (Embedder.id)
+ *   vector    – number[]
+ *   createdAt – Timestamp
+ *
+ * Not readable from the client (see firestore.rules).
+ */
+
+import { createHash } from "crypto";
+import { getAdminDb } from "@/lib/firebase-admin";
+
+const EMBEDDINGS_COLLECTION = "_embeddings";
+const VECTORS_SUBCOLLECTION = "vectors";
+
+/** Vectors per batch; keeps a batch well under Firestore's 10 MiB request limit. */
+const VECTORS_PER_BATCH = 100;
+
+function vectorsCollection(userId: string) {
+  return getAdminDb().collection(EMBEDDINGS_COLLECTION).doc(userId).collection(VECTORS_SUBCOLLECTION);
+}
+
+/** Vector document id for a text embedded by an embedder. */
+export function vectorId(embedderId: string, text: string): string {
+  return createHash("sha256").update(`${embedderId}\n${text}`).digest("hex");
+}
+
+/**
+ * The user's stored vectors for these texts, by text; texts without one are
+ * left out. Never throws: on a read failure the texts are simply embedded again.
+ */
+export async function readEmbeddings(
+  userId: string,
+  embedderId: string,
+  texts: string[],
+): Promise<Map<string, number[]>> {
+  const unique = [...new Set(texts)];
+  const found = new Map<string, number[]>();
+  if (unique.length === 0) return found;
+  try {
+    const vectors = vectorsCollection(userId);
+    const snaps = await getAdminDb().getAll(...unique.map((text) => vectors.doc(vectorId(embedderId, text))));
+    snaps.forEach((snap, i) => {
+      const vector = snap.data()?.vector;
+      if (Array.isArray(vector)) found.set(unique[i], vector as number[]);
+    });
+  } catch (err) {
+    console.error("[embeddings] Failed to read stored vectors:", err instanceof Error ? err.message : err);
+  }
+  return found;
+}
+
+/** Stores vectors by text. Never throws: a failed write only costs a re-embed later. */
+export async function writeEmbeddings(
+  userId: string,
+  embedderId: string,
+  vectors: Map<string, number[]>,
+): Promise<void> {
+  if (vectors.size === 0) return;
+  try {
+    const collection = vectorsCollection(userId);
+    const entries = [...vectors];
+    const createdAt = new Date();
+    for (let i = 0; i < entries.length; i += VECTORS_PER_BATCH) {
+      const batch = getAdminDb().batch();
+      for (const [text, vector] of entries.slice(i, i + VECTORS_PER_BATCH)) {
+        batch.set(collection.doc(vectorId(embedderId, text)), { embedder: embedderId, vector, createdAt });
+      }
+      await batch.commit();
+    }
+  } catch (err) {
+    console.error("[embeddings] Failed to store vectors:", err instanceof Error ? err.message : err);
+  }
+}
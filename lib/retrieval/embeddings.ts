@@ -0,0 +1,182 @@
+import { embedMany } from "ai";
+
+/** Supported embedding provider identifiers. */
+export type EmbeddingProviderName = "openai" | "openai-compatible" | "local";
+
+/** Resolved provider + model for embeddings. */
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  modelId: string;
+}
+
+/** Vectors for a batch of texts, in order, and the input tokens the provider billed for them. */
+export interface EmbeddingResult {
+  embeddings: number[][];
+  tokens: number;
+}
+
+/** Turns texts into vectors. Vectors from different embedders are not comparable. */
+export interface Embedder {
+  /** Provider and model, e.g. "openai:text-embedding-3-small"; part of stored vector ids. */
+  id: string;
+  /** Model id for the usage ledger, e.g. "text-embedding-3-small". */
+  modelId: string;
+  /** Whether vectors are worth storing; local ones are cheaper to compute than to read back. */
+  storeVectors: boolean;
+  embed: (texts: string[]) => Promise<EmbeddingResult>;
+}
+
+interface ProviderEntry {
+  defaultModel: string | undefined;
+  create: (modelId: string) => Promise<Embedder["embed"]>;
+}
+
+// ---------------------------------------------------------------------------
+// Local embeddings (no network, no cost)
+// ---------------------------------------------------------------------------
+
+const LOCAL_DIMENSIONS = 512;
+
+/** Character n-gram size; lets "knee" match "knees" and survives small typos. */
+const LOCAL_NGRAM = 3;
+
+/** Word features count fully; n-grams only nudge the score. */
+const NGRAM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "for", "from", "has", "have", "i", "in", "is",
+  "it", "me", "my", "of", "on", "or", "the", "to", "was", "what", "when", "with", "you", "your",
+]);
+
+/** 32-bit FNV-1a hash. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  // The top bit picks a sign so colliding features tend to cancel rather than add up.
+  vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+}
+
+/**
+ * Hashed bag of words and character n-grams, L2-normalised. Only captures word
+ * overlap, not meaning, but needs no model and works for any language.
+ */
+export function embedLocally(text: string): number[] {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word));
+  for (const word of words) {
+    addFeature(vector, `w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + LOCAL_NGRAM <= padded.length; i++) {
+      addFeature(vector, `g:${padded.slice(i, i + LOCAL_NGRAM)}`, NGRAM_WEIGHT);
+    }
+  }
+  const norm = Math.hypot(...vector);
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+export const LOCAL_EMBEDDER: Embedder = {
+  id: "local:hashed-ngrams",
+  modelId: "hashed-ngrams",
+  storeVectors: false,
+  embed: async (texts) => ({ embeddings: texts.map(embedLocally), tokens: 0 }),
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const PROVIDERS: Record<EmbeddingProviderName, ProviderEntry> = {
+  openai: {
+    defaultModel: "text-embedding-3-small",
+    create: async (modelId) => {
+      const { openai } = await import("@ai-sdk/openai");
+      const model = openai.embedding(modelId);
+      return async (texts) => {
+        const { embeddings, usage } = await embedMany({ model, values: texts });
+        return { embeddings, tokens: usage.tokens };
+      };
+    },
+  },
+
+  // Self-hosted OpenAI-compatible servers (Ollama, vLLM, LM Studio, …).
+  "openai-compatible": {
+    defaultModel: undefined,
+    create: async (modelId) => {
+      const baseURL = process.env.EMBEDDING_BASE_URL ?? process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          'EMBEDDING_BASE_URL (or LLM_BASE_URL) is required when using the "openai-compatible" embedding provider.',
+        );
+      }
+      const { createOpenAI } = await import("@ai-sdk/openai");
+      const provider = createOpenAI({
+        baseURL,
+        apiKey: process.env.LLM_API_KEY ?? "not-needed",
+        name: "openai-compatible",
+      });
+      const model = provider.embedding(modelId);
+      return async (texts) => {
+        const { embeddings, usage } = await embedMany({ model, values: texts });
+        return { embeddings, tokens: usage.tokens };
+      };
+    },
+  },
+
+  local: {
+    defaultModel: "hashed-ngrams",
+    create: async () => LOCAL_EMBEDDER.embed,
+  },
+};
+
+const SUPPORTED_PROVIDERS = Object.keys(PROVIDERS) as EmbeddingProviderName[];
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves the embedding provider and model from environment configuration.
+ *
+ * Provider: `EMBEDDING_PROVIDER`, else `"openai"` when `OPENAI_API_KEY` is set, else `"local"`.
+ * Model:    `EMBEDDING_MODEL`, else the provider's default.
+ */
+export function resolveEmbeddingConfig(): EmbeddingConfig {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured && !SUPPORTED_PROVIDERS.includes(configured as EmbeddingProviderName)) {
+    throw new Error(
+      `Unsupported embedding provider: "${configured}". ` +
+        `Set EMBEDDING_PROVIDER to one of: ${SUPPORTED_PROVIDERS.join(", ")}`,
+    );
+  }
+  const provider = (configured as EmbeddingProviderName | undefined) ??
+    (process.env.OPENAI_API_KEY ? "openai" : "local");
+
+  const modelId = process.env.EMBEDDING_MODEL ?? PROVIDERS[provider].defaultModel;
+  if (!modelId) {
+    throw new Error(`No embedding model configured for provider "${provider}". Set EMBEDDING_MODEL.`);
+  }
+  return { provider, modelId };
+}
+
+/** Creates the configured embedder. */
+export async function createEmbedder(): Promise<Embedder> {
+  const { provider, modelId } = resolveEmbeddingConfig();
+  if (provider === "local") return LOCAL_EMBEDDER;
+  return {
+    id: `${provider}:${modelId}`,
+    modelId,
+    storeVectors: true,
+    embed: await PROVIDERS[provider].create(modelId),
+  };
+}
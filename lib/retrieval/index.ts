@@ -0,0 +1,11 @@
+// Embeddings
+export { createEmbedder, resolveEmbeddingConfig, embedLocally, LOCAL_EMBEDDER } from "./embeddings";
+export type { Embedder, EmbeddingConfig, EmbeddingProviderName, EmbeddingResult } from "./embeddings";
+
+// Retrieval
+export { retrieveItems, estimateTokens } from "./retrieve";
+export type { RetrievalItem, RetrievalOptions, RetrievalResult } from "./retrieve";
+
+// Chat context
+export { selectChatContext, resolveContextBudget } from "./chat-context";
+export type { ChatContextSelection, RetrievableContext } from "./chat-context";
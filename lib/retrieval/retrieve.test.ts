@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recordLLMUsage } from "@/lib/llm";
+import type { Embedder } from "./embeddings";
+import { readEmbeddings, writeEmbeddings } from "./embedding-store";
+import { retrieveItems, type RetrievalItem } from "./retrieve";
+
+vi.mock("@/lib/llm", () => ({ recordLLMUsage: vi.fn() }));
+
+vi.mock("./embedding-store", () => ({
+  readEmbeddings: vi.fn(async () => new Map()),
+  writeEmbeddings: vi.fn(),
+}));
+
+const TOPICS = ["knee", "sleep", "diet"];
+
+/** One dimension per topic word, so similarity is topic overlap; 5 tokens per text. */
+function topicEmbedder(): Embedder {
+  return {
+    id: "test:topics",
+    modelId: "topics",
+    storeVectors: true,
+    embed: vi.fn(async (texts: string[]) => ({
+      embeddings: texts.map((text) => TOPICS.map((topic) => (text.toLowerCase().includes(topic) ? 1 : 0))),
+      tokens: texts.length * 5,
+    })),
+  };
+}
+
+// 10 estimated tokens each (40 characters).
+const item = (key: string, topic: string, pinned = false): RetrievalItem => ({
+  key,
+  text: `${topic} note`.padEnd(40, "."),
+  pinned,
+});
+
+const items = [
+  item("healthNotes/pinned", "diet", true),
+  item("healthNotes/knee-1", "knee"),
+  item("healthNotes/knee-2", "knee"),
+  item("healthNotes/sleep", "sleep"),
+];
+
+const usageContext = { userId: "user-1", route: "/api/chat" };
+
+describe("retrieveItems", () => {
+  let embedder: Embedder;
+
+  beforeEach(() => {
+    embedder = topicEmbedder();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it("selects everything without embedding when it all fits", async () => {
+    const result = await retrieveItems(items, "knee pain", { budgetTokens: 100, embedder });
+
+    expect(result).toEqual({ selected: new Set(items.map((i) => i.key)), omitted: 0 });
+    expect(embedder.embed).not.toHaveBeenCalled();
+  });
+
+  it("keeps pinned items, then fills the budget with the most similar ones", async () => {
+    const result = await retrieveItems(items, "my knee hurts", { budgetTokens: 20, embedder });
+
+    expect(result.selected).toEqual(new Set(["healthNotes/pinned", "healthNotes/knee-1"]));
+    expect(result.omitted).toBe(2);
+  });
+
+  it("leaves out unrelated items even when there is room", async () => {
+    const longKnee = { key: "healthNotes/knee-long", text: "knee surgery".padEnd(160, "."), pinned: false };
+
+    const result = await retrieveItems([items[0], items[1], longKnee, items[3]], "knee", { budgetTokens: 35, embedder });
+
+    // The long note doesn't fit; the sleep note would, but has nothing to do with knees.
+    expect(result.selected).toEqual(new Set(["healthNotes/pinned", "healthNotes/knee-1"]));
+  });
+
+  it("reuses the user's stored vectors and stores only the new ones", async () => {
+    const kneeText = items[1].text;
+    vi.mocked(readEmbeddings).mockResolvedValueOnce(new Map([[kneeText, [1, 0, 0]]]));
+
+    await retrieveItems(items, "knee", { budgetTokens: 20, embedder, usageContext });
+
+    expect(readEmbeddings).toHaveBeenCalledWith("user-1", "test:topics", [kneeText, items[2].text, items[3].text]);
+    // Both knee notes reuse the stored vector; only the query and the sleep note are embedded.
+    expect(embedder.embed).toHaveBeenCalledWith(["knee", items[3].text]);
+    expect(writeEmbeddings).toHaveBeenCalledWith("user-1", "test:topics", new Map([[items[3].text, [0, 1, 0]]]));
+  });
+
+  it("records embedding calls in the user's usage ledger", async () => {
+    await retrieveItems(items, "knee", { budgetTokens: 20, embedder, usageContext });
+
+    expect(recordLLMUsage).toHaveBeenCalledWith(usageContext, {
+      taskName: "retrieval",
+      task: "embedding",
+      model: "topics",
+      usage: expect.objectContaining({ inputTokens: 15, outputTokens: 0, totalTokens: 15 }),
+    });
+  });
+
+  it("falls back to local embeddings when the provider fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(embedder.embed).mockRejectedValue(new Error("provider down"));
+
+    const result = await retrieveItems(items, "sleep", { budgetTokens: 20, embedder, usageContext });
+
+    expect(result.selected).toEqual(new Set(["healthNotes/pinned", "healthNotes/sleep"]));
+    expect(recordLLMUsage).not.toHaveBeenCalled();
+    expect(writeEmbeddings).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { recordLLMUsage, type LLMUsageContext } from "@/lib/llm";
+import { LOCAL_EMBEDDER, createEmbedder, type Embedder } from "./embeddings";
+import { readEmbeddings, writeEmbeddings } from "./embedding-store";
+
+/** One record as seen by retrieval. */
+export interface RetrievalItem {
+  /** Unique within one request, e.g. "healthNotes/abc". */
+  key: string;
+  /** What is embedded and what the item costs in the prompt. */
+  text: string;
+  /** Always included (while the budget allows), regardless of the question. */
+  pinned: boolean;
+}
+
+export interface RetrievalOptions {
+  /** Approximate prompt tokens the selected items may use. */
+  budgetTokens: number;
+  /** Defaults to the configured embedder (see resolveEmbeddingConfig). */
+  embedder?: Embedder;
+  /**
+   * Who the items belong to. Their vectors are stored under the user (see
+   * embedding-store.ts) and embedding calls are recorded in their usage ledger.
+   * Without it every item is embedded and nothing is recorded.
+   */
+  usageContext?: LLMUsageContext;
+}
+
+export interface RetrievalResult {
+  /** Keys of the selected items. */
+  selected: Set<string>;
+  /** How many items were left out. */
+  omitted: number;
+}
+
+/** Rough token estimate (~4 chars per token); close enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Embeds the query and the item texts in one call, reusing the user's stored
+ * item vectors and storing the new ones. The query itself is never stored.
+ */
+async function embedQueryAndItems(
+  embedder: Embedder,
+  query: string,
+  texts: string[],
+  usageContext?: LLMUsageContext,
+): Promise<number[][]> {
+  const store = usageContext && embedder.storeVectors ? usageContext.userId : null;
+  const stored = store ? await readEmbeddings(store, embedder.id, texts) : new Map<string, number[]>();
+  const missing = [...new Set(texts.filter((text) => !stored.has(text)))];
+
+  const { embeddings, tokens } = await embedder.embed([query, ...missing]);
+  const fresh = new Map(missing.map((text, i) => [text, embeddings[i + 1]]));
+
+  if (usageContext && tokens > 0) {
+    await recordLLMUsage(usageContext, {
+      taskName: "retrieval",
+      task: "embedding",
+      model: embedder.modelId,
+      usage: {
+        inputTokens: tokens,
+        inputTokenDetails: { noCacheTokens: tokens, cacheReadTokens: undefined, cacheWriteTokens: undefined },
+        outputTokens: 0,
+        outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined },
+        totalTokens: tokens,
+      },
+    });
+  }
+  if (store) await writeEmbeddings(store, embedder.id, fresh);
+
+  return [embeddings[0], ...texts.map((text) => stored.get(text) ?? fresh.get(text) ?? [])];
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Scores items against the query; falls back to local embeddings if the provider fails. */
+async function scoreItems(
+  items: RetrievalItem[],
+  query: string,
+  { embedder, usageContext }: Pick<RetrievalOptions, "embedder" | "usageContext">,
+): Promise<number[]> {
+  const texts = items.map((item) => item.text);
+  let vectors: number[][];
+  try {
+    vectors = await embedQueryAndItems(embedder ?? (await createEmbedder()), query, texts, usageContext);
+  } catch (err) {
+    console.error("[retrieval] Embedding failed, using local embeddings:", err instanceof Error ? err.message : err);
+    vectors = await embedQueryAndItems(LOCAL_EMBEDDER, query, texts);
+  }
+  const [queryVector, ...itemVectors] = vectors;
+  return itemVectors.map((vector) => cosineSimilarity(queryVector, vector));
+}
+
+/**
+ * Picks the items to put in the prompt for a question: pinned items first, then
+ * the rest by similarity to the query, until the token budget is spent. When
+ * everything fits, nothing is embedded.
+ */
+export async function retrieveItems(
+  items: RetrievalItem[],
+  query: string,
+  { budgetTokens, embedder, usageContext }: RetrievalOptions,
+): Promise<RetrievalResult> {
+  const total = items.reduce((sum, item) => sum + estimateTokens(item.text), 0);
+  if (total <= budgetTokens) {
+    return { selected: new Set(items.map((item) => item.key)), omitted: 0 };
+  }
+
+  const selected = new Set<string>();
+  let used = 0;
+  const take = (item: RetrievalItem): void => {
+    const cost = estimateTokens(item.text);
+    if (used + cost > budgetTokens) return;
+    selected.add(item.key);
+    used += cost;
+  };
+
+  items.filter((item) => item.pinned).forEach(take);
+
+  const candidates = items.filter((item) => !item.pinned);
+  if (candidates.length > 0 && query.trim()) {
+    const scores = await scoreItems(candidates, query, { embedder, usageContext });
+    candidates
+      .map((item, i) => ({ item, score: scores[i] }))
+      // Unrelated items (no overlap at all) aren't worth the tokens.
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .forEach(({ item }) => take(item));
+  }
+
+  return { selected, omitted: items.length - selected.size };
+}
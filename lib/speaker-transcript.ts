@@ -0,0 +1,56 @@
+/**
+ * Speaker-labelled visit transcripts. Diarization splits a recording into turns
+ * by anonymous speaker ("A", "B", …); the user then says which speaker is the
+ * doctor and which the patient, and the labelled text goes to the summary
+ * extractors. Shared by the visit flow (client) and the diarization route.
+ */
+
+/** One diarized utterance. Offsets are milliseconds from the start of the recording. */
+export interface SpeakerTurn {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export const SPEAKER_ROLES = ["doctor", "patient", "other"] as const;
+export type SpeakerRole = (typeof SPEAKER_ROLES)[number];
+
+/** Role per diarized speaker label. */
+export type SpeakerRoles = Partial<Record<string, SpeakerRole>>;
+
+/** Line prefixes in the labelled transcript; English, as the extractor prompts are. */
+const ROLE_PREFIXES: Record<SpeakerRole, string> = {
+  doctor: "Doctor",
+  patient: "Patient",
+  other: "Other speaker",
+};
+
+/** Distinct speakers in order of first appearance. */
+export function getSpeakers(turns: SpeakerTurn[]): string[] {
+  return [...new Set(turns.map((turn) => turn.speaker))];
+}
+
+/**
+ * One "Role: text" line per turn, consecutive turns by the same speaker merged.
+ * Speakers without a role keep their diarization label ("Speaker A").
+ */
+export function formatSpeakerTranscript(turns: SpeakerTurn[], roles: SpeakerRoles): string {
+  const lines: { speaker: string; text: string }[] = [];
+  for (const turn of turns) {
+    const text = turn.text.trim();
+    if (!text) continue;
+    const last = lines[lines.length - 1];
+    if (last?.speaker === turn.speaker) {
+      last.text += ` ${text}`;
+    } else {
+      lines.push({ speaker: turn.speaker, text });
+    }
+  }
+  return lines
+    .map(({ speaker, text }) => {
+      const role = roles[speaker];
+      return `${role ? ROLE_PREFIXES[role] : `Speaker ${speaker}`}: ${text}`;
+    })
+    .join("\n");
+}
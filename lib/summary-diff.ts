@@ -0,0 +1,40 @@
+/**
+ * Compares two versions of a summary list (topics, summary points, action item
+ * titles), e.g. a stored summary and one regenerated from the same transcript.
+ * Items match when they read the same, ignoring case, spacing and end punctuation.
+ */
+
+export type ListChange = "added" | "removed" | "unchanged";
+
+export interface ListDiffEntry {
+  text: string;
+  change: ListChange;
+}
+
+function normalize(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?;:,]+$/, "");
+}
+
+/** The new list in order (added or unchanged), followed by the items that were dropped. */
+export function diffLists(before: string[], after: string[]): ListDiffEntry[] {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  return [
+    ...after.map((text) => ({
+      text,
+      change: (beforeKeys.has(normalize(text)) ? "unchanged" : "added") as ListChange,
+    })),
+    ...before
+      .filter((text) => !afterKeys.has(normalize(text)))
+      .map((text) => ({ text, change: "removed" as ListChange })),
+  ];
+}
+
+/** True when the lists differ in more than order or formatting. */
+export function hasListChanges(diff: ListDiffEntry[]): boolean {
+  return diff.some((entry) => entry.change !== "unchanged");
+}
@@ -0,0 +1,98 @@
+/**
+ * Wall-clock time in IANA time zones, for server code that can't rely on the
+ * process time zone (calendar parsing, reminder scheduling). Built on Intl, so
+ * any zone the runtime knows works; the functions throw a RangeError for
+ * unknown zones (check with isValidTimeZone first).
+ */
+
+/** Date and time as shown on a clock in some time zone. month is 1–12. */
+export type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+/** Whether the runtime knows the IANA time zone, e.g. "Europe/Berlin". */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The time zone if it's a string the runtime knows, else undefined (e.g. from a request body). */
+export function resolveTimeZone(value: unknown): string | undefined {
+  return typeof value === "string" && isValidTimeZone(value) ? value : undefined;
+}
+
+/** What a clock in the time zone shows at the given instant. */
+export function toWallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Offset of a time zone from UTC at the given instant, in milliseconds. */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const clock = toWallClock(date, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a clock in the time zone shows the given wall-clock time. Out of
+ * range fields roll over (day 32 is the next month). Times skipped by a DST
+ * change resolve to an instant an hour off, as in most calendar apps.
+ */
+export function fromWallClock(clock: WallClock, timeZone: string): Date {
+  const wallTime = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  // Correct once more in case the first guess crossed a DST change.
+  const guess = wallTime - timeZoneOffset(new Date(wallTime), timeZone);
+  return new Date(wallTime - timeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * The recurrence engine works in the process time zone. These move an instant
+ * to the Date whose local fields show the user's wall clock, and back, so
+ * occurrences land at the right time of day and on the right weekdays (and
+ * their occurrenceHistory day keys match the ones the app wrote).
+ */
+export function toProcessLocal(date: Date, timeZone: string): Date {
+  const c = toWallClock(date, timeZone);
+  return new Date(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+}
+
+export function fromProcessLocal(date: Date, timeZone: string): Date {
+  return fromWallClock(
+    {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    },
+    timeZone,
+  );
+}
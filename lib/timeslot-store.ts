@@ -2,10 +2,27 @@
  * Timeslot coordination store – backed by Firestore (via Admin SDK)
  * so that all Vercel serverless functions share the same state.
  *
- * Firestore document: _scheduling/current
+ * Each scheduling attempt gets its own session document, owned by one user
+ * and tied to one Vapi call, so concurrent patients never see each other's
+ * slots or confirmations.
+ *
+ * Firestore document: _scheduling/{sessionId}
  * Fields:
- *   timeslots       – Timeslot[]
+ *   userId          – string (owner; security rules restrict reads to them)
+ *   callId          – string | null (Vapi call id, set once the call is created)
+ *   timeslots       – Timeslot[] | null (null until the clinic proposes slots)
  *   confirmedLabel  – string | null
+ *   visitReason     – string | null (why the patient wants the visit; told to the clinic)
+ *   providerId      – string | null (care team member being called; users/{userId}/careTeam)
+ *   providerName    – string | null (provider the clinic booked; from proposeTimeslots)
+ *   clinic          – string | null (clinic or department; from proposeTimeslots)
+ *   address         – string | null (visit address; from proposeTimeslots)
+ *   callStatus      – CallStatus | null (from Vapi status-update webhooks)
+ *   durationSeconds – number | null (from the end-of-call report)
+ *   endedReason     – string | null (from the end-of-call report)
+ *   transcript      – string | null (from the end-of-call report)
+ *   lastHangAt      – Timestamp | null (assistant went silent; from hang webhooks)
+ *   createdAt       – Timestamp
  *   updatedAt       – Timestamp
  */
 
@@ -13,35 +30,149 @@ import { getAdminDb } from "./firebase-admin";
 
 export type Timeslot = { label: string; available: boolean };
 
-const SCHEDULING_DOC = "_scheduling/current";
+/** Where and with whom the proposed slots are, as the clinic told the assistant. */
+export type BookingDetails = {
+  providerName: string | null;
+  clinic: string | null;
+  address: string | null;
+};
+
+/** Vapi call lifecycle status, as reported by status-update server messages. */
+export type CallStatus = "scheduled" | "queued" | "ringing" | "in-progress" | "forwarding" | "ended";
+
+/** Call progress fields written by the Vapi webhook. */
+export type CallProgress = {
+  callStatus?: CallStatus;
+  durationSeconds?: number;
+  endedReason?: string;
+  transcript?: string;
+  lastHangAt?: Date;
+};
+
+export type SchedulingSession = {
+  id: string;
+  userId: string;
+  callId: string | null;
+  timeslots: Timeslot[] | null;
+  confirmedLabel: string | null;
+  visitReason: string | null;
+  providerId: string | null;
+  callStatus: CallStatus | null;
+  durationSeconds: number | null;
+  endedReason: string | null;
+  transcript: string | null;
+} & BookingDetails;
 
-function docRef() {
-  return getAdminDb().doc(SCHEDULING_DOC);
+const SCHEDULING_COLLECTION = "_scheduling";
+
+function sessionRef(sessionId: string) {
+  return getAdminDb().collection(SCHEDULING_COLLECTION).doc(sessionId);
 }
 
 /* ------------------------------------------------------------------ */
-/*  Write helpers (called from API routes)                            */
+/*  Session lifecycle                                                 */
 /* ------------------------------------------------------------------ */
 
-/** Store proposed timeslots and reset any previous confirmation. */
-export async function setTimeslots(slots: Timeslot[]): Promise<void> {
+/** Create a new scheduling session for the given user. Returns the session id. */
+export async function createSchedulingSession(
+  userId: string,
+  visitReason: string | null = null,
+  providerId: string | null = null,
+): Promise<string> {
+  const ref = getAdminDb().collection(SCHEDULING_COLLECTION).doc();
+  const now = new Date();
+  await ref.set({
+    userId,
+    callId: null,
+    timeslots: null,
+    confirmedLabel: null,
+    visitReason,
+    providerId,
+    providerName: null,
+    clinic: null,
+    address: null,
+    callStatus: null,
+    durationSeconds: null,
+    endedReason: null,
+    transcript: null,
+    lastHangAt: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+  console.log(`[timeslot-store] createSchedulingSession: ${ref.id}`);
+  return ref.id;
+}
+
+/** Attach the Vapi call id to a session once the outbound call is created. */
+export async function setSessionCallId(sessionId: string, callId: string): Promise<void> {
+  await sessionRef(sessionId).update({ callId, updatedAt: new Date() });
+  console.log(`[timeslot-store] Session ${sessionId} → call ${callId}`);
+}
+
+/** Read a session, or null if it does not exist. */
+export async function getSchedulingSession(sessionId: string): Promise<SchedulingSession | null> {
+  const snap = await sessionRef(sessionId).get();
+  const data = snap.data();
+  if (!snap.exists || !data) return null;
+  return {
+    id: snap.id,
+    userId: data.userId,
+    callId: data.callId ?? null,
+    timeslots: (data.timeslots ?? null) as Timeslot[] | null,
+    confirmedLabel: data.confirmedLabel ?? null,
+    visitReason: data.visitReason ?? null,
+    providerId: data.providerId ?? null,
+    providerName: data.providerName ?? null,
+    clinic: data.clinic ?? null,
+    address: data.address ?? null,
+    callStatus: data.callStatus ?? null,
+    durationSeconds: data.durationSeconds ?? null,
+    endedReason: data.endedReason ?? null,
+    transcript: data.transcript ?? null,
+  };
+}
+
+/** Find the session attached to a Vapi call id, or null if none. */
+export async function findSessionIdByCallId(callId: string): Promise<string | null> {
+  const snap = await getAdminDb()
+    .collection(SCHEDULING_COLLECTION)
+    .where("callId", "==", callId)
+    .limit(1)
+    .get();
+  return snap.empty ? null : snap.docs[0].id;
+}
+
+/** Record call progress (status, duration, end reason, transcript) on a session. */
+export async function updateCallProgress(sessionId: string, progress: CallProgress): Promise<void> {
+  // Field names only: the transcript is patient health information.
   console.log(
-    `[timeslot-store] setTimeslots: ${slots.length} slot(s)`,
-    JSON.stringify(slots)
-  );
-  await docRef().set(
-    { timeslots: slots, confirmedLabel: null, updatedAt: new Date() },
-    { merge: false }
+    `[timeslot-store] updateCallProgress(${sessionId}): status=${progress.callStatus ?? "-"} fields=${Object.keys(progress).join(",")}`
   );
+  await sessionRef(sessionId).update({ ...progress, updatedAt: new Date() });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Write helpers (called from API routes)                            */
+/* ------------------------------------------------------------------ */
+
+/** Store proposed timeslots (and where they are) on a session and reset any previous confirmation. */
+export async function setTimeslots(sessionId: string, slots: Timeslot[], details: BookingDetails): Promise<void> {
+  // Slots and booking details are health-scheduling information; they stay out of logs.
+  console.log(`[timeslot-store] setTimeslots(${sessionId}): ${slots.length} slot(s)`);
+  await sessionRef(sessionId).update({
+    timeslots: slots,
+    ...details,
+    confirmedLabel: null,
+    updatedAt: new Date(),
+  });
   console.log("[timeslot-store] Firestore document written ✅");
 }
 
-/** Read current timeslots from Firestore. */
-export async function getTimeslots(): Promise<Timeslot[]> {
-  const snap = await docRef().get();
-  const data = snap.data();
-  const slots = (data?.timeslots ?? []) as Timeslot[];
-  console.log(`[timeslot-store] getTimeslots: ${slots.length} slot(s)`);
+/** Read a session's current timeslots from Firestore. */
+export async function getTimeslots(sessionId: string): Promise<Timeslot[]> {
+  const session = await getSchedulingSession(sessionId);
+  const slots = session?.timeslots ?? [];
+  console.log(`[timeslot-store] getTimeslots(${sessionId}): ${slots.length} slot(s)`);
   return slots;
 }
 
@@ -50,12 +181,12 @@ export async function getTimeslots(): Promise<Timeslot[]> {
 /* ------------------------------------------------------------------ */
 
 /**
- * Blocks until the user confirms a timeslot (or timeout).
+ * Blocks until the user confirms a timeslot on this session (or timeout).
  * Uses Firestore onSnapshot so it works across serverless invocations.
  */
-export function waitForConfirmation(timeoutMs: number): Promise<string> {
+export function waitForConfirmation(sessionId: string, timeoutMs: number): Promise<string> {
   console.log(
-    `[timeslot-store] waitForConfirmation started (timeout: ${timeoutMs}ms)`
+    `[timeslot-store] waitForConfirmation(${sessionId}) started (timeout: ${timeoutMs}ms)`
   );
 
   return new Promise<string>((resolve, reject) => {
@@ -69,7 +200,7 @@ export function waitForConfirmation(timeoutMs: number): Promise<string> {
       reject(new Error("Confirmation timed out"));
     }, timeoutMs);
 
-    const unsubscribe = docRef().onSnapshot(
+    const unsubscribe = sessionRef(sessionId).onSnapshot(
       (snap) => {
         if (settled) return;
         const data = snap.data();
@@ -78,9 +209,7 @@ export function waitForConfirmation(timeoutMs: number): Promise<string> {
           settled = true;
           clearTimeout(timer);
           unsubscribe();
-          console.log(
-            `[timeslot-store] ✅ Confirmation received: "${confirmed}"`
-          );
+          console.log(`[timeslot-store] ✅ Confirmation received on session ${sessionId}`);
           resolve(confirmed);
         }
       },
@@ -97,10 +226,10 @@ export function waitForConfirmation(timeoutMs: number): Promise<string> {
 }
 
 /**
- * Mark a timeslot as confirmed (called from confirmTimeslot API route).
+ * Mark a timeslot as confirmed on a session (called from confirmTimeslot API route).
  */
-export async function confirmTimeslot(label: string): Promise<void> {
-  console.log(`[timeslot-store] confirmTimeslot: "${label}"`);
-  await docRef().update({ confirmedLabel: label });
+export async function confirmTimeslot(sessionId: string, label: string): Promise<void> {
+  console.log(`[timeslot-store] confirmTimeslot(${sessionId})`);
+  await sessionRef(sessionId).update({ confirmedLabel: label, updatedAt: new Date() });
   console.log("[timeslot-store] confirmedLabel written ✅");
 }
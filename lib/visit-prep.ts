@@ -0,0 +1,109 @@
+/**
+ * Pre-visit agendas. Before an appointment the prep brief query turns what
+ * happened since the last visit (health notes, open action items, medications,
+ * new documents) into a list of points to raise; the user edits and reorders
+ * it and it is saved on the appointment, to be shown while the visit is recorded.
+ * Shared by the prep page (client) and the prep brief route.
+ */
+
+import type {
+  ActionItem,
+  Appointment,
+  Document as DocumentType,
+  HealthNote,
+  MedicationMetadata,
+  SessionMetadata,
+} from "@/lib/firestore/types";
+import { isMedicationItem } from "@/lib/firestore/medications";
+
+export const AGENDA_CATEGORIES = ["symptom", "actionItem", "medication", "document", "other"] as const;
+export type AgendaCategory = (typeof AGENDA_CATEGORIES)[number];
+
+/** One point to bring up at an appointment. */
+export interface AgendaItem {
+  id: string;
+  text: string;
+  category: AgendaCategory;
+}
+
+/** The records a prep brief is built from. */
+export interface VisitPrepContext {
+  appointmentTime: Date;
+  /** Most recent visit before the appointment; records since then are "new". */
+  lastSession: SessionMetadata | null;
+  healthNotes: HealthNote[];
+  /** Open non-medication action items, overdue ones first. */
+  actionItems: ActionItem[];
+  medications: (ActionItem & { medication: MedicationMetadata })[];
+  documents: DocumentType[];
+}
+
+/** How far back to look when there is no earlier visit. */
+const LOOKBACK_DAYS = 90;
+
+/** Caps per list, so a long history doesn't crowd out the rest of the prompt. */
+const MAX_HEALTH_NOTES = 15;
+const MAX_ACTION_ITEMS = 10;
+const MAX_DOCUMENTS = 5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function isOpen(item: ActionItem): boolean {
+  return item.status !== "done" && item.status !== "skipped";
+}
+
+export function isOverdue(item: ActionItem, now: Date): boolean {
+  return isOpen(item) && item.dueBy.getTime() < now.getTime();
+}
+
+/**
+ * Picks the records relevant to an appointment: health notes and documents
+ * since the last visit before it (or the last 90 days), open action items and
+ * active medications.
+ */
+export function selectVisitPrepContext(
+  record: {
+    healthNotes: HealthNote[];
+    actionItems: ActionItem[];
+    sessionMetadata: SessionMetadata[];
+    documents: DocumentType[];
+  },
+  appointment: Pick<Appointment, "appointmentTime">,
+  now: Date = new Date(),
+): VisitPrepContext {
+  const before = Math.min(appointment.appointmentTime.getTime(), now.getTime());
+  const lastSession =
+    record.sessionMetadata
+      .filter((session) => session.date.getTime() <= before)
+      .sort((a, b) => b.date.getTime() - a.date.getTime())[0] ?? null;
+  const since = lastSession ? lastSession.date.getTime() : before - LOOKBACK_DAYS * MS_PER_DAY;
+
+  const openItems = record.actionItems.filter(isOpen);
+  return {
+    appointmentTime: appointment.appointmentTime,
+    lastSession,
+    healthNotes: record.healthNotes
+      .filter((note) => note.date.getTime() >= since)
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, MAX_HEALTH_NOTES),
+    actionItems: openItems
+      .filter((item) => !isMedicationItem(item))
+      .sort((a, b) => a.dueBy.getTime() - b.dueBy.getTime())
+      .slice(0, MAX_ACTION_ITEMS),
+    medications: openItems.filter(isMedicationItem),
+    documents: record.documents
+      .filter((document) => document.uploadedAt.getTime() >= since)
+      .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())
+      .slice(0, MAX_DOCUMENTS),
+  };
+}
+
+/** True if there is nothing to build an agenda from. */
+export function isVisitPrepContextEmpty(context: VisitPrepContext): boolean {
+  return (
+    context.healthNotes.length === 0 &&
+    context.actionItems.length === 0 &&
+    context.medications.length === 0 &&
+    context.documents.length === 0
+  );
+}
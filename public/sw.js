@@ -0,0 +1,51 @@
+/**
+ * Service worker for reminder notifications (see lib/reminders). Push messages
+ * carry a ReminderPayload: { title, body, url, tag }. Clicking a notification
+ * focuses an open HelloCare tab and shows the item there, or opens a new tab.
+ */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "HelloCare", {
+      body: payload.body || "",
+      tag: payload.tag,
+      icon: "/favicon.ico",
+      data: { url: payload.url || "/" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (open) {
+        try {
+          await open.navigate(url);
+          await open.focus();
+          return;
+        } catch {
+          // Tabs opened before this worker took control can't be navigated.
+        }
+      }
+      await self.clients.openWindow(url);
+    })(),
+  );
+});